@@ -0,0 +1,8 @@
+ALTER TABLE `video_editor_projects`
+  ADD COLUMN `outputMediaId` VARCHAR(191) NULL;
+
+CREATE INDEX `video_editor_projects_outputMediaId_idx` ON `video_editor_projects`(`outputMediaId`);
+
+ALTER TABLE `video_editor_projects`
+  ADD CONSTRAINT `video_editor_projects_outputMediaId_fkey`
+  FOREIGN KEY (`outputMediaId`) REFERENCES `media_objects`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
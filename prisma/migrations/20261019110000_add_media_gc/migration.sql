@@ -0,0 +1,41 @@
+ALTER TABLE `media_objects`
+  ADD COLUMN `ownerUserId` VARCHAR(191) NULL,
+  ADD COLUMN `gcMarkedAt` DATETIME(3) NULL;
+
+CREATE INDEX `media_objects_gcMarkedAt_idx` ON `media_objects`(`gcMarkedAt`);
+
+CREATE TABLE `media_gc_runs` (
+  `id` VARCHAR(191) NOT NULL,
+  `dryRun` BOOLEAN NOT NULL DEFAULT false,
+  `status` VARCHAR(191) NOT NULL DEFAULT 'running',
+  `gracePeriodHours` INTEGER NOT NULL,
+  `scannedCount` INTEGER NOT NULL DEFAULT 0,
+  `markedCount` INTEGER NOT NULL DEFAULT 0,
+  `restoredCount` INTEGER NOT NULL DEFAULT 0,
+  `deletedCount` INTEGER NOT NULL DEFAULT 0,
+  `failedCount` INTEGER NOT NULL DEFAULT 0,
+  `reclaimedBytes` BIGINT NOT NULL DEFAULT 0,
+  `errorMessage` TEXT NULL,
+  `startedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `finishedAt` DATETIME(3) NULL,
+
+  INDEX `media_gc_runs_startedAt_idx`(`startedAt`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+CREATE TABLE `media_gc_user_reclaims` (
+  `id` VARCHAR(191) NOT NULL,
+  `runId` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NULL,
+  `deletedCount` INTEGER NOT NULL,
+  `reclaimedBytes` BIGINT NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  INDEX `media_gc_user_reclaims_runId_idx`(`runId`),
+  INDEX `media_gc_user_reclaims_userId_createdAt_idx`(`userId`, `createdAt`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+ALTER TABLE `media_gc_user_reclaims`
+  ADD CONSTRAINT `media_gc_user_reclaims_runId_fkey`
+  FOREIGN KEY (`runId`) REFERENCES `media_gc_runs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+ALTER TABLE `media_objects`
+  ADD COLUMN `refCount` INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX `media_objects_sha256_idx` ON `media_objects`(`sha256`);
@@ -0,0 +1,5 @@
+ALTER TABLE `global_asset_folders`
+  ADD COLUMN `isShared` BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN `sharedAt` DATETIME(3) NULL;
+
+CREATE INDEX `global_asset_folders_isShared_idx` ON `global_asset_folders`(`isShared`);
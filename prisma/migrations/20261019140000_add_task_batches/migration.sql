@@ -0,0 +1,50 @@
+CREATE TABLE `task_batches` (
+  `id` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NOT NULL,
+  `projectId` VARCHAR(191) NOT NULL,
+  `episodeId` VARCHAR(191) NOT NULL,
+  `kind` VARCHAR(191) NOT NULL,
+  `taskType` VARCHAR(191) NOT NULL,
+  `status` VARCHAR(191) NOT NULL DEFAULT 'running',
+  `selection` JSON NULL,
+  `options` JSON NULL,
+  `quote` JSON NULL,
+  `total` INTEGER NOT NULL DEFAULT 0,
+  `completed` INTEGER NOT NULL DEFAULT 0,
+  `failed` INTEGER NOT NULL DEFAULT 0,
+  `canceled` INTEGER NOT NULL DEFAULT 0,
+  `finishedAt` DATETIME(3) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  INDEX `task_batches_projectId_createdAt_idx`(`projectId`, `createdAt`),
+  INDEX `task_batches_userId_idx`(`userId`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+CREATE TABLE `task_batch_items` (
+  `id` VARCHAR(191) NOT NULL,
+  `batchId` VARCHAR(191) NOT NULL,
+  `targetType` VARCHAR(191) NOT NULL,
+  `targetId` VARCHAR(191) NOT NULL,
+  `taskId` VARCHAR(191) NULL,
+  `dedupeKey` VARCHAR(191) NULL,
+  `status` VARCHAR(191) NOT NULL DEFAULT 'queued',
+  `attempts` INTEGER NOT NULL DEFAULT 0,
+  `payload` JSON NULL,
+  `errorCode` VARCHAR(191) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  UNIQUE INDEX `task_batch_items_batchId_targetId_key`(`batchId`, `targetId`),
+  INDEX `task_batch_items_taskId_idx`(`taskId`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+ALTER TABLE `task_batches`
+  ADD CONSTRAINT `task_batches_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `task_batch_items`
+  ADD CONSTRAINT `task_batch_items_batchId_fkey`
+  FOREIGN KEY (`batchId`) REFERENCES `task_batches`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+ALTER TABLE `tasks`
+  ADD COLUMN `runAfter` DATETIME(3) NULL;
+
+CREATE INDEX `tasks_status_runAfter_idx` ON `tasks`(`status`, `runAfter`);
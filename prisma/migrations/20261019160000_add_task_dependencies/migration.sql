@@ -0,0 +1,10 @@
+CREATE TABLE `task_dependencies` (
+  `id` VARCHAR(191) NOT NULL,
+  `taskId` VARCHAR(191) NOT NULL,
+  `dependsOnTaskId` VARCHAR(191) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  UNIQUE INDEX `task_dependencies_taskId_dependsOnTaskId_key`(`taskId`, `dependsOnTaskId`),
+  INDEX `task_dependencies_dependsOnTaskId_idx`(`dependsOnTaskId`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,22 @@
+ALTER TABLE `novel_promotion_projects` ADD COLUMN `llmCacheEnabled` BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE `llm_response_caches` (
+  `id` VARCHAR(191) NOT NULL,
+  `projectId` VARCHAR(191) NOT NULL,
+  `cacheKey` VARCHAR(191) NOT NULL,
+  `model` VARCHAR(191) NOT NULL,
+  `text` LONGTEXT NOT NULL,
+  `reasoning` LONGTEXT NULL,
+  `promptTokens` INTEGER NOT NULL DEFAULT 0,
+  `completionTokens` INTEGER NOT NULL DEFAULT 0,
+  `sizeBytes` INTEGER NOT NULL DEFAULT 0,
+  `hitCount` INTEGER NOT NULL DEFAULT 0,
+  `expiresAt` DATETIME(3) NOT NULL,
+  `lastUsedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  UNIQUE INDEX `llm_response_caches_projectId_cacheKey_key`(`projectId`, `cacheKey`),
+  INDEX `llm_response_caches_projectId_lastUsedAt_idx`(`projectId`, `lastUsedAt`),
+  INDEX `llm_response_caches_expiresAt_idx`(`expiresAt`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,18 @@
+CREATE TABLE `billing_budgets` (
+  `id` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NOT NULL,
+  `scopeKey` VARCHAR(191) NOT NULL,
+  `projectId` VARCHAR(191) NULL,
+  `monthlyLimit` DECIMAL(18, 6) NOT NULL,
+  `warnPercent` INTEGER NOT NULL DEFAULT 80,
+  `hardStopPercent` INTEGER NOT NULL DEFAULT 100,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  UNIQUE INDEX `billing_budgets_userId_scopeKey_key`(`userId`, `scopeKey`),
+  INDEX `billing_budgets_projectId_idx`(`projectId`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+ALTER TABLE `billing_budgets` ADD CONSTRAINT `billing_budgets_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
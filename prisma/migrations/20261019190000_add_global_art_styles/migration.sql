@@ -0,0 +1,21 @@
+CREATE TABLE `global_art_styles` (
+  `id` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NOT NULL,
+  `name` VARCHAR(191) NOT NULL,
+  `promptZh` TEXT NOT NULL,
+  `promptEn` TEXT NOT NULL,
+  `negativePrompt` TEXT NULL,
+  `referenceImages` TEXT NULL,
+  `modelOverrides` TEXT NULL,
+  `isShared` BOOLEAN NOT NULL DEFAULT false,
+  `sharedAt` DATETIME(3) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  INDEX `global_art_styles_userId_idx`(`userId`),
+  INDEX `global_art_styles_isShared_idx`(`isShared`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+ALTER TABLE `global_art_styles` ADD CONSTRAINT `global_art_styles_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+CREATE TABLE `prompt_template_overrides` (
+  `id` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NOT NULL,
+  `scopeKey` VARCHAR(191) NOT NULL,
+  `projectId` VARCHAR(191) NULL,
+  `promptId` VARCHAR(100) NOT NULL,
+  `locale` VARCHAR(10) NOT NULL,
+  `activeVersion` INTEGER NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  UNIQUE INDEX `prompt_template_overrides_userId_scopeKey_promptId_locale_key`(`userId`, `scopeKey`, `promptId`, `locale`),
+  INDEX `prompt_template_overrides_projectId_idx`(`projectId`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+CREATE TABLE `prompt_template_versions` (
+  `id` VARCHAR(191) NOT NULL,
+  `overrideId` VARCHAR(191) NOT NULL,
+  `version` INTEGER NOT NULL,
+  `content` LONGTEXT NOT NULL,
+  `note` VARCHAR(200) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  UNIQUE INDEX `prompt_template_versions_overrideId_version_key`(`overrideId`, `version`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+ALTER TABLE `prompt_template_overrides` ADD CONSTRAINT `prompt_template_overrides_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `prompt_template_versions` ADD CONSTRAINT `prompt_template_versions_overrideId_fkey`
+  FOREIGN KEY (`overrideId`) REFERENCES `prompt_template_overrides`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
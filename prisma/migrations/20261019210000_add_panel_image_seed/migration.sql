@@ -0,0 +1,3 @@
+ALTER TABLE `novel_promotion_panels`
+  ADD COLUMN `imageSeed` INTEGER NULL,
+  ADD COLUMN `candidateSeeds` TEXT NULL;
@@ -0,0 +1,16 @@
+ALTER TABLE `usage_costs`
+  ADD COLUMN `cacheHits` INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN `cacheSavedInputTokens` INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN `cacheSavedOutputTokens` INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN `cacheSavedCost` DECIMAL(18, 6) NOT NULL DEFAULT 0;
+
+-- 回填历史记录：缓存节省此前只写在 metadata JSON 中
+UPDATE `usage_costs`
+SET
+  `cacheHits` = COALESCE(CAST(JSON_UNQUOTE(JSON_EXTRACT(`metadata`, '$.cacheSavings.hits')) AS UNSIGNED), 0),
+  `cacheSavedInputTokens` = COALESCE(CAST(JSON_UNQUOTE(JSON_EXTRACT(`metadata`, '$.cacheSavings.inputTokens')) AS UNSIGNED), 0),
+  `cacheSavedOutputTokens` = COALESCE(CAST(JSON_UNQUOTE(JSON_EXTRACT(`metadata`, '$.cacheSavings.outputTokens')) AS UNSIGNED), 0),
+  `cacheSavedCost` = COALESCE(CAST(JSON_UNQUOTE(JSON_EXTRACT(`metadata`, '$.cacheSavings.cost')) AS DECIMAL(18, 6)), 0)
+WHERE `apiType` = 'text'
+  AND `metadata` LIKE '%"cacheSavings"%'
+  AND JSON_VALID(`metadata`);
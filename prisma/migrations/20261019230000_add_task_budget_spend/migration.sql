@@ -0,0 +1,19 @@
+ALTER TABLE `tasks` ADD COLUMN `budgetSpend` DECIMAL(18, 6) NOT NULL DEFAULT 0;
+
+CREATE INDEX `tasks_userId_createdAt_idx` ON `tasks`(`userId`, `createdAt`);
+
+-- 回填本月任务（预算按自然月统计，更早的任务不再参与计算），规则同 resolveTaskBillingSpend
+UPDATE `tasks`
+SET `budgetSpend` = CASE
+  WHEN JSON_UNQUOTE(JSON_EXTRACT(`billingInfo`, '$.status')) = 'settled'
+    AND JSON_UNQUOTE(JSON_EXTRACT(`billingInfo`, '$.modeSnapshot')) = 'SHADOW'
+    THEN COALESCE(CAST(JSON_EXTRACT(`billingInfo`, '$.actualCost') AS DECIMAL(18, 6)), 0)
+  WHEN JSON_UNQUOTE(JSON_EXTRACT(`billingInfo`, '$.status')) = 'settled'
+    THEN COALESCE(CAST(JSON_EXTRACT(`billingInfo`, '$.chargedCost') AS DECIMAL(18, 6)), 0)
+  WHEN JSON_UNQUOTE(JSON_EXTRACT(`billingInfo`, '$.status')) IN ('quoted', 'frozen')
+    THEN COALESCE(CAST(JSON_EXTRACT(`billingInfo`, '$.maxFrozenCost') AS DECIMAL(18, 6)), 0)
+  ELSE 0
+END
+WHERE `billingInfo` IS NOT NULL
+  AND JSON_EXTRACT(`billingInfo`, '$.billable') = TRUE
+  AND `createdAt` >= DATE_FORMAT(UTC_TIMESTAMP(), '%Y-%m-01');
@@ -0,0 +1,5 @@
+ALTER TABLE `character_appearances`
+  ADD COLUMN `imageSeeds` TEXT NULL;
+
+ALTER TABLE `location_images`
+  ADD COLUMN `imageSeed` INTEGER NULL;
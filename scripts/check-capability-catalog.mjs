@@ -5,7 +5,7 @@ import path from 'node:path'
 const CAPABILITY_NAMESPACES = new Set(['llm', 'image', 'video', 'audio', 'lipsync'])
 const CAPABILITY_NAMESPACE_ALLOWED_FIELDS = {
   llm: new Set(['reasoningEffortOptions', 'fieldI18n']),
-  image: new Set(['resolutionOptions', 'fieldI18n']),
+  image: new Set(['resolutionOptions', 'supportSeed', 'supportLayoutReference', 'supportInpaint', 'fieldI18n']),
   video: new Set([
     'generationModeOptions',
     'generateAudioOptions',
@@ -195,6 +195,15 @@ function validateCapabilitiesForModelType(issues, file, index, modelType, capabi
       if (image.resolutionOptions !== undefined && !isStringArray(image.resolutionOptions)) {
         pushIssue(issues, file, index, 'capabilities.image.resolutionOptions', 'must be string array')
       }
+      if (image.supportSeed !== undefined && typeof image.supportSeed !== 'boolean') {
+        pushIssue(issues, file, index, 'capabilities.image.supportSeed', 'must be boolean')
+      }
+      if (image.supportLayoutReference !== undefined && typeof image.supportLayoutReference !== 'boolean') {
+        pushIssue(issues, file, index, 'capabilities.image.supportLayoutReference', 'must be boolean')
+      }
+      if (image.supportInpaint !== undefined && typeof image.supportInpaint !== 'boolean') {
+        pushIssue(issues, file, index, 'capabilities.image.supportInpaint', 'must be boolean')
+      }
       validateFieldI18nMap(issues, file, index, 'image', image)
     }
   }
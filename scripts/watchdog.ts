@@ -3,15 +3,21 @@ import { prisma } from '@/lib/prisma'
 import { addTaskJob } from '@/lib/task/queues'
 import { resolveTaskLocaleFromBody } from '@/lib/task/resolve-locale'
 import { markTaskFailed } from '@/lib/task/service'
+import { settleStaleBlockedTasks } from '@/lib/task/dependencies'
 import { publishTaskEvent } from '@/lib/task/publisher'
-import { TASK_EVENT_TYPE, TASK_TYPE, type TaskType } from '@/lib/task/types'
+import { TASK_EVENT_TYPE, TASK_TYPE, type TaskBillingInfo, type TaskType } from '@/lib/task/types'
 import { cleanupAllProjectLogs } from '@/lib/logging/file-writer'
+import { runMediaGc } from '@/lib/media/gc'
 
 const INTERVAL_MS = Number.parseInt(process.env.WATCHDOG_INTERVAL_MS || '30000', 10) || 30000
 const HEARTBEAT_TIMEOUT_MS = Number.parseInt(process.env.TASK_HEARTBEAT_TIMEOUT_MS || '90000', 10) || 90000
 const TASK_TYPE_SET: ReadonlySet<string> = new Set(Object.values(TASK_TYPE))
 // 每小时执行一次日志清理
 const LOG_CLEANUP_INTERVAL_TICKS = Math.ceil(3600_000 / INTERVAL_MS)
+// 媒体回收默认关闭，开启后默认每 6 小时执行一次
+const MEDIA_GC_ENABLED = process.env.MEDIA_GC_ENABLED === 'true'
+const MEDIA_GC_INTERVAL_MS = Number.parseInt(process.env.MEDIA_GC_INTERVAL_MS || '21600000', 10) || 21600000
+const MEDIA_GC_INTERVAL_TICKS = Math.max(1, Math.ceil(MEDIA_GC_INTERVAL_MS / INTERVAL_MS))
 let tickCount = 0
 const logger = createScopedLogger({
   module: 'watchdog',
@@ -32,11 +38,20 @@ function toTaskPayload(value: unknown): Record<string, unknown> | null {
   return null
 }
 
+/**
+ * 投递未入队的排队任务
+ * 定时任务在到期前一个巡检周期内才入队，剩余时间交给 BullMQ delay
+ */
 async function recoverQueuedTasks() {
+  const now = Date.now()
   const rows = await prisma.task.findMany({
     where: {
       status: 'queued',
       enqueuedAt: null,
+      OR: [
+        { runAfter: null },
+        { runAfter: { lte: new Date(now + INTERVAL_MS) } },
+      ],
     },
     take: 100,
     orderBy: { createdAt: 'asc' },
@@ -81,7 +96,11 @@ async function recoverQueuedTasks() {
         targetType: task.targetType,
         targetId: task.targetId,
         payload: toTaskPayload(task.payload),
+        billingInfo: (task.billingInfo || null) as TaskBillingInfo | null,
         userId: task.userId,
+      }, {
+        priority: task.priority,
+        ...(task.runAfter ? { delay: Math.max(0, task.runAfter.getTime() - now) } : {}),
       })
       await prisma.task.update({
         where: { id: task.id },
@@ -101,6 +120,7 @@ async function recoverQueuedTasks() {
           type: task.type,
           targetType: task.targetType,
           targetId: task.targetId,
+          runAfter: task.runAfter?.toISOString() || null,
         },
       })
     } catch (error: unknown) {
@@ -184,16 +204,33 @@ async function cleanupZombieProcessingTasks() {
   }
 }
 
+/**
+ * 补偿上游已结束但仍处于 blocked 的依赖任务
+ */
+async function settleBlockedTasks() {
+  const { released, failed } = await settleStaleBlockedTasks()
+  if (released === 0 && failed === 0) return
+  logger.info({
+    action: 'watchdog.settle_blocked',
+    message: 'watchdog settled blocked dependent tasks',
+    details: { released, failed },
+  })
+}
+
 async function tick() {
   tickCount++
   const startedAt = Date.now()
   try {
     await recoverQueuedTasks()
     await cleanupZombieProcessingTasks()
+    await settleBlockedTasks()
     // 每小时清理一次日志（过滤 24h 前内容）
     if (tickCount % LOG_CLEANUP_INTERVAL_TICKS === 0) {
       void cleanupAllProjectLogs()
     }
+    if (MEDIA_GC_ENABLED && tickCount % MEDIA_GC_INTERVAL_TICKS === 0) {
+      void runMediaGc().catch(() => undefined)
+    }
     logger.info({
       action: 'watchdog.tick.ok',
       message: 'watchdog tick completed',
@@ -11,7 +11,8 @@ import Navbar from '@/components/Navbar'
 import { AppIcon, IconGradientDefs } from '@/components/ui/icons'
 import StoryInputComposer from '@/components/story-input/StoryInputComposer'
 import TypewriterHero from '@/components/home/TypewriterHero'
-import { ART_STYLES, VIDEO_RATIOS } from '@/lib/constants'
+import { VIDEO_RATIOS } from '@/lib/constants'
+import { useArtStyleOptions } from '@/lib/query/hooks'
 import { DEFAULT_STYLE_PRESET_VALUE, STYLE_PRESETS } from '@/lib/style-presets'
 import { Link, useRouter } from '@/i18n/navigation'
 import { apiFetch } from '@/lib/api-fetch'
@@ -45,6 +46,7 @@ export default function HomePage() {
   const router = useRouter()
   const t = useTranslations('home')
   const tc = useTranslations('common')
+  const artStyleOptions = useArtStyleOptions()
 
   const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
@@ -146,8 +148,8 @@ export default function HomePage() {
 
   // 风格选项（带推荐标签）
   const styleOptions = useMemo(
-    () => ART_STYLES.map((s) => ({ ...s, recommended: s.value === 'realistic' })),
-    []
+    () => artStyleOptions.map((s) => ({ ...s, recommended: s.value === 'realistic' })),
+    [artStyleOptions]
   )
   // 时间格式化
   const formatTimeAgo = (dateString: string): string => {
@@ -96,6 +96,7 @@ export function mergeProvidersForDisplay(
                 baseUrl: providerBaseUrl,
                 apiMode: savedProvider.apiMode,
                 gatewayRoute: savedProvider.gatewayRoute,
+                rateLimit: savedProvider.rateLimit,
             })
             seenPresetKeys.add(providerKey)
             continue
@@ -22,6 +22,7 @@ export interface Provider {
     hidden?: boolean
     apiMode?: 'gemini-sdk' | 'openai-official'
     gatewayRoute?: 'official' | 'openai-compat'
+    rateLimit?: { rpm?: number; tpm?: number }
 }
 
 export interface LlmCustomPricing {
@@ -4,6 +4,7 @@ import { useSession, signOut } from 'next-auth/react'
 import { useTranslations } from 'next-intl'
 import Navbar from '@/components/Navbar'
 import ApiConfigTab from './components/ApiConfigTab'
+import PromptTemplatesPanel from '@/components/prompt-templates/PromptTemplatesPanel'
 import { AppIcon } from '@/components/ui/icons'
 import { useRouter } from '@/i18n/navigation'
 
@@ -14,7 +15,7 @@ export default function ProfilePage() {
   const tc = useTranslations('common')
 
   // 主要分区：扣费记录 / API配置
-  const [activeSection, setActiveSection] = useState<'billing' | 'apiConfig'>('apiConfig')
+  const [activeSection, setActiveSection] = useState<'billing' | 'apiConfig' | 'promptTemplates'>('apiConfig')
 
   useEffect(() => {
     if (status === 'loading') return
@@ -69,6 +70,17 @@ export default function ProfilePage() {
                   <span className="font-medium">{t('apiConfig')}</span>
                 </button>
 
+                <button
+                  onClick={() => setActiveSection('promptTemplates')}
+                  className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left transition-all cursor-pointer ${activeSection === 'promptTemplates'
+                    ? 'glass-btn-base glass-btn-tone-info'
+                    : 'text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-muted)]'
+                    }`}
+                >
+                  <AppIcon name="fileText" className="w-5 h-5" />
+                  <span className="font-medium">{t('promptTemplates')}</span>
+                </button>
+
                 <button
                   onClick={() => setActiveSection('billing')}
                   className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left transition-all cursor-pointer ${activeSection === 'billing'
@@ -97,6 +109,8 @@ export default function ProfilePage() {
 
               {activeSection === 'apiConfig' ? (
                 <ApiConfigTab />
+              ) : activeSection === 'promptTemplates' ? (
+                <PromptTemplatesPanel projectId={null} />
               ) : (
                 <div className="flex h-full flex-col items-center justify-center px-6 text-center">
                   <AppIcon name="receipt" className="mb-4 h-12 w-12 text-[var(--glass-text-tertiary)]" />
@@ -6,17 +6,20 @@ import { AnimatedBackground } from '@/components/ui/SharedComponents'
 import { useTranslations } from 'next-intl'
 import { WorkspaceProvider } from './WorkspaceProvider'
 import WorkspaceRunStreamConsoles from './components/WorkspaceRunStreamConsoles'
+import WorkspaceAutopilotConsole from './components/WorkspaceAutopilotConsole'
 import WorkspaceStageContent from './components/WorkspaceStageContent'
 import WorkspaceAssetLibraryModal from './components/WorkspaceAssetLibraryModal'
 import WorkspaceHeaderShell from './components/WorkspaceHeaderShell'
 import { WorkspaceStageRuntimeProvider } from './WorkspaceStageRuntimeContext'
 import { useNovelPromotionWorkspaceController } from './hooks/useNovelPromotionWorkspaceController'
+import { useWorkspaceBudgetAlerts } from './hooks/useWorkspaceBudgetAlerts'
 import type { NovelPromotionWorkspaceProps } from './types'
 import '@/styles/animations.css'
 
 function NovelPromotionWorkspaceContent(props: NovelPromotionWorkspaceProps) {
   const vm = useNovelPromotionWorkspaceController(props)
   const tProgress = useTranslations('progress')
+  useWorkspaceBudgetAlerts()
 
   const {
     project,
@@ -94,6 +97,7 @@ function NovelPromotionWorkspaceContent(props: NovelPromotionWorkspaceProps) {
         capabilityOverrides={vm.project.capabilityOverrides}
         videoRatio={vm.project.videoRatio}
         ttsRate={vm.project.ttsRate !== undefined && vm.project.ttsRate !== null ? String(vm.project.ttsRate) : undefined}
+        llmCacheEnabled={vm.project.llmCacheEnabled}
         onUpdateConfig={vm.actions.handleUpdateConfig}
         globalAssetText={vm.project.globalAssetText}
         projectName={project.name}
@@ -165,6 +169,8 @@ function NovelPromotionWorkspaceContent(props: NovelPromotionWorkspaceProps) {
           onScriptToStoryboardMinimizedChange={vm.execution.setScriptToStoryboardConsoleMinimized}
           hideMinimizedBadges={vm.execution.showCreatingToast}
         />
+
+        <WorkspaceAutopilotConsole projectId={projectId} episodeId={episodeId} />
       </div>
     </div>
   )
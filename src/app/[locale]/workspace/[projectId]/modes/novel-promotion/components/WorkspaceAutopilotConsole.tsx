@@ -0,0 +1,229 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import LLMStageStreamCard, { type LLMStageViewItem } from '@/components/llm-console/LLMStageStreamCard'
+import { AUTOPILOT_STAGES, getAutopilotStageTitle } from '@/lib/autopilot/types'
+import {
+  useAutopilot,
+  useAutopilotActions,
+  type AutopilotOverview,
+  type AutopilotStep,
+} from '@/lib/query/hooks'
+
+function isActiveStatus(status: string | undefined) {
+  return status === 'queued' || status === 'running' || status === 'canceling'
+}
+
+function toStageStatus(step: AutopilotStep | undefined): LLMStageViewItem['status'] {
+  if (!step) return 'pending'
+  if (step.status === 'running') return 'processing'
+  if (step.status === 'completed') return 'completed'
+  if (step.status === 'failed' || step.status === 'canceled') return 'failed'
+  return 'pending'
+}
+
+function buildStages(overview: AutopilotOverview): LLMStageViewItem[] {
+  const stepsByKey = new Map(overview.steps.map((step) => [step.stepKey, step]))
+  const active = isActiveStatus(overview.run.status)
+  return AUTOPILOT_STAGES.map((stage) => {
+    const step = stepsByKey.get(stage)
+    const status = toStageStatus(step)
+    return {
+      id: stage,
+      title: getAutopilotStageTitle(stage),
+      status,
+      subtitle: step?.lastErrorMessage || undefined,
+      attempt: step?.currentAttempt,
+      progress: status === 'completed' ? 100 : 0,
+      retryable: !active && status === 'failed',
+    }
+  })
+}
+
+interface WorkspaceAutopilotConsoleProps {
+  projectId: string
+  episodeId?: string
+}
+
+export default function WorkspaceAutopilotConsole({ projectId, episodeId }: WorkspaceAutopilotConsoleProps) {
+  const t = useTranslations('progress')
+  const [isOpen, setIsOpen] = useState(false)
+  const [showStartForm, setShowStartForm] = useState(false)
+  const [budgetInput, setBudgetInput] = useState('')
+  const [autoSelectFirstCandidate, setAutoSelectFirstCandidate] = useState(true)
+  const [actionError, setActionError] = useState('')
+  const autopilotQuery = useAutopilot(projectId, episodeId || null)
+  const { start, approve, cancel, retryStage } = useAutopilotActions(projectId, episodeId || null)
+
+  if (!episodeId) return null
+
+  const overview = autopilotQuery.data || null
+  const active = isActiveStatus(overview?.run.status)
+  const showForm = !overview || showStartForm
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError('')
+    try {
+      await action()
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handleStart = () => runAction(async () => {
+    const budget = Number.parseFloat(budgetInput)
+    await start.mutateAsync({
+      budget: Number.isFinite(budget) && budget > 0 ? budget : null,
+      autoSelectFirstCandidate,
+    })
+    setShowStartForm(false)
+  })
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed left-6 bottom-6 z-120 glass-surface-modal rounded-2xl px-4 py-3 text-sm font-medium text-(--glass-tone-info-fg)"
+      >
+        {overview?.awaitingApproval
+          ? t('autopilot.awaitingApproval')
+          : active
+            ? t('autopilot.running')
+            : t('autopilot.open')}
+      </button>
+    )
+  }
+
+  if (showForm) {
+    return (
+      <div className="fixed inset-0 z-120 glass-overlay backdrop-blur-sm flex items-center justify-center">
+        <div className="glass-surface-modal w-[min(92vw,480px)] rounded-2xl p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-(--glass-text-primary)">{t('autopilot.title')}</h3>
+            <p className="mt-1 text-sm text-(--glass-text-secondary)">{t('autopilot.startHint')}</p>
+          </div>
+          <label className="block space-y-1">
+            <span className="text-sm text-(--glass-text-secondary)">{t('autopilot.budget')}</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={budgetInput}
+              placeholder={t('autopilot.budgetPlaceholder')}
+              onChange={(event) => setBudgetInput(event.target.value)}
+              className="glass-input-base w-full rounded-lg px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-(--glass-text-primary)">
+            <input
+              type="checkbox"
+              checked={autoSelectFirstCandidate}
+              onChange={(event) => setAutoSelectFirstCandidate(event.target.checked)}
+            />
+            {t('autopilot.autoSelectFirstCandidate')}
+          </label>
+          {actionError && <p className="text-sm text-(--glass-tone-danger-fg)">{actionError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowStartForm(false)
+                setIsOpen(false)
+              }}
+              className="glass-btn-base glass-btn-secondary rounded-lg px-3 py-1.5 text-sm"
+            >
+              {t('autopilot.close')}
+            </button>
+            <button
+              type="button"
+              disabled={start.isPending}
+              onClick={() => {
+                void handleStart()
+              }}
+              className="glass-btn-base glass-btn-primary rounded-lg px-3 py-1.5 text-sm"
+            >
+              {t('autopilot.start')}
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const stages = buildStages(overview)
+  const activeStageId = AUTOPILOT_STAGES.find((stage) => stage === overview.stage)
+    || AUTOPILOT_STAGES[AUTOPILOT_STAGES.length - 1]
+  const spentText = overview.budget === null
+    ? t('autopilot.spentUnlimited', { spent: overview.spent })
+    : t('autopilot.spent', { spent: overview.spent, budget: overview.budget })
+  const outputLines = [
+    t(`autopilot.status.${overview.run.status}` as never),
+    spentText,
+    ...(overview.awaitingApproval ? [t('autopilot.approveHint')] : []),
+  ]
+  const completedCount = stages.filter((stage) => stage.status === 'completed').length
+
+  return (
+    <div className="fixed inset-0 z-120 glass-overlay backdrop-blur-sm">
+      <div className="mx-auto mt-4 h-[calc(100vh-2rem)] w-[min(96vw,1400px)]">
+        <LLMStageStreamCard
+          title={t('autopilot.title')}
+          subtitle={t('autopilot.subtitle')}
+          stages={stages}
+          activeStageId={activeStageId}
+          onRetryStage={(stepKey) => {
+            void runAction(async () => await retryStage.mutateAsync({ runId: overview.run.id, stepKey }))
+          }}
+          outputText={outputLines.join('\n')}
+          overallProgress={Math.round((completedCount / AUTOPILOT_STAGES.length) * 100)}
+          errorMessage={actionError || overview.run.errorMessage || undefined}
+          topRightAction={(
+            <div className="flex items-center gap-2">
+              {overview.awaitingApproval && (
+                <button
+                  type="button"
+                  disabled={approve.isPending}
+                  onClick={() => {
+                    void runAction(async () => await approve.mutateAsync({ runId: overview.run.id }))
+                  }}
+                  className="glass-btn-base glass-btn-primary rounded-lg px-3 py-1.5 text-xs"
+                >
+                  {t('autopilot.approve')}
+                </button>
+              )}
+              {active ? (
+                <button
+                  type="button"
+                  disabled={cancel.isPending || overview.run.status === 'canceling'}
+                  onClick={() => {
+                    void runAction(async () => await cancel.mutateAsync({ runId: overview.run.id }))
+                  }}
+                  className="glass-btn-base glass-btn-secondary rounded-lg px-3 py-1.5 text-xs"
+                >
+                  {t('autopilot.cancel')}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setShowStartForm(true)}
+                  className="glass-btn-base glass-btn-secondary rounded-lg px-3 py-1.5 text-xs"
+                >
+                  {t('autopilot.newRun')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="glass-btn-base glass-btn-secondary rounded-lg px-3 py-1.5 text-xs"
+              >
+                {t('autopilot.minimize')}
+              </button>
+            </div>
+          )}
+        />
+      </div>
+    </div>
+  )
+}
@@ -51,6 +51,7 @@ interface WorkspaceHeaderShellProps {
   capabilityOverrides: CapabilitySelections
   videoRatio: string | null | undefined
   ttsRate: string | null | undefined
+  llmCacheEnabled: boolean
   onUpdateConfig: (key: string, value: unknown) => Promise<void>
   globalAssetText: string
   projectName: string
@@ -98,6 +99,7 @@ export default function WorkspaceHeaderShell({
   capabilityOverrides,
   videoRatio,
   ttsRate,
+  llmCacheEnabled,
   onUpdateConfig,
   globalAssetText,
   projectName,
@@ -124,6 +126,7 @@ export default function WorkspaceHeaderShell({
       <SettingsModal
         isOpen={isSettingsModalOpen}
         onClose={onCloseSettingsModal}
+        projectId={projectId}
         availableModels={availableModels}
         modelsLoaded={modelsLoaded}
         artStyle={artStyle ?? undefined}
@@ -137,6 +140,7 @@ export default function WorkspaceHeaderShell({
         videoRatio={videoRatio ?? undefined}
         capabilityOverrides={capabilityOverrides}
         ttsRate={ttsRate ?? undefined}
+        llmCacheEnabled={llmCacheEnabled}
         onArtStyleChange={(value) => { onUpdateConfig('artStyle', value) }}
         onAnalysisModelChange={(value) => { onUpdateConfig('analysisModel', value) }}
         onCharacterModelChange={(value) => { onUpdateConfig('characterModel', value) }}
@@ -148,6 +152,7 @@ export default function WorkspaceHeaderShell({
         onVideoRatioChange={(value) => { onUpdateConfig('videoRatio', value) }}
         onCapabilityOverridesChange={(value) => { onUpdateConfig('capabilityOverrides', value) }}
         onTTSRateChange={(value) => { onUpdateConfig('ttsRate', value) }}
+        onLlmCacheEnabledChange={(value) => { onUpdateConfig('llmCacheEnabled', value) }}
       />
 
       <WorldContextModal
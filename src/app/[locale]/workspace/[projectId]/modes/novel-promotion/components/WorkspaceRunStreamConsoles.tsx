@@ -1,6 +1,11 @@
 'use client'
 
+import { useCallback, useState } from 'react'
 import LLMStageStreamCard, { type LLMStageViewItem } from '@/components/llm-console/LLMStageStreamCard'
+import StepOutputOverridePanel from '@/components/llm-console/StepOutputOverridePanel'
+import type { RunStepDetail, RunStepOverrideResult } from '@/lib/query/hooks/run-stream/types'
+import { TASK_TYPE } from '@/lib/task/types'
+import { getWorkflowOverridableStep } from '@/lib/workflow-engine/registry'
 import { useTranslations } from 'next-intl'
 
 type RunStreamStep = {
@@ -32,6 +37,32 @@ type RunStreamState = {
     payload: Record<string, unknown> | null
     errorMessage: string
   }>
+  loadStepDetail?: (stepId: string) => Promise<RunStepDetail>
+  overrideStep?: (params: {
+    stepId: string
+    artifactType?: string
+    payload: Record<string, unknown>
+    reason?: string
+  }) => Promise<RunStepOverrideResult>
+}
+
+type EditingStep = {
+  streamKey: 'storyToScript' | 'scriptToStoryboard'
+  stepId: string
+  title: string
+}
+
+function markEditableStages(
+  stages: LLMStageViewItem[],
+  stream: RunStreamState,
+  workflowType: string,
+  active: boolean,
+): LLMStageViewItem[] {
+  if (active || !stream.overrideStep || !stream.loadStepDetail) return stages
+  return stages.map((stage) => ({
+    ...stage,
+    editable: !!getWorkflowOverridableStep({ workflowType, stepKey: stage.id }),
+  }))
 }
 
 interface WorkspaceRunStreamConsolesProps {
@@ -54,6 +85,7 @@ export default function WorkspaceRunStreamConsoles({
   hideMinimizedBadges,
 }: WorkspaceRunStreamConsolesProps) {
   const t = useTranslations('progress')
+  const [editingStep, setEditingStep] = useState<EditingStep | null>(null)
   const storyToScriptActive =
     storyToScriptStream.isRunning ||
     storyToScriptStream.isRecoveredRunning ||
@@ -69,7 +101,7 @@ export default function WorkspaceRunStreamConsoles({
   const storyFallbackStatus: LLMStageViewItem['status'] =
     storyToScriptStream.status === 'failed' ? 'failed' : 'processing'
   const storyToScriptStages = storyToScriptStream.stages.length > 0
-    ? storyToScriptStream.stages
+    ? markEditableStages(storyToScriptStream.stages, storyToScriptStream, TASK_TYPE.STORY_TO_SCRIPT_RUN, storyToScriptActive)
     : [{
       id: 'story_to_script_run',
       title: t('runConsole.storyToScript'),
@@ -98,7 +130,7 @@ export default function WorkspaceRunStreamConsoles({
   const storyboardFallbackStatus: LLMStageViewItem['status'] =
     scriptToStoryboardStream.status === 'failed' ? 'failed' : 'processing'
   const scriptToStoryboardStages = scriptToStoryboardStream.stages.length > 0
-    ? scriptToStoryboardStream.stages
+    ? markEditableStages(scriptToStoryboardStream.stages, scriptToStoryboardStream, TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN, scriptToStoryboardActive)
     : [{
       id: 'script_to_storyboard_run',
       title: t('runConsole.scriptToStoryboard'),
@@ -137,8 +169,50 @@ export default function WorkspaceRunStreamConsoles({
     })
   }
 
+  const handleEditStep = (
+    streamKey: EditingStep['streamKey'],
+    stages: LLMStageViewItem[],
+    stepId: string,
+  ) => {
+    const stage = stages.find((item) => item.id === stepId)
+    setEditingStep({
+      streamKey,
+      stepId,
+      title: stage?.title || stepId,
+    })
+  }
+
+  const editingStream = editingStep
+    ? (editingStep.streamKey === 'storyToScript' ? storyToScriptStream : scriptToStoryboardStream)
+    : null
+  const editingStepId = editingStep?.stepId || ''
+  const loadStepDetail = editingStream?.loadStepDetail
+  const loadEditingStepDetail = useCallback(async () => {
+    if (!loadStepDetail) throw new Error('step detail unavailable')
+    return await loadStepDetail(editingStepId)
+  }, [editingStepId, loadStepDetail])
+
   return (
     <>
+      {editingStep && editingStream?.overrideStep && (
+        <StepOutputOverridePanel
+          stageTitle={editingStep.title.startsWith('progress.')
+            ? t(editingStep.title.slice('progress.'.length) as never)
+            : editingStep.title}
+          loadDetail={loadEditingStepDetail}
+          submitOverride={async ({ artifactType, payload }) => {
+            if (!editingStream?.overrideStep) throw new Error('step override unavailable')
+            return await editingStream.overrideStep({
+              stepId: editingStepId,
+              artifactType,
+              payload,
+              reason: 'user_override_from_console',
+            })
+          }}
+          onClose={() => setEditingStep(null)}
+        />
+      )}
+
       {!hideMinimizedBadges && showStoryToScriptConsole && storyToScriptConsoleMinimized && storyToScriptActive && (
         <button
           type="button"
@@ -162,6 +236,7 @@ export default function WorkspaceRunStreamConsoles({
               onRetryStage={(stepId) => {
                 void handleRetryStepById(storyToScriptStream, stepId)
               }}
+              onEditStage={(stepId) => handleEditStep('storyToScript', storyToScriptStages, stepId)}
               outputText={storyToScriptStream.outputText}
               activeMessage={storyToScriptStream.activeMessage}
               overallProgress={storyToScriptStream.overallProgress}
@@ -214,6 +289,7 @@ export default function WorkspaceRunStreamConsoles({
               onRetryStage={(stepId) => {
                 void handleRetryStepById(scriptToStoryboardStream, stepId)
               }}
+              onEditStage={(stepId) => handleEditStep('scriptToStoryboard', scriptToStoryboardStages, stepId)}
               outputText={scriptToStoryboardStream.outputText}
               activeMessage={scriptToStoryboardStream.activeMessage}
               overallProgress={scriptToStoryboardStream.overallProgress}
@@ -3,10 +3,9 @@ import { logError as _ulogError } from '@/lib/logging/core'
 
 import { useState } from 'react'
 import { useTranslations } from 'next-intl'
-import { ART_STYLES } from '@/lib/constants'
 import { shouldShowError } from '@/lib/error-utils'
 import { useImageGenerationCount } from '@/lib/image-generation/use-image-generation-count'
-import { useAiCreateProjectLocation, useCreateProjectLocation } from '@/lib/query/hooks'
+import { useAiCreateProjectLocation, useArtStyleOptions, useCreateProjectLocation } from '@/lib/query/hooks'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
 import { AppIcon } from '@/components/ui/icons'
@@ -59,6 +58,7 @@ export default function AddLocationModal({
   const [description, setDescription] = useState('')
   const [aiInstruction, setAiInstruction] = useState('')
   const [artStyle, setArtStyle] = useState('american-comic')
+  const artStyleOptions = useArtStyleOptions()
   const [availableSlots, setAvailableSlots] = useState<LocationAvailableSlot[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isAiDesigning, setIsAiDesigning] = useState(false)
@@ -169,7 +169,7 @@ export default function AddLocationModal({
                 {t('modal.artStyle')}
               </label>
               <div className="grid grid-cols-2 gap-2">
-                {ART_STYLES.map((style) => (
+                {artStyleOptions.map((style) => (
                   <button
                     key={style.value}
                     type="button"
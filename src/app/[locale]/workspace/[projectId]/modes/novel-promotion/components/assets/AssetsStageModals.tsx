@@ -42,10 +42,12 @@ interface EditingPropState {
 interface LocationImageEditModalState {
   assetType: 'location' | 'prop'
   locationName: string
+  imageUrl: string | null
 }
 
 interface CharacterImageEditModalState {
   characterName: string
+  imageUrl: string | null
 }
 
 interface VoiceDesignCharacterState {
@@ -144,6 +146,7 @@ export default function AssetsStageModals({
         <ImageEditModal
           type={imageEditModal.assetType}
           name={imageEditModal.locationName}
+          imageUrl={imageEditModal.imageUrl}
           onClose={closeImageEditModal}
           onConfirm={handleLocationImageEdit}
         />
@@ -153,6 +156,7 @@ export default function AssetsStageModals({
         <ImageEditModal
           type="character"
           name={characterImageEditModal.characterName}
+          imageUrl={characterImageEditModal.imageUrl}
           onClose={closeCharacterImageEditModal}
           onConfirm={handleCharacterImageEdit}
         />
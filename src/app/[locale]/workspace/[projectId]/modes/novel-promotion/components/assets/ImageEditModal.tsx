@@ -9,23 +9,28 @@ import { MediaImageWithLoading } from '@/components/media/MediaImageWithLoading'
 
 import { useState, useRef } from 'react'
 import { AppIcon } from '@/components/ui/icons'
+import InpaintMaskCanvas from '@/components/image-generation/InpaintMaskCanvas'
 
 interface ImageEditModalProps {
     type: 'character' | 'location' | 'prop'
     name: string
+    // 当前图片，提供时可涂抹蒙版只重绘局部
+    imageUrl?: string | null
     onClose: () => void
-    onConfirm: (modifyPrompt: string, extraImageUrls?: string[]) => void
+    onConfirm: (modifyPrompt: string, extraImageUrls?: string[], maskImage?: string) => void
 }
 
 export default function ImageEditModal({
     type,
     name,
+    imageUrl,
     onClose,
     onConfirm
 }: ImageEditModalProps) {
     const t = useTranslations('assets')
     const [modifyPrompt, setModifyPrompt] = useState('')
     const [editImages, setEditImages] = useState<string[]>([])
+    const [maskImage, setMaskImage] = useState<string | null>(null)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
     const title = type === 'character'
@@ -44,7 +49,7 @@ export default function ImageEditModal({
             alert(t('modal.designInstruction'))
             return
         }
-        onConfirm(modifyPrompt, editImages.length > 0 ? editImages : undefined)
+        onConfirm(modifyPrompt, editImages.length > 0 ? editImages : undefined, maskImage || undefined)
     }
 
     // 处理粘贴事件
@@ -117,6 +122,22 @@ export default function ImageEditModal({
                             autoFocus
                         />
                     </div>
+                    {imageUrl && (
+                        <div>
+                            <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">{t('imageEdit.inpaint.label')}</label>
+                            <InpaintMaskCanvas
+                                imageUrl={imageUrl}
+                                labels={{
+                                    hint: t('imageEdit.inpaint.hint'),
+                                    brush: t('imageEdit.inpaint.brush'),
+                                    eraser: t('imageEdit.inpaint.eraser'),
+                                    brushSize: t('imageEdit.inpaint.brushSize'),
+                                    clear: t('imageEdit.inpaint.clear'),
+                                }}
+                                onChange={setMaskImage}
+                            />
+                        </div>
+                    )}
                     <div>
                         <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">
                             {t('imageEdit.referenceImages')} <span className="text-[var(--glass-text-tertiary)] font-normal">{t('imageEdit.referenceImagesHint')}</span>
@@ -40,6 +40,7 @@ interface ImageEditModal {
     locationId: string
     imageIndex: number
     locationName: string
+    imageUrl: string | null
 }
 
 interface CharacterImageEditModal {
@@ -47,6 +48,7 @@ interface CharacterImageEditModal {
     appearanceId: string
     imageIndex: number
     characterName: string
+    imageUrl: string | null
 }
 
 interface UseAssetModalsProps {
@@ -159,17 +161,22 @@ export function useAssetModals({
             assetType,
             locationId,
             imageIndex,
-            locationName: location.name
+            locationName: location.name,
+            imageUrl: location.images?.find(image => image.imageIndex === imageIndex)?.imageUrl ?? null
         })
     }
 
     // 打开人物图片编辑弹窗
     const handleOpenCharacterImageEdit = (characterId: string, appearanceId: string, imageIndex: number, characterName: string) => {
+        const appearance = characters
+            .find(c => c.id === characterId)
+            ?.appearances?.find(a => a.id === appearanceId)
         setCharacterImageEditModal({
             characterId,
             appearanceId,
             imageIndex,
-            characterName
+            characterName,
+            imageUrl: appearance?.imageUrls?.[imageIndex] || appearance?.imageUrl || null
         })
     }
 
@@ -111,7 +111,7 @@ export function useAssetsImageEdit({
     }
   }, [onRefresh, showToast, t, undoLocationImage])
 
-  const handleLocationImageEdit = useCallback(async (modifyPrompt: string, extraImageUrls?: string[]) => {
+  const handleLocationImageEdit = useCallback(async (modifyPrompt: string, extraImageUrls?: string[], maskImage?: string) => {
     if (!imageEditModal) return
     const { assetType, locationId, imageIndex, locationName } = imageEditModal
 
@@ -127,6 +127,7 @@ export function useAssetsImageEdit({
       imageIndex,
       modifyPrompt,
       extraImageUrls,
+      maskImage,
     }).then((data) => {
       const result = (data || {}) as { descriptionUpdated?: boolean }
       _ulogInfo(`[${assetLabel}编辑] ✅ 完成: ${locationName}`)
@@ -139,7 +140,7 @@ export function useAssetsImageEdit({
     })
   }, [closeImageEditModal, imageEditModal, locationAssetActions, propAssetActions, showToast, t])
 
-  const handleCharacterImageEdit = useCallback(async (modifyPrompt: string, extraImageUrls?: string[]) => {
+  const handleCharacterImageEdit = useCallback(async (modifyPrompt: string, extraImageUrls?: string[], maskImage?: string) => {
     if (!characterImageEditModal) return
     const { characterId, appearanceId, imageIndex, characterName } = characterImageEditModal
 
@@ -148,7 +149,7 @@ export function useAssetsImageEdit({
     _ulogInfo(`[角色编辑] 开始编辑 ${characterName}, characterId=${characterId}, appearanceId=${appearanceId}, imageIndex=${imageIndex}`)
 
     modifyCharacterImage.mutate(
-      { characterId, appearanceId, imageIndex, modifyPrompt, extraImageUrls },
+      { characterId, appearanceId, imageIndex, modifyPrompt, extraImageUrls, maskImage },
       {
         onSuccess: (data) => {
           const result = (data || {}) as { descriptionUpdated?: boolean }
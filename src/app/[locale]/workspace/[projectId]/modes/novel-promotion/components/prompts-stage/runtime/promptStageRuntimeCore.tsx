@@ -2,9 +2,8 @@
 
 import { useTranslations } from 'next-intl'
 import { useCallback, useMemo, useState } from 'react'
-import { ART_STYLES } from '@/lib/constants'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
-import { useAiModifyProjectShotPrompt } from '@/lib/query/hooks'
+import { useAiModifyProjectShotPrompt, useArtStyleOptions } from '@/lib/query/hooks'
 import type { NovelPromotionShot } from '@/types/project'
 import type { PromptsStageShellProps } from './promptStageRuntime.types'
 import { usePromptEditorRuntime } from './hooks/usePromptEditorRuntime'
@@ -42,7 +41,8 @@ export function usePromptStageActions({
     return Boolean((shot as NovelPromotionShot & { imageTaskRunning?: boolean }).imageTaskRunning)
   }, [])
 
-  const styleLabel = ART_STYLES.find((style) => style.value === artStyle)?.label || t('prompts.customStyle')
+  const artStyleOptions = useArtStyleOptions()
+  const styleLabel = artStyleOptions.find((style) => style.value === artStyle)?.label || t('prompts.customStyle')
   const runningCount = shots.filter((shot) => isShotTaskRunning(shot)).length
   const [previewImage, setPreviewImage] = useState<string | null>(null)
 
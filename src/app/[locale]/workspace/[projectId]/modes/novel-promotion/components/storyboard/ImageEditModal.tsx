@@ -8,18 +8,36 @@ import ImagePreviewModal from '@/components/ui/ImagePreviewModal'
 import { MediaImageWithLoading } from '@/components/media/MediaImageWithLoading'
 import ImageEditModalSelectedAssets from './ImageEditModalSelectedAssets'
 import ImageEditModalAssetPicker from './ImageEditModalAssetPicker'
+import ImageEditModalSketchCanvas from './ImageEditModalSketchCanvas'
+import InpaintMaskCanvas from '@/components/image-generation/InpaintMaskCanvas'
 import { AppIcon } from '@/components/ui/icons'
 
+interface ImageEditModalSketchTarget {
+  episodeId: string
+  panelId: string
+  videoRatio: string
+  imageUrl?: string | null
+  sketchUrl?: string | null
+  onRegenerate: (panelId: string) => void
+}
+
 interface ImageEditModalProps {
   projectId: string
   defaultAssets: SelectedAsset[]
-  onSubmit: (prompt: string, images: string[], assets: SelectedAsset[]) => void
+  /** 当前镜头图，提供时可涂抹蒙版只重绘局部 */
+  imageUrl?: string | null
+  sketchTarget?: ImageEditModalSketchTarget | null
+  onSubmit: (prompt: string, images: string[], assets: SelectedAsset[], maskImage?: string) => void
   onClose: () => void
 }
 
+type ImageEditMode = 'instruction' | 'sketch'
+
 export default function ImageEditModal({
   projectId,
   defaultAssets,
+  imageUrl,
+  sketchTarget,
   onSubmit,
   onClose,
 }: ImageEditModalProps) {
@@ -34,6 +52,8 @@ export default function ImageEditModal({
   const [selectedAssets, setSelectedAssets] = useState<SelectedAsset[]>(defaultAssets)
   const [showAssetPicker, setShowAssetPicker] = useState(false)
   const [previewImage, setPreviewImage] = useState<string | null>(null)
+  const [mode, setMode] = useState<ImageEditMode>('instruction')
+  const [maskImage, setMaskImage] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -89,7 +109,7 @@ export default function ImageEditModal({
       alert(t('prompts.enterInstruction'))
       return
     }
-    onSubmit(editPrompt, editImages, selectedAssets)
+    onSubmit(editPrompt, editImages, selectedAssets, maskImage || undefined)
   }
 
   return (
@@ -101,65 +121,113 @@ export default function ImageEditModal({
         <div className="p-6 border-b shrink-0">
           <h3 className="text-lg font-bold text-[var(--glass-text-primary)]">{t('imageEdit.title')}</h3>
           <p className="text-sm text-[var(--glass-text-tertiary)] mt-1">{t('imageEdit.subtitle')}</p>
+          {sketchTarget && (
+            <div className="mt-3 flex gap-2">
+              {(['instruction', 'sketch'] as const).map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  onClick={() => setMode(item)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors ${mode === item
+                    ? 'bg-[var(--glass-accent-from)] text-white'
+                    : 'text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-muted)]'}`}
+                >
+                  {item === 'instruction' ? t('imageEdit.tabInstruction') : t('imageEdit.tabSketch')}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        <div className="p-6 space-y-4 overflow-y-auto app-scrollbar flex-1 min-h-0">
-          <div>
-            <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">{t('prompts.aiInstruction')}</label>
-            <textarea
-              value={editPrompt}
-              onChange={(event) => setEditPrompt(event.target.value)}
-              placeholder={t('imageEdit.promptPlaceholder')}
-              className="w-full h-24 px-3 py-2 border border-[var(--glass-stroke-strong)] rounded-lg focus:ring-2 focus:ring-[var(--glass-tone-info-fg)] focus:border-[var(--glass-stroke-focus)] resize-none"
-              autoFocus
+        {sketchTarget && mode === 'sketch' ? (
+          <div className="p-6 overflow-y-auto app-scrollbar flex-1 min-h-0">
+            <ImageEditModalSketchCanvas
+              projectId={projectId}
+              episodeId={sketchTarget.episodeId}
+              panelId={sketchTarget.panelId}
+              videoRatio={sketchTarget.videoRatio}
+              imageUrl={sketchTarget.imageUrl}
+              sketchUrl={sketchTarget.sketchUrl}
+              onRegenerate={sketchTarget.onRegenerate}
+              onClose={onClose}
             />
           </div>
+        ) : (
+          <div className="p-6 space-y-4 overflow-y-auto app-scrollbar flex-1 min-h-0">
+            <div>
+              <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">{t('prompts.aiInstruction')}</label>
+              <textarea
+                value={editPrompt}
+                onChange={(event) => setEditPrompt(event.target.value)}
+                placeholder={t('imageEdit.promptPlaceholder')}
+                className="w-full h-24 px-3 py-2 border border-[var(--glass-stroke-strong)] rounded-lg focus:ring-2 focus:ring-[var(--glass-tone-info-fg)] focus:border-[var(--glass-stroke-focus)] resize-none"
+                autoFocus
+              />
+            </div>
+
+            {imageUrl && (
+              <div>
+                <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">{t('imageEdit.inpaint.label')}</label>
+                <InpaintMaskCanvas
+                  imageUrl={imageUrl}
+                  labels={{
+                    hint: t('imageEdit.inpaint.hint'),
+                    brush: t('imageEdit.inpaint.brush'),
+                    eraser: t('imageEdit.inpaint.eraser'),
+                    brushSize: t('imageEdit.inpaint.brushSize'),
+                    clear: t('imageEdit.inpaint.clear'),
+                  }}
+                  onChange={setMaskImage}
+                />
+              </div>
+            )}
 
-          <ImageEditModalSelectedAssets
-            selectedAssets={selectedAssets}
-            onOpenAssetPicker={() => setShowAssetPicker(true)}
-            onPreviewImage={setPreviewImage}
-            onRemoveAsset={handleRemoveAsset}
-          />
-
-          <div>
-            <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">
-              {t('imageEdit.referenceImagesLabel')} <span className="text-[var(--glass-text-tertiary)] font-normal">{t('imageEdit.referenceImagesHint')}</span>
-            </label>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept="image/*"
-              multiple
-              onChange={handleImageUpload}
-              className="hidden"
+            <ImageEditModalSelectedAssets
+              selectedAssets={selectedAssets}
+              onOpenAssetPicker={() => setShowAssetPicker(true)}
+              onPreviewImage={setPreviewImage}
+              onRemoveAsset={handleRemoveAsset}
             />
-            <div className="flex flex-wrap gap-2">
-              {editImages.map((image, index) => (
-                <div key={index} className="relative w-16 h-16">
-                  <MediaImageWithLoading
-                    src={image}
-                    alt=""
-                    containerClassName="w-full h-full rounded-lg"
-                    className="w-full h-full object-cover rounded-lg"
-                  />
-                  <button
-                    onClick={() => removeImage(index)}
-                    className="absolute -top-1 -right-1 w-5 h-5 bg-[var(--glass-tone-danger-fg)] text-white rounded-full text-xs flex items-center justify-center hover:bg-[var(--glass-tone-danger-fg)]"
-                  >
-                    <AppIcon name="closeSm" className="h-3 w-3" />
-                  </button>
-                </div>
-              ))}
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                className="w-16 h-16 border-2 border-dashed border-[var(--glass-stroke-strong)] rounded-lg flex items-center justify-center text-[var(--glass-text-tertiary)] hover:border-[var(--glass-stroke-focus)] hover:text-[var(--glass-tone-info-fg)] transition-colors"
-              >
-                <AppIcon name="plus" className="w-6 h-6" />
-              </button>
+
+            <div>
+              <label className="block text-sm font-medium text-[var(--glass-text-secondary)] mb-2">
+                {t('imageEdit.referenceImagesLabel')} <span className="text-[var(--glass-text-tertiary)] font-normal">{t('imageEdit.referenceImagesHint')}</span>
+              </label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handleImageUpload}
+                className="hidden"
+              />
+              <div className="flex flex-wrap gap-2">
+                {editImages.map((image, index) => (
+                  <div key={index} className="relative w-16 h-16">
+                    <MediaImageWithLoading
+                      src={image}
+                      alt=""
+                      containerClassName="w-full h-full rounded-lg"
+                      className="w-full h-full object-cover rounded-lg"
+                    />
+                    <button
+                      onClick={() => removeImage(index)}
+                      className="absolute -top-1 -right-1 w-5 h-5 bg-[var(--glass-tone-danger-fg)] text-white rounded-full text-xs flex items-center justify-center hover:bg-[var(--glass-tone-danger-fg)]"
+                    >
+                      <AppIcon name="closeSm" className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-16 h-16 border-2 border-dashed border-[var(--glass-stroke-strong)] rounded-lg flex items-center justify-center text-[var(--glass-text-tertiary)] hover:border-[var(--glass-stroke-focus)] hover:text-[var(--glass-tone-info-fg)] transition-colors"
+                >
+                  <AppIcon name="plus" className="w-6 h-6" />
+                </button>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         <div className="p-6 border-t flex justify-end gap-3">
           <button
@@ -168,13 +236,15 @@ export default function ImageEditModal({
           >
             {t('candidate.cancel')}
           </button>
-          <button
-            onClick={handleSubmit}
-            disabled={!editPrompt.trim()}
-            className="px-4 py-2 bg-[var(--glass-accent-from)] text-white rounded-lg hover:bg-[var(--glass-accent-to)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {t('imageEdit.start')}
-          </button>
+          {mode === 'instruction' && (
+            <button
+              onClick={handleSubmit}
+              disabled={!editPrompt.trim()}
+              className="px-4 py-2 bg-[var(--glass-accent-from)] text-white rounded-lg hover:bg-[var(--glass-accent-to)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('imageEdit.start')}
+            </button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,277 @@
+'use client'
+import { useTranslations } from 'next-intl'
+import { useEffect, useRef, useState } from 'react'
+import { useDeleteProjectPanelSketch, useSaveProjectPanelSketch } from '@/lib/query/hooks'
+import { MediaImage } from '@/components/media/MediaImage'
+import { AppIcon } from '@/components/ui/icons'
+
+const CANVAS_LONG_EDGE = 1024
+const MAX_UNDO_STEPS = 20
+const SKETCH_STROKE_COLOR = '#111111'
+
+type SketchTool = 'pen' | 'eraser'
+
+interface ImageEditModalSketchCanvasProps {
+  projectId: string
+  episodeId: string
+  panelId: string
+  videoRatio: string
+  imageUrl?: string | null
+  sketchUrl?: string | null
+  onRegenerate: (panelId: string) => void
+  onClose: () => void
+}
+
+function resolveCanvasSize(videoRatio: string): { width: number; height: number } {
+  const [w, h] = videoRatio.split(':').map(Number)
+  if (!w || !h) return { width: CANVAS_LONG_EDGE, height: CANVAS_LONG_EDGE }
+  return w >= h
+    ? { width: CANVAS_LONG_EDGE, height: Math.round((CANVAS_LONG_EDGE * h) / w) }
+    : { width: Math.round((CANVAS_LONG_EDGE * w) / h), height: CANVAS_LONG_EDGE }
+}
+
+function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob)
+      else reject(new Error('Failed to export sketch'))
+    }, 'image/png')
+  })
+}
+
+export default function ImageEditModalSketchCanvas({
+  projectId,
+  episodeId,
+  panelId,
+  videoRatio,
+  imageUrl,
+  sketchUrl,
+  onRegenerate,
+  onClose,
+}: ImageEditModalSketchCanvasProps) {
+  const t = useTranslations('storyboard')
+  const saveSketchMutation = useSaveProjectPanelSketch(projectId, episodeId)
+  const deleteSketchMutation = useDeleteProjectPanelSketch(projectId, episodeId)
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const undoStackRef = useRef<ImageData[]>([])
+  const [tool, setTool] = useState<SketchTool>('pen')
+  const [strokeWidth, setStrokeWidth] = useState(6)
+  const [showBackdrop, setShowBackdrop] = useState(!!imageUrl)
+  const [hasContent, setHasContent] = useState(false)
+  const [canUndo, setCanUndo] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const { width, height } = resolveCanvasSize(videoRatio)
+
+  // 已保存的草图回填到画布，跨域失败时保持空白画布
+  useEffect(() => {
+    if (!sketchUrl) return
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => {
+      const context = canvasRef.current?.getContext('2d')
+      if (!context) return
+      context.drawImage(image, 0, 0, width, height)
+      setHasContent(true)
+    }
+    image.src = sketchUrl
+  }, [height, sketchUrl, width])
+
+  const getCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    }
+  }
+
+  const pushUndoSnapshot = (context: CanvasRenderingContext2D) => {
+    undoStackRef.current = [
+      ...undoStackRef.current.slice(-(MAX_UNDO_STEPS - 1)),
+      context.getImageData(0, 0, width, height),
+    ]
+    setCanUndo(true)
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    pushUndoSnapshot(context)
+    drawingRef.current = true
+
+    const point = getCanvasPoint(event)
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over'
+    context.strokeStyle = SKETCH_STROKE_COLOR
+    context.lineWidth = tool === 'eraser' ? strokeWidth * 3 : strokeWidth
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.beginPath()
+    context.moveTo(point.x, point.y)
+    context.lineTo(point.x, point.y)
+    context.stroke()
+    if (tool === 'pen') setHasContent(true)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+    const point = getCanvasPoint(event)
+    context.lineTo(point.x, point.y)
+    context.stroke()
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    drawingRef.current = false
+    event.currentTarget.releasePointerCapture(event.pointerId)
+  }
+
+  const handleUndo = () => {
+    const context = canvasRef.current?.getContext('2d')
+    const snapshot = undoStackRef.current.pop()
+    if (!context || !snapshot) return
+    context.putImageData(snapshot, 0, 0)
+    setCanUndo(undoStackRef.current.length > 0)
+  }
+
+  const handleClear = () => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context) return
+    pushUndoSnapshot(context)
+    context.clearRect(0, 0, width, height)
+    setHasContent(false)
+  }
+
+  const saveSketch = async () => {
+    const canvas = canvasRef.current
+    if (!canvas) return false
+    setErrorMessage(null)
+    try {
+      const file = await canvasToPngBlob(canvas)
+      await saveSketchMutation.mutateAsync({ panelId, file })
+      return true
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : t('imageEdit.sketch.saveFailed'))
+      return false
+    }
+  }
+
+  const handleSaveAndRegenerate = async () => {
+    if (!(await saveSketch())) return
+    onRegenerate(panelId)
+    onClose()
+  }
+
+  const handleDelete = async () => {
+    setErrorMessage(null)
+    try {
+      await deleteSketchMutation.mutateAsync({ panelId })
+      const context = canvasRef.current?.getContext('2d')
+      context?.clearRect(0, 0, width, height)
+      undoStackRef.current = []
+      setCanUndo(false)
+      setHasContent(false)
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : t('imageEdit.sketch.deleteFailed'))
+    }
+  }
+
+  const isBusy = saveSketchMutation.isPending || deleteSketchMutation.isPending
+  const toolButtonClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-sm transition-colors ${active
+    ? 'bg-[var(--glass-accent-from)] text-white'
+    : 'bg-[var(--glass-bg-muted)] text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-surface-strong)]'}`
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-[var(--glass-text-tertiary)]">{t('imageEdit.sketch.hint')}</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" className={toolButtonClass(tool === 'pen')} onClick={() => setTool('pen')}>
+          {t('imageEdit.sketch.pen')}
+        </button>
+        <button type="button" className={toolButtonClass(tool === 'eraser')} onClick={() => setTool('eraser')}>
+          {t('imageEdit.sketch.eraser')}
+        </button>
+        <label className="flex items-center gap-2 text-xs text-[var(--glass-text-secondary)]">
+          {t('imageEdit.sketch.strokeWidth')}
+          <input
+            type="range"
+            min={2}
+            max={24}
+            value={strokeWidth}
+            onChange={(event) => setStrokeWidth(Number(event.target.value))}
+          />
+        </label>
+        <button type="button" className={toolButtonClass(false)} onClick={handleUndo} disabled={!canUndo}>
+          <AppIcon name="undo" className="w-4 h-4" />
+        </button>
+        <button type="button" className={toolButtonClass(false)} onClick={handleClear}>
+          {t('imageEdit.sketch.clear')}
+        </button>
+        {imageUrl && (
+          <button type="button" className={toolButtonClass(showBackdrop)} onClick={() => setShowBackdrop((previous) => !previous)}>
+            <AppIcon name={showBackdrop ? 'eye' : 'eyeOff'} className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div
+        className="relative w-full overflow-hidden rounded-lg border border-[var(--glass-stroke-strong)] bg-white"
+        style={{ aspectRatio: `${width} / ${height}` }}
+      >
+        {imageUrl && showBackdrop && (
+          <MediaImage
+            src={imageUrl}
+            alt=""
+            className="absolute inset-0 h-full w-full object-cover opacity-30 pointer-events-none"
+          />
+        )}
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="absolute inset-0 h-full w-full touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      {errorMessage && <p className="text-sm text-[var(--glass-tone-danger-fg)]">{errorMessage}</p>}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {sketchUrl && (
+          <button
+            type="button"
+            onClick={() => void handleDelete()}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-sm text-[var(--glass-tone-danger-fg)] hover:bg-[var(--glass-bg-muted)] rounded-lg disabled:opacity-50"
+          >
+            {t('imageEdit.sketch.delete')}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => void saveSketch()}
+          disabled={isBusy || !hasContent}
+          className="px-3 py-1.5 text-sm bg-[var(--glass-bg-muted)] text-[var(--glass-text-secondary)] rounded-lg disabled:opacity-50"
+        >
+          {t('imageEdit.sketch.save')}
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleSaveAndRegenerate()}
+          disabled={isBusy || !hasContent}
+          className="px-3 py-1.5 text-sm bg-[var(--glass-accent-from)] text-white rounded-lg hover:bg-[var(--glass-accent-to)] disabled:opacity-50"
+        >
+          {t('imageEdit.sketch.saveAndRegenerate')}
+        </button>
+      </div>
+    </div>
+  )
+}
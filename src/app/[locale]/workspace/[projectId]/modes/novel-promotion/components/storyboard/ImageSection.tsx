@@ -27,7 +27,8 @@ interface ImageSectionProps {
   failedError: string | null
   candidateData: PanelCandidateData | null
   previousImageUrl?: string | null
-  onRegeneratePanelImage: (panelId: string, count?: number, force?: boolean) => void
+  imageSeed?: number | null
+  onRegeneratePanelImage: (panelId: string, count?: number, force?: boolean, seed?: number) => void
   onOpenEditModal: () => void
   onOpenAIDataModal: () => void
   onSelectCandidateIndex: (panelId: string, index: number) => void
@@ -50,6 +51,7 @@ export default function ImageSection({
   failedError,
   candidateData,
   previousImageUrl,
+  imageSeed,
   onRegeneratePanelImage,
   onOpenEditModal,
   onOpenAIDataModal,
@@ -186,6 +188,7 @@ export default function ImageSection({
           panelId={panelId}
           imageUrl={imageUrl}
           previousImageUrl={previousImageUrl}
+          imageSeed={imageSeed}
           isSubmittingPanelImageTask={isSubmittingPanelImageTask}
           isModifying={isModifying}
           onRegeneratePanelImage={onRegeneratePanelImage}
@@ -12,9 +12,10 @@ interface ImageSectionActionButtonsProps {
   panelId: string
   imageUrl: string | null
   previousImageUrl?: string | null
+  imageSeed?: number | null
   isSubmittingPanelImageTask: boolean
   isModifying: boolean
-  onRegeneratePanelImage: (panelId: string, count?: number, force?: boolean) => void
+  onRegeneratePanelImage: (panelId: string, count?: number, force?: boolean, seed?: number) => void
   onOpenEditModal: () => void
   onOpenAIDataModal: () => void
   onUndo?: (panelId: string) => void
@@ -25,6 +26,7 @@ export default function ImageSectionActionButtons({
   panelId,
   imageUrl,
   previousImageUrl,
+  imageSeed,
   isSubmittingPanelImageTask,
   isModifying,
   onRegeneratePanelImage,
@@ -76,6 +78,19 @@ export default function ImageSectionActionButtons({
               <AppIcon name="chart" className="w-2.5 h-2.5" />
               <span>{t('aiData.viewData')}</span>
             </button>
+            {imageUrl && typeof imageSeed === 'number' && (
+              <button
+                onClick={() => {
+                  triggerPulse()
+                  onRegeneratePanelImage(panelId, 1, isSubmittingPanelImageTask, imageSeed)
+                }}
+                className={`glass-btn-base glass-btn-secondary flex items-center gap-0.5 px-1.5 py-0.5 rounded-md text-[10px] transition-all active:scale-95 ${isSubmittingPanelImageTask ? 'opacity-75' : ''}`}
+                title={t('image.seedTitle', { seed: imageSeed })}
+              >
+                <AppIcon name="refresh" className="w-2.5 h-2.5" />
+                <span>{t('image.regenerateSameSeed')}</span>
+              </button>
+            )}
             {imageUrl && (
               <button
                 onClick={onOpenEditModal}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import PromptTemplatesPanel from '@/components/prompt-templates/PromptTemplatesPanel'
+import { GlassButton, GlassModalShell } from '@/components/ui/primitives'
+import { PROMPT_COMPARE_PROMPT_IDS, type PromptComparePromptId } from '@/lib/prompt-overrides/compare'
+import { useRunPromptCompare } from '@/lib/query/hooks'
+
+interface PromptCompareModalProps {
+  open: boolean
+  projectId: string
+  clipId: string
+  onClose: () => void
+}
+
+type CompareTab = 'compare' | 'templates'
+
+function CompareOutput({ title, items, emptyText }: { title: string; items: unknown[]; emptyText: string }) {
+  return (
+    <div className="flex min-w-0 flex-col gap-2">
+      <div className="text-xs font-medium text-[var(--glass-text-secondary)]">{title}</div>
+      <pre className="glass-surface-soft max-h-[50vh] overflow-auto whitespace-pre-wrap break-words p-3 text-xs text-[var(--glass-text-primary)]">
+        {items.length > 0 ? JSON.stringify(items, null, 2) : emptyText}
+      </pre>
+    </div>
+  )
+}
+
+export default function PromptCompareModal({ open, projectId, clipId, onClose }: PromptCompareModalProps) {
+  const t = useTranslations('storyboard')
+  const locale = useLocale()
+  const [tab, setTab] = useState<CompareTab>('compare')
+  const [promptId, setPromptId] = useState<PromptComparePromptId>(PROMPT_COMPARE_PROMPT_IDS[1])
+  const compareMutation = useRunPromptCompare(projectId)
+  const result = compareMutation.data
+
+  return (
+    <GlassModalShell
+      open={open}
+      onClose={onClose}
+      title={t('promptCompare.title')}
+      description={t('promptCompare.description')}
+      size="xl"
+    >
+      <div className="mb-4 flex gap-2">
+        {(['compare', 'templates'] as const).map((item) => (
+          <GlassButton
+            key={item}
+            size="sm"
+            variant={tab === item ? 'primary' : 'ghost'}
+            onClick={() => setTab(item)}
+          >
+            {item === 'compare' ? t('promptCompare.tabCompare') : t('promptCompare.tabTemplates')}
+          </GlassButton>
+        ))}
+      </div>
+
+      {tab === 'templates' ? (
+        <div className="h-[65vh]">
+          <PromptTemplatesPanel projectId={projectId} />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm text-[var(--glass-text-secondary)]">{t('promptCompare.prompt')}</label>
+            <select
+              value={promptId}
+              onChange={(event) => setPromptId(event.target.value as PromptComparePromptId)}
+              className="glass-input-base px-3 py-1.5 text-sm"
+            >
+              {PROMPT_COMPARE_PROMPT_IDS.map((item) => (
+                <option key={item} value={item}>{t(`promptCompare.prompts.${item}`)}</option>
+              ))}
+            </select>
+            <GlassButton
+              variant="primary"
+              size="sm"
+              loading={compareMutation.isPending}
+              disabled={compareMutation.isPending}
+              onClick={() => compareMutation.mutate({ clipId, promptId, locale })}
+            >
+              {t('promptCompare.run')}
+            </GlassButton>
+          </div>
+          <p className="text-xs text-[var(--glass-text-tertiary)]">{t('promptCompare.hint')}</p>
+
+          {compareMutation.error && (
+            <p className="text-sm text-[var(--glass-tone-danger-fg)]">{compareMutation.error.message}</p>
+          )}
+
+          {result && result.promptId === promptId && (
+            <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+              <CompareOutput
+                title={t('promptCompare.defaultOutput')}
+                items={result.default}
+                emptyText={t('promptCompare.empty')}
+              />
+              <CompareOutput
+                title={t('promptCompare.overrideOutput', {
+                  scope: result.scope === 'project' ? t('promptCompare.scopeProject') : t('promptCompare.scopeUser'),
+                  version: result.version,
+                })}
+                items={result.override}
+                emptyText={t('promptCompare.empty')}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </GlassModalShell>
+  )
+}
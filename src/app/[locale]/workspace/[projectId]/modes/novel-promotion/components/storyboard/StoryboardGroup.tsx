@@ -1,7 +1,7 @@
 'use client'
 import { useTranslations } from 'next-intl'
 
-import { useCallback, useMemo } from 'react'
+import { useCallback, useMemo, useState } from 'react'
 import ScreenplayDisplay from './ScreenplayDisplay'
 import { StoryboardPanel } from './hooks/useStoryboardState'
 import StoryboardGroupHeader from './StoryboardGroupHeader'
@@ -13,6 +13,7 @@ import { useStoryboardGroupTaskErrors } from './hooks/useStoryboardGroupTaskErro
 import { useStoryboardInsertVariantRuntime } from './hooks/useStoryboardInsertVariantRuntime'
 import StoryboardGroupFailedAlert from './StoryboardGroupFailedAlert'
 import StoryboardGroupDialogs from './StoryboardGroupDialogs'
+import PromptCompareModal from './PromptCompareModal'
 import type { StoryboardGroupProps } from './StoryboardGroup.types'
 import { AppIcon } from '@/components/ui/icons'
 
@@ -70,6 +71,7 @@ export default function StoryboardGroup({
   submittingVariantPanelId,
 }: StoryboardGroupProps) {
   const t = useTranslations('storyboard')
+  const [compareOpen, setCompareOpen] = useState(false)
 
   const {
     insertModalOpen,
@@ -128,9 +130,9 @@ export default function StoryboardGroup({
   }, [hasAnyImage, isSelectingCandidate, isSubmittingStoryboardTask])
 
   const handleRegeneratePanelImage = useCallback(
-    (panelId: string, count?: number, force?: boolean) => {
+    (panelId: string, count?: number, force?: boolean, seed?: number) => {
       clearPanelTaskError(panelId)
-      onRegeneratePanelImage(panelId, count, force)
+      onRegeneratePanelImage(panelId, count, force, seed)
     },
     [clearPanelTaskError, onRegeneratePanelImage],
   )
@@ -174,6 +176,7 @@ export default function StoryboardGroup({
           onGenerateAllIndividually={onGenerateAllIndividually}
           onAddPanel={onAddPanel}
           onDeleteStoryboard={onDeleteStoryboard}
+          onComparePrompts={clip ? () => setCompareOpen(true) : undefined}
         />
       </div>
 
@@ -252,6 +255,15 @@ export default function StoryboardGroup({
         onCloseVariantModal={handleCloseVariantModal}
         onVariant={handleVariant}
       />
+
+      {clip && compareOpen && (
+        <PromptCompareModal
+          open={compareOpen}
+          projectId={projectId}
+          clipId={storyboard.clipId}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
     </div>
   )
 }
@@ -17,6 +17,7 @@ interface StoryboardGroupActionsProps {
   onGenerateAllIndividually: () => void
   onAddPanel: () => void
   onDeleteStoryboard: () => void
+  onComparePrompts?: () => void
 }
 
 export default function StoryboardGroupActions({
@@ -29,6 +30,7 @@ export default function StoryboardGroupActions({
   onGenerateAllIndividually,
   onAddPanel,
   onDeleteStoryboard,
+  onComparePrompts,
 }: StoryboardGroupActionsProps) {
   const t = useTranslations('storyboard')
 
@@ -99,6 +101,17 @@ export default function StoryboardGroupActions({
         <span>{t('group.addPanel')}</span>
       </GlassButton>
 
+      {onComparePrompts && (
+        <GlassButton
+          variant="ghost"
+          size="sm"
+          onClick={onComparePrompts}
+        >
+          <AppIcon name="fileText" className="h-3.5 w-3.5" />
+          <span>{t('promptCompare.open')}</span>
+        </GlassButton>
+      )}
+
       <GlassButton
         variant="danger"
         size="sm"
@@ -3,7 +3,10 @@
 import { useTranslations } from 'next-intl'
 import { GlassButton, GlassChip, GlassSurface } from '@/components/ui/primitives'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
+import ConcurrencyUsageChips from '@/components/task/ConcurrencyUsageChips'
+import ScheduledTaskChips from '@/components/task/ScheduledTaskChips'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
+import { useWorkspaceProvider } from '../../WorkspaceProvider'
 
 interface StoryboardHeaderProps {
   totalSegments: number
@@ -29,6 +32,7 @@ export default function StoryboardHeader({
   onBack
 }: StoryboardHeaderProps) {
   const t = useTranslations('storyboard')
+  const { projectId } = useWorkspaceProvider()
   const storyboardTaskRunningState = runningCount > 0
     ? resolveTaskPresentationState({
       phase: 'processing',
@@ -58,7 +62,8 @@ export default function StoryboardHeader({
               </span>
             </GlassChip>
           ) : null}
-          <GlassChip tone="neutral">{t('header.concurrencyLimit', { count: 10 })}</GlassChip>
+          <ConcurrencyUsageChips scopes={['image']} />
+          <ScheduledTaskChips projectId={projectId} />
         </div>
       </div>
 
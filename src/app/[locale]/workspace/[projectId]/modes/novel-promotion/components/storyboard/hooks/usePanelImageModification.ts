@@ -20,6 +20,7 @@ interface ModifyPanelMutationLike {
     modifyPrompt: string
     extraImageUrls: string[]
     selectedAssets: SelectedAsset[]
+    maskImage?: string
   }) => Promise<unknown>
 }
 
@@ -50,6 +51,7 @@ export function usePanelImageModification({
       prompt: string,
       images: string[],
       assets: SelectedAsset[],
+      maskImage?: string,
     ) => {
       const storyboard = localStoryboards.find((item) => item.id === storyboardId)
       const panels = storyboard ? getStoryboardPanels(storyboard) : []
@@ -71,6 +73,7 @@ export function usePanelImageModification({
           modifyPrompt: prompt,
           extraImageUrls: images,
           selectedAssets: assets,
+          maskImage,
         })
         const result = (data || {}) as StoryboardImageMutationResult
 
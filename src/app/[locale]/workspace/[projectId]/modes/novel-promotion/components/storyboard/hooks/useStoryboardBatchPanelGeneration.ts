@@ -11,7 +11,7 @@ interface UseStoryboardBatchPanelGenerationProps {
   sortedStoryboards: NovelPromotionStoryboard[]
   submittingPanelImageIds: Set<string>
   getTextPanels: (storyboard: NovelPromotionStoryboard) => StoryboardPanel[]
-  regeneratePanelImage: (panelId: string, count?: number, force?: boolean) => Promise<void>
+  regeneratePanelImage: (panelId: string, count?: number, force?: boolean, seed?: number) => Promise<void>
   setIsEpisodeBatchSubmitting: (value: boolean) => void
 }
 
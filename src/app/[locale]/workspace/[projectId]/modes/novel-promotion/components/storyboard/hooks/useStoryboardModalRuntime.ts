@@ -42,7 +42,7 @@ interface UseStoryboardModalRuntimeParams {
   updatePanelEdit: (panelId: string, panel: StoryboardPanel, updates: Partial<PanelEditData>) => void
   savePanelWithData: (storyboardId: string, panelIdOrData: string | PanelEditData) => void | Promise<void>
   getDefaultAssetsForClip: (clipId: string) => SelectedAsset[]
-  handleEditSubmit: (prompt: string, images: string[], assets: SelectedAsset[]) => Promise<void>
+  handleEditSubmit: (prompt: string, images: string[], assets: SelectedAsset[], maskImage?: string) => Promise<void>
   handleAddCharacter: (characterName: string, appearance: string) => void
   handleSetLocation: (locationName: string) => void
   updatePhotographyPlanMutation: PhotographyPlanMutation
@@ -100,6 +100,13 @@ export function useStoryboardModalRuntime({
     return getDefaultAssetsForClip(clipId)
   }, [editingPanel, getDefaultAssetsForClip, localStoryboards])
 
+  const editingPanelRuntime = useMemo(() => {
+    if (!editingPanel) return null
+    const storyboard = localStoryboards.find((candidate) => candidate.id === editingPanel.storyboardId)
+    if (!storyboard) return null
+    return getTextPanels(storyboard)[editingPanel.panelIndex] || null
+  }, [editingPanel, getTextPanels, localStoryboards])
+
   const { aiDataRuntime, handleSaveAIData } = useStoryboardAiDataRuntime({
     aiDataPanel,
     localStoryboards,
@@ -120,6 +127,7 @@ export function useStoryboardModalRuntime({
     projectId,
     videoRatio,
     editingPanel,
+    editingPanelRuntime,
     imageEditDefaults,
     handleEditSubmit,
     closeImageEditModal: () => setEditingPanel(null),
@@ -22,13 +22,14 @@ interface UseStoryboardPanelAssetActionsProps {
   getPanelEditData: (panel: StoryboardPanel) => PanelEditData
   updatePanelEdit: (panelId: string, panel: StoryboardPanel, updates: Partial<PanelEditData>) => void
   debouncedSave: (panelId: string, storyboardId: string) => void
-  regeneratePanelImage: (panelId: string, count?: number, force?: boolean) => Promise<void>
+  regeneratePanelImage: (panelId: string, count?: number, force?: boolean, seed?: number) => Promise<void>
   modifyPanelImage: (
     storyboardId: string,
     panelIndex: number,
     prompt: string,
     images: string[],
     assets: SelectedAsset[],
+    maskImage?: string,
   ) => Promise<void>
   addCharacterToPanel: (
     panel: StoryboardPanel,
@@ -87,11 +88,11 @@ export function useStoryboardPanelAssetActions({
   )
 
   const handleEditSubmit = useCallback(
-    async (prompt: string, images: string[], assets: SelectedAsset[]) => {
+    async (prompt: string, images: string[], assets: SelectedAsset[], maskImage?: string) => {
       if (!editingPanel) return
       const { storyboardId, panelIndex } = editingPanel
       setEditingPanel(null)
-      await modifyPanelImage(storyboardId, panelIndex, prompt, images, assets)
+      await modifyPanelImage(storyboardId, panelIndex, prompt, images, assets, maskImage)
     },
     [editingPanel, modifyPanelImage, setEditingPanel],
   )
@@ -28,6 +28,8 @@ export interface StoryboardPanel {
   source_text?: string
   candidateImages?: string
   imageUrl?: string | null
+  imageSeed?: number | null
+  sketchImageUrl?: string | null  // 构图草图（布局参考）
   photographyRules?: string | null  // 单镜头摄影规则JSON
   actingNotes?: string | null       // 演技指导数据JSON
   imageTaskRunning?: boolean  // 任务态运行状态（由 tasks 派生）
@@ -144,6 +146,8 @@ export function useStoryboardState({
         source_text: p.srtSegment || undefined,
         candidateImages: p.candidateImages || undefined,
         imageUrl: p.imageUrl,
+        imageSeed: p.imageSeed ?? null,
+        sketchImageUrl: p.sketchImageMedia?.url || p.sketchImageUrl || null,
         photographyRules: p.photographyRules,
         actingNotes: p.actingNotes,
         imageTaskRunning: p.imageTaskRunning || false
@@ -222,6 +222,15 @@ export default function StoryboardStage({
           <ImageEditModal
             projectId={modalRuntime.projectId}
             defaultAssets={modalRuntime.imageEditDefaults}
+            imageUrl={modalRuntime.editingPanelRuntime?.imageUrl}
+            sketchTarget={modalRuntime.editingPanelRuntime ? {
+              episodeId,
+              panelId: modalRuntime.editingPanelRuntime.id,
+              videoRatio,
+              imageUrl: modalRuntime.editingPanelRuntime.imageUrl,
+              sketchUrl: modalRuntime.editingPanelRuntime.sketchImageUrl,
+              onRegenerate: (panelId) => void regeneratePanelImage(panelId),
+            } : null}
             onSubmit={modalRuntime.handleEditSubmit}
             onClose={modalRuntime.closeImageEditModal}
           />
@@ -1,7 +1,15 @@
 import { getAspectRatioConfig } from '@/lib/constants'
 import type { MutableRefObject } from 'react'
 import type { CapabilitySelections, CapabilityValue } from '@/lib/model-config-contract'
-import { VideoPanelCard, type VideoPanel, type VideoModelOption, type MatchedVoiceLine, type FirstLastFrameParams, type VideoGenerationOptions } from '../video'
+import {
+  VideoPanelCard,
+  type VideoPanel,
+  type VideoModelOption,
+  type MatchedVoiceLine,
+  type FirstLastFrameParams,
+  type VideoGenerationOptions,
+  type PanelGenerationChainParams,
+} from '../video'
 import type { PromptField } from '@/lib/novel-promotion/stages/video-stage-runtime/useVideoPromptState'
 
 interface VideoRenderPanelProps {
@@ -41,6 +49,7 @@ interface VideoRenderPanelProps {
   ) => Promise<void>
   onUpdatePanelVideoModel: (storyboardId: string, panelIndex: number, model: string) => Promise<void>
   onLipSync: (storyboardId: string, panelIndex: number, voiceLineId: string, panelId?: string) => Promise<void>
+  onGenerateChain: (params: PanelGenerationChainParams) => Promise<void>
   onToggleLink: (panelKey: string, storyboardId: string, panelIndex: number) => Promise<void>
   onFlModelChange: (model: string) => void
   onFlCapabilityChange: (field: string, rawValue: string) => void
@@ -95,6 +104,7 @@ export default function VideoRenderPanel({
   onGenerateVideo,
   onUpdatePanelVideoModel,
   onLipSync,
+  onGenerateChain,
   onToggleLink,
   onFlModelChange,
   onFlCapabilityChange,
@@ -158,6 +168,7 @@ export default function VideoRenderPanel({
                 runningVoiceLineIds={runningVoiceLineIds}
                 matchedVoiceLines={panelVoiceLines.get(panelKey) || []}
                 onLipSync={onLipSync}
+                onGenerateChain={onGenerateChain}
                 showLipSyncVideo={panelVideoPreference.get(panelKey) ?? true}
                 onToggleLipSyncVideo={onToggleLipSyncVideo}
                 isLinked={isLinked}
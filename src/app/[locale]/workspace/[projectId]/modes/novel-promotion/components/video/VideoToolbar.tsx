@@ -1,8 +1,11 @@
 'use client'
 import { useTranslations } from 'next-intl'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
+import ConcurrencyUsageChips from '@/components/task/ConcurrencyUsageChips'
+import ScheduledTaskChips from '@/components/task/ScheduledTaskChips'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
 import { AppIcon } from '@/components/ui/icons'
+import { useWorkspaceProvider } from '../../WorkspaceProvider'
 
 interface VideoToolbarProps {
   totalPanels: number
@@ -32,6 +35,7 @@ export default function VideoToolbar({
   videosReady = false
 }: VideoToolbarProps) {
   const t = useTranslations('video')
+  const { projectId } = useWorkspaceProvider()
   const videoTaskRunningState = isAnyTaskRunning
     ? resolveTaskPresentationState({
       phase: 'processing',
@@ -67,6 +71,8 @@ export default function VideoToolbar({
               <span className="text-[var(--glass-tone-danger-fg)] ml-2">({t('toolbar.failedShots', { count: failedCount })})</span>
             )}
           </span>
+          <ConcurrencyUsageChips scopes={['video']} />
+          <ScheduledTaskChips projectId={projectId} />
         </div>
         <div className="flex items-center gap-2">
           <button
@@ -23,6 +23,7 @@ export default function VideoPanelCardBody({ runtime }: VideoPanelCardBodyProps)
     promptEditor,
     voiceManager,
     lipSync,
+    generationChain,
     computed,
   } = runtime
   const safeTranslate = (key: string | undefined, fallback = ''): string => {
@@ -203,6 +204,22 @@ export default function VideoPanelCardBody({ runtime }: VideoPanelCardBodyProps)
                   </div>
                 </div>
 
+                <div className="mt-2">
+                  <button
+                    onClick={() => void generationChain.handleStartChain()}
+                    disabled={!generationChain.canStartChain}
+                    className="w-full py-1.5 text-xs rounded-lg transition-all flex items-center justify-center gap-1 border border-[var(--glass-stroke-base)] bg-[var(--glass-bg-muted)] text-[var(--glass-text-secondary)] disabled:opacity-50"
+                  >
+                    <AppIcon name="link" className="w-3 h-3" />
+                    {generationChain.includesLipSync ? t('panelCard.generateChain') : t('panelCard.generateChainWithoutLipSync')}
+                  </button>
+                  {generationChain.chainError && (
+                    <div className="mt-1 p-1.5 bg-[var(--glass-tone-danger-bg)] border border-[var(--glass-stroke-danger)] rounded text-[10px] text-[var(--glass-tone-danger-fg)]">
+                      {generationChain.chainError}
+                    </div>
+                  )}
+                </div>
+
                 {computed.showLipSyncSection && (
                   <div className="mt-2">
                     <div className="flex gap-2">
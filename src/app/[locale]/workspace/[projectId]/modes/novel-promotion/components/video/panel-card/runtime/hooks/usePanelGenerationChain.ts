@@ -0,0 +1,64 @@
+import { useCallback, useState } from 'react'
+import type { MatchedVoiceLine, PanelGenerationChainParams, VideoGenerationOptions } from '../../../types'
+import type { VideoPanelCardShellProps } from '../../types'
+import { getErrorMessage } from '../shared'
+
+interface UsePanelGenerationChainParams {
+  panel: VideoPanelCardShellProps['panel']
+  matchedVoiceLines: MatchedVoiceLine[]
+  selectedModel: string
+  generationOptions: VideoGenerationOptions
+  missingCapabilityFields: string[]
+  isTaskRunning: boolean
+  onGenerateChain?: (params: PanelGenerationChainParams) => Promise<void>
+}
+
+export function usePanelGenerationChain({
+  panel,
+  matchedVoiceLines,
+  selectedModel,
+  generationOptions,
+  missingCapabilityFields,
+  isTaskRunning,
+  onGenerateChain,
+}: UsePanelGenerationChainParams) {
+  const [executingChain, setExecutingChain] = useState(false)
+  const [chainError, setChainError] = useState<string | null>(null)
+
+  // 口型同步只接已有音频的第一条配音；没有时链路止于视频
+  const lipSyncVoiceLine = matchedVoiceLines.find((voiceLine) => !!voiceLine.audioUrl) || null
+  const canStartChain = !!onGenerateChain
+    && !!panel.panelId
+    && !!selectedModel
+    && missingCapabilityFields.length === 0
+    && !isTaskRunning
+    && !executingChain
+
+  const handleStartChain = useCallback(async () => {
+    if (!onGenerateChain || !panel.panelId || !selectedModel) return
+    setChainError(null)
+    setExecutingChain(true)
+    try {
+      await onGenerateChain({
+        panelId: panel.panelId,
+        storyboardId: panel.storyboardId,
+        panelIndex: panel.panelIndex,
+        videoModel: selectedModel,
+        generationOptions,
+        ...(lipSyncVoiceLine ? { voiceLineId: lipSyncVoiceLine.id } : {}),
+      })
+    } catch (error: unknown) {
+      setChainError(getErrorMessage(error))
+    } finally {
+      setExecutingChain(false)
+    }
+  }, [generationOptions, lipSyncVoiceLine, onGenerateChain, panel.panelId, panel.panelIndex, panel.storyboardId, selectedModel])
+
+  return {
+    executingChain,
+    chainError,
+    canStartChain,
+    includesLipSync: !!lipSyncVoiceLine,
+    handleStartChain,
+  }
+}
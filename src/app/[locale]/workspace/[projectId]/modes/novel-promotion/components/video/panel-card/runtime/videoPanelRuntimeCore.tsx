@@ -9,6 +9,7 @@ import { usePanelPlayer } from './hooks/usePanelPlayer'
 import { usePanelPromptEditor } from './hooks/usePanelPromptEditor'
 import { usePanelVoiceManager } from './hooks/usePanelVoiceManager'
 import { usePanelLipSync } from './hooks/usePanelLipSync'
+import { usePanelGenerationChain } from './hooks/usePanelGenerationChain'
 
 export function useVideoPanelActions({
   panel,
@@ -22,6 +23,7 @@ export function useVideoPanelActions({
   runningVoiceLineIds = EMPTY_RUNNING_VOICE_LINE_IDS,
   matchedVoiceLines = [],
   onLipSync,
+  onGenerateChain,
   showLipSyncVideo,
   onToggleLipSyncVideo,
   isLinked,
@@ -102,6 +104,16 @@ export function useVideoPanelActions({
     onLipSync,
   })
 
+  const generationChain = usePanelGenerationChain({
+    panel,
+    matchedVoiceLines,
+    selectedModel: videoModel.selectedModel,
+    generationOptions: videoModel.generationOptions,
+    missingCapabilityFields: videoModel.missingCapabilityFields,
+    isTaskRunning: taskStatus.isVideoTaskRunning || taskStatus.isLipSyncTaskRunning,
+    onGenerateChain,
+  })
+
   const showLipSyncSection = voiceManager.hasMatchedVoiceLines
   const canLipSync = hasVisibleBaseVideo && voiceManager.hasMatchedAudio && !taskStatus.isLipSyncTaskRunning
 
@@ -128,6 +140,7 @@ export function useVideoPanelActions({
     },
     voiceManager,
     lipSync,
+    generationChain,
     layout: {
       isLinked,
       isLastFrame,
@@ -1,4 +1,11 @@
-import type { VideoPanel, MatchedVoiceLine, VideoModelOption, FirstLastFrameParams, VideoGenerationOptions } from '../types'
+import type {
+  VideoPanel,
+  MatchedVoiceLine,
+  VideoModelOption,
+  FirstLastFrameParams,
+  VideoGenerationOptions,
+  PanelGenerationChainParams,
+} from '../types'
 import type { CapabilitySelections, CapabilityValue } from '@/lib/model-config-contract'
 
 export interface VideoPanelCardShellProps {
@@ -13,6 +20,7 @@ export interface VideoPanelCardShellProps {
   runningVoiceLineIds?: Set<string>
   matchedVoiceLines?: MatchedVoiceLine[]
   onLipSync?: (storyboardId: string, panelIndex: number, voiceLineId: string, panelId?: string) => Promise<void>
+  onGenerateChain?: (params: PanelGenerationChainParams) => Promise<void>
   showLipSyncVideo: boolean
   onToggleLipSyncVideo: (panelKey: string, value: boolean) => void
   isLinked: boolean
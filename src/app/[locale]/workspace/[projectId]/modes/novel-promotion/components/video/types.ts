@@ -125,3 +125,13 @@ export interface BatchVideoGenerationParams {
   videoModel: string
   generationOptions?: VideoGenerationOptions
 }
+
+// 一键串联生成：分镜图 → 视频 → 口型同步（无配音时省略口型同步）
+export interface PanelGenerationChainParams {
+  panelId: string
+  storyboardId: string
+  panelIndex: number
+  videoModel: string
+  generationOptions?: VideoGenerationOptions
+  voiceLineId?: string
+}
@@ -1,6 +1,7 @@
 import type { ReactNode } from 'react'
 import { useTranslations } from 'next-intl'
 import type { TaskPresentationState } from '@/lib/task/presentation'
+import type { SubtitleFormat } from '@/lib/subtitles/types'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
 import VoiceToolbar from '../voice/VoiceToolbar'
 import EmbeddedVoiceToolbar from '../voice/EmbeddedVoiceToolbar'
@@ -21,6 +22,7 @@ interface VoiceControlPanelProps {
   analyzing: boolean
   isBatchSubmittingAll: boolean
   isDownloading: boolean
+  isDownloadingSubtitles: boolean
   runningLineCount: number
   allSpeakersHaveVoice: boolean
   totalLines: number
@@ -40,6 +42,7 @@ interface VoiceControlPanelProps {
   onAnalyze: () => Promise<void>
   onGenerateAll: () => Promise<void>
   onDownloadAll: () => Promise<void>
+  onDownloadSubtitles: (format: SubtitleFormat) => Promise<void>
   onStartAdd: () => void
   onOpenAssetLibraryForSpeaker: (speaker: string) => void
   onOpenInlineBinding?: (speaker: string) => void
@@ -59,6 +62,7 @@ export default function VoiceControlPanel({
   analyzing,
   isBatchSubmittingAll,
   isDownloading,
+  isDownloadingSubtitles,
   runningLineCount,
   allSpeakersHaveVoice,
   totalLines,
@@ -78,6 +82,7 @@ export default function VoiceControlPanel({
   onAnalyze,
   onGenerateAll,
   onDownloadAll,
+  onDownloadSubtitles,
   onStartAdd,
   onOpenAssetLibraryForSpeaker,
   onOpenInlineBinding,
@@ -100,10 +105,12 @@ export default function VoiceControlPanel({
           onAnalyze={onAnalyze}
           onGenerateAll={onGenerateAll}
           onDownloadAll={onDownloadAll}
+          onDownloadSubtitles={onDownloadSubtitles}
           analyzing={analyzing}
           isBatchSubmitting={isBatchSubmittingAll}
           runningCount={runningLineCount}
           isDownloading={isDownloading}
+          isDownloadingSubtitles={isDownloadingSubtitles}
           allSpeakersHaveVoice={allSpeakersHaveVoice}
           totalLines={totalLines}
           linesWithVoice={linesWithVoice}
@@ -115,12 +122,14 @@ export default function VoiceControlPanel({
           linesWithAudio={linesWithAudio}
           analyzing={analyzing}
           isDownloading={isDownloading}
+          isDownloadingSubtitles={isDownloadingSubtitles}
           isBatchSubmitting={isBatchSubmittingAll}
           runningCount={runningLineCount}
           allSpeakersHaveVoice={allSpeakersHaveVoice}
           onAddLine={onStartAdd}
           onAnalyze={onAnalyze}
           onDownloadAll={onDownloadAll}
+          onDownloadSubtitles={onDownloadSubtitles}
           onGenerateAll={onGenerateAll}
         />
       )}
@@ -2,18 +2,22 @@
 import { useTranslations } from 'next-intl'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
+import type { SubtitleFormat } from '@/lib/subtitles/types'
+import SubtitleDownloadButton from './SubtitleDownloadButton'
 
 interface EmbeddedVoiceToolbarProps {
     totalLines: number
     linesWithAudio: number
     analyzing: boolean
     isDownloading: boolean
+    isDownloadingSubtitles: boolean
     isBatchSubmitting: boolean
     runningCount: number
     allSpeakersHaveVoice: boolean
     onAddLine: () => void
     onAnalyze: () => void
     onDownloadAll: () => void
+    onDownloadSubtitles: (format: SubtitleFormat) => void
     onGenerateAll: () => void
 }
 
@@ -22,12 +26,14 @@ export default function EmbeddedVoiceToolbar({
     linesWithAudio,
     analyzing,
     isDownloading,
+    isDownloadingSubtitles,
     isBatchSubmitting,
     runningCount,
     allSpeakersHaveVoice,
     onAddLine,
     onAnalyze,
     onDownloadAll,
+    onDownloadSubtitles,
     onGenerateAll
 }: EmbeddedVoiceToolbarProps) {
     const t = useTranslations('voice')
@@ -103,6 +109,12 @@ export default function EmbeddedVoiceToolbar({
                         <>{t("embedded.downloadVoice")}</>
                     )}
                 </button>
+                <SubtitleDownloadButton
+                    totalLines={totalLines}
+                    isDownloading={isDownloadingSubtitles}
+                    onDownload={onDownloadSubtitles}
+                    className="glass-btn-base glass-btn-secondary flex items-center gap-2 px-4 py-2 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                />
 
                 {/* 生成全部按钮 */}
                 <button
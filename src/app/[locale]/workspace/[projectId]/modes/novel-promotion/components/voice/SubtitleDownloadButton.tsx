@@ -0,0 +1,54 @@
+'use client'
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import type { SubtitleFormat } from '@/lib/subtitles/types'
+
+const SUBTITLE_FORMAT_OPTIONS: Array<{ value: SubtitleFormat; label: string }> = [
+    { value: 'srt', label: 'SRT' },
+    { value: 'vtt', label: 'WebVTT' },
+    { value: 'ass', label: 'ASS' },
+]
+
+interface SubtitleDownloadButtonProps {
+    totalLines: number
+    isDownloading: boolean
+    onDownload: (format: SubtitleFormat) => void
+    className: string
+}
+
+/**
+ * 字幕下载：格式选择 + 下载按钮 (独立页与嵌入式工具栏共用)
+ */
+export default function SubtitleDownloadButton({
+    totalLines,
+    isDownloading,
+    onDownload,
+    className
+}: SubtitleDownloadButtonProps) {
+    const t = useTranslations('voice')
+    const [format, setFormat] = useState<SubtitleFormat>('srt')
+    const disabled = totalLines === 0 || isDownloading
+
+    return (
+        <div className="flex items-center gap-1">
+            <select
+                value={format}
+                onChange={(event) => setFormat(event.target.value as SubtitleFormat)}
+                disabled={disabled}
+                aria-label={t("toolbar.subtitleFormat")}
+                className="glass-input-base px-2 py-2 text-sm disabled:opacity-50"
+            >
+                {SUBTITLE_FORMAT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+            <button
+                onClick={() => onDownload(format)}
+                disabled={disabled}
+                className={className}
+            >
+                {t("toolbar.downloadSubtitles")}
+            </button>
+        </div>
+    )
+}
@@ -2,6 +2,8 @@
 import { useTranslations } from 'next-intl'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
+import type { SubtitleFormat } from '@/lib/subtitles/types'
+import SubtitleDownloadButton from './SubtitleDownloadButton'
 
 interface VoiceToolbarProps {
     onBack?: () => void
@@ -9,10 +11,12 @@ interface VoiceToolbarProps {
     onAnalyze: () => void
     onGenerateAll: () => void
     onDownloadAll: () => void
+    onDownloadSubtitles: (format: SubtitleFormat) => void
     analyzing: boolean
     isBatchSubmitting: boolean
     runningCount: number
     isDownloading: boolean
+    isDownloadingSubtitles: boolean
     allSpeakersHaveVoice: boolean
     totalLines: number
     linesWithVoice: number
@@ -25,10 +29,12 @@ export default function VoiceToolbar({
     onAnalyze,
     onGenerateAll,
     onDownloadAll,
+    onDownloadSubtitles,
     analyzing,
     isBatchSubmitting,
     runningCount,
     isDownloading,
+    isDownloadingSubtitles,
     allSpeakersHaveVoice,
     totalLines,
     linesWithVoice,
@@ -98,6 +104,12 @@ export default function VoiceToolbar({
                             <TaskStatusInline state={voiceDownloadRunningState} className="text-white [&>span]:text-white [&_svg]:text-white" />
                         ) : t("toolbar.downloadAll")}
                     </button>
+                    <SubtitleDownloadButton
+                        totalLines={totalLines}
+                        isDownloading={isDownloadingSubtitles}
+                        onDownload={onDownloadSubtitles}
+                        className="glass-btn-base glass-btn-secondary flex items-center gap-2 px-5 py-2.5 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    />
                 </div>
                 <div className="text-sm text-[var(--glass-text-tertiary)]">
                     {t("toolbar.stats", { total: totalLines, withVoice: linesWithVoice, withAudio: linesWithAudio })}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useTranslations } from 'next-intl'
+import { useToast } from '@/contexts/ToastContext'
+import { TASK_EVENT_TYPE, type TaskBudgetAlert } from '@/lib/task/types'
+import { useWorkspaceProvider } from '../WorkspaceProvider'
+
+function readBudgetAlerts(payload: Record<string, unknown> | null | undefined): TaskBudgetAlert[] {
+  const billing = payload?.billing
+  if (!billing || typeof billing !== 'object' || Array.isArray(billing)) return []
+  const alerts = (billing as { budgetAlerts?: unknown }).budgetAlerts
+  return Array.isArray(alerts) ? alerts as TaskBudgetAlert[] : []
+}
+
+/**
+ * 任务创建事件携带预算越线提示（80% / 100%）时弹出 toast
+ */
+export function useWorkspaceBudgetAlerts() {
+  const { subscribeTaskEvents } = useWorkspaceProvider()
+  const { showToast } = useToast()
+  const t = useTranslations('progress')
+
+  useEffect(() => subscribeTaskEvents((event) => {
+    if (event.payload?.lifecycleType !== TASK_EVENT_TYPE.CREATED) return
+    for (const alert of readBudgetAlerts(event.payload)) {
+      showToast(
+        t(`budgetAlert.${alert.level}`, {
+          scope: t(`budgetAlert.scope.${alert.scope}`),
+          percent: alert.percent,
+          spent: alert.spent.toFixed(2),
+          limit: alert.limit.toFixed(2),
+        }),
+        alert.level === 'exceeded' ? 'error' : 'warning',
+        alert.level === 'exceeded' ? 0 : 8000,
+      )
+    }
+  }), [showToast, subscribeTaskEvents, t])
+}
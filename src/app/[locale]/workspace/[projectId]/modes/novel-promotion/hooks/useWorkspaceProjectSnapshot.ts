@@ -45,6 +45,7 @@ export function useWorkspaceProjectSnapshot({
       videoRatio: projectData?.videoRatio,
       capabilityOverrides,
       ttsRate: projectData?.ttsRate,
+      llmCacheEnabled: projectData?.llmCacheEnabled === true,
       artStyle: projectData?.artStyle,
     }
   }, [episode?.novelText, episode?.storyboards, project.novelPromotionData, urlStage])
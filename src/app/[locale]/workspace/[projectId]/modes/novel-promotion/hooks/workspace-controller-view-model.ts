@@ -30,6 +30,7 @@ interface ProjectSnapshotInput {
   videoRatio: string | undefined
   capabilityOverrides: CapabilitySelections
   ttsRate: string | number | undefined
+  llmCacheEnabled: boolean
   artStyle: string | undefined
 }
 
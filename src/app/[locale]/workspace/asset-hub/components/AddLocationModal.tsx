@@ -3,8 +3,7 @@ import { logError as _ulogError } from '@/lib/logging/core'
 
 import { useState } from 'react'
 import { useTranslations } from 'next-intl'
-import { ART_STYLES } from '@/lib/constants'
-import { useAiDesignLocation, useCreateAssetHubLocation } from '@/lib/query/hooks'
+import { useAiDesignLocation, useArtStyleOptions, useCreateAssetHubLocation } from '@/lib/query/hooks'
 import { useImageGenerationCount } from '@/lib/image-generation/use-image-generation-count'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
@@ -34,6 +33,7 @@ export function AddLocationModal({ folderId, onClose, onSuccess }: AddLocationMo
     const [summary, setSummary] = useState('')
     const [aiInstruction, setAiInstruction] = useState('')
     const [artStyle, setArtStyle] = useState('american-comic')
+    const artStyleOptions = useArtStyleOptions()
     const [availableSlots, setAvailableSlots] = useState<LocationAvailableSlot[]>([])
 
     const aiDesignMutation = useAiDesignLocation()
@@ -170,7 +170,7 @@ export function AddLocationModal({ folderId, onClose, onSuccess }: AddLocationMo
                                 画面风格
                             </label>
                             <div className="grid grid-cols-2 gap-2">
-                                {ART_STYLES.map((style) => (
+                                {artStyleOptions.map((style) => (
                                     <button
                                         key={style.value}
                                         type="button"
@@ -0,0 +1,428 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { AppIcon } from '@/components/ui/icons'
+import { MediaImageWithLoading } from '@/components/media/MediaImageWithLoading'
+import {
+    useArtStyles,
+    useCreateArtStyle,
+    useDeleteArtStyle,
+    useDeleteArtStyleReferenceImage,
+    useUpdateArtStyle,
+    useUploadArtStyleReferenceImage,
+    useUserModels,
+    type ArtStyleSummary,
+    type SaveArtStyleInput,
+} from '@/lib/query/hooks'
+
+// 与服务端 MAX_ART_STYLE_REFERENCE_IMAGES 保持一致
+const MAX_REFERENCE_IMAGES = 4
+
+interface OverrideRow {
+    modelKey: string
+    promptZh: string
+    promptEn: string
+    negativePrompt: string
+}
+
+interface ArtStyleFormState {
+    name: string
+    promptZh: string
+    promptEn: string
+    negativePrompt: string
+    isShared: boolean
+    overrides: OverrideRow[]
+}
+
+function toFormState(style: ArtStyleSummary | null): ArtStyleFormState {
+    return {
+        name: style?.name || '',
+        promptZh: style?.promptZh || '',
+        promptEn: style?.promptEn || '',
+        negativePrompt: style?.negativePrompt || '',
+        isShared: style?.isShared || false,
+        overrides: Object.entries(style?.modelOverrides || {}).map(([modelKey, override]) => ({
+            modelKey,
+            promptZh: override.promptZh || '',
+            promptEn: override.promptEn || '',
+            negativePrompt: override.negativePrompt || '',
+        })),
+    }
+}
+
+function toSaveInput(form: ArtStyleFormState): SaveArtStyleInput {
+    const modelOverrides: SaveArtStyleInput['modelOverrides'] = {}
+    for (const row of form.overrides) {
+        if (!row.modelKey) continue
+        modelOverrides[row.modelKey] = {
+            promptZh: row.promptZh,
+            promptEn: row.promptEn,
+            negativePrompt: row.negativePrompt,
+        }
+    }
+    return {
+        name: form.name,
+        promptZh: form.promptZh,
+        promptEn: form.promptEn,
+        negativePrompt: form.negativePrompt || null,
+        modelOverrides,
+        isShared: form.isShared,
+    }
+}
+
+interface ArtStyleEditorProps {
+    style: ArtStyleSummary | null
+    onSaved: (style: ArtStyleSummary) => void
+    onDeleted: () => void
+}
+
+function ArtStyleEditor({ style, onSaved, onDeleted }: ArtStyleEditorProps) {
+    const t = useTranslations('assetHub.artStyleLibrary')
+    const [form, setForm] = useState<ArtStyleFormState>(() => toFormState(style))
+    const [error, setError] = useState('')
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const { data: userModels } = useUserModels()
+    const createStyle = useCreateArtStyle()
+    const updateStyle = useUpdateArtStyle()
+    const deleteStyle = useDeleteArtStyle()
+    const uploadReference = useUploadArtStyleReferenceImage()
+    const deleteReference = useDeleteArtStyleReferenceImage()
+
+    const readonly = !!style && !style.isOwner
+    const isSaving = createStyle.isPending || updateStyle.isPending
+    const imageModels = userModels?.image || []
+
+    const runAction = async (action: () => Promise<void>) => {
+        setError('')
+        try {
+            await action()
+        } catch (caught) {
+            setError(caught instanceof Error ? caught.message : String(caught))
+        }
+    }
+
+    const handleSave = () => runAction(async () => {
+        const input = toSaveInput(form)
+        const result = style
+            ? await updateStyle.mutateAsync({ styleId: style.id, ...input })
+            : await createStyle.mutateAsync(input)
+        onSaved(result.style)
+    })
+
+    const handleDelete = () => {
+        if (!style || !confirm(t('deleteConfirm', { name: style.name }))) return
+        void runAction(async () => {
+            await deleteStyle.mutateAsync({ styleId: style.id })
+            onDeleted()
+        })
+    }
+
+    const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ''
+        if (!style || !file) return
+        void runAction(async () => {
+            await uploadReference.mutateAsync({ styleId: style.id, file })
+        })
+    }
+
+    const updateOverride = (index: number, patch: Partial<OverrideRow>) => {
+        setForm((prev) => ({
+            ...prev,
+            overrides: prev.overrides.map((row, rowIndex) => (rowIndex === index ? { ...row, ...patch } : row)),
+        }))
+    }
+
+    const fieldClassName = 'glass-input-base w-full px-3 py-2 text-sm disabled:opacity-60'
+
+    return (
+        <div className="space-y-4">
+            {readonly && (
+                <p className="text-xs text-[var(--glass-text-tertiary)] flex items-center gap-1">
+                    <AppIcon name="info" className="w-3.5 h-3.5" />
+                    {t('readonly')}
+                </p>
+            )}
+            <label className="block space-y-1">
+                <span className="block text-sm font-medium text-[var(--glass-text-secondary)]">{t('name')}</span>
+                <input
+                    type="text"
+                    value={form.name}
+                    disabled={readonly}
+                    onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder={t('namePlaceholder')}
+                    className={fieldClassName}
+                />
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                    <span className="block text-sm font-medium text-[var(--glass-text-secondary)]">{t('promptZh')}</span>
+                    <textarea
+                        rows={3}
+                        value={form.promptZh}
+                        disabled={readonly}
+                        onChange={(e) => setForm((prev) => ({ ...prev, promptZh: e.target.value }))}
+                        className={`${fieldClassName} resize-none`}
+                    />
+                </label>
+                <label className="block space-y-1">
+                    <span className="block text-sm font-medium text-[var(--glass-text-secondary)]">{t('promptEn')}</span>
+                    <textarea
+                        rows={3}
+                        value={form.promptEn}
+                        disabled={readonly}
+                        onChange={(e) => setForm((prev) => ({ ...prev, promptEn: e.target.value }))}
+                        className={`${fieldClassName} resize-none`}
+                    />
+                </label>
+            </div>
+            <p className="text-xs text-[var(--glass-text-tertiary)]">{t('promptHint')}</p>
+            <label className="block space-y-1">
+                <span className="block text-sm font-medium text-[var(--glass-text-secondary)]">{t('negativePrompt')}</span>
+                <textarea
+                    rows={2}
+                    value={form.negativePrompt}
+                    disabled={readonly}
+                    onChange={(e) => setForm((prev) => ({ ...prev, negativePrompt: e.target.value }))}
+                    placeholder={t('negativePromptPlaceholder')}
+                    className={`${fieldClassName} resize-none`}
+                />
+            </label>
+
+            {/* 画风参考图 */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-[var(--glass-text-secondary)]">{t('referenceImages')}</span>
+                    {style && !readonly && style.referenceImageUrls.length < MAX_REFERENCE_IMAGES && (
+                        <button
+                            type="button"
+                            disabled={uploadReference.isPending}
+                            onClick={() => fileInputRef.current?.click()}
+                            className="glass-btn-base glass-btn-secondary px-3 py-1 rounded-lg text-xs flex items-center gap-1"
+                        >
+                            <AppIcon name="upload" className="w-3.5 h-3.5" />
+                            {t('upload')}
+                        </button>
+                    )}
+                    <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+                </div>
+                <p className="text-xs text-[var(--glass-text-tertiary)]">
+                    {style ? t('referenceHint', { max: MAX_REFERENCE_IMAGES }) : t('referenceSaveFirst')}
+                </p>
+                {style && style.referenceImageUrls.length > 0 && (
+                    <div className="grid grid-cols-4 gap-2">
+                        {style.referenceImageUrls.map((url, index) => (
+                            <div key={`${url}-${index}`} className="relative group rounded-lg overflow-hidden border border-[var(--glass-stroke-base)]">
+                                <MediaImageWithLoading
+                                    src={url}
+                                    alt={`${style.name} ${index + 1}`}
+                                    containerClassName="w-full aspect-square"
+                                    className="w-full h-full object-cover"
+                                />
+                                {!readonly && (
+                                    <button
+                                        type="button"
+                                        disabled={deleteReference.isPending}
+                                        onClick={() => void runAction(async () => {
+                                            await deleteReference.mutateAsync({ styleId: style.id, index })
+                                        })}
+                                        className="absolute top-1 right-1 glass-btn-base glass-btn-soft h-6 w-6 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100"
+                                    >
+                                        <AppIcon name="close" className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* 模型覆盖 */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-[var(--glass-text-secondary)]">{t('modelOverrides')}</span>
+                    {!readonly && (
+                        <button
+                            type="button"
+                            onClick={() => setForm((prev) => ({
+                                ...prev,
+                                overrides: [...prev.overrides, { modelKey: '', promptZh: '', promptEn: '', negativePrompt: '' }],
+                            }))}
+                            className="glass-btn-base glass-btn-secondary px-3 py-1 rounded-lg text-xs flex items-center gap-1"
+                        >
+                            <AppIcon name="plus" className="w-3.5 h-3.5" />
+                            {t('addOverride')}
+                        </button>
+                    )}
+                </div>
+                <p className="text-xs text-[var(--glass-text-tertiary)]">{t('modelOverridesHint')}</p>
+                {form.overrides.map((row, index) => (
+                    <div key={index} className="glass-surface-soft p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={row.modelKey}
+                                disabled={readonly}
+                                onChange={(e) => updateOverride(index, { modelKey: e.target.value })}
+                                className={fieldClassName}
+                                aria-label={t('modelKey')}
+                            >
+                                <option value="">{t('selectModel')}</option>
+                                {row.modelKey && !imageModels.some((model) => model.value === row.modelKey) && (
+                                    <option value={row.modelKey}>{row.modelKey}</option>
+                                )}
+                                {imageModels.map((model) => (
+                                    <option key={model.value} value={model.value}>{model.label}</option>
+                                ))}
+                            </select>
+                            {!readonly && (
+                                <button
+                                    type="button"
+                                    onClick={() => setForm((prev) => ({
+                                        ...prev,
+                                        overrides: prev.overrides.filter((_, rowIndex) => rowIndex !== index),
+                                    }))}
+                                    className="glass-btn-base glass-btn-soft h-8 w-8 shrink-0 rounded-lg flex items-center justify-center text-[var(--glass-text-tertiary)]"
+                                >
+                                    <AppIcon name="trash" className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                            <input
+                                type="text"
+                                value={row.promptZh}
+                                disabled={readonly}
+                                onChange={(e) => updateOverride(index, { promptZh: e.target.value })}
+                                placeholder={t('promptZh')}
+                                className={fieldClassName}
+                            />
+                            <input
+                                type="text"
+                                value={row.promptEn}
+                                disabled={readonly}
+                                onChange={(e) => updateOverride(index, { promptEn: e.target.value })}
+                                placeholder={t('promptEn')}
+                                className={fieldClassName}
+                            />
+                            <input
+                                type="text"
+                                value={row.negativePrompt}
+                                disabled={readonly}
+                                onChange={(e) => updateOverride(index, { negativePrompt: e.target.value })}
+                                placeholder={t('negativePrompt')}
+                                className={fieldClassName}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {!readonly && (
+                <label className="flex items-center gap-2 text-sm text-[var(--glass-text-secondary)]">
+                    <input
+                        type="checkbox"
+                        checked={form.isShared}
+                        onChange={(e) => setForm((prev) => ({ ...prev, isShared: e.target.checked }))}
+                    />
+                    {t('shared')}
+                </label>
+            )}
+
+            {error && <p className="text-xs text-[var(--glass-tone-danger-fg)]">{error}</p>}
+
+            {!readonly && (
+                <div className="flex gap-3 justify-end">
+                    {style && (
+                        <button
+                            type="button"
+                            disabled={deleteStyle.isPending}
+                            onClick={handleDelete}
+                            className="glass-btn-base glass-btn-secondary px-4 py-2 rounded-lg text-sm"
+                        >
+                            {t('delete')}
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        disabled={isSaving || !form.name.trim() || (!form.promptZh.trim() && !form.promptEn.trim())}
+                        onClick={() => void handleSave()}
+                        className="glass-btn-base glass-btn-primary px-4 py-2 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {style ? t('save') : t('create')}
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+interface ArtStyleLibraryModalProps {
+    onClose: () => void
+}
+
+/**
+ * 画风库管理：自定义画风的提示词、负面提示词、参考图与按模型覆盖
+ */
+export function ArtStyleLibraryModal({ onClose }: ArtStyleLibraryModalProps) {
+    const t = useTranslations('assetHub.artStyleLibrary')
+    const { data: styles = [], isLoading } = useArtStyles()
+    // null 表示新建
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const selectedStyle = styles.find((style) => style.id === selectedId) || null
+
+    return (
+        <div className="fixed inset-0 glass-overlay flex items-center justify-center z-50 p-4">
+            <div className="glass-surface-modal max-w-4xl w-full max-h-[90vh] flex flex-col">
+                <div className="p-5 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold text-[var(--glass-text-primary)]">{t('title')}</h3>
+                        <p className="text-xs text-[var(--glass-text-tertiary)] mt-1">{t('hint')}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="glass-btn-base glass-btn-soft h-8 w-8 rounded-full flex items-center justify-center text-[var(--glass-text-tertiary)] hover:text-[var(--glass-text-secondary)]"
+                    >
+                        <AppIcon name="close" className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="flex gap-5 px-5 pb-5 min-h-0 flex-1">
+                    <div className="w-52 shrink-0 space-y-1 overflow-y-auto app-scrollbar">
+                        <button
+                            type="button"
+                            onClick={() => setSelectedId(null)}
+                            className={`glass-btn-base w-full px-3 py-2 rounded-lg text-sm justify-start flex items-center gap-1 ${selectedId === null ? 'glass-btn-tone-info' : 'glass-btn-soft'}`}
+                        >
+                            <AppIcon name="plus" className="w-4 h-4" />
+                            {t('newStyle')}
+                        </button>
+                        {!isLoading && styles.length === 0 && (
+                            <p className="text-xs text-[var(--glass-text-tertiary)] px-3 py-2">{t('empty')}</p>
+                        )}
+                        {styles.map((style) => (
+                            <button
+                                key={style.id}
+                                type="button"
+                                onClick={() => setSelectedId(style.id)}
+                                className={`glass-btn-base w-full px-3 py-2 rounded-lg text-sm justify-between flex items-center gap-2 ${selectedId === style.id ? 'glass-btn-tone-info' : 'glass-btn-soft'}`}
+                            >
+                                <span className="truncate">{style.name}</span>
+                                {style.isShared && (
+                                    <span className="text-[10px] text-[var(--glass-text-tertiary)] shrink-0">{t('sharedBadge')}</span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex-1 min-w-0 overflow-y-auto app-scrollbar pr-1">
+                        <ArtStyleEditor
+                            key={selectedStyle ? `${selectedStyle.id}:${selectedStyle.updatedAt}` : 'new'}
+                            style={selectedStyle}
+                            onSaved={(style) => setSelectedId(style.id)}
+                            onDeleted={() => setSelectedId(null)}
+                        />
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -6,6 +6,7 @@ import { AppIcon } from '@/components/ui/icons'
 interface Folder {
     id: string
     name: string
+    isShared?: boolean
 }
 
 interface FolderSidebarProps {
@@ -15,6 +16,11 @@ interface FolderSidebarProps {
     onCreateFolder: () => void
     onEditFolder: (folder: Folder) => void
     onDeleteFolder: (folderId: string) => void
+    onToggleShare: (folder: Folder) => void
+    onExportFolder: (folder: Folder) => void
+    onImportBundle: () => void
+    onOpenSharedLibrary: () => void
+    isImporting?: boolean
 }
 
 // 内联 SVG 图标
@@ -34,13 +40,30 @@ const TrashIcon = ({ className }: { className?: string }) => (
     <AppIcon name="trash" className={className} />
 )
 
+const GlobeIcon = ({ className }: { className?: string }) => (
+    <AppIcon name="globe" className={className} />
+)
+
+const DownloadIcon = ({ className }: { className?: string }) => (
+    <AppIcon name="download" className={className} />
+)
+
+const UploadIcon = ({ className }: { className?: string }) => (
+    <AppIcon name="upload" className={className} />
+)
+
 export function FolderSidebar({
     folders,
     selectedFolderId,
     onSelectFolder,
     onCreateFolder,
     onEditFolder,
-    onDeleteFolder
+    onDeleteFolder,
+    onToggleShare,
+    onExportFolder,
+    onImportBundle,
+    onOpenSharedLibrary,
+    isImporting = false
 }: FolderSidebarProps) {
     const t = useTranslations('assetHub')
 
@@ -49,13 +72,23 @@ export function FolderSidebar({
             <div className="glass-surface p-4">
                 <div className="flex items-center justify-between mb-3">
                     <h3 className="text-sm font-medium text-[var(--glass-text-secondary)]">{t('folders')}</h3>
-                    <button
-                        onClick={onCreateFolder}
-                        className="glass-btn-base glass-btn-primary h-6 w-6 rounded-full flex items-center justify-center"
-                        title={t('newFolder')}
-                    >
-                        <PlusIcon className="w-4 h-4" />
-                    </button>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onImportBundle}
+                            disabled={isImporting}
+                            className="glass-btn-base glass-btn-soft h-6 w-6 rounded-full flex items-center justify-center disabled:opacity-50"
+                            title={isImporting ? t('bundle.importing') : t('bundle.import')}
+                        >
+                            <UploadIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={onCreateFolder}
+                            className="glass-btn-base glass-btn-primary h-6 w-6 rounded-full flex items-center justify-center"
+                            title={t('newFolder')}
+                        >
+                            <PlusIcon className="w-4 h-4" />
+                        </button>
+                    </div>
                 </div>
 
                 <div className="space-y-1">
@@ -86,10 +119,33 @@ export function FolderSidebar({
                             >
                                 <FolderIcon className="w-4 h-4 flex-shrink-0" />
                                 <span className="truncate">{folder.name}</span>
+                                {folder.isShared && (
+                                    <GlobeIcon className="w-3 h-3 flex-shrink-0 text-[var(--glass-tone-info-fg)]" />
+                                )}
                             </button>
 
                             {/* 操作按钮 */}
                             <div className="hidden group-hover:flex items-center gap-0.5">
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation()
+                                        onToggleShare(folder)
+                                    }}
+                                    className="glass-btn-base glass-btn-soft h-5 w-5 rounded flex items-center justify-center"
+                                    title={folder.isShared ? t('bundle.unshare') : t('bundle.share')}
+                                >
+                                    <GlobeIcon className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation()
+                                        onExportFolder(folder)
+                                    }}
+                                    className="glass-btn-base glass-btn-soft h-5 w-5 rounded flex items-center justify-center"
+                                    title={t('bundle.export')}
+                                >
+                                    <DownloadIcon className="w-3 h-3" />
+                                </button>
                                 <button
                                     onClick={(e) => {
                                         e.stopPropagation()
@@ -120,6 +176,15 @@ export function FolderSidebar({
                         </div>
                     )}
                 </div>
+
+                {/* 共享资产库入口 */}
+                <button
+                    onClick={onOpenSharedLibrary}
+                    className="mt-3 w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-muted)] transition-colors"
+                >
+                    <GlobeIcon className="w-4 h-4" />
+                    <span className="truncate">{t('sharedLibrary.title')}</span>
+                </button>
             </div>
         </div>
     )
@@ -3,14 +3,16 @@ import { logError as _ulogError } from '@/lib/logging/core'
 import { apiFetch } from '@/lib/api-fetch'
 import JSZip from 'jszip'
 
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { useTranslations } from 'next-intl'
 import { useQueryClient } from '@tanstack/react-query'
 import Navbar from '@/components/Navbar'
 import { FolderSidebar } from './components/FolderSidebar'
 import { AssetGrid } from './components/AssetGrid'
 import { CharacterCreationModal, LocationCreationModal, PropCreationModal, CharacterEditModal, LocationEditModal, PropEditModal } from '@/components/shared/assets'
+import SharedAssetLibraryModal from '@/components/shared/assets/SharedAssetLibraryModal'
 import { FolderModal } from './components/FolderModal'
+import { ArtStyleLibraryModal } from './components/ArtStyleLibraryModal'
 import ImagePreviewModal from '@/components/ui/ImagePreviewModal'
 import ImageEditModal from '@/app/[locale]/workspace/[projectId]/modes/novel-promotion/components/assets/ImageEditModal'
 import VoiceDesignDialog from './components/VoiceDesignDialog'
@@ -22,6 +24,10 @@ import {
     useRefreshAssets,
     useGlobalFolders,
     useSSE,
+    useUpdateFolderSharing,
+    useImportAssetBundle,
+    getAssetFolderExportUrl,
+    type AssetBundleImportSummary,
 } from '@/lib/query/hooks'
 import { queryKeys } from '@/lib/query/keys'
 import { AppIcon } from '@/components/ui/icons'
@@ -47,6 +53,9 @@ export default function AssetHubPage() {
     const locationActions = useAssetActions({ scope: 'global', kind: 'location' })
     const propActions = useAssetActions({ scope: 'global', kind: 'prop' })
     const refreshAssets = useRefreshAssets({ scope: 'global' })
+    const folderSharing = useUpdateFolderSharing()
+    const bundleImport = useImportAssetBundle()
+    const bundleInputRef = useRef<HTMLInputElement>(null)
 
     const loading = foldersLoading || assetsLoading
     useSSE({ projectId: 'global-asset-hub', enabled: true })
@@ -56,6 +65,8 @@ export default function AssetHubPage() {
     const [showAddLocation, setShowAddLocation] = useState(false)
     const [showAddProp, setShowAddProp] = useState(false)
     const [showFolderModal, setShowFolderModal] = useState(false)
+    const [showArtStyleLibrary, setShowArtStyleLibrary] = useState(false)
+    const [showSharedLibrary, setShowSharedLibrary] = useState(false)
     const [editingFolder, setEditingFolder] = useState<{ id: string; name: string } | null>(null)
     const [previewImage, setPreviewImage] = useState<string | null>(null)
     const [imageEditModal, setImageEditModal] = useState<{
@@ -64,6 +75,7 @@ export default function AssetHubPage() {
         name: string
         imageIndex: number
         appearanceIndex?: number
+        imageUrl: string | null
     } | null>(null)
 
     const [voiceDesignCharacter, setVoiceDesignCharacter] = useState<{
@@ -160,13 +172,61 @@ export default function AssetHubPage() {
         }
     }
 
+    // 开启/关闭文件夹共享
+    const handleToggleShare = async (folder: { id: string; isShared?: boolean }) => {
+        try {
+            await folderSharing.mutateAsync({ folderId: folder.id, isShared: !folder.isShared })
+        } catch (error) {
+            _ulogError('更新文件夹共享失败:', error)
+            alert(t('bundle.shareFailed'))
+        }
+    }
+
+    // 导出文件夹为资产包：接口直接返回 zip 附件
+    const handleExportFolder = (folder: { id: string }) => {
+        const link = document.createElement('a')
+        link.href = getAssetFolderExportUrl(folder.id)
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+    }
+
+    // 资产包/共享复制完成后汇总提示，并切到落地的文件夹
+    const handleBundleMerged = (result: AssetBundleImportSummary) => {
+        alert(t('bundle.mergeSummary', {
+            created: result.counts.created + result.counts.renamed,
+            overwritten: result.counts.overwritten,
+            skipped: result.counts.skipped,
+        }))
+        setSelectedFolderId(result.folderId)
+        refreshAssets()
+    }
+
+    // 导入资产包
+    const handleImportBundle = async (file: File) => {
+        try {
+            handleBundleMerged(await bundleImport.mutateAsync({ file }))
+        } catch (error) {
+            _ulogError('导入资产包失败:', error)
+            alert(t('bundle.importFailed', { error: error instanceof Error ? error.message : String(error) }))
+        }
+    }
+
     // 打开图片编辑弹窗
     const handleOpenImageEdit = (type: 'character' | 'location' | 'prop', id: string, name: string, imageIndex: number, appearanceIndex?: number) => {
-        setImageEditModal({ type, id, name, imageIndex, appearanceIndex })
+        const asset = assets.find((item) => item.kind === type && item.id === id)
+        let imageUrl: string | null = null
+        if (asset && asset.kind === 'character') {
+            const variant = asset.variants.find((item) => item.index === appearanceIndex)
+            imageUrl = variant?.renders.find((render) => render.index === imageIndex)?.imageUrl ?? null
+        } else if (asset && (asset.kind === 'location' || asset.kind === 'prop')) {
+            imageUrl = asset.variants.find((item) => item.index === imageIndex)?.renders[0]?.imageUrl ?? null
+        }
+        setImageEditModal({ type, id, name, imageIndex, appearanceIndex, imageUrl })
     }
 
     // 处理图片编辑确认 - 使用 mutation
-    const handleImageEdit = async (modifyPrompt: string, extraImageUrls?: string[]) => {
+    const handleImageEdit = async (modifyPrompt: string, extraImageUrls?: string[], maskImage?: string) => {
         if (!imageEditModal) return
 
         const { type, id, imageIndex, appearanceIndex } = imageEditModal
@@ -178,7 +238,8 @@ export default function AssetHubPage() {
                 appearanceIndex,
                 imageIndex,
                 modifyPrompt,
-                extraImageUrls
+                extraImageUrls,
+                maskImage
             }).catch(() => {
                 alert(t('editFailed'))
             })
@@ -187,7 +248,8 @@ export default function AssetHubPage() {
                 id,
                 imageIndex,
                 modifyPrompt,
-                extraImageUrls
+                extraImageUrls,
+                maskImage
             }).catch(() => {
                 alert(t('editFailed'))
             })
@@ -197,6 +259,7 @@ export default function AssetHubPage() {
                 imageIndex,
                 modifyPrompt,
                 extraImageUrls,
+                maskImage,
             }).catch(() => {
                 alert(t('editFailed'))
             })
@@ -456,7 +519,17 @@ export default function AssetHubPage() {
             <div className="max-w-7xl mx-auto px-4 py-6">
                 {/* 页面标题 */}
                 <div className="mb-6">
-                    <h1 className="text-2xl font-bold text-[var(--glass-text-primary)]">{t('title')}</h1>
+                    <div className="flex items-center justify-between gap-3">
+                        <h1 className="text-2xl font-bold text-[var(--glass-text-primary)]">{t('title')}</h1>
+                        <button
+                            type="button"
+                            onClick={() => setShowArtStyleLibrary(true)}
+                            className="glass-btn-base glass-btn-secondary px-3 py-1.5 rounded-lg text-sm flex items-center gap-1"
+                        >
+                            <AppIcon name="sparkles" className="w-4 h-4" />
+                            {t('artStyleLibrary.open')}
+                        </button>
+                    </div>
                     <p className="text-sm text-[var(--glass-text-secondary)] mt-1">{t('description')}</p>
                     <p className="text-xs text-[var(--glass-text-tertiary)] mt-2 flex items-center gap-1">
                         <AppIcon name="info" className="w-3.5 h-3.5" />
@@ -481,6 +554,22 @@ export default function AssetHubPage() {
                             setShowFolderModal(true)
                         }}
                         onDeleteFolder={handleDeleteFolder}
+                        onToggleShare={handleToggleShare}
+                        onExportFolder={handleExportFolder}
+                        onImportBundle={() => bundleInputRef.current?.click()}
+                        onOpenSharedLibrary={() => setShowSharedLibrary(true)}
+                        isImporting={bundleImport.isPending}
+                    />
+                    <input
+                        ref={bundleInputRef}
+                        type="file"
+                        accept=".zip,application/zip"
+                        className="hidden"
+                        onChange={(event) => {
+                            const file = event.target.files?.[0]
+                            event.target.value = ''
+                            if (file) void handleImportBundle(file)
+                        }}
                     />
 
                     {/* 右侧资产网格 */}
@@ -545,6 +634,22 @@ export default function AssetHubPage() {
                 />
             )}
 
+            {/* 画风库弹窗 */}
+            {showArtStyleLibrary && (
+                <ArtStyleLibraryModal onClose={() => setShowArtStyleLibrary(false)} />
+            )}
+
+            {/* 共享资产库弹窗 */}
+            {showSharedLibrary && (
+                <SharedAssetLibraryModal
+                    onClose={() => setShowSharedLibrary(false)}
+                    onCopied={(result) => {
+                        setShowSharedLibrary(false)
+                        handleBundleMerged(result)
+                    }}
+                />
+            )}
+
             {/* 文件夹编辑弹窗 */}
             {showFolderModal && (
                 <FolderModal
@@ -576,6 +681,7 @@ export default function AssetHubPage() {
                 <ImageEditModal
                     type={imageEditModal.type}
                     name={imageEditModal.name}
+                    imageUrl={imageEditModal.imageUrl}
                     onClose={() => setImageEditModal(null)}
                     onConfirm={handleImageEdit}
                 />
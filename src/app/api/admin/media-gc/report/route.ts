@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { runMediaGc } from '@/lib/media/gc'
+
+export const dynamic = 'force-dynamic'
+
+function readOptionalPositiveInt(value: string | null): number | undefined {
+    if (value === null || value === '') return undefined
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new ApiError('INVALID_PARAMS')
+    }
+    return parsed
+}
+
+// GET - 媒体回收试运行报告 (只读，不删除任何对象)
+export const GET = apiHandler(async (request: NextRequest) => {
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+
+    const { searchParams } = new URL(request.url)
+    const report = await runMediaGc({
+        dryRun: true,
+        gracePeriodHours: readOptionalPositiveInt(searchParams.get('graceHours')),
+        sampleLimit: readOptionalPositiveInt(searchParams.get('sampleLimit')),
+    })
+
+    return NextResponse.json({ report })
+})
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { getMediaGcStats } from '@/lib/media/gc'
+
+export const dynamic = 'force-dynamic'
+
+// GET - 媒体回收统计：按用户累计回收量 + 最近回收任务
+export const GET = apiHandler(async (request: NextRequest) => {
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+
+    const { searchParams } = new URL(request.url)
+    const sinceParam = searchParams.get('since')
+    const since = sinceParam ? new Date(sinceParam) : undefined
+    if (since && Number.isNaN(since.getTime())) {
+        throw new ApiError('INVALID_PARAMS')
+    }
+
+    const stats = await getMediaGcStats({ since })
+    return NextResponse.json(stats)
+})
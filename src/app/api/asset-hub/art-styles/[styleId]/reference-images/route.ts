@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import sharp from 'sharp'
+import { generateUniqueKey } from '@/lib/storage'
+import { releaseStorageObject, uploadDedupedObject } from '@/lib/media/dedup'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { ApiError, apiHandler } from '@/lib/api-errors'
+import {
+    addArtStyleReferenceImage,
+    assertArtStyleReferenceImageSlot,
+    removeArtStyleReferenceImage,
+} from '@/lib/art-style'
+
+/**
+ * POST /api/asset-hub/art-styles/[styleId]/reference-images
+ * 上传画风参考图，生成分镜时作为风格参考一并传给图片模型
+ */
+export const POST = apiHandler(async (
+    request: NextRequest,
+    context: { params: Promise<{ styleId: string }> }
+) => {
+    const { styleId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    // 先校验归属与数量上限再上传
+    await assertArtStyleReferenceImageSlot(session.user.id, styleId)
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+        throw new ApiError('INVALID_PARAMS', { code: 'FILE_REQUIRED', field: 'file' })
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const processed = await sharp(buffer)
+        .jpeg({ quality: 90, mozjpeg: true })
+        .toBuffer()
+    const key = await uploadDedupedObject(processed, generateUniqueKey(`art-style-${styleId}-ref`, 'jpg'), session.user.id)
+
+    try {
+        const style = await addArtStyleReferenceImage(session.user.id, styleId, key)
+        return NextResponse.json({ success: true, style })
+    } catch (error) {
+        // 并发上传超出上限等情况：释放刚上传（或复用）的对象引用
+        await releaseStorageObject(key).catch(() => undefined)
+        throw error
+    }
+})
+
+/**
+ * DELETE /api/asset-hub/art-styles/[styleId]/reference-images?index=0
+ * 移除一张画风参考图
+ */
+export const DELETE = apiHandler(async (
+    request: NextRequest,
+    context: { params: Promise<{ styleId: string }> }
+) => {
+    const { styleId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const index = Number.parseInt(request.nextUrl.searchParams.get('index') || '', 10)
+    const style = await removeArtStyleReferenceImage(session.user.id, styleId, index)
+    return NextResponse.json({ success: true, style })
+})
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler } from '@/lib/api-errors'
+import { deleteArtStyle, updateArtStyle } from '@/lib/art-style'
+
+// 更新画风（仅创建者）
+export const PATCH = apiHandler(async (
+    request: NextRequest,
+    context: { params: Promise<{ styleId: string }> }
+) => {
+    const { styleId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const body = await request.json().catch(() => null)
+    const style = await updateArtStyle(session.user.id, styleId, body)
+    return NextResponse.json({ success: true, style })
+})
+
+// 删除画风；已引用该画风的项目生成时回退为无画风描述
+export const DELETE = apiHandler(async (
+    _request: NextRequest,
+    context: { params: Promise<{ styleId: string }> }
+) => {
+    const { styleId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    await deleteArtStyle(session.user.id, styleId)
+    return NextResponse.json({ success: true })
+})
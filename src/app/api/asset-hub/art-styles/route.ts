@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler } from '@/lib/api-errors'
+import { createArtStyle, listArtStyles } from '@/lib/art-style'
+
+// 获取画风库（自己的画风 + 共享画风）
+export const GET = apiHandler(async () => {
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const styles = await listArtStyles(session.user.id)
+    return NextResponse.json({ styles })
+})
+
+// 创建画风
+export const POST = apiHandler(async (request: NextRequest) => {
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const body = await request.json().catch(() => null)
+    const style = await createArtStyle(session.user.id, body)
+    return NextResponse.json({ success: true, style })
+})
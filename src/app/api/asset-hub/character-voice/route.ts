@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { uploadObject, generateUniqueKey, getSignedUrl } from '@/lib/storage'
+import { generateUniqueKey, getSignedUrl } from '@/lib/storage'
+import { uploadDedupedObject } from '@/lib/media/dedup'
 import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError } from '@/lib/api-errors'
 
@@ -61,7 +62,7 @@ export const POST = apiHandler(async (request: NextRequest) => {
 
         const audioBuffer = Buffer.from(audioBase64, 'base64')
         const key = generateUniqueKey(`global-voice/${session.user.id}/${characterId}`, 'wav')
-        const cosUrl = await uploadObject(audioBuffer, key)
+        const cosUrl = await uploadDedupedObject(audioBuffer, key, session.user.id)
 
         await db.globalCharacter.update({
             where: { id: characterId },
@@ -107,7 +108,7 @@ export const POST = apiHandler(async (request: NextRequest) => {
     const buffer = Buffer.from(arrayBuffer)
     const ext = file.name.split('.').pop()?.toLowerCase() || 'mp3'
     const key = generateUniqueKey(`global-voice/${session.user.id}/${characterId}`, ext)
-    const audioUrl = await uploadObject(buffer, key)
+    const audioUrl = await uploadDedupedObject(buffer, key, session.user.id)
 
     await db.globalCharacter.update({
         where: { id: characterId },
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { ApiError, apiHandler } from '@/lib/api-errors'
+import { buildAssetBundleManifest, createAssetBundleStream } from '@/lib/asset-bundle'
+
+/**
+ * GET /api/asset-hub/folders/[folderId]/export
+ * 导出文件夹为资产包 (zip)：角色形象、场景、音色及选中的图片与音频样本
+ */
+export const GET = apiHandler(async (
+    request: NextRequest,
+    context: { params: Promise<{ folderId: string }> }
+) => {
+    const { folderId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    // 验证所有权
+    const folder = await prisma.globalAssetFolder.findUnique({
+        where: { id: folderId }
+    })
+    if (!folder || folder.userId !== session.user.id) {
+        throw new ApiError('FORBIDDEN')
+    }
+
+    const result = await buildAssetBundleManifest(folderId)
+    if (!result) {
+        throw new ApiError('NOT_FOUND')
+    }
+
+    const fileName = `${folder.name}_assets.zip`
+    return new Response(createAssetBundleStream(result), {
+        headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`
+        }
+    })
+})
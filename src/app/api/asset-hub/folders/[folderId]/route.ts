@@ -16,9 +16,12 @@ export const PATCH = apiHandler(async (
     const { session } = authResult
 
     const body = await request.json()
-    const { name } = body
+    const { name, isShared } = body
 
-    if (!name?.trim()) {
+    // name / isShared 至少提供一项；isShared 控制是否加入共享资产库
+    if ((name === undefined && isShared === undefined)
+        || (name !== undefined && !name?.trim())
+        || (isShared !== undefined && typeof isShared !== 'boolean')) {
         throw new ApiError('INVALID_PARAMS')
     }
 
@@ -33,7 +36,10 @@ export const PATCH = apiHandler(async (
 
     const updatedFolder = await prisma.globalAssetFolder.update({
         where: { id: folderId },
-        data: { name: name.trim() }
+        data: {
+            ...(name !== undefined ? { name: name.trim() } : {}),
+            ...(isShared !== undefined ? { isShared, sharedAt: isShared ? new Date() : null } : {})
+        }
     })
 
     return NextResponse.json({ success: true, folder: updatedFolder })
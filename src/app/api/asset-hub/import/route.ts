@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { ApiError, apiHandler } from '@/lib/api-errors'
+import {
+    ASSET_BUNDLE_CONFLICT_STRATEGIES,
+    importAssetBundle,
+    type AssetBundleConflictStrategy
+} from '@/lib/asset-bundle'
+import { ARCHIVE_MAX_BYTES, ProjectArchiveError } from '@/lib/project-archive'
+
+/**
+ * POST /api/asset-hub/import
+ * 导入资产包并合并进资产库
+ * FormData:
+ * - file: 资产包 zip (必填)
+ * - conflict: skip | rename | overwrite，同名资产的处理方式，默认 rename
+ * - folderId: 导入到的文件夹，不传则新建与资产包同名的文件夹
+ */
+export const POST = apiHandler(async (request: NextRequest) => {
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File) || file.size === 0) {
+        throw new ApiError('INVALID_PARAMS', {
+            code: 'BUNDLE_FILE_REQUIRED',
+            field: 'file',
+            message: 'asset bundle file is required'
+        })
+    }
+    if (file.size > ARCHIVE_MAX_BYTES) {
+        throw new ApiError('INVALID_PARAMS', {
+            code: 'ARCHIVE_TOO_LARGE',
+            field: 'file',
+            limit: ARCHIVE_MAX_BYTES
+        })
+    }
+
+    const conflictValue = formData.get('conflict')
+    const conflict = (typeof conflictValue === 'string' && conflictValue ? conflictValue : 'rename') as AssetBundleConflictStrategy
+    if (!ASSET_BUNDLE_CONFLICT_STRATEGIES.includes(conflict)) {
+        throw new ApiError('INVALID_PARAMS', {
+            code: 'BUNDLE_CONFLICT_INVALID',
+            field: 'conflict',
+            allowed: ASSET_BUNDLE_CONFLICT_STRATEGIES
+        })
+    }
+
+    const folderValue = formData.get('folderId')
+    const targetFolderId = typeof folderValue === 'string' && folderValue ? folderValue : null
+    if (targetFolderId) {
+        const folder = await prisma.globalAssetFolder.findUnique({
+            where: { id: targetFolderId }
+        })
+        if (!folder || folder.userId !== session.user.id) {
+            throw new ApiError('FORBIDDEN')
+        }
+    }
+
+    try {
+        const result = await importAssetBundle({
+            userId: session.user.id,
+            archive: Buffer.from(await file.arrayBuffer()),
+            conflict,
+            targetFolderId
+        })
+        return NextResponse.json(result, { status: 201 })
+    } catch (error) {
+        if (error instanceof ProjectArchiveError) {
+            throw new ApiError('INVALID_PARAMS', {
+                code: error.code,
+                ...(error.path ? { field: error.path } : {}),
+                message: error.message
+            })
+        }
+        throw error
+    }
+})
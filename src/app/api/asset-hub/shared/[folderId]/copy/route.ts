@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { ApiError, apiHandler } from '@/lib/api-errors'
+import {
+    ASSET_BUNDLE_CONFLICT_STRATEGIES,
+    copySharedAssetFolder,
+    type AssetBundleConflictStrategy
+} from '@/lib/asset-bundle'
+
+function readIdList(value: unknown, field: string): string[] | undefined {
+    if (value === undefined || value === null) return undefined
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        throw new ApiError('INVALID_PARAMS', { code: 'BUNDLE_SELECTION_INVALID', field })
+    }
+    return value
+}
+
+/**
+ * POST /api/asset-hub/shared/[folderId]/copy
+ * 从共享文件夹复制资产到自己的资产库
+ * Body:
+ * - conflict: skip | rename | overwrite，默认 rename
+ * - folderId: 复制到的文件夹，不传则新建同名文件夹
+ * - characterIds / locationIds / voiceIds: 只复制指定资产，不传则复制全部
+ */
+export const POST = apiHandler(async (
+    request: NextRequest,
+    context: { params: Promise<{ folderId: string }> }
+) => {
+    const { folderId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const body = await request.json().catch(() => ({}))
+    const conflict = (body.conflict ?? 'rename') as AssetBundleConflictStrategy
+    if (!ASSET_BUNDLE_CONFLICT_STRATEGIES.includes(conflict)) {
+        throw new ApiError('INVALID_PARAMS', {
+            code: 'BUNDLE_CONFLICT_INVALID',
+            field: 'conflict',
+            allowed: ASSET_BUNDLE_CONFLICT_STRATEGIES
+        })
+    }
+
+    const targetFolderId = typeof body.folderId === 'string' && body.folderId ? body.folderId : null
+    if (targetFolderId) {
+        const folder = await prisma.globalAssetFolder.findUnique({
+            where: { id: targetFolderId }
+        })
+        if (!folder || folder.userId !== session.user.id) {
+            throw new ApiError('FORBIDDEN')
+        }
+    }
+
+    const result = await copySharedAssetFolder({
+        folderId,
+        userId: session.user.id,
+        conflict,
+        targetFolderId,
+        selection: {
+            characterIds: readIdList(body.characterIds, 'characterIds'),
+            locationIds: readIdList(body.locationIds, 'locationIds'),
+            voiceIds: readIdList(body.voiceIds, 'voiceIds')
+        }
+    })
+    if (!result) {
+        throw new ApiError('NOT_FOUND')
+    }
+
+    return NextResponse.json(result, { status: 201 })
+})
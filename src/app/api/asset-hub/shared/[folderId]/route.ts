@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { ApiError, apiHandler } from '@/lib/api-errors'
+import { getSharedAssetFolder } from '@/lib/asset-bundle'
+
+/**
+ * GET /api/asset-hub/shared/[folderId]
+ * 只读浏览共享文件夹中的角色、场景与音色
+ */
+export const GET = apiHandler(async (
+    request: NextRequest,
+    context: { params: Promise<{ folderId: string }> }
+) => {
+    const { folderId } = await context.params
+
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+
+    const shared = await getSharedAssetFolder(folderId)
+    if (!shared) {
+        throw new ApiError('NOT_FOUND')
+    }
+
+    return NextResponse.json(shared)
+})
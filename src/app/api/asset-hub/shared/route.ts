@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler } from '@/lib/api-errors'
+import { listSharedAssetFolders } from '@/lib/asset-bundle'
+
+/**
+ * GET /api/asset-hub/shared
+ * 共享资产库：同一实例其他用户共享的文件夹
+ */
+export const GET = apiHandler(async () => {
+    // 🔐 统一权限验证
+    const authResult = await requireUserAuth()
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const folders = await listSharedAssetFolders(session.user.id)
+    return NextResponse.json({ folders })
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { uploadObject, generateUniqueKey } from '@/lib/storage'
+import { generateUniqueKey } from '@/lib/storage'
+import { uploadDedupedObject } from '@/lib/media/dedup'
 import sharp from 'sharp'
 import { decodeImageUrlsFromDb, encodeImageUrls } from '@/lib/contracts/image-urls-contract'
 import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
@@ -75,8 +76,7 @@ export const POST = apiHandler(async (request: NextRequest) => {
     const keyPrefix = type === 'character'
         ? `global-char-${id}-${appearanceIndex}-upload`
         : `global-loc-${id}-upload`
-    const key = generateUniqueKey(keyPrefix, 'jpg')
-    await uploadObject(processed, key)
+    const key = await uploadDedupedObject(processed, generateUniqueKey(keyPrefix, 'jpg'), session.user.id)
 
     if (type === 'character' && appearanceIndex !== null) {
         const appearance = await db.globalCharacterAppearance.findFirst({
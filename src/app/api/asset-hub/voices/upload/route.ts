@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { uploadObject, generateUniqueKey, getSignedUrl } from '@/lib/storage'
+import { generateUniqueKey, getSignedUrl } from '@/lib/storage'
+import { uploadDedupedObject } from '@/lib/media/dedup'
 import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError } from '@/lib/api-errors'
 
@@ -52,7 +53,7 @@ export const POST = apiHandler(async (request: NextRequest) => {
 
     // 上传到 COS
     const key = generateUniqueKey(`voices/${session.user.id}/${Date.now()}`, audioExt)
-    const cosUrl = await uploadObject(buffer, key)
+    const cosUrl = await uploadDedupedObject(buffer, key, session.user.id)
 
     // 创建音色记录
     const voice = await prisma.globalVoice.create({
@@ -26,15 +26,18 @@ export const POST = apiHandler(async (
     throw new ApiError('INVALID_PARAMS')
   }
 
+  let userId: string
   if (body.scope === 'project') {
     if (!body.projectId) {
       throw new ApiError('INVALID_PARAMS', { details: 'projectId is required for project scope' })
     }
     const authResult = await requireProjectAuth(body.projectId)
     if (isErrorResponse(authResult)) return authResult
+    userId = authResult.session.user.id
   } else {
     const authResult = await requireUserAuth()
     if (isErrorResponse(authResult)) return authResult
+    userId = authResult.session.user.id
   }
 
   await updateAssetRenderLabel({
@@ -43,6 +46,7 @@ export const POST = apiHandler(async (
     assetId,
     projectId: body.projectId,
     newName: body.newName,
+    userId,
   })
 
   return NextResponse.json({ success: true })
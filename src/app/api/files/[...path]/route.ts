@@ -6,9 +6,11 @@ import { logError as _ulogError } from '@/lib/logging/core'
  * 提供本地文件的HTTP访问服务
  */
 
+import { Readable } from 'node:stream'
 import { NextRequest, NextResponse } from 'next/server'
-import * as fs from 'fs/promises'
 import * as path from 'path'
+import { LocalStorageProvider } from '@/lib/storage/providers/local'
+import { parseByteRange } from '@/lib/storage/utils'
 
 const UPLOAD_DIR = process.env.UPLOAD_DIR || './data/uploads'
 
@@ -54,18 +56,34 @@ export async function GET(
             return NextResponse.json({ error: 'Access denied' }, { status: 403 })
         }
 
-        // 读取文件
-        const buffer = await fs.readFile(filePath)
-        const mimeType = getMimeType(filePath)
+        // 通过本地 provider 读取 (兼容分片目录)，支持 Range 请求
+        const provider = new LocalStorageProvider()
+        const head = await provider.headObject(decodedPath)
+        if (!head) {
+            return NextResponse.json({ error: 'File not found' }, { status: 404 })
+        }
+
+        const headers = new Headers({
+            'Content-Type': getMimeType(filePath),
+            'Cache-Control': 'public, max-age=31536000', // 1年缓存
+            'Accept-Ranges': 'bytes',
+        })
+
+        const range = parseByteRange(request.headers.get('range'), head.size)
+        if (range === 'unsatisfiable') {
+            headers.set('Content-Range', `bytes */${head.size}`)
+            return new NextResponse(null, { status: 416, headers })
+        }
+
+        const object = await provider.getObjectStream(decodedPath, range || undefined)
+        headers.set('Content-Length', String(object.contentLength))
+        if (object.range) {
+            headers.set('Content-Range', `bytes ${object.range.start}-${object.range.end}/${object.totalSize}`)
+        }
 
-        // 返回文件内容
-        return new NextResponse(new Uint8Array(buffer), {
-            status: 200,
-            headers: {
-                'Content-Type': mimeType,
-                'Content-Length': buffer.length.toString(),
-                'Cache-Control': 'public, max-age=31536000', // 1年缓存
-            },
+        return new NextResponse(Readable.toWeb(object.body) as ReadableStream<Uint8Array>, {
+            status: object.range ? 206 : 200,
+            headers,
         })
 
     } catch (error: unknown) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { approveAutopilotRun } from '@/lib/autopilot'
+
+/**
+ * POST - 确认提取出的角色 / 场景，autopilot 继续后续阶段
+ * body: { runId }
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const body = await request.json().catch(() => null)
+  const runId = typeof body?.runId === 'string' ? body.runId.trim() : ''
+  if (!runId) {
+    throw new ApiError('INVALID_PARAMS')
+  }
+
+  const approval = await approveAutopilotRun({
+    projectId,
+    userId: session.user.id,
+    runId,
+  })
+  return NextResponse.json({ success: true, approval })
+})
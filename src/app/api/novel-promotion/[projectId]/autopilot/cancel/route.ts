@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { cancelAutopilotRun } from '@/lib/autopilot'
+
+/**
+ * POST - 取消 autopilot 及其已提交、仍在排队 / 执行的子任务
+ * body: { runId }
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const body = await request.json().catch(() => null)
+  const runId = typeof body?.runId === 'string' ? body.runId.trim() : ''
+  if (!runId) {
+    throw new ApiError('INVALID_PARAMS')
+  }
+
+  const result = await cancelAutopilotRun({
+    projectId,
+    userId: session.user.id,
+    runId,
+  })
+  return NextResponse.json({ success: true, ...result })
+})
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
+import { getAutopilotOverview, resolveAutopilotOptions } from '@/lib/autopilot'
+import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { submitTask } from '@/lib/task/submitter'
+import { TASK_TYPE } from '@/lib/task/types'
+
+/**
+ * GET - 剧集最近一次 autopilot 的阶段进度、审批状态与花费
+ */
+export const GET = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const episodeId = request.nextUrl.searchParams.get('episodeId')?.trim() || ''
+  if (!episodeId) {
+    throw new ApiError('INVALID_PARAMS')
+  }
+
+  const autopilot = await getAutopilotOverview({
+    projectId,
+    userId: session.user.id,
+    episodeId,
+  })
+  return NextResponse.json({ autopilot })
+})
+
+/**
+ * POST - 启动小说 → 成片 autopilot
+ * body: { episodeId, budget?, autoSelectFirstCandidate?, videoModel? }
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const body = await request.json().catch(() => null)
+  const episodeId = typeof body?.episodeId === 'string' ? body.episodeId.trim() : ''
+  if (!episodeId) {
+    throw new ApiError('INVALID_PARAMS')
+  }
+  const locale = resolveRequiredTaskLocale(request, body)
+  const options = await resolveAutopilotOptions({
+    projectId,
+    userId: session.user.id,
+    body,
+  })
+
+  const result = await submitTask({
+    userId: session.user.id,
+    locale,
+    requestId: getRequestId(request),
+    projectId,
+    episodeId,
+    type: TASK_TYPE.AUTOPILOT_RUN,
+    targetType: 'NovelPromotionEpisode',
+    targetId: episodeId,
+    payload: {
+      episodeId,
+      ...options,
+      displayMode: 'detail',
+    },
+    dedupeKey: `autopilot:${episodeId}`,
+  })
+  return NextResponse.json(result)
+})
@@ -1,7 +1,8 @@
 import { logInfo as _ulogInfo } from '@/lib/logging/core'
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { uploadObject, generateUniqueKey, getSignedUrl } from '@/lib/storage'
+import { generateUniqueKey, getSignedUrl } from '@/lib/storage'
+import { uploadDedupedObject } from '@/lib/media/dedup'
 import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError } from '@/lib/api-errors'
 
@@ -55,6 +56,7 @@ export const POST = apiHandler(async (
   // 🔐 统一权限验证
   const authResult = await requireProjectAuthLight(projectId)
   if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
 
   const contentType = request.headers.get('content-type') || ''
 
@@ -77,7 +79,7 @@ export const POST = apiHandler(async (
 
     // 上传到COS
     const key = generateUniqueKey(`voice/custom/${projectId}/${characterId}`, 'wav')
-    const cosUrl = await uploadObject(audioBuffer, key)
+    const cosUrl = await uploadDedupedObject(audioBuffer, key, session.user.id)
 
     // 更新角色音色设置
     const character = await prisma.novelPromotionCharacter.update({
@@ -128,7 +130,7 @@ export const POST = apiHandler(async (
 
   // 上传到COS
   const key = generateUniqueKey(`voice/custom/${projectId}/${characterId}`, ext)
-  const audioUrl = await uploadObject(buffer, key)
+  const audioUrl = await uploadDedupedObject(buffer, key, session.user.id)
 
   // 更新角色音色设置为自定义
   const character = await prisma.novelPromotionCharacter.update({
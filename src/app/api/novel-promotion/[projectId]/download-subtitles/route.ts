@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { migrateProjectData } from '@/features/video-editor/utils/migration'
+import {
+  SUBTITLE_MIME_TYPES,
+  cuesFromEditorProject,
+  cuesFromVoiceLines,
+  isSubtitleFormat,
+  serializeSubtitles,
+  type SubtitleCue,
+} from '@/lib/subtitles'
+
+type SubtitleSource = 'auto' | 'editor' | 'voice'
+
+const SUBTITLE_SOURCES: ReadonlySet<string> = new Set<SubtitleSource>(['auto', 'editor', 'voice'])
+
+/**
+ * GET /api/novel-promotion/[projectId]/download-subtitles?episodeId=&format=srt|vtt|ass&source=auto|editor|voice
+ * 导出剧集字幕：优先使用剪辑时间轴，没有剪辑项目时由台词 + 面板时长推算
+ */
+export const GET = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) => {
+  const { projectId } = await context.params
+  const { searchParams } = new URL(request.url)
+  const episodeId = searchParams.get('episodeId')
+  const format = searchParams.get('format') || 'srt'
+  const source = searchParams.get('source') || 'auto'
+
+  // 🔐 统一权限验证
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { project } = authResult
+
+  if (!episodeId) {
+    throw new ApiError('INVALID_PARAMS')
+  }
+  if (!isSubtitleFormat(format)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'SUBTITLE_FORMAT_INVALID', field: 'format' })
+  }
+  if (!SUBTITLE_SOURCES.has(source)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'SUBTITLE_SOURCE_INVALID', field: 'source' })
+  }
+
+  const episode = await prisma.novelPromotionEpisode.findFirst({
+    where: {
+      id: episodeId,
+      novelPromotionProject: { projectId },
+    },
+    include: {
+      clips: {
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      storyboards: {
+        include: {
+          panels: { orderBy: { panelIndex: 'asc' } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      voiceLines: {
+        orderBy: { lineIndex: 'asc' },
+      },
+      editorProject: true,
+    },
+  })
+
+  if (!episode) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  const speakerByLineId = new Map(episode.voiceLines.map((line) => [line.id, line.speaker]))
+  const editorData = episode.editorProject
+    ? migrateProjectData(JSON.parse(episode.editorProject.projectData))
+    : null
+
+  let cues: SubtitleCue[] = []
+  if (source !== 'voice' && editorData) {
+    cues = cuesFromEditorProject(editorData, (voiceLineId) => speakerByLineId.get(voiceLineId))
+  }
+  if (source !== 'editor' && cues.length === 0) {
+    cues = cuesFromVoiceLines({
+      clipIds: episode.clips.map((clip) => clip.id),
+      storyboards: episode.storyboards,
+      voiceLines: episode.voiceLines,
+    })
+  }
+
+  if (cues.length === 0) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  const config = editorData?.config || { width: 1920, height: 1080 }
+  const content = serializeSubtitles(format, cues, { width: config.width, height: config.height })
+  const fileName = `${project.name}_${episode.name}.${format}`
+
+  return new Response(content, {
+    headers: {
+      'Content-Type': SUBTITLE_MIME_TYPES[format],
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+    },
+  })
+})
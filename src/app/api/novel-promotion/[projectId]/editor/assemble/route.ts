@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { assembleEpisodeEditorProject } from '@/lib/novel-promotion/editor-assemble'
+
+/**
+ * POST /api/novel-promotion/[projectId]/editor/assemble
+ * 根据分镜面板与已匹配台词一键生成粗剪项目
+ *
+ * 已存在编辑器项目时需显式传入 overwrite: true，避免覆盖手动剪辑
+ */
+export const POST = apiHandler(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ projectId: string }> }
+) => {
+    const { projectId } = await params
+
+    // 🔐 统一权限验证
+    const authResult = await requireProjectAuthLight(projectId)
+    if (isErrorResponse(authResult)) return authResult
+
+    const body = await request.json()
+    const episodeId = typeof body?.episodeId === 'string' ? body.episodeId : ''
+    const overwrite = body?.overwrite === true
+
+    if (!episodeId) {
+        throw new ApiError('INVALID_PARAMS')
+    }
+
+    const result = await assembleEpisodeEditorProject({ projectId, episodeId, overwrite })
+    return NextResponse.json(result)
+})
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
+import { submitTask } from '@/lib/task/submitter'
+import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { TASK_TYPE } from '@/lib/task/types'
+import { resolveMediaRef } from '@/lib/media/service'
+import { isRenderFormat, isRenderQuality } from '@/lib/video-render/settings'
+
+async function findEpisodeEditorProject(projectId: string, episodeId: string) {
+    return await prisma.videoEditorProject.findFirst({
+        where: {
+            episodeId,
+            episode: { novelPromotionProject: { projectId } }
+        }
+    })
+}
+
+/**
+ * POST /api/novel-promotion/[projectId]/editor/render
+ * 提交剧集成片渲染任务
+ */
+export const POST = apiHandler(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ projectId: string }> }
+) => {
+    const { projectId } = await params
+
+    // 🔐 统一权限验证
+    const authResult = await requireProjectAuthLight(projectId)
+    if (isErrorResponse(authResult)) return authResult
+    const { session } = authResult
+
+    const body = await request.json()
+    const locale = resolveRequiredTaskLocale(request, body)
+    const episodeId = typeof body?.episodeId === 'string' ? body.episodeId : ''
+    const format = body?.format ?? 'mp4'
+    const quality = body?.quality ?? 'high'
+    const burnSubtitles = body?.burnSubtitles !== false
+
+    if (!episodeId) {
+        throw new ApiError('INVALID_PARAMS')
+    }
+    if (!isRenderFormat(format)) {
+        throw new ApiError('INVALID_PARAMS', { code: 'RENDER_FORMAT_INVALID', field: 'format' })
+    }
+    if (!isRenderQuality(quality)) {
+        throw new ApiError('INVALID_PARAMS', { code: 'RENDER_QUALITY_INVALID', field: 'quality' })
+    }
+
+    const editorProject = await findEpisodeEditorProject(projectId, episodeId)
+    if (!editorProject) {
+        throw new ApiError('NOT_FOUND')
+    }
+
+    const payload = { episodeId, format, quality, burnSubtitles }
+    const result = await submitTask({
+        userId: session.user.id,
+        locale,
+        requestId: getRequestId(request),
+        projectId,
+        episodeId,
+        type: TASK_TYPE.VIDEO_RENDER,
+        targetType: 'VideoEditorProject',
+        targetId: editorProject.id,
+        payload,
+        dedupeKey: `video_render:${editorProject.id}:${format}:${quality}:${burnSubtitles ? 'subs' : 'clean'}`,
+    })
+
+    // 命中去重时复用进行中的任务，保留其当前渲染状态
+    if (!result.deduped) {
+        await prisma.videoEditorProject.update({
+            where: { id: editorProject.id },
+            data: {
+                renderStatus: 'pending',
+                renderTaskId: result.taskId
+            }
+        })
+    }
+
+    return NextResponse.json(result)
+})
+
+/**
+ * GET /api/novel-promotion/[projectId]/editor/render
+ * 获取剧集成片渲染状态
+ */
+export const GET = apiHandler(async (
+    request: NextRequest,
+    { params }: { params: Promise<{ projectId: string }> }
+) => {
+    const { projectId } = await params
+
+    // 🔐 统一权限验证
+    const authResult = await requireProjectAuthLight(projectId)
+    if (isErrorResponse(authResult)) return authResult
+
+    const episodeId = request.nextUrl.searchParams.get('episodeId')
+    if (!episodeId) {
+        throw new ApiError('INVALID_PARAMS')
+    }
+
+    const editorProject = await findEpisodeEditorProject(projectId, episodeId)
+    if (!editorProject) {
+        throw new ApiError('NOT_FOUND')
+    }
+
+    const outputMedia = await resolveMediaRef(editorProject.outputMediaId, editorProject.outputUrl)
+
+    return NextResponse.json({
+        status: editorProject.renderStatus || null,
+        taskId: editorProject.renderTaskId || undefined,
+        outputUrl: outputMedia?.url || undefined
+    })
+})
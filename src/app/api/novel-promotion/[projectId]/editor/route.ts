@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError } from '@/lib/api-errors'
+import { resolveMediaRef } from '@/lib/media/service'
 
 /**
  * GET /api/novel-promotion/[projectId]/editor
@@ -32,12 +33,14 @@ export const GET = apiHandler(async (
         return NextResponse.json({ projectData: null }, { status: 200 })
     }
 
+    const outputMedia = await resolveMediaRef(editorProject.outputMediaId, editorProject.outputUrl)
+
     return NextResponse.json({
         id: editorProject.id,
         episodeId: editorProject.episodeId,
         projectData: JSON.parse(editorProject.projectData),
         renderStatus: editorProject.renderStatus,
-        outputUrl: editorProject.outputUrl,
+        outputUrl: outputMedia?.url || editorProject.outputUrl,
         updatedAt: editorProject.updatedAt
     })
 })
@@ -4,6 +4,8 @@ import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
 import { submitTask } from '@/lib/task/submitter'
 import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { resolveTaskRunAfter } from '@/lib/task/schedule'
+import { resolveTaskDependsOn } from '@/lib/task/dependencies'
 import { TASK_TYPE } from '@/lib/task/types'
 import { buildDefaultTaskBillingInfo } from '@/lib/billing'
 import { BillingOperationError } from '@/lib/billing/errors'
@@ -194,6 +196,8 @@ export const POST = apiHandler(async (
   const body = await request.json()
   requireVideoModelKeyFromPayload(body)
   const locale = resolveRequiredTaskLocale(request, body)
+  const runAfter = resolveTaskRunAfter(body)
+  const dependsOn = resolveTaskDependsOn(body)
   const isBatch = body?.all === true
 
   validateFirstLastFrameModel(body?.firstLastFrame)
@@ -231,6 +235,7 @@ export const POST = apiHandler(async (
           userId: session.user.id,
           locale,
           requestId: getRequestId(request),
+          runAfter,
           projectId,
           episodeId,
           type: TASK_TYPE.VIDEO_PANEL,
@@ -267,6 +272,8 @@ export const POST = apiHandler(async (
     userId: session.user.id,
     locale,
     requestId: getRequestId(request),
+    runAfter,
+    dependsOn,
     projectId,
     type: TASK_TYPE.VIDEO_PANEL,
     targetType: 'NovelPromotionPanel',
@@ -4,6 +4,8 @@ import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
 import { submitTask } from '@/lib/task/submitter'
 import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { resolveTaskRunAfter } from '@/lib/task/schedule'
+import { resolveTaskDependsOn } from '@/lib/task/dependencies'
 import { TASK_TYPE } from '@/lib/task/types'
 import { buildDefaultTaskBillingInfo } from '@/lib/billing'
 import { hasPanelLipSyncOutput } from '@/lib/task/has-output'
@@ -24,6 +26,8 @@ export const POST = apiHandler(async (
 
   const body = await request.json()
   const locale = resolveRequiredTaskLocale(request, body)
+  const runAfter = resolveTaskRunAfter(body)
+  const dependsOn = resolveTaskDependsOn(body)
   const storyboardId = body?.storyboardId
   const panelIndex = body?.panelIndex
   const voiceLineId = body?.voiceLineId
@@ -70,6 +74,8 @@ export const POST = apiHandler(async (
     userId: session.user.id,
     locale,
     requestId: getRequestId(request),
+    runAfter,
+    dependsOn,
     projectId,
     type: TASK_TYPE.LIP_SYNC,
     targetType: 'NovelPromotionPanel',
@@ -10,6 +10,7 @@ import { hasPanelImageOutput } from '@/lib/task/has-output'
 import { withTaskUiPayload } from '@/lib/task/ui-payload'
 import { getProjectModelConfig, buildImageBillingPayload } from '@/lib/config-service'
 import { sanitizeImageInputsForTaskPayload } from '@/lib/media/outbound-image'
+import { isInpaintMaskDataUrl, moveInpaintMaskToStorage } from '@/lib/image-generation/inpaint'
 
 function toObject(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
@@ -35,6 +36,9 @@ export const POST = apiHandler(async (
   if (!storyboardId || !Number.isFinite(panelIndex) || !modifyPrompt) {
     throw new ApiError('INVALID_PARAMS')
   }
+  if (body?.maskImage !== undefined && !isInpaintMaskDataUrl(body.maskImage)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'MASK_IMAGE_INVALID', field: 'maskImage' })
+  }
 
   const panel = await prisma.novelPromotionPanel.findFirst({
     where: {
@@ -80,7 +84,7 @@ export const POST = apiHandler(async (
     throw new ApiError('INVALID_PARAMS')
   }
 
-  const payload = {
+  const payload = await moveInpaintMaskToStorage({
     ...body,
     type: 'storyboard',
     panelId: panel.id,
@@ -94,7 +98,7 @@ export const POST = apiHandler(async (
         selectedAssets: selectedAssetIssues
       }
     }
-  }
+  }, session.user.id)
   const hasOutputAtStart = await hasPanelImageOutput(panel.id)
 
   const projectModelConfig = await getProjectModelConfig(projectId, session.user.id)
@@ -5,10 +5,12 @@ import { getSignedUrl, generateUniqueKey, downloadAndUploadImage, toFetchableUrl
 import { resolveStorageKeyFromMediaValue } from '@/lib/media/service'
 import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError } from '@/lib/api-errors'
+import { isImageSeed, parseImageSeedList } from '@/lib/image-generation/seed'
 
 interface PanelHistoryEntry {
   url: string
   timestamp: string
+  seed?: number
 }
 
 function parseUnknownArray(jsonValue: string | null): unknown[] {
@@ -57,7 +59,7 @@ export const POST = apiHandler(async (
   if (action === 'cancel') {
     await prisma.novelPromotionPanel.update({
       where: { id: panelId },
-      data: { candidateImages: null }
+      data: { candidateImages: null, candidateSeeds: null }
     })
 
     return NextResponse.json({
@@ -84,8 +86,8 @@ export const POST = apiHandler(async (
   const candidateImages = parseUnknownArray(panel.candidateImages)
 
   const selectedCosKey = await resolveStorageKeyFromMediaValue(selectedImageUrl)
-  const candidateKeys = (await Promise.all(candidateImages.map((candidate: unknown) => resolveStorageKeyFromMediaValue(candidate))))
-    .filter((k): k is string => !!k)
+  const resolvedCandidateKeys = await Promise.all(candidateImages.map((candidate: unknown) => resolveStorageKeyFromMediaValue(candidate)))
+  const candidateKeys = resolvedCandidateKeys.filter((k): k is string => !!k)
   const isValidCandidate = !!selectedCosKey && candidateKeys.includes(selectedCosKey)
 
   if (!isValidCandidate) {
@@ -100,10 +102,15 @@ export const POST = apiHandler(async (
   if (panel.imageUrl) {
     currentHistory.push({
       url: panel.imageUrl,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      ...(isImageSeed(panel.imageSeed) ? { seed: panel.imageSeed } : {}),
     })
   }
 
+  // 候选种子与 candidateImages 按下标对应
+  const selectedIndex = resolvedCandidateKeys.indexOf(selectedCosKey)
+  const selectedSeed = parseImageSeedList(panel.candidateSeeds)[selectedIndex] ?? null
+
   // 选择候选图时优先复用已存在的 COS key，避免重复下载上传（也避免 /m/* 相对URL被 Node fetch 解析失败）
   let finalImageKey = selectedCosKey as string
   const isReusableKey = !finalImageKey.startsWith('http://') && !finalImageKey.startsWith('https://') && !finalImageKey.startsWith('/')
@@ -122,7 +129,9 @@ export const POST = apiHandler(async (
     data: {
       imageUrl: finalImageKey,
       imageHistory: JSON.stringify(currentHistory),
-      candidateImages: null
+      imageSeed: selectedSeed,
+      candidateImages: null,
+      candidateSeeds: null
     }
   })
 
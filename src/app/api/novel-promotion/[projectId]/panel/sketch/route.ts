@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import sharp from 'sharp'
+import { prisma } from '@/lib/prisma'
+import { generateUniqueKey } from '@/lib/storage'
+import { logWarn as _ulogWarn } from '@/lib/logging/core'
+import { releaseStorageObject, uploadDedupedObject } from '@/lib/media/dedup'
+import { ensureMediaObjectFromStorageKey, resolveStorageKeyFromMediaValue } from '@/lib/media/service'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+
+async function requireProjectPanel(projectId: string, panelId: string | null) {
+  if (!panelId) {
+    throw new ApiError('INVALID_PARAMS', { code: 'PANEL_ID_REQUIRED', field: 'panelId' })
+  }
+  const panel = await prisma.novelPromotionPanel.findFirst({
+    where: {
+      id: panelId,
+      storyboard: { episode: { novelPromotionProject: { projectId } } },
+    },
+    select: { id: true, sketchImageUrl: true },
+  })
+  if (!panel) {
+    throw new ApiError('NOT_FOUND')
+  }
+  return panel
+}
+
+/**
+ * 释放被替换或清除的旧草图；去重命中同一对象时上传已多占一次引用，同样需要释放
+ */
+async function releasePreviousSketch(sketchImageUrl: string | null) {
+  if (!sketchImageUrl) return
+  const key = await resolveStorageKeyFromMediaValue(sketchImageUrl)
+  if (!key) return
+  try {
+    await releaseStorageObject(key)
+  } catch {
+    _ulogWarn('Failed to release panel sketch:', key)
+  }
+}
+
+/**
+ * POST /api/novel-promotion/[projectId]/panel/sketch
+ * 保存镜头构图草图，重新生成镜头图时作为结构参考图
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  // 🔐 统一权限验证
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const formData = await request.formData()
+  const panelId = formData.get('panelId')
+  const file = formData.get('file')
+  const panel = await requireProjectPanel(projectId, typeof panelId === 'string' ? panelId : null)
+  if (!(file instanceof File)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'FILE_REQUIRED', field: 'file' })
+  }
+
+  // 画布导出的透明底统一铺白，避免模型把透明区域理解为黑色
+  const processed = await sharp(Buffer.from(await file.arrayBuffer()))
+    .flatten({ background: '#ffffff' })
+    .png()
+    .toBuffer()
+  const key = await uploadDedupedObject(
+    processed,
+    generateUniqueKey(`panel-${panel.id}-sketch`, 'png'),
+    session.user.id,
+    'image/png',
+  )
+  const media = await ensureMediaObjectFromStorageKey(key, { mimeType: 'image/png', sizeBytes: processed.length })
+
+  await prisma.novelPromotionPanel.update({
+    where: { id: panel.id },
+    data: {
+      sketchImageUrl: key,
+      sketchImageMediaId: media.id,
+    },
+  })
+  await releasePreviousSketch(panel.sketchImageUrl)
+
+  return NextResponse.json({
+    success: true,
+    sketchImageUrl: media.url,
+  })
+})
+
+/**
+ * DELETE /api/novel-promotion/[projectId]/panel/sketch?panelId=xxx
+ * 清除镜头构图草图
+ */
+export const DELETE = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  // 🔐 统一权限验证
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+
+  const panel = await requireProjectPanel(projectId, request.nextUrl.searchParams.get('panelId'))
+  await prisma.novelPromotionPanel.update({
+    where: { id: panel.id },
+    data: {
+      sketchImageUrl: null,
+      sketchImageMediaId: null,
+    },
+  })
+  await releasePreviousSketch(panel.sketchImageUrl)
+
+  return NextResponse.json({ success: true })
+})
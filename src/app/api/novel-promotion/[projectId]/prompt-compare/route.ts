@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
+import { submitTask } from '@/lib/task/submitter'
+import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { TASK_TYPE } from '@/lib/task/types'
+import { buildDefaultTaskBillingInfo } from '@/lib/billing'
+import { getProjectModelConfig } from '@/lib/config-service'
+import { isPromptComparePromptId, resolvePromptCompareCandidate } from '@/lib/prompt-overrides'
+
+/**
+ * POST /api/novel-promotion/[projectId]/prompt-compare
+ * 在同一片段上分别用内置模板与覆盖模板运行分镜阶段：{ clipId, promptId, scope?, version? }
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const body = await request.json()
+  const locale = resolveRequiredTaskLocale(request, body)
+  const clipId = typeof body?.clipId === 'string' ? body.clipId : ''
+  const promptId = body?.promptId
+  const scope = body?.scope === 'user' || body?.scope === 'project' ? body.scope : null
+  const version = typeof body?.version === 'number' ? body.version : null
+
+  if (!clipId) {
+    throw new ApiError('INVALID_PARAMS', { code: 'PROMPT_COMPARE_CLIP_REQUIRED', field: 'clipId' })
+  }
+  if (!isPromptComparePromptId(promptId)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'PROMPT_COMPARE_PROMPT_INVALID', field: 'promptId' })
+  }
+  const candidate = await resolvePromptCompareCandidate({
+    userId: session.user.id,
+    projectId,
+    promptId,
+    locale,
+    scope,
+    version,
+  })
+  if (!candidate) {
+    throw new ApiError('INVALID_PARAMS', { code: 'PROMPT_OVERRIDE_NOT_FOUND', field: 'promptId' })
+  }
+
+  const projectModelConfig = await getProjectModelConfig(projectId, session.user.id)
+  const billingPayload = {
+    clipId,
+    promptId,
+    scope: candidate.scope,
+    version: candidate.version,
+    ...(projectModelConfig.analysisModel ? { analysisModel: projectModelConfig.analysisModel } : {}),
+  }
+
+  const result = await submitTask({
+    userId: session.user.id,
+    locale,
+    requestId: getRequestId(request),
+    projectId,
+    type: TASK_TYPE.PROMPT_OVERRIDE_COMPARE,
+    targetType: 'NovelPromotionClip',
+    targetId: clipId,
+    payload: billingPayload,
+    dedupeKey: `prompt_override_compare:${clipId}:${promptId}:${candidate.scope}:${candidate.version}`,
+    billingInfo: buildDefaultTaskBillingInfo(TASK_TYPE.PROMPT_OVERRIDE_COMPARE, billingPayload),
+  })
+
+  return NextResponse.json(result)
+})
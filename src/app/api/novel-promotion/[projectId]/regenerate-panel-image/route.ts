@@ -3,6 +3,8 @@ import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
 import { submitTask } from '@/lib/task/submitter'
 import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { resolveTaskRunAfter } from '@/lib/task/schedule'
+import { resolveTaskDependsOn } from '@/lib/task/dependencies'
 import { TASK_TYPE } from '@/lib/task/types'
 import { buildDefaultTaskBillingInfo } from '@/lib/billing'
 import { hasPanelImageOutput } from '@/lib/task/has-output'
@@ -10,6 +12,7 @@ import { withTaskUiPayload } from '@/lib/task/ui-payload'
 import { getProjectModelConfig } from '@/lib/config-service'
 import { resolveProjectModelCapabilityGenerationOptions } from '@/lib/config-service'
 import { resolveModelSelection } from '@/lib/api-config'
+import { isImageSeed } from '@/lib/image-generation/seed'
 
 const DEFAULT_CANDIDATE_COUNT = 1
 
@@ -25,6 +28,8 @@ export const POST = apiHandler(async (
 
   const body = await request.json()
   const locale = resolveRequiredTaskLocale(request, body)
+  const runAfter = resolveTaskRunAfter(body)
+  const dependsOn = resolveTaskDependsOn(body)
   const panelId = body?.panelId
   const count = body?.count
   const candidateCount = Math.max(1, Math.min(4, Number(count ?? DEFAULT_CANDIDATE_COUNT)))
@@ -32,6 +37,10 @@ export const POST = apiHandler(async (
   if (!panelId) {
     throw new ApiError('INVALID_PARAMS')
   }
+  // 同种子重绘：seed 为空时由 worker 随机生成
+  if (body?.seed !== undefined && body?.seed !== null && !isImageSeed(body.seed)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'IMAGE_SEED_INVALID', field: 'seed' })
+  }
 
   const projectModelConfig = await getProjectModelConfig(projectId, session.user.id)
   if (!projectModelConfig.storyboardModel) {
@@ -64,6 +73,8 @@ export const POST = apiHandler(async (
     userId: session.user.id,
     locale,
     requestId: getRequestId(request),
+    runAfter,
+    dependsOn,
     projectId,
     type: TASK_TYPE.IMAGE_PANEL,
     targetType: 'NovelPromotionPanel',
@@ -7,6 +7,7 @@ import { TASK_TYPE } from '@/lib/task/types'
 import { buildDefaultTaskBillingInfo } from '@/lib/billing'
 import { withTaskUiPayload } from '@/lib/task/ui-payload'
 import { getProjectModelConfig, buildImageBillingPayload } from '@/lib/config-service'
+import { isImageSeed } from '@/lib/image-generation/seed'
 import {
   hasCharacterAppearanceOutput,
   hasLocationImageOutput
@@ -41,6 +42,10 @@ export const POST = apiHandler(async (
   if (type !== 'character' && type !== 'location') {
     throw new ApiError('INVALID_PARAMS')
   }
+  // 同种子重绘：seed 为空时由 worker 随机生成
+  if (body?.seed !== undefined && body?.seed !== null && !isImageSeed(body.seed)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'IMAGE_SEED_INVALID', field: 'seed' })
+  }
 
   const taskType = type === 'character' ? TASK_TYPE.IMAGE_CHARACTER : TASK_TYPE.IMAGE_LOCATION
   const targetType = type === 'character' ? 'CharacterAppearance' : 'LocationImage'
@@ -4,6 +4,7 @@ import { logProjectAction } from '@/lib/logging/semantic'
 import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError } from '@/lib/api-errors'
 import { isArtStyleValue } from '@/lib/constants'
+import { assertArtStyleSelectable } from '@/lib/art-style'
 import { attachMediaFieldsToProject } from '@/lib/media/attach'
 import {
   parseModelKeyStrict,
@@ -294,7 +295,7 @@ export const PATCH = apiHandler(async (
   const allowedProjectFields = [
     'analysisModel', 'characterModel', 'locationModel', 'storyboardModel',
     'editModel', 'videoModel', 'audioModel', 'videoRatio', 'artStyle',
-    'ttsRate', 'lipSyncEnabled', 'lipSyncMode', 'capabilityOverrides',
+    'ttsRate', 'lipSyncEnabled', 'lipSyncMode', 'capabilityOverrides', 'llmCacheEnabled',
   ] as const
 
   const updateData: Record<string, unknown> = {}
@@ -306,7 +307,19 @@ export const PATCH = apiHandler(async (
     }
 
     if (field === 'artStyle') {
-      updateData[field] = validateArtStyleField(body[field])
+      const artStyle = validateArtStyleField(body[field])
+      await assertArtStyleSelectable(session.user.id, artStyle)
+      updateData[field] = artStyle
+      continue
+    }
+
+    if (field === 'llmCacheEnabled') {
+      if (typeof body[field] !== 'boolean') {
+        throw new ApiError('INVALID_PARAMS', {
+          code: 'LLM_CACHE_FLAG_INVALID',
+          field})
+      }
+      updateData[field] = body[field]
       continue
     }
 
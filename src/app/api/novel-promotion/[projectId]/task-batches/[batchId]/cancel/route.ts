@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { cancelTaskBatch } from '@/lib/task-batch'
+
+/**
+ * POST - 取消整批中仍在排队 / 执行的子任务
+ */
+export const POST = apiHandler(async (
+  _request: NextRequest,
+  context: { params: Promise<{ projectId: string; batchId: string }> },
+) => {
+  const { projectId, batchId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+
+  const result = await cancelTaskBatch(projectId, batchId)
+  if (!result) {
+    throw new ApiError('NOT_FOUND')
+  }
+  return NextResponse.json({ success: true, ...result })
+})
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
+import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { resolveTaskRunAfter } from '@/lib/task/schedule'
+import { retryFailedTaskBatch } from '@/lib/task-batch'
+
+/**
+ * POST - 重新提交整批中失败或已取消的子任务
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string; batchId: string }> },
+) => {
+  const { projectId, batchId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+
+  const body = await request.json().catch(() => null)
+  const locale = resolveRequiredTaskLocale(request, body)
+  const result = await retryFailedTaskBatch(projectId, batchId, {
+    locale,
+    requestId: getRequestId(request),
+    runAfter: resolveTaskRunAfter(body),
+  })
+  if (!result) {
+    throw new ApiError('NOT_FOUND')
+  }
+  return NextResponse.json({ success: true, ...result })
+})
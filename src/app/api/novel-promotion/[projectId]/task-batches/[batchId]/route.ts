@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { getTaskBatch } from '@/lib/task-batch'
+
+/**
+ * GET - 批量详情与各条目状态
+ */
+export const GET = apiHandler(async (
+  _request: NextRequest,
+  context: { params: Promise<{ projectId: string; batchId: string }> },
+) => {
+  const { projectId, batchId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+
+  const result = await getTaskBatch(projectId, batchId)
+  if (!result) {
+    throw new ApiError('NOT_FOUND')
+  }
+  return NextResponse.json(result)
+})
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler } from '@/lib/api-errors'
+import { parseTaskBatchRequest, quoteTaskBatch } from '@/lib/task-batch'
+
+/**
+ * POST - 批量报价：返回将要提交的目标与汇总费用，不创建任务
+ * body: { episodeId, kind, selection?, options? }
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const body = await request.json().catch(() => null)
+  const batchRequest = parseTaskBatchRequest(body, { projectId, userId: session.user.id })
+  const result = await quoteTaskBatch(batchRequest)
+  return NextResponse.json(result)
+})
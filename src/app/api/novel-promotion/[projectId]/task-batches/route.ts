@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, getRequestId } from '@/lib/api-errors'
+import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { resolveTaskRunAfter } from '@/lib/task/schedule'
+import { createTaskBatch, listTaskBatches, parseTaskBatchRequest } from '@/lib/task-batch'
+
+/**
+ * GET - 项目最近的批量任务，可按剧集筛选
+ */
+export const GET = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+
+  const episodeId = request.nextUrl.searchParams.get('episodeId')
+  const batches = await listTaskBatches(projectId, episodeId)
+  return NextResponse.json({ batches })
+})
+
+/**
+ * POST - 创建批量任务并提交所有子任务
+ * body: { episodeId, kind, selection?, options?, expectedTotalCost?, runAfter?, scheduleWindow? }
+ */
+export const POST = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> },
+) => {
+  const { projectId } = await context.params
+
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const body = await request.json().catch(() => null)
+  const locale = resolveRequiredTaskLocale(request, body)
+  const batchRequest = parseTaskBatchRequest(body, { projectId, userId: session.user.id })
+  const expectedTotalCost = typeof body?.expectedTotalCost === 'number' ? body.expectedTotalCost : null
+
+  const batch = await createTaskBatch({
+    ...batchRequest,
+    locale,
+    requestId: getRequestId(request),
+    runAfter: resolveTaskRunAfter(body),
+    expectedTotalCost,
+  })
+  return NextResponse.json({ success: true, batch }, { status: 201 })
+})
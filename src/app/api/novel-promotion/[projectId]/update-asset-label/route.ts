@@ -16,6 +16,7 @@ export const POST = apiHandler(async (
   // 🔐 统一权限验证
   const authResult = await requireProjectAuthLight(projectId)
   if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
 
   const body = await request.json()
   const { type, id, newName, appearanceIndex } = body
@@ -32,6 +33,7 @@ export const POST = apiHandler(async (
       assetId: id,
       projectId,
       newName,
+      userId: session.user.id,
     })
     return NextResponse.json({ success: true })
   }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { uploadObject, generateUniqueKey } from '@/lib/storage'
+import { generateUniqueKey } from '@/lib/storage'
+import { uploadDedupedObject } from '@/lib/media/dedup'
 import sharp from 'sharp'
 import { initializeFonts, createLabelSVG } from '@/lib/fonts'
 import { decodeImageUrlsFromDb, encodeImageUrls } from '@/lib/contracts/image-urls-contract'
@@ -55,6 +56,7 @@ export const POST = apiHandler(async (
   // 🔐 统一权限验证
   const authResult = await requireProjectAuthLight(projectId)
   if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
 
   // 解析表单数据
   const formData = await request.formData()
@@ -91,12 +93,11 @@ export const POST = apiHandler(async (
     .jpeg({ quality: 90, mozjpeg: true })
     .toBuffer()
 
-  // 生成唯一key并上传
+  // 生成唯一key并上传 (内容相同时复用已有对象)
   const keyPrefix = type === 'character'
     ? `char-${id}-${appearanceId}-upload`
     : `loc-${id}-upload`
-  const key = generateUniqueKey(keyPrefix, 'jpg')
-  await uploadObject(processed, key)
+  const key = await uploadDedupedObject(processed, generateUniqueKey(keyPrefix, 'jpg'), session.user.id)
 
   // 更新数据库
   if (type === 'character' && appearanceId !== null) {
@@ -4,6 +4,7 @@ import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
 import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
 import { submitTask } from '@/lib/task/submitter'
 import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { resolveTaskRunAfter } from '@/lib/task/schedule'
 import { TASK_TYPE } from '@/lib/task/types'
 import { buildDefaultTaskBillingInfo } from '@/lib/billing'
 import { estimateVoiceLineMaxSeconds } from '@/lib/voice/generate-voice-line'
@@ -103,6 +104,7 @@ export const POST = apiHandler(async (
 
   const body = await request.json().catch(() => null)
   const locale = resolveRequiredTaskLocale(request, body)
+  const runAfter = resolveTaskRunAfter(body)
   const episodeId = typeof body?.episodeId === 'string' ? body.episodeId : ''
   const lineId = typeof body?.lineId === 'string' ? body.lineId : ''
   const requestedAudioModel = typeof body?.audioModel === 'string' ? body.audioModel.trim() : ''
@@ -260,6 +262,7 @@ export const POST = apiHandler(async (
         userId: session.user.id,
     locale,
         requestId: getRequestId(request),
+        runAfter,
         projectId,
         episodeId,
         type: TASK_TYPE.VOICE_LINE,
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteBudget, getBudgetStatuses, upsertBudget, type BudgetScope } from '@/lib/billing'
+import { BILLING_CURRENCY } from '@/lib/billing/currency'
+import { prisma } from '@/lib/prisma'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+
+async function requireOwnedProject(projectId: string, userId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { userId: true }
+  })
+
+  if (!project) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  if (project.userId !== userId) {
+    throw new ApiError('FORBIDDEN')
+  }
+}
+
+function parseScope(value: unknown): BudgetScope {
+  if (value !== 'user' && value !== 'project') {
+    throw new ApiError('INVALID_PARAMS', { code: 'BUDGET_SCOPE_INVALID', field: 'scope' })
+  }
+  return value
+}
+
+function parsePercent(value: unknown, field: string, max: number): number | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new ApiError('INVALID_PARAMS', { code: 'BUDGET_PERCENT_INVALID', field })
+  }
+  return value
+}
+
+/**
+ * GET /api/projects/[projectId]/budget
+ * 获取用户预算与项目预算的本月用量
+ */
+export const GET = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { projectId } = await context.params
+  await requireOwnedProject(projectId, session.user.id)
+
+  const budgets = await getBudgetStatuses(session.user.id, projectId)
+
+  return NextResponse.json({
+    projectId,
+    currency: BILLING_CURRENCY,
+    budgets
+  })
+})
+
+/**
+ * PUT /api/projects/[projectId]/budget
+ * 设置用户或项目的月度预算；monthlyLimit 为 null 时清除
+ */
+export const PUT = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { projectId } = await context.params
+  await requireOwnedProject(projectId, session.user.id)
+
+  const body = await request.json().catch(() => ({}))
+  const scope = parseScope(body?.scope)
+
+  const userId = session.user.id
+  if (body.monthlyLimit === null) {
+    await deleteBudget({ userId, scope, projectId })
+  } else {
+    const monthlyLimit = body.monthlyLimit
+    if (typeof monthlyLimit !== 'number' || !Number.isFinite(monthlyLimit) || monthlyLimit <= 0) {
+      throw new ApiError('INVALID_PARAMS', { code: 'BUDGET_LIMIT_INVALID', field: 'monthlyLimit' })
+    }
+    const warnPercent = parsePercent(body.warnPercent, 'warnPercent', 100)
+    const hardStopPercent = parsePercent(body.hardStopPercent, 'hardStopPercent', 1000)
+    if (warnPercent !== undefined && hardStopPercent !== undefined && hardStopPercent < warnPercent) {
+      throw new ApiError('INVALID_PARAMS', { code: 'BUDGET_PERCENT_INVALID', field: 'hardStopPercent' })
+    }
+    await upsertBudget({ userId, scope, projectId, monthlyLimit, warnPercent, hardStopPercent })
+  }
+
+  const budgets = await getBudgetStatuses(userId, projectId)
+  return NextResponse.json({
+    projectId,
+    currency: BILLING_CURRENCY,
+    budgets
+  })
+})
+
+/**
+ * DELETE /api/projects/[projectId]/budget?scope=user|project
+ * 清除用户或项目的月度预算
+ */
+export const DELETE = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { projectId } = await context.params
+  await requireOwnedProject(projectId, session.user.id)
+
+  const scope = parseScope(request.nextUrl.searchParams.get('scope'))
+  await deleteBudget({ userId: session.user.id, scope, projectId })
+
+  const budgets = await getBudgetStatuses(session.user.id, projectId)
+  return NextResponse.json({
+    projectId,
+    currency: BILLING_CURRENCY,
+    budgets
+  })
+})
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { requireProjectAuthLight, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { buildProjectArchiveManifest, createProjectArchiveStream } from '@/lib/project-archive'
+
+/**
+ * GET /api/projects/[projectId]/export
+ * 导出项目归档 (zip)：manifest.json + 全部引用的媒体文件
+ */
+export const GET = apiHandler(async (
+  request: NextRequest,
+  context: { params: Promise<{ projectId: string }> }
+) => {
+  const { projectId } = await context.params
+
+  // 🔐 统一权限验证
+  const authResult = await requireProjectAuthLight(projectId)
+  if (isErrorResponse(authResult)) return authResult
+  const { project } = authResult
+
+  const result = await buildProjectArchiveManifest(projectId)
+  if (!result) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)
+  const fileName = `${project.name}_${timestamp}.zip`
+
+  return new Response(createProjectArchiveStream(result), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+    },
+  })
+})
@@ -1,7 +1,8 @@
 import { logInfo as _ulogInfo, logError as _ulogError } from '@/lib/logging/core'
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { addSignedUrlsToProject, deleteObjects } from '@/lib/storage'
+import { addSignedUrlsToProject } from '@/lib/storage'
+import { releaseStorageObjects } from '@/lib/media/dedup'
 import { resolveStorageKeyFromMediaValue } from '@/lib/media/service'
 import { logProjectAction } from '@/lib/logging/semantic'
 import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
@@ -221,11 +222,11 @@ export const DELETE = apiHandler(async (
   })
   const cosKeys = await collectProjectCOSKeys(projectId)
 
-  // 2. 批量删除 COS 文件
+  // 2. 释放 COS 文件引用（去重后可能与其他项目共享，归零后由媒体回收删除）
   let cosResult = { success: 0, failed: 0 }
   if (cosKeys.length > 0) {
-    _ulogInfo(`[DELETE] 正在删除 ${cosKeys.length} 个 COS 文件...`)
-    cosResult = await deleteObjects(cosKeys)
+    _ulogInfo(`[DELETE] 正在释放 ${cosKeys.length} 个 COS 文件...`)
+    cosResult = await releaseStorageObjects(cosKeys)
   }
 
   // 3. 删除数据库记录 (级联删除所有关联数据)
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { ARCHIVE_MAX_BYTES, importProjectArchive, ProjectArchiveError } from '@/lib/project-archive'
+import { PROJECT_NAME_MAX_LENGTH } from '@/lib/projects/validation'
+
+/**
+ * POST /api/projects/import
+ * 从项目归档 (zip) 导入为新项目
+ * FormData: file (必填), name (可选，覆盖归档中的项目名)
+ */
+export const POST = apiHandler(async (request: NextRequest) => {
+  // 🔐 统一权限验证
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const formData = await request.formData()
+  const file = formData.get('file')
+  if (!(file instanceof File) || file.size === 0) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'ARCHIVE_FILE_REQUIRED',
+      field: 'file',
+      message: 'archive file is required',
+    })
+  }
+  if (file.size > ARCHIVE_MAX_BYTES) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'ARCHIVE_TOO_LARGE',
+      field: 'file',
+      limit: ARCHIVE_MAX_BYTES,
+    })
+  }
+
+  const nameValue = formData.get('name')
+  const name = typeof nameValue === 'string' ? nameValue.trim() : ''
+  if (name.length > PROJECT_NAME_MAX_LENGTH) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'PROJECT_NAME_TOO_LONG',
+      field: 'name',
+      limit: PROJECT_NAME_MAX_LENGTH,
+    })
+  }
+
+  try {
+    const result = await importProjectArchive({
+      userId: session.user.id,
+      archive: Buffer.from(await file.arrayBuffer()),
+      name: name || null,
+    })
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProjectArchiveError) {
+      throw new ApiError('INVALID_PARAMS', {
+        code: error.code,
+        ...(error.path ? { field: error.path } : {}),
+        message: error.message,
+      })
+    }
+    throw error
+  }
+})
@@ -4,12 +4,8 @@ import { isErrorResponse, requireUserAuth } from '@/lib/api-auth'
 import { retryFailedStep, getRunById } from '@/lib/run-runtime/service'
 import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
 import { submitTask } from '@/lib/task/submitter'
-import { TASK_TYPE, type TaskType } from '@/lib/task/types'
-
-const RETRY_SUPPORTED_TASK_TYPES: ReadonlySet<string> = new Set<string>([
-  TASK_TYPE.STORY_TO_SCRIPT_RUN,
-  TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
-])
+import type { TaskType } from '@/lib/task/types'
+import { isWorkflowType } from '@/lib/workflow-engine/registry'
 
 function toObject(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
@@ -25,7 +21,7 @@ function resolveTaskType(run: {
   taskType: string | null
 }): TaskType {
   const candidate = readString(run.taskType || run.workflowType)
-  if (!candidate || !RETRY_SUPPORTED_TASK_TYPES.has(candidate)) {
+  if (!candidate || !isWorkflowType(candidate)) {
     throw new ApiError('INVALID_PARAMS', {
       code: 'RUN_STEP_RETRY_UNSUPPORTED_TASK_TYPE',
       taskType: candidate || null,
@@ -91,6 +87,7 @@ export const POST = apiHandler(async (
     retryStepKey: stepKey,
     retryStepAttempt: prepared.retryAttempt,
     retryReason: reason || null,
+    bypassCache: payload.bypassCache === true,
     displayMode: 'detail',
     meta: {
       ...toObject(runInput.meta),
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiHandler, ApiError, getRequestId } from '@/lib/api-errors'
+import { isErrorResponse, requireUserAuth } from '@/lib/api-auth'
+import { getRunById, getRunStepDetail, overrideStepOutput } from '@/lib/run-runtime/service'
+import { getWorkflowOverridableStep } from '@/lib/workflow-engine/registry'
+import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
+import { submitTask } from '@/lib/task/submitter'
+import type { TaskType } from '@/lib/task/types'
+
+type RouteContext = { params: Promise<{ runId: string; stepKey: string }> }
+
+function toObject(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return value as Record<string, unknown>
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+async function resolveOwnedRun(context: RouteContext, userId: string) {
+  const { runId, stepKey: rawStepKey } = await context.params
+  const stepKey = decodeURIComponent(rawStepKey || '').trim()
+  if (!runId || !stepKey) {
+    throw new ApiError('INVALID_PARAMS')
+  }
+  const run = await getRunById(runId)
+  if (!run || run.userId !== userId) {
+    throw new ApiError('NOT_FOUND')
+  }
+  return { run, runId, stepKey }
+}
+
+export const GET = apiHandler(async (
+  _request: NextRequest,
+  context: RouteContext,
+) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+  const { run, runId, stepKey } = await resolveOwnedRun(context, session.user.id)
+
+  const detail = await getRunStepDetail({ runId, stepKey })
+  if (!detail) {
+    throw new ApiError('NOT_FOUND')
+  }
+  const overridableStep = getWorkflowOverridableStep({
+    workflowType: run.workflowType,
+    stepKey,
+  })
+
+  return NextResponse.json({
+    ...detail,
+    overridable: !!overridableStep,
+    overrideArtifactTypes: overridableStep ? overridableStep.artifactTypes : [],
+  })
+})
+
+/**
+ * 覆盖步骤产物并从该步骤之后续跑：只重置 / 重跑被失效的下游步骤。
+ */
+export const PATCH = apiHandler(async (
+  request: NextRequest,
+  context: RouteContext,
+) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+  const { run, runId, stepKey } = await resolveOwnedRun(context, session.user.id)
+
+  const overridableStep = getWorkflowOverridableStep({
+    workflowType: run.workflowType,
+    stepKey,
+  })
+  if (!overridableStep || !overridableStep.validateOutputOverride) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'RUN_STEP_OVERRIDE_UNSUPPORTED',
+      stepKey,
+    })
+  }
+
+  const body = await request.json().catch(() => null)
+  const payload = toObject(body)
+  // 覆盖产物前先校验 locale，避免写入后续跑任务因缺少 locale 提交失败
+  const locale = resolveRequiredTaskLocale(request, payload)
+  const artifactType = readString(payload.artifactType) || overridableStep.artifactTypes[0] || ''
+  const refId = readString(payload.refId)
+  const reason = readString(payload.reason)
+  const artifactPayload = payload.payload
+  if (!artifactPayload || typeof artifactPayload !== 'object' || Array.isArray(artifactPayload)) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'RUN_STEP_OVERRIDE_PAYLOAD_REQUIRED',
+      stepKey,
+    })
+  }
+  const validationCode = overridableStep.validateOutputOverride({
+    artifactType,
+    payload: artifactPayload as Record<string, unknown>,
+  })
+  if (validationCode) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: validationCode,
+      stepKey,
+      artifactType,
+    })
+  }
+
+  let prepared: Awaited<ReturnType<typeof overrideStepOutput>> = null
+  try {
+    prepared = await overrideStepOutput({
+      runId,
+      userId: session.user.id,
+      stepKey,
+      artifactType,
+      refId: refId || null,
+      payload: artifactPayload as Record<string, unknown>,
+      reason: reason || null,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message === 'RUN_STEP_NOT_FOUND' || message === 'RUN_STEP_ARTIFACT_NOT_FOUND') {
+      throw new ApiError('NOT_FOUND')
+    }
+    if (message === 'RUN_NOT_SETTLED') {
+      throw new ApiError('CONFLICT', {
+        code: 'RUN_STEP_OVERRIDE_RUN_ACTIVE',
+        runId,
+      })
+    }
+    if (message === 'RUN_STEP_NOT_COMPLETED') {
+      throw new ApiError('INVALID_PARAMS', {
+        code: 'RUN_STEP_OVERRIDE_ONLY_COMPLETED',
+        stepKey,
+      })
+    }
+    throw error
+  }
+  if (!prepared) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  const runInput = toObject(run.input)
+  const submitResult = await submitTask({
+    userId: session.user.id,
+    locale,
+    requestId: getRequestId(request),
+    projectId: run.projectId,
+    episodeId: run.episodeId || null,
+    type: (run.taskType || run.workflowType) as TaskType,
+    targetType: run.targetType,
+    targetId: run.targetId,
+    payload: {
+      ...runInput,
+      episodeId: run.episodeId || runInput.episodeId || null,
+      runId,
+      resumeFromStepKey: stepKey,
+      resumeAttempt: prepared.overrideAttempt,
+      displayMode: 'detail',
+      meta: {
+        ...toObject(runInput.meta),
+        locale,
+        runId,
+        resumeFromStepKey: stepKey,
+        resumeAttempt: prepared.overrideAttempt,
+      },
+    },
+    dedupeKey: null,
+    priority: 3,
+  })
+
+  return NextResponse.json({
+    success: true,
+    runId,
+    stepKey,
+    overrideAttempt: prepared.overrideAttempt,
+    invalidatedStepKeys: prepared.invalidatedStepKeys,
+    previousPayload: prepared.previousPayload,
+    payload: prepared.artifact.payload,
+    taskId: submitResult.taskId,
+    async: true,
+  })
+})
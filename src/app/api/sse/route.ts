@@ -45,7 +45,7 @@ async function listActiveLifecycleSnapshot(params: {
       projectId: params.projectId,
       userId: params.userId,
       status: {
-        in: ['queued', 'processing']},
+        in: ['blocked', 'queued', 'processing']},
       ...(params.episodeId ? { episodeId: params.episodeId } : {})},
     orderBy: {
       updatedAt: 'desc'},
@@ -65,9 +65,9 @@ async function listActiveLifecycleSnapshot(params: {
   return rows.map((row): SSEEvent => {
     const payload = asObject(row.payload)
     const payloadUi = asObject(payload?.ui)
-    const lifecycleType = row.status === 'queued'
-      ? TASK_EVENT_TYPE.CREATED
-      : TASK_EVENT_TYPE.PROCESSING
+    const lifecycleType = row.status === 'processing'
+      ? TASK_EVENT_TYPE.PROCESSING
+      : TASK_EVENT_TYPE.CREATED
     const eventPayload: Record<string, unknown> = {
       ...(payload || {}),
       lifecycleType,
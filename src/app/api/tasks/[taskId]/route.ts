@@ -4,6 +4,7 @@ import { isErrorResponse, requireUserAuth } from '@/lib/api-auth'
 import { removeTaskJob } from '@/lib/task/queues'
 import { listTaskLifecycleEvents, publishTaskEvent } from '@/lib/task/publisher'
 import { cancelTask, getTaskById } from '@/lib/task/service'
+import { settleDependentTasks } from '@/lib/task/dependencies'
 import { TASK_EVENT_TYPE } from '@/lib/task/types'
 import { normalizeTaskError } from '@/lib/errors/normalize'
 
@@ -77,6 +78,8 @@ export const DELETE = apiHandler(async (
         cancelled: true,
         message: updatedTask.errorMessage || 'Task cancelled by user'},
       persist: false})
+    // 依赖该任务的 blocked 任务级联失败；失败时由 watchdog 兜底
+    await settleDependentTasks(taskId).catch(() => undefined)
   }
 
   return NextResponse.json({
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiHandler, ApiError } from '@/lib/api-errors'
+import { isErrorResponse, requireUserAuth } from '@/lib/api-auth'
+import { getTaskById } from '@/lib/task/service'
+import { runScheduledTaskNow } from '@/lib/task/submitter'
+
+/** POST - 提前执行尚在等待的定时任务 */
+export const POST = apiHandler(async (
+  _request: NextRequest,
+  context: { params: Promise<{ taskId: string }> },
+) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+  const { taskId } = await context.params
+
+  const task = await getTaskById(taskId)
+  if (!task || task.userId !== session.user.id) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  const { task: updatedTask, promoted } = await runScheduledTaskNow(taskId)
+  if (!promoted) {
+    throw new ApiError('CONFLICT', {
+      code: 'TASK_NOT_SCHEDULED',
+      message: 'Task is not waiting for a scheduled run',
+    })
+  }
+
+  return NextResponse.json({
+    success: true,
+    task: updatedTask,
+  })
+})
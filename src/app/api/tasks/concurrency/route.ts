@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { apiHandler } from '@/lib/api-errors'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { getUserWorkflowConcurrencyConfig } from '@/lib/config-service'
+import { CONCURRENCY_SCOPES, getUserConcurrencyUsage } from '@/lib/workers/user-concurrency-gate'
+
+/** GET - 当前用户各流程的并发槽位占用情况 */
+export const GET = apiHandler(async () => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const [limits, usage] = await Promise.all([
+    getUserWorkflowConcurrencyConfig(session.user.id),
+    getUserConcurrencyUsage(session.user.id),
+  ])
+
+  return NextResponse.json({
+    concurrency: Object.fromEntries(CONCURRENCY_SCOPES.map((scope) => [
+      scope,
+      { active: usage[scope], limit: limits[scope] },
+    ])),
+  })
+})
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { apiHandler } from '@/lib/api-errors'
 import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
 import { queryTasks } from '@/lib/task/service'
+import { isTaskScheduled } from '@/lib/task/schedule'
 import { type TaskStatus } from '@/lib/task/types'
 import { normalizeTaskError } from '@/lib/errors/normalize'
 
@@ -10,6 +11,7 @@ function withTaskError(task: Awaited<ReturnType<typeof queryTasks>>[number]) {
   return {
     ...task,
     error,
+    displayStatus: isTaskScheduled(task) ? 'scheduled' : task.status,
   }
 }
 
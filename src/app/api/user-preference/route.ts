@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma'
 import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
 import { ApiError, apiHandler } from '@/lib/api-errors'
 import { isArtStyleValue } from '@/lib/constants'
+import { assertArtStyleSelectable } from '@/lib/art-style'
 
 function validateArtStyleField(value: unknown): string {
   if (typeof value !== 'string') {
@@ -68,7 +69,9 @@ export const PATCH = apiHandler(async (request: NextRequest) => {
   for (const field of allowedFields) {
     if (body[field] !== undefined) {
       if (field === 'artStyle') {
-        updateData[field] = validateArtStyleField(body[field])
+        const artStyle = validateArtStyleField(body[field])
+        await assertArtStyleSelectable(session.user.id, artStyle)
+        updateData[field] = artStyle
         continue
       }
       updateData[field] = body[field]
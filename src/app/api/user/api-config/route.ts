@@ -23,6 +23,7 @@ import {
   validateCapabilitySelectionsPayload,
 } from '@/lib/model-capabilities/lookup'
 import { findBuiltinCapabilities } from '@/lib/model-capabilities/catalog'
+import { parseProviderRateLimit, type ProviderRateLimit } from '@/lib/provider-rate-limit/config'
 import {
   findBuiltinPricingCatalogEntry,
   listBuiltinPricingCatalog,
@@ -64,6 +65,7 @@ interface StoredProvider {
   hidden?: boolean
   apiMode?: ApiModeType
   gatewayRoute?: GatewayRouteType
+  rateLimit?: ProviderRateLimit
 }
 
 interface StoredModelLlmCustomPricing {
@@ -449,6 +451,17 @@ function isUnifiedModelType(value: unknown): value is UnifiedModelType {
   )
 }
 
+function readProviderRateLimit(raw: unknown, field: string): ProviderRateLimit | undefined {
+  try {
+    return parseProviderRateLimit(raw)
+  } catch {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'PROVIDER_RATE_LIMIT_INVALID',
+      field,
+    })
+  }
+}
+
 function isApiMode(value: unknown): value is ApiModeType {
   return value === 'gemini-sdk' || value === 'openai-official'
 }
@@ -910,6 +923,7 @@ function normalizeProvidersInput(rawProviders: unknown): StoredProvider[] {
       strict: true,
       field: `providers[${index}].baseUrl`,
     })
+    const rateLimit = readProviderRateLimit(item.rateLimit, `providers[${index}].rateLimit`)
 
     normalized.push({
       id,
@@ -919,6 +933,7 @@ function normalizeProvidersInput(rawProviders: unknown): StoredProvider[] {
       hidden: hiddenRaw === true,
       apiMode: apiModeRaw,
       gatewayRoute,
+      rateLimit,
     })
   }
 
@@ -1467,6 +1482,7 @@ function parseStoredProviders(rawProviders: string | null | undefined): StoredPr
       strict: false,
       field: `customProviders[${index}].baseUrl`,
     })
+    const rateLimit = readProviderRateLimit(raw.rateLimit, `customProviders[${index}].rateLimit`)
 
     normalized.push({
       id,
@@ -1476,6 +1492,7 @@ function parseStoredProviders(rawProviders: string | null | undefined): StoredPr
       hidden: hiddenRaw === true,
       apiMode,
       gatewayRoute,
+      rateLimit,
     })
   }
 
@@ -1837,6 +1854,7 @@ export const PUT = apiHandler(async (request: NextRequest) => {
         hidden: finalHidden,
         apiMode: provider.apiMode,
         gatewayRoute: provider.gatewayRoute,
+        rateLimit: provider.rateLimit,
         apiKey: finalApiKey,
       }
     })
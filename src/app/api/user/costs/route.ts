@@ -41,6 +41,7 @@ export const GET = apiHandler(async () => {
     userId,
     currency: BILLING_CURRENCY,
     total: costSummary.total,
+    cacheSavings: costSummary.cacheSavings,
     byProject: byProjectWithNames.sort((a, b) => b.totalCost - a.totalCost)
   })
 })
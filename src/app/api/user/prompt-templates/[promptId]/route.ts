@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler } from '@/lib/api-errors'
+import {
+  deletePromptTemplateOverride,
+  getPromptTemplateDetail,
+  resolvePromptOverrideTarget,
+  savePromptTemplateVersion,
+  setActivePromptTemplateVersion,
+} from '@/lib/prompt-overrides'
+
+type RouteContext = { params: Promise<{ promptId: string }> }
+
+/**
+ * GET /api/user/prompt-templates/[promptId]?locale=zh&projectId=
+ * 内置模板内容 + 覆盖的版本历史
+ */
+export const GET = apiHandler(async (request: NextRequest, context: RouteContext) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { promptId } = await context.params
+  const searchParams = request.nextUrl.searchParams
+  const target = await resolvePromptOverrideTarget({
+    userId: session.user.id,
+    promptId,
+    locale: searchParams.get('locale'),
+    projectId: searchParams.get('projectId'),
+  })
+
+  return NextResponse.json({ template: await getPromptTemplateDetail(target) })
+})
+
+/**
+ * POST /api/user/prompt-templates/[promptId]
+ * 保存覆盖为新版本并启用：{ locale, projectId?, content, note? }
+ */
+export const POST = apiHandler(async (request: NextRequest, context: RouteContext) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { promptId } = await context.params
+  const body = await request.json().catch(() => ({}))
+  const target = await resolvePromptOverrideTarget({
+    userId: session.user.id,
+    promptId,
+    locale: body?.locale,
+    projectId: body?.projectId,
+  })
+
+  return NextResponse.json({ template: await savePromptTemplateVersion(target, body || {}) })
+})
+
+/**
+ * PATCH /api/user/prompt-templates/[promptId]
+ * 回滚到指定版本或停用覆盖：{ locale, projectId?, activeVersion: number | null }
+ */
+export const PATCH = apiHandler(async (request: NextRequest, context: RouteContext) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { promptId } = await context.params
+  const body = await request.json().catch(() => ({}))
+  const target = await resolvePromptOverrideTarget({
+    userId: session.user.id,
+    promptId,
+    locale: body?.locale,
+    projectId: body?.projectId,
+  })
+
+  return NextResponse.json({ template: await setActivePromptTemplateVersion(target, body?.activeVersion) })
+})
+
+/**
+ * DELETE /api/user/prompt-templates/[promptId]?locale=zh&projectId=
+ * 删除覆盖及全部版本
+ */
+export const DELETE = apiHandler(async (request: NextRequest, context: RouteContext) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const { promptId } = await context.params
+  const searchParams = request.nextUrl.searchParams
+  const target = await resolvePromptOverrideTarget({
+    userId: session.user.id,
+    promptId,
+    locale: searchParams.get('locale'),
+    projectId: searchParams.get('projectId'),
+  })
+  await deletePromptTemplateOverride(target)
+
+  return NextResponse.json({ success: true })
+})
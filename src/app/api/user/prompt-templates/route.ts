@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUserAuth, isErrorResponse } from '@/lib/api-auth'
+import { apiHandler } from '@/lib/api-errors'
+import {
+  listPromptTemplates,
+  parsePromptLocale,
+  resolvePromptOverrideScope,
+} from '@/lib/prompt-overrides'
+
+/**
+ * GET /api/user/prompt-templates?locale=zh&projectId=
+ * 列出全部提示词模板及当前范围（用户级 / 项目级）的覆盖状态
+ */
+export const GET = apiHandler(async (request: NextRequest) => {
+  const authResult = await requireUserAuth()
+  if (isErrorResponse(authResult)) return authResult
+  const { session } = authResult
+
+  const searchParams = request.nextUrl.searchParams
+  const locale = parsePromptLocale(searchParams.get('locale'))
+  const scope = await resolvePromptOverrideScope(session.user.id, searchParams.get('projectId'))
+  const templates = await listPromptTemplates({ userId: session.user.id, locale, ...scope })
+
+  return NextResponse.json({ templates })
+})
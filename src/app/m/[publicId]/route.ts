@@ -1,5 +1,7 @@
+import { Readable } from 'node:stream'
 import { NextRequest, NextResponse } from 'next/server'
-import { getSignedUrl, toFetchableUrl } from '@/lib/storage'
+import { getObjectStream, headObject } from '@/lib/storage'
+import { parseByteRange } from '@/lib/storage/utils'
 import { getMediaObjectByPublicId } from '@/lib/media/service'
 
 export const runtime = 'nodejs'
@@ -40,33 +42,34 @@ export async function GET(
     })
   }
 
-  const fetchUrl = toFetchableUrl(getSignedUrl(media.storageKey))
-  const range = request.headers.get('range')
-
-  const upstream = await fetch(fetchUrl, {
-    headers: range ? { Range: range } : undefined,
-  })
-
-  if (!upstream.ok) {
-    const status = upstream.status === 404 ? 404 : 502
-    return NextResponse.json({ error: 'Failed to fetch media' }, { status })
+  const head = await headObject(media.storageKey)
+  if (!head) {
+    return NextResponse.json({ error: 'Media not found' }, { status: 404 })
   }
 
-  const contentType = media.mimeType || upstream.headers.get('content-type') || 'application/octet-stream'
-  const contentLength = upstream.headers.get('content-length')
-  const contentRange = upstream.headers.get('content-range')
-  const acceptRanges = upstream.headers.get('accept-ranges') || (contentType.startsWith('video/') ? 'bytes' : null)
+  const contentType = media.mimeType || head.contentType || 'application/octet-stream'
+  const range = parseByteRange(request.headers.get('range'), head.size)
 
   const headers = new Headers()
   headers.set('Content-Type', contentType)
   headers.set('Cache-Control', 'public, max-age=31536000, immutable')
   headers.set('ETag', etag)
-  if (contentLength) headers.set('Content-Length', contentLength)
-  if (contentRange) headers.set('Content-Range', contentRange)
-  if (acceptRanges) headers.set('Accept-Ranges', acceptRanges)
+  headers.set('Accept-Ranges', 'bytes')
+
+  if (range === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${head.size}`)
+    return new Response(null, { status: 416, headers })
+  }
+
+  // 直接从存储流式读取，不经过签名 URL 二次转发
+  const object = await getObjectStream(media.storageKey, range || undefined)
+  headers.set('Content-Length', String(object.contentLength))
+  if (object.range) {
+    headers.set('Content-Range', `bytes ${object.range.start}-${object.range.end}/${object.totalSize}`)
+  }
 
-  return new Response(upstream.body, {
-    status: upstream.status === 206 ? 206 : 200,
+  return new Response(Readable.toWeb(object.body) as ReadableStream<Uint8Array>, {
+    status: object.range ? 206 : 200,
     headers,
   })
 }
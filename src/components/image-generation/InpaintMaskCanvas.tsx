@@ -0,0 +1,175 @@
+'use client'
+import { useEffect, useRef, useState } from 'react'
+import { MediaImage } from '@/components/media/MediaImage'
+
+const MASK_LONG_EDGE_LIMIT = 2048
+// 画布整体半透明显示，笔触本身保持不透明以便导出纯白蒙版
+const BRUSH_PREVIEW_COLOR = '#ef4444'
+
+type MaskTool = 'brush' | 'eraser'
+
+export interface InpaintMaskCanvasLabels {
+  hint: string
+  brush: string
+  eraser: string
+  brushSize: string
+  clear: string
+}
+
+interface InpaintMaskCanvasProps {
+  imageUrl: string
+  labels: InpaintMaskCanvasLabels
+  /** 导出与原图同比例的黑白 PNG（白色为重绘区域），清空时回传 null */
+  onChange: (maskImage: string | null) => void
+}
+
+function resolveMaskSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MASK_LONG_EDGE_LIMIT / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+function exportMaskDataUrl(source: HTMLCanvasElement): string | null {
+  const strokes = document.createElement('canvas')
+  strokes.width = source.width
+  strokes.height = source.height
+  const strokesContext = strokes.getContext('2d')
+  const mask = document.createElement('canvas')
+  mask.width = source.width
+  mask.height = source.height
+  const maskContext = mask.getContext('2d')
+  if (!strokesContext || !maskContext) return null
+
+  strokesContext.drawImage(source, 0, 0)
+  strokesContext.globalCompositeOperation = 'source-in'
+  strokesContext.fillStyle = '#ffffff'
+  strokesContext.fillRect(0, 0, strokes.width, strokes.height)
+
+  maskContext.fillStyle = '#000000'
+  maskContext.fillRect(0, 0, mask.width, mask.height)
+  maskContext.drawImage(strokes, 0, 0)
+  return mask.toDataURL('image/png')
+}
+
+/**
+ * 局部重绘蒙版画笔：叠加在原图上涂抹需要重绘的区域
+ */
+export default function InpaintMaskCanvas({ imageUrl, labels, onChange }: InpaintMaskCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  const [tool, setTool] = useState<MaskTool>('brush')
+  const [brushSize, setBrushSize] = useState(40)
+  const [hasMask, setHasMask] = useState(false)
+
+  // 按原图尺寸建立蒙版画布，保证蒙版与原图像素对齐
+  useEffect(() => {
+    const image = new Image()
+    image.onload = () => setSize(resolveMaskSize(image.naturalWidth, image.naturalHeight))
+    image.src = imageUrl
+  }, [imageUrl])
+
+  const getCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drawingRef.current = true
+
+    const point = getCanvasPoint(event)
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over'
+    context.strokeStyle = BRUSH_PREVIEW_COLOR
+    context.lineWidth = brushSize * point.scale
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.beginPath()
+    context.moveTo(point.x, point.y)
+    context.lineTo(point.x, point.y)
+    context.stroke()
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+    const point = getCanvasPoint(event)
+    context.lineTo(point.x, point.y)
+    context.stroke()
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    drawingRef.current = false
+    event.currentTarget.releasePointerCapture(event.pointerId)
+    if (tool === 'brush') setHasMask(true)
+    if (tool === 'brush' || hasMask) onChange(exportMaskDataUrl(event.currentTarget))
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setHasMask(false)
+    onChange(null)
+  }
+
+  const toolButtonClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-sm transition-colors ${active
+    ? 'bg-[var(--glass-accent-from)] text-white'
+    : 'bg-[var(--glass-bg-muted)] text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-surface-strong)]'}`
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-[var(--glass-text-tertiary)]">{labels.hint}</p>
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" className={toolButtonClass(tool === 'brush')} onClick={() => setTool('brush')}>
+          {labels.brush}
+        </button>
+        <button type="button" className={toolButtonClass(tool === 'eraser')} onClick={() => setTool('eraser')}>
+          {labels.eraser}
+        </button>
+        <label className="flex items-center gap-2 text-xs text-[var(--glass-text-secondary)]">
+          {labels.brushSize}
+          <input
+            type="range"
+            min={8}
+            max={120}
+            value={brushSize}
+            onChange={(event) => setBrushSize(Number(event.target.value))}
+          />
+        </label>
+        <button type="button" className={toolButtonClass(false)} onClick={handleClear} disabled={!hasMask}>
+          {labels.clear}
+        </button>
+      </div>
+      {size && (
+        <div
+          className="relative w-full max-h-[50vh] mx-auto overflow-hidden rounded-lg border border-[var(--glass-stroke-strong)]"
+          style={{ aspectRatio: `${size.width} / ${size.height}`, maxWidth: `calc(50vh * ${size.width / size.height})` }}
+        >
+          <MediaImage
+            src={imageUrl}
+            alt=""
+            className="absolute inset-0 h-full w-full object-fill pointer-events-none"
+          />
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className="absolute inset-0 h-full w-full opacity-50 touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
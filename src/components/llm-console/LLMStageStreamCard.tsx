@@ -20,6 +20,7 @@ export type LLMStageViewItem = {
   progress?: number
   attempt?: number
   retryable?: boolean
+  editable?: boolean
 }
 
 export type LLMStageStreamCardProps = {
@@ -30,6 +31,7 @@ export type LLMStageStreamCardProps = {
   selectedStageId?: string
   onSelectStage?: (stageId: string) => void
   onRetryStage?: (stageId: string) => void
+  onEditStage?: (stageId: string) => void
   outputText: string
   placeholderText?: string
   activeMessage?: string
@@ -173,6 +175,7 @@ export default function LLMStageStreamCard({
   selectedStageId,
   onSelectStage,
   onRetryStage,
+  onEditStage,
   outputText,
   placeholderText,
   activeMessage,
@@ -406,6 +409,10 @@ export default function LLMStageStreamCard({
                 stage.status === 'failed'
                 && stage.retryable !== false
                 && typeof onRetryStage === 'function'
+              const showEditButton =
+                stage.status === 'completed'
+                && stage.editable === true
+                && typeof onEditStage === 'function'
               return (
                 <li key={stage.id}>
                   <div
@@ -455,6 +462,17 @@ export default function LLMStageStreamCard({
                         </button>
                       </div>
                     )}
+                    {showEditButton && (
+                      <div className="mt-2 flex justify-end">
+                        <button
+                          type="button"
+                          onClick={() => onEditStage(stage.id)}
+                          className="glass-btn-base glass-btn-secondary rounded-md px-2.5 py-1 text-[11px]"
+                        >
+                          {t('runConsole.editOutput')}
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </li>
               )
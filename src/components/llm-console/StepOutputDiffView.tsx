@@ -0,0 +1,58 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useTranslations } from 'next-intl'
+import { collapseUnchangedLines, diffStepOutputLines } from './step-output-diff'
+
+type StepOutputDiffViewProps = {
+  before: unknown
+  after: unknown
+}
+
+function lineClass(kind: 'same' | 'added' | 'removed'): string {
+  if (kind === 'added') return 'bg-[var(--glass-tone-success-bg)] text-[var(--glass-tone-success-fg)]'
+  if (kind === 'removed') return 'bg-[var(--glass-tone-danger-bg)] text-[var(--glass-tone-danger-fg)] line-through'
+  return 'text-[var(--glass-text-secondary)]'
+}
+
+function linePrefix(kind: 'same' | 'added' | 'removed'): string {
+  if (kind === 'added') return '+'
+  if (kind === 'removed') return '-'
+  return ' '
+}
+
+export default function StepOutputDiffView({ before, after }: StepOutputDiffViewProps) {
+  const t = useTranslations('progress')
+  const lines = useMemo(
+    () => collapseUnchangedLines(diffStepOutputLines(before, after)),
+    [after, before],
+  )
+  const hasChanges = lines.some((line) => line.kind === 'added' || line.kind === 'removed')
+
+  return (
+    <div className="rounded-lg border border-[var(--glass-stroke-base)] bg-[var(--glass-bg-surface)]">
+      <div className="border-b border-[var(--glass-stroke-base)] px-3 py-2 text-xs font-semibold text-[var(--glass-text-primary)]">
+        {t('runConsole.overrideDiffTitle')}
+      </div>
+      {hasChanges ? (
+        <pre className="max-h-[40vh] overflow-auto px-3 py-2 font-mono text-[12px] leading-6">
+          {lines.map((line, index) => (
+            line.kind === 'skip'
+              ? (
+                <div key={index} className="text-[var(--glass-text-tertiary)]">
+                  {`  … ${line.count}`}
+                </div>
+              )
+              : (
+                <div key={index} className={`whitespace-pre-wrap break-words ${lineClass(line.kind)}`}>
+                  {`${linePrefix(line.kind)} ${line.text}`}
+                </div>
+              )
+          ))}
+        </pre>
+      ) : (
+        <p className="px-3 py-3 text-sm text-[var(--glass-text-tertiary)]">{t('runConsole.overrideNoChanges')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import type { RunStepDetail, RunStepOverrideResult } from '@/lib/query/hooks/run-stream/types'
+import StepOutputDiffView from './StepOutputDiffView'
+
+type StepOutputOverridePanelProps = {
+  stageTitle: string
+  loadDetail: () => Promise<RunStepDetail>
+  submitOverride: (params: { artifactType: string; payload: Record<string, unknown> }) => Promise<RunStepOverrideResult>
+  onClose: () => void
+}
+
+type DiffState = {
+  before: unknown
+  after: unknown
+  invalidatedCount: number
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export default function StepOutputOverridePanel({
+  stageTitle,
+  loadDetail,
+  submitOverride,
+  onClose,
+}: StepOutputOverridePanelProps) {
+  const t = useTranslations('progress')
+  const [artifactType, setArtifactType] = useState('')
+  const [draft, setDraft] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [errorMessage, setErrorMessage] = useState('')
+  const [diff, setDiff] = useState<DiffState | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    void loadDetail()
+      .then((detail) => {
+        if (cancelled) return
+        const targetType = detail.overrideArtifactTypes[0] || ''
+        const artifact = detail.artifacts.find((item) => item.artifactType === targetType)
+        setArtifactType(targetType)
+        setDraft(JSON.stringify(artifact?.payload ?? {}, null, 2))
+        if (detail.lastOverride) {
+          setDiff({
+            before: detail.lastOverride.previousPayload,
+            after: detail.lastOverride.payload,
+            invalidatedCount: detail.lastOverride.invalidatedStepKeys.length,
+          })
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setErrorMessage(getErrorMessage(error))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [loadDetail])
+
+  const handleSubmit = async () => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(draft)
+    } catch {
+      setErrorMessage(t('runConsole.overrideInvalidJson'))
+      return
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      setErrorMessage(t('runConsole.overrideInvalidJson'))
+      return
+    }
+    setErrorMessage('')
+    setSubmitting(true)
+    try {
+      const result = await submitOverride({
+        artifactType,
+        payload: parsed as Record<string, unknown>,
+      })
+      setDiff({
+        before: result.previousPayload,
+        after: result.payload,
+        invalidatedCount: result.invalidatedStepKeys.length,
+      })
+    } catch (error: unknown) {
+      setErrorMessage(getErrorMessage(error))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-130 flex items-center justify-center glass-overlay backdrop-blur-sm">
+      <div className="glass-surface-modal flex max-h-[90vh] w-[min(92vw,960px)] flex-col gap-3 overflow-hidden rounded-2xl p-5">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="truncate text-base font-semibold text-[var(--glass-text-primary)]">
+              {t('runConsole.overrideTitle', { stage: stageTitle })}
+            </h3>
+            <p className="text-xs text-[var(--glass-text-tertiary)]">{t('runConsole.overrideHint')}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="glass-btn-base glass-btn-secondary rounded-lg px-3 py-1.5 text-xs"
+          >
+            {t('runConsole.overrideClose')}
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="py-6 text-center text-sm text-[var(--glass-text-secondary)]">{t('runConsole.overrideLoading')}</p>
+        ) : (
+          <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-y-auto">
+            <textarea
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              spellCheck={false}
+              className="glass-input-base h-[36vh] w-full resize-none rounded-lg px-3 py-2 font-mono text-[12px] leading-6"
+            />
+            {diff && (
+              <>
+                <StepOutputDiffView before={diff.before} after={diff.after} />
+                <p className="text-xs text-[var(--glass-text-tertiary)]">
+                  {t('runConsole.overrideInvalidated', { count: diff.invalidatedCount })}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {errorMessage && (
+          <p className="rounded-lg bg-[var(--glass-tone-danger-bg)] px-3 py-2 text-sm text-[var(--glass-tone-danger-fg)]">
+            {errorMessage}
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            disabled={loading || submitting || !artifactType}
+            onClick={() => {
+              void handleSubmit()
+            }}
+            className="glass-btn-base glass-btn-primary rounded-lg px-4 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('runConsole.overrideSubmit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+export type StepOutputDiffLine =
+  | { kind: 'same' | 'added' | 'removed'; text: string }
+  | { kind: 'skip'; count: number }
+
+// 超过该规模时不做 LCS，直接整体替换，避免大产物卡住页面
+const MAX_LCS_CELLS = 4_000_000
+
+function toLines(value: unknown): string[] {
+  if (value === undefined || value === null) return []
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+  return text.split('\n')
+}
+
+export function diffStepOutputLines(before: unknown, after: unknown): StepOutputDiffLine[] {
+  const left = toLines(before)
+  const right = toLines(after)
+  if (left.length * right.length > MAX_LCS_CELLS) {
+    return [
+      ...left.map((text) => ({ kind: 'removed' as const, text })),
+      ...right.map((text) => ({ kind: 'added' as const, text })),
+    ]
+  }
+
+  const width = right.length + 1
+  const lengths = new Uint32Array((left.length + 1) * width)
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] = left[i] === right[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const lines: StepOutputDiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      lines.push({ kind: 'same', text: left[i] })
+      i += 1
+      j += 1
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      lines.push({ kind: 'removed', text: left[i] })
+      i += 1
+    } else {
+      lines.push({ kind: 'added', text: right[j] })
+      j += 1
+    }
+  }
+  for (; i < left.length; i += 1) lines.push({ kind: 'removed', text: left[i] })
+  for (; j < right.length; j += 1) lines.push({ kind: 'added', text: right[j] })
+  return lines
+}
+
+/**
+ * 折叠远离改动的未变更行，只保留每处改动前后 context 行。
+ */
+export function collapseUnchangedLines(lines: StepOutputDiffLine[], context = 2): StepOutputDiffLine[] {
+  const changed = lines.map((line) => line.kind === 'added' || line.kind === 'removed')
+  const keep = lines.map((_, index) => {
+    for (let offset = -context; offset <= context; offset += 1) {
+      if (changed[index + offset]) return true
+    }
+    return false
+  })
+
+  const collapsed: StepOutputDiffLine[] = []
+  let skipped = 0
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) collapsed.push({ kind: 'skip', count: skipped })
+      skipped = 0
+      collapsed.push(line)
+      return
+    }
+    skipped += 1
+  })
+  if (skipped > 0) collapsed.push({ kind: 'skip', count: skipped })
+  return collapsed
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import ConfirmDialog from '@/components/ConfirmDialog'
+import { GlassButton, GlassInput, GlassTextarea } from '@/components/ui/primitives'
+import type { PromptTemplateDetail } from '@/lib/prompt-overrides/types'
+import {
+  useDeletePromptTemplateOverride,
+  useSavePromptTemplateVersion,
+  useSetActivePromptTemplateVersion,
+} from '@/lib/query/hooks'
+
+interface PromptTemplateEditorProps {
+  detail: PromptTemplateDetail
+  projectId: string | null
+}
+
+function resolveInitialDraft(detail: PromptTemplateDetail): string {
+  const active = detail.versions.find((item) => item.version === detail.activeVersion)
+  return active?.content ?? detail.versions[0]?.content ?? detail.defaultContent
+}
+
+export default function PromptTemplateEditor({ detail, projectId }: PromptTemplateEditorProps) {
+  const t = useTranslations('profile')
+  const [draft, setDraft] = useState(() => resolveInitialDraft(detail))
+  const [note, setNote] = useState('')
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [missingVariables, setMissingVariables] = useState<string[]>([])
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const saveMutation = useSavePromptTemplateVersion()
+  const activateMutation = useSetActivePromptTemplateVersion()
+  const deleteMutation = useDeletePromptTemplateOverride()
+  const scope = { promptId: detail.promptId, locale: detail.locale, projectId }
+  const busy = saveMutation.isPending || activateMutation.isPending || deleteMutation.isPending
+
+  const handleSave = async () => {
+    setError(null)
+    setNotice(null)
+    try {
+      const result = await saveMutation.mutateAsync({ ...scope, content: draft, note: note.trim() || undefined })
+      setNote('')
+      setMissingVariables(result.missingVariables)
+      setNotice(t('promptTemplatesPanel.saved', { version: result.activeVersion ?? 0 }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleActivate = async (activeVersion: number | null) => {
+    setError(null)
+    setNotice(null)
+    try {
+      await activateMutation.mutateAsync({ ...scope, activeVersion })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleDelete = async () => {
+    setConfirmDelete(false)
+    setError(null)
+    setNotice(null)
+    try {
+      await deleteMutation.mutateAsync(scope)
+      setDraft(detail.defaultContent)
+      setMissingVariables([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <div className="font-mono text-sm font-semibold text-[var(--glass-text-primary)]">{detail.promptId}</div>
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-[var(--glass-text-tertiary)]">{t('promptTemplatesPanel.variables')}</span>
+          {detail.variableKeys.map((key) => (
+            <code key={key} className="glass-chip glass-chip-neutral px-2 py-0.5 text-[11px]">{`{${key}}`}</code>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 xl:grid-cols-2">
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-[var(--glass-text-secondary)]">
+            {t('promptTemplatesPanel.defaultTemplate')}
+          </div>
+          <GlassTextarea value={detail.defaultContent} readOnly rows={18} className="font-mono text-xs" />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-[var(--glass-text-secondary)]">{t('promptTemplatesPanel.editor')}</span>
+            <GlassButton size="sm" variant="ghost" onClick={() => setDraft(detail.defaultContent)} disabled={busy}>
+              {t('promptTemplatesPanel.loadDefault')}
+            </GlassButton>
+          </div>
+          <GlassTextarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={18}
+            className="font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <GlassInput
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder={t('promptTemplatesPanel.notePlaceholder')}
+          maxLength={200}
+          className="flex-1"
+        />
+        <GlassButton variant="primary" onClick={() => void handleSave()} loading={saveMutation.isPending} disabled={busy || !draft.trim()}>
+          {t('promptTemplatesPanel.saveVersion')}
+        </GlassButton>
+      </div>
+
+      {notice && <p className="text-sm text-[var(--glass-tone-success-fg)]">{notice}</p>}
+      {missingVariables.length > 0 && (
+        <p className="text-sm text-[var(--glass-tone-warning-fg)]">
+          {t('promptTemplatesPanel.missingVariables', { keys: missingVariables.join(', ') })}
+        </p>
+      )}
+      {error && <p className="text-sm text-[var(--glass-tone-danger-fg)]">{error}</p>}
+
+      {/* 版本历史 */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-[var(--glass-text-primary)]">{t('promptTemplatesPanel.versions')}</span>
+          {detail.versions.length > 0 && (
+            <div className="flex gap-2">
+              {detail.activeVersion !== null && (
+                <GlassButton size="sm" variant="ghost" onClick={() => void handleActivate(null)} disabled={busy}>
+                  {t('promptTemplatesPanel.disable')}
+                </GlassButton>
+              )}
+              <GlassButton size="sm" variant="danger" onClick={() => setConfirmDelete(true)} disabled={busy}>
+                {t('promptTemplatesPanel.deleteOverride')}
+              </GlassButton>
+            </div>
+          )}
+        </div>
+        {detail.versions.length === 0 ? (
+          <p className="text-xs text-[var(--glass-text-tertiary)]">{t('promptTemplatesPanel.noVersions')}</p>
+        ) : (
+          <div className="space-y-1.5">
+            {detail.versions.map((item) => (
+              <div
+                key={item.version}
+                className="flex items-center justify-between gap-3 rounded-lg bg-[var(--glass-bg-muted)] px-3 py-2 text-sm"
+              >
+                <button
+                  type="button"
+                  onClick={() => setDraft(item.content)}
+                  className="min-w-0 flex-1 truncate text-left text-[var(--glass-text-secondary)] hover:text-[var(--glass-text-primary)]"
+                >
+                  <span className="font-semibold">v{item.version}</span>
+                  <span className="ml-2 text-xs text-[var(--glass-text-tertiary)]">{new Date(item.createdAt).toLocaleString()}</span>
+                  {item.note && <span className="ml-2 text-xs">{item.note}</span>}
+                </button>
+                {item.version === detail.activeVersion ? (
+                  <span className="glass-chip glass-chip-info px-2 py-0.5 text-[10px]">{t('promptTemplatesPanel.active')}</span>
+                ) : (
+                  <GlassButton size="sm" variant="ghost" onClick={() => void handleActivate(item.version)} disabled={busy}>
+                    {t('promptTemplatesPanel.activate')}
+                  </GlassButton>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        show={confirmDelete}
+        title={t('promptTemplatesPanel.deleteOverride')}
+        message={t('promptTemplatesPanel.deleteConfirm')}
+        onConfirm={() => void handleDelete()}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  )
+}
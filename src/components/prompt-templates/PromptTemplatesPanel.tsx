@@ -0,0 +1,121 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { AppIcon } from '@/components/ui/icons'
+import { GlassInput } from '@/components/ui/primitives'
+import { locales } from '@/i18n/routing'
+import { usePromptTemplateDetail, usePromptTemplates } from '@/lib/query/hooks'
+import PromptTemplateEditor from './PromptTemplateEditor'
+
+interface PromptTemplatesPanelProps {
+  // 为空表示用户级覆盖（个人中心），否则为项目级覆盖
+  projectId: string | null
+}
+
+export default function PromptTemplatesPanel({ projectId }: PromptTemplatesPanelProps) {
+  const t = useTranslations('profile')
+  const uiLocale = useLocale()
+  const [locale, setLocale] = useState<string>(uiLocale)
+  const [search, setSearch] = useState('')
+  const [selectedPromptId, setSelectedPromptId] = useState<string | null>(null)
+
+  const templatesQuery = usePromptTemplates(locale, projectId)
+  const detailQuery = usePromptTemplateDetail(selectedPromptId, locale, projectId)
+
+  const templates = useMemo(() => {
+    const keyword = search.trim().toLowerCase()
+    const items = templatesQuery.data || []
+    if (!keyword) return items
+    return items.filter((item) => item.promptId.toLowerCase().includes(keyword))
+  }, [templatesQuery.data, search])
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="border-b border-[var(--glass-stroke-base)] px-6 py-4">
+        <h2 className="text-lg font-semibold text-[var(--glass-text-primary)]">{t('promptTemplatesPanel.title')}</h2>
+        <p className="mt-1 text-sm text-[var(--glass-text-secondary)]">
+          {projectId ? t('promptTemplatesPanel.projectDescription') : t('promptTemplatesPanel.description')}
+        </p>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        {/* 模板列表 */}
+        <div className="flex w-72 shrink-0 flex-col gap-3 border-r border-[var(--glass-stroke-base)] p-4">
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-[var(--glass-text-tertiary)]">{t('promptTemplatesPanel.locale')}</label>
+            <select
+              value={locale}
+              onChange={(event) => setLocale(event.target.value)}
+              className="glass-input-base flex-1 px-2 py-1 text-sm"
+            >
+              {locales.map((item) => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+          </div>
+          <GlassInput
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder={t('promptTemplatesPanel.search')}
+          />
+          <div className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+            {templatesQuery.isLoading && (
+              <div className="flex justify-center py-6">
+                <AppIcon name="refresh" className="h-4 w-4 animate-spin text-[var(--glass-text-tertiary)]" />
+              </div>
+            )}
+            {templates.map((item) => {
+              const selected = item.promptId === selectedPromptId
+              return (
+                <button
+                  key={item.promptId}
+                  type="button"
+                  onClick={() => setSelectedPromptId(item.promptId)}
+                  className={`flex w-full items-center justify-between gap-2 rounded-lg px-3 py-2 text-left text-sm transition-colors ${selected
+                    ? 'glass-btn-base glass-btn-tone-info'
+                    : 'text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-muted)]'
+                    }`}
+                >
+                  <span className="truncate font-mono text-xs">{item.promptId}</span>
+                  {item.activeVersion !== null ? (
+                    <span className="glass-chip glass-chip-info shrink-0 px-2 py-0.5 text-[10px]">
+                      {t('promptTemplatesPanel.overridden', { version: item.activeVersion })}
+                    </span>
+                  ) : item.versionCount > 0 ? (
+                    <span className="glass-chip glass-chip-neutral shrink-0 px-2 py-0.5 text-[10px]">
+                      {t('promptTemplatesPanel.disabled')}
+                    </span>
+                  ) : (
+                    <span className="shrink-0 text-[10px] text-[var(--glass-text-tertiary)]">
+                      {t('promptTemplatesPanel.builtin')}
+                    </span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+
+        {/* 编辑区 */}
+        <div className="min-w-0 flex-1 overflow-y-auto p-6">
+          {!selectedPromptId ? (
+            <div className="flex h-full items-center justify-center text-sm text-[var(--glass-text-tertiary)]">
+              {t('promptTemplatesPanel.selectPrompt')}
+            </div>
+          ) : detailQuery.data ? (
+            <PromptTemplateEditor
+              key={`${detailQuery.data.promptId}:${detailQuery.data.locale}:${projectId || 'user'}`}
+              detail={detailQuery.data}
+              projectId={projectId}
+            />
+          ) : (
+            <div className="flex justify-center py-12">
+              <AppIcon name="refresh" className="h-5 w-5 animate-spin text-[var(--glass-text-tertiary)]" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
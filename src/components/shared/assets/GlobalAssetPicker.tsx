@@ -8,6 +8,7 @@ import { resolveTaskPresentationState } from '@/lib/task/presentation'
 import { MediaImageWithLoading } from '@/components/media/MediaImageWithLoading'
 import { AppIcon } from '@/components/ui/icons'
 import { apiFetch } from '@/lib/api-fetch'
+import SharedAssetLibraryModal from './SharedAssetLibraryModal'
 import type {
   AssetSummary,
   CharacterAssetSummary,
@@ -159,6 +160,7 @@ export default function GlobalAssetPicker({
     const [previewImage, setPreviewImage] = useState<string | null>(null)
     const [previewAudio, setPreviewAudio] = useState<string | null>(null)
     const [isPlayingAudio, setIsPlayingAudio] = useState(false)
+    const [showSharedLibrary, setShowSharedLibrary] = useState(false)
     const audioRef = useRef<HTMLAudioElement | null>(null)
 
     // 提取稳定的 refetch 引用，避免 useEffect 无限循环
@@ -278,9 +280,18 @@ export default function GlobalAssetPicker({
                     <h2 className="text-lg font-semibold text-[var(--glass-text-primary)]">
                         {type === 'character' ? t('selectCharacter') : type === 'location' ? t('selectLocation') : type === 'prop' ? t('selectProp') : t('selectVoice')}
                     </h2>
-                    <button onClick={onClose} className="glass-btn-base glass-btn-soft text-[var(--glass-text-tertiary)]">
-                        <XMarkIcon className="w-5 h-5" />
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setShowSharedLibrary(true)}
+                            className="glass-btn-base glass-btn-secondary px-3 py-1.5 rounded-lg text-xs flex items-center gap-1"
+                        >
+                            <AppIcon name="globe" className="w-3.5 h-3.5" />
+                            {t('fromSharedLibrary')}
+                        </button>
+                        <button onClick={onClose} className="glass-btn-base glass-btn-soft text-[var(--glass-text-tertiary)]">
+                            <XMarkIcon className="w-5 h-5" />
+                        </button>
+                    </div>
                 </div>
 
                 {/* 搜索栏 */}
@@ -544,6 +555,15 @@ export default function GlobalAssetPicker({
                 </div>
             </div>
 
+            {/* 共享资产库：复制到自己的资产库后即可在此选择 */}
+            {showSharedLibrary && (
+                <SharedAssetLibraryModal
+                    kind={type}
+                    onClose={() => setShowSharedLibrary(false)}
+                    onCopied={() => setShowSharedLibrary(false)}
+                />
+            )}
+
             {/* 图片放大预览弹窗 */}
             {
                 previewImage && (
@@ -4,13 +4,13 @@ import { logError as _ulogError } from '@/lib/logging/core'
 import { useState, useEffect } from 'react'
 import { useTranslations } from 'next-intl'
 import { AppIcon } from '@/components/ui/icons'
-import { ART_STYLES } from '@/lib/constants'
 import { shouldShowError } from '@/lib/error-utils'
 import TaskStatusInline from '@/components/task/TaskStatusInline'
 import { resolveTaskPresentationState } from '@/lib/task/presentation'
 import {
     useAiCreateProjectLocation,
     useAiDesignLocation,
+    useArtStyleOptions,
     useCreateAssetHubLocation,
     useGenerateLocationImage,
     useCreateProjectLocation,
@@ -64,6 +64,7 @@ export function LocationCreationModal({
     const [description, setDescription] = useState('')
     const [aiInstruction, setAiInstruction] = useState('')
     const [artStyle, setArtStyle] = useState('american-comic')
+    const artStyleOptions = useArtStyleOptions()
     const [availableSlots, setAvailableSlots] = useState<LocationAvailableSlot[]>([])
 
     const [isSubmitting, setIsSubmitting] = useState(false)
@@ -299,7 +300,7 @@ export function LocationCreationModal({
                                     {t('artStyle.title')}
                                 </label>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {ART_STYLES.map((style) => (
+                                    {artStyleOptions.map((style) => (
                                         <button
                                             key={style.value}
                                             type="button"
@@ -0,0 +1,219 @@
+'use client'
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import TaskStatusInline from '@/components/task/TaskStatusInline'
+import { resolveTaskPresentationState } from '@/lib/task/presentation'
+import { MediaImageWithLoading } from '@/components/media/MediaImageWithLoading'
+import { AppIcon } from '@/components/ui/icons'
+import {
+    useCopySharedAssets,
+    useSharedAssetFolder,
+    useSharedAssetFolders,
+    type AssetBundleImportSummary,
+} from '@/lib/query/hooks'
+
+type SharedAssetKind = 'character' | 'location' | 'prop' | 'voice'
+
+interface SharedAssetLibraryModalProps {
+    onClose: () => void
+    /** 只展示指定类型（资产选择器内打开时使用），不传则展示全部 */
+    kind?: SharedAssetKind
+    onCopied?: (result: AssetBundleImportSummary) => void
+}
+
+interface SharedItem {
+    id: string
+    kind: 'character' | 'location' | 'voice'
+    name: string
+    previewUrl: string | null
+    detail: string | null
+}
+
+const LOADING_STATE = resolveTaskPresentationState({
+    phase: 'processing',
+    intent: 'process',
+    resource: 'image',
+    hasOutput: false,
+})
+
+/**
+ * 共享资产库：浏览其他用户共享的文件夹，勾选资产复制到自己的资产库
+ */
+export default function SharedAssetLibraryModal({ onClose, kind, onCopied }: SharedAssetLibraryModalProps) {
+    const t = useTranslations('assetHub')
+    const foldersQuery = useSharedAssetFolders()
+    const [folderId, setFolderId] = useState<string | null>(null)
+    const contentQuery = useSharedAssetFolder(folderId)
+    const copyMutation = useCopySharedAssets()
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+
+    const folders = foldersQuery.data || []
+    const content = contentQuery.data
+    const items: SharedItem[] = content ? [
+        ...(!kind || kind === 'character' ? content.characters.map((character) => ({
+            id: character.id,
+            kind: 'character' as const,
+            name: character.name,
+            previewUrl: character.previewUrl,
+            detail: t('sharedLibrary.appearanceCount', { count: character.appearanceCount }),
+        })) : []),
+        ...content.locations
+            .filter((location) => !kind || kind === (location.assetKind === 'prop' ? 'prop' : 'location'))
+            .map((location) => ({
+                id: location.id,
+                kind: 'location' as const,
+                name: location.name,
+                previewUrl: location.previewUrl,
+                detail: location.summary,
+            })),
+        ...(!kind || kind === 'voice' ? content.voices.map((voice) => ({
+            id: voice.id,
+            kind: 'voice' as const,
+            name: voice.name,
+            previewUrl: null,
+            detail: voice.description,
+        })) : []),
+    ] : []
+
+    const selectFolder = (id: string) => {
+        setFolderId(id)
+        setSelected(new Set())
+    }
+
+    const toggleItem = (id: string) => {
+        setSelected((previous) => {
+            const next = new Set(previous)
+            if (next.has(id)) next.delete(id)
+            else next.add(id)
+            return next
+        })
+    }
+
+    const handleCopy = async () => {
+        if (!folderId || selected.size === 0) return
+        const pickIds = (itemKind: SharedItem['kind']) => items
+            .filter((item) => item.kind === itemKind && selected.has(item.id))
+            .map((item) => item.id)
+        try {
+            const result = await copyMutation.mutateAsync({
+                folderId,
+                characterIds: pickIds('character'),
+                locationIds: pickIds('location'),
+                voiceIds: pickIds('voice'),
+            })
+            setSelected(new Set())
+            onCopied?.(result)
+        } catch {
+            alert(t('sharedLibrary.copyFailed'))
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 glass-overlay flex items-center justify-center z-50">
+            <div className="glass-surface-modal w-[760px] max-h-[80vh] flex flex-col">
+                {/* 头部 */}
+                <div className="flex items-center justify-between px-6 py-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-[var(--glass-text-primary)]">{t('sharedLibrary.title')}</h2>
+                        <p className="text-xs text-[var(--glass-text-tertiary)] mt-1">{t('sharedLibrary.description')}</p>
+                    </div>
+                    <button onClick={onClose} className="glass-btn-base glass-btn-soft text-[var(--glass-text-tertiary)]">
+                        <AppIcon name="close" className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0 gap-4 px-6 pb-4">
+                    {/* 共享文件夹列表 */}
+                    <div className="w-48 flex-shrink-0 overflow-y-auto space-y-1">
+                        {foldersQuery.isLoading ? (
+                            <TaskStatusInline state={LOADING_STATE} />
+                        ) : folders.length === 0 ? (
+                            <p className="text-xs text-[var(--glass-text-tertiary)] text-center py-4">{t('sharedLibrary.empty')}</p>
+                        ) : folders.map((folder) => (
+                            <button
+                                key={folder.id}
+                                onClick={() => selectFolder(folder.id)}
+                                className={`w-full px-3 py-2 rounded-lg text-left transition-colors ${folderId === folder.id
+                                    ? 'bg-[var(--glass-tone-info-bg)] text-[var(--glass-tone-info-fg)]'
+                                    : 'text-[var(--glass-text-secondary)] hover:bg-[var(--glass-bg-muted)]'
+                                    }`}
+                            >
+                                <p className="text-sm truncate">{folder.name}</p>
+                                <p className="text-xs text-[var(--glass-text-tertiary)] truncate">
+                                    {t('sharedLibrary.owner', { name: folder.ownerName })}
+                                </p>
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* 文件夹内容 */}
+                    <div className="flex-1 overflow-y-auto">
+                        {!folderId ? (
+                            <p className="text-sm text-[var(--glass-text-tertiary)] text-center py-16">{t('sharedLibrary.selectFolder')}</p>
+                        ) : contentQuery.isLoading ? (
+                            <div className="flex items-center justify-center h-40">
+                                <TaskStatusInline state={LOADING_STATE} />
+                            </div>
+                        ) : items.length === 0 ? (
+                            <p className="text-sm text-[var(--glass-text-tertiary)] text-center py-16">{t('sharedLibrary.folderEmpty')}</p>
+                        ) : (
+                            <div className="grid grid-cols-3 gap-3">
+                                {items.map((item) => {
+                                    const isSelected = selected.has(item.id)
+                                    return (
+                                        <div
+                                            key={`${item.kind}-${item.id}`}
+                                            onClick={() => toggleItem(item.id)}
+                                            className={`relative cursor-pointer rounded-xl border-2 p-2 transition-all hover:shadow-md ${isSelected
+                                                ? 'border-[var(--glass-stroke-focus)] bg-[var(--glass-tone-info-bg)]'
+                                                : 'border-[var(--glass-stroke-base)] hover:border-[var(--glass-stroke-focus)]'
+                                                }`}
+                                        >
+                                            {isSelected && (
+                                                <AppIcon name="badgeCheck" className="absolute -top-2 -right-2 w-6 h-6 text-[var(--glass-tone-info-fg)] bg-[var(--glass-bg-surface)] rounded-full" />
+                                            )}
+                                            <div className="aspect-video rounded-lg overflow-hidden bg-[var(--glass-bg-muted)] mb-2">
+                                                {item.previewUrl ? (
+                                                    <MediaImageWithLoading
+                                                        src={item.previewUrl}
+                                                        alt={item.name}
+                                                        containerClassName="w-full h-full"
+                                                        className="w-full h-full object-contain"
+                                                    />
+                                                ) : (
+                                                    <div className="w-full h-full flex items-center justify-center text-[var(--glass-text-tertiary)]">
+                                                        <AppIcon name={item.kind === 'voice' ? 'mic' : 'image'} className="w-10 h-10" />
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <p className="font-medium text-sm text-[var(--glass-text-primary)] truncate">{item.name}</p>
+                                            {item.detail && (
+                                                <p className="text-xs text-[var(--glass-text-secondary)] truncate mt-0.5">{item.detail}</p>
+                                            )}
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* 底部按钮 */}
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-[var(--glass-stroke-base)] bg-[var(--glass-bg-surface-strong)]">
+                    <button onClick={onClose} className="glass-btn-base glass-btn-secondary px-4 py-2 text-sm">
+                        {t('cancel')}
+                    </button>
+                    <button
+                        onClick={handleCopy}
+                        disabled={selected.size === 0 || copyMutation.isPending}
+                        className="glass-btn-base glass-btn-primary px-4 py-2 text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {copyMutation.isPending
+                            ? t('sharedLibrary.copying')
+                            : t('sharedLibrary.copySelected', { count: selected.size })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -2,7 +2,7 @@
 
 import type { DragEvent, RefObject } from 'react'
 import { useTranslations } from 'next-intl'
-import { ART_STYLES } from '@/lib/constants'
+import { useArtStyleOptions } from '@/lib/query/hooks'
 import CharacterCreationPreview from './CharacterCreationPreview'
 import { AppIcon } from '@/components/ui/icons'
 import { SegmentedControl } from '@/components/ui/SegmentedControl'
@@ -89,6 +89,7 @@ export default function CharacterCreationForm({
   isExtracting,
 }: CharacterCreationFormProps) {
   const t = useTranslations('assetModal')
+  const artStyleOptions = useArtStyleOptions()
 
   return (
     <div className="space-y-5">
@@ -175,7 +176,7 @@ export default function CharacterCreationForm({
             {t('artStyle.title')}
           </label>
           <div className="grid grid-cols-2 gap-2">
-            {ART_STYLES.map((style) => (
+            {artStyleOptions.map((style) => (
               <button
                 key={style.value}
                 type="button"
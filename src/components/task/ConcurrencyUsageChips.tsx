@@ -0,0 +1,34 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { GlassChip } from '@/components/ui/primitives'
+import { useUserConcurrencyUsage, type UserConcurrencyUsage } from '@/lib/query/hooks/useTaskStatus'
+
+type ConcurrencyUsageChipsProps = {
+  scopes: Array<keyof UserConcurrencyUsage>
+}
+
+/**
+ * 当前用户并发槽位占用（已用 / 上限），槽位占满时新任务会排队等待
+ */
+export default function ConcurrencyUsageChips({ scopes }: ConcurrencyUsageChipsProps) {
+  const t = useTranslations('progress')
+  const { data: usage } = useUserConcurrencyUsage()
+  if (!usage) return null
+
+  return (
+    <>
+      {scopes.map((scope) => {
+        const slot = usage[scope]
+        const saturated = slot.active >= slot.limit
+        return (
+          <GlassChip key={scope} tone={saturated ? 'warning' : 'neutral'}>
+            <span title={saturated ? t('concurrency.saturated') : undefined}>
+              {t(`concurrency.${scope}`, { active: slot.active, limit: slot.limit })}
+            </span>
+          </GlassChip>
+        )
+      })}
+    </>
+  )
+}
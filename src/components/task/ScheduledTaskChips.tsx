@@ -0,0 +1,69 @@
+'use client'
+
+import { useLocale, useTranslations } from 'next-intl'
+import { GlassChip } from '@/components/ui/primitives'
+import { AppIcon } from '@/components/ui/icons'
+import { useTaskList } from '@/lib/query/hooks/useTaskStatus'
+import { useCancelTask, useRunScheduledTaskNow } from '@/lib/query/mutations/task-mutations'
+import { getTaskTypeLabel } from '@/lib/task/progress-message'
+
+type ScheduledTaskChipsProps = {
+  projectId: string
+}
+
+const SCHEDULED_TASK_LIMIT = 50
+
+/**
+ * 等待 runAfter 的定时任务：显示 scheduled 标记与预计执行时间，可立即执行或取消
+ */
+export default function ScheduledTaskChips({ projectId }: ScheduledTaskChipsProps) {
+  const t = useTranslations('progress')
+  const locale = useLocale()
+  const { data: tasks } = useTaskList({
+    projectId,
+    statuses: ['queued'],
+    limit: SCHEDULED_TASK_LIMIT,
+  })
+  const runNowMutation = useRunScheduledTaskNow(projectId)
+  const cancelMutation = useCancelTask(projectId)
+
+  const scheduledTasks = (tasks || []).filter((task) => task.displayStatus === 'scheduled')
+  if (scheduledTasks.length === 0) return null
+
+  const timeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'short', timeStyle: 'short' })
+  const busy = runNowMutation.isPending || cancelMutation.isPending
+
+  return (
+    <>
+      {scheduledTasks.map((task) => (
+        <GlassChip key={task.id} tone="info" icon={<AppIcon name="clock" className="h-3.5 w-3.5" />}>
+          <span className="inline-flex items-center gap-1.5">
+            <span className="font-medium">{t('scheduled.badge')}</span>
+            <span>{t(getTaskTypeLabel(task.type).replace(/^progress\./, ''))}</span>
+            {task.runAfter ? (
+              <span className="text-[var(--glass-text-tertiary)]">
+                {t('scheduled.runsAt', { time: timeFormat.format(new Date(task.runAfter)) })}
+              </span>
+            ) : null}
+            <button
+              type="button"
+              className="glass-btn-base glass-btn-ghost h-6 px-2 text-xs"
+              disabled={busy}
+              onClick={() => runNowMutation.mutate(task.id)}
+            >
+              {t('scheduled.runNow')}
+            </button>
+            <button
+              type="button"
+              className="glass-btn-base glass-btn-ghost h-6 px-2 text-xs text-[var(--glass-tone-danger-fg)]"
+              disabled={busy}
+              onClick={() => cancelMutation.mutate(task.id)}
+            >
+              {t('scheduled.cancel')}
+            </button>
+          </span>
+        </GlassChip>
+      ))}
+    </>
+  )
+}
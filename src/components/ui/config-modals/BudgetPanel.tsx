@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+    useProjectBudget,
+    useUpdateProjectBudget,
+    type ProjectBudgetStatus,
+} from '@/lib/query/hooks'
+
+type BudgetScope = ProjectBudgetStatus['scope']
+
+interface BudgetRowProps {
+    scope: BudgetScope
+    status: ProjectBudgetStatus | null
+    isSaving: boolean
+    onSave: (input: { monthlyLimit: number | null; warnPercent?: number; hardStopPercent?: number }) => Promise<void>
+}
+
+function parsePercentInput(value: string): number | undefined {
+    const parsed = Number.parseInt(value, 10)
+    return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function BudgetRow({ scope, status, isSaving, onSave }: BudgetRowProps) {
+    const t = useTranslations('configModal')
+    const [limitInput, setLimitInput] = useState(status ? String(status.monthlyLimit) : '')
+    const [warnInput, setWarnInput] = useState(String(status?.warnPercent ?? 80))
+    const [hardStopInput, setHardStopInput] = useState(String(status?.hardStopPercent ?? 100))
+
+    const percent = status ? Math.min(status.percent, 100) : 0
+    const barTone = !status
+        ? 'bg-[var(--glass-stroke-base)]'
+        : status.percent >= 100
+            ? 'bg-[var(--glass-tone-danger-fg)]'
+            : status.percent >= status.warnPercent
+                ? 'bg-[var(--glass-tone-warning-fg)]'
+                : 'bg-[var(--glass-accent-from)]'
+
+    const handleSave = () => {
+        const monthlyLimit = Number.parseFloat(limitInput)
+        if (!Number.isFinite(monthlyLimit) || monthlyLimit <= 0) return
+        void onSave({
+            monthlyLimit,
+            warnPercent: parsePercentInput(warnInput),
+            hardStopPercent: parsePercentInput(hardStopInput),
+        })
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="font-medium text-[var(--glass-text-secondary)]">
+                    {scope === 'project' ? t('budgetProject') : t('budgetUser')}
+                </span>
+                <span className="text-xs text-[var(--glass-text-tertiary)]">
+                    {status
+                        ? t('budgetSpent', {
+                            spent: status.spent.toFixed(2),
+                            limit: status.monthlyLimit.toFixed(2),
+                            percent: status.percent,
+                        })
+                        : t('budgetNotSet')}
+                </span>
+            </div>
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-[var(--glass-bg-muted)]">
+                <div className={`h-full rounded-full ${barTone}`} style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+                <label className="flex-1 min-w-[120px] space-y-1">
+                    <span className="block text-xs text-[var(--glass-text-tertiary)]">{t('budgetLimit')}</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={limitInput}
+                        onChange={(event) => setLimitInput(event.target.value)}
+                        className="glass-input-base w-full rounded-lg px-3 py-1.5 text-sm"
+                    />
+                </label>
+                <label className="w-24 space-y-1">
+                    <span className="block text-xs text-[var(--glass-text-tertiary)]">{t('budgetWarnPercent')}</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={warnInput}
+                        onChange={(event) => setWarnInput(event.target.value)}
+                        className="glass-input-base w-full rounded-lg px-3 py-1.5 text-sm"
+                    />
+                </label>
+                <label className="w-24 space-y-1">
+                    <span className="block text-xs text-[var(--glass-text-tertiary)]">{t('budgetHardStopPercent')}</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={hardStopInput}
+                        onChange={(event) => setHardStopInput(event.target.value)}
+                        className="glass-input-base w-full rounded-lg px-3 py-1.5 text-sm"
+                    />
+                </label>
+                <button
+                    type="button"
+                    disabled={isSaving}
+                    onClick={handleSave}
+                    className="glass-btn-base glass-btn-primary rounded-lg px-3 py-1.5 text-sm"
+                >
+                    {t('budgetSave')}
+                </button>
+                {status && (
+                    <button
+                        type="button"
+                        disabled={isSaving}
+                        onClick={() => {
+                            setLimitInput('')
+                            void onSave({ monthlyLimit: null })
+                        }}
+                        className="glass-btn-base glass-btn-secondary rounded-lg px-3 py-1.5 text-sm"
+                    >
+                        {t('budgetClear')}
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
+
+interface BudgetPanelProps {
+    projectId: string
+    onSaved?: () => void
+}
+
+/**
+ * 月度预算：项目预算与账户预算（全部项目合计），越过硬停线后拒绝新任务
+ */
+export function BudgetPanel({ projectId, onSaved }: BudgetPanelProps) {
+    const t = useTranslations('configModal')
+    const budgetQuery = useProjectBudget(projectId)
+    const updateBudget = useUpdateProjectBudget(projectId)
+    const [error, setError] = useState('')
+
+    const budgets = budgetQuery.data?.budgets || []
+    const findStatus = (scope: BudgetScope) => budgets.find((budget) => budget.scope === scope) || null
+
+    const handleSave = async (
+        scope: BudgetScope,
+        input: { monthlyLimit: number | null; warnPercent?: number; hardStopPercent?: number },
+    ) => {
+        setError('')
+        try {
+            await updateBudget.mutateAsync({ scope, ...input })
+            onSaved?.()
+        } catch (caught) {
+            setError(caught instanceof Error ? caught.message : String(caught))
+        }
+    }
+
+    return (
+        <div className="glass-surface-soft p-5 sm:p-6 space-y-4">
+            <div className="space-y-1">
+                <span className="block text-sm font-medium text-[var(--glass-text-secondary)]">{t('budgetTitle')}</span>
+                <span className="block text-xs text-[var(--glass-text-tertiary)]">{t('budgetHint')}</span>
+            </div>
+            {budgetQuery.isLoading ? null : (
+                <>
+                    {(['project', 'user'] as const).map((scope) => (
+                        <BudgetRow
+                            key={`${scope}:${findStatus(scope)?.monthlyLimit ?? 'none'}`}
+                            scope={scope}
+                            status={findStatus(scope)}
+                            isSaving={updateBudget.isPending}
+                            onSave={(input) => handleSave(scope, input)}
+                        />
+                    ))}
+                </>
+            )}
+            {error && <p className="text-xs text-[var(--glass-tone-danger-fg)]">{error}</p>}
+        </div>
+    )
+}
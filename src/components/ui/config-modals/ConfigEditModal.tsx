@@ -3,9 +3,9 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useTranslations } from 'next-intl'
 import {
-    ART_STYLES,
     VIDEO_RATIOS,
 } from '@/lib/constants'
+import { useArtStyleOptions } from '@/lib/query/hooks'
 import type {
     CapabilitySelections,
     CapabilityValue,
@@ -14,6 +14,7 @@ import type {
 import { filterNormalVideoModelOptions } from '@/lib/model-capabilities/video-model-options'
 import { RatioSelector, StyleSelector } from './config-modal-selectors'
 import { ModelCapabilityDropdown } from './ModelCapabilityDropdown'
+import { BudgetPanel } from './BudgetPanel'
 import { AppIcon } from '@/components/ui/icons'
 
 interface ModelOption {
@@ -40,6 +41,7 @@ interface CapabilityFieldDefinition {
 interface SettingsModalProps {
     isOpen: boolean
     onClose: () => void
+    projectId?: string
     availableModels?: Partial<UserModels>
     modelsLoaded?: boolean
     artStyle?: string
@@ -54,6 +56,7 @@ interface SettingsModalProps {
     videoRatio?: string
     capabilityOverrides?: CapabilitySelections
     ttsRate?: string
+    llmCacheEnabled?: boolean
     onArtStyleChange?: (value: string) => void
     onAnalysisModelChange?: (value: string) => void
     onCharacterModelChange?: (value: string) => void
@@ -66,6 +69,7 @@ interface SettingsModalProps {
     onVideoRatioChange?: (value: string) => void
     onCapabilityOverridesChange?: (value: CapabilitySelections) => void
     onTTSRateChange?: (value: string) => void
+    onLlmCacheEnabledChange?: (value: boolean) => void
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -125,6 +129,7 @@ function readCapabilitySelectionForModel(
 export function SettingsModal({
     isOpen,
     onClose,
+    projectId,
     availableModels,
     modelsLoaded = false,
     artStyle = 'american-comic',
@@ -138,6 +143,7 @@ export function SettingsModal({
     videoRatio = '9:16',
     capabilityOverrides,
     ttsRate,
+    llmCacheEnabled = false,
     onArtStyleChange,
     onAnalysisModelChange,
     onCharacterModelChange,
@@ -149,8 +155,10 @@ export function SettingsModal({
     onVideoRatioChange,
     onCapabilityOverridesChange,
     onTTSRateChange,
+    onLlmCacheEnabledChange,
 }: SettingsModalProps) {
     const t = useTranslations('configModal')
+    const artStyleOptions = useArtStyleOptions()
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle')
     const userModels = useMemo<UserModels>(() => ({
         llm: Array.isArray(availableModels?.llm) ? availableModels.llm : [],
@@ -373,7 +381,7 @@ export function SettingsModal({
                                 <StyleSelector
                                     value={artStyle}
                                     onChange={(value) => handleChange(onArtStyleChange)(value)}
-                                    options={ART_STYLES}
+                                    options={artStyleOptions}
                                 />
                             </div>
                             <div className="space-y-2">
@@ -502,7 +510,25 @@ export function SettingsModal({
                         </div>
                     </div>
 
+                    <div className="glass-surface-soft p-5 sm:p-6">
+                        <label className="flex cursor-pointer items-start justify-between gap-4">
+                            <span className="space-y-1">
+                                <span className="block text-sm font-medium text-[var(--glass-text-secondary)]">{t('llmCache')}</span>
+                                <span className="block text-xs text-[var(--glass-text-tertiary)]">{t('llmCacheHint')}</span>
+                            </span>
+                            <input
+                                type="checkbox"
+                                checked={llmCacheEnabled}
+                                onChange={(event) => {
+                                    onLlmCacheEnabledChange?.(event.target.checked)
+                                    showSaved()
+                                }}
+                                className="mt-1 h-4 w-4 accent-[var(--glass-accent-from)]"
+                            />
+                        </label>
+                    </div>
 
+                    {projectId && <BudgetPanel projectId={projectId} onSaved={showSaved} />}
                 </div>
             </div>
         </div>
@@ -2,6 +2,7 @@
 
 import { useTranslations } from 'next-intl'
 import { GlassButton, GlassChip, GlassSurface } from '@/components/ui/primitives'
+import ConcurrencyUsageChips from '@/components/task/ConcurrencyUsageChips'
 import type { UiPatternMode } from './types'
 
 export interface StoryboardHeaderV2Props {
@@ -47,7 +48,7 @@ export default function StoryboardHeaderV2({
               {t('header.generatingStatus', { count: runningCount })}
             </GlassChip>
           ) : null}
-          <GlassChip tone="neutral">{t('header.concurrencyLimit', { count: 10 })}</GlassChip>
+          <ConcurrencyUsageChips scopes={['image']} />
         </div>
       </div>
 
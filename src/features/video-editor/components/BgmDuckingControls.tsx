@@ -0,0 +1,64 @@
+'use client'
+
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { BgmClip, BgmDucking } from '../types/editor.types'
+import { DEFAULT_BGM_DUCKING } from '../utils/ducking'
+
+interface BgmDuckingControlsProps {
+    bgmTrack: BgmClip[]
+    onChange: (bgmId: string, ducking: BgmDucking) => void
+}
+
+/**
+ * BGM 对白闪避设置 - 每段 BGM 独立开关与闪避音量
+ */
+export const BgmDuckingControls: React.FC<BgmDuckingControlsProps> = ({ bgmTrack, onChange }) => {
+    const t = useTranslations('video')
+    if (bgmTrack.length === 0) return null
+
+    return (
+        <div style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            padding: '12px',
+            background: 'var(--glass-bg-surface)',
+            border: '1px solid var(--glass-stroke-base)',
+            borderRadius: '8px'
+        }}>
+            <div style={{ fontSize: '12px', color: 'var(--glass-text-secondary)' }}>
+                {t('editor.ducking.title')}
+            </div>
+            {bgmTrack.map((bgm, index) => {
+                const ducking = bgm.ducking ?? { ...DEFAULT_BGM_DUCKING, enabled: false }
+                return (
+                    <div key={bgm.id} style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                            <input
+                                type="checkbox"
+                                checked={ducking.enabled}
+                                onChange={(event) => onChange(bgm.id, { ...ducking, enabled: event.target.checked })}
+                            />
+                            {t('editor.ducking.enable', { index: index + 1 })}
+                        </label>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', color: 'var(--glass-text-tertiary)' }}>
+                            {t('editor.ducking.level')}
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(ducking.level * 100)}
+                                disabled={!ducking.enabled}
+                                onChange={(event) => onChange(bgm.id, { ...ducking, level: Number(event.target.value) / 100 })}
+                            />
+                            {Math.round(ducking.level * 100)}%
+                        </label>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
+
+export default BgmDuckingControls
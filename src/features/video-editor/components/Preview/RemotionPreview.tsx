@@ -6,7 +6,7 @@ import { Player, PlayerRef } from '@remotion/player'
 import { AppIcon } from '@/components/ui/icons'
 import { VideoComposition } from '../../remotion/VideoComposition'
 import { VideoEditorProject } from '../../types/editor.types'
-import { calculateTimelineDuration } from '../../utils/time-utils'
+import { calculateProjectDuration } from '../../utils/time-utils'
 
 interface RemotionPreviewProps {
     project: VideoEditorProject
@@ -32,8 +32,8 @@ export const RemotionPreview: React.FC<RemotionPreviewProps> = ({
     const lastSyncedFrame = useRef<number>(0)
 
     const totalDuration = useMemo(
-        () => calculateTimelineDuration(project.timeline),
-        [project.timeline]
+        () => calculateProjectDuration(project),
+        [project]
     )
 
     // 当 currentFrame 从外部改变时，同步到 Player
@@ -100,7 +100,7 @@ export const RemotionPreview: React.FC<RemotionPreviewProps> = ({
     }, [onPlayingChange])
 
     // 如果没有片段，显示占位
-    if (project.timeline.length === 0) {
+    if (totalDuration === 0) {
         return (
             <div style={{
                 width: '100%',
@@ -139,6 +139,7 @@ export const RemotionPreview: React.FC<RemotionPreviewProps> = ({
                 inputProps={{
                     clips: project.timeline,
                     bgmTrack: project.bgmTrack,
+                    tracks: project.tracks || [],
                     config: project.config
                 }}
                 durationInFrames={Math.max(1, totalDuration)}
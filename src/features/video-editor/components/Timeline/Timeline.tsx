@@ -18,17 +18,21 @@ import {
     useSortable
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { VideoClip, TimelineState, EditorConfig } from '../../types/editor.types'
-import { framesToTime } from '../../utils/time-utils'
+import { VideoClip, TimelineState, EditorConfig, EditorTrack, TrackItem } from '../../types/editor.types'
+import { calculateTracksDuration, framesToTime } from '../../utils/time-utils'
+import { sortTracksByZIndex, TrackInsertKind } from '../../utils/track-utils'
+import { TrackInsertToolbar } from './TrackInsertToolbar'
 
 interface TimelineProps {
     clips: VideoClip[]
+    tracks: EditorTrack[]
     timelineState: TimelineState
     config: EditorConfig
     onReorder: (fromIndex: number, toIndex: number) => void
     onSelectClip: (clipId: string | null) => void
     onZoomChange: (zoom: number) => void
     onSeek?: (frame: number) => void
+    onInsertTrackItem?: (kind: TrackInsertKind) => void
 }
 
 /**
@@ -37,16 +41,23 @@ interface TimelineProps {
  */
 export const Timeline: React.FC<TimelineProps> = ({
     clips,
+    tracks,
     timelineState,
     config,
     onReorder,
     onSelectClip,
     onZoomChange,
-    onSeek
+    onSeek,
+    onInsertTrackItem
 }) => {
     const t = useTranslations('video')
     // 计算总时长和播放头位置
-    const totalDuration = clips.reduce((sum, clip) => sum + clip.durationInFrames, 0)
+    const totalDuration = Math.max(
+        clips.reduce((sum, clip) => sum + clip.durationInFrames, 0),
+        calculateTracksDuration(tracks)
+    )
+    // 附加轨道从上到下按层级由高到低排列
+    const overlayTracks = sortTracksByZIndex(tracks).reverse()
     const playheadPosition = totalDuration > 0 ? (timelineState.currentFrame / totalDuration) * 100 : 0
     const sensors = useSensors(
         useSensor(PointerSensor, {
@@ -80,7 +91,7 @@ export const Timeline: React.FC<TimelineProps> = ({
             border: '1px solid var(--glass-stroke-base)',
             height: '100%'
         }}>
-            {/* 缩放控制 */}
+            {/* 缩放控制 + 插入附加轨道元素 */}
             <div style={{
                 display: 'flex',
                 alignItems: 'center',
@@ -99,6 +110,7 @@ export const Timeline: React.FC<TimelineProps> = ({
                 <span style={{ fontSize: '12px', color: 'var(--glass-text-tertiary)' }}>
                     {Math.round(timelineState.zoom * 100)}%
                 </span>
+                {onInsertTrackItem && <TrackInsertToolbar onInsert={onInsertTrackItem} />}
             </div>
 
             {/* 进度条 + 播放头 */}
@@ -158,6 +170,43 @@ export const Timeline: React.FC<TimelineProps> = ({
                 </div>
             </div>
 
+            {/* 附加轨道 (叠加视频 / 图片 / 文字 / 音效) */}
+            {overlayTracks.map((track) => (
+                <div
+                    key={track.id}
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        height: '32px',
+                        background: 'var(--glass-bg-surface-strong)',
+                        border: '1px solid var(--glass-stroke-base)',
+                        borderRadius: '6px',
+                        padding: '0 12px',
+                        opacity: track.hidden || track.muted ? 0.5 : 1
+                    }}
+                >
+                    <span style={{
+                        fontSize: '12px',
+                        color: 'var(--glass-text-secondary)',
+                        width: '70px',
+                        flexShrink: 0
+                    }}>
+                        {t(`editor.timeline.tracks.${track.kind}`, { index: track.index })}
+                    </span>
+                    <div style={{ position: 'relative', flex: 1, height: '24px', overflowX: 'hidden' }}>
+                        {track.items.map((item) => (
+                            <TrackItemBlock
+                                key={item.id}
+                                item={item}
+                                zoom={timelineState.zoom}
+                                isSelected={timelineState.selectedClipId === item.id}
+                                onClick={() => onSelectClip(item.id)}
+                            />
+                        ))}
+                    </div>
+                </div>
+            ))}
+
             {/* 视频轨道 */}
             <div style={{
                 display: 'flex',
@@ -278,6 +327,56 @@ export const Timeline: React.FC<TimelineProps> = ({
     )
 }
 
+/**
+ * 附加轨道元素 (绝对定位，宽度与主轨同一比例尺)
+ */
+interface TrackItemBlockProps {
+    item: TrackItem
+    zoom: number
+    isSelected: boolean
+    onClick: () => void
+}
+
+const TRACK_ITEM_TONES: Record<TrackItem['type'], { bg: string; fg: string }> = {
+    video: { bg: 'var(--glass-tone-info-bg)', fg: 'var(--glass-tone-info-fg)' },
+    image: { bg: 'var(--glass-tone-warning-bg)', fg: 'var(--glass-tone-warning-fg)' },
+    text: { bg: 'var(--glass-bg-muted)', fg: 'var(--glass-text-primary)' },
+    audio: { bg: 'var(--glass-tone-success-bg)', fg: 'var(--glass-tone-success-fg)' }
+}
+
+const TrackItemBlock: React.FC<TrackItemBlockProps> = ({ item, zoom, isSelected, onClick }) => {
+    const tone = TRACK_ITEM_TONES[item.type]
+    const label = item.type === 'text' ? item.text : item.id
+
+    return (
+        <div
+            onClick={onClick}
+            title={label}
+            style={{
+                position: 'absolute',
+                left: `${item.startFrame * zoom * 2}px`,
+                width: `${item.durationInFrames * zoom * 2}px`,
+                top: 0,
+                height: '100%',
+                background: tone.bg,
+                color: tone.fg,
+                borderRadius: '4px',
+                border: isSelected ? '2px solid var(--glass-stroke-focus)' : '1px solid var(--glass-stroke-base)',
+                fontSize: '10px',
+                padding: '0 6px',
+                display: 'flex',
+                alignItems: 'center',
+                overflow: 'hidden',
+                whiteSpace: 'nowrap',
+                textOverflow: 'ellipsis',
+                cursor: 'pointer'
+            }}
+        >
+            {label}
+        </div>
+    )
+}
+
 /**
  * 可拖拽的片段组件
  */
@@ -0,0 +1,34 @@
+'use client'
+
+import React from 'react'
+import { useTranslations } from 'next-intl'
+import { TrackInsertKind } from '../../utils/track-utils'
+
+interface TrackInsertToolbarProps {
+    onInsert: (kind: TrackInsertKind) => void
+}
+
+const INSERT_KINDS: TrackInsertKind[] = ['overlay', 'text', 'sfx']
+
+/**
+ * 附加轨道插入按钮 (叠加视频 / 文字 / 音效)，插入位置为当前播放头
+ */
+export const TrackInsertToolbar: React.FC<TrackInsertToolbarProps> = ({ onInsert }) => {
+    const t = useTranslations('video')
+
+    return (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 'auto' }}>
+            {INSERT_KINDS.map((kind) => (
+                <button
+                    key={kind}
+                    onClick={() => onInsert(kind)}
+                    className="glass-btn-base glass-btn-secondary px-2 py-1 text-xs"
+                >
+                    {t(`editor.timeline.insert.${kind}`)}
+                </button>
+            ))}
+        </div>
+    )
+}
+
+export default TrackInsertToolbar
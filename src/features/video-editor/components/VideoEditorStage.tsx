@@ -2,15 +2,17 @@
 import { logError as _ulogError } from '@/lib/logging/core'
 import { useTranslations } from 'next-intl'
 
-import React from 'react'
+import React, { useState } from 'react'
 import { AppIcon } from '@/components/ui/icons'
 import { useEditorState } from '../hooks/useEditorState'
 import { useEditorActions } from '../hooks/useEditorActions'
 import { VideoEditorProject } from '../types/editor.types'
-import { calculateTimelineDuration, framesToTime } from '../utils/time-utils'
+import { calculateProjectDuration, framesToTime } from '../utils/time-utils'
+import { createInsertTrackItem, findInsertTrack, getInsertTrackKind, TrackInsertKind } from '../utils/track-utils'
 import { RemotionPreview } from './Preview'
 import { Timeline } from './Timeline'
 import { TransitionPicker, TransitionType } from './TransitionPicker'
+import { BgmDuckingControls } from './BgmDuckingControls'
 
 interface VideoEditorStageProps {
     projectId: string
@@ -48,17 +50,22 @@ export function VideoEditorStage({
         removeClip,
         updateClip,
         reorderClips,
+        updateBgm,
+        addTrack,
+        addTrackItem,
         play,
         pause,
         seek,
         selectClip,
         setZoom,
+        loadProject,
         markSaved
     } = useEditorState({ episodeId, initialProject })
 
-    const { saveProject, startRender } = useEditorActions({ projectId, episodeId })
+    const { saveProject, autoAssemble, startRender } = useEditorActions({ projectId, episodeId })
+    const [burnSubtitles, setBurnSubtitles] = useState(true)
 
-    const totalDuration = calculateTimelineDuration(project.timeline)
+    const totalDuration = calculateProjectDuration(project)
     const totalTime = framesToTime(totalDuration, project.config.fps)
     const currentTime = framesToTime(timelineState.currentFrame, project.config.fps)
 
@@ -73,9 +80,25 @@ export function VideoEditorStage({
         }
     }
 
+    const handleAutoAssemble = async () => {
+        if (!confirm(t('editor.alert.assembleConfirm'))) return
+        try {
+            const { projectData, summary } = await autoAssemble({ overwrite: true })
+            loadProject(projectData)
+            selectClip(null)
+            seek(0)
+            alert(t('editor.alert.assembleSuccess', { count: summary.clipCount }))
+        } catch (error) {
+            _ulogError('Auto assemble failed:', error)
+            alert(t('editor.alert.assembleFailed'))
+        }
+    }
+
     const handleExport = async () => {
         try {
-            await startRender(project.id)
+            await saveProject(project)
+            markSaved()
+            await startRender({ burnSubtitles })
             alert(t('editor.alert.exportStarted'))
         } catch (error) {
             _ulogError('Export failed:', error)
@@ -83,6 +106,23 @@ export function VideoEditorStage({
         }
     }
 
+    const handleInsertTrackItem = (kind: TrackInsertKind) => {
+        let src: string | undefined
+        if (kind !== 'text') {
+            src = window.prompt(t(`editor.timeline.insert.${kind}Prompt`))?.trim()
+            if (!src) return
+        }
+        const item = createInsertTrackItem(kind, {
+            startFrame: timelineState.currentFrame,
+            fps: project.config.fps,
+            src,
+            text: t('editor.timeline.insert.defaultText')
+        })
+        const trackKind = getInsertTrackKind(kind)
+        const trackId = findInsertTrack(project.tracks || [], trackKind, item)?.id || addTrack(trackKind)
+        selectClip(addTrackItem(trackId, item))
+    }
+
     const selectedClip = project.timeline.find(c => c.id === timelineState.selectedClipId)
 
     return (
@@ -115,6 +155,13 @@ export function VideoEditorStage({
                     {currentTime} / {totalTime}
                 </span>
 
+                <button
+                    onClick={handleAutoAssemble}
+                    className="glass-btn-base glass-btn-secondary px-4 py-2"
+                >
+                    {t('editor.toolbar.autoAssemble')}
+                </button>
+
                 <button
                     onClick={handleSave}
                     className={`glass-btn-base px-4 py-2 ${isDirty ? 'glass-btn-primary text-white' : 'glass-btn-secondary'}`}
@@ -122,6 +169,15 @@ export function VideoEditorStage({
                     {isDirty ? t('editor.toolbar.saveDirty') : t('editor.toolbar.saved')}
                 </button>
 
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: 'var(--glass-text-secondary)' }}>
+                    <input
+                        type="checkbox"
+                        checked={burnSubtitles}
+                        onChange={(event) => setBurnSubtitles(event.target.checked)}
+                    />
+                    {t('editor.toolbar.burnSubtitles')}
+                </label>
+
                 <button
                     onClick={handleExport}
                     className="glass-btn-base glass-btn-tone-success px-4 py-2"
@@ -266,9 +322,15 @@ export function VideoEditorStage({
                             </button>
                         </div>
                     ) : (
-                        <p style={{ fontSize: '12px', color: 'var(--glass-text-tertiary)' }}>
-                            {t('editor.right.selectClipHint')}
-                        </p>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+                            <p style={{ margin: 0, fontSize: '12px', color: 'var(--glass-text-tertiary)' }}>
+                                {t('editor.right.selectClipHint')}
+                            </p>
+                            <BgmDuckingControls
+                                bgmTrack={project.bgmTrack}
+                                onChange={(bgmId, ducking) => updateBgm(bgmId, { ducking })}
+                            />
+                        </div>
                     )}
                 </div>
             </div>
@@ -280,12 +342,14 @@ export function VideoEditorStage({
             }}>
                 <Timeline
                     clips={project.timeline}
+                    tracks={project.tracks || []}
                     timelineState={timelineState}
                     config={project.config}
                     onReorder={reorderClips}
                     onSelectClip={selectClip}
                     onZoomChange={setZoom}
                     onSeek={seek}
+                    onInsertTrackItem={handleInsertTrackItem}
                 />
             </div>
         </div>
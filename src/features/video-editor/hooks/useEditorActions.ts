@@ -1,8 +1,9 @@
 'use client'
 
 import { useCallback } from 'react'
-import { VideoClip, VideoEditorProject } from '../types/editor.types'
+import { RenderFormat, RenderQuality, RenderStatus, VideoClip, VideoEditorProject } from '../types/editor.types'
 import { apiFetch } from '@/lib/api-fetch'
+import { migrateProjectData } from '../utils/migration'
 
 interface UseEditorActionsProps {
     projectId: string
@@ -67,14 +68,15 @@ export function createProjectFromPanels(
     return {
         id: `editor_${episodeId}_${Date.now()}`,
         episodeId,
-        schemaVersion: '1.0',
+        schemaVersion: '2.0',
         config: {
             fps: 30,
             width: 1920,
             height: 1080
         },
         timeline,
-        bgmTrack: []
+        bgmTrack: [],
+        tracks: []
     }
 }
 
@@ -86,7 +88,7 @@ export function useEditorActions({ projectId, episodeId }: UseEditorActionsProps
         const response = await apiFetch(`/api/novel-promotion/${projectId}/editor`, {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ projectData: project })
+            body: JSON.stringify({ episodeId, projectData: project })
         })
 
         if (!response.ok) {
@@ -94,7 +96,7 @@ export function useEditorActions({ projectId, episodeId }: UseEditorActionsProps
         }
 
         return response.json()
-    }, [projectId])
+    }, [projectId, episodeId])
 
     /**
      * 加载项目
@@ -108,20 +110,46 @@ export function useEditorActions({ projectId, episodeId }: UseEditorActionsProps
         }
 
         const data = await response.json()
-        return data.projectData
+        return data.projectData ? migrateProjectData(data.projectData) : null
     }, [projectId, episodeId])
 
     /**
-     * 发起渲染导出
+     * 服务端根据分镜面板与已匹配台词生成粗剪 (会保存到服务器)
      */
-    const startRender = useCallback(async (editorProjectId: string) => {
+    const autoAssemble = useCallback(async (
+        options: { overwrite?: boolean } = {}
+    ): Promise<{ projectData: VideoEditorProject; summary: { clipCount: number } }> => {
+        const response = await apiFetch(`/api/novel-promotion/${projectId}/editor/assemble`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ episodeId, overwrite: options.overwrite === true })
+        })
+
+        if (!response.ok) {
+            throw new Error('Failed to assemble project')
+        }
+
+        const data = await response.json()
+        return {
+            projectData: migrateProjectData(data.projectData),
+            summary: data.summary
+        }
+    }, [projectId, episodeId])
+
+    /**
+     * 发起渲染导出 (服务端 video_render 任务，进度通过 SSE 推送)
+     */
+    const startRender = useCallback(async (
+        options: { format?: RenderFormat; quality?: RenderQuality; burnSubtitles?: boolean } = {}
+    ): Promise<{ taskId: string }> => {
         const response = await apiFetch(`/api/novel-promotion/${projectId}/editor/render`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-                editorProjectId,
-                format: 'mp4',
-                quality: 'high'
+                episodeId,
+                format: options.format || 'mp4',
+                quality: options.quality || 'high',
+                burnSubtitles: options.burnSubtitles !== false
             })
         })
 
@@ -130,14 +158,14 @@ export function useEditorActions({ projectId, episodeId }: UseEditorActionsProps
         }
 
         return response.json()
-    }, [projectId])
+    }, [projectId, episodeId])
 
     /**
      * 获取渲染状态
      */
-    const getRenderStatus = useCallback(async (editorProjectId: string) => {
+    const getRenderStatus = useCallback(async (): Promise<RenderStatus> => {
         const response = await apiFetch(
-            `/api/novel-promotion/${projectId}/editor/render?id=${editorProjectId}`
+            `/api/novel-promotion/${projectId}/editor/render?episodeId=${episodeId}`
         )
 
         if (!response.ok) {
@@ -145,11 +173,12 @@ export function useEditorActions({ projectId, episodeId }: UseEditorActionsProps
         }
 
         return response.json()
-    }, [projectId])
+    }, [projectId, episodeId])
 
     return {
         saveProject,
         loadProject,
+        autoAssemble,
         startRender,
         getRenderStatus
     }
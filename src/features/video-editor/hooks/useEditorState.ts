@@ -6,8 +6,12 @@ import {
     VideoClip,
     BgmClip,
     TimelineState,
+    TrackKind,
+    TrackItem,
     createDefaultProject,
-    generateClipId
+    createTrack,
+    generateClipId,
+    DEFAULT_BGM_DUCKING
 } from '../index'
 
 interface UseEditorStateProps {
@@ -82,7 +86,9 @@ export function useEditorState({ episodeId, initialProject }: UseEditorStateProp
     // ========================================
 
     const addBgm = useCallback((bgm: Omit<BgmClip, 'id'>) => {
+        // 新增 BGM 默认开启对白闪避
         const newBgm: BgmClip = {
+            ducking: DEFAULT_BGM_DUCKING,
             ...bgm,
             id: `bgm_${Date.now()}`
         }
@@ -93,6 +99,16 @@ export function useEditorState({ episodeId, initialProject }: UseEditorStateProp
         setIsDirty(true)
     }, [])
 
+    const updateBgm = useCallback((bgmId: string, updates: Partial<BgmClip>) => {
+        setProject(prev => ({
+            ...prev,
+            bgmTrack: prev.bgmTrack.map(b =>
+                b.id === bgmId ? { ...b, ...updates } : b
+            )
+        }))
+        setIsDirty(true)
+    }, [])
+
     const removeBgm = useCallback((bgmId: string) => {
         setProject(prev => ({
             ...prev,
@@ -101,6 +117,69 @@ export function useEditorState({ episodeId, initialProject }: UseEditorStateProp
         setIsDirty(true)
     }, [])
 
+    // ========================================
+    // 附加轨道操作
+    // ========================================
+
+    const addTrack = useCallback((kind: TrackKind) => {
+        const trackId = `track_${kind}_${Date.now()}`
+        setProject(prev => ({
+            ...prev,
+            tracks: [...prev.tracks, { ...createTrack(kind, prev.tracks), id: trackId }]
+        }))
+        setIsDirty(true)
+        return trackId
+    }, [])
+
+    const removeTrack = useCallback((trackId: string) => {
+        setProject(prev => ({
+            ...prev,
+            tracks: prev.tracks.filter(t => t.id !== trackId)
+        }))
+        setIsDirty(true)
+    }, [])
+
+    const updateTrack = useCallback((trackId: string, updates: { zIndex?: number; muted?: boolean; hidden?: boolean }) => {
+        setProject(prev => ({
+            ...prev,
+            tracks: prev.tracks.map(t => t.id === trackId ? { ...t, ...updates } : t)
+        }))
+        setIsDirty(true)
+    }, [])
+
+    const addTrackItem = useCallback((trackId: string, item: Omit<TrackItem, 'id'>) => {
+        const newItem = { ...item, id: generateClipId() } as TrackItem
+        setProject(prev => ({
+            ...prev,
+            tracks: prev.tracks.map(t =>
+                t.id === trackId ? { ...t, items: [...t.items, newItem] } : t
+            )
+        }))
+        setIsDirty(true)
+        return newItem.id
+    }, [])
+
+    const updateTrackItem = useCallback((trackId: string, itemId: string, updates: Partial<TrackItem>) => {
+        setProject(prev => ({
+            ...prev,
+            tracks: prev.tracks.map(t => t.id !== trackId ? t : {
+                ...t,
+                items: t.items.map(item => item.id === itemId ? { ...item, ...updates } as TrackItem : item)
+            })
+        }))
+        setIsDirty(true)
+    }, [])
+
+    const removeTrackItem = useCallback((trackId: string, itemId: string) => {
+        setProject(prev => ({
+            ...prev,
+            tracks: prev.tracks.map(t =>
+                t.id === trackId ? { ...t, items: t.items.filter(item => item.id !== itemId) } : t
+            )
+        }))
+        setIsDirty(true)
+    }, [])
+
     // ========================================
     // 播放控制
     // ========================================
@@ -157,8 +236,17 @@ export function useEditorState({ episodeId, initialProject }: UseEditorStateProp
 
         // BGM actions
         addBgm,
+        updateBgm,
         removeBgm,
 
+        // Track actions
+        addTrack,
+        removeTrack,
+        updateTrack,
+        addTrackItem,
+        updateTrackItem,
+        removeTrackItem,
+
         // Playback
         play,
         pause,
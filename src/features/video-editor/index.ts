@@ -7,13 +7,28 @@ export type {
     VideoEditorProject,
     VideoClip,
     BgmClip,
+    BgmDucking,
     ClipAttachment,
     ClipTransition,
     ClipMetadata,
     EditorConfig,
+    EditorSchemaVersion,
+    EditorTrack,
+    TrackKind,
+    TrackItem,
+    VisualTrackItem,
+    VideoTrackItem,
+    ImageTrackItem,
+    TextTrackItem,
+    TextItemStyle,
+    AudioTrackItem,
+    ItemLayout,
+    ItemKeyframe,
     TimelineState,
     ComputedClip,
     SaveEditorProjectRequest,
+    RenderFormat,
+    RenderQuality,
     RenderRequest,
     RenderStatus
 } from './types/editor.types'
@@ -21,6 +36,8 @@ export type {
 // Utils
 export {
     calculateTimelineDuration,
+    calculateTracksDuration,
+    calculateProjectDuration,
     computeClipPositions,
     framesToTime,
     timeToFrames,
@@ -28,6 +45,21 @@ export {
     createDefaultProject
 } from './utils/time-utils'
 
+export {
+    isVisualTrackItem,
+    sortTracksByZIndex,
+    resolveItemTransform,
+    createTrack
+} from './utils/track-utils'
+
+export { assembleEditorProject } from './utils/auto-assemble'
+
+export {
+    DEFAULT_BGM_DUCKING,
+    computeDialogRanges,
+    computeDuckGain
+} from './utils/ducking'
+
 export {
     migrateProjectData,
     validateProjectData
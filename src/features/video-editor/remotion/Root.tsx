@@ -0,0 +1,57 @@
+import React from 'react'
+import { Composition, type CalculateMetadataFunction } from 'remotion'
+import { VideoComposition, type VideoCompositionProps } from './VideoComposition'
+import { EditorConfig } from '../types/editor.types'
+import { calculateProjectDuration } from '../utils/time-utils'
+
+/**
+ * 服务端渲染使用的合成 ID
+ */
+export const EDITOR_COMPOSITION_ID = 'EditorComposition'
+
+export type EditorCompositionProps = VideoCompositionProps
+
+const DEFAULT_CONFIG: EditorConfig = {
+    fps: 30,
+    width: 1920,
+    height: 1080
+}
+
+/**
+ * 根据 inputProps 动态计算时长与画幅
+ */
+const calculateEditorMetadata: CalculateMetadataFunction<EditorCompositionProps> = ({ props }) => {
+    const config = props.config || DEFAULT_CONFIG
+    return {
+        fps: config.fps,
+        width: config.width,
+        height: config.height,
+        durationInFrames: Math.max(1, calculateProjectDuration({
+            timeline: props.clips,
+            tracks: props.tracks || []
+        }))
+    }
+}
+
+/**
+ * Remotion 根组件 - 供 @remotion/bundler 打包后由渲染 worker 使用
+ */
+export const RemotionRoot: React.FC = () => {
+    return (
+        <Composition
+            id={EDITOR_COMPOSITION_ID}
+            component={VideoComposition}
+            defaultProps={{
+                clips: [],
+                bgmTrack: [],
+                tracks: [],
+                config: DEFAULT_CONFIG
+            }}
+            calculateMetadata={calculateEditorMetadata}
+            durationInFrames={1}
+            fps={DEFAULT_CONFIG.fps}
+            width={DEFAULT_CONFIG.width}
+            height={DEFAULT_CONFIG.height}
+        />
+    )
+}
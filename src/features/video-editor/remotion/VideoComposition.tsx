@@ -1,24 +1,41 @@
 import React from 'react'
-import { AbsoluteFill, Sequence, Video, Audio, useCurrentFrame, interpolate } from 'remotion'
-import { VideoClip, BgmClip, EditorConfig } from '../types/editor.types'
+import { AbsoluteFill, Sequence, Video, Audio, Img, useCurrentFrame, interpolate } from 'remotion'
+import {
+    VideoClip,
+    BgmClip,
+    EditorConfig,
+    EditorTrack,
+    AudioTrackItem,
+    VisualTrackItem
+} from '../types/editor.types'
 import { computeClipPositions } from '../utils/time-utils'
+import { computeDialogRanges, computeDuckGain, FrameRange } from '../utils/ducking'
+import { isVisualTrackItem, resolveItemTransform, sortTracksByZIndex } from '../utils/track-utils'
 
-interface VideoCompositionProps {
+// 使用 type 而非 interface：Remotion Composition 要求 props 可赋值给 Record<string, unknown>
+export type VideoCompositionProps = {
     clips: VideoClip[]
     bgmTrack: BgmClip[]
+    tracks: EditorTrack[]
     config: EditorConfig
+    // 是否烧录字幕 (附属字幕 + role=subtitle 文字)，缺省为 true
+    burnSubtitles?: boolean
 }
 
 /**
  * Remotion 主合成组件
- * 使用 Sequence 实现磁性时间轴布局，支持转场效果
+ * 使用 Sequence 实现磁性时间轴布局，支持转场效果；附加轨道按 zIndex 叠加在主轨之上
  */
 export const VideoComposition: React.FC<VideoCompositionProps> = ({
     clips,
     bgmTrack,
-    config
+    tracks,
+    config,
+    burnSubtitles = true
 }) => {
     const computedClips = computeClipPositions(clips)
+    const orderedTracks = sortTracksByZIndex(tracks || [])
+    const dialogRanges = computeDialogRanges(clips, tracks || [])
 
     return (
         <AbsoluteFill style={{ backgroundColor: 'black' }}>
@@ -39,11 +56,17 @@ export const VideoComposition: React.FC<VideoCompositionProps> = ({
                             transitionType={clip.transition?.type}
                             transitionDuration={transitionDuration}
                             isLastClip={index === computedClips.length - 1}
+                            showSubtitle={burnSubtitles}
                         />
                     </Sequence>
                 )
             })}
 
+            {/* 附加轨道 */}
+            {orderedTracks.map((track) => (
+                <TrackRenderer key={track.id} track={track} config={config} showSubtitles={burnSubtitles} />
+            ))}
+
             {/* BGM 轨道 */}
             {bgmTrack.map((bgm) => (
                 <Sequence
@@ -52,7 +75,7 @@ export const VideoComposition: React.FC<VideoCompositionProps> = ({
                     durationInFrames={bgm.durationInFrames}
                     name={`BGM: ${bgm.id}`}
                 >
-                    <BgmRenderer bgm={bgm} />
+                    <BgmRenderer bgm={bgm} dialogRanges={dialogRanges} />
                 </Sequence>
             ))}
         </AbsoluteFill>
@@ -60,13 +83,14 @@ export const VideoComposition: React.FC<VideoCompositionProps> = ({
 }
 
 /**
- * BGM 渲染器 - 支持淡入淡出
+ * BGM 渲染器 - 支持淡入淡出与对白闪避
  */
 interface BgmRendererProps {
     bgm: BgmClip
+    dialogRanges: FrameRange[]
 }
 
-const BgmRenderer: React.FC<BgmRendererProps> = ({ bgm }) => {
+const BgmRenderer: React.FC<BgmRendererProps> = ({ bgm, dialogRanges }) => {
     const frame = useCurrentFrame()
     const fadeIn = bgm.fadeIn || 0
     const fadeOut = bgm.fadeOut || 0
@@ -88,9 +112,153 @@ const BgmRenderer: React.FC<BgmRendererProps> = ({ bgm }) => {
         )
     }
 
+    // 对白闪避 (对白区间为绝对帧)
+    volume *= computeDuckGain(bgm.startFrame + frame, dialogRanges, bgm.ducking)
+
     return <Audio src={bgm.src} volume={volume} />
 }
 
+/**
+ * 附加轨道渲染器
+ * hidden 仅隐藏画面，muted 仅静音；元素按 startFrame 绝对定位
+ */
+interface TrackRendererProps {
+    track: EditorTrack
+    config: EditorConfig
+    showSubtitles: boolean
+}
+
+const TrackRenderer: React.FC<TrackRendererProps> = ({ track, config, showSubtitles }) => {
+    return (
+        <AbsoluteFill style={{ pointerEvents: 'none' }}>
+            {track.items.map((item) => {
+                if (isVisualTrackItem(item) && track.hidden) return null
+                if (!isVisualTrackItem(item) && track.muted) return null
+                if (item.type === 'text' && item.role === 'subtitle' && !showSubtitles) return null
+
+                return (
+                    <Sequence
+                        key={item.id}
+                        from={item.startFrame}
+                        durationInFrames={item.durationInFrames}
+                        name={`Track ${track.kind} ${track.index}: ${item.id}`}
+                    >
+                        {isVisualTrackItem(item)
+                            ? <VisualItemRenderer item={item} config={config} muted={!!track.muted} />
+                            : <AudioItemRenderer item={item} />}
+                    </Sequence>
+                )
+            })}
+        </AbsoluteFill>
+    )
+}
+
+/**
+ * 可视元素渲染器 - 布局 / 透明度 / 关键帧位置与缩放
+ */
+interface VisualItemRendererProps {
+    item: VisualTrackItem
+    config: EditorConfig
+    muted: boolean
+}
+
+const VisualItemRenderer: React.FC<VisualItemRendererProps> = ({ item, config, muted }) => {
+    const frame = useCurrentFrame()
+    const { x, y, scale } = resolveItemTransform(item, frame)
+
+    const boxStyle: React.CSSProperties = {
+        position: 'absolute',
+        left: `${x * 100}%`,
+        top: `${y * 100}%`,
+        width: `${item.layout.width * 100}%`,
+        height: `${item.layout.height * 100}%`,
+        transform: `translate(-50%, -50%) scale(${scale})`,
+        opacity: item.opacity
+    }
+
+    switch (item.type) {
+        case 'video':
+            return (
+                <div style={boxStyle}>
+                    <Video
+                        src={item.src}
+                        startFrom={item.trim?.from || 0}
+                        volume={muted ? 0 : item.volume}
+                        style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                    />
+                </div>
+            )
+        case 'image':
+            return (
+                <div style={boxStyle}>
+                    <Img
+                        src={item.src}
+                        style={{ width: '100%', height: '100%', objectFit: item.fit }}
+                    />
+                </div>
+            )
+        case 'text': {
+            // 字号按 1080p 设计，随画布高度等比缩放
+            const fontScale = config.height / 1080
+            const align = item.style.align || 'center'
+            return (
+                <div
+                    style={{
+                        ...boxStyle,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: align === 'left' ? 'flex-start' : align === 'right' ? 'flex-end' : 'center'
+                    }}
+                >
+                    <div
+                        style={{
+                            fontSize: `${item.style.fontSize * fontScale}px`,
+                            color: item.style.color,
+                            fontWeight: item.style.fontWeight || 'normal',
+                            background: item.style.background || 'transparent',
+                            textAlign: align,
+                            padding: item.style.background ? `${8 * fontScale}px ${16 * fontScale}px` : 0,
+                            whiteSpace: 'pre-wrap'
+                        }}
+                    >
+                        {item.text}
+                    </div>
+                </div>
+            )
+        }
+    }
+}
+
+/**
+ * 音频元素渲染器 (音效 / 第二对白轨) - 支持淡入淡出
+ */
+interface AudioItemRendererProps {
+    item: AudioTrackItem
+}
+
+const AudioItemRenderer: React.FC<AudioItemRendererProps> = ({ item }) => {
+    const frame = useCurrentFrame()
+    const fadeIn = item.fadeIn || 0
+    const fadeOut = item.fadeOut || 0
+
+    let volume = item.volume
+
+    if (fadeIn > 0 && frame < fadeIn) {
+        volume *= interpolate(frame, [0, fadeIn], [0, 1], { extrapolateRight: 'clamp' })
+    }
+
+    if (fadeOut > 0 && frame > item.durationInFrames - fadeOut) {
+        volume *= interpolate(
+            frame,
+            [item.durationInFrames - fadeOut, item.durationInFrames],
+            [1, 0],
+            { extrapolateLeft: 'clamp' }
+        )
+    }
+
+    return <Audio src={item.src} startFrom={item.trim?.from || 0} volume={volume} />
+}
+
 /**
  * 单个片段渲染器 - 支持转场效果
  */
@@ -100,6 +268,7 @@ interface ClipRendererProps {
     transitionType?: 'none' | 'dissolve' | 'fade' | 'slide'
     transitionDuration: number
     isLastClip: boolean
+    showSubtitle: boolean
 }
 
 const ClipRenderer: React.FC<ClipRendererProps> = ({
@@ -107,7 +276,8 @@ const ClipRenderer: React.FC<ClipRendererProps> = ({
     config,
     transitionType = 'none',
     transitionDuration,
-    isLastClip
+    isLastClip,
+    showSubtitle
 }) => {
     void config
     const frame = useCurrentFrame()
@@ -181,7 +351,7 @@ const ClipRenderer: React.FC<ClipRendererProps> = ({
             )}
 
             {/* 附属字幕 */}
-            {clip.attachment?.subtitle && (
+            {showSubtitle && clip.attachment?.subtitle && (
                 <SubtitleOverlay
                     text={clip.attachment.subtitle.text}
                     style={clip.attachment.subtitle.style}
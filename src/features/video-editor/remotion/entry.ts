@@ -0,0 +1,5 @@
+import { registerRoot } from 'remotion'
+import { RemotionRoot } from './Root'
+
+// 服务端渲染入口 (bundle entryPoint)
+registerRoot(RemotionRoot)
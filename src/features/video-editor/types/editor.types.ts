@@ -1,6 +1,6 @@
 // ========================================
 // Video Editor Core Types
-// Schema Version: 1.0
+// Schema Version: 2.0
 // ========================================
 
 /**
@@ -9,7 +9,7 @@
 export interface VideoEditorProject {
     id: string
     episodeId: string
-    schemaVersion: '1.0'
+    schemaVersion: EditorSchemaVersion
 
     config: EditorConfig
 
@@ -18,8 +18,13 @@ export interface VideoEditorProject {
 
     // BGM 轨道 (绝对定位)
     bgmTrack: BgmClip[]
+
+    // 附加轨道 (绝对定位) - 叠加视频 / 图片 / 文字 / 音效
+    tracks: EditorTrack[]
 }
 
+export type EditorSchemaVersion = '2.0'
+
 /**
  * 编辑器配置
  */
@@ -65,6 +70,7 @@ export interface ClipAttachment {
     subtitle?: {
         text: string
         style: 'default' | 'cinematic'
+        speaker?: string
     }
 }
 
@@ -96,8 +102,130 @@ export interface BgmClip {
     volume: number
     fadeIn?: number
     fadeOut?: number
+    ducking?: BgmDucking           // 对白闪避 (sidechain)
+}
+
+/**
+ * BGM 对白闪避 - 片段附属配音播放期间压低 BGM 音量
+ */
+export interface BgmDucking {
+    enabled: boolean
+    level: number                  // 闪避时的音量系数 (0-1，相对 volume)
+    attackFrames: number           // 对白开始前压低所用帧数
+    releaseFrames: number          // 对白结束后恢复所用帧数
+}
+
+// ========================================
+// 附加轨道 (Schema 2.0)
+// ========================================
+
+export type TrackKind = 'video' | 'image' | 'text' | 'audio'
+
+/**
+ * 附加轨道 - 编号轨道，zIndex 越大越靠上，全部叠加在主时间轴之上
+ */
+export interface EditorTrack {
+    id: string
+    kind: TrackKind
+    index: number                  // 轨道编号 (同类轨道内从 1 开始)
+    zIndex: number
+    muted?: boolean                // 仅对含音频的轨道生效
+    hidden?: boolean               // 仅对可视轨道生效
+    items: TrackItem[]
+}
+
+/**
+ * 画面布局 - 相对画布的比例 (0~1)，锚点为元素中心
+ */
+export interface ItemLayout {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+/**
+ * 关键帧 - frame 相对于元素起始帧，未设置的属性沿用 layout
+ */
+export interface ItemKeyframe {
+    frame: number
+    x?: number
+    y?: number
+    scale?: number
+}
+
+interface TrackItemBase {
+    id: string
+    startFrame: number             // 绝对定位
+    durationInFrames: number
+}
+
+interface VisualTrackItemBase extends TrackItemBase {
+    layout: ItemLayout
+    opacity: number
+    keyframes?: ItemKeyframe[]
+}
+
+/**
+ * 叠加视频 (画中画 / 第二机位)
+ */
+export interface VideoTrackItem extends VisualTrackItemBase {
+    type: 'video'
+    src: string
+    volume: number
+    trim?: {
+        from: number
+        to: number
+    }
+}
+
+/**
+ * 图片 (水印 / Logo / 贴图)
+ */
+export interface ImageTrackItem extends VisualTrackItemBase {
+    type: 'image'
+    src: string
+    fit: 'contain' | 'cover'
+}
+
+/**
+ * 文字 (标题卡 / 说明文字)
+ */
+export interface TextTrackItem extends VisualTrackItemBase {
+    type: 'text'
+    text: string
+    style: TextItemStyle
+    role?: 'title' | 'subtitle'    // subtitle 参与字幕导出，且受烧录开关控制
+    speaker?: string
+}
+
+export interface TextItemStyle {
+    fontSize: number               // 按 1080p 画布的像素值
+    color: string
+    fontWeight?: 'normal' | 'bold'
+    background?: string
+    align?: 'left' | 'center' | 'right'
+}
+
+/**
+ * 音频 (音效 / 第二对白轨)
+ */
+export interface AudioTrackItem extends TrackItemBase {
+    type: 'audio'
+    src: string
+    volume: number
+    trim?: {
+        from: number
+        to: number
+    }
+    fadeIn?: number
+    fadeOut?: number
+    role?: 'dialogue' | 'sfx'      // dialogue 参与 BGM 对白闪避，未标记视为音效
 }
 
+export type VisualTrackItem = VideoTrackItem | ImageTrackItem | TextTrackItem
+export type TrackItem = VisualTrackItem | AudioTrackItem
+
 // ========================================
 // 时间轴 UI 状态
 // ========================================
@@ -126,15 +254,20 @@ export interface SaveEditorProjectRequest {
     projectData: VideoEditorProject
 }
 
+export type RenderFormat = 'mp4' | 'webm'
+export type RenderQuality = 'draft' | 'high'
+
 export interface RenderRequest {
-    editorProjectId: string
-    format: 'mp4' | 'webm'
-    quality: 'draft' | 'high'
+    episodeId: string
+    format: RenderFormat
+    quality: RenderQuality
+    burnSubtitles: boolean
 }
 
 export interface RenderStatus {
     status: 'pending' | 'rendering' | 'completed' | 'failed'
     progress?: number
+    taskId?: string
     outputUrl?: string
     error?: string
 }
@@ -0,0 +1,264 @@
+import {
+    AudioTrackItem,
+    EditorConfig,
+    EditorTrack,
+    TextTrackItem,
+    VideoClip,
+    VideoEditorProject
+} from '../types/editor.types'
+import { computeClipPositions } from './time-utils'
+
+/**
+ * 粗剪数据源 - 面板
+ * videoUrl / lipSyncVideoUrl 应为可直接播放的地址 (如 /m/publicId)
+ */
+export interface AssemblePanelSource {
+    id: string
+    panelIndex: number
+    description: string | null
+    duration: number | null        // 秒
+    videoUrl: string | null
+    lipSyncVideoUrl: string | null
+    linkedToNextPanel: boolean
+}
+
+export interface AssembleStoryboardSource {
+    id: string
+    clipId: string
+    panels: AssemblePanelSource[]
+}
+
+export interface AssembleVoiceLineSource {
+    id: string
+    lineIndex: number
+    speaker: string
+    content: string
+    audioUrl: string | null
+    audioDuration: number | null   // 毫秒
+    matchedPanelId: string | null
+}
+
+export interface AssembleEpisodeSource {
+    episodeId: string
+    clipIds: string[]              // 片段顺序 (即剧情顺序)
+    storyboards: AssembleStoryboardSource[]
+    voiceLines: AssembleVoiceLineSource[]
+}
+
+export interface AssembleSummary {
+    clipCount: number
+    skippedPanelIds: string[]      // 尚无视频的面板
+    unmatchedVoiceLineIds: string[] // 未匹配到可用面板的台词
+}
+
+export interface AssembleResult {
+    project: VideoEditorProject
+    summary: AssembleSummary
+}
+
+const DEFAULT_CONFIG: EditorConfig = {
+    fps: 30,
+    width: 1920,
+    height: 1080
+}
+
+interface PendingDialog {
+    clipId: string
+    offsetFrames: number
+    lines: AssembleVoiceLineSource[]
+}
+
+const DEFAULT_PANEL_SECONDS = 3
+const LINKED_TRANSITION_FRAMES = 15 // 0.5s @ 30fps
+const DIALOG_SUBTITLE_LAYOUT = { x: 0.5, y: 0.9, width: 0.9, height: 0.1 }
+
+function secondsToFrames(seconds: number, fps: number): number {
+    return Math.max(1, Math.ceil(seconds * fps))
+}
+
+function voiceLineFrames(line: AssembleVoiceLineSource, fps: number): number {
+    return line.audioDuration && line.audioDuration > 0
+        ? secondsToFrames(line.audioDuration / 1000, fps)
+        : 0
+}
+
+/**
+ * 按片段顺序 + panelIndex 排列面板，未知片段排在最后
+ */
+function orderPanels(source: AssembleEpisodeSource) {
+    const clipOrder = new Map(source.clipIds.map((id, index) => [id, index]))
+    const storyboards = [...source.storyboards].sort((a, b) => (
+        (clipOrder.get(a.clipId) ?? Number.MAX_SAFE_INTEGER) - (clipOrder.get(b.clipId) ?? Number.MAX_SAFE_INTEGER)
+    ))
+
+    return storyboards.flatMap(storyboard => (
+        [...storyboard.panels]
+            .sort((a, b) => a.panelIndex - b.panelIndex)
+            .map(panel => ({ storyboardId: storyboard.id, panel }))
+    ))
+}
+
+/**
+ * 从分镜面板与已匹配台词自动生成粗剪项目
+ *
+ * - 优先使用口型同步视频
+ * - 每个面板的第一句有音频的台词作为片段附属配音与字幕，其余台词依次排入对白轨与字幕轨
+ * - 片段时长取面板时长与台词总时长的较大值
+ * - linkedToNextPanel 的面板与下一片段之间使用溶解转场
+ */
+export function assembleEditorProject(
+    source: AssembleEpisodeSource,
+    config: EditorConfig = DEFAULT_CONFIG
+): AssembleResult {
+    const { fps } = config
+    const orderedPanels = orderPanels(source)
+
+    const linesByPanel = new Map<string, AssembleVoiceLineSource[]>()
+    for (const line of [...source.voiceLines].sort((a, b) => a.lineIndex - b.lineIndex)) {
+        if (!line.matchedPanelId) continue
+        const list = linesByPanel.get(line.matchedPanelId) || []
+        list.push(line)
+        linesByPanel.set(line.matchedPanelId, list)
+    }
+
+    const skippedPanelIds: string[] = []
+    const usedPanelIds = new Set<string>()
+    const pendingDialog: PendingDialog[] = []
+
+    const playable = orderedPanels.filter(({ panel }) => {
+        if (panel.lipSyncVideoUrl || panel.videoUrl) return true
+        skippedPanelIds.push(panel.id)
+        return false
+    })
+
+    const timeline: VideoClip[] = playable.map(({ storyboardId, panel }, index) => {
+        usedPanelIds.add(panel.id)
+        const lines = linesByPanel.get(panel.id) || []
+        const voiced = lines.filter(line => line.audioUrl)
+        const primary = voiced[0] || null
+        const clipId = `clip_${panel.id}`
+
+        const panelFrames = panel.duration && panel.duration > 0
+            ? secondsToFrames(panel.duration, fps)
+            : 0
+        const dialogFrames = voiced.reduce((sum, line) => sum + voiceLineFrames(line, fps), 0)
+        const durationInFrames = Math.max(panelFrames, dialogFrames) || secondsToFrames(DEFAULT_PANEL_SECONDS, fps)
+
+        if (primary && voiced.length > 1) {
+            pendingDialog.push({
+                clipId,
+                offsetFrames: voiceLineFrames(primary, fps),
+                lines: voiced.slice(1)
+            })
+        }
+
+        const isLast = index === playable.length - 1
+        return {
+            id: clipId,
+            src: (panel.lipSyncVideoUrl || panel.videoUrl) as string,
+            durationInFrames,
+            attachment: primary ? {
+                audio: {
+                    src: primary.audioUrl as string,
+                    volume: 1,
+                    voiceLineId: primary.id
+                },
+                subtitle: {
+                    text: primary.content,
+                    style: 'default' as const,
+                    speaker: primary.speaker
+                }
+            } : undefined,
+            transition: panel.linkedToNextPanel && !isLast ? {
+                type: 'dissolve' as const,
+                durationInFrames: LINKED_TRANSITION_FRAMES
+            } : undefined,
+            metadata: {
+                panelId: panel.id,
+                storyboardId,
+                description: panel.description || undefined
+            }
+        }
+    })
+
+    const tracks = buildDialogTracks(timeline, pendingDialog, fps)
+    const unmatchedVoiceLineIds = source.voiceLines
+        .filter(line => !line.matchedPanelId || !usedPanelIds.has(line.matchedPanelId))
+        .map(line => line.id)
+
+    return {
+        project: {
+            id: `editor_${source.episodeId}_${Date.now()}`,
+            episodeId: source.episodeId,
+            schemaVersion: '2.0',
+            config,
+            timeline,
+            bgmTrack: [],
+            tracks
+        },
+        summary: {
+            clipCount: timeline.length,
+            skippedPanelIds,
+            unmatchedVoiceLineIds
+        }
+    }
+}
+
+/**
+ * 同一面板的后续台词：紧接第一句之后依次排入对白音频轨，并生成对应字幕
+ */
+function buildDialogTracks(
+    timeline: VideoClip[],
+    pendingDialog: PendingDialog[],
+    fps: number
+): EditorTrack[] {
+    if (pendingDialog.length === 0) return []
+
+    const positions = new Map(computeClipPositions(timeline).map(clip => [clip.id, clip]))
+    const audioItems: AudioTrackItem[] = []
+    const textItems: TextTrackItem[] = []
+
+    for (const { clipId, offsetFrames, lines } of pendingDialog) {
+        const clip = positions.get(clipId)
+        if (!clip) continue
+
+        // 第一句的时长决定后续台词的起点
+        let cursor = clip.startFrame + offsetFrames
+
+        for (const line of lines) {
+            const durationInFrames = voiceLineFrames(line, fps) || secondsToFrames(DEFAULT_PANEL_SECONDS, fps)
+            audioItems.push({
+                id: `dialog_${line.id}`,
+                type: 'audio',
+                src: line.audioUrl as string,
+                startFrame: cursor,
+                durationInFrames,
+                volume: 1,
+                role: 'dialogue'
+            })
+            textItems.push({
+                id: `subtitle_${line.id}`,
+                type: 'text',
+                text: line.content,
+                role: 'subtitle',
+                speaker: line.speaker,
+                startFrame: cursor,
+                durationInFrames,
+                layout: DIALOG_SUBTITLE_LAYOUT,
+                opacity: 1,
+                style: {
+                    fontSize: 24,
+                    color: 'white',
+                    background: 'rgba(0, 0, 0, 0.7)',
+                    align: 'center'
+                }
+            })
+            cursor += durationInFrames
+        }
+    }
+
+    return [
+        { id: 'track_audio_dialog', kind: 'audio', index: 1, zIndex: 1, items: audioItems },
+        { id: 'track_text_dialog', kind: 'text', index: 1, zIndex: 2, items: textItems }
+    ]
+}
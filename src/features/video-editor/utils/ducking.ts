@@ -0,0 +1,75 @@
+import { BgmDucking, EditorTrack, VideoClip } from '../types/editor.types'
+import { computeClipPositions } from './time-utils'
+
+/**
+ * 对白区间 (绝对帧，左闭右开)
+ */
+export interface FrameRange {
+    start: number
+    end: number
+}
+
+export const DEFAULT_BGM_DUCKING: BgmDucking = {
+    enabled: true,
+    level: 0.25,
+    attackFrames: 6,
+    releaseFrames: 15
+}
+
+/**
+ * 从主轨片段的附属配音及附加音频轨道上标记为对白的片段计算对白区间，相邻或重叠的区间合并为一段
+ * 附属配音与片段同起点播放，按片段时长计算占用范围；音效与静音轨道不参与闪避
+ */
+export function computeDialogRanges(clips: VideoClip[], tracks: EditorTrack[] = []): FrameRange[] {
+    const attachmentRanges = computeClipPositions(clips)
+        .filter(clip => clip.attachment?.audio && clip.attachment.audio.volume > 0)
+        .map(clip => ({ start: clip.startFrame, end: clip.endFrame }))
+    const audioTrackRanges = tracks
+        .filter(track => track.kind === 'audio' && !track.muted)
+        .flatMap(track => track.items)
+        .filter(item => item.type === 'audio' && item.role === 'dialogue' && item.volume > 0)
+        .map(item => ({ start: item.startFrame, end: item.startFrame + item.durationInFrames }))
+    const ranges = [...attachmentRanges, ...audioTrackRanges].sort((a, b) => a.start - b.start)
+
+    const merged: FrameRange[] = []
+    for (const range of ranges) {
+        const last = merged[merged.length - 1]
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end)
+        } else {
+            merged.push({ ...range })
+        }
+    }
+    return merged
+}
+
+/**
+ * 单个对白区间在指定帧的增益：对白前 attack 帧内线性压低，对白期间保持 level，结束后 release 帧内恢复
+ */
+function rangeGain(frame: number, range: FrameRange, ducking: BgmDucking): number {
+    const level = Math.min(1, Math.max(0, ducking.level))
+    const attack = Math.max(0, ducking.attackFrames)
+    const release = Math.max(0, ducking.releaseFrames)
+
+    if (frame >= range.start && frame < range.end) return level
+    if (frame < range.start) {
+        const distance = range.start - frame
+        if (attack === 0 || distance > attack) return 1
+        return level + (1 - level) * (distance / attack)
+    }
+    const distance = frame - range.end
+    if (release === 0 || distance >= release) return 1
+    return level + (1 - level) * (distance / release)
+}
+
+/**
+ * 计算 BGM 在指定绝对帧的闪避增益 (0-1)，多个对白区间取最低值
+ */
+export function computeDuckGain(
+    frame: number,
+    ranges: FrameRange[],
+    ducking: BgmDucking | undefined
+): number {
+    if (!ducking?.enabled || ranges.length === 0) return 1
+    return ranges.reduce((gain, range) => Math.min(gain, rangeGain(frame, range, ducking)), 1)
+}
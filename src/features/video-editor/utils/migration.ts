@@ -1,5 +1,19 @@
 import { logWarn as _ulogWarn } from '@/lib/logging/core'
-import { VideoEditorProject } from '../types/editor.types'
+import { TrackKind, VideoEditorProject } from '../types/editor.types'
+
+const TRACK_KINDS: ReadonlySet<string> = new Set<TrackKind>(['video', 'image', 'text', 'audio'])
+
+/**
+ * 1.0 → 2.0
+ * 1.0 只有主时间轴与 BGM 轨道，升级时补齐空的附加轨道列表
+ */
+function migrateFromV1(project: Record<string, unknown>): Record<string, unknown> {
+    return {
+        ...project,
+        schemaVersion: '2.0',
+        tracks: Array.isArray(project.tracks) ? project.tracks : []
+    }
+}
 
 /**
  * 版本迁移函数
@@ -12,20 +26,47 @@ export function migrateProjectData(data: unknown): VideoEditorProject {
     const version = project.schemaVersion as string
 
     switch (version) {
-        case '1.0':
+        case '2.0':
             // 当前最新版本，无需迁移
             return project as unknown as VideoEditorProject
 
+        case '1.0':
+            return migrateFromV1(project) as unknown as VideoEditorProject
+
         default:
             // 未知版本或无版本，尝试作为 1.0 处理
             _ulogWarn(`Unknown schema version: ${version}, treating as 1.0`)
-            return {
-                ...project,
-                schemaVersion: '1.0'
-            } as VideoEditorProject
+            return migrateFromV1(project) as unknown as VideoEditorProject
     }
 }
 
+/**
+ * 验证附加轨道：轨道类型合法，且元素类型与轨道类型一致
+ */
+function validateTracks(tracks: unknown[], errors: string[]) {
+    tracks.forEach((raw, trackIndex) => {
+        const track = raw as Record<string, unknown>
+        if (!track.id) errors.push(`Missing track id at tracks[${trackIndex}]`)
+        if (typeof track.kind !== 'string' || !TRACK_KINDS.has(track.kind)) {
+            errors.push(`Invalid track kind at tracks[${trackIndex}]`)
+            return
+        }
+        if (!Array.isArray(track.items)) {
+            errors.push(`Invalid items at tracks[${trackIndex}]`)
+            return
+        }
+        track.items.forEach((rawItem, itemIndex) => {
+            const item = rawItem as Record<string, unknown>
+            if (item.type !== track.kind) {
+                errors.push(`Item type mismatch at tracks[${trackIndex}].items[${itemIndex}]`)
+            }
+            if (typeof item.startFrame !== 'number' || typeof item.durationInFrames !== 'number') {
+                errors.push(`Invalid item timing at tracks[${trackIndex}].items[${itemIndex}]`)
+            }
+        })
+    })
+}
+
 /**
  * 验证项目数据完整性
  */
@@ -39,6 +80,10 @@ export function validateProjectData(data: unknown): { valid: boolean; errors: st
     if (!project.config) errors.push('Missing config')
     if (!Array.isArray(project.timeline)) errors.push('Invalid timeline')
     if (!Array.isArray(project.bgmTrack)) errors.push('Invalid bgmTrack')
+    if (project.schemaVersion === '2.0') {
+        if (!Array.isArray(project.tracks)) errors.push('Invalid tracks')
+        else validateTracks(project.tracks, errors)
+    }
 
     return {
         valid: errors.length === 0,
@@ -1,4 +1,4 @@
-import { VideoClip, ComputedClip, VideoEditorProject } from '../types/editor.types'
+import { VideoClip, ComputedClip, EditorTrack, VideoEditorProject } from '../types/editor.types'
 
 /**
  * 计算时间轴总时长 (帧数)
@@ -20,6 +20,27 @@ export function calculateTimelineDuration(clips: VideoClip[]): number {
     }, 0)
 }
 
+/**
+ * 计算附加轨道的结束帧 (所有元素中最晚的结束位置)
+ */
+export function calculateTracksDuration(tracks: EditorTrack[]): number {
+    return tracks.reduce((max, track) => track.items.reduce(
+        (trackMax, item) => Math.max(trackMax, item.startFrame + item.durationInFrames),
+        max
+    ), 0)
+}
+
+/**
+ * 计算项目总时长 (帧数)
+ * 主时间轴与附加轨道取较长者，BGM 不延长成片
+ */
+export function calculateProjectDuration(project: Pick<VideoEditorProject, 'timeline' | 'tracks'>): number {
+    return Math.max(
+        calculateTimelineDuration(project.timeline),
+        calculateTracksDuration(project.tracks || [])
+    )
+}
+
 /**
  * 计算每个片段的起始帧位置
  * 用于渲染和 UI 显示
@@ -82,13 +103,14 @@ export function createDefaultProject(episodeId: string): VideoEditorProject {
     return {
         id: `editor_${Date.now()}`,
         episodeId,
-        schemaVersion: '1.0',
+        schemaVersion: '2.0',
         config: {
             fps: 30,
             width: 1920,
             height: 1080
         },
         timeline: [],
-        bgmTrack: []
+        bgmTrack: [],
+        tracks: []
     }
 }
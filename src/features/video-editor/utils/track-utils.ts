@@ -0,0 +1,178 @@
+import {
+    AudioTrackItem,
+    EditorTrack,
+    ItemKeyframe,
+    TextTrackItem,
+    TrackItem,
+    TrackKind,
+    VideoTrackItem,
+    VisualTrackItem
+} from '../types/editor.types'
+
+/**
+ * 元素在某一帧的变换结果
+ */
+export interface ItemTransform {
+    x: number
+    y: number
+    scale: number
+}
+
+type KeyframeProperty = 'x' | 'y' | 'scale'
+
+/**
+ * 判断元素是否为可视元素 (视频 / 图片 / 文字)
+ */
+export function isVisualTrackItem(item: TrackItem): item is VisualTrackItem {
+    return item.type !== 'audio'
+}
+
+/**
+ * 按 zIndex 升序排列轨道 (同 zIndex 按编号)，渲染时后者覆盖前者
+ */
+export function sortTracksByZIndex(tracks: EditorTrack[]): EditorTrack[] {
+    return [...tracks].sort((a, b) => a.zIndex - b.zIndex || a.index - b.index)
+}
+
+function interpolateKeyframeProperty(
+    keyframes: ItemKeyframe[],
+    property: KeyframeProperty,
+    frame: number,
+    fallback: number
+): number {
+    const points = keyframes.filter(kf => typeof kf[property] === 'number')
+    if (points.length === 0) return fallback
+
+    const first = points[0]
+    const last = points[points.length - 1]
+    if (frame <= first.frame) return first[property] as number
+    if (frame >= last.frame) return last[property] as number
+
+    for (let i = 0; i < points.length - 1; i++) {
+        const from = points[i]
+        const to = points[i + 1]
+        if (frame >= from.frame && frame <= to.frame) {
+            const span = to.frame - from.frame
+            if (span <= 0) return to[property] as number
+            const progress = (frame - from.frame) / span
+            const fromValue = from[property] as number
+            const toValue = to[property] as number
+            return fromValue + (toValue - fromValue) * progress
+        }
+    }
+
+    return fallback
+}
+
+/**
+ * 计算可视元素在指定帧 (相对元素起始帧) 的位置与缩放
+ * 关键帧之间线性插值，首尾关键帧之外保持端点值
+ */
+export function resolveItemTransform(item: VisualTrackItem, frame: number): ItemTransform {
+    const keyframes = [...(item.keyframes || [])].sort((a, b) => a.frame - b.frame)
+
+    return {
+        x: interpolateKeyframeProperty(keyframes, 'x', frame, item.layout.x),
+        y: interpolateKeyframeProperty(keyframes, 'y', frame, item.layout.y),
+        scale: interpolateKeyframeProperty(keyframes, 'scale', frame, 1)
+    }
+}
+
+/**
+ * 新建附加轨道，编号与层级自动递增
+ */
+export function createTrack(kind: TrackKind, existing: EditorTrack[]): EditorTrack {
+    const sameKind = existing.filter(track => track.kind === kind)
+    const nextIndex = sameKind.reduce((max, track) => Math.max(max, track.index), 0) + 1
+    const nextZIndex = existing.reduce((max, track) => Math.max(max, track.zIndex), 0) + 1
+
+    return {
+        id: `track_${kind}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        kind,
+        index: nextIndex,
+        zIndex: nextZIndex,
+        items: []
+    }
+}
+
+/**
+ * 时间轴工具栏可插入的元素：叠加视频 / 文字 / 音效
+ */
+export type TrackInsertKind = 'overlay' | 'text' | 'sfx'
+
+export type NewTrackItem =
+    | Omit<VideoTrackItem, 'id'>
+    | Omit<TextTrackItem, 'id'>
+    | Omit<AudioTrackItem, 'id'>
+
+const INSERT_TRACK_KINDS: Record<TrackInsertKind, TrackKind> = {
+    overlay: 'video',
+    text: 'text',
+    sfx: 'audio'
+}
+
+export function getInsertTrackKind(kind: TrackInsertKind): TrackKind {
+    return INSERT_TRACK_KINDS[kind]
+}
+
+/**
+ * 工具栏插入的默认元素，从 startFrame 开始持续 3 秒
+ * 叠加视频为右上角静音画中画，文字为顶部标题卡，音效标记为 sfx 不参与对白闪避
+ */
+export function createInsertTrackItem(
+    kind: TrackInsertKind,
+    params: { startFrame: number; fps: number; src?: string; text?: string }
+): NewTrackItem {
+    const timing = {
+        startFrame: Math.max(0, Math.round(params.startFrame)),
+        durationInFrames: Math.max(1, Math.round(params.fps * 3))
+    }
+
+    if (kind === 'text') {
+        return {
+            ...timing,
+            type: 'text',
+            text: params.text || '',
+            layout: { x: 0.5, y: 0.15, width: 0.8, height: 0.15 },
+            opacity: 1,
+            style: { fontSize: 64, color: '#ffffff', fontWeight: 'bold', align: 'center' },
+            role: 'title'
+        }
+    }
+
+    if (kind === 'overlay') {
+        return {
+            ...timing,
+            type: 'video',
+            src: params.src || '',
+            volume: 0,
+            layout: { x: 0.8, y: 0.2, width: 0.3, height: 0.3 },
+            opacity: 1
+        }
+    }
+
+    return {
+        ...timing,
+        type: 'audio',
+        src: params.src || '',
+        volume: 1,
+        role: 'sfx'
+    }
+}
+
+/**
+ * 选择插入目标轨道：同类轨道中层级最高、且与新元素时间不重叠的一条
+ * 没有可用轨道时返回 null，由调用方新建轨道
+ */
+export function findInsertTrack(
+    tracks: EditorTrack[],
+    kind: TrackKind,
+    item: Pick<TrackItem, 'startFrame' | 'durationInFrames'>
+): EditorTrack | null {
+    const endFrame = item.startFrame + item.durationInFrames
+    const candidates = sortTracksByZIndex(tracks.filter(track => track.kind === kind)).reverse()
+
+    return candidates.find(track => track.items.every(existing =>
+        existing.startFrame + existing.durationInFrames <= item.startFrame || existing.startFrame >= endFrame
+    )) || null
+}
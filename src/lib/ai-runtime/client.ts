@@ -1,11 +1,28 @@
 import type OpenAI from 'openai'
 import { getCompletionContent } from '@/lib/llm-client'
 import { getCompletionParts } from '@/lib/llm/completion-parts'
+import { emitChunkedText, emitStreamStage, resolveStreamStepMeta } from '@/lib/llm/stream-helpers'
+import type { ChatCompletionOptions } from '@/lib/llm/types'
+import { getInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
+import { recordTextUsage } from '@/lib/billing/runtime-usage'
+import { parseModelKeyStrict } from '@/lib/model-config-contract'
 import {
   runModelGatewayTextCompletion,
   runModelGatewayVisionCompletion,
 } from '@/lib/model-gateway/llm'
+import {
+  estimatePromptTokens,
+  resolveProviderRateLimitRules,
+  withProviderRateLimit,
+} from '@/lib/provider-rate-limit'
 import { toAiRuntimeError } from './errors'
+import {
+  buildAiTextCacheKey,
+  isProjectLlmCacheEnabled,
+  readAiTextCache,
+  writeAiTextCache,
+  type AiTextCacheEntry,
+} from './response-cache'
 import type {
   AiStepExecutionInput,
   AiStepExecutionResult,
@@ -46,31 +63,156 @@ function extractTextAndReasoning(completion: OpenAI.Chat.Completions.ChatComplet
   }
 }
 
+/**
+ * 按 provider / 模型限流执行 LLM 调用；模型键无法解析时直接执行
+ */
+async function runWithProviderRateLimit<T>(input: {
+  userId: string
+  model: string
+  promptTexts: string[]
+  run: () => Promise<T>
+}): Promise<T> {
+  const limit = await resolveProviderRateLimitRules({
+    userId: input.userId,
+    modelType: 'llm',
+    modelKey: input.model,
+  })
+  if (!limit) return await input.run()
+  return await withProviderRateLimit({
+    ...limit,
+    tokens: estimatePromptTokens(input.promptTexts),
+    run: input.run,
+  })
+}
+
+/**
+ * 项目未开启缓存或调用方未提供 prompt 版本时返回 null（不读不写）
+ */
+async function resolveTextCacheTarget(input: AiStepExecutionInput) {
+  const projectId = input.projectId?.trim()
+  if (!input.cache || !projectId) return null
+  if (!(await isProjectLlmCacheEnabled(projectId))) return null
+  return {
+    projectId,
+    bypass: input.cache.bypass === true,
+    cacheKey: buildAiTextCacheKey({
+      model: input.model,
+      messages: input.messages,
+      temperature: input.temperature,
+      promptVersion: input.cache.promptVersion,
+    }),
+  }
+}
+
+function buildCachedCompletion(cacheKey: string, entry: AiTextCacheEntry): OpenAI.Chat.Completions.ChatCompletion {
+  return {
+    id: `llm-cache-${cacheKey.slice(0, 16)}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: entry.model,
+    choices: [{
+      index: 0,
+      finish_reason: 'stop',
+      logprobs: null,
+      message: {
+        role: 'assistant',
+        content: entry.text,
+        refusal: null,
+      },
+    }],
+    usage: {
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+    },
+  }
+}
+
+/**
+ * 缓存命中：按真实调用的方式推送流式输出，并记一条 0 计费的 usage（token 记为节省量）
+ */
+function replayCachedTextStep(
+  cacheKey: string,
+  entry: AiTextCacheEntry,
+  options: ChatCompletionOptions,
+): AiStepExecutionResult {
+  const callbacks = getInternalLLMStreamCallbacks() || undefined
+  const streamStep = resolveStreamStepMeta(options)
+  emitStreamStage(callbacks, streamStep, 'streaming', 'cache')
+  const nextSeq = emitChunkedText(entry.reasoning, callbacks, 'reasoning', 1, streamStep)
+  emitChunkedText(entry.text, callbacks, 'text', nextSeq, streamStep)
+  emitStreamStage(callbacks, streamStep, 'completed', 'cache')
+  callbacks?.onComplete?.(entry.text, streamStep)
+
+  recordTextUsage({
+    model: entry.model,
+    inputTokens: entry.promptTokens,
+    outputTokens: entry.completionTokens,
+    cached: true,
+  })
+  const completion = buildCachedCompletion(cacheKey, entry)
+  return {
+    text: entry.text,
+    reasoning: entry.reasoning,
+    usage: extractUsage(completion),
+    completion,
+    cacheHit: true,
+  }
+}
+
 export async function executeAiTextStep(input: AiStepExecutionInput): Promise<AiStepExecutionResult> {
   try {
-    const completion = await runModelGatewayTextCompletion({
+    const options: ChatCompletionOptions = {
+      temperature: input.temperature,
+      reasoning: input.reasoning,
+      reasoningEffort: input.reasoningEffort,
+      projectId: input.projectId,
+      action: input.action,
+      streamStepId: input.meta.stepId,
+      streamStepAttempt: input.meta.stepAttempt || 1,
+      streamStepTitle: input.meta.stepTitle,
+      streamStepIndex: input.meta.stepIndex,
+      streamStepTotal: input.meta.stepTotal,
+    }
+    const cacheTarget = await resolveTextCacheTarget(input)
+    if (cacheTarget && !cacheTarget.bypass) {
+      const cached = await readAiTextCache(cacheTarget)
+      if (cached) {
+        return replayCachedTextStep(cacheTarget.cacheKey, cached, options)
+      }
+    }
+
+    const completion = await runWithProviderRateLimit({
       userId: input.userId,
       model: input.model,
-      messages: input.messages,
-      options: {
-        temperature: input.temperature,
-        reasoning: input.reasoning,
-        reasoningEffort: input.reasoningEffort,
-        projectId: input.projectId,
-        action: input.action,
-        streamStepId: input.meta.stepId,
-        streamStepAttempt: input.meta.stepAttempt || 1,
-        streamStepTitle: input.meta.stepTitle,
-        streamStepIndex: input.meta.stepIndex,
-        streamStepTotal: input.meta.stepTotal,
-      },
+      promptTexts: input.messages.map((message) => message.content),
+      run: async () => await runModelGatewayTextCompletion({
+        userId: input.userId,
+        model: input.model,
+        messages: input.messages,
+        options,
+      }),
     })
 
     const parts = extractTextAndReasoning(completion)
+    const usage = extractUsage(completion)
+    if (cacheTarget) {
+      await writeAiTextCache({
+        projectId: cacheTarget.projectId,
+        cacheKey: cacheTarget.cacheKey,
+        entry: {
+          model: parseModelKeyStrict(input.model)?.modelId || input.model,
+          text: parts.text,
+          reasoning: parts.reasoning,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+        },
+      })
+    }
     return {
       text: parts.text,
       reasoning: parts.reasoning,
-      usage: extractUsage(completion),
+      usage,
       completion,
     }
   } catch (error) {
@@ -80,23 +222,28 @@ export async function executeAiTextStep(input: AiStepExecutionInput): Promise<Ai
 
 export async function executeAiVisionStep(input: AiVisionStepExecutionInput): Promise<AiVisionStepExecutionResult> {
   try {
-    const completion = await runModelGatewayVisionCompletion({
+    const completion = await runWithProviderRateLimit({
       userId: input.userId,
       model: input.model,
-      prompt: input.prompt,
-      imageUrls: input.imageUrls,
-      options: {
-        temperature: input.temperature,
-        reasoning: input.reasoning,
-        reasoningEffort: input.reasoningEffort,
-        projectId: input.projectId,
-        action: input.action,
-        streamStepId: input.meta?.stepId,
-        streamStepAttempt: input.meta?.stepAttempt || 1,
-        streamStepTitle: input.meta?.stepTitle,
-        streamStepIndex: input.meta?.stepIndex,
-        streamStepTotal: input.meta?.stepTotal,
-      },
+      promptTexts: [input.prompt],
+      run: async () => await runModelGatewayVisionCompletion({
+        userId: input.userId,
+        model: input.model,
+        prompt: input.prompt,
+        imageUrls: input.imageUrls,
+        options: {
+          temperature: input.temperature,
+          reasoning: input.reasoning,
+          reasoningEffort: input.reasoningEffort,
+          projectId: input.projectId,
+          action: input.action,
+          streamStepId: input.meta?.stepId,
+          streamStepAttempt: input.meta?.stepAttempt || 1,
+          streamStepTitle: input.meta?.stepTitle,
+          streamStepIndex: input.meta?.stepIndex,
+          streamStepTotal: input.meta?.stepTotal,
+        },
+      }),
     })
 
     const parts = extractTextAndReasoning(completion)
@@ -1,4 +1,5 @@
 import { normalizeAnyError } from '@/lib/errors/normalize'
+import { readRetryAfterMs } from '@/lib/provider-rate-limit/errors'
 import type { AiRuntimeError, AiRuntimeErrorCode } from './types'
 
 function toCode(value: string): AiRuntimeErrorCode {
@@ -81,6 +82,9 @@ export function toAiRuntimeError(input: unknown): AiRuntimeError {
   error.code = code
   error.retryable = code === 'EMPTY_RESPONSE' ? true : normalized.retryable
   error.provider = normalized.provider || null
+  if (code === 'RATE_LIMIT') {
+    error.retryAfterMs = readRetryAfterMs(input)
+  }
   error.cause = input
   return error
 }
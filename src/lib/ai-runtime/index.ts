@@ -6,5 +6,6 @@ export type {
   AiStepExecutionInput,
   AiStepExecutionResult,
   AiStepMeta,
+  AiTextCacheOptions,
   AiTextMessages,
 } from './types'
@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto'
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import type { AiTextMessages } from './types'
+
+/**
+ * LLM 步骤响应缓存 — 按项目 opt-in（NovelPromotionProject.llmCacheEnabled）
+ *
+ * key = model + messages + temperature + prompt 模板版本；
+ * 每条记录有 TTL，单条超过 MAX_ENTRY_BYTES 不写入，每个项目最多保留 MAX_ENTRIES_PER_PROJECT 条（按最近使用淘汰）。
+ * 缓存读写失败只记日志，不影响真实调用。
+ */
+
+const CACHE_TTL_MS = (Number.parseInt(process.env.LLM_RESPONSE_CACHE_TTL_HOURS || '168', 10) || 168) * 60 * 60_000
+const MAX_ENTRIES_PER_PROJECT = Number.parseInt(process.env.LLM_RESPONSE_CACHE_MAX_ENTRIES || '500', 10) || 500
+const MAX_ENTRY_BYTES = 512 * 1024
+
+const logger = createScopedLogger({
+  module: 'ai-runtime.response-cache',
+})
+
+export type AiTextCacheEntry = {
+  model: string
+  text: string
+  reasoning: string
+  promptTokens: number
+  completionTokens: number
+}
+
+export function buildAiTextCacheKey(input: {
+  model: string
+  messages: AiTextMessages
+  temperature?: number
+  promptVersion: string
+}): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      model: input.model,
+      messages: input.messages.map((message) => [message.role, message.content]),
+      temperature: typeof input.temperature === 'number' ? input.temperature : null,
+      promptVersion: input.promptVersion,
+    }))
+    .digest('hex')
+}
+
+export async function isProjectLlmCacheEnabled(projectId: string): Promise<boolean> {
+  const project = await prisma.novelPromotionProject.findUnique({
+    where: { projectId },
+    select: { llmCacheEnabled: true },
+  })
+  return !!project?.llmCacheEnabled
+}
+
+export async function readAiTextCache(params: {
+  projectId: string
+  cacheKey: string
+}): Promise<AiTextCacheEntry | null> {
+  try {
+    const row = await prisma.llmResponseCache.findUnique({
+      where: {
+        projectId_cacheKey: {
+          projectId: params.projectId,
+          cacheKey: params.cacheKey,
+        },
+      },
+    })
+    if (!row) return null
+    if (row.expiresAt.getTime() <= Date.now()) {
+      await prisma.llmResponseCache.deleteMany({ where: { id: row.id } })
+      return null
+    }
+    await prisma.llmResponseCache.update({
+      where: { id: row.id },
+      data: {
+        hitCount: { increment: 1 },
+        lastUsedAt: new Date(),
+      },
+    })
+    return {
+      model: row.model,
+      text: row.text,
+      reasoning: row.reasoning || '',
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+    }
+  } catch (error) {
+    logger.warn({
+      action: 'llm_cache.read_failed',
+      message: error instanceof Error ? error.message : String(error),
+      details: { projectId: params.projectId },
+    })
+    return null
+  }
+}
+
+export async function writeAiTextCache(params: {
+  projectId: string
+  cacheKey: string
+  entry: AiTextCacheEntry
+}): Promise<void> {
+  const sizeBytes = Buffer.byteLength(params.entry.text) + Buffer.byteLength(params.entry.reasoning)
+  if (!params.entry.text || sizeBytes > MAX_ENTRY_BYTES) return
+
+  const now = new Date()
+  const data = {
+    model: params.entry.model,
+    text: params.entry.text,
+    reasoning: params.entry.reasoning || null,
+    promptTokens: params.entry.promptTokens,
+    completionTokens: params.entry.completionTokens,
+    sizeBytes,
+    expiresAt: new Date(now.getTime() + CACHE_TTL_MS),
+    lastUsedAt: now,
+  }
+  try {
+    await prisma.llmResponseCache.upsert({
+      where: {
+        projectId_cacheKey: {
+          projectId: params.projectId,
+          cacheKey: params.cacheKey,
+        },
+      },
+      create: {
+        projectId: params.projectId,
+        cacheKey: params.cacheKey,
+        ...data,
+      },
+      update: data,
+    })
+    await pruneProjectCache(params.projectId, now)
+  } catch (error) {
+    logger.warn({
+      action: 'llm_cache.write_failed',
+      message: error instanceof Error ? error.message : String(error),
+      details: { projectId: params.projectId },
+    })
+  }
+}
+
+async function pruneProjectCache(projectId: string, now: Date) {
+  await prisma.llmResponseCache.deleteMany({
+    where: {
+      projectId,
+      expiresAt: { lte: now },
+    },
+  })
+  const overflow = await prisma.llmResponseCache.findMany({
+    where: { projectId },
+    orderBy: { lastUsedAt: 'desc' },
+    skip: MAX_ENTRIES_PER_PROJECT,
+    select: { id: true },
+  })
+  if (overflow.length === 0) return
+  await prisma.llmResponseCache.deleteMany({
+    where: { id: { in: overflow.map((row) => row.id) } },
+  })
+}
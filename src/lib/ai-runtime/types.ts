@@ -13,6 +13,8 @@ export type AiRuntimeError = Error & {
   code: AiRuntimeErrorCode
   retryable: boolean
   provider?: string | null
+  /** RATE_LIMIT 时建议的重试等待时间 */
+  retryAfterMs?: number | null
   cause?: unknown
 }
 
@@ -29,6 +31,12 @@ export type AiTextMessages = Array<{
   content: string
 }>
 
+/** 项目开启 LLM 缓存时生效；bypass 用于重跑时强制重新调用（结果仍会写回缓存） */
+export type AiTextCacheOptions = {
+  promptVersion: string
+  bypass?: boolean
+}
+
 export type AiStepExecutionInput = {
   userId: string
   model: string
@@ -39,6 +47,7 @@ export type AiStepExecutionInput = {
   temperature?: number
   reasoning?: boolean
   reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high'
+  cache?: AiTextCacheOptions
 }
 
 export type AiStepExecutionResult = {
@@ -50,6 +59,7 @@ export type AiStepExecutionResult = {
     totalTokens: number
   }
   completion: OpenAI.Chat.Completions.ChatCompletion
+  cacheHit?: boolean
 }
 
 export type AiVisionStepExecutionInput = {
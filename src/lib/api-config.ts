@@ -18,6 +18,7 @@ import type {
   OpenAICompatMediaTemplate,
   OpenAICompatMediaTemplateSource,
 } from './openai-compat-media-template'
+import { parseProviderRateLimit, type ProviderRateLimit } from './provider-rate-limit/config'
 import { validateOpenAICompatMediaTemplate } from './user-api/model-template/validator'
 
 export interface CustomModel {
@@ -55,6 +56,7 @@ interface CustomProvider {
   apiKey?: string
   apiMode?: 'gemini-sdk' | 'openai-official'
   gatewayRoute?: GatewayRouteType
+  rateLimit?: ProviderRateLimit
 }
 
 type LlmProtocolType = 'responses' | 'chat-completions'
@@ -177,6 +179,13 @@ function parseCustomProviders(rawProviders: string | null | undefined): CustomPr
       gatewayRoute = gatewayRouteRaw
     }
 
+    let rateLimit: ProviderRateLimit | undefined
+    try {
+      rateLimit = parseProviderRateLimit(raw.rateLimit)
+    } catch {
+      throw new Error(`PROVIDER_RATE_LIMIT_INVALID: providers[${index}].rateLimit`)
+    }
+
     providers.push({
       id,
       name,
@@ -184,6 +193,7 @@ function parseCustomProviders(rawProviders: string | null | undefined): CustomPr
       apiKey: readTrimmedString(raw.apiKey) || undefined,
       apiMode,
       gatewayRoute,
+      rateLimit,
     })
   }
 
@@ -413,6 +423,7 @@ export interface ProviderConfig {
   baseUrl?: string
   apiMode?: 'gemini-sdk' | 'openai-official'
   gatewayRoute?: GatewayRouteType
+  rateLimit?: ProviderRateLimit
 }
 
 export async function getProviderConfig(userId: string, providerId: string): Promise<ProviderConfig> {
@@ -430,6 +441,7 @@ export async function getProviderConfig(userId: string, providerId: string): Pro
     baseUrl: normalizeProviderBaseUrl(provider.id, provider.baseUrl),
     apiMode: provider.apiMode,
     gatewayRoute: provider.gatewayRoute,
+    rateLimit: provider.rateLimit,
   }
 }
 
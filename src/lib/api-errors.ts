@@ -28,6 +28,7 @@ const GENERATION_OPERATION_PATTERNS = [
   /\/analyze(?:-|\/|$)/,
   /\/tts(?:\/|$)/,
   /\/lip-sync(?:\/|$)/,
+  /\/editor\/render(?:\/|$)/,
   /\/story-to-script(?:-|\/|$)/,
   /\/script-to-storyboard(?:-|\/|$)/,
   /\/screenplay-conversion(?:\/|$)/,
@@ -374,6 +375,7 @@ export const API_ERROR_CODES = {
   FORBIDDEN: { status: getErrorSpec('FORBIDDEN').httpStatus },
   NOT_FOUND: { status: getErrorSpec('NOT_FOUND').httpStatus },
   INSUFFICIENT_BALANCE: { status: getErrorSpec('INSUFFICIENT_BALANCE').httpStatus },
+  BUDGET_EXCEEDED: { status: getErrorSpec('BUDGET_EXCEEDED').httpStatus },
   RATE_LIMIT: { status: getErrorSpec('RATE_LIMIT').httpStatus },
   MODEL_NOT_OPEN: { status: getErrorSpec('MODEL_NOT_OPEN').httpStatus },
   QUOTA_EXCEEDED: { status: getErrorSpec('QUOTA_EXCEEDED').httpStatus },
@@ -58,6 +58,7 @@ interface ArkImageGenerationRequest {
     image?: string[]  // 图生图时的参考图片
     sequential_image_generation?: 'enabled' | 'disabled'
     stream?: boolean
+    seed?: number  // 随机种子，范围 [-1, 2147483647]
 }
 
 interface ArkImageGenerationResponse {
@@ -0,0 +1,18 @@
+export * from './types'
+export {
+  assertArtStyleSelectable,
+  formatArtStylePrompt,
+  resolveArtStyle,
+  resolveArtStylePrompt,
+} from './resolve'
+export {
+  MAX_ART_STYLE_REFERENCE_IMAGES,
+  addArtStyleReferenceImage,
+  assertArtStyleReferenceImageSlot,
+  createArtStyle,
+  deleteArtStyle,
+  listArtStyles,
+  parseArtStyleInput,
+  removeArtStyleReferenceImage,
+  updateArtStyle,
+} from './service'
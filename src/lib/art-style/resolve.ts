@@ -0,0 +1,94 @@
+import { ApiError } from '@/lib/api-errors'
+import { getArtStylePrompt, isArtStyleValue, parseCustomArtStyleId } from '@/lib/constants'
+import { decodeImageUrlsFromDb } from '@/lib/contracts/image-urls-contract'
+import { prisma } from '@/lib/prisma'
+import type { ArtStyleModelOverrides, ResolvedArtStyle } from './types'
+
+export function decodeModelOverrides(raw: string | null): ArtStyleModelOverrides {
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed as ArtStyleModelOverrides
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+export async function findAccessibleArtStyle(userId: string, styleId: string) {
+  return await prisma.globalArtStyle.findFirst({
+    where: {
+      id: styleId,
+      OR: [{ userId }, { isShared: true }],
+    },
+  })
+}
+
+/**
+ * 保存项目 / 偏好中的画风前校验：内置画风直接通过，自定义画风须为自己的或共享的
+ */
+export async function assertArtStyleSelectable(userId: string, artStyle: unknown) {
+  if (!isArtStyleValue(artStyle)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'INVALID_ART_STYLE', field: 'artStyle' })
+  }
+  const styleId = parseCustomArtStyleId(artStyle)
+  if (!styleId) return
+  if (!await findAccessibleArtStyle(userId, styleId)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'ART_STYLE_NOT_FOUND', field: 'artStyle' })
+  }
+}
+
+/**
+ * 解析生成用画风：内置画风取常量；自定义画风按语言取提示词，并应用当前模型的覆盖。
+ * 画风已删除或不再共享时返回空画风，由调用方回退到默认描述
+ */
+export async function resolveArtStyle(params: {
+  artStyle: string | null | undefined
+  userId: string
+  locale: 'zh' | 'en'
+  modelKey?: string | null
+}): Promise<ResolvedArtStyle> {
+  const styleId = parseCustomArtStyleId(params.artStyle)
+  if (!styleId) {
+    return {
+      prompt: getArtStylePrompt(params.artStyle, params.locale),
+      negativePrompt: '',
+      referenceImages: [],
+    }
+  }
+
+  const style = await findAccessibleArtStyle(params.userId, styleId)
+  if (!style) return { prompt: '', negativePrompt: '', referenceImages: [] }
+
+  const override = params.modelKey ? decodeModelOverrides(style.modelOverrides)[params.modelKey] : undefined
+  const prompt = params.locale === 'en'
+    ? override?.promptEn || style.promptEn
+    : override?.promptZh || style.promptZh
+  return {
+    prompt,
+    negativePrompt: override?.negativePrompt || style.negativePrompt || '',
+    referenceImages: decodeImageUrlsFromDb(style.referenceImages, 'globalArtStyle.referenceImages'),
+  }
+}
+
+/**
+ * 画风提示词文本：多数图片模型不支持独立的负面提示词参数，统一以“避免”语句并入提示词
+ */
+export function formatArtStylePrompt(style: ResolvedArtStyle, locale: 'zh' | 'en'): string {
+  if (!style.negativePrompt) return style.prompt
+  const avoid = locale === 'en' ? `Avoid: ${style.negativePrompt}` : `避免：${style.negativePrompt}`
+  return style.prompt ? `${style.prompt}${locale === 'en' ? '. ' : '。'}${avoid}` : avoid
+}
+
+/**
+ * 解析并格式化画风提示词（不需要参考图的生成链路使用）
+ */
+export async function resolveArtStylePrompt(params: {
+  artStyle: string | null | undefined
+  userId: string
+  locale: 'zh' | 'en'
+  modelKey?: string | null
+}): Promise<string> {
+  return formatArtStylePrompt(await resolveArtStyle(params), params.locale)
+}
@@ -0,0 +1,231 @@
+import type { GlobalArtStyle } from '@prisma/client'
+import { ApiError } from '@/lib/api-errors'
+import { toCustomArtStyleValue } from '@/lib/constants'
+import { decodeImageUrlsFromDb, encodeImageUrls } from '@/lib/contracts/image-urls-contract'
+import { logWarn as _ulogWarn } from '@/lib/logging/core'
+import { releaseStorageObject } from '@/lib/media/dedup'
+import { resolveMediaRefFromLegacyValue, resolveStorageKeyFromMediaValue } from '@/lib/media/service'
+import { prisma } from '@/lib/prisma'
+import type {
+  ArtStyleInput,
+  ArtStyleModelOverride,
+  ArtStyleModelOverrides,
+  ArtStyleSummary,
+} from './types'
+import { decodeModelOverrides } from './resolve'
+
+export const MAX_ART_STYLE_REFERENCE_IMAGES = 4
+const MAX_ART_STYLE_NAME_LENGTH = 60
+const MAX_ART_STYLE_PROMPT_LENGTH = 2000
+
+function invalid(code: string, field: string): never {
+  throw new ApiError('INVALID_PARAMS', { code, field })
+}
+
+function readText(value: unknown, field: string, maxLength: number): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value !== 'string') invalid('ART_STYLE_FIELD_INVALID', field)
+  const text = value.trim()
+  if (text.length > maxLength) invalid('ART_STYLE_FIELD_TOO_LONG', field)
+  return text
+}
+
+function parseModelOverride(value: unknown, field: string): ArtStyleModelOverride | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) invalid('ART_STYLE_FIELD_INVALID', field)
+  const raw = value as Record<string, unknown>
+  const override: ArtStyleModelOverride = {}
+  const promptZh = readText(raw.promptZh, `${field}.promptZh`, MAX_ART_STYLE_PROMPT_LENGTH)
+  const promptEn = readText(raw.promptEn, `${field}.promptEn`, MAX_ART_STYLE_PROMPT_LENGTH)
+  const negativePrompt = readText(raw.negativePrompt, `${field}.negativePrompt`, MAX_ART_STYLE_PROMPT_LENGTH)
+  if (promptZh) override.promptZh = promptZh
+  if (promptEn) override.promptEn = promptEn
+  if (negativePrompt) override.negativePrompt = negativePrompt
+  return Object.keys(override).length > 0 ? override : null
+}
+
+function parseModelOverrides(value: unknown): ArtStyleModelOverrides {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) invalid('ART_STYLE_FIELD_INVALID', 'modelOverrides')
+  const overrides: ArtStyleModelOverrides = {}
+  for (const [modelKey, raw] of Object.entries(value as Record<string, unknown>)) {
+    const key = modelKey.trim()
+    if (!key) continue
+    const override = parseModelOverride(raw, `modelOverrides.${key}`)
+    if (override) overrides[key] = override
+  }
+  return overrides
+}
+
+/**
+ * 校验画风请求体；partial 时只校验出现的字段（用于 PATCH）
+ */
+export function parseArtStyleInput(body: unknown, options: { partial?: boolean } = {}): Partial<ArtStyleInput> {
+  const raw = body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : {}
+  const has = (field: string) => Object.prototype.hasOwnProperty.call(raw, field)
+  const input: Partial<ArtStyleInput> = {}
+
+  if (!options.partial || has('name')) {
+    const name = readText(raw.name, 'name', MAX_ART_STYLE_NAME_LENGTH)
+    if (!name) invalid('ART_STYLE_NAME_REQUIRED', 'name')
+    input.name = name
+  }
+  if (!options.partial || has('promptZh') || has('promptEn')) {
+    const promptZh = readText(raw.promptZh, 'promptZh', MAX_ART_STYLE_PROMPT_LENGTH)
+    const promptEn = readText(raw.promptEn, 'promptEn', MAX_ART_STYLE_PROMPT_LENGTH)
+    if (!promptZh && !promptEn) invalid('ART_STYLE_PROMPT_REQUIRED', 'promptZh')
+    // 只填一种语言时两种语言共用
+    input.promptZh = promptZh || promptEn
+    input.promptEn = promptEn || promptZh
+  }
+  if (!options.partial || has('negativePrompt')) {
+    input.negativePrompt = readText(raw.negativePrompt, 'negativePrompt', MAX_ART_STYLE_PROMPT_LENGTH) || null
+  }
+  if (!options.partial || has('modelOverrides')) {
+    input.modelOverrides = parseModelOverrides(raw.modelOverrides)
+  }
+  if (!options.partial || has('isShared')) {
+    if (raw.isShared !== undefined && typeof raw.isShared !== 'boolean') invalid('ART_STYLE_FIELD_INVALID', 'isShared')
+    input.isShared = raw.isShared === true
+  }
+  return input
+}
+
+async function toArtStyleSummary(style: GlobalArtStyle, userId: string): Promise<ArtStyleSummary> {
+  const referenceImages = decodeImageUrlsFromDb(style.referenceImages, 'globalArtStyle.referenceImages')
+  const refs = await Promise.all(referenceImages.map((key) => resolveMediaRefFromLegacyValue(key)))
+  return {
+    id: style.id,
+    value: toCustomArtStyleValue(style.id),
+    name: style.name,
+    promptZh: style.promptZh,
+    promptEn: style.promptEn,
+    negativePrompt: style.negativePrompt,
+    referenceImages,
+    referenceImageUrls: referenceImages.map((key, index) => refs[index]?.url || key),
+    modelOverrides: decodeModelOverrides(style.modelOverrides),
+    isShared: style.isShared,
+    isOwner: style.userId === userId,
+    updatedAt: style.updatedAt.toISOString(),
+  }
+}
+
+async function requireOwnedArtStyle(userId: string, styleId: string) {
+  const style = await prisma.globalArtStyle.findUnique({ where: { id: styleId } })
+  if (!style) throw new ApiError('NOT_FOUND')
+  if (style.userId !== userId) throw new ApiError('FORBIDDEN')
+  return style
+}
+
+/**
+ * 释放画风不再引用的参考图；释放失败只记录，不影响画风本身的修改
+ */
+async function releaseArtStyleReferenceImages(referenceImages: string[]) {
+  for (const value of referenceImages) {
+    const key = await resolveStorageKeyFromMediaValue(value)
+    if (!key) continue
+    try {
+      await releaseStorageObject(key)
+    } catch {
+      _ulogWarn('Failed to release art style reference image:', key)
+    }
+  }
+}
+
+/**
+ * 画风库：自己的画风 + 其他用户共享的画风
+ */
+export async function listArtStyles(userId: string): Promise<ArtStyleSummary[]> {
+  const styles = await prisma.globalArtStyle.findMany({
+    where: { OR: [{ userId }, { isShared: true }] },
+    orderBy: { updatedAt: 'desc' },
+  })
+  return await Promise.all(styles.map((style) => toArtStyleSummary(style, userId)))
+}
+
+export async function createArtStyle(userId: string, body: unknown): Promise<ArtStyleSummary> {
+  const input = parseArtStyleInput(body) as ArtStyleInput
+  const style = await prisma.globalArtStyle.create({
+    data: {
+      userId,
+      name: input.name,
+      promptZh: input.promptZh,
+      promptEn: input.promptEn,
+      negativePrompt: input.negativePrompt,
+      modelOverrides: JSON.stringify(input.modelOverrides),
+      isShared: input.isShared,
+      sharedAt: input.isShared ? new Date() : null,
+    },
+  })
+  return await toArtStyleSummary(style, userId)
+}
+
+export async function updateArtStyle(userId: string, styleId: string, body: unknown): Promise<ArtStyleSummary> {
+  const existing = await requireOwnedArtStyle(userId, styleId)
+  const input = parseArtStyleInput(body, { partial: true })
+  const style = await prisma.globalArtStyle.update({
+    where: { id: existing.id },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.promptZh !== undefined ? { promptZh: input.promptZh } : {}),
+      ...(input.promptEn !== undefined ? { promptEn: input.promptEn } : {}),
+      ...(input.negativePrompt !== undefined ? { negativePrompt: input.negativePrompt } : {}),
+      ...(input.modelOverrides !== undefined ? { modelOverrides: JSON.stringify(input.modelOverrides) } : {}),
+      ...(input.isShared !== undefined
+        ? { isShared: input.isShared, sharedAt: input.isShared ? existing.sharedAt || new Date() : null }
+        : {}),
+    },
+  })
+  return await toArtStyleSummary(style, userId)
+}
+
+export async function deleteArtStyle(userId: string, styleId: string) {
+  const existing = await requireOwnedArtStyle(userId, styleId)
+  await prisma.globalArtStyle.delete({ where: { id: existing.id } })
+  await releaseArtStyleReferenceImages(
+    decodeImageUrlsFromDb(existing.referenceImages, 'globalArtStyle.referenceImages'),
+  )
+}
+
+async function requireArtStyleReferenceSlot(userId: string, styleId: string) {
+  const existing = await requireOwnedArtStyle(userId, styleId)
+  const referenceImages = decodeImageUrlsFromDb(existing.referenceImages, 'globalArtStyle.referenceImages')
+  if (referenceImages.length >= MAX_ART_STYLE_REFERENCE_IMAGES) {
+    invalid('ART_STYLE_REFERENCE_LIMIT', 'file')
+  }
+  return { existing, referenceImages }
+}
+
+/**
+ * 上传参考图前校验：画风归属与参考图数量上限，避免上传后才被拒绝留下孤儿对象
+ */
+export async function assertArtStyleReferenceImageSlot(userId: string, styleId: string) {
+  await requireArtStyleReferenceSlot(userId, styleId)
+}
+
+export async function addArtStyleReferenceImage(userId: string, styleId: string, key: string): Promise<ArtStyleSummary> {
+  const { existing, referenceImages } = await requireArtStyleReferenceSlot(userId, styleId)
+  const style = await prisma.globalArtStyle.update({
+    where: { id: existing.id },
+    data: { referenceImages: encodeImageUrls([...referenceImages, key], 'globalArtStyle.referenceImages') },
+  })
+  return await toArtStyleSummary(style, userId)
+}
+
+export async function removeArtStyleReferenceImage(userId: string, styleId: string, index: number): Promise<ArtStyleSummary> {
+  const existing = await requireOwnedArtStyle(userId, styleId)
+  const referenceImages = decodeImageUrlsFromDb(existing.referenceImages, 'globalArtStyle.referenceImages')
+  if (!Number.isInteger(index) || index < 0 || index >= referenceImages.length) {
+    invalid('ART_STYLE_REFERENCE_INDEX_INVALID', 'index')
+  }
+  const style = await prisma.globalArtStyle.update({
+    where: { id: existing.id },
+    data: {
+      referenceImages: encodeImageUrls(
+        referenceImages.filter((_, itemIndex) => itemIndex !== index),
+        'globalArtStyle.referenceImages',
+      ),
+    },
+  })
+  await releaseArtStyleReferenceImages([referenceImages[index]])
+  return await toArtStyleSummary(style, userId)
+}
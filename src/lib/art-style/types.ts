@@ -0,0 +1,41 @@
+export interface ArtStyleModelOverride {
+  promptZh?: string
+  promptEn?: string
+  negativePrompt?: string
+}
+
+export type ArtStyleModelOverrides = Record<string, ArtStyleModelOverride>
+
+export interface ArtStyleInput {
+  name: string
+  promptZh: string
+  promptEn: string
+  negativePrompt: string | null
+  modelOverrides: ArtStyleModelOverrides
+  isShared: boolean
+}
+
+export interface ArtStyleSummary {
+  id: string
+  // 项目 / 资产中引用的值：custom:<id>
+  value: string
+  name: string
+  promptZh: string
+  promptEn: string
+  negativePrompt: string | null
+  referenceImages: string[]
+  referenceImageUrls: string[]
+  modelOverrides: ArtStyleModelOverrides
+  isShared: boolean
+  isOwner: boolean
+  updatedAt: string
+}
+
+/**
+ * 生成时使用的画风：提示词已按语言与模型覆盖解析，参考图为存储 key
+ */
+export interface ResolvedArtStyle {
+  prompt: string
+  negativePrompt: string
+  referenceImages: string[]
+}
@@ -0,0 +1,145 @@
+import { APP_VERSION } from '@/lib/app-meta'
+import { decodeImageUrlsFromDb, encodeImageUrls } from '@/lib/contracts/image-urls-contract'
+import { prisma } from '@/lib/prisma'
+import { isBailianManagedVoiceBinding } from '@/lib/providers/bailian/voice-cleanup'
+import {
+  ArchiveMediaCollector,
+  createArchiveZipStream,
+  toArchiveMediaEntries,
+  type ArchiveRecord,
+  type CollectedArchiveMedia,
+} from '@/lib/project-archive'
+import { ASSET_BUNDLE_MODEL_SPECS } from './schema'
+import {
+  ASSET_BUNDLE_FORMAT,
+  ASSET_BUNDLE_SCHEMA_VERSION,
+  type AssetBundleManifest,
+} from './types'
+
+type VoiceBinding = { voiceId: string | null; voiceType: string | null }
+
+export interface AssetBundleBuildResult {
+  manifest: AssetBundleManifest
+  media: CollectedArchiveMedia[]
+}
+
+/**
+ * 设计音色等与提供商账号绑定的 voiceId 换账号后不可用，不随资产包导出
+ */
+export function isPortableVoiceId(binding: VoiceBinding): boolean {
+  if (!binding.voiceId) return false
+  return !isBailianManagedVoiceBinding(binding)
+}
+
+async function loadFolderTree(folderId: string) {
+  return await prisma.globalAssetFolder.findUnique({
+    where: { id: folderId },
+    include: {
+      characters: {
+        include: { appearances: { orderBy: { appearanceIndex: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      locations: {
+        include: { images: { orderBy: { imageIndex: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      voices: { orderBy: { createdAt: 'asc' } },
+    },
+  })
+}
+
+type FolderTree = NonNullable<Awaited<ReturnType<typeof loadFolderTree>>>
+
+/**
+ * 形象只保留选中的图片，选择规则与资产选择器预览一致
+ */
+function selectAppearanceImage(appearance: FolderTree['characters'][number]['appearances'][number]) {
+  const urls = decodeImageUrlsFromDb(appearance.imageUrls, 'globalCharacterAppearance.imageUrls')
+  const selectedUrl = urls[appearance.selectedIndex ?? 0] || urls[0] || appearance.imageUrl || null
+  return {
+    ...appearance,
+    imageUrl: selectedUrl,
+    imageUrls: encodeImageUrls(selectedUrl ? [selectedUrl] : []),
+    selectedIndex: selectedUrl ? 0 : null,
+  }
+}
+
+function selectLocationImage(location: FolderTree['locations'][number]) {
+  const selected = location.images.find((image) => image.isSelected && image.imageUrl)
+    || location.images.find((image) => image.imageUrl)
+  return selected ? [{ ...selected, imageIndex: 0, isSelected: true }] : []
+}
+
+/**
+ * 生成文件夹的资产包清单 (不含媒体文件内容)
+ * 角色绑定的全局音色仅在同一文件夹内时保留绑定关系
+ */
+export async function buildAssetBundleManifest(folderId: string): Promise<AssetBundleBuildResult | null> {
+  const folder = await loadFolderTree(folderId)
+  if (!folder) return null
+
+  const media = new ArchiveMediaCollector()
+  const bundledVoiceIds = new Set(folder.voices.map((voice) => voice.id))
+  let omittedVoiceIds = 0
+
+  const portableVoice = <T extends VoiceBinding>(row: T): T => {
+    if (!row.voiceId || isPortableVoiceId(row)) return row
+    omittedVoiceIds += 1
+    return { ...row, voiceId: null }
+  }
+
+  const characters = []
+  for (const character of folder.characters) {
+    const appearances: ArchiveRecord[] = []
+    for (const appearance of character.appearances) {
+      appearances.push(await media.collectRecord(ASSET_BUNDLE_MODEL_SPECS.appearance, selectAppearanceImage(appearance)))
+    }
+    characters.push({
+      ...(await media.collectRecord(ASSET_BUNDLE_MODEL_SPECS.character, portableVoice(character), {
+        globalVoiceId: character.globalVoiceId && bundledVoiceIds.has(character.globalVoiceId)
+          ? character.globalVoiceId
+          : null,
+      })),
+      appearances,
+    })
+  }
+
+  const locations = []
+  for (const location of folder.locations) {
+    const images: ArchiveRecord[] = []
+    for (const image of selectLocationImage(location)) {
+      images.push(await media.collectRecord(ASSET_BUNDLE_MODEL_SPECS.locationImage, image))
+    }
+    locations.push({ ...(await media.collectRecord(ASSET_BUNDLE_MODEL_SPECS.location, location)), images })
+  }
+
+  const voices: ArchiveRecord[] = []
+  for (const voice of folder.voices) {
+    voices.push(await media.collectRecord(ASSET_BUNDLE_MODEL_SPECS.voice, portableVoice(voice)))
+  }
+
+  const entries = media.entries
+  return {
+    manifest: {
+      format: ASSET_BUNDLE_FORMAT,
+      schemaVersion: ASSET_BUNDLE_SCHEMA_VERSION,
+      appVersion: APP_VERSION,
+      exportedAt: new Date().toISOString(),
+      folder: { name: folder.name },
+      characters,
+      locations,
+      voices,
+      media: toArchiveMediaEntries(entries),
+      missingMedia: media.missingValues,
+      omittedVoiceIds,
+    },
+    media: entries,
+  }
+}
+
+/**
+ * 将资产包写入 zip 流
+ */
+export function createAssetBundleStream(result: AssetBundleBuildResult): ReadableStream<Uint8Array> {
+  return createArchiveZipStream(result.manifest, result.media)
+}
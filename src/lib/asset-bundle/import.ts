@@ -0,0 +1,255 @@
+import { Prisma } from '@prisma/client'
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import {
+  ProjectArchiveError,
+  importArchiveMedia,
+  readArchiveManifest,
+  restoreArchiveRecord,
+  type ArchiveRecord,
+  type ImportedArchiveMedia,
+} from '@/lib/project-archive'
+import { ASSET_BUNDLE_MODEL_SPECS, validateAssetBundleManifest } from './schema'
+import type {
+  AssetBundleConflictStrategy,
+  AssetBundleImportItem,
+  AssetBundleImportResult,
+  AssetBundleItemAction,
+  AssetBundleItemKind,
+  AssetBundleManifest,
+} from './types'
+
+const logger = createScopedLogger({
+  module: 'asset.bundle',
+  action: 'asset.bundle.import',
+})
+
+const MERGE_TRANSACTION_TIMEOUT_MS = 60_000
+
+export interface AssetBundleMergeOptions {
+  userId: string
+  conflict: AssetBundleConflictStrategy
+  // 未指定时新建与资产包同名的文件夹
+  targetFolderId?: string | null
+}
+
+type NamedRow = { id: string; name: string }
+
+/**
+ * 按名称处理冲突：同名判断范围为用户整个资产库的同类资产
+ */
+class NameRegistry {
+  private readonly byName = new Map<string, string>()
+
+  constructor(rows: NamedRow[]) {
+    for (const row of rows) this.byName.set(row.name.trim(), row.id)
+  }
+
+  existingId(name: string): string | null {
+    return this.byName.get(name.trim()) ?? null
+  }
+
+  uniqueName(name: string): string {
+    const base = name.trim()
+    let suffix = 2
+    while (this.byName.has(`${base} (${suffix})`)) suffix += 1
+    return `${base} (${suffix})`
+  }
+
+  register(name: string, id: string) {
+    this.byName.set(name.trim(), id)
+  }
+}
+
+interface ResolvedItem {
+  action: AssetBundleItemAction
+  name: string
+  existingId: string | null
+}
+
+function resolveConflict(
+  registry: NameRegistry,
+  name: string,
+  conflict: AssetBundleConflictStrategy,
+): ResolvedItem {
+  const existingId = registry.existingId(name)
+  if (!existingId) return { action: 'created', name, existingId: null }
+  if (conflict === 'skip') return { action: 'skipped', name, existingId }
+  if (conflict === 'overwrite') return { action: 'overwritten', name, existingId }
+  return { action: 'renamed', name: registry.uniqueName(name), existingId: null }
+}
+
+async function mergeIntoLibrary(
+  tx: Prisma.TransactionClient,
+  manifest: AssetBundleManifest,
+  media: Map<string, ImportedArchiveMedia>,
+  options: AssetBundleMergeOptions,
+): Promise<{ folderId: string; items: AssetBundleImportItem[] }> {
+  const { userId, conflict } = options
+  const folderId = options.targetFolderId
+    || (await tx.globalAssetFolder.create({ data: { userId, name: manifest.folder.name } })).id
+
+  const [characters, locations, voices] = await Promise.all([
+    tx.globalCharacter.findMany({ where: { userId }, select: { id: true, name: true } }),
+    tx.globalLocation.findMany({ where: { userId }, select: { id: true, name: true } }),
+    tx.globalVoice.findMany({ where: { userId }, select: { id: true, name: true } }),
+  ])
+  const registries: Record<AssetBundleItemKind, NameRegistry> = {
+    character: new NameRegistry(characters),
+    location: new NameRegistry(locations),
+    voice: new NameRegistry(voices),
+  }
+
+  const items: AssetBundleImportItem[] = []
+  const record = (kind: AssetBundleItemKind, source: ArchiveRecord, resolved: ResolvedItem, id: string | null) => {
+    const name = String(source.name)
+    items.push({ kind, name, finalName: resolved.name, action: resolved.action, id })
+    if (id) registries[kind].register(resolved.name, id)
+  }
+
+  // 音色先写入，角色绑定的全局音色按新 ID 重映射；跳过的音色沿用库中同名音色
+  const voiceIds = new Map<string, string>()
+  for (const voice of manifest.voices) {
+    const resolved = resolveConflict(registries.voice, String(voice.name), conflict)
+    const data = {
+      ...restoreArchiveRecord(ASSET_BUNDLE_MODEL_SPECS.voice, voice, media),
+      name: resolved.name,
+    }
+    let id = resolved.existingId
+    if (resolved.action === 'overwritten' && id) {
+      await tx.globalVoice.update({ where: { id }, data: data as Prisma.GlobalVoiceUncheckedUpdateInput })
+    } else if (resolved.action !== 'skipped') {
+      id = (await tx.globalVoice.create({
+        data: { ...data, userId, folderId } as Prisma.GlobalVoiceUncheckedCreateInput,
+      })).id
+    }
+    if (id) voiceIds.set(voice.id, id)
+    record('voice', voice, resolved, id)
+  }
+
+  for (const character of manifest.characters) {
+    const resolved = resolveConflict(registries.character, String(character.name), conflict)
+    if (resolved.action === 'skipped') {
+      record('character', character, resolved, resolved.existingId)
+      continue
+    }
+    const data = {
+      ...restoreArchiveRecord(ASSET_BUNDLE_MODEL_SPECS.character, character, media),
+      name: resolved.name,
+      globalVoiceId: typeof character.globalVoiceId === 'string' ? voiceIds.get(character.globalVoiceId) ?? null : null,
+    }
+    let characterId: string
+    if (resolved.action === 'overwritten' && resolved.existingId) {
+      characterId = resolved.existingId
+      await tx.globalCharacter.update({
+        where: { id: characterId },
+        data: data as Prisma.GlobalCharacterUncheckedUpdateInput,
+      })
+      await tx.globalCharacterAppearance.deleteMany({ where: { characterId } })
+    } else {
+      characterId = (await tx.globalCharacter.create({
+        data: { ...data, userId, folderId } as Prisma.GlobalCharacterUncheckedCreateInput,
+      })).id
+    }
+    if (character.appearances.length > 0) {
+      await tx.globalCharacterAppearance.createMany({
+        data: character.appearances.map((appearance) => ({
+          ...restoreArchiveRecord(ASSET_BUNDLE_MODEL_SPECS.appearance, appearance, media),
+          characterId,
+        }) as Prisma.GlobalCharacterAppearanceCreateManyInput),
+      })
+    }
+    record('character', character, resolved, characterId)
+  }
+
+  for (const location of manifest.locations) {
+    const resolved = resolveConflict(registries.location, String(location.name), conflict)
+    if (resolved.action === 'skipped') {
+      record('location', location, resolved, resolved.existingId)
+      continue
+    }
+    const data = {
+      ...restoreArchiveRecord(ASSET_BUNDLE_MODEL_SPECS.location, location, media),
+      name: resolved.name,
+    }
+    let locationId: string
+    if (resolved.action === 'overwritten' && resolved.existingId) {
+      locationId = resolved.existingId
+      await tx.globalLocation.update({
+        where: { id: locationId },
+        data: data as Prisma.GlobalLocationUncheckedUpdateInput,
+      })
+      await tx.globalLocationImage.deleteMany({ where: { locationId } })
+    } else {
+      locationId = (await tx.globalLocation.create({
+        data: { ...data, userId, folderId } as Prisma.GlobalLocationUncheckedCreateInput,
+      })).id
+    }
+    if (location.images.length > 0) {
+      await tx.globalLocationImage.createMany({
+        data: location.images.map((image) => ({
+          ...restoreArchiveRecord(ASSET_BUNDLE_MODEL_SPECS.locationImage, image, media),
+          locationId,
+        }) as Prisma.GlobalLocationImageCreateManyInput),
+      })
+    }
+    record('location', location, resolved, locationId)
+  }
+
+  return { folderId, items }
+}
+
+/**
+ * 将资产包合并进用户资产库；媒体需已导入存储，media 为 ref → 存储对象
+ * 覆盖时保留原资产的 ID 与所在文件夹，形象 / 图片整体替换
+ */
+export async function mergeAssetBundle(
+  manifest: AssetBundleManifest,
+  media: Map<string, ImportedArchiveMedia>,
+  options: AssetBundleMergeOptions,
+): Promise<AssetBundleImportResult> {
+  let merged: { folderId: string; items: AssetBundleImportItem[] }
+  try {
+    merged = await prisma.$transaction(
+      async (tx) => await mergeIntoLibrary(tx, manifest, media, options),
+      { timeout: MERGE_TRANSACTION_TIMEOUT_MS },
+    )
+  } catch (error: unknown) {
+    if (error instanceof Prisma.PrismaClientValidationError) {
+      throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', 'manifest contains field values of unexpected types')
+    }
+    throw error
+  }
+
+  const counts: Record<AssetBundleItemAction, number> = { created: 0, renamed: 0, overwritten: 0, skipped: 0 }
+  for (const item of merged.items) counts[item.action] += 1
+
+  logger.info({
+    action: 'asset.bundle.merged',
+    message: 'asset bundle merged into library',
+    userId: options.userId,
+    details: {
+      folderId: merged.folderId,
+      conflict: options.conflict,
+      schemaVersion: manifest.schemaVersion,
+      counts,
+    },
+  })
+
+  return {
+    folderId: merged.folderId,
+    mediaCount: media.size,
+    items: merged.items,
+    counts,
+  }
+}
+
+/**
+ * 导入资产包 zip：校验清单 → 上传媒体 → 按冲突策略合并进资产库
+ */
+export async function importAssetBundle(params: AssetBundleMergeOptions & { archive: Buffer }): Promise<AssetBundleImportResult> {
+  const { archive, ...options } = params
+  const { zip, manifest } = await readArchiveManifest(archive, validateAssetBundleManifest)
+  const media = await importArchiveMedia(zip, manifest.media, options.userId)
+  return await mergeAssetBundle(manifest, media, options)
+}
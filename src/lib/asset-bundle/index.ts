@@ -0,0 +1,16 @@
+export * from './types'
+export { ASSET_BUNDLE_MODEL_SPECS, validateAssetBundleManifest } from './schema'
+export {
+  buildAssetBundleManifest,
+  createAssetBundleStream,
+  isPortableVoiceId,
+  type AssetBundleBuildResult,
+} from './export'
+export { importAssetBundle, mergeAssetBundle, type AssetBundleMergeOptions } from './import'
+export {
+  copySharedAssetFolder,
+  getSharedAssetFolder,
+  listSharedAssetFolders,
+  type SharedAssetFolderSummary,
+  type SharedAssetSelection,
+} from './shared'
@@ -0,0 +1,87 @@
+import {
+  expectArray,
+  expectObject,
+  expectRecords,
+  expectString,
+  validateArchiveHeader,
+  validateArchiveMediaEntries,
+  type ArchiveModelSpec,
+} from '@/lib/project-archive'
+import {
+  ASSET_BUNDLE_FORMAT,
+  ASSET_BUNDLE_SCHEMA_VERSION,
+  type AssetBundleManifest,
+} from './types'
+
+/**
+ * 资产包中每个模型保留的字段，含义同项目归档 (ARCHIVE_MODEL_SPECS)
+ * 形象与场景只导出选中的图片，撤回历史不导出；角色绑定的全局音色由导入逻辑重映射
+ */
+export const ASSET_BUNDLE_MODEL_SPECS = {
+  character: {
+    fields: ['name', 'aliases', 'profileData', 'profileConfirmed', 'voiceId', 'voiceType'],
+    mediaFields: ['customVoiceUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { customVoiceUrl: 'customVoiceMediaId' },
+  },
+  appearance: {
+    fields: ['appearanceIndex', 'changeReason', 'artStyle', 'description', 'descriptions', 'selectedIndex'],
+    mediaFields: ['imageUrl'],
+    mediaJsonFields: ['imageUrls'],
+    mediaIdColumns: { imageUrl: 'imageMediaId' },
+  },
+  location: {
+    fields: ['name', 'artStyle', 'summary', 'assetKind'],
+    mediaFields: [],
+    mediaJsonFields: [],
+    mediaIdColumns: {},
+  },
+  locationImage: {
+    fields: ['imageIndex', 'description', 'availableSlots', 'isSelected'],
+    mediaFields: ['imageUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { imageUrl: 'imageMediaId' },
+  },
+  voice: {
+    fields: ['name', 'description', 'voiceId', 'voiceType', 'voicePrompt', 'gender', 'language'],
+    mediaFields: ['customVoiceUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { customVoiceUrl: 'customVoiceMediaId' },
+  },
+} as const satisfies Record<string, ArchiveModelSpec>
+
+export type AssetBundleModelName = keyof typeof ASSET_BUNDLE_MODEL_SPECS
+
+function expectNamedRecords(value: unknown, path: string, children: Record<string, 'array'> = {}) {
+  expectRecords(value, path, children)
+  ;(value as Array<Record<string, unknown>>).forEach((record, index) => {
+    expectString(record.name, `${path}[${index}].name`)
+    for (const key of Object.keys(children)) {
+      expectRecords(record[key], `${path}[${index}].${key}`)
+    }
+  })
+}
+
+/**
+ * 校验资产包清单：格式标识、版本号与结构
+ */
+export function validateAssetBundleManifest(raw: unknown): AssetBundleManifest {
+  const manifest = expectObject(raw, 'manifest')
+
+  validateArchiveHeader(manifest, {
+    format: ASSET_BUNDLE_FORMAT,
+    schemaVersion: ASSET_BUNDLE_SCHEMA_VERSION,
+    label: 'asset bundle',
+  })
+
+  const folder = expectObject(manifest.folder, 'manifest.folder')
+  expectString(folder.name, 'manifest.folder.name')
+
+  expectNamedRecords(manifest.characters, 'manifest.characters', { appearances: 'array' })
+  expectNamedRecords(manifest.locations, 'manifest.locations', { images: 'array' })
+  expectNamedRecords(manifest.voices, 'manifest.voices')
+  validateArchiveMediaEntries(manifest.media)
+  if (manifest.missingMedia !== undefined) expectArray(manifest.missingMedia, 'manifest.missingMedia')
+
+  return manifest as unknown as AssetBundleManifest
+}
@@ -0,0 +1,192 @@
+import { decodeImageUrlsFromDb } from '@/lib/contracts/image-urls-contract'
+import { PRIMARY_APPEARANCE_INDEX } from '@/lib/constants'
+import { retainMediaObject } from '@/lib/media/dedup'
+import { ensureMediaObjectFromStorageKey, resolveMediaRefFromLegacyValue } from '@/lib/media/service'
+import { prisma } from '@/lib/prisma'
+import { ARCHIVE_MEDIA_TOKEN_PREFIX, type ImportedArchiveMedia } from '@/lib/project-archive'
+import { buildAssetBundleManifest } from './export'
+import { mergeAssetBundle, type AssetBundleMergeOptions } from './import'
+import type { AssetBundleImportItem, AssetBundleImportResult, AssetBundleItemKind } from './types'
+
+export interface SharedAssetFolderSummary {
+  id: string
+  name: string
+  ownerName: string
+  sharedAt: Date | null
+  characterCount: number
+  locationCount: number
+  voiceCount: number
+}
+
+export interface SharedAssetSelection {
+  characterIds?: string[]
+  locationIds?: string[]
+  voiceIds?: string[]
+}
+
+async function previewUrlOf(value: string | null | undefined): Promise<string | null> {
+  if (!value) return null
+  const media = await resolveMediaRefFromLegacyValue(value)
+  return media?.url || value
+}
+
+/**
+ * 其他用户共享的文件夹 (不含自己的)
+ */
+export async function listSharedAssetFolders(viewerUserId: string): Promise<SharedAssetFolderSummary[]> {
+  const folders = await prisma.globalAssetFolder.findMany({
+    where: { isShared: true, userId: { not: viewerUserId } },
+    include: {
+      user: { select: { name: true } },
+      _count: { select: { characters: true, locations: true, voices: true } },
+    },
+    orderBy: { sharedAt: 'desc' },
+  })
+
+  return folders.map((folder) => ({
+    id: folder.id,
+    name: folder.name,
+    ownerName: folder.user.name,
+    sharedAt: folder.sharedAt,
+    characterCount: folder._count.characters,
+    locationCount: folder._count.locations,
+    voiceCount: folder._count.voices,
+  }))
+}
+
+/**
+ * 共享文件夹的只读内容，结构与资产选择器一致；未共享时返回 null
+ */
+export async function getSharedAssetFolder(folderId: string) {
+  const folder = await prisma.globalAssetFolder.findFirst({
+    where: { id: folderId, isShared: true },
+    include: {
+      user: { select: { name: true } },
+      characters: {
+        include: { appearances: { orderBy: { appearanceIndex: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      locations: {
+        include: { images: { orderBy: { imageIndex: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      voices: { orderBy: { createdAt: 'asc' } },
+    },
+  })
+  if (!folder) return null
+
+  const characters = await Promise.all(folder.characters.map(async (character) => {
+    const primary = character.appearances.find((a) => a.appearanceIndex === PRIMARY_APPEARANCE_INDEX) || character.appearances[0]
+    const urls = primary ? decodeImageUrlsFromDb(primary.imageUrls, 'globalCharacterAppearance.imageUrls') : []
+    return {
+      id: character.id,
+      name: character.name,
+      previewUrl: await previewUrlOf(primary ? urls[primary.selectedIndex ?? 0] || urls[0] || primary.imageUrl : null),
+      appearanceCount: character.appearances.length,
+      hasVoice: !!(character.voiceId || character.customVoiceUrl),
+    }
+  }))
+
+  const locations = await Promise.all(folder.locations.map(async (location) => {
+    const selectedImage = location.images.find((image) => image.isSelected) || location.images[0]
+    return {
+      id: location.id,
+      name: location.name,
+      summary: location.summary,
+      assetKind: location.assetKind,
+      previewUrl: await previewUrlOf(selectedImage?.imageUrl),
+      imageCount: location.images.length,
+    }
+  }))
+
+  const voices = await Promise.all(folder.voices.map(async (voice) => ({
+    id: voice.id,
+    name: voice.name,
+    description: voice.description,
+    previewUrl: await previewUrlOf(voice.customVoiceUrl),
+    voiceType: voice.voiceType,
+    gender: voice.gender,
+    language: voice.language,
+  })))
+
+  return {
+    folder: {
+      id: folder.id,
+      name: folder.name,
+      ownerName: folder.user.name,
+      sharedAt: folder.sharedAt,
+    },
+    characters,
+    locations,
+    voices,
+  }
+}
+
+function pick<T extends { id: string }>(rows: T[], ids: string[] | undefined): T[] {
+  if (!ids) return rows
+  const wanted = new Set(ids)
+  return rows.filter((row) => wanted.has(row.id))
+}
+
+// 清单中实际引用到的媒体 ref（未选中资产的媒体不计入）
+function referencedMediaRefs(manifest: unknown): Set<string> {
+  const refs = new Set<string>()
+  const pattern = new RegExp(`${ARCHIVE_MEDIA_TOKEN_PREFIX}(\\w+)`, 'g')
+  for (const match of JSON.stringify(manifest).matchAll(pattern)) refs.add(match[1])
+  return refs
+}
+
+// 合并结果按清单顺序逐条记录，取出实际写入（非跳过）的那部分清单条目
+function copiedEntries<T>(
+  entries: T[],
+  items: AssetBundleImportItem[],
+  kind: AssetBundleItemKind,
+): T[] {
+  const actions = items.filter((item) => item.kind === kind).map((item) => item.action)
+  return entries.filter((_, index) => actions[index] !== 'skipped')
+}
+
+/**
+ * 从共享文件夹复制资产到自己的资产库
+ * 与导入资产包走同一合并逻辑，媒体直接引用原存储对象，不重复上传，只增加引用计数
+ */
+export async function copySharedAssetFolder(
+  params: AssetBundleMergeOptions & { folderId: string; selection?: SharedAssetSelection },
+): Promise<AssetBundleImportResult | null> {
+  const { folderId, selection, ...options } = params
+  const folder = await prisma.globalAssetFolder.findFirst({
+    where: { id: folderId, isShared: true },
+    select: { id: true },
+  })
+  if (!folder) return null
+
+  const built = await buildAssetBundleManifest(folder.id)
+  if (!built) return null
+
+  const manifest = {
+    ...built.manifest,
+    characters: pick(built.manifest.characters, selection?.characterIds),
+    locations: pick(built.manifest.locations, selection?.locationIds),
+    voices: pick(built.manifest.voices, selection?.voiceIds),
+  }
+
+  const media = new Map<string, ImportedArchiveMedia>()
+  for (const entry of built.media) {
+    const ref = await ensureMediaObjectFromStorageKey(entry.storageKey)
+    media.set(entry.ref, { storageKey: entry.storageKey, mediaId: ref.id, url: ref.url })
+  }
+
+  const result = await mergeAssetBundle(manifest, media, options)
+  // 复制出的资产与原资产共用存储对象，逐个登记新的引用方，避免任一方删除时释放共享对象
+  // 因同名跳过的资产没有写入，不计入引用
+  const copied = {
+    characters: copiedEntries(manifest.characters, result.items, 'character'),
+    locations: copiedEntries(manifest.locations, result.items, 'location'),
+    voices: copiedEntries(manifest.voices, result.items, 'voice'),
+  }
+  for (const ref of referencedMediaRefs(copied)) {
+    const shared = media.get(ref)
+    if (shared) await retainMediaObject(shared.mediaId)
+  }
+  return result
+}
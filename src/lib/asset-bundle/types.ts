@@ -0,0 +1,54 @@
+import type { ArchiveMediaEntry, ArchiveRecord } from '@/lib/project-archive'
+
+export const ASSET_BUNDLE_FORMAT = 'waoowaoo.asset-bundle'
+export const ASSET_BUNDLE_SCHEMA_VERSION = 1
+
+/**
+ * 名称冲突处理：跳过 / 追加序号另存 / 覆盖同名资产
+ */
+export const ASSET_BUNDLE_CONFLICT_STRATEGIES = ['skip', 'rename', 'overwrite'] as const
+export type AssetBundleConflictStrategy = typeof ASSET_BUNDLE_CONFLICT_STRATEGIES[number]
+
+export type AssetBundleItemKind = 'character' | 'location' | 'voice'
+export type AssetBundleItemAction = 'created' | 'renamed' | 'overwritten' | 'skipped'
+
+export interface AssetBundleCharacter extends ArchiveRecord {
+  appearances: ArchiveRecord[]
+}
+
+export interface AssetBundleLocation extends ArchiveRecord {
+  images: ArchiveRecord[]
+}
+
+export interface AssetBundleManifest {
+  format: typeof ASSET_BUNDLE_FORMAT
+  schemaVersion: number
+  appVersion: string
+  exportedAt: string
+  folder: {
+    name: string
+  }
+  characters: AssetBundleCharacter[]
+  locations: AssetBundleLocation[]
+  voices: ArchiveRecord[]
+  media: ArchiveMediaEntry[]
+  // 导出时无法读取的媒体 (对应字段已置空)
+  missingMedia: string[]
+  // 与提供商账号绑定、无法在其他账号使用而未导出的音色 ID 数
+  omittedVoiceIds: number
+}
+
+export interface AssetBundleImportItem {
+  kind: AssetBundleItemKind
+  name: string
+  finalName: string
+  action: AssetBundleItemAction
+  id: string | null
+}
+
+export interface AssetBundleImportResult {
+  folderId: string
+  mediaCount: number
+  items: AssetBundleImportItem[]
+  counts: Record<AssetBundleItemAction, number>
+}
@@ -8,14 +8,17 @@ import { buildDefaultTaskBillingInfo } from '@/lib/billing'
 import { getProjectModelConfig, getUserModelConfig, buildImageBillingPayload, buildImageBillingPayloadFromUserConfig } from '@/lib/config-service'
 import { withTaskUiPayload } from '@/lib/task/ui-payload'
 import { normalizeImageGenerationCount } from '@/lib/image-generation/count'
+import { isInpaintMaskDataUrl, moveInpaintMaskToStorage } from '@/lib/image-generation/inpaint'
+import { isImageSeed } from '@/lib/image-generation/seed'
 import { ensureGlobalLocationImageSlots, ensureProjectLocationImageSlots } from '@/lib/image-generation/location-slots'
 import { hasCharacterAppearanceOutput, hasGlobalCharacterAppearanceOutput, hasGlobalCharacterOutput, hasGlobalLocationImageOutput, hasGlobalLocationOutput, hasLocationImageOutput } from '@/lib/task/has-output'
 import { sanitizeImageInputsForTaskPayload } from '@/lib/media/outbound-image'
 import { PRIMARY_APPEARANCE_INDEX, isArtStyleValue, removeLocationPromptSuffix, removePropPromptSuffix, type ArtStyleValue } from '@/lib/constants'
 import { decodeImageUrlsFromDb, encodeImageUrls } from '@/lib/contracts/image-urls-contract'
-import { deleteObject } from '@/lib/storage'
+import { releaseStorageObject } from '@/lib/media/dedup'
 import { resolveStorageKeyFromMediaValue } from '@/lib/media/service'
 import { createProjectCharacterLabeledCopies, createProjectLocationLabeledCopies } from '@/lib/image-label'
+import type { Locale } from '@/i18n/routing'
 import type { AssetKind, AssetScope } from '@/lib/assets/contracts'
 import {
   normalizeLocationAvailableSlots,
@@ -48,6 +51,13 @@ type AssetGenerateInput = AssetActionTarget & {
   access: AssetWriteAccess
 }
 
+type AssetImageTaskInput = AssetActionTarget & {
+  body: Record<string, unknown>
+  access: AssetWriteAccess
+  locale: Locale
+  requestId?: string | null
+}
+
 type AssetModifyInput = AssetActionTarget & {
   request: NextRequest
   body: Record<string, unknown>
@@ -235,9 +245,33 @@ async function submitGlobalAssetGenerateTask(input: AssetGenerateInput) {
   })
 }
 
+// 同种子重绘：seed 为空时由 worker 随机生成
+function assertImageSeedParam(body: Record<string, unknown>) {
+  if (body.seed !== undefined && body.seed !== null && !isImageSeed(body.seed)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'IMAGE_SEED_INVALID', field: 'seed' })
+  }
+}
+
 async function submitProjectAssetGenerateTask(input: AssetGenerateInput) {
+  assertImageSeedParam(input.body)
+  return await submitProjectAssetImageTask({
+    kind: input.kind,
+    assetId: input.assetId,
+    body: input.body,
+    access: input.access,
+    locale: resolveRequiredTaskLocale(input.request, input.body),
+    requestId: getRequestId(input.request),
+  })
+}
+
+type SubmitTaskParams = Parameters<typeof submitTask>[0]
+
+/**
+ * 组装项目资产生图任务（含 billingInfo）但不提交，编排方可先按报价做预算校验再提交。
+ */
+export async function prepareProjectAssetImageTask(input: AssetImageTaskInput): Promise<SubmitTaskParams> {
   const projectId = requireProjectId(input.access)
-  const locale = resolveRequiredTaskLocale(input.request, input.body)
+  const locale = input.locale
   const normalizedKind = normalizeLocationBackedKind(input.kind)
   const count = normalizedKind === 'character'
     ? normalizeImageGenerationCount('character', input.body.count)
@@ -314,10 +348,10 @@ async function submitProjectAssetGenerateTask(input: AssetGenerateInput) {
     throw new ApiError('INVALID_PARAMS', { code: 'IMAGE_MODEL_CAPABILITY_NOT_CONFIGURED', message })
   }
 
-  return submitTask({
+  return {
     userId: input.access.userId,
     locale,
-    requestId: getRequestId(input.request),
+    requestId: input.requestId,
     projectId,
     type: taskType,
     targetType,
@@ -325,7 +359,14 @@ async function submitProjectAssetGenerateTask(input: AssetGenerateInput) {
     payload: withTaskUiPayload(billingPayload, { hasOutputAtStart }),
     dedupeKey: `${taskType}:${targetId}:${imageIndex === null ? count : `single:${imageIndex}`}`,
     billingInfo: buildDefaultTaskBillingInfo(taskType, billingPayload),
-  })
+  }
+}
+
+/**
+ * 项目资产生图任务提交（不依赖 HTTP 请求），供 worker 侧编排（如 autopilot）复用。
+ */
+export async function submitProjectAssetImageTask(input: AssetImageTaskInput) {
+  return await submitTask(await prepareProjectAssetImageTask(input))
 }
 
 async function resolveStoredGlobalArtStyle(input: {
@@ -372,12 +413,19 @@ export async function submitAssetModifyTask(input: AssetModifyInput) {
     : submitProjectAssetModifyTask(input)
 }
 
+function assertInpaintMaskParam(body: Record<string, unknown>) {
+  if (body.maskImage !== undefined && !isInpaintMaskDataUrl(body.maskImage)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'MASK_IMAGE_INVALID', field: 'maskImage' })
+  }
+}
+
 async function submitGlobalAssetModifyTask(input: AssetModifyInput) {
   const locale = resolveRequiredTaskLocale(input.request, input.body)
   const modifyPrompt = normalizeString(input.body.modifyPrompt)
   if (!modifyPrompt) {
     throw new ApiError('INVALID_PARAMS')
   }
+  assertInpaintMaskParam(input.body)
   const normalizedKind = normalizeLocationBackedKind(input.kind)
   const appearanceIndex = toNumber(input.body.appearanceIndex) ?? PRIMARY_APPEARANCE_INDEX
   const imageIndex = toNumber(input.body.imageIndex) ?? 0
@@ -403,7 +451,7 @@ async function submitGlobalAssetModifyTask(input: AssetModifyInput) {
       locationId: input.assetId,
       imageIndex,
     })
-  const payload = {
+  const payload = await moveInpaintMaskToStorage({
     ...input.body,
     id: input.assetId,
     type: input.kind,
@@ -414,7 +462,7 @@ async function submitGlobalAssetModifyTask(input: AssetModifyInput) {
         extraImageUrls: extraImageAudit.issues,
       },
     },
-  }
+  }, input.access.userId)
   const userModelConfig = await getUserModelConfig(input.access.userId)
   const imageModel = userModelConfig.editModel
   let billingPayload: Record<string, unknown>
@@ -449,6 +497,7 @@ async function submitProjectAssetModifyTask(input: AssetModifyInput) {
   if (!modifyPrompt) {
     throw new ApiError('INVALID_PARAMS')
   }
+  assertInpaintMaskParam(input.body)
   const normalizedKind = normalizeLocationBackedKind(input.kind)
   const targetType = normalizedKind === 'character' ? 'CharacterAppearance' : 'LocationImage'
   const targetId = normalizedKind === 'character'
@@ -474,7 +523,7 @@ async function submitProjectAssetModifyTask(input: AssetModifyInput) {
   if (extraImageAudit.issues.some((issue) => issue.reason === 'relative_path_rejected')) {
     throw new ApiError('INVALID_PARAMS')
   }
-  const payload = {
+  const payload = await moveInpaintMaskToStorage({
     ...input.body,
     type: input.kind,
     characterId: normalizedKind === 'character' ? input.assetId : undefined,
@@ -486,7 +535,7 @@ async function submitProjectAssetModifyTask(input: AssetModifyInput) {
         extraImageUrls: extraImageAudit.issues,
       },
     },
-  }
+  }, input.access.userId)
   const projectModelConfig = await getProjectModelConfig(projectId, input.access.userId)
   let billingPayload: Record<string, unknown>
   try {
@@ -541,7 +590,7 @@ async function selectGlobalAssetRender(input: AssetSelectInput) {
         if (index !== appearance.selectedIndex && imageUrls[index]) {
           const key = await resolveStorageKeyFromMediaValue(imageUrls[index]!)
           if (key) {
-            try { await deleteObject(key) } catch { }
+            try { await releaseStorageObject(key) } catch { }
           }
         }
       }
@@ -587,7 +636,7 @@ async function selectGlobalAssetRender(input: AssetSelectInput) {
       if (image.imageUrl) {
         const key = await resolveStorageKeyFromMediaValue(image.imageUrl)
         if (key) {
-          try { await deleteObject(key) } catch { }
+          try { await releaseStorageObject(key) } catch { }
         }
       }
     }
@@ -749,7 +798,7 @@ async function revertProjectAssetRender(input: AssetRevertInput) {
     for (const imageUrl of currentImageUrls) {
       const storageKey = await resolveStorageKeyFromMediaValue(imageUrl)
       if (storageKey) {
-        try { await deleteObject(storageKey) } catch { }
+        try { await releaseStorageObject(storageKey) } catch { }
       }
     }
     const restoredImageUrls = previousImageUrls.length > 0 ? previousImageUrls : (appearance.previousImageUrl ? [appearance.previousImageUrl] : [])
@@ -779,7 +828,7 @@ async function revertProjectAssetRender(input: AssetRevertInput) {
       if (image.imageUrl) {
         const storageKey = await resolveStorageKeyFromMediaValue(image.imageUrl)
         if (storageKey) {
-          try { await deleteObject(storageKey) } catch { }
+          try { await releaseStorageObject(storageKey) } catch { }
         }
       }
       await prisma.locationImage.update({
@@ -830,6 +879,7 @@ async function copyCharacterFromGlobal(input: AssetCopyInput) {
       changeReason: appearance.changeReason,
     })),
     projectCharacter.name,
+    input.access.userId,
   )
   for (let index = 0; index < globalCharacter.appearances.length; index += 1) {
     const appearance = globalCharacter.appearances[index]
@@ -880,6 +930,7 @@ async function copyLocationFromGlobal(input: AssetCopyInput) {
   const labeledCopies = await createProjectLocationLabeledCopies(
     globalLocation.images.map((image) => ({ imageUrl: image.imageUrl })),
     projectLocation.name,
+    input.access.userId,
   )
   const copiedImages: Array<{ id: string; imageIndex: number; imageUrl: string | null }> = []
   for (let index = 0; index < globalLocation.images.length; index += 1) {
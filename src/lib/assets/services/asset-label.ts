@@ -10,6 +10,7 @@ type UpdateAssetRenderLabelInput = {
   assetId: string
   projectId?: string
   newName: string
+  userId: string
 }
 
 export function renderLabelText(input: {
@@ -64,6 +65,7 @@ async function updateProjectAssetRenderLabel(input: UpdateAssetRenderLabelInput)
         {
           generateNewKey: true,
           keyPrefix: 'project-asset-label-rename',
+          ownerUserId: input.userId,
         },
       )))
       const firstImageUrl = nextImageUrls[0] ?? null
@@ -103,6 +105,7 @@ async function updateProjectAssetRenderLabel(input: UpdateAssetRenderLabelInput)
       {
         generateNewKey: true,
         keyPrefix: 'project-asset-label-rename',
+        ownerUserId: input.userId,
       },
     )
     await prisma.locationImage.update({
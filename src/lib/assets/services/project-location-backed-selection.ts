@@ -1,6 +1,6 @@
 import { ApiError } from '@/lib/api-errors'
 import { prisma } from '@/lib/prisma'
-import { deleteObject } from '@/lib/storage'
+import { releaseStorageObject } from '@/lib/media/dedup'
 import { resolveStorageKeyFromMediaValue } from '@/lib/media/service'
 
 export async function confirmProjectLocationBackedSelection(assetId: string): Promise<{ success: true }> {
@@ -46,7 +46,7 @@ export async function confirmProjectLocationBackedSelection(assetId: string): Pr
     const storageKey = await resolveStorageKeyFromMediaValue(image.imageUrl)
     if (!storageKey) continue
     try {
-      await deleteObject(storageKey)
+      await releaseStorageObject(storageKey)
     } catch {
     }
   }
@@ -1,5 +1,6 @@
 import { logInfo as _ulogInfo, logError as _ulogError } from '@/lib/logging/core'
 import { buildFalQueueUrl } from '@/lib/providers/fal/base-url'
+import { ProviderRateLimitedError, readRetryAfterMs } from '@/lib/provider-rate-limit/errors'
 /**
  * 异步任务提交工具
  * 
@@ -36,6 +37,13 @@ export async function submitFalTask(endpoint: string, input: Record<string, unkn
 
     if (!response.ok) {
         const errorText = await response.text()
+        if (response.status === 429) {
+            // 透传 Retry-After，上层限流器据此进入冷却并延迟重新入队
+            throw new ProviderRateLimitedError(`FAL提交失败 (429): ${errorText}`, {
+                provider: 'fal',
+                retryAfterMs: readRetryAfterMs(response.headers),
+            })
+        }
         throw new Error(`FAL提交失败 (${response.status}): ${errorText}`)
     }
 
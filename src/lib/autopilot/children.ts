@@ -0,0 +1,129 @@
+import { resolveTaskBillingSpend } from '@/lib/billing'
+import { roundMoney } from '@/lib/billing/money'
+import { prisma } from '@/lib/prisma'
+import { cancelTaskBatch, refreshTaskBatch, TASK_BATCH_STATUS } from '@/lib/task-batch'
+import { publishTaskEvent } from '@/lib/task/publisher'
+import { removeTaskJob } from '@/lib/task/queues'
+import { cancelTask } from '@/lib/task/service'
+import { toObject } from '@/lib/task/submitter'
+import { TASK_EVENT_TYPE, TASK_STATUS } from '@/lib/task/types'
+import type { AutopilotStageState, AutopilotState } from './types'
+
+const ACTIVE_STATUSES = new Set<string>([TASK_STATUS.BLOCKED, TASK_STATUS.QUEUED, TASK_STATUS.PROCESSING])
+
+function listStageStates(state: AutopilotState): AutopilotStageState[] {
+  return Object.values(state.stages).filter((stageState): stageState is AutopilotStageState => !!stageState)
+}
+
+async function resolveChildTaskIds(state: AutopilotState): Promise<string[]> {
+  const stageStates = listStageStates(state)
+  const batchIds = stageStates.flatMap((stageState) => (stageState.batchId ? [stageState.batchId] : []))
+  const batchItems = batchIds.length > 0
+    ? await prisma.taskBatchItem.findMany({
+      where: { batchId: { in: batchIds } },
+      select: { taskId: true },
+    })
+    : []
+  return Array.from(new Set([
+    ...stageStates.flatMap((stageState) => stageState.taskIds),
+    ...batchItems.flatMap((item) => (item.taskId ? [item.taskId] : [])),
+  ]))
+}
+
+/**
+ * 汇总 autopilot 已提交子任务（含批量子任务）的费用
+ */
+export async function sumAutopilotSpend(state: AutopilotState): Promise<number> {
+  const taskIds = await resolveChildTaskIds(state)
+  if (taskIds.length === 0) return 0
+  const tasks = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    select: { billingInfo: true },
+  })
+  return roundMoney(tasks.reduce((total, task) => total + resolveTaskBillingSpend(task.billingInfo), 0))
+}
+
+/**
+ * 检查某阶段的子任务：仍有进行中的返回 active > 0；任一失败/取消时返回失败原因
+ */
+export async function inspectAutopilotStageChildren(stageState: AutopilotStageState): Promise<{
+  active: number
+  failure: string | null
+}> {
+  let active = 0
+  const failures: string[] = []
+
+  if (stageState.batchId) {
+    const progress = await refreshTaskBatch(stageState.batchId)
+    if (!progress) {
+      failures.push(`batch ${stageState.batchId} not found`)
+    } else if (progress.active > 0) {
+      active += progress.active
+    } else if (progress.status !== TASK_BATCH_STATUS.COMPLETED) {
+      failures.push(`batch ${progress.batchId}: ${progress.failed} failed, ${progress.canceled} canceled`)
+    }
+  }
+
+  if (stageState.taskIds.length > 0) {
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: stageState.taskIds } },
+      select: { id: true, type: true, status: true, errorMessage: true },
+    })
+    if (tasks.length < stageState.taskIds.length) {
+      failures.push('child task missing')
+    }
+    for (const task of tasks) {
+      if (ACTIVE_STATUSES.has(task.status)) {
+        active += 1
+      } else if (task.status !== TASK_STATUS.COMPLETED) {
+        failures.push(`${task.type} ${task.status}${task.errorMessage ? `: ${task.errorMessage}` : ''}`)
+      }
+    }
+  }
+
+  return {
+    active,
+    failure: active > 0 || failures.length === 0 ? null : failures.join('; '),
+  }
+}
+
+/**
+ * 取消 autopilot 提交的所有进行中子任务（预算超限或 run 被取消时调用）
+ */
+export async function cancelAutopilotChildren(params: {
+  projectId: string
+  state: AutopilotState
+  reason: string
+}): Promise<number> {
+  let cancelledCount = 0
+  for (const stageState of listStageStates(params.state)) {
+    if (stageState.batchId) {
+      await cancelTaskBatch(params.projectId, stageState.batchId)
+    }
+    for (const taskId of stageState.taskIds) {
+      const { task, cancelled } = await cancelTask(taskId, params.reason)
+      if (!task || !cancelled) continue
+      cancelledCount += 1
+      await removeTaskJob(task.id).catch(() => false)
+      await publishTaskEvent({
+        taskId: task.id,
+        projectId: task.projectId,
+        userId: task.userId,
+        type: TASK_EVENT_TYPE.FAILED,
+        taskType: task.type,
+        targetType: task.targetType,
+        targetId: task.targetId,
+        episodeId: task.episodeId || null,
+        payload: {
+          ...toObject(task.payload),
+          stage: 'cancelled',
+          stageLabel: '任务已取消',
+          cancelled: true,
+          message: params.reason,
+        },
+        persist: false,
+      })
+    }
+  }
+  return cancelledCount
+}
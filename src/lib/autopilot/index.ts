@@ -0,0 +1,24 @@
+export * from './types'
+export {
+  AUTOPILOT_APPROVAL_NODE,
+  AUTOPILOT_CHECKPOINT_NODE,
+  createInitialAutopilotState,
+  loadAutopilotState,
+  parseAutopilotOptions,
+  readAutopilotApproval,
+  recordAutopilotApproval,
+  rewindAutopilotState,
+  saveAutopilotState,
+} from './state'
+export { AUTOPILOT_STAGE_RUNNERS, type AutopilotStageContext, type AutopilotStageRunner } from './stages'
+export {
+  cancelAutopilotChildren,
+  inspectAutopilotStageChildren,
+  sumAutopilotSpend,
+} from './children'
+export {
+  approveAutopilotRun,
+  cancelAutopilotRun,
+  getAutopilotOverview,
+  resolveAutopilotOptions,
+} from './service'
@@ -0,0 +1,160 @@
+import { ApiError } from '@/lib/api-errors'
+import { getProjectModelConfig } from '@/lib/config-service'
+import { publishRunEvent } from '@/lib/run-runtime/publisher'
+import { getRunById, getRunSnapshot, listRuns, requestRunCancel } from '@/lib/run-runtime/service'
+import { RUN_EVENT_TYPE, RUN_STATUS } from '@/lib/run-runtime/types'
+import { promoteTaskJob } from '@/lib/task/queues'
+import { cancelTask } from '@/lib/task/service'
+import { TASK_TYPE } from '@/lib/task/types'
+import { cancelAutopilotChildren, sumAutopilotSpend } from './children'
+import {
+  loadAutopilotState,
+  parseAutopilotOptions,
+  readAutopilotApproval,
+  recordAutopilotApproval,
+} from './state'
+import { AUTOPILOT_STAGE, type AutopilotOptions } from './types'
+
+function isActiveRunStatus(status: string) {
+  return status === RUN_STATUS.QUEUED || status === RUN_STATUS.RUNNING
+}
+
+/**
+ * 提交前解析 autopilot 参数：视频模型未指定时沿用项目配置，两者都没有则拒绝（否则会在视频阶段才失败）
+ */
+export async function resolveAutopilotOptions(params: {
+  projectId: string
+  userId: string
+  body: unknown
+}): Promise<AutopilotOptions> {
+  const options = parseAutopilotOptions(params.body)
+  const videoModel = options.videoModel
+    || (await getProjectModelConfig(params.projectId, params.userId)).videoModel
+    || ''
+  if (!videoModel) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'VIDEO_MODEL_REQUIRED',
+      field: 'videoModel',
+    })
+  }
+  return { ...options, videoModel }
+}
+
+async function requireAutopilotRun(params: {
+  runId: string
+  projectId: string
+  userId: string
+}) {
+  const run = await getRunById(params.runId)
+  if (
+    !run
+    || run.userId !== params.userId
+    || run.projectId !== params.projectId
+    || run.workflowType !== TASK_TYPE.AUTOPILOT_RUN
+  ) {
+    throw new ApiError('NOT_FOUND')
+  }
+  return run
+}
+
+/**
+ * 剧集最近一次 autopilot：run 与阶段快照，以及 checkpoint 中的审批与花费信息
+ */
+export async function getAutopilotOverview(params: {
+  projectId: string
+  userId: string
+  episodeId: string
+}) {
+  const [latest] = await listRuns({
+    userId: params.userId,
+    projectId: params.projectId,
+    episodeId: params.episodeId,
+    workflowType: TASK_TYPE.AUTOPILOT_RUN,
+    latestOnly: true,
+    limit: 1,
+  })
+  if (!latest) return null
+
+  const snapshot = await getRunSnapshot(latest.id)
+  if (!snapshot) return null
+  const { state } = await loadAutopilotState(latest.id)
+  const options = parseAutopilotOptions(snapshot.run.input)
+  const approvalStage = state.stages[AUTOPILOT_STAGE.APPROVE_ASSETS]
+  const approval = approvalStage ? await readAutopilotApproval(latest.id) : null
+  const awaitingApproval = isActiveRunStatus(snapshot.run.status)
+    && state.stage === AUTOPILOT_STAGE.APPROVE_ASSETS
+    && !!approvalStage
+    && !(approval && approval.approvedAt >= (approvalStage.launchedAt || ''))
+
+  return {
+    run: snapshot.run,
+    steps: snapshot.steps,
+    stage: state.stage,
+    awaitingApproval,
+    spent: await sumAutopilotSpend(state),
+    budget: options.budget,
+    autoSelectFirstCandidate: options.autoSelectFirstCandidate,
+  }
+}
+
+/**
+ * 审批提取结果：写入审批 checkpoint，并提前唤醒等待中的 autopilot 任务
+ */
+export async function approveAutopilotRun(params: {
+  projectId: string
+  userId: string
+  runId: string
+}) {
+  const run = await requireAutopilotRun(params)
+  if (!isActiveRunStatus(run.status)) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'AUTOPILOT_RUN_NOT_ACTIVE',
+      status: run.status,
+    })
+  }
+  const approval = await recordAutopilotApproval({ runId: run.id, userId: params.userId })
+  if (run.taskId) {
+    await promoteTaskJob(run.taskId).catch(() => false)
+  }
+  return approval
+}
+
+/**
+ * 取消 autopilot：取消 run 与编排任务，并取消已提交的子任务
+ * （编排任务等待期间不在 worker 中运行，无法自行感知取消）
+ */
+export async function cancelAutopilotRun(params: {
+  projectId: string
+  userId: string
+  runId: string
+}) {
+  await requireAutopilotRun(params)
+  const cancelledRun = await requestRunCancel({ runId: params.runId, userId: params.userId })
+  if (!cancelledRun) {
+    throw new ApiError('NOT_FOUND')
+  }
+  if (cancelledRun.taskId) {
+    await cancelTask(cancelledRun.taskId, 'Autopilot cancelled by user')
+  }
+  const { state } = await loadAutopilotState(params.runId)
+  const cancelledChildren = await cancelAutopilotChildren({
+    projectId: params.projectId,
+    state,
+    reason: 'Autopilot cancelled by user',
+  })
+  if (
+    cancelledRun.status === RUN_STATUS.CANCELING
+    || cancelledRun.status === RUN_STATUS.CANCELED
+  ) {
+    await publishRunEvent({
+      runId: cancelledRun.id,
+      projectId: cancelledRun.projectId,
+      userId: cancelledRun.userId,
+      eventType: RUN_EVENT_TYPE.RUN_CANCELED,
+      payload: {
+        message: 'Autopilot cancelled by user',
+      },
+    })
+  }
+  return { run: cancelledRun, cancelledChildren }
+}
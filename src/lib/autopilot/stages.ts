@@ -0,0 +1,402 @@
+import type { Locale } from '@/i18n/routing'
+import { ApiError } from '@/lib/api-errors'
+import { prepareProjectAssetImageTask, selectAssetRender } from '@/lib/assets/services/asset-actions'
+import { roundMoney } from '@/lib/billing/money'
+import { decodeImageUrlsFromDb } from '@/lib/contracts/image-urls-contract'
+import { getProjectModelConfig } from '@/lib/config-service'
+import { submitLLMTask } from '@/lib/llm-observe/route-task'
+import { assembleEpisodeEditorProject } from '@/lib/novel-promotion/editor-assemble'
+import { hasScriptArtifacts, hasStoryboardArtifacts } from '@/lib/novel-promotion/stage-readiness'
+import { prisma } from '@/lib/prisma'
+import { createTaskBatch, quoteTaskBatch, TASK_BATCH_KIND, type TaskBatchKind } from '@/lib/task-batch'
+import { submitTask } from '@/lib/task/submitter'
+import { TASK_TYPE } from '@/lib/task/types'
+import { readAutopilotApproval } from './state'
+import {
+  AUTOPILOT_STAGE,
+  type AutopilotOptions,
+  type AutopilotStage,
+  type AutopilotStageState,
+} from './types'
+
+const APPROVAL_POLL_MS = 60_000
+
+export type AutopilotStageContext = {
+  runId: string
+  projectId: string
+  episodeId: string
+  userId: string
+  locale: Locale
+  requestId: string | null
+  options: AutopilotOptions
+  stageState: AutopilotStageState | null
+  /** 提交前的预算校验：预计费用超出剩余预算时抛出 AUTOPILOT_BUDGET_EXCEEDED */
+  assertAffordable: (estimatedCost: number) => Promise<void>
+}
+
+export type AutopilotLaunchResult = {
+  taskIds?: string[]
+  batchId?: string | null
+  note?: string | null
+}
+
+export type AutopilotStageRunner = {
+  launch: (ctx: AutopilotStageContext) => Promise<AutopilotLaunchResult>
+  /** 子任务之外的等待条件（如人工审批）；返回 null 表示可以继续 */
+  waitFor?: (ctx: AutopilotStageContext) => Promise<{ delayMs: number; reason: string } | null>
+  /** 子任务全部完成后、质量校验前执行 */
+  finalize?: (ctx: AutopilotStageContext) => Promise<void>
+  /** 质量校验：返回不通过原因，null 表示通过 */
+  verify: (ctx: AutopilotStageContext) => Promise<string | null>
+}
+
+async function loadEpisode(ctx: AutopilotStageContext) {
+  const episode = await prisma.novelPromotionEpisode.findFirst({
+    where: {
+      id: ctx.episodeId,
+      novelPromotionProject: { projectId: ctx.projectId },
+    },
+    include: {
+      clips: true,
+      storyboards: {
+        include: { panels: true },
+      },
+    },
+  })
+  if (!episode) {
+    throw new Error(`AUTOPILOT_EPISODE_NOT_FOUND: ${ctx.episodeId}`)
+  }
+  return episode
+}
+
+async function loadProjectAssets(projectId: string) {
+  const project = await prisma.novelPromotionProject.findUnique({
+    where: { projectId },
+    include: {
+      characters: {
+        include: { appearances: { orderBy: { appearanceIndex: 'asc' } } },
+      },
+      locations: {
+        include: { images: { orderBy: { imageIndex: 'asc' } } },
+      },
+    },
+  })
+  if (!project) {
+    throw new Error(`AUTOPILOT_PROJECT_NOT_FOUND: ${projectId}`)
+  }
+  return project
+}
+
+function hasText(value: string | null | undefined): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+async function submitStageLLMTask(ctx: AutopilotStageContext, params: {
+  type: typeof TASK_TYPE.ANALYZE_NOVEL | typeof TASK_TYPE.STORY_TO_SCRIPT_RUN | typeof TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN
+  targetType: string
+  targetId: string
+  routePath: string
+  body: Record<string, unknown>
+  dedupeKey: string
+  priority: number
+}) {
+  const result = await submitLLMTask({
+    userId: ctx.userId,
+    locale: ctx.locale,
+    requestId: ctx.requestId,
+    projectId: ctx.projectId,
+    episodeId: ctx.episodeId,
+    type: params.type,
+    targetType: params.targetType,
+    targetId: params.targetId,
+    routePath: params.routePath,
+    body: {
+      ...params.body,
+      displayMode: 'detail',
+      meta: { autopilotRunId: ctx.runId },
+    },
+    dedupeKey: params.dedupeKey,
+    priority: params.priority,
+  })
+  return { taskIds: [result.taskId] }
+}
+
+/**
+ * 批量阶段：只补齐缺失产物；报价为 0 条时跳过，提交前按报价做预算校验
+ */
+async function launchBatchStage(
+  ctx: AutopilotStageContext,
+  kind: TaskBatchKind,
+  options: { videoModel?: string } = {},
+): Promise<AutopilotLaunchResult> {
+  const request = {
+    projectId: ctx.projectId,
+    userId: ctx.userId,
+    episodeId: ctx.episodeId,
+    kind,
+    selection: {},
+    options,
+  }
+  const { quote } = await quoteTaskBatch(request)
+  if (quote.count === 0) {
+    return { note: 'nothing_to_generate' }
+  }
+  await ctx.assertAffordable(quote.totalCost)
+  const batch = await createTaskBatch({
+    ...request,
+    locale: ctx.locale,
+    requestId: ctx.requestId,
+    expectedTotalCost: quote.totalCost,
+  })
+  return { batchId: batch.batchId }
+}
+
+async function countPanelsMissing(episodeId: string, field: 'image' | 'video') {
+  return await prisma.novelPromotionPanel.count({
+    where: field === 'image'
+      ? {
+        storyboard: { episodeId },
+        imageMediaId: null,
+        OR: [{ imageUrl: null }, { imageUrl: '' }],
+      }
+      : {
+        storyboard: { episodeId },
+        videoMediaId: null,
+        OR: [{ videoUrl: null }, { videoUrl: '' }],
+      },
+  })
+}
+
+const analyzeAssets: AutopilotStageRunner = {
+  launch: async (ctx) => {
+    const project = await loadProjectAssets(ctx.projectId)
+    // 项目已有角色/场景时不重复提取，直接进入审批
+    if (project.characters.length > 0 || project.locations.length > 0) {
+      return { note: 'assets_exist' }
+    }
+    return await submitStageLLMTask(ctx, {
+      type: TASK_TYPE.ANALYZE_NOVEL,
+      targetType: 'NovelPromotionProject',
+      targetId: ctx.projectId,
+      routePath: `/api/novel-promotion/${ctx.projectId}/analyze`,
+      body: { episodeId: ctx.episodeId },
+      dedupeKey: `analyze_novel:${ctx.projectId}:${ctx.episodeId}`,
+      priority: 1,
+    })
+  },
+  verify: async (ctx) => {
+    const project = await loadProjectAssets(ctx.projectId)
+    return project.characters.length > 0 || project.locations.length > 0
+      ? null
+      : 'no characters or locations extracted'
+  },
+}
+
+const approveAssets: AutopilotStageRunner = {
+  launch: async () => ({ note: 'awaiting_approval' }),
+  waitFor: async (ctx) => {
+    const approval = await readAutopilotApproval(ctx.runId)
+    const launchedAt = ctx.stageState?.launchedAt || ''
+    // 审批必须晚于本次进入审批阶段，重试提取后需要重新确认
+    if (approval && approval.approvedAt >= launchedAt) return null
+    return { delayMs: APPROVAL_POLL_MS, reason: 'autopilot_await_approval' }
+  },
+  verify: async () => null,
+}
+
+const storyToScript: AutopilotStageRunner = {
+  launch: async (ctx) => {
+    const episode = await loadEpisode(ctx)
+    if (hasScriptArtifacts(episode.clips)) {
+      return { note: 'script_exists' }
+    }
+    if (!hasText(episode.novelText)) {
+      throw new Error('AUTOPILOT_STORY_EMPTY: episode has no novel text')
+    }
+    return await submitStageLLMTask(ctx, {
+      type: TASK_TYPE.STORY_TO_SCRIPT_RUN,
+      targetType: 'NovelPromotionEpisode',
+      targetId: ctx.episodeId,
+      routePath: `/api/novel-promotion/${ctx.projectId}/story-to-script-stream`,
+      body: { episodeId: ctx.episodeId, content: episode.novelText.trim() },
+      dedupeKey: `story_to_script_run:${ctx.episodeId}`,
+      priority: 2,
+    })
+  },
+  verify: async (ctx) => {
+    const episode = await loadEpisode(ctx)
+    return hasScriptArtifacts(episode.clips) ? null : 'no screenplay generated'
+  },
+}
+
+const scriptToStoryboard: AutopilotStageRunner = {
+  launch: async (ctx) => {
+    const episode = await loadEpisode(ctx)
+    if (hasStoryboardArtifacts(episode.storyboards)) {
+      return { note: 'storyboard_exists' }
+    }
+    return await submitStageLLMTask(ctx, {
+      type: TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
+      targetType: 'NovelPromotionEpisode',
+      targetId: ctx.episodeId,
+      routePath: `/api/novel-promotion/${ctx.projectId}/script-to-storyboard-stream`,
+      body: { episodeId: ctx.episodeId },
+      dedupeKey: `script_to_storyboard_run:${ctx.episodeId}`,
+      priority: 2,
+    })
+  },
+  verify: async (ctx) => {
+    const episode = await loadEpisode(ctx)
+    return hasStoryboardArtifacts(episode.storyboards) ? null : 'no storyboard panels generated'
+  },
+}
+
+const assetImages: AutopilotStageRunner = {
+  launch: async (ctx) => {
+    const project = await loadProjectAssets(ctx.projectId)
+    const access = { scope: 'project' as const, userId: ctx.userId, projectId: ctx.projectId }
+    const submissions: Awaited<ReturnType<typeof prepareProjectAssetImageTask>>[] = []
+    for (const character of project.characters) {
+      for (const appearance of character.appearances) {
+        if (hasText(appearance.imageUrl)) continue
+        submissions.push(await prepareProjectAssetImageTask({
+          kind: 'character',
+          assetId: character.id,
+          body: { appearanceId: appearance.id, appearanceIndex: appearance.appearanceIndex },
+          access,
+          locale: ctx.locale,
+          requestId: ctx.requestId,
+        }))
+      }
+    }
+    for (const location of project.locations) {
+      if (location.images.some((image) => hasText(image.imageUrl))) continue
+      submissions.push(await prepareProjectAssetImageTask({
+        kind: location.assetKind === 'prop' ? 'prop' : 'location',
+        assetId: location.id,
+        body: {},
+        access,
+        locale: ctx.locale,
+        requestId: ctx.requestId,
+      }))
+    }
+    if (submissions.length === 0) {
+      return { note: 'nothing_to_generate' }
+    }
+    // 与批量阶段一致：按各子任务 billingInfo 报价，整体通过预算校验后再提交
+    const totalCost = roundMoney(submissions.reduce((sum, submission) => (
+      sum + (submission.billingInfo?.billable ? submission.billingInfo.maxFrozenCost : 0)
+    ), 0))
+    await ctx.assertAffordable(totalCost)
+    const taskIds: string[] = []
+    for (const submission of submissions) {
+      const result = await submitTask(submission)
+      taskIds.push(result.taskId)
+    }
+    return { taskIds }
+  },
+  finalize: async (ctx) => {
+    if (!ctx.options.autoSelectFirstCandidate) return
+    const project = await loadProjectAssets(ctx.projectId)
+    const access = { scope: 'project' as const, userId: ctx.userId, projectId: ctx.projectId }
+    for (const character of project.characters) {
+      for (const appearance of character.appearances) {
+        if (appearance.selectedIndex !== null) continue
+        const imageUrls = decodeImageUrlsFromDb(appearance.imageUrls, 'characterAppearance.imageUrls')
+        const firstIndex = imageUrls.findIndex((url) => hasText(url))
+        if (firstIndex < 0) continue
+        await selectAssetRender({
+          kind: 'character',
+          assetId: character.id,
+          body: { appearanceId: appearance.id, selectedIndex: firstIndex },
+          access,
+        })
+      }
+    }
+    for (const location of project.locations) {
+      if (location.selectedImageId) continue
+      const firstImage = location.images.find((image) => hasText(image.imageUrl))
+      if (!firstImage) continue
+      await selectAssetRender({
+        kind: location.assetKind === 'prop' ? 'prop' : 'location',
+        assetId: location.id,
+        body: { selectedIndex: firstImage.imageIndex },
+        access,
+      })
+    }
+  },
+  verify: async (ctx) => {
+    const project = await loadProjectAssets(ctx.projectId)
+    const missingCharacters = project.characters.filter((character) =>
+      character.appearances.some((appearance) => !hasText(appearance.imageUrl)))
+    const missingLocations = project.locations.filter((location) =>
+      !location.images.some((image) => hasText(image.imageUrl)))
+    const missing = [...missingCharacters, ...missingLocations].map((asset) => asset.name)
+    return missing.length > 0 ? `assets without images: ${missing.join(', ')}` : null
+  },
+}
+
+const panelImages: AutopilotStageRunner = {
+  launch: async (ctx) => await launchBatchStage(ctx, TASK_BATCH_KIND.PANEL_IMAGE),
+  verify: async (ctx) => {
+    const missing = await countPanelsMissing(ctx.episodeId, 'image')
+    return missing > 0 ? `${missing} panels without images` : null
+  },
+}
+
+const panelVideos: AutopilotStageRunner = {
+  launch: async (ctx) => {
+    const videoModel = ctx.options.videoModel
+      || (await getProjectModelConfig(ctx.projectId, ctx.userId)).videoModel
+      || ''
+    return await launchBatchStage(ctx, TASK_BATCH_KIND.PANEL_VIDEO, { videoModel })
+  },
+  verify: async (ctx) => {
+    const missing = await countPanelsMissing(ctx.episodeId, 'video')
+    return missing > 0 ? `${missing} panels without videos` : null
+  },
+}
+
+// 未绑定音色的台词不在批量范围内，配音阶段不做完整性校验
+const voiceLines: AutopilotStageRunner = {
+  launch: async (ctx) => await launchBatchStage(ctx, TASK_BATCH_KIND.VOICE_LINE),
+  verify: async () => null,
+}
+
+const editor: AutopilotStageRunner = {
+  launch: async (ctx) => {
+    try {
+      await assembleEpisodeEditorProject({
+        projectId: ctx.projectId,
+        episodeId: ctx.episodeId,
+        overwrite: false,
+      })
+      return { note: 'assembled' }
+    } catch (error) {
+      // 已有剪辑项目时保留手动剪辑，不覆盖
+      if (error instanceof ApiError && error.details?.code === 'EDITOR_PROJECT_EXISTS') {
+        return { note: 'editor_project_exists' }
+      }
+      throw error
+    }
+  },
+  verify: async (ctx) => {
+    const editorProject = await prisma.videoEditorProject.findUnique({
+      where: { episodeId: ctx.episodeId },
+      select: { id: true },
+    })
+    return editorProject ? null : 'editor project missing'
+  },
+}
+
+export const AUTOPILOT_STAGE_RUNNERS: Record<AutopilotStage, AutopilotStageRunner> = {
+  [AUTOPILOT_STAGE.ANALYZE_ASSETS]: analyzeAssets,
+  [AUTOPILOT_STAGE.APPROVE_ASSETS]: approveAssets,
+  [AUTOPILOT_STAGE.STORY_TO_SCRIPT]: storyToScript,
+  [AUTOPILOT_STAGE.SCRIPT_TO_STORYBOARD]: scriptToStoryboard,
+  [AUTOPILOT_STAGE.ASSET_IMAGES]: assetImages,
+  [AUTOPILOT_STAGE.PANEL_IMAGES]: panelImages,
+  [AUTOPILOT_STAGE.PANEL_VIDEOS]: panelVideos,
+  [AUTOPILOT_STAGE.VOICE_LINES]: voiceLines,
+  [AUTOPILOT_STAGE.EDITOR]: editor,
+}
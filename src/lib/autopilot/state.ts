@@ -0,0 +1,147 @@
+import { createCheckpoint, listCheckpoints } from '@/lib/run-runtime/service'
+import {
+  AUTOPILOT_STAGES,
+  isAutopilotStage,
+  type AutopilotApproval,
+  type AutopilotOptions,
+  type AutopilotStage,
+  type AutopilotStageState,
+  type AutopilotState,
+} from './types'
+
+type JsonRecord = Record<string, unknown>
+
+export const AUTOPILOT_CHECKPOINT_NODE = 'autopilot'
+export const AUTOPILOT_APPROVAL_NODE = 'autopilot.approval'
+
+function toObject(value: unknown): JsonRecord {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return value as JsonRecord
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+export function parseAutopilotOptions(payload: unknown): AutopilotOptions {
+  const record = toObject(payload)
+  const budget = typeof record.budget === 'number' && Number.isFinite(record.budget) && record.budget > 0
+    ? record.budget
+    : null
+  return {
+    budget,
+    autoSelectFirstCandidate: record.autoSelectFirstCandidate === true,
+    videoModel: readString(record.videoModel) || '',
+  }
+}
+
+export function createInitialAutopilotState(): AutopilotState {
+  return {
+    stage: AUTOPILOT_STAGES[0],
+    stages: {},
+    resumedFrom: null,
+  }
+}
+
+function parseStageState(value: unknown): AutopilotStageState | null {
+  const record = toObject(value)
+  if (Object.keys(record).length === 0) return null
+  return {
+    taskIds: Array.isArray(record.taskIds)
+      ? record.taskIds.filter((taskId): taskId is string => typeof taskId === 'string' && !!taskId)
+      : [],
+    batchId: readString(record.batchId),
+    launchedAt: readString(record.launchedAt),
+    note: readString(record.note),
+  }
+}
+
+function parseState(value: unknown): AutopilotState | null {
+  const record = toObject(value)
+  const stage = record.stage === 'done' || isAutopilotStage(record.stage) ? record.stage : null
+  if (!stage) return null
+  const stagesRecord = toObject(record.stages)
+  const stages: AutopilotState['stages'] = {}
+  for (const key of AUTOPILOT_STAGES) {
+    const parsed = parseStageState(stagesRecord[key])
+    if (parsed) stages[key] = parsed
+  }
+  const resumed = toObject(record.resumedFrom)
+  const resumedStepKey = readString(resumed.stepKey)
+  return {
+    stage,
+    stages,
+    resumedFrom: resumedStepKey && typeof resumed.attempt === 'number'
+      ? { stepKey: resumedStepKey, attempt: resumed.attempt }
+      : null,
+  }
+}
+
+/**
+ * 读取最新的 autopilot checkpoint；没有 checkpoint 时返回初始状态（version 0）
+ */
+export async function loadAutopilotState(runId: string): Promise<{ state: AutopilotState; version: number }> {
+  const [latest] = await listCheckpoints({ runId, nodeKey: AUTOPILOT_CHECKPOINT_NODE, limit: 1 })
+  const state = latest ? parseState(latest.stateJson) : null
+  return {
+    state: state || createInitialAutopilotState(),
+    version: latest?.version || 0,
+  }
+}
+
+/**
+ * checkpoint 只追加不覆盖：每次推进写入 version + 1，worker 中断后从最新版本续跑
+ */
+export async function saveAutopilotState(runId: string, version: number, state: AutopilotState): Promise<number> {
+  const nextVersion = version + 1
+  await createCheckpoint({
+    runId,
+    nodeKey: AUTOPILOT_CHECKPOINT_NODE,
+    version: nextVersion,
+    state: state as unknown as JsonRecord,
+  })
+  return nextVersion
+}
+
+/**
+ * 从已处理的阶段回退到 stage：清掉该阶段及其后所有阶段的子任务记录
+ */
+export function rewindAutopilotState(state: AutopilotState, stage: AutopilotStage): AutopilotState {
+  const index = AUTOPILOT_STAGES.indexOf(stage)
+  const stages: AutopilotState['stages'] = {}
+  for (const key of AUTOPILOT_STAGES.slice(0, index)) {
+    const existing = state.stages[key]
+    if (existing) stages[key] = existing
+  }
+  return { ...state, stage, stages }
+}
+
+export async function readAutopilotApproval(runId: string): Promise<AutopilotApproval | null> {
+  const [latest] = await listCheckpoints({ runId, nodeKey: AUTOPILOT_APPROVAL_NODE, limit: 1 })
+  if (!latest) return null
+  const record = toObject(latest.stateJson)
+  const approvedAt = readString(record.approvedAt)
+  if (!approvedAt) return null
+  return {
+    approvedAt,
+    approvedBy: readString(record.approvedBy) || '',
+  }
+}
+
+export async function recordAutopilotApproval(params: {
+  runId: string
+  userId: string
+}): Promise<AutopilotApproval> {
+  const [latest] = await listCheckpoints({ runId: params.runId, nodeKey: AUTOPILOT_APPROVAL_NODE, limit: 1 })
+  const approval: AutopilotApproval = {
+    approvedAt: new Date().toISOString(),
+    approvedBy: params.userId,
+  }
+  await createCheckpoint({
+    runId: params.runId,
+    nodeKey: AUTOPILOT_APPROVAL_NODE,
+    version: (latest?.version || 0) + 1,
+    state: approval as unknown as JsonRecord,
+  })
+  return approval
+}
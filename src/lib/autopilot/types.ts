@@ -0,0 +1,57 @@
+/**
+ * Autopilot：小说 → 成片的一键流水线
+ *
+ * 每个阶段对应 run 中的一个 step，按顺序提交现有任务类型并在阶段结束时做质量校验；
+ * 阶段进度以 checkpoint 形式写入 run，worker 中断后由新的 lease 持有者从 checkpoint 续跑。
+ */
+export const AUTOPILOT_STAGE = {
+  ANALYZE_ASSETS: 'analyze_assets',
+  APPROVE_ASSETS: 'approve_assets',
+  STORY_TO_SCRIPT: 'story_to_script',
+  SCRIPT_TO_STORYBOARD: 'script_to_storyboard',
+  ASSET_IMAGES: 'asset_images',
+  PANEL_IMAGES: 'panel_images',
+  PANEL_VIDEOS: 'panel_videos',
+  VOICE_LINES: 'voice_lines',
+  EDITOR: 'editor',
+} as const
+
+export type AutopilotStage = (typeof AUTOPILOT_STAGE)[keyof typeof AUTOPILOT_STAGE]
+
+export const AUTOPILOT_STAGES = Object.values(AUTOPILOT_STAGE) as readonly AutopilotStage[]
+
+export function isAutopilotStage(value: unknown): value is AutopilotStage {
+  return typeof value === 'string' && (AUTOPILOT_STAGES as readonly string[]).includes(value)
+}
+
+export function getAutopilotStageTitle(stage: AutopilotStage): string {
+  return `progress.autopilot.stage.${stage}`
+}
+
+export interface AutopilotOptions {
+  /** 预算上限（计费货币）；null 表示不限 */
+  budget: number | null
+  /** 资产图生成后自动选用第一张候选图 */
+  autoSelectFirstCandidate: boolean
+  videoModel: string
+}
+
+export interface AutopilotStageState {
+  /** 阶段提交的子任务；批量阶段只记录 batchId */
+  taskIds: string[]
+  batchId: string | null
+  launchedAt: string | null
+  note: string | null
+}
+
+export interface AutopilotState {
+  stage: AutopilotStage | 'done'
+  stages: Partial<Record<AutopilotStage, AutopilotStageState>>
+  /** 已处理过的重试请求，避免同一次重试在后续 tick 中重复回退 */
+  resumedFrom: { stepKey: string; attempt: number } | null
+}
+
+export interface AutopilotApproval {
+  approvedAt: string
+  approvedBy: string
+}
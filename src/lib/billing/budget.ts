@@ -0,0 +1,262 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { TASK_STATUS, type TaskBudgetAlert } from '@/lib/task/types'
+import { BudgetExceededError } from './errors'
+import { roundMoney, toMoneyNumber } from './money'
+import { VIRTUAL_PROJECT_IDS } from './reporting'
+
+export type BudgetScope = 'user' | 'project'
+
+export type BudgetStatus = {
+  scope: BudgetScope
+  projectId: string | null
+  period: string
+  monthlyLimit: number
+  warnPercent: number
+  hardStopPercent: number
+  spent: number
+  percent: number
+}
+
+export const DEFAULT_BUDGET_WARN_PERCENT = 80
+export const DEFAULT_BUDGET_HARD_STOP_PERCENT = 100
+
+const USER_SCOPE_KEY = 'user'
+
+function toScopeKey(scope: BudgetScope, projectId?: string | null): string {
+  return scope === 'user' ? USER_SCOPE_KEY : `project:${projectId}`
+}
+
+function isBudgetProject(projectId?: string | null): projectId is string {
+  return Boolean(projectId && !VIRTUAL_PROJECT_IDS.has(projectId))
+}
+
+function toPercent(spent: number, limit: number): number {
+  if (limit <= 0) return 0
+  return Math.round((spent / limit) * 10000) / 100
+}
+
+/**
+ * 预算按自然月（UTC）统计
+ */
+export function getBudgetPeriod(now = new Date()) {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  return {
+    period: start.toISOString().slice(0, 7),
+    start,
+  }
+}
+
+/**
+ * 任务计入预算的费用：已结算按实际费用（SHADOW 不扣费，取影子费用），
+ * 报价/冻结中按冻结上限计入，已回滚/跳过的不计
+ */
+export function resolveTaskBillingSpend(billingInfo: unknown): number {
+  if (!billingInfo || typeof billingInfo !== 'object' || Array.isArray(billingInfo)) return 0
+  const info = billingInfo as Record<string, unknown>
+  if (info.billable !== true) return 0
+  if (info.status === 'settled') {
+    const cost = info.modeSnapshot === 'SHADOW' ? info.actualCost : info.chargedCost
+    return typeof cost === 'number' ? cost : 0
+  }
+  if (info.status === 'quoted' || info.status === 'frozen') {
+    return typeof info.maxFrozenCost === 'number' ? info.maxFrozenCost : 0
+  }
+  return 0
+}
+
+type BudgetClient = Prisma.TransactionClient | typeof prisma
+
+const UNCOUNTED_TASK_STATUSES = [TASK_STATUS.FAILED, TASK_STATUS.CANCELED, TASK_STATUS.DISMISSED]
+
+/**
+ * Task.budgetSpend 随 billingInfo 一起写入（见 resolveTaskBillingSpend），这里直接聚合；
+ * 失败/取消的任务未结算时（被拒的提交、SHADOW 模式不回滚的报价）不再占用预算
+ */
+async function sumBudgetSpend(client: BudgetClient, params: {
+  userId: string
+  projectId?: string | null
+  since: Date
+  excludeTaskId?: string
+}): Promise<number> {
+  const result = await client.task.aggregate({
+    where: {
+      userId: params.userId,
+      createdAt: { gte: params.since },
+      ...(params.projectId ? { projectId: params.projectId } : {}),
+      ...(params.excludeTaskId ? { id: { not: params.excludeTaskId } } : {}),
+      OR: [
+        { status: { notIn: UNCOUNTED_TASK_STATUSES } },
+        { billingInfo: { path: '$.status', equals: 'settled' } },
+      ],
+    },
+    _sum: { budgetSpend: true },
+  })
+  return roundMoney(toMoneyNumber(result._sum.budgetSpend))
+}
+
+function listApplicableScopeKeys(projectId?: string | null): string[] {
+  const scopeKeys = [USER_SCOPE_KEY]
+  if (isBudgetProject(projectId)) scopeKeys.push(toScopeKey('project', projectId))
+  return scopeKeys
+}
+
+async function listApplicableBudgets(client: BudgetClient, userId: string, projectId?: string | null) {
+  return await client.billingBudget.findMany({
+    where: { userId, scopeKey: { in: listApplicableScopeKeys(projectId) } },
+    select: {
+      scopeKey: true,
+      projectId: true,
+      monthlyLimit: true,
+      warnPercent: true,
+      hardStopPercent: true,
+    },
+  })
+}
+
+async function loadBudgetStatuses(client: BudgetClient, params: {
+  userId: string
+  projectId?: string | null
+  excludeTaskId?: string
+}): Promise<BudgetStatus[]> {
+  const budgets = await listApplicableBudgets(client, params.userId, params.projectId)
+  if (budgets.length === 0) return []
+  const { period, start } = getBudgetPeriod()
+  const statuses: BudgetStatus[] = []
+  for (const budget of budgets) {
+    const scope: BudgetScope = budget.scopeKey === USER_SCOPE_KEY ? 'user' : 'project'
+    const monthlyLimit = roundMoney(toMoneyNumber(budget.monthlyLimit))
+    const spent = await sumBudgetSpend(client, {
+      userId: params.userId,
+      projectId: scope === 'project' ? budget.projectId : null,
+      since: start,
+      excludeTaskId: params.excludeTaskId,
+    })
+    statuses.push({
+      scope,
+      projectId: budget.projectId,
+      period,
+      monthlyLimit,
+      warnPercent: budget.warnPercent,
+      hardStopPercent: budget.hardStopPercent,
+      spent,
+      percent: toPercent(spent, monthlyLimit),
+    })
+  }
+  return statuses
+}
+
+/**
+ * 项目页展示：用户预算与该项目预算的本月用量
+ */
+export async function getBudgetStatuses(userId: string, projectId?: string | null): Promise<BudgetStatus[]> {
+  return await loadBudgetStatuses(prisma, { userId, projectId })
+}
+
+/**
+ * 锁住本次适用的预算行，同一用户的预算校验因此串行执行
+ */
+async function lockApplicableBudgets(tx: Prisma.TransactionClient, userId: string, projectId?: string | null) {
+  const scopeKeys = listApplicableScopeKeys(projectId)
+  const rows = await tx.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+    SELECT id FROM billing_budgets
+    WHERE userId = ${userId} AND scopeKey IN (${Prisma.join(scopeKeys)})
+    ORDER BY scopeKey
+    FOR UPDATE
+  `)
+  return rows.length > 0
+}
+
+/**
+ * 检查新增费用是否超出预算：越过硬停线抛出 BudgetExceededError；
+ * 越过预警线 / 100% 时返回提示（用于任务事件与 toast）
+ * 传入 taskId 时校验与预占在同一事务内完成：统计排除该任务旧值，通过后把费用写入其 budgetSpend，
+ * 并发提交的任务在预算行锁上排队，后者能看到前者的预占
+ */
+export async function checkBudgetForCost(params: {
+  userId: string
+  projectId?: string | null
+  cost: number
+  taskId?: string
+}): Promise<TaskBudgetAlert[]> {
+  if (params.cost <= 0) return []
+  return await prisma.$transaction(async (tx) => {
+    if (!(await lockApplicableBudgets(tx, params.userId, params.projectId))) return []
+    const statuses = await loadBudgetStatuses(tx, {
+      userId: params.userId,
+      projectId: params.projectId,
+      excludeTaskId: params.taskId,
+    })
+    const alerts: TaskBudgetAlert[] = []
+    for (const status of statuses) {
+      const nextSpent = roundMoney(status.spent + params.cost)
+      const hardStop = roundMoney(status.monthlyLimit * status.hardStopPercent / 100)
+      if (nextSpent > hardStop) {
+        throw new BudgetExceededError({
+          scope: status.scope,
+          limit: status.monthlyLimit,
+          spent: status.spent,
+          required: params.cost,
+        })
+      }
+      const nextPercent = toPercent(nextSpent, status.monthlyLimit)
+      const level = nextPercent >= 100 && status.percent < 100
+        ? 'exceeded'
+        : nextPercent >= status.warnPercent && status.percent < status.warnPercent
+          ? 'warning'
+          : null
+      if (!level) continue
+      alerts.push({
+        scope: status.scope,
+        level,
+        limit: status.monthlyLimit,
+        spent: nextSpent,
+        percent: nextPercent,
+      })
+    }
+    if (params.taskId && statuses.length > 0) {
+      await tx.task.updateMany({
+        where: { id: params.taskId },
+        data: { budgetSpend: roundMoney(params.cost) },
+      })
+    }
+    return alerts
+  })
+}
+
+export async function upsertBudget(params: {
+  userId: string
+  scope: BudgetScope
+  projectId?: string | null
+  monthlyLimit: number
+  warnPercent?: number
+  hardStopPercent?: number
+}) {
+  const scopeKey = toScopeKey(params.scope, params.projectId)
+  const data = {
+    monthlyLimit: roundMoney(params.monthlyLimit),
+    warnPercent: params.warnPercent ?? DEFAULT_BUDGET_WARN_PERCENT,
+    hardStopPercent: params.hardStopPercent ?? DEFAULT_BUDGET_HARD_STOP_PERCENT,
+  }
+  return await prisma.billingBudget.upsert({
+    where: { userId_scopeKey: { userId: params.userId, scopeKey } },
+    create: {
+      userId: params.userId,
+      scopeKey,
+      projectId: params.scope === 'project' ? params.projectId || null : null,
+      ...data,
+    },
+    update: data,
+  })
+}
+
+export async function deleteBudget(params: {
+  userId: string
+  scope: BudgetScope
+  projectId?: string | null
+}): Promise<boolean> {
+  const result = await prisma.billingBudget.deleteMany({
+    where: { userId: params.userId, scopeKey: toScopeKey(params.scope, params.projectId) },
+  })
+  return result.count > 0
+}
@@ -10,6 +10,22 @@ export class InsufficientBalanceError extends Error {
   }
 }
 
+export class BudgetExceededError extends Error {
+  public scope: 'user' | 'project'
+  public limit: number
+  public spent: number
+  public required: number
+
+  constructor(params: { scope: 'user' | 'project'; limit: number; spent: number; required: number }) {
+    super(`超出月度预算（${params.scope === 'user' ? '用户' : '项目'}），上限 ¥${params.limit.toFixed(4)}，本月已用 ¥${params.spent.toFixed(4)}，本次需要 ¥${params.required.toFixed(4)}`)
+    this.name = 'BudgetExceededError'
+    this.scope = params.scope
+    this.limit = params.limit
+    this.spent = params.spent
+    this.required = params.required
+  }
+}
+
 export type BillingOperationErrorCode =
   | 'BILLING_CONFIRM_FAILED'
   | 'BILLING_INVALID_FREEZE'
@@ -1,6 +1,13 @@
 export { getBillingMode, getBootBillingEnabled } from './mode'
 export { BILLING_CURRENCY } from './currency'
-export { InsufficientBalanceError } from './errors'
+export { BudgetExceededError, InsufficientBalanceError } from './errors'
+export {
+  checkBudgetForCost,
+  deleteBudget,
+  getBudgetStatuses,
+  resolveTaskBillingSpend,
+  upsertBudget,
+} from './budget'
 export { getProjectCostDetails, getProjectTotalCost, getUserCostDetails, getUserCostSummary } from './reporting'
 export { addBalance, getBalance } from './ledger'
 export {
@@ -16,4 +23,5 @@ export {
   withVoiceDesignBilling,
 } from './service'
 export { buildDefaultTaskBillingInfo, isBillableTaskType } from './task-policy'
-export type { BillingMode, BillingRecordParams, BillingStatus, TaskBillingInfo } from './types'
+export type { BudgetScope, BudgetStatus } from './budget'
+export type { BillingMode, BillingRecordParams, BillingStatus, TaskBillingInfo, TaskBudgetAlert } from './types'
@@ -3,7 +3,7 @@ import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import type { ApiType, UsageUnit } from './cost'
 import { BillingOperationError } from './errors'
-import { toMoneyNumber } from './money'
+import { roundMoney, toMoneyNumber } from './money'
 
 interface RecordParams {
   projectId: string
@@ -24,7 +24,8 @@ interface PureRecordParams extends RecordParams {
   taskType?: string | null
 }
 
-const VIRTUAL_PROJECT_IDS = new Set(['asset-hub', 'global-asset-hub', 'system'])
+/** 资产中心 / 系统任务使用的虚拟 projectId，不对应真实项目 */
+export const VIRTUAL_PROJECT_IDS: ReadonlySet<string> = new Set(['asset-hub', 'global-asset-hub', 'system'])
 
 function isProjectScoped(projectId: string): boolean {
   return Boolean(projectId && !VIRTUAL_PROJECT_IDS.has(projectId))
@@ -72,6 +73,11 @@ export function buildBillingMeta(params: {
   if (params.metadata?.inputTokens) meta.inputTokens = params.metadata.inputTokens
   if (params.metadata?.outputTokens) meta.outputTokens = params.metadata.outputTokens
 
+  // LLM 响应缓存命中节省的 token / 费用
+  if (params.metadata?.cacheSavings && typeof params.metadata.cacheSavings === 'object') {
+    meta.cacheSavings = params.metadata.cacheSavings
+  }
+
   // 实际使用的模型列表（复合模型场景）
   if (Array.isArray(params.metadata?.actualModels) && (params.metadata.actualModels as unknown[]).length > 0) {
     meta.actualModels = params.metadata.actualModels
@@ -110,6 +116,7 @@ export async function recordUsageCostOnly(
         unit: params.unit,
         cost: params.cost,
         metadata: params.metadata ? JSON.stringify(params.metadata) : null,
+        ...buildCacheSavingsColumns(params.metadata),
       },
     })
   } else {
@@ -135,6 +142,62 @@ export async function recordUsageCostOnly(
   _ulogInfo(`[计费] ${params.action} - ${params.model} - ¥${params.cost.toFixed(4)} (已记录${hasProject ? '' : '，无项目归属'})`)
 }
 
+export type CacheSavingsSummary = {
+  hits: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+function readSavingsNumber(value: unknown): number {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+/**
+ * 从计费 metadata 提取缓存节省量，写入 UsageCost 的数值列以便直接聚合
+ */
+function buildCacheSavingsColumns(metadata?: Record<string, unknown>) {
+  const savings = metadata?.cacheSavings
+  if (!savings || typeof savings !== 'object') return {}
+  const record = savings as Record<string, unknown>
+  return {
+    cacheHits: Math.floor(readSavingsNumber(record.hits)),
+    cacheSavedInputTokens: Math.floor(readSavingsNumber(record.inputTokens)),
+    cacheSavedOutputTokens: Math.floor(readSavingsNumber(record.outputTokens)),
+    cacheSavedCost: readSavingsNumber(record.cost),
+  }
+}
+
+/**
+ * 汇总文本计费记录的缓存节省量（缓存命中按 0 计费，这里给出节省量）
+ */
+async function sumCacheSavings(where: Prisma.UsageCostWhereInput): Promise<CacheSavingsSummary> {
+  try {
+    const result = await prisma.usageCost.aggregate({
+      where: {
+        ...where,
+        cacheHits: { gt: 0 },
+      },
+      _sum: {
+        cacheHits: true,
+        cacheSavedInputTokens: true,
+        cacheSavedOutputTokens: true,
+        cacheSavedCost: true,
+      },
+    })
+    return {
+      hits: result._sum.cacheHits ?? 0,
+      inputTokens: result._sum.cacheSavedInputTokens ?? 0,
+      outputTokens: result._sum.cacheSavedOutputTokens ?? 0,
+      cost: roundMoney(toMoneyNumber(result._sum.cacheSavedCost)),
+    }
+  } catch (error) {
+    _ulogError('[计费] 查询缓存节省失败:', error)
+    return { hits: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  }
+}
+
 export async function getProjectTotalCost(projectId: string): Promise<number> {
   try {
     const result = await prisma.usageCost.aggregate({
@@ -193,6 +256,7 @@ export async function getProjectCostDetails(projectId: string) {
     byType,
     byAction,
     recentRecords,
+    cacheSavings: await sumCacheSavings({ projectId }),
   }
 }
 
@@ -212,6 +276,7 @@ export async function getUserCostSummary(userId: string) {
 
     return {
       total: toMoneyNumber(totalResult._sum.cost),
+      cacheSavings: await sumCacheSavings({ userId }),
       byProject: byProjectRaw.map((item) => ({
         ...item,
         _sum: {
@@ -224,6 +289,7 @@ export async function getUserCostSummary(userId: string) {
     _ulogError('[计费] 查询用户费用汇总失败:', error)
     return {
       total: 0,
+      cacheSavings: { hits: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
       byProject: [],
     }
   }
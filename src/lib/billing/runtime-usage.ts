@@ -4,6 +4,8 @@ export interface TextUsageEntry {
   model: string
   inputTokens: number
   outputTokens: number
+  /** 命中 LLM 响应缓存：token 只用于统计节省，不计费 */
+  cached?: boolean
 }
 
 type TextUsageStore = {
@@ -32,5 +34,6 @@ export function recordTextUsage(entry: TextUsageEntry) {
     model: entry.model,
     inputTokens: Math.max(0, Math.floor(entry.inputTokens || 0)),
     outputTokens: Math.max(0, Math.floor(entry.outputTokens || 0)),
+    ...(entry.cached ? { cached: true } : {}),
   })
 }
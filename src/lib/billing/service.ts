@@ -25,7 +25,8 @@ import {
 } from './ledger'
 import type { ApiType, UsageUnit } from './cost'
 import { getBillingMode } from './mode'
-import { BillingOperationError, InsufficientBalanceError } from './errors'
+import { checkBudgetForCost } from './budget'
+import { BillingOperationError, BudgetExceededError, InsufficientBalanceError } from './errors'
 import { roundMoney } from './money'
 import { withTextUsageCollection, type TextUsageEntry } from './runtime-usage'
 import type {
@@ -130,11 +131,19 @@ function resolveTextCostFromUsage(
   let outputTokens = 0
   let cost = 0
   const byModel: UsageByModel = {}
+  const cacheSavings = { hits: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
 
   for (const item of usage) {
     const inTokens = Math.max(0, Math.floor(Number(item.inputTokens || 0)))
     const outTokens = Math.max(0, Math.floor(Number(item.outputTokens || 0)))
     const model = item.model || 'unknown'
+    if (item.cached) {
+      cacheSavings.hits += 1
+      cacheSavings.inputTokens += inTokens
+      cacheSavings.outputTokens += outTokens
+      cacheSavings.cost += resolveCacheSavedCost(model, inTokens, outTokens, customPricing)
+      continue
+    }
     const hasBillableTokens = inTokens > 0 || outTokens > 0
     const itemCost = hasBillableTokens ? normalizeMoney(calcText(model, inTokens, outTokens, customPricing)) : 0
 
@@ -157,10 +166,34 @@ function resolveTextCostFromUsage(
       actualInputTokens: inputTokens,
       actualOutputTokens: outputTokens,
       usageByModel: byModel,
+      ...(cacheSavings.hits > 0
+        ? { cacheSavings: { ...cacheSavings, cost: normalizeMoney(cacheSavings.cost) } }
+        : {}),
     },
   }
 }
 
+/**
+ * 缓存命中节省的费用只用于展示，未知模型定价时记 0 而不是让结算失败。
+ */
+function resolveCacheSavedCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  customPricing?: ModelCustomPricing | null,
+): number {
+  if (inputTokens <= 0 && outputTokens <= 0) return 0
+  try {
+    return normalizeMoney(calcText(model, inputTokens, outputTokens, customPricing))
+  } catch {
+    return 0
+  }
+}
+
+function isFullyCachedTextUsage(resolved: ResolvedActual): boolean {
+  return resolved.actualQuantity === 0 && !!resolved.metadata?.cacheSavings
+}
+
 function resolveRecordModel(defaultModel: string, metadata?: Record<string, unknown>) {
   const usageByModelValue = metadata?.usageByModel
   if (!usageByModelValue || typeof usageByModelValue !== 'object' || Array.isArray(usageByModelValue)) {
@@ -249,7 +282,7 @@ function resolveActualForSync<T>(
 ): ResolvedActual {
   const textResolved = resolveTextCostFromUsage(textUsage, params.customPricing)
   if (params.apiType === 'text' && textResolved) {
-    if (textResolved.actualQuantity > 0) {
+    if (textResolved.actualQuantity > 0 || isFullyCachedTextUsage(textResolved)) {
       return textResolved
     }
     return {
@@ -294,7 +327,7 @@ function resolveTaskActual(
 ): ResolvedActual {
   const textResolved = resolveTextCostFromUsage(options?.textUsage || [])
   if (info.apiType === 'text' && textResolved) {
-    if (textResolved.actualQuantity > 0) {
+    if (textResolved.actualQuantity > 0 || isFullyCachedTextUsage(textResolved)) {
       return textResolved
     }
     return {
@@ -789,6 +822,19 @@ export function handleBillingError(error: unknown): NextResponse | null {
       { status: 402 },
     )
   }
+  if (error instanceof BudgetExceededError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: 'BUDGET_EXCEEDED',
+        scope: error.scope,
+        limit: error.limit,
+        spent: error.spent,
+        required: error.required,
+      },
+      { status: 402 },
+    )
+  }
   return null
 }
 
@@ -840,6 +886,17 @@ export async function prepareTaskBilling(task: {
     return next
   }
 
+  // 月度预算在 SHADOW / ENFORCE 下都生效：越过硬停线直接拒绝，越过预警线附带提示
+  const budgetAlerts = await checkBudgetForCost({
+    userId: task.userId,
+    projectId: task.projectId,
+    cost: quotedCost,
+    taskId: task.id,
+  })
+  if (budgetAlerts.length > 0) {
+    next.budgetAlerts = budgetAlerts
+  }
+
   if (mode === 'SHADOW') {
     next.status = 'quoted'
     next.maxFrozenCost = quotedCost
@@ -973,6 +1030,7 @@ export async function settleTaskBilling(task: {
       modeSnapshot: mode,
       status: info.status === 'skipped' ? 'skipped' : 'settled',
       chargedCost: 0,
+      actualCost: actual.actualCost,
     } satisfies TaskBillingInfo
   }
 
@@ -1052,6 +1110,7 @@ export async function settleTaskBilling(task: {
     ...info,
     status: 'settled',
     chargedCost,
+    actualCost: actual.actualCost,
   } satisfies TaskBillingInfo
 }
 
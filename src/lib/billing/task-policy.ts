@@ -54,6 +54,7 @@ const BILLABLE_TASK_TYPES = new Set<TaskType>([
   TASK_TYPE.ASSET_HUB_AI_MODIFY_LOCATION,
   TASK_TYPE.ASSET_HUB_AI_MODIFY_PROP,
   TASK_TYPE.ASSET_HUB_REFERENCE_TO_CHARACTER,
+  TASK_TYPE.PROMPT_OVERRIDE_COMPARE,
 ])
 
 function toNumber(value: unknown, fallback: number) {
@@ -275,6 +276,7 @@ export function buildDefaultTaskBillingInfo(taskType: TaskType, payload: AnyPayl
     case TASK_TYPE.ASSET_HUB_VOICE_DESIGN:
       return buildVoiceDesignTaskInfo(taskType)
     case TASK_TYPE.REGENERATE_STORYBOARD_TEXT:
+    case TASK_TYPE.PROMPT_OVERRIDE_COMPARE:
     case TASK_TYPE.INSERT_PANEL:
     case TASK_TYPE.ANALYZE_NOVEL:
     case TASK_TYPE.STORY_TO_SCRIPT_RUN:
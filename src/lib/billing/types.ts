@@ -29,4 +29,4 @@ export interface BillingQuote {
   unit: UsageUnit
 }
 
-export type { TaskBillingInfo, TaskType } from '@/lib/task/types'
+export type { TaskBillingInfo, TaskBudgetAlert, TaskType } from '@/lib/task/types'
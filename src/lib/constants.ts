@@ -167,13 +167,31 @@ export const ART_STYLES = [
 
 export type ArtStyleValue = (typeof ART_STYLES)[number]['value']
 
+// 画风库中的自定义画风以 "custom:<id>" 引用
+export const CUSTOM_ART_STYLE_PREFIX = 'custom:'
+
+export function isCustomArtStyleValue(value: unknown): value is string {
+  return typeof value === 'string'
+    && value.startsWith(CUSTOM_ART_STYLE_PREFIX)
+    && value.length > CUSTOM_ART_STYLE_PREFIX.length
+}
+
+export function toCustomArtStyleValue(styleId: string): string {
+  return `${CUSTOM_ART_STYLE_PREFIX}${styleId}`
+}
+
+export function parseCustomArtStyleId(value: unknown): string | null {
+  return isCustomArtStyleValue(value) ? value.slice(CUSTOM_ART_STYLE_PREFIX.length) : null
+}
+
 export function isArtStyleValue(value: unknown): value is ArtStyleValue {
-  return typeof value === 'string' && ART_STYLES.some((style) => style.value === value)
+  return typeof value === 'string'
+    && (ART_STYLES.some((style) => style.value === value) || isCustomArtStyleValue(value))
 }
 
 /**
- * 🔥 实时从 ART_STYLES 常量获取风格 prompt
- * 这是获取风格 prompt 的唯一正确方式，确保始终使用最新的常量定义
+ * 🔥 实时从 ART_STYLES 常量获取内置风格 prompt
+ * 自定义画风（custom:<id>）需经 @/lib/art-style 的 resolveArtStyle 从画风库读取，此处返回空字符串
  * 
  * @param artStyle - 风格标识符，如 'realistic', 'american-comic' 等
  * @returns 对应的风格 prompt，如果找不到则返回空字符串
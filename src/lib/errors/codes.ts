@@ -129,6 +129,13 @@ export const ERROR_CATALOG = {
     userMessageKey: 'errors.INSUFFICIENT_BALANCE',
     defaultMessage: 'Insufficient balance',
   },
+  BUDGET_EXCEEDED: {
+    httpStatus: 402,
+    retryable: false,
+    category: ERROR_CATEGORY.BILLING,
+    userMessageKey: 'errors.BUDGET_EXCEEDED',
+    defaultMessage: 'Monthly budget exceeded',
+  },
   SENSITIVE_CONTENT: {
     httpStatus: 422,
     retryable: false,
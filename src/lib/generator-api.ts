@@ -10,7 +10,13 @@ import { logInfo as _ulogInfo } from '@/lib/logging/core'
 
 import { createAudioGenerator, createImageGenerator, createVideoGenerator } from './generators/factory'
 import type { GenerateResult } from './generators/base'
-import { getProviderConfig, getProviderKey, resolveModelSelection } from './api-config'
+import {
+    getProviderConfig,
+    getProviderKey,
+    resolveModelSelection,
+    type ModelSelection,
+    type ProviderConfig,
+} from './api-config'
 import {
     generateImageViaOpenAICompat,
     generateImageViaOpenAICompatTemplate,
@@ -20,9 +26,66 @@ import {
 } from './model-gateway'
 import { generateBailianAudio, generateBailianImage, generateBailianVideo } from './providers/bailian'
 import { generateSiliconFlowAudio, generateSiliconFlowImage, generateSiliconFlowVideo } from './providers/siliconflow'
+import { buildProviderRateLimitRules, withProviderRateLimit } from './provider-rate-limit'
+import { resolveBuiltinCapabilitiesByModelKey } from './model-capabilities/lookup'
 
 const OFFICIAL_ONLY_PROVIDER_KEYS = new Set(['bailian', 'siliconflow'])
 
+type ImageGenerateOptions = {
+    referenceImages?: string[]
+    aspectRatio?: string
+    resolution?: string
+    outputFormat?: string
+    keepOriginalAspectRatio?: boolean  // 🔥 编辑时保持原图比例
+    size?: string  // 🔥 直接指定像素尺寸如 "5016x3344"（优先于 aspectRatio）
+    seed?: number  // 随机种子，仅在 supportsImageSeed 为 true 时传入
+    maskImage?: string  // 局部重绘蒙版（白色为重绘区域），仅在 supportsImageInpaint 为 true 时传入
+}
+
+type VideoGenerateOptions = {
+    prompt?: string
+    duration?: number
+    fps?: number
+    resolution?: string      // '720p' | '1080p'
+    aspectRatio?: string     // '16:9' | '9:16'
+    generateAudio?: boolean  // 仅 Seedance 1.5 Pro 支持
+    lastFrameImageUrl?: string  // 首尾帧模式的尾帧图片
+    [key: string]: string | number | boolean | undefined
+}
+
+type AudioGenerateOptions = {
+    voice?: string
+    rate?: number
+}
+
+/**
+ * 按 provider / 模型限流执行一次生成调用（能力目录 + 用户 provider 配置中的 rateLimit）
+ * 上游限流错误会带上 retryAfterMs，由 worker 延迟重新入队
+ */
+async function runWithProviderRateLimit<T>(
+    params: {
+        userId: string
+        selection: ModelSelection
+        providerConfig: ProviderConfig
+        modelType: 'image' | 'video' | 'audio'
+    },
+    run: () => Promise<T>,
+): Promise<T> {
+    const { userId, selection, providerConfig, modelType } = params
+    return await withProviderRateLimit({
+        provider: selection.provider,
+        modelId: selection.modelId,
+        rules: buildProviderRateLimitRules({
+            userId,
+            modelType,
+            provider: selection.provider,
+            modelId: selection.modelId,
+            providerRateLimit: providerConfig.rateLimit,
+        }),
+        run,
+    })
+}
+
 /**
  * 将 aspectRatio 映射为 OpenAI 兼容的 size
  */
@@ -40,6 +103,56 @@ function aspectRatioToOpenAISize(aspectRatio: string | undefined): string | unde
     return mapping[ratio] || undefined
 }
 
+const TEMPLATE_SEED_PLACEHOLDER = /\{\{\s*seed\s*\}\}/
+const TEMPLATE_MASK_PLACEHOLDER = /\{\{\s*mask\s*\}\}/
+
+function resolveImageGatewayRoute(selection: ModelSelection, providerConfig: ProviderConfig) {
+    const providerKey = getProviderKey(selection.provider).toLowerCase()
+    if (OFFICIAL_ONLY_PROVIDER_KEYS.has(providerKey)) return 'official'
+    if (providerKey === 'gemini-compatible') {
+        // DEPRECATED: historical rows persisted gemini-compatible as openai-compat by default.
+        // Runtime now resolves route by apiMode to avoid requiring data migration SQL.
+        return providerConfig.apiMode === 'openai-official' ? 'openai-compat' : 'official'
+    }
+    return providerConfig.gatewayRoute || resolveModelGatewayRoute(selection.provider)
+}
+
+/**
+ * 判断图片模型是否接受 seed：内置模型看能力目录 supportSeed，
+ * OpenAI 兼容模板看请求模板里是否引用了 {{seed}}
+ */
+export async function supportsImageSeed(userId: string, modelKey: string): Promise<boolean> {
+    const selection = await resolveModelSelection(userId, modelKey, 'image')
+    if (resolveBuiltinCapabilitiesByModelKey('image', selection.modelKey)?.image?.supportSeed === true) {
+        return true
+    }
+    const template = selection.compatMediaTemplate
+    return !!template && TEMPLATE_SEED_PLACEHOLDER.test(JSON.stringify(template.create))
+}
+
+/**
+ * 判断图片模型能否把构图草图当作结构参考图（能力目录 supportLayoutReference）
+ */
+export async function supportsImageLayoutReference(userId: string, modelKey: string): Promise<boolean> {
+    const selection = await resolveModelSelection(userId, modelKey, 'image')
+    return resolveBuiltinCapabilitiesByModelKey('image', selection.modelKey)?.image?.supportLayoutReference === true
+}
+
+/**
+ * 判断图片模型能否按蒙版局部重绘：内置模型看能力目录 supportInpaint，
+ * OpenAI 兼容模板看是否引用了 {{mask}}，无模板的 OpenAI images 接口原生支持 mask
+ */
+export async function supportsImageInpaint(userId: string, modelKey: string): Promise<boolean> {
+    const selection = await resolveModelSelection(userId, modelKey, 'image')
+    if (resolveBuiltinCapabilitiesByModelKey('image', selection.modelKey)?.image?.supportInpaint === true) {
+        return true
+    }
+    const template = selection.compatMediaTemplate
+    if (template) return TEMPLATE_MASK_PLACEHOLDER.test(JSON.stringify(template.create))
+    const providerConfig = await getProviderConfig(userId, selection.provider)
+    return resolveImageGatewayRoute(selection, providerConfig) === 'openai-compat'
+}
+
 /**
  * 生成图片（简化版）
  * 
@@ -52,18 +165,24 @@ export async function generateImage(
     userId: string,
     modelKey: string,
     prompt: string,
-    options?: {
-        referenceImages?: string[]
-        aspectRatio?: string
-        resolution?: string
-        outputFormat?: string
-        keepOriginalAspectRatio?: boolean  // 🔥 编辑时保持原图比例
-        size?: string  // 🔥 直接指定像素尺寸如 "5016x3344"（优先于 aspectRatio）
-    }
+    options?: ImageGenerateOptions
 ): Promise<GenerateResult> {
     const selection = await resolveModelSelection(userId, modelKey, 'image')
     _ulogInfo(`[generateImage] resolved model selection: ${selection.modelKey}`)
     const providerConfig = await getProviderConfig(userId, selection.provider)
+    return await runWithProviderRateLimit(
+        { userId, selection, providerConfig, modelType: 'image' },
+        async () => await dispatchImageGeneration(userId, selection, providerConfig, prompt, options),
+    )
+}
+
+async function dispatchImageGeneration(
+    userId: string,
+    selection: ModelSelection,
+    providerConfig: ProviderConfig,
+    prompt: string,
+    options?: ImageGenerateOptions,
+): Promise<GenerateResult> {
     const providerKey = getProviderKey(selection.provider).toLowerCase()
     if (providerKey === 'bailian') {
         return await generateBailianImage({
@@ -91,15 +210,7 @@ export async function generateImage(
             },
         })
     }
-    const defaultGatewayRoute = resolveModelGatewayRoute(selection.provider)
-    let gatewayRoute = OFFICIAL_ONLY_PROVIDER_KEYS.has(providerKey)
-        ? 'official'
-        : (providerConfig.gatewayRoute || defaultGatewayRoute)
-    if (providerKey === 'gemini-compatible') {
-        // DEPRECATED: historical rows persisted gemini-compatible as openai-compat by default.
-        // Runtime now resolves route by apiMode to avoid requiring data migration SQL.
-        gatewayRoute = providerConfig.apiMode === 'openai-official' ? 'openai-compat' : 'official'
-    }
+    const gatewayRoute = resolveImageGatewayRoute(selection, providerConfig)
 
     // 调用生成（提取 referenceImages 单独传递，其余选项合并进 options）
     const { referenceImages, ...generatorOptions } = options || {}
@@ -137,6 +248,8 @@ export async function generateImage(
             // 移除不支持的 aspectRatio
             delete openaiCompatOptions.aspectRatio
         }
+        // OpenAI images 接口没有 seed 参数（内置模型走兼容网关时同样丢弃）
+        delete openaiCompatOptions.seed
 
         return await generateImageViaOpenAICompat({
             userId,
@@ -180,19 +293,24 @@ export async function generateVideo(
     userId: string,
     modelKey: string,
     imageUrl: string,
-    options?: {
-        prompt?: string
-        duration?: number
-        fps?: number
-        resolution?: string      // '720p' | '1080p'
-        aspectRatio?: string     // '16:9' | '9:16'
-        generateAudio?: boolean  // 仅 Seedance 1.5 Pro 支持
-        lastFrameImageUrl?: string  // 首尾帧模式的尾帧图片
-        [key: string]: string | number | boolean | undefined
-    }
+    options?: VideoGenerateOptions
 ): Promise<GenerateResult> {
     const selection = await resolveModelSelection(userId, modelKey, 'video')
     _ulogInfo(`[generateVideo] resolved model selection: ${selection.modelKey}`)
+    const providerConfig = await getProviderConfig(userId, selection.provider)
+    return await runWithProviderRateLimit(
+        { userId, selection, providerConfig, modelType: 'video' },
+        async () => await dispatchVideoGeneration(userId, selection, providerConfig, imageUrl, options),
+    )
+}
+
+async function dispatchVideoGeneration(
+    userId: string,
+    selection: ModelSelection,
+    providerConfig: ProviderConfig,
+    imageUrl: string,
+    options?: VideoGenerateOptions,
+): Promise<GenerateResult> {
     const providerKey = getProviderKey(selection.provider).toLowerCase()
     if (providerKey === 'bailian') {
         return await generateBailianVideo({
@@ -220,7 +338,6 @@ export async function generateVideo(
             },
         })
     }
-    const providerConfig = await getProviderConfig(userId, selection.provider)
     const defaultGatewayRoute = resolveModelGatewayRoute(selection.provider)
     const gatewayRoute = OFFICIAL_ONLY_PROVIDER_KEYS.has(providerKey)
         ? 'official'
@@ -289,12 +406,22 @@ export async function generateAudio(
     userId: string,
     modelKey: string,
     text: string,
-    options?: {
-        voice?: string
-        rate?: number
-    }
+    options?: AudioGenerateOptions
 ): Promise<GenerateResult> {
     const selection = await resolveModelSelection(userId, modelKey, 'audio')
+    const providerConfig = await getProviderConfig(userId, selection.provider)
+    return await runWithProviderRateLimit(
+        { userId, selection, providerConfig, modelType: 'audio' },
+        async () => await dispatchAudioGeneration(userId, selection, text, options),
+    )
+}
+
+async function dispatchAudioGeneration(
+    userId: string,
+    selection: ModelSelection,
+    text: string,
+    options?: AudioGenerateOptions,
+): Promise<GenerateResult> {
     const providerKey = getProviderKey(selection.provider).toLowerCase()
     if (providerKey === 'bailian') {
         return await generateBailianAudio({
@@ -32,6 +32,7 @@ interface ArkImageOptions {
     modelId?: string
     size?: string
     resolution?: string
+    seed?: number
     provider?: string
     modelKey?: string
 }
@@ -197,7 +198,8 @@ export class ArkImageGenerator extends BaseImageGenerator {
         const {
             aspectRatio,
             modelId = 'doubao-seedream-4-5-251128',
-            size: directSize  // 直接传入的像素尺寸（编辑模式）
+            size: directSize,  // 直接传入的像素尺寸（编辑模式）
+            seed,
         } = options as ArkImageOptions
 
         const allowedOptionKeys = new Set([
@@ -207,6 +209,7 @@ export class ArkImageGenerator extends BaseImageGenerator {
             'aspectRatio',
             'size',
             'resolution',
+            'seed',
         ])
         for (const [key, value] of Object.entries(options)) {
             if (value === undefined) continue
@@ -258,6 +261,7 @@ export class ArkImageGenerator extends BaseImageGenerator {
             watermark: false
             size?: string
             image?: string[]
+            seed?: number
         } = {
             model: modelId,
             prompt: prompt,
@@ -275,6 +279,10 @@ export class ArkImageGenerator extends BaseImageGenerator {
             requestBody.image = base64Images
         }
 
+        if (seed !== undefined) {
+            requestBody.seed = seed
+        }
+
         // 调用 ARK API
         const arkData = await arkImageGeneration(requestBody, {
             apiKey,
@@ -15,6 +15,7 @@ export interface GenerateOptions {
     outputFormat?: string      // 输出格式，如 'png', 'jpg'
     duration?: number          // 视频时长（秒）
     fps?: number              // 帧率
+    seed?: number             // 随机种子，相同种子 + 相同参数可复现构图（仅支持 seed 的模型）
     [key: string]: unknown        // 其他厂商特定参数
 }
 
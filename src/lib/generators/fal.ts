@@ -62,11 +62,13 @@ export class FalImageGenerator extends BaseImageGenerator {
             aspectRatio,
             resolution,
             outputFormat = 'png',
-            modelId: optModelId = 'banana'
+            modelId: optModelId = 'banana',
+            seed,
         } = options as {
             aspectRatio?: string
             resolution?: string
             outputFormat?: string
+            seed?: number
             provider?: string
             modelId?: string
             modelKey?: string
@@ -79,6 +81,7 @@ export class FalImageGenerator extends BaseImageGenerator {
             'aspectRatio',
             'resolution',
             'outputFormat',
+            'seed',
         ])
         for (const [key, value] of Object.entries(options)) {
             if (value === undefined) continue
@@ -123,6 +126,9 @@ export class FalImageGenerator extends BaseImageGenerator {
         if (resolution) {
             body.resolution = resolution
         }
+        if (seed !== undefined) {
+            body.seed = seed
+        }
 
         if (hasReferenceImages) {
             // 🔥 转换参考图片为Data URL（适配内网/本地环境）
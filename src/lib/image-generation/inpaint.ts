@@ -0,0 +1,208 @@
+import sharp from 'sharp'
+import { generateUniqueKey, uploadObject } from '@/lib/storage'
+
+// 蒙版约定：白色为重绘区域、黑色为保留区域，前端按原图尺寸导出 PNG
+const MASK_DATA_URL_PREFIX = 'data:image/png;base64,'
+const MASK_MAX_BYTES = 8 * 1024 * 1024
+const MASK_THRESHOLD = 128
+// 裁剪局部时四周保留的上下文比例，便于模型衔接边缘
+const CROP_CONTEXT_RATIO = 0.15
+const CROP_MIN_CONTEXT_PX = 24
+const INPAINT_CROP_RATIOS = ['1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16']
+
+export interface InpaintBounds {
+  left: number
+  top: number
+  width: number
+  height: number
+  aspectRatio: string
+}
+
+export interface InpaintMask {
+  /** 单通道二值像素（0 / 255），尺寸与原图一致 */
+  raw: Buffer
+  width: number
+  height: number
+}
+
+export function isInpaintMaskDataUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.startsWith(MASK_DATA_URL_PREFIX)) return false
+  const base64Length = value.length - MASK_DATA_URL_PREFIX.length
+  return base64Length > 0 && base64Length <= Math.ceil((MASK_MAX_BYTES * 4) / 3)
+}
+
+export function decodeImageDataUrl(dataUrl: string): Buffer {
+  const commaIndex = dataUrl.indexOf(',')
+  if (!dataUrl.startsWith('data:') || commaIndex < 0) {
+    throw new Error('INPAINT_IMAGE_DATA_URL_INVALID')
+  }
+  return Buffer.from(dataUrl.slice(commaIndex + 1), 'base64')
+}
+
+/**
+ * 蒙版 data URL 最大 8MB，不进任务 payload / 队列 / SSE：
+ * 路由层转存到对象存储，payload 中以 maskImageKey 代替 maskImage，由 worker 读取。
+ * maskImageKey 只能由这里生成，客户端传入的一律丢弃，避免 worker 读取任意存储对象
+ */
+export async function moveInpaintMaskToStorage<T extends Record<string, unknown>>(
+  payload: T,
+  ownerId: string,
+): Promise<Omit<T, 'maskImage' | 'maskImageKey'> & { maskImageKey?: string }> {
+  const { maskImage, maskImageKey: _maskImageKey, ...rest } = payload
+  if (!isInpaintMaskDataUrl(maskImage)) return rest
+  const key = generateUniqueKey(`inpaint-mask-${ownerId}-${Date.now()}`, 'png')
+  const maskImageKey = await uploadObject(decodeImageDataUrl(maskImage), key, undefined, 'image/png')
+  return { ...rest, maskImageKey }
+}
+
+/**
+ * 把蒙版缩放到原图尺寸并二值化；cropTop 用于先剥掉蒙版顶部的标签栏区域
+ */
+export async function normalizeInpaintMask(
+  mask: Buffer,
+  target: { width: number; height: number },
+  options: { cropTop?: number } = {},
+): Promise<InpaintMask> {
+  let pipeline = sharp(mask).flatten({ background: '#000000' }).greyscale()
+  const cropTop = options.cropTop ?? 0
+  if (cropTop > 0) {
+    const meta = await sharp(mask).metadata()
+    const width = meta.width || 0
+    const height = meta.height || 0
+    if (height > cropTop) {
+      pipeline = pipeline.extract({ left: 0, top: cropTop, width, height: height - cropTop })
+    }
+  }
+  const raw = await pipeline
+    .resize(target.width, target.height, { fit: 'fill' })
+    .threshold(MASK_THRESHOLD)
+    .extractChannel(0)
+    .raw()
+    .toBuffer()
+  return { raw, width: target.width, height: target.height }
+}
+
+export async function inpaintMaskToPngDataUrl(mask: InpaintMask): Promise<string> {
+  const png = await sharp(mask.raw, { raw: { width: mask.width, height: mask.height, channels: 1 } })
+    .png()
+    .toBuffer()
+  return `${MASK_DATA_URL_PREFIX}${png.toString('base64')}`
+}
+
+/**
+ * OpenAI images.edit 的 mask 以透明像素表示可编辑区域，与本项目的黑白蒙版相反
+ */
+export async function toAlphaEditMask(maskPng: Buffer): Promise<Buffer> {
+  const { data, info } = await sharp(maskPng)
+    .flatten({ background: '#000000' })
+    .greyscale()
+    .negate()
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return await sharp({
+    create: { width: info.width, height: info.height, channels: 3, background: '#000000' },
+  })
+    .joinChannel(data, { raw: { width: info.width, height: info.height, channels: 1 } })
+    .png()
+    .toBuffer()
+}
+
+function pickNearestRatio(width: number, height: number): { label: string; value: number } {
+  const target = width / height
+  let best = { label: '1:1', value: 1 }
+  for (const label of INPAINT_CROP_RATIOS) {
+    const [w, h] = label.split(':').map(Number)
+    const value = w / h
+    if (Math.abs(Math.log(value / target)) < Math.abs(Math.log(best.value / target))) {
+      best = { label, value }
+    }
+  }
+  return best
+}
+
+function clampSpan(start: number, span: number, limit: number): { start: number; span: number } {
+  const clampedSpan = Math.min(span, limit)
+  const clampedStart = Math.min(Math.max(0, start), limit - clampedSpan)
+  return { start: clampedStart, span: clampedSpan }
+}
+
+/**
+ * 计算局部重绘的裁剪框：蒙版外接矩形 + 上下文留白，再扩展到最接近的标准比例
+ * 蒙版为空时返回 null
+ */
+export function resolveInpaintCropBounds(mask: InpaintMask): InpaintBounds | null {
+  let minX = mask.width
+  let minY = mask.height
+  let maxX = -1
+  let maxY = -1
+  for (let y = 0; y < mask.height; y += 1) {
+    const rowOffset = y * mask.width
+    for (let x = 0; x < mask.width; x += 1) {
+      if (mask.raw[rowOffset + x] < MASK_THRESHOLD) continue
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+  if (maxX < 0) return null
+
+  const boxWidth = maxX - minX + 1
+  const boxHeight = maxY - minY + 1
+  const context = Math.max(CROP_MIN_CONTEXT_PX, Math.round(Math.max(boxWidth, boxHeight) * CROP_CONTEXT_RATIO))
+  let width = boxWidth + context * 2
+  let height = boxHeight + context * 2
+
+  const ratio = pickNearestRatio(width, height)
+  if (width / height < ratio.value) {
+    width = Math.round(height * ratio.value)
+  } else {
+    height = Math.round(width / ratio.value)
+  }
+
+  const centerX = (minX + maxX + 1) / 2
+  const centerY = (minY + maxY + 1) / 2
+  const horizontal = clampSpan(Math.round(centerX - width / 2), width, mask.width)
+  const vertical = clampSpan(Math.round(centerY - height / 2), height, mask.height)
+  return {
+    left: horizontal.start,
+    top: vertical.start,
+    width: horizontal.span,
+    height: vertical.span,
+    aspectRatio: ratio.label,
+  }
+}
+
+/**
+ * 将局部重绘结果按蒙版（边缘羽化）贴回原图，蒙版外的像素保持原样
+ */
+export async function compositeInpaintPatch(params: {
+  base: Buffer
+  patch: Buffer
+  mask: InpaintMask
+  bounds: InpaintBounds
+}): Promise<Buffer> {
+  const { base, patch, mask, bounds } = params
+  const feather = Math.max(0.5, Math.min(bounds.width, bounds.height) * 0.01)
+  const alpha = await sharp(mask.raw, { raw: { width: mask.width, height: mask.height, channels: 1 } })
+    .extract({ left: bounds.left, top: bounds.top, width: bounds.width, height: bounds.height })
+    .blur(feather)
+    .extractChannel(0)
+    .raw()
+    .toBuffer()
+  // removeAlpha 在 sharp 管线中晚于 joinChannel 执行，需先单独输出 RGB 再拼接透明通道
+  const patchRgb = await sharp(patch)
+    .resize(bounds.width, bounds.height, { fit: 'fill' })
+    .removeAlpha()
+    .png()
+    .toBuffer()
+  const patchLayer = await sharp(patchRgb)
+    .joinChannel(alpha, { raw: { width: bounds.width, height: bounds.height, channels: 1 } })
+    .png()
+    .toBuffer()
+  return await sharp(base)
+    .composite([{ input: patchLayer, left: bounds.left, top: bounds.top }])
+    .png()
+    .toBuffer()
+}
@@ -0,0 +1,28 @@
+// Seedream / Imagen / FAL 均接受 32 位非负整数种子
+export const IMAGE_SEED_MAX = 2147483647
+
+export function isImageSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= IMAGE_SEED_MAX
+}
+
+export function createImageSeed(): number {
+  return Math.floor(Math.random() * (IMAGE_SEED_MAX + 1))
+}
+
+/**
+ * 解析 candidateSeeds（与 candidateImages 按下标对应，未使用种子的位置为 null）
+ */
+export function parseImageSeedList(raw: string | null | undefined): Array<number | null> {
+  if (!raw) return []
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.map((item) => (isImageSeed(item) ? item : null))
+  } catch {
+    return []
+  }
+}
+
+export function serializeImageSeedList(seeds: Array<number | null>): string | null {
+  return seeds.some((seed) => seed !== null) ? JSON.stringify(seeds) : null
+}
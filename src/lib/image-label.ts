@@ -1,6 +1,7 @@
 import { logError as _ulogError } from '@/lib/logging/core'
 import sharp from 'sharp'
 import { uploadObject, getSignedUrl, generateUniqueKey, toFetchableUrl } from '@/lib/storage'
+import { invalidateMediaDigest, uploadDedupedObject } from '@/lib/media/dedup'
 import { decodeImageUrlsFromDb, encodeImageUrls } from '@/lib/contracts/image-urls-contract'
 import { resolveStorageKeyFromMediaValue } from '@/lib/media/service'
 import { initializeFonts, createLabelSVG } from '@/lib/fonts'
@@ -48,8 +49,9 @@ export async function updateImageLabel(
   imageUrl: string,
   newLabelText: string,
   options?: {
-    generateNewKey?: boolean
+    generateNewKey: true
     keyPrefix?: string
+    ownerUserId: string
   },
 ): Promise<string> {
   const originalKey = await resolveStorageKeyFromMediaValue(imageUrl)
@@ -69,12 +71,18 @@ export async function updateImageLabel(
     .toBuffer()
   const processed = await createLabeledImageBuffer(croppedBuffer, newLabelText)
 
-  const finalKey = options?.generateNewKey
-    ? generateUniqueKey(options.keyPrefix || 'labeled-image', 'jpg')
-    : originalKey
+  if (options?.generateNewKey) {
+    return await uploadDedupedObject(
+      processed,
+      generateUniqueKey(options.keyPrefix || 'labeled-image', 'jpg'),
+      options.ownerUserId,
+    )
+  }
 
-  await uploadObject(processed, finalKey)
-  return finalKey
+  // 原地覆盖：去重后对象可能被多处引用，调用方应优先使用 generateNewKey；内容已变化，清除旧摘要
+  await uploadObject(processed, originalKey)
+  await invalidateMediaDigest(originalKey)
+  return originalKey
 }
 
 export async function createProjectCharacterLabeledCopies(
@@ -84,6 +92,7 @@ export async function createProjectCharacterLabeledCopies(
     changeReason: string
   }>,
   characterName: string,
+  ownerUserId: string,
 ): Promise<Array<{ imageUrl: string | null; imageUrls: string }>> {
   const results: Array<{ imageUrl: string | null; imageUrls: string }> = []
 
@@ -106,9 +115,7 @@ export async function createProjectCharacterLabeledCopies(
           try {
             const sourceBuffer = await downloadImageBuffer(imageUrl)
             const processed = await createLabeledImageBuffer(sourceBuffer, labelText)
-            const newKey = generateUniqueKey('project-char-copy', 'jpg')
-            await uploadObject(processed, newKey)
-            return newKey
+            return await uploadDedupedObject(processed, generateUniqueKey('project-char-copy', 'jpg'), ownerUserId)
           } catch (error) {
             _ulogError('Failed to create project character labeled copy:', error)
             return imageUrl
@@ -132,6 +139,7 @@ export async function createProjectCharacterLabeledCopies(
 export async function createProjectLocationLabeledCopies(
   images: Array<{ imageUrl: string | null }>,
   locationName: string,
+  ownerUserId: string,
 ): Promise<Array<{ imageUrl: string | null }>> {
   const results: Array<{ imageUrl: string | null }> = []
 
@@ -144,8 +152,7 @@ export async function createProjectLocationLabeledCopies(
     try {
       const sourceBuffer = await downloadImageBuffer(image.imageUrl)
       const processed = await createLabeledImageBuffer(sourceBuffer, locationName)
-      const newKey = generateUniqueKey('project-location-copy', 'jpg')
-      await uploadObject(processed, newKey)
+      const newKey = await uploadDedupedObject(processed, generateUniqueKey('project-location-copy', 'jpg'), ownerUserId)
       results.push({ imageUrl: newKey })
     } catch (error) {
       _ulogError('Failed to create project location labeled copy:', error)
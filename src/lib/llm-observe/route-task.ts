@@ -9,6 +9,7 @@ import { getLLMTaskPolicy } from './task-policy'
 import { getTaskFlowMeta } from './stage-pipeline'
 import { resolveRequiredTaskLocale } from '@/lib/task/resolve-locale'
 import { getProjectModelConfig, getUserModelConfig } from '@/lib/config-service'
+import type { Locale } from '@/i18n/routing'
 
 export function toObject(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
@@ -74,13 +75,51 @@ export async function maybeSubmitLLMTask(params: {
   if (!policy.consoleEnabled && !shouldRunAsyncTask(params.request, params.body)) return null
   if (shouldRunSyncTask(params.request, params.body)) return null
 
+  const payload = toObject(params.body)
+  const taskResult = await submitLLMTask({
+    userId: params.userId,
+    locale: resolveRequiredTaskLocale(params.request, payload),
+    requestId: getRequestId(params.request),
+    projectId: params.projectId,
+    episodeId: params.episodeId,
+    type: params.type,
+    targetType: params.targetType,
+    targetId: params.targetId,
+    routePath: params.routePath,
+    body: payload,
+    dedupeKey: params.dedupeKey,
+    priority: params.priority,
+  })
+
+  return NextResponse.json(taskResult)
+}
+
+/**
+ * 以 LLM 观测模式提交任务（补齐 flow 元信息、计费模型与 billingInfo），不依赖 HTTP 请求；
+ * 路由经由 maybeSubmitLLMTask 调用，worker 侧编排（如 autopilot）可直接调用。
+ */
+export async function submitLLMTask(params: {
+  userId: string
+  locale: Locale
+  requestId?: string | null
+  projectId: string
+  episodeId?: string | null
+  type: TaskType
+  targetType: string
+  targetId: string
+  routePath: string
+  body?: unknown
+  dedupeKey?: string | null
+  priority?: number
+}) {
+  const policy = getLLMTaskPolicy(params.type)
   const payload = toObject(params.body)
   const displayMode = resolveDisplayMode(
     payload.displayMode,
     policy.displayMode || LLM_OBSERVE_DEFAULT_MODE,
   )
   const payloadMeta = toObject(payload.meta)
-  const locale = resolveRequiredTaskLocale(params.request, payload)
+  const locale = params.locale
   const userTierFromPayload = typeof payloadMeta.userTier === 'string' ? payloadMeta.userTier : null
   const priority = params.priority ?? policy.priority ?? 0
   const defaultFlowMeta = getTaskFlowMeta(params.type)
@@ -119,10 +158,10 @@ export async function maybeSubmitLLMTask(params: {
     ? buildDefaultTaskBillingInfo(params.type, payload)
     : null
 
-  const taskResult = await submitTask({
+  return await submitTask({
     userId: params.userId,
     locale,
-    requestId: getRequestId(params.request),
+    requestId: params.requestId,
     projectId: params.projectId,
     episodeId: params.episodeId || null,
     type: params.type,
@@ -151,6 +190,4 @@ export async function maybeSubmitLLMTask(params: {
     priority,
     billingInfo,
   })
-
-  return NextResponse.json(taskResult)
 }
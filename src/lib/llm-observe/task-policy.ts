@@ -66,6 +66,7 @@ const POLICY_BY_TASK_TYPE: Partial<Record<TaskType, LLMTaskPolicy>> = {
   [TASK_TYPE.ASSET_HUB_AI_MODIFY_LOCATION]: LLM_STANDARD_POLICY,
   [TASK_TYPE.ASSET_HUB_AI_MODIFY_PROP]: LLM_STANDARD_POLICY,
   [TASK_TYPE.ASSET_HUB_REFERENCE_TO_CHARACTER]: LLM_STANDARD_POLICY,
+  [TASK_TYPE.PROMPT_OVERRIDE_COMPARE]: LONG_FLOW_POLICY,
 }
 
 export function getLLMTaskPolicy(taskType: string | null | undefined): LLMTaskPolicy {
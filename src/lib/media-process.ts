@@ -1,10 +1,12 @@
-import { downloadAndUploadVideo, generateUniqueKey, toFetchableUrl, uploadObject } from '@/lib/storage'
+import { VIDEO_DOWNLOAD_HEADERS, generateUniqueKey } from '@/lib/storage'
+import { downloadAndUploadDeduped, uploadDedupedObject } from '@/lib/media/dedup'
 
 export interface ProcessMediaOptions {
   source: string | Buffer
   type: 'image' | 'video' | 'audio'
   keyPrefix: string
   targetId: string
+  ownerUserId: string
   downloadHeaders?: Record<string, string>
 }
 
@@ -27,10 +29,11 @@ function resolveContentType(ext: string): string {
 }
 
 /**
- * 处理媒体结果：下载 -> 上传 COS，返回 COS key。
+ * 处理媒体结果：下载 -> 流式上传到存储，返回存储 key。
+ * 内容与同一所有者的已有媒体相同时复用已有 key。
  */
 export async function processMediaResult(options: ProcessMediaOptions): Promise<string> {
-  const { source, type, keyPrefix, targetId, downloadHeaders } = options
+  const { source, type, keyPrefix, targetId, ownerUserId, downloadHeaders } = options
   const ext = type === 'video' ? 'mp4' : type === 'audio' ? 'mp3' : 'jpg'
   const key = generateUniqueKey(`${keyPrefix}-${targetId}`, ext)
   const contentType = resolveContentType(ext)
@@ -41,17 +44,20 @@ export async function processMediaResult(options: ProcessMediaOptions): Promise<
       if (base64Start === -1) throw new Error('无法解析 data: URL')
       const base64Data = source.substring(base64Start + 8)
       const buffer = Buffer.from(base64Data, 'base64') as Buffer
-      return await uploadObject(buffer, key, undefined, contentType)
+      return await uploadDedupedObject(buffer, key, ownerUserId, contentType)
     }
 
     if (type === 'video') {
-      return await downloadAndUploadVideo(source, key, 3, downloadHeaders)
+      return await downloadAndUploadDeduped(source, key, ownerUserId, {
+        requestHeaders: { ...VIDEO_DOWNLOAD_HEADERS, ...(downloadHeaders || {}) },
+      })
     }
 
-    const response = await fetch(toFetchableUrl(source))
-    const buffer = Buffer.from(await response.arrayBuffer()) as Buffer
-    return await uploadObject(buffer, key, undefined, contentType)
+    return await downloadAndUploadDeduped(source, key, ownerUserId, {
+      contentType,
+      requestHeaders: downloadHeaders,
+    })
   }
 
-  return await uploadObject(source, key, undefined, contentType)
+  return await uploadDedupedObject(source, key, ownerUserId, contentType)
 }
@@ -0,0 +1,206 @@
+import { createHash } from 'node:crypto'
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import {
+  deleteObject,
+  downloadAndUploadStreamWithDigest,
+  headObject,
+  uploadObject,
+  type DownloadAndUploadStreamOptions,
+} from '@/lib/storage'
+import type { DeleteObjectsResult } from '@/lib/storage/types'
+import { ensureMediaObjectFromStorageKey } from './service'
+
+const logger = createScopedLogger({
+  module: 'media.dedup',
+})
+
+interface DedupMetadata {
+  sha256: string
+  sizeBytes: number
+  mimeType?: string
+}
+
+export function sha256OfBuffer(body: Buffer): string {
+  return createHash('sha256').update(body).digest('hex')
+}
+
+/**
+ * 按 sha256 认领同一所有者的已有媒体：引用计数 +1 并清除回收标记，返回其 storageKey
+ * 只在所有者内去重，避免跨用户复用他人的存储对象 (泄露他人是否上传过相同内容)
+ * 存储对象已不存在 (如被手工清理) 时视为未命中
+ */
+async function claimMediaBySha256(
+  sha256: string,
+  ownerUserId: string,
+  excludeStorageKey?: string,
+): Promise<string | null> {
+  const existing = await prisma.mediaObject.findFirst({
+    where: {
+      sha256,
+      ownerUserId,
+      ...(excludeStorageKey ? { storageKey: { not: excludeStorageKey } } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, storageKey: true },
+  })
+  if (!existing) return null
+
+  const head = await headObject(existing.storageKey).catch(() => null)
+  if (!head) return null
+
+  await prisma.mediaObject.update({
+    where: { id: existing.id },
+    data: {
+      refCount: { increment: 1 },
+      gcMarkedAt: null,
+    },
+  })
+  return existing.storageKey
+}
+
+async function recordUploadedMedia(storageKey: string, ownerUserId: string, metadata: DedupMetadata) {
+  const media = await ensureMediaObjectFromStorageKey(storageKey, {
+    mimeType: metadata.mimeType,
+    sizeBytes: metadata.sizeBytes,
+  })
+  await prisma.mediaObject.update({
+    where: { id: media.id },
+    data: {
+      sha256: metadata.sha256,
+      sizeBytes: BigInt(metadata.sizeBytes),
+      ownerUserId,
+      refCount: { increment: 1 },
+    },
+  })
+}
+
+/**
+ * 内容寻址上传：同一所有者已有相同内容时直接复用其 storageKey，不再写入新对象
+ */
+export async function uploadDedupedObject(
+  body: Buffer,
+  key: string,
+  ownerUserId: string,
+  contentType?: string,
+): Promise<string> {
+  const sha256 = sha256OfBuffer(body)
+  const existingKey = await claimMediaBySha256(sha256, ownerUserId)
+  if (existingKey) {
+    logger.info({
+      action: 'media.dedup.hit',
+      message: 'reused existing media object',
+      details: { sha256, storageKey: existingKey, sizeBytes: body.length, ownerUserId },
+    })
+    return existingKey
+  }
+
+  const storageKey = await uploadObject(body, key, undefined, contentType)
+  await recordUploadedMedia(storageKey, ownerUserId, { sha256, sizeBytes: body.length, mimeType: contentType })
+  return storageKey
+}
+
+/**
+ * 下载远程文件并内容寻址上传
+ * 流式上传无法预先计算摘要，因此先写入新对象，命中已有内容后删除新对象并复用旧 key
+ */
+export async function downloadAndUploadDeduped(
+  sourceUrl: string,
+  key: string,
+  ownerUserId: string,
+  options: DownloadAndUploadStreamOptions = {},
+): Promise<string> {
+  const uploaded = await downloadAndUploadStreamWithDigest(sourceUrl, key, options)
+  const existingKey = await claimMediaBySha256(uploaded.sha256, ownerUserId, uploaded.key)
+  if (existingKey) {
+    await deleteObject(uploaded.key).catch((error: unknown) => {
+      logger.warn({
+        action: 'media.dedup.cleanup_failed',
+        message: error instanceof Error ? error.message : 'failed to delete duplicate object',
+        details: { storageKey: uploaded.key },
+      })
+    })
+    logger.info({
+      action: 'media.dedup.hit',
+      message: 'reused existing media object',
+      details: { sha256: uploaded.sha256, storageKey: existingKey, sizeBytes: uploaded.sizeBytes, ownerUserId },
+    })
+    return existingKey
+  }
+
+  await recordUploadedMedia(uploaded.key, ownerUserId, {
+    sha256: uploaded.sha256,
+    sizeBytes: uploaded.sizeBytes,
+    mimeType: options.contentType,
+  })
+  return uploaded.key
+}
+
+/**
+ * 原地覆盖写入后内容已变化，清除旧摘要，避免后续上传错误命中
+ */
+export async function invalidateMediaDigest(storageKey: string) {
+  await prisma.mediaObject.updateMany({
+    where: { storageKey: storageKey.replace(/^\/+/, '') },
+    data: { sha256: null },
+  })
+}
+
+/**
+ * 新增一个所有者对已有媒体的引用（如复制共享资产时直接复用原存储对象）：引用计数 +1 并清除回收标记
+ */
+export async function retainMediaObject(mediaId: string): Promise<void> {
+  await prisma.mediaObject.update({
+    where: { id: mediaId },
+    data: {
+      refCount: { increment: 1 },
+      gcMarkedAt: null,
+    },
+  })
+}
+
+/**
+ * 释放一个所有者对存储对象的引用（替代直接删除）
+ * 去重后同一 storageKey 可能被多个项目/用户共享：有媒体记录时引用计数 -1，
+ * 计数归零后只打回收标记，由媒体回收在宽限期后确认确实无引用再删除；无媒体记录的旧对象不可能被共享，直接删除
+ */
+export async function releaseStorageObject(storageKey: string): Promise<void> {
+  const key = storageKey.replace(/^\/+/, '')
+  const media = await prisma.mediaObject.findUnique({
+    where: { storageKey: key },
+    select: { id: true },
+  })
+  if (!media) {
+    await deleteObject(key)
+    return
+  }
+
+  const shared = await prisma.mediaObject.updateMany({
+    where: { id: media.id, refCount: { gt: 1 } },
+    data: { refCount: { decrement: 1 } },
+  })
+  if (shared.count > 0) return
+
+  await prisma.mediaObject.updateMany({
+    where: { id: media.id, gcMarkedAt: null },
+    data: { refCount: 0, gcMarkedAt: new Date() },
+  })
+}
+
+export async function releaseStorageObjects(storageKeys: string[]): Promise<DeleteObjectsResult> {
+  const result: DeleteObjectsResult = { success: 0, failed: 0 }
+  for (const storageKey of storageKeys) {
+    try {
+      await releaseStorageObject(storageKey)
+      result.success++
+    } catch (error: unknown) {
+      result.failed++
+      logger.warn({
+        action: 'media.release.failed',
+        message: error instanceof Error ? error.message : 'failed to release media object',
+        details: { storageKey },
+      })
+    }
+  }
+  return result
+}
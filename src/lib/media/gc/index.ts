@@ -0,0 +1,21 @@
+export {
+  MEDIA_REFERENCE_SOURCES,
+  buildMediaReferenceIndex,
+  type MediaReference,
+  type MediaReferenceIndex,
+  type MediaReferenceSource,
+} from './references'
+export {
+  resolveMediaGcGraceHours,
+  runMediaGc,
+  type MediaGcOptions,
+  type MediaGcReport,
+  type MediaGcSample,
+  type MediaGcUserReport,
+} from './runner'
+export {
+  getMediaGcStats,
+  type MediaGcRunSummary,
+  type MediaGcStats,
+  type MediaGcUserStat,
+} from './stats'
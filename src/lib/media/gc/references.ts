@@ -0,0 +1,302 @@
+import { prisma } from '@/lib/prisma'
+import { extractStorageKeyFromLegacyValue, looksLikeMediaValue } from '@/lib/media/service'
+
+/**
+ * 引用 MediaObject 的数据源：外键列、旧版 URL 列、JSON 历史列
+ * ownerPath 指向归属用户 ID (用于统计回收量)，null 表示系统数据
+ */
+export interface MediaReferenceSource {
+  model: string
+  ownerPath: string[] | null
+  mediaIdFields: string[]
+  valueFields: string[]
+  jsonFields: string[]
+}
+
+const NOVEL_PROJECT_OWNER = ['novelPromotionProject', 'project', 'userId']
+const EPISODE_OWNER = ['episode', ...NOVEL_PROJECT_OWNER]
+const STORYBOARD_OWNER = ['storyboard', ...EPISODE_OWNER]
+
+export const MEDIA_REFERENCE_SOURCES: MediaReferenceSource[] = [
+  {
+    model: 'characterAppearance',
+    ownerPath: ['character', ...NOVEL_PROJECT_OWNER],
+    mediaIdFields: ['imageMediaId'],
+    valueFields: ['imageUrl', 'previousImageUrl'],
+    jsonFields: ['imageUrls', 'previousImageUrls'],
+  },
+  {
+    model: 'locationImage',
+    ownerPath: ['location', ...NOVEL_PROJECT_OWNER],
+    mediaIdFields: ['imageMediaId'],
+    valueFields: ['imageUrl', 'previousImageUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'novelPromotionCharacter',
+    ownerPath: NOVEL_PROJECT_OWNER,
+    mediaIdFields: ['customVoiceMediaId'],
+    valueFields: ['customVoiceUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'novelPromotionEpisode',
+    ownerPath: NOVEL_PROJECT_OWNER,
+    mediaIdFields: ['audioMediaId'],
+    valueFields: ['audioUrl'],
+    jsonFields: ['speakerVoices'],
+  },
+  {
+    model: 'videoEditorProject',
+    ownerPath: EPISODE_OWNER,
+    mediaIdFields: ['outputMediaId'],
+    valueFields: ['outputUrl'],
+    jsonFields: ['projectData'],
+  },
+  {
+    model: 'novelPromotionStoryboard',
+    ownerPath: EPISODE_OWNER,
+    mediaIdFields: [],
+    valueFields: ['storyboardImageUrl'],
+    jsonFields: ['imageHistory', 'candidateImages'],
+  },
+  {
+    model: 'novelPromotionPanel',
+    ownerPath: STORYBOARD_OWNER,
+    mediaIdFields: ['imageMediaId', 'videoMediaId', 'lipSyncVideoMediaId', 'sketchImageMediaId', 'previousImageMediaId'],
+    valueFields: ['imageUrl', 'videoUrl', 'lipSyncVideoUrl', 'sketchImageUrl', 'previousImageUrl'],
+    jsonFields: ['imageHistory', 'candidateImages'],
+  },
+  {
+    model: 'novelPromotionShot',
+    ownerPath: EPISODE_OWNER,
+    mediaIdFields: ['imageMediaId'],
+    valueFields: ['imageUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'supplementaryPanel',
+    ownerPath: STORYBOARD_OWNER,
+    mediaIdFields: ['imageMediaId'],
+    valueFields: ['imageUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'novelPromotionVoiceLine',
+    ownerPath: EPISODE_OWNER,
+    mediaIdFields: ['audioMediaId'],
+    valueFields: ['audioUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'voicePreset',
+    ownerPath: null,
+    mediaIdFields: ['audioMediaId'],
+    valueFields: ['audioUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'globalCharacter',
+    ownerPath: ['userId'],
+    mediaIdFields: ['customVoiceMediaId'],
+    valueFields: ['customVoiceUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'globalCharacterAppearance',
+    ownerPath: ['character', 'userId'],
+    mediaIdFields: ['imageMediaId', 'previousImageMediaId'],
+    valueFields: ['imageUrl', 'previousImageUrl'],
+    jsonFields: ['imageUrls', 'previousImageUrls'],
+  },
+  {
+    model: 'globalLocationImage',
+    ownerPath: ['location', 'userId'],
+    mediaIdFields: ['imageMediaId', 'previousImageMediaId'],
+    valueFields: ['imageUrl', 'previousImageUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'globalVoice',
+    ownerPath: ['userId'],
+    mediaIdFields: ['customVoiceMediaId'],
+    valueFields: ['customVoiceUrl'],
+    jsonFields: [],
+  },
+  {
+    model: 'globalArtStyle',
+    ownerPath: ['userId'],
+    mediaIdFields: [],
+    valueFields: [],
+    jsonFields: ['referenceImages'],
+  },
+]
+
+/**
+ * 单个媒体的引用情况：归属用户 (未知为 null) 与引用次数
+ */
+export interface MediaReference {
+  ownerUserId: string | null
+  count: number
+}
+
+/**
+ * 引用索引：媒体 ID / publicId / storageKey → 引用情况
+ */
+export interface MediaReferenceIndex {
+  mediaIds: Map<string, MediaReference>
+  publicIds: Map<string, MediaReference>
+  storageKeys: Map<string, MediaReference>
+}
+
+type DynamicModel = {
+  findMany: (args: unknown) => Promise<Array<Record<string, unknown>>>
+}
+
+const prismaDynamic = prisma as unknown as Record<string, DynamicModel>
+
+const PAGE_SIZE = 500
+const MEDIA_ROUTE_PATTERN = /\/m\/([^/?#"'\s]+)/g
+
+export function createMediaReferenceIndex(): MediaReferenceIndex {
+  return {
+    mediaIds: new Map(),
+    publicIds: new Map(),
+    storageKeys: new Map(),
+  }
+}
+
+function addReference(map: Map<string, MediaReference>, key: string, owner: string | null) {
+  const existing = map.get(key)
+  if (!existing) {
+    map.set(key, { ownerUserId: owner, count: 1 })
+    return
+  }
+  existing.count++
+  if (!existing.ownerUserId && owner) existing.ownerUserId = owner
+}
+
+function buildOwnerSelect(path: string[]): Record<string, unknown> {
+  const [head, ...rest] = path
+  if (rest.length === 0) return { [head]: true }
+  return { [head]: { select: buildOwnerSelect(rest) } }
+}
+
+function readOwner(row: Record<string, unknown>, path: string[] | null): string | null {
+  if (!path) return null
+  let cursor: unknown = row
+  for (const segment of path) {
+    if (!cursor || typeof cursor !== 'object') return null
+    cursor = (cursor as Record<string, unknown>)[segment]
+  }
+  return typeof cursor === 'string' && cursor ? cursor : null
+}
+
+/**
+ * 记录单个媒体值：/m/publicId 形式记录 publicId，其余按旧版 URL / storageKey 归一化
+ */
+export function addMediaValueReference(index: MediaReferenceIndex, value: string, owner: string | null) {
+  const trimmed = value.trim()
+  if (!trimmed || trimmed.startsWith('PENDING:')) return
+
+  let matchedRoute = false
+  for (const match of trimmed.matchAll(MEDIA_ROUTE_PATTERN)) {
+    matchedRoute = true
+    let publicId = match[1]
+    try {
+      publicId = decodeURIComponent(publicId)
+    } catch {
+      // 保留原始值
+    }
+    addReference(index.publicIds, publicId, owner)
+  }
+  if (matchedRoute) return
+
+  const storageKey = extractStorageKeyFromLegacyValue(trimmed)
+  if (storageKey) {
+    addReference(index.storageKeys, storageKey.replace(/^\/+/, ''), owner)
+  }
+}
+
+function collectJsonStrings(value: unknown, output: string[]) {
+  if (typeof value === 'string') {
+    output.push(value)
+    return
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) collectJsonStrings(item, output)
+    return
+  }
+  if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectJsonStrings(item, output)
+  }
+}
+
+/**
+ * 记录 JSON 字段 (历史记录 / 候选图 / 剪辑工程) 内所有像媒体地址的字符串
+ */
+export function addJsonFieldReferences(index: MediaReferenceIndex, raw: string, owner: string | null) {
+  const strings: string[] = []
+  try {
+    collectJsonStrings(JSON.parse(raw), strings)
+  } catch {
+    strings.push(raw)
+  }
+  for (const value of strings) {
+    if (looksLikeMediaValue(value)) addMediaValueReference(index, value, owner)
+  }
+}
+
+async function collectSourceReferences(index: MediaReferenceIndex, source: MediaReferenceSource) {
+  const model = prismaDynamic[source.model]
+  if (!model) return
+
+  const select: Record<string, unknown> = { id: true }
+  for (const field of [...source.mediaIdFields, ...source.valueFields, ...source.jsonFields]) {
+    select[field] = true
+  }
+  if (source.ownerPath) Object.assign(select, buildOwnerSelect(source.ownerPath))
+
+  let cursor: string | null = null
+  while (true) {
+    const rows = await model.findMany({
+      select,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+    })
+    if (rows.length === 0) break
+
+    for (const row of rows) {
+      const owner = readOwner(row, source.ownerPath)
+      for (const field of source.mediaIdFields) {
+        const mediaId = row[field]
+        if (typeof mediaId === 'string' && mediaId) addReference(index.mediaIds, mediaId, owner)
+      }
+      for (const field of source.valueFields) {
+        const value = row[field]
+        if (typeof value === 'string') addMediaValueReference(index, value, owner)
+      }
+      for (const field of source.jsonFields) {
+        const value = row[field]
+        if (typeof value === 'string' && value.trim()) addJsonFieldReferences(index, value, owner)
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) break
+    cursor = String(rows[rows.length - 1].id)
+  }
+}
+
+/**
+ * 遍历全部引用源，构建媒体引用索引
+ */
+export async function buildMediaReferenceIndex(
+  sources: MediaReferenceSource[] = MEDIA_REFERENCE_SOURCES,
+): Promise<MediaReferenceIndex> {
+  const index = createMediaReferenceIndex()
+  for (const source of sources) {
+    await collectSourceReferences(index, source)
+  }
+  return index
+}
@@ -0,0 +1,364 @@
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import { deleteObject, deleteObjects } from '@/lib/storage'
+import {
+  buildMediaReferenceIndex,
+  type MediaReference,
+  type MediaReferenceIndex,
+} from './references'
+
+const HOUR_MS = 3600_000
+const DEFAULT_GRACE_HOURS = 72
+const DEFAULT_BATCH_SIZE = 500
+const DEFAULT_SAMPLE_LIMIT = 50
+// 运行中的记录超过该时长视为已中断，允许新的回收任务开始
+const STALE_RUN_MS = 6 * HOUR_MS
+
+const logger = createScopedLogger({
+  module: 'media.gc',
+  action: 'media.gc.run',
+})
+
+export interface MediaGcOptions {
+  dryRun?: boolean
+  gracePeriodHours?: number
+  batchSize?: number
+  sampleLimit?: number
+  now?: Date
+}
+
+export interface MediaGcUserReport {
+  userId: string | null
+  deletedCount: number
+  reclaimedBytes: number
+}
+
+export interface MediaGcSample {
+  id: string
+  publicId: string
+  storageKey: string
+  sizeBytes: number
+  ownerUserId: string | null
+  gcMarkedAt: string | null
+  action: 'mark' | 'delete'
+}
+
+export interface MediaGcReport {
+  runId: string | null
+  dryRun: boolean
+  gracePeriodHours: number
+  scannedCount: number
+  markedCount: number
+  restoredCount: number
+  deletedCount: number
+  failedCount: number
+  reclaimedBytes: number
+  // 已标记但尚未超过宽限期的媒体数量
+  pendingCount: number
+  users: MediaGcUserReport[]
+  samples: MediaGcSample[]
+}
+
+interface MediaObjectRow {
+  id: string
+  publicId: string
+  storageKey: string
+  sizeBytes: bigint | null
+  ownerUserId: string | null
+  gcMarkedAt: Date | null
+  refCount: number
+  createdAt: Date
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function resolveMediaGcGraceHours(): number {
+  return readPositiveInt(process.env.MEDIA_GC_GRACE_HOURS, DEFAULT_GRACE_HOURS)
+}
+
+function resolveBatchSize(): number {
+  return readPositiveInt(process.env.MEDIA_GC_BATCH_SIZE, DEFAULT_BATCH_SIZE)
+}
+
+/**
+ * 合并三种引用方式的结果：未被引用返回 null
+ * 同一行常同时以外键和 URL 引用同一媒体，引用次数取三者最大值以免重复计数
+ */
+function findReference(index: MediaReferenceIndex, row: MediaObjectRow): MediaReference | null {
+  const matches = [
+    index.mediaIds.get(row.id),
+    index.publicIds.get(row.publicId),
+    index.storageKeys.get(row.storageKey),
+  ].filter((item): item is MediaReference => !!item)
+  if (matches.length === 0) return null
+
+  return {
+    ownerUserId: matches.find((item) => item.ownerUserId)?.ownerUserId ?? null,
+    count: Math.max(...matches.map((item) => item.count)),
+  }
+}
+
+function toSample(row: MediaObjectRow, action: MediaGcSample['action']): MediaGcSample {
+  return {
+    id: row.id,
+    publicId: row.publicId,
+    storageKey: row.storageKey,
+    sizeBytes: Number(row.sizeBytes ?? 0),
+    ownerUserId: row.ownerUserId,
+    gcMarkedAt: row.gcMarkedAt ? row.gcMarkedAt.toISOString() : null,
+    action,
+  }
+}
+
+async function deleteStorageKeys(keys: string[]): Promise<Set<string>> {
+  const failed = new Set<string>()
+  if (keys.length === 0) return failed
+
+  const result = await deleteObjects(keys).catch(() => ({ success: 0, failed: keys.length }))
+  if (result.failed === 0) return failed
+
+  // 批量删除不返回失败明细，逐个重试以确定哪些对象仍然存在
+  for (const key of keys) {
+    try {
+      await deleteObject(key)
+    } catch {
+      failed.add(key)
+    }
+  }
+  return failed
+}
+
+async function confirmStillExpired(rows: MediaObjectRow[], threshold: Date): Promise<MediaObjectRow[]> {
+  if (rows.length === 0) return rows
+  const stillExpired = await prisma.mediaObject.findMany({
+    where: {
+      id: { in: rows.map((row) => row.id) },
+      gcMarkedAt: { lte: threshold },
+    },
+    select: { id: true },
+  })
+  const ids = new Set(stillExpired.map((row) => row.id))
+  return rows.filter((row) => ids.has(row.id))
+}
+
+async function hasActiveRun(now: Date): Promise<boolean> {
+  const active = await prisma.mediaGcRun.findFirst({
+    where: {
+      status: 'running',
+      dryRun: false,
+      startedAt: { gt: new Date(now.getTime() - STALE_RUN_MS) },
+    },
+    select: { id: true },
+  })
+  return !!active
+}
+
+/**
+ * 媒体回收
+ *
+ * 1. 遍历所有引用源构建引用索引
+ * 2. 未被引用且创建时间超过宽限期的媒体先打标记，标记超过宽限期后删除存储对象与记录
+ * 3. 再次被引用的媒体清除标记，并刷新归属用户
+ *
+ * dryRun 模式只读，返回本次将会执行的操作
+ */
+export async function runMediaGc(options: MediaGcOptions = {}): Promise<MediaGcReport | null> {
+  const dryRun = options.dryRun ?? false
+  const gracePeriodHours = options.gracePeriodHours ?? resolveMediaGcGraceHours()
+  const batchSize = options.batchSize ?? resolveBatchSize()
+  const sampleLimit = options.sampleLimit ?? DEFAULT_SAMPLE_LIMIT
+  const now = options.now ?? new Date()
+  const threshold = new Date(now.getTime() - gracePeriodHours * HOUR_MS)
+
+  if (!dryRun && await hasActiveRun(now)) {
+    logger.warn({
+      action: 'media.gc.skip_active',
+      message: 'another media gc run is still active',
+    })
+    return null
+  }
+
+  const run = dryRun
+    ? null
+    : await prisma.mediaGcRun.create({ data: { gracePeriodHours } })
+
+  const report: MediaGcReport = {
+    runId: run?.id ?? null,
+    dryRun,
+    gracePeriodHours,
+    scannedCount: 0,
+    markedCount: 0,
+    restoredCount: 0,
+    deletedCount: 0,
+    failedCount: 0,
+    reclaimedBytes: 0,
+    pendingCount: 0,
+    users: [],
+    samples: [],
+  }
+  const userReclaims = new Map<string | null, MediaGcUserReport>()
+
+  try {
+    const index = await buildMediaReferenceIndex()
+
+    let cursor: string | null = null
+    while (true) {
+      const rows: MediaObjectRow[] = await prisma.mediaObject.findMany({
+        select: {
+          id: true,
+          publicId: true,
+          storageKey: true,
+          sizeBytes: true,
+          ownerUserId: true,
+          gcMarkedAt: true,
+          refCount: true,
+          createdAt: true,
+        },
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      })
+      if (rows.length === 0) break
+      report.scannedCount += rows.length
+
+      const toMark: string[] = []
+      const toDelete: MediaObjectRow[] = []
+
+      for (const row of rows) {
+        const reference = findReference(index, row)
+        if (reference) {
+          const owner = reference.ownerUserId
+          const ownerChanged = owner !== null && owner !== row.ownerUserId
+          const countChanged = reference.count !== row.refCount
+          if (row.gcMarkedAt) report.restoredCount++
+          if (!dryRun && (row.gcMarkedAt || ownerChanged || countChanged)) {
+            await prisma.mediaObject.update({
+              where: { id: row.id },
+              data: {
+                gcMarkedAt: null,
+                ...(ownerChanged ? { ownerUserId: owner } : {}),
+                ...(countChanged ? { refCount: reference.count } : {}),
+              },
+            })
+          }
+          continue
+        }
+
+        if (row.createdAt > threshold) continue
+
+        if (!row.gcMarkedAt) {
+          toMark.push(row.id)
+          if (report.samples.length < sampleLimit) report.samples.push(toSample(row, 'mark'))
+        } else if (row.gcMarkedAt <= threshold) {
+          toDelete.push(row)
+          if (report.samples.length < sampleLimit) report.samples.push(toSample(row, 'delete'))
+        } else {
+          report.pendingCount++
+        }
+      }
+
+      report.markedCount += toMark.length
+      if (!dryRun && toMark.length > 0) {
+        await prisma.mediaObject.updateMany({
+          where: { id: { in: toMark } },
+          data: { gcMarkedAt: now, refCount: 0 },
+        })
+      }
+
+      // 扫描期间可能有去重上传认领了媒体 (会清除标记)，删除前重新确认仍处于待删除状态
+      const confirmed = dryRun ? toDelete : await confirmStillExpired(toDelete, threshold)
+      const failedKeys = dryRun
+        ? new Set<string>()
+        : await deleteStorageKeys(confirmed.map((row) => row.storageKey))
+      const deleted = confirmed.filter((row) => !failedKeys.has(row.storageKey))
+      report.failedCount += confirmed.length - deleted.length
+
+      if (!dryRun && deleted.length > 0) {
+        await prisma.mediaObject.deleteMany({
+          where: { id: { in: deleted.map((row) => row.id) } },
+        })
+      }
+
+      for (const row of deleted) {
+        const bytes = Number(row.sizeBytes ?? 0)
+        report.deletedCount++
+        report.reclaimedBytes += bytes
+        const entry = userReclaims.get(row.ownerUserId) || {
+          userId: row.ownerUserId,
+          deletedCount: 0,
+          reclaimedBytes: 0,
+        }
+        entry.deletedCount++
+        entry.reclaimedBytes += bytes
+        userReclaims.set(row.ownerUserId, entry)
+      }
+
+      if (rows.length < batchSize) break
+      cursor = rows[rows.length - 1].id
+    }
+
+    report.users = Array.from(userReclaims.values())
+      .sort((a, b) => b.reclaimedBytes - a.reclaimedBytes)
+
+    if (run) {
+      await prisma.mediaGcRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'completed',
+          scannedCount: report.scannedCount,
+          markedCount: report.markedCount,
+          restoredCount: report.restoredCount,
+          deletedCount: report.deletedCount,
+          failedCount: report.failedCount,
+          reclaimedBytes: BigInt(report.reclaimedBytes),
+          finishedAt: new Date(),
+          userReclaims: {
+            create: report.users.map((user) => ({
+              userId: user.userId,
+              deletedCount: user.deletedCount,
+              reclaimedBytes: BigInt(user.reclaimedBytes),
+            })),
+          },
+        },
+      })
+    }
+
+    logger.info({
+      action: dryRun ? 'media.gc.dry_run' : 'media.gc.completed',
+      message: 'media gc finished',
+      durationMs: Date.now() - now.getTime(),
+      details: {
+        runId: report.runId,
+        scannedCount: report.scannedCount,
+        markedCount: report.markedCount,
+        restoredCount: report.restoredCount,
+        deletedCount: report.deletedCount,
+        failedCount: report.failedCount,
+        reclaimedBytes: report.reclaimedBytes,
+      },
+    })
+    return report
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'media gc failed'
+    if (run) {
+      await prisma.mediaGcRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          errorMessage: message,
+          finishedAt: new Date(),
+        },
+      }).catch(() => undefined)
+    }
+    logger.error({
+      action: 'media.gc.failed',
+      message,
+      errorCode: 'INTERNAL_ERROR',
+      retryable: true,
+    })
+    throw error
+  }
+}
@@ -0,0 +1,77 @@
+import { prisma } from '@/lib/prisma'
+
+export interface MediaGcUserStat {
+  userId: string | null
+  deletedCount: number
+  reclaimedBytes: number
+}
+
+export interface MediaGcRunSummary {
+  id: string
+  status: string
+  gracePeriodHours: number
+  scannedCount: number
+  markedCount: number
+  restoredCount: number
+  deletedCount: number
+  failedCount: number
+  reclaimedBytes: number
+  errorMessage: string | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+export interface MediaGcStats {
+  totalReclaimedBytes: number
+  totalDeletedCount: number
+  users: MediaGcUserStat[]
+  recentRuns: MediaGcRunSummary[]
+}
+
+/**
+ * 汇总回收统计：按用户累计的回收量 + 最近的回收任务
+ */
+export async function getMediaGcStats(params: { since?: Date; runLimit?: number } = {}): Promise<MediaGcStats> {
+  const createdAt = params.since ? { gte: params.since } : undefined
+
+  const [grouped, runs] = await Promise.all([
+    prisma.mediaGcUserReclaim.groupBy({
+      by: ['userId'],
+      where: createdAt ? { createdAt } : undefined,
+      _sum: { deletedCount: true, reclaimedBytes: true },
+    }),
+    prisma.mediaGcRun.findMany({
+      where: { dryRun: false },
+      orderBy: { startedAt: 'desc' },
+      take: params.runLimit ?? 20,
+    }),
+  ])
+
+  const users = grouped
+    .map((row) => ({
+      userId: row.userId,
+      deletedCount: row._sum.deletedCount ?? 0,
+      reclaimedBytes: Number(row._sum.reclaimedBytes ?? 0),
+    }))
+    .sort((a, b) => b.reclaimedBytes - a.reclaimedBytes)
+
+  return {
+    totalReclaimedBytes: users.reduce((sum, user) => sum + user.reclaimedBytes, 0),
+    totalDeletedCount: users.reduce((sum, user) => sum + user.deletedCount, 0),
+    users,
+    recentRuns: runs.map((run) => ({
+      id: run.id,
+      status: run.status,
+      gracePeriodHours: run.gracePeriodHours,
+      scannedCount: run.scannedCount,
+      markedCount: run.markedCount,
+      restoredCount: run.restoredCount,
+      deletedCount: run.deletedCount,
+      failedCount: run.failedCount,
+      reclaimedBytes: Number(run.reclaimedBytes),
+      errorMessage: run.errorMessage,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt ? run.finishedAt.toISOString() : null,
+    })),
+  }
+}
@@ -170,6 +170,19 @@ export async function resolveStorageKeyFromMediaValue(value: unknown): Promise<s
   return null
 }
 
+const STORAGE_KEY_PATTERN = /^[\w\-./]+\.[a-z0-9]{2,5}$/i
+
+/**
+ * 判断 JSON 字段中的字符串是否像媒体地址 (/m/ 路由、URL、本地文件或带扩展名的 storageKey)
+ */
+export function looksLikeMediaValue(value: string): boolean {
+  return value.includes('/m/')
+    || value.startsWith('http://')
+    || value.startsWith('https://')
+    || value.startsWith('/api/files/')
+    || STORAGE_KEY_PATTERN.test(value)
+}
+
 export function extractStorageKeyFromLegacyValue(value: unknown): string | null {
   if (typeof value !== 'string' || !value.trim()) return null
   if (value.startsWith('/m/')) return null
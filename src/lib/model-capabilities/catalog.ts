@@ -6,12 +6,15 @@ import {
   type ModelCapabilities,
   type UnifiedModelType,
 } from '@/lib/model-config-contract'
+import { parseProviderRateLimit, type ProviderRateLimit } from '@/lib/provider-rate-limit/config'
 
 export interface BuiltinCapabilityCatalogEntry {
   modelType: UnifiedModelType
   provider: string
   modelId: string
   capabilities?: ModelCapabilities
+  /** 上游模型的全局限流额度，所有用户共享 */
+  rateLimit?: ProviderRateLimit
 }
 
 interface CatalogCache {
@@ -75,6 +78,14 @@ function normalizeEntry(raw: unknown, filePath: string, index: number): BuiltinC
     )
   }
 
+  let rateLimit: ProviderRateLimit | undefined
+  try {
+    rateLimit = parseProviderRateLimit(raw.rateLimit)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`CAPABILITY_CATALOG_INVALID: ${filePath}#${index} ${message}`)
+  }
+
   return {
     modelType: modelTypeRaw,
     provider,
@@ -82,6 +93,7 @@ function normalizeEntry(raw: unknown, filePath: string, index: number): BuiltinC
     ...(capabilitiesRaw && isRecord(capabilitiesRaw)
       ? { capabilities: capabilitiesRaw as ModelCapabilities }
       : {}),
+    ...(rateLimit ? { rateLimit } : {}),
   }
 }
 
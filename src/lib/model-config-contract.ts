@@ -31,6 +31,11 @@ export interface LLMCapabilities {
 
 export interface ImageCapabilities {
   resolutionOptions?: string[]
+  supportSeed?: boolean
+  // 能否把构图草图作为结构参考图（按草图的构图 / 站位出图）
+  supportLayoutReference?: boolean
+  // 能否按黑白蒙版局部重绘（不支持时由 worker 走裁剪-编辑-回贴）
+  supportInpaint?: boolean
   fieldI18n?: CapabilityFieldI18nMap
 }
 
@@ -85,6 +90,9 @@ const LLM_ALLOWED_FIELDS = new Set<keyof LLMCapabilities>([
 
 const IMAGE_ALLOWED_FIELDS = new Set<keyof ImageCapabilities>([
   'resolutionOptions',
+  'supportSeed',
+  'supportLayoutReference',
+  'supportInpaint',
   'fieldI18n',
 ])
 
@@ -288,6 +296,30 @@ function validateImageCapabilities(issues: CapabilityValidationIssue[], raw: unk
     })
   }
 
+  if (raw.supportSeed !== undefined && typeof raw.supportSeed !== 'boolean') {
+    issues.push({
+      code: 'CAPABILITY_FIELD_INVALID',
+      field: 'capabilities.image.supportSeed',
+      message: 'supportSeed must be boolean',
+    })
+  }
+
+  if (raw.supportLayoutReference !== undefined && typeof raw.supportLayoutReference !== 'boolean') {
+    issues.push({
+      code: 'CAPABILITY_FIELD_INVALID',
+      field: 'capabilities.image.supportLayoutReference',
+      message: 'supportLayoutReference must be boolean',
+    })
+  }
+
+  if (raw.supportInpaint !== undefined && typeof raw.supportInpaint !== 'boolean') {
+    issues.push({
+      code: 'CAPABILITY_FIELD_INVALID',
+      field: 'capabilities.image.supportInpaint',
+      message: 'supportInpaint must be boolean',
+    })
+  }
+
   validateFieldI18nMap(issues, 'image', raw.fieldI18n, {
     resolution: isStringArray(resolutionOptions) ? resolutionOptions : undefined,
   })
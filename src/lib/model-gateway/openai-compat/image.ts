@@ -1,5 +1,7 @@
+import { toFile } from 'openai'
 import type { GenerateResult } from '@/lib/generators/base'
 import type { OpenAICompatImageRequest } from '../types'
+import { decodeImageDataUrl, toAlphaEditMask } from '@/lib/image-generation/inpaint'
 import {
   createOpenAICompatClient,
   readStringOption,
@@ -29,6 +31,7 @@ const OPENAI_IMAGE_OPTION_KEYS = new Set([
   'quality',
   'responseFormat',
   'outputFormat',
+  'maskImage',
 ])
 
 function assertAllowedOptions(options: Record<string, unknown>) {
@@ -149,6 +152,12 @@ function readAllImagePayloads(response: unknown): ImagePayloads {
   }
 }
 
+// 蒙版作用于第一张参考图（原图），需与其尺寸一致
+async function toEditMaskFile(maskImage: string) {
+  const alphaMask = await toAlphaEditMask(decodeImageDataUrl(maskImage))
+  return await toFile(alphaMask, 'mask.png', { type: 'image/png' })
+}
+
 export async function generateImageViaOpenAICompat(request: OpenAICompatImageRequest): Promise<GenerateResult> {
   const {
     userId,
@@ -169,12 +178,14 @@ export async function generateImageViaOpenAICompat(request: OpenAICompatImageReq
   const quality = normalizeGenerateQuality(options.quality)
   const rawSize = resolveRawSize(options)
   const size = normalizeOpenAIImageSize(rawSize)
+  const maskImage = readStringOption(options.maskImage, 'maskImage')
 
   if (referenceImages.length > 0) {
     const response = await client.images.edit({
       model: normalizedModelId,
       prompt,
       image: await Promise.all(referenceImages.map((image, index) => toUploadFile(image, index))),
+      ...(maskImage ? { mask: await toEditMaskFile(maskImage) } : {}),
       response_format: responseFormat,
       ...(outputFormat ? { output_format: outputFormat } : {}),
       ...(quality ? { quality } : {}),
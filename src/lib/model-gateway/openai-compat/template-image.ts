@@ -75,6 +75,8 @@ export async function generateImageViaOpenAICompatTemplate(
     aspectRatio: typeof request.options?.aspectRatio === 'string' ? request.options.aspectRatio : undefined,
     resolution: typeof request.options?.resolution === 'string' ? request.options.resolution : undefined,
     size: typeof request.options?.size === 'string' ? request.options.size : undefined,
+    seed: typeof request.options?.seed === 'number' ? request.options.seed : undefined,
+    mask: typeof request.options?.maskImage === 'string' ? request.options.maskImage : undefined,
     extra: request.options,
   })
 
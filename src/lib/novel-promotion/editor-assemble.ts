@@ -0,0 +1,88 @@
+import { prisma } from '@/lib/prisma'
+import { ApiError } from '@/lib/api-errors'
+import { attachMediaFieldsToProject } from '@/lib/media/attach'
+import {
+  assembleEditorProject,
+  type AssembleStoryboardSource,
+  type AssembleVoiceLineSource,
+} from '@/features/video-editor/utils/auto-assemble'
+
+/**
+ * 根据分镜面板与已匹配台词生成粗剪项目并写入 videoEditorProject。
+ *
+ * 已存在编辑器项目时需显式传入 overwrite: true，避免覆盖手动剪辑。
+ */
+export async function assembleEpisodeEditorProject(params: {
+  projectId: string
+  episodeId: string
+  overwrite: boolean
+}) {
+  const { projectId, episodeId, overwrite } = params
+  const episode = await prisma.novelPromotionEpisode.findFirst({
+    where: {
+      id: episodeId,
+      novelPromotionProject: { projectId },
+    },
+    include: {
+      clips: {
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      storyboards: {
+        include: {
+          panels: { orderBy: { panelIndex: 'asc' } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      voiceLines: {
+        orderBy: { lineIndex: 'asc' },
+      },
+      editorProject: {
+        select: { id: true },
+      },
+    },
+  })
+
+  if (!episode) {
+    throw new ApiError('NOT_FOUND')
+  }
+  if (episode.editorProject && !overwrite) {
+    throw new ApiError('CONFLICT', { code: 'EDITOR_PROJECT_EXISTS', field: 'overwrite' })
+  }
+
+  // 媒体字段统一解析为 /m/publicId，预览与渲染均可直接拉取
+  const withMedia = await attachMediaFieldsToProject({
+    storyboards: episode.storyboards,
+    voiceLines: episode.voiceLines,
+  })
+
+  const { project, summary } = assembleEditorProject({
+    episodeId,
+    clipIds: episode.clips.map((clip) => clip.id),
+    storyboards: withMedia.storyboards as unknown as AssembleStoryboardSource[],
+    voiceLines: withMedia.voiceLines as unknown as AssembleVoiceLineSource[],
+  })
+
+  if (project.timeline.length === 0) {
+    throw new ApiError('INVALID_PARAMS', { code: 'EDITOR_ASSEMBLE_NO_VIDEO' })
+  }
+
+  const editorProject = await prisma.videoEditorProject.upsert({
+    where: { episodeId },
+    create: {
+      episodeId,
+      projectData: JSON.stringify(project),
+    },
+    update: {
+      projectData: JSON.stringify(project),
+      updatedAt: new Date(),
+    },
+  })
+
+  return {
+    id: editorProject.id,
+    projectData: project,
+    summary,
+    updatedAt: editorProject.updatedAt,
+  }
+}
@@ -5,6 +5,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useTranslations } from 'next-intl'
 import {
   VideoToolbar,
+  type PanelGenerationChainParams,
   type VideoGenerationOptionValue,
   type VideoGenerationOptions,
   type VideoModelOption,
@@ -17,6 +18,7 @@ import {
   useUpdateProjectPanelLink,
 } from '@/lib/query/hooks'
 import { useLipSync } from '@/lib/query/hooks/useStoryboards'
+import { useGeneratePanelChain } from '@/lib/query/hooks/usePanelChain'
 import ImagePreviewModal from '@/components/ui/ImagePreviewModal'
 import { ModelCapabilityDropdown } from '@/components/ui/config-modals/ModelCapabilityDropdown'
 import VideoTimelinePanel from '@/app/[locale]/workspace/[projectId]/modes/novel-promotion/components/video-stage/VideoTimelinePanel'
@@ -99,6 +101,7 @@ export function useVideoStageRuntime({
   } = useVideoPanelViewport()
 
   const lipSyncMutation = useLipSync(projectId, episodeId)
+  const panelChainMutation = useGeneratePanelChain(projectId, episodeId)
   const listEpisodeVideoUrlsMutation = useListProjectEpisodeVideoUrls(projectId)
   const updatePanelLinkMutation = useUpdateProjectPanelLink(projectId)
   const downloadRemoteBlobMutation = useDownloadRemoteBlob()
@@ -318,6 +321,15 @@ export function useVideoStageRuntime({
     }
   }, [lipSyncMutation])
 
+  const handleGeneratePanelChain = useCallback(async (params: PanelGenerationChainParams) => {
+    try {
+      await panelChainMutation.mutateAsync(params)
+    } catch (error: unknown) {
+      _ulogError('Panel generation chain error:', error)
+      throw error
+    }
+  }, [panelChainMutation])
+
   const panelBySubmissionKey = useMemo(() => {
     const next = new Map<string, (typeof allPanels)[number]>()
     for (const panel of allPanels) {
@@ -558,6 +570,7 @@ export function useVideoStageRuntime({
         onGenerateVideo={handleGenerateVideoWithImmediateLock}
         onUpdatePanelVideoModel={onUpdatePanelVideoModel}
         onLipSync={handleLipSync}
+        onGenerateChain={handleGeneratePanelChain}
         onToggleLink={handleToggleLink}
         onFlModelChange={setFlModel}
         onFlCapabilityChange={setFlCapabilityValue}
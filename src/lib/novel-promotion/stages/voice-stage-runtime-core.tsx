@@ -10,6 +10,7 @@ import {
   useCreateProjectVoiceLine,
   useDeleteProjectVoiceLine,
   useDownloadProjectVoices,
+  useDownloadProjectSubtitles,
   useGenerateProjectVoice,
   useUpdateProjectVoiceLine,
   useUpdateSpeakerVoice,
@@ -64,6 +65,7 @@ export function useVoiceStageRuntime({
   const updateVoiceLineMutation = useUpdateProjectVoiceLine(projectId)
   const deleteVoiceLineMutation = useDeleteProjectVoiceLine(projectId)
   const downloadVoicesMutation = useDownloadProjectVoices(projectId)
+  const downloadSubtitlesMutation = useDownloadProjectSubtitles(projectId)
   const updateSpeakerVoiceMutation = useUpdateSpeakerVoice(projectId)
   const characters: Character[] = useMemo(() => (assets?.characters ?? []) as Character[], [assets?.characters])
   const {
@@ -159,10 +161,12 @@ export function useVoiceStageRuntime({
     analyzing,
     isBatchSubmittingAll,
     isDownloading,
+    isDownloadingSubtitles,
     handleAnalyze,
     handleGenerateLine,
     handleGenerateAll,
     handleDownloadAll,
+    handleDownloadSubtitles,
   } = useVoiceGenerationActions({
     projectId,
     episodeId,
@@ -174,6 +178,7 @@ export function useVoiceStageRuntime({
     analyzeVoiceMutation,
     generateVoiceMutation,
     downloadVoicesMutation,
+    downloadSubtitlesMutation,
     loadData,
     notifyVoiceLinesChanged,
     setPendingVoiceGenerationByLineId,
@@ -268,6 +273,7 @@ export function useVoiceStageRuntime({
         analyzing={analyzing}
         isBatchSubmittingAll={isBatchSubmittingAll}
         isDownloading={isDownloading}
+        isDownloadingSubtitles={isDownloadingSubtitles}
         runningLineCount={runningLineIds.size}
         allSpeakersHaveVoice={allSpeakersHaveVoice}
         totalLines={voiceLines.length}
@@ -287,6 +293,7 @@ export function useVoiceStageRuntime({
         onAnalyze={handleAnalyze}
         onGenerateAll={handleGenerateAll}
         onDownloadAll={handleDownloadAll}
+        onDownloadSubtitles={handleDownloadSubtitles}
         onStartAdd={handleStartAdd}
         onOpenAssetLibraryForSpeaker={handleOpenAssetLibraryForSpeaker}
         onOpenInlineBinding={handleOpenInlineBinding}
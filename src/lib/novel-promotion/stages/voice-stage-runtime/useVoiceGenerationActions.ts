@@ -5,6 +5,7 @@ import { useCallback, useState } from 'react'
 import { shouldShowError } from '@/lib/error-utils'
 import { upsertTaskTargetOverlay } from '@/lib/query/task-target-overlay'
 import { hasAnyVoiceBinding } from '@/lib/voice/provider-voice-binding'
+import type { SubtitleFormat } from '@/lib/subtitles/types'
 import { getErrorMessage, getErrorStatus } from './utils'
 import type {
   Character,
@@ -36,6 +37,7 @@ interface UseVoiceGenerationActionsParams {
     results?: Array<{ lineId?: string; taskId?: string; audioUrl?: string }>
   }>
   downloadVoicesMutation: MutationLike<{ episodeId: string }, Blob>
+  downloadSubtitlesMutation: MutationLike<{ episodeId: string; format: SubtitleFormat }, Blob>
   loadData: () => Promise<void>
   notifyVoiceLinesChanged: () => void
   setPendingVoiceGenerationByLineId: React.Dispatch<React.SetStateAction<PendingVoiceGenerationMap>>
@@ -52,6 +54,7 @@ export function useVoiceGenerationActions({
   analyzeVoiceMutation,
   generateVoiceMutation,
   downloadVoicesMutation,
+  downloadSubtitlesMutation,
   loadData,
   notifyVoiceLinesChanged,
   setPendingVoiceGenerationByLineId,
@@ -60,6 +63,7 @@ export function useVoiceGenerationActions({
   const [analyzing, setAnalyzing] = useState(false)
   const [isBatchSubmittingAll, setIsBatchSubmittingAll] = useState(false)
   const [isDownloading, setIsDownloading] = useState(false)
+  const [isDownloadingSubtitles, setIsDownloadingSubtitles] = useState(false)
 
   const buildPendingGenerationMap = useCallback((lineIds: string[]) => {
     const next: PendingVoiceGenerationMap = {}
@@ -303,13 +307,38 @@ export function useVoiceGenerationActions({
     }
   }, [downloadVoicesMutation, episodeId, linesWithAudio, t])
 
+  const handleDownloadSubtitles = useCallback(async (format: SubtitleFormat) => {
+    if (voiceLines.length === 0) return
+
+    setIsDownloadingSubtitles(true)
+    try {
+      const blob = await downloadSubtitlesMutation.mutateAsync({ episodeId, format })
+      const url = window.URL.createObjectURL(blob)
+      const anchor = document.createElement('a')
+      anchor.href = url
+      anchor.download = `字幕_${new Date().toISOString().slice(0, 10)}.${format}`
+      document.body.appendChild(anchor)
+      anchor.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(anchor)
+    } catch (error: unknown) {
+      if (shouldShowError(error)) {
+        alert(`${t('errors.downloadFailed')}: ${getErrorMessage(error)}`)
+      }
+    } finally {
+      setIsDownloadingSubtitles(false)
+    }
+  }, [downloadSubtitlesMutation, episodeId, t, voiceLines.length])
+
   return {
     analyzing,
     isBatchSubmittingAll,
     isDownloading,
+    isDownloadingSubtitles,
     handleAnalyze,
     handleGenerateLine,
     handleGenerateAll,
     handleDownloadAll,
+    handleDownloadSubtitles,
   }
 }
@@ -241,6 +241,92 @@ async function runStepWithRetry<T>(
   throw lastError!
 }
 
+export type StoryToScriptScreenplayPhaseInput = {
+  concurrency?: number
+  clipList: Array<Pick<StoryToScriptClipCandidate, 'id' | 'content'>>
+  screenplayPromptTemplate: string
+  charactersLibName: string
+  locationsLibName: string
+  propsLibName: string
+  charactersIntroduction: string
+  runStep: StoryToScriptOrchestratorInput['runStep']
+  onStepError?: StoryToScriptOrchestratorInput['onStepError']
+}
+
+/**
+ * 步骤3：逐片段剧本转换。人工覆盖 split_clips 后续跑也只执行这一段。
+ */
+export async function runStoryToScriptScreenplayPhase(
+  input: StoryToScriptScreenplayPhaseInput,
+): Promise<StoryToScriptScreenplayResult[]> {
+  const {
+    clipList,
+    screenplayPromptTemplate,
+    charactersLibName,
+    locationsLibName,
+    propsLibName,
+    charactersIntroduction,
+    runStep,
+    onStepError,
+  } = input
+  const concurrency = normalizeWorkflowConcurrencyValue(
+    input.concurrency,
+    DEFAULT_ANALYSIS_WORKFLOW_CONCURRENCY,
+  )
+  return await mapWithConcurrency(
+    clipList,
+    concurrency,
+    async (clip, index): Promise<StoryToScriptScreenplayResult> => {
+      const stepMeta: StoryToScriptStepMeta = {
+        stepId: `screenplay_${clip.id}`,
+        stepTitle: 'progress.streamStep.screenplayConversion',
+        stepIndex: index + 1,
+        stepTotal: clipList.length || 1,
+        dependsOn: ['split_clips'],
+        groupId: 'screenplay_conversion',
+        parallelKey: clip.id,
+        retryable: true,
+      }
+
+      try {
+        const screenplayPrompt = applyTemplate(screenplayPromptTemplate, {
+          clip_content: clip.content,
+          locations_lib_name: locationsLibName || '无',
+          characters_lib_name: charactersLibName || '无',
+          props_lib_name: propsLibName || '无',
+          characters_introduction: charactersIntroduction || '暂无角色介绍',
+          clip_id: clip.id,
+        })
+
+        const { parsed: screenplay } = await runStepWithRetry(
+          runStep,
+          stepMeta,
+          screenplayPrompt,
+          'screenplay_conversion',
+          2200,
+          parseScreenplayObject,
+        )
+        const scenes = Array.isArray(screenplay.scenes) ? screenplay.scenes : []
+        return {
+          clipId: clip.id,
+          success: true,
+          sceneCount: scenes.length,
+          screenplay,
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        onStepError?.(stepMeta, message)
+        return {
+          clipId: clip.id,
+          success: false,
+          sceneCount: 0,
+          error: message,
+        }
+      }
+    },
+  )
+}
+
 export async function runStoryToScriptOrchestrator(
   input: StoryToScriptOrchestratorInput,
 ): Promise<StoryToScriptOrchestratorResult> {
@@ -509,58 +595,17 @@ export async function runStoryToScriptOrchestrator(
 
   onLog?.('开始步骤3：对每个片段做剧本转换（并行）', { clipCount: clipList.length })
 
-  const screenplayResults = await mapWithConcurrency(
-    clipList,
+  const screenplayResults = await runStoryToScriptScreenplayPhase({
     concurrency,
-    async (clip, index): Promise<StoryToScriptScreenplayResult> => {
-      const stepMeta: StoryToScriptStepMeta = {
-        stepId: `screenplay_${clip.id}`,
-        stepTitle: 'progress.streamStep.screenplayConversion',
-        stepIndex: index + 1,
-        stepTotal: clipList.length || 1,
-        dependsOn: ['split_clips'],
-        groupId: 'screenplay_conversion',
-        parallelKey: clip.id,
-        retryable: true,
-      }
-
-      try {
-        const screenplayPrompt = applyTemplate(promptTemplates.screenplayPromptTemplate, {
-          clip_content: clip.content,
-          locations_lib_name: locationsLibName || '无',
-          characters_lib_name: charactersLibName || '无',
-          props_lib_name: propsLibName || '无',
-          characters_introduction: charactersIntroduction || '暂无角色介绍',
-          clip_id: clip.id,
-        })
-
-        const { parsed: screenplay } = await runStepWithRetry(
-          runStep,
-          stepMeta,
-          screenplayPrompt,
-          'screenplay_conversion',
-          2200,
-          parseScreenplayObject,
-        )
-        const scenes = Array.isArray(screenplay.scenes) ? screenplay.scenes : []
-        return {
-          clipId: clip.id,
-          success: true,
-          sceneCount: scenes.length,
-          screenplay,
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error)
-        onStepError?.(stepMeta, message)
-        return {
-          clipId: clip.id,
-          success: false,
-          sceneCount: 0,
-          error: message,
-        }
-      }
-    },
-  )
+    clipList,
+    screenplayPromptTemplate: promptTemplates.screenplayPromptTemplate,
+    charactersLibName,
+    locationsLibName,
+    propsLibName,
+    charactersIntroduction,
+    runStep,
+    onStepError,
+  })
 
   const screenplaySuccessCount = screenplayResults.filter((item) => item.success).length
   const screenplayFailedCount = screenplayResults.length - screenplaySuccessCount
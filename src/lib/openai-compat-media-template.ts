@@ -61,5 +61,7 @@ export const TEMPLATE_PLACEHOLDER_ALLOWLIST = new Set([
   'duration',
   'resolution',
   'size',
+  'seed',
+  'mask',
   'task_id',
 ])
@@ -431,6 +431,8 @@ export function buildTemplateVariables(input: {
   duration?: number
   resolution?: string
   size?: string
+  seed?: number
+  mask?: string
   taskId?: string
   extra?: Record<string, unknown>
 }): TemplateVariableMap {
@@ -443,6 +445,8 @@ export function buildTemplateVariables(input: {
     duration: input.duration ?? null,
     resolution: input.resolution || '',
     size: input.size || '',
+    seed: input.seed ?? null,
+    mask: input.mask || '',
     task_id: input.taskId || '',
   }
   appendTemplateOptionVariables(variables, input.extra)
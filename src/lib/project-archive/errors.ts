@@ -0,0 +1,20 @@
+export type ProjectArchiveErrorCode =
+  | 'ARCHIVE_UNREADABLE'
+  | 'ARCHIVE_MANIFEST_MISSING'
+  | 'ARCHIVE_MANIFEST_INVALID'
+  | 'ARCHIVE_FORMAT_MISMATCH'
+  | 'ARCHIVE_VERSION_UNSUPPORTED'
+  | 'ARCHIVE_MEDIA_MISSING'
+  | 'ARCHIVE_TOO_LARGE'
+
+export class ProjectArchiveError extends Error {
+  readonly code: ProjectArchiveErrorCode
+  readonly path?: string
+
+  constructor(code: ProjectArchiveErrorCode, message: string, path?: string) {
+    super(message)
+    this.code = code
+    this.path = path
+    this.name = 'ProjectArchiveError'
+  }
+}
@@ -0,0 +1,183 @@
+import { APP_VERSION } from '@/lib/app-meta'
+import { prisma } from '@/lib/prisma'
+import {
+  ArchiveMediaCollector,
+  createArchiveZipStream,
+  toArchiveMediaEntries,
+  type CollectedArchiveMedia,
+} from './media'
+import { ARCHIVE_MODEL_SPECS, type ArchiveModelName } from './schema'
+import {
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_SCHEMA_VERSION,
+  type ArchiveRecord,
+  type ProjectArchiveManifest,
+} from './types'
+
+type Row = Record<string, unknown> & { id: string }
+
+async function toArchiveRecord(
+  model: ArchiveModelName,
+  row: Row,
+  media: ArchiveMediaCollector,
+  extra: Record<string, unknown> = {},
+): Promise<ArchiveRecord> {
+  return await media.collectRecord(ARCHIVE_MODEL_SPECS[model], row, extra)
+}
+
+async function loadProjectTree(projectId: string) {
+  return await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      novelPromotionData: {
+        include: {
+          characters: {
+            include: { appearances: { orderBy: { appearanceIndex: 'asc' } } },
+            orderBy: { createdAt: 'asc' },
+          },
+          locations: {
+            include: { images: { orderBy: { imageIndex: 'asc' } } },
+            orderBy: { createdAt: 'asc' },
+          },
+          episodes: {
+            include: {
+              clips: { orderBy: { createdAt: 'asc' } },
+              storyboards: {
+                include: {
+                  panels: { orderBy: { panelIndex: 'asc' } },
+                  supplementaryPanels: { orderBy: { createdAt: 'asc' } },
+                },
+                orderBy: { createdAt: 'asc' },
+              },
+              shots: { orderBy: { createdAt: 'asc' } },
+              voiceLines: { orderBy: { lineIndex: 'asc' } },
+              editorProject: true,
+            },
+            orderBy: { episodeNumber: 'asc' },
+          },
+        },
+      },
+    },
+  })
+}
+
+export interface ProjectArchiveBuildResult {
+  manifest: ProjectArchiveManifest
+  media: CollectedArchiveMedia[]
+}
+
+/**
+ * 生成项目归档清单 (不含媒体文件内容)
+ */
+export async function buildProjectArchiveManifest(projectId: string): Promise<ProjectArchiveBuildResult | null> {
+  const project = await loadProjectTree(projectId)
+  const data = project?.novelPromotionData
+  if (!project || !data) return null
+
+  const media = new ArchiveMediaCollector()
+
+  const characters = []
+  for (const character of data.characters) {
+    const appearances = []
+    for (const appearance of character.appearances) {
+      appearances.push(await toArchiveRecord('appearance', appearance, media))
+    }
+    characters.push({ ...(await toArchiveRecord('character', character, media)), appearances })
+  }
+
+  const locations = []
+  for (const location of data.locations) {
+    const images = []
+    for (const image of location.images) {
+      images.push(await toArchiveRecord('locationImage', image, media))
+    }
+    locations.push({
+      ...(await toArchiveRecord('location', location, media, { selectedImageId: location.selectedImageId })),
+      images,
+    })
+  }
+
+  const episodes = []
+  for (const episode of data.episodes) {
+    const clips = []
+    for (const clip of episode.clips) {
+      clips.push(await toArchiveRecord('clip', clip, media))
+    }
+
+    const storyboards = []
+    for (const storyboard of episode.storyboards) {
+      const panels = []
+      for (const panel of storyboard.panels) {
+        panels.push(await toArchiveRecord('panel', panel, media))
+      }
+      const supplementaryPanels = []
+      for (const panel of storyboard.supplementaryPanels) {
+        supplementaryPanels.push(await toArchiveRecord('supplementaryPanel', panel, media, {
+          sourcePanelId: panel.sourcePanelId,
+        }))
+      }
+      storyboards.push({
+        ...(await toArchiveRecord('storyboard', storyboard, media, { clipId: storyboard.clipId })),
+        panels,
+        supplementaryPanels,
+      })
+    }
+
+    const shots = []
+    for (const shot of episode.shots) {
+      shots.push(await toArchiveRecord('shot', shot, media, { clipId: shot.clipId }))
+    }
+
+    const voiceLines = []
+    for (const line of episode.voiceLines) {
+      voiceLines.push(await toArchiveRecord('voiceLine', line, media, {
+        matchedPanelId: line.matchedPanelId,
+        matchedStoryboardId: line.matchedStoryboardId,
+      }))
+    }
+
+    episodes.push({
+      ...(await toArchiveRecord('episode', episode, media)),
+      clips,
+      storyboards,
+      shots,
+      voiceLines,
+      editorProject: episode.editorProject
+        ? await toArchiveRecord('editorProject', episode.editorProject, media)
+        : null,
+    })
+  }
+
+  const novelPromotion: Record<string, unknown> = { lastEpisodeId: data.lastEpisodeId }
+  for (const field of ARCHIVE_MODEL_SPECS.novelPromotion.fields) {
+    novelPromotion[field] = (data as Record<string, unknown>)[field] ?? null
+  }
+
+  const entries = media.entries
+  return {
+    manifest: {
+      format: PROJECT_ARCHIVE_FORMAT,
+      schemaVersion: PROJECT_ARCHIVE_SCHEMA_VERSION,
+      appVersion: APP_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        name: project.name,
+        description: project.description,
+      },
+      novelPromotion,
+      characters,
+      locations,
+      episodes,
+      media: toArchiveMediaEntries(entries),
+      missingMedia: media.missingValues,
+    },
+    media: entries,
+  }
+}
+
+/**
+ * 将项目归档写入 zip 流
+ */
+export function createProjectArchiveStream(result: ProjectArchiveBuildResult): ReadableStream<Uint8Array> {
+  return createArchiveZipStream(result.manifest, result.media)
+}
@@ -0,0 +1,315 @@
+import { randomUUID } from 'node:crypto'
+import { Prisma } from '@prisma/client'
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import { PROJECT_NAME_MAX_LENGTH } from '@/lib/projects/validation'
+import { ProjectArchiveError } from './errors'
+import {
+  importArchiveMedia,
+  readArchiveManifest,
+  restoreArchiveRecord,
+  type ImportedArchiveMedia,
+} from './media'
+import { ARCHIVE_MODEL_SPECS, validateProjectArchiveManifest, type ArchiveModelName } from './schema'
+import {
+  type ArchiveRecord,
+  type ProjectArchiveImportResult,
+  type ProjectArchiveManifest,
+} from './types'
+
+const logger = createScopedLogger({
+  module: 'project.archive',
+  action: 'project.archive.import',
+})
+
+// 大项目的写入量较大，放宽交互式事务超时
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000
+
+type CreateData = Record<string, unknown>
+
+/**
+ * 导入上下文：旧 ID → 新 ID、归档媒体 ref → 新存储对象
+ */
+class ImportContext {
+  readonly ids = new Map<string, string>()
+
+  constructor(readonly media: Map<string, ImportedArchiveMedia>) {}
+
+  assignId(oldId: string): string {
+    const newId = randomUUID()
+    this.ids.set(oldId, newId)
+    return newId
+  }
+
+  id(oldId: string): string {
+    const mapped = this.ids.get(oldId)
+    if (!mapped) throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', `unknown record id: ${oldId}`)
+    return mapped
+  }
+
+  optionalId(oldId: unknown): string | null {
+    return typeof oldId === 'string' ? this.ids.get(oldId) ?? null : null
+  }
+}
+
+/**
+ * 按模型白名单还原一条记录；remapJsonIds 时 JSON 字段内引用的旧 ID 一并替换
+ */
+function toCreateData(
+  model: ArchiveModelName,
+  record: ArchiveRecord,
+  context: ImportContext,
+  options: { remapJsonIds?: boolean } = {},
+): CreateData {
+  return restoreArchiveRecord(
+    ARCHIVE_MODEL_SPECS[model],
+    record,
+    context.media,
+    options.remapJsonIds ? { remapJsonId: (value) => context.ids.get(value) } : {},
+  )
+}
+
+function assignIds(manifest: ProjectArchiveManifest, context: ImportContext) {
+  for (const character of manifest.characters) {
+    context.assignId(character.id)
+    character.appearances.forEach((appearance) => context.assignId(appearance.id))
+  }
+  for (const location of manifest.locations) {
+    context.assignId(location.id)
+    location.images.forEach((image) => context.assignId(image.id))
+  }
+  for (const episode of manifest.episodes) {
+    context.assignId(episode.id)
+    episode.clips.forEach((clip) => context.assignId(clip.id))
+    episode.shots.forEach((shot) => context.assignId(shot.id))
+    episode.voiceLines.forEach((line) => context.assignId(line.id))
+    if (episode.editorProject) context.assignId(episode.editorProject.id)
+    for (const storyboard of episode.storyboards) {
+      context.assignId(storyboard.id)
+      storyboard.panels.forEach((panel) => context.assignId(panel.id))
+      storyboard.supplementaryPanels.forEach((panel) => context.assignId(panel.id))
+    }
+  }
+}
+
+async function writeProject(
+  tx: Prisma.TransactionClient,
+  manifest: ProjectArchiveManifest,
+  context: ImportContext,
+  params: { userId: string; name: string },
+): Promise<string> {
+  const project = await tx.project.create({
+    data: {
+      name: params.name,
+      description: manifest.project.description || null,
+      userId: params.userId,
+    },
+  })
+
+  const novelPromotion = await tx.novelPromotionProject.create({
+    data: {
+      ...toCreateData('novelPromotion', { id: project.id, ...manifest.novelPromotion }, context),
+      projectId: project.id,
+      lastEpisodeId: context.optionalId(manifest.novelPromotion.lastEpisodeId),
+    } as Prisma.NovelPromotionProjectUncheckedCreateInput,
+  })
+  const novelPromotionProjectId = novelPromotion.id
+
+  for (const character of manifest.characters) {
+    const characterId = context.id(character.id)
+    await tx.novelPromotionCharacter.create({
+      data: {
+        ...toCreateData('character', character, context),
+        id: characterId,
+        novelPromotionProjectId,
+      } as Prisma.NovelPromotionCharacterUncheckedCreateInput,
+    })
+    if (character.appearances.length > 0) {
+      await tx.characterAppearance.createMany({
+        data: character.appearances.map((appearance) => ({
+          ...toCreateData('appearance', appearance, context),
+          id: context.id(appearance.id),
+          characterId,
+        }) as Prisma.CharacterAppearanceCreateManyInput),
+      })
+    }
+  }
+
+  for (const location of manifest.locations) {
+    const locationId = context.id(location.id)
+    await tx.novelPromotionLocation.create({
+      data: {
+        ...toCreateData('location', location, context),
+        id: locationId,
+        novelPromotionProjectId,
+      } as Prisma.NovelPromotionLocationUncheckedCreateInput,
+    })
+    if (location.images.length > 0) {
+      await tx.locationImage.createMany({
+        data: location.images.map((image) => ({
+          ...toCreateData('locationImage', image, context),
+          id: context.id(image.id),
+          locationId,
+        }) as Prisma.LocationImageCreateManyInput),
+      })
+    }
+    // 选中图片需在图片创建后回填
+    const selectedImageId = context.optionalId(location.selectedImageId)
+    if (selectedImageId) {
+      await tx.novelPromotionLocation.update({
+        where: { id: locationId },
+        data: { selectedImageId },
+      })
+    }
+  }
+
+  for (const episode of manifest.episodes) {
+    const episodeId = context.id(episode.id)
+    await tx.novelPromotionEpisode.create({
+      data: {
+        ...toCreateData('episode', episode, context),
+        id: episodeId,
+        novelPromotionProjectId,
+      } as Prisma.NovelPromotionEpisodeUncheckedCreateInput,
+    })
+
+    if (episode.clips.length > 0) {
+      await tx.novelPromotionClip.createMany({
+        data: episode.clips.map((clip) => ({
+          ...toCreateData('clip', clip, context),
+          id: context.id(clip.id),
+          episodeId,
+        }) as Prisma.NovelPromotionClipCreateManyInput),
+      })
+    }
+
+    for (const storyboard of episode.storyboards) {
+      const storyboardId = context.id(storyboard.id)
+      await tx.novelPromotionStoryboard.create({
+        data: {
+          ...toCreateData('storyboard', storyboard, context),
+          id: storyboardId,
+          episodeId,
+          clipId: context.id(String(storyboard.clipId)),
+        } as Prisma.NovelPromotionStoryboardUncheckedCreateInput,
+      })
+      if (storyboard.panels.length > 0) {
+        await tx.novelPromotionPanel.createMany({
+          data: storyboard.panels.map((panel) => ({
+            ...toCreateData('panel', panel, context),
+            id: context.id(panel.id),
+            storyboardId,
+          }) as Prisma.NovelPromotionPanelCreateManyInput),
+        })
+      }
+      if (storyboard.supplementaryPanels.length > 0) {
+        await tx.supplementaryPanel.createMany({
+          data: storyboard.supplementaryPanels.map((panel) => ({
+            ...toCreateData('supplementaryPanel', panel, context),
+            id: context.id(panel.id),
+            storyboardId,
+            sourcePanelId: context.optionalId(panel.sourcePanelId),
+          }) as Prisma.SupplementaryPanelCreateManyInput),
+        })
+      }
+    }
+
+    if (episode.shots.length > 0) {
+      await tx.novelPromotionShot.createMany({
+        data: episode.shots.map((shot) => ({
+          ...toCreateData('shot', shot, context),
+          id: context.id(shot.id),
+          episodeId,
+          clipId: context.optionalId(shot.clipId),
+        }) as Prisma.NovelPromotionShotCreateManyInput),
+      })
+    }
+
+    if (episode.voiceLines.length > 0) {
+      await tx.novelPromotionVoiceLine.createMany({
+        data: episode.voiceLines.map((line) => ({
+          ...toCreateData('voiceLine', line, context),
+          id: context.id(line.id),
+          episodeId,
+          matchedPanelId: context.optionalId(line.matchedPanelId),
+          matchedStoryboardId: context.optionalId(line.matchedStoryboardId),
+        }) as Prisma.NovelPromotionVoiceLineCreateManyInput),
+      })
+    }
+
+    if (episode.editorProject) {
+      await tx.videoEditorProject.create({
+        data: {
+          projectData: '{}',
+          ...toCreateData('editorProject', episode.editorProject, context, { remapJsonIds: true }),
+          id: context.id(episode.editorProject.id),
+          episodeId,
+        } as Prisma.VideoEditorProjectUncheckedCreateInput,
+      })
+    }
+  }
+
+  return project.id
+}
+
+/**
+ * 未指定新名称时沿用归档中的项目名，超长截断到项目名上限
+ */
+function resolveImportedProjectName(override: string | null | undefined, manifestName: string): string {
+  const preferred = override?.trim()
+  if (preferred) return preferred
+
+  const name = manifestName.trim().slice(0, PROJECT_NAME_MAX_LENGTH).trim()
+  if (!name) {
+    throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', 'project name must not be empty', 'manifest.project.name')
+  }
+  return name
+}
+
+/**
+ * 导入项目归档：校验清单 → 上传媒体并建立 MediaObject → 以新 ID 重建全部记录
+ */
+export async function importProjectArchive(params: {
+  userId: string
+  archive: Buffer
+  name?: string | null
+}): Promise<ProjectArchiveImportResult> {
+  const { zip, manifest } = await readArchiveManifest(params.archive, validateProjectArchiveManifest)
+  const name = resolveImportedProjectName(params.name, manifest.project.name)
+  const media = await importArchiveMedia(zip, manifest.media, params.userId)
+  const context = new ImportContext(media)
+  assignIds(manifest, context)
+
+  let projectId: string
+  try {
+    projectId = await prisma.$transaction(
+      async (tx) => await writeProject(tx, manifest, context, { userId: params.userId, name }),
+      { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+    )
+  } catch (error: unknown) {
+    if (error instanceof Prisma.PrismaClientValidationError) {
+      throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', 'manifest contains field values of unexpected types')
+    }
+    throw error
+  }
+
+  logger.info({
+    action: 'project.archive.imported',
+    message: 'project archive imported',
+    projectId,
+    userId: params.userId,
+    details: {
+      schemaVersion: manifest.schemaVersion,
+      appVersion: manifest.appVersion,
+      episodeCount: manifest.episodes.length,
+      mediaCount: media.size,
+    },
+  })
+
+  return {
+    projectId,
+    name,
+    episodeCount: manifest.episodes.length,
+    mediaCount: media.size,
+  }
+}
@@ -0,0 +1,30 @@
+export * from './types'
+export * from './errors'
+export {
+  ARCHIVE_MODEL_SPECS,
+  expectArray,
+  expectObject,
+  expectRecords,
+  expectString,
+  validateArchiveHeader,
+  validateArchiveMediaEntries,
+  validateProjectArchiveManifest,
+  type ArchiveModelSpec,
+} from './schema'
+export {
+  ArchiveMediaCollector,
+  createArchiveZipStream,
+  importArchiveMedia,
+  readArchiveManifest,
+  restoreArchiveRecord,
+  toArchiveMediaEntries,
+  type CollectedArchiveMedia,
+  type ImportedArchiveMedia,
+  type RestoreArchiveRecordOptions,
+} from './media'
+export {
+  buildProjectArchiveManifest,
+  createProjectArchiveStream,
+  type ProjectArchiveBuildResult,
+} from './export'
+export { importProjectArchive } from './import'
@@ -0,0 +1,397 @@
+import path from 'node:path'
+import archiver from 'archiver'
+import JSZip from 'jszip'
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import { generateUniqueKey, getObjectStream, headObject } from '@/lib/storage'
+import { uploadDedupedObject } from '@/lib/media/dedup'
+import {
+  ensureMediaObjectFromStorageKey,
+  looksLikeMediaValue,
+  resolveStorageKeyFromMediaValue,
+} from '@/lib/media/service'
+import { ProjectArchiveError } from './errors'
+import type { ArchiveModelSpec } from './schema'
+import {
+  ARCHIVE_MAX_BYTES,
+  ARCHIVE_MAX_ENTRIES,
+  ARCHIVE_MAX_ENTRY_BYTES,
+  ARCHIVE_MAX_TOTAL_BYTES,
+  ARCHIVE_MEDIA_TOKEN_PREFIX,
+  PROJECT_ARCHIVE_MANIFEST_PATH,
+  PROJECT_ARCHIVE_MEDIA_DIR,
+  type ArchiveMediaEntry,
+  type ArchiveRecord,
+} from './types'
+
+const logger = createScopedLogger({
+  module: 'project.archive',
+  action: 'project.archive.media',
+})
+
+export interface CollectedArchiveMedia extends ArchiveMediaEntry {
+  storageKey: string
+}
+
+export interface ImportedArchiveMedia {
+  storageKey: string
+  mediaId: string
+  url: string
+}
+
+type Row = Record<string, unknown> & { id: string }
+
+/**
+ * 指向本站存储的媒体值（存储键、/m/ 与 /api/files/ 地址）；外部 http(s) 地址不算
+ */
+function isInternalMediaValue(value: string): boolean {
+  return looksLikeMediaValue(value) && !/^https?:\/\//.test(value)
+}
+
+/**
+ * 收集归档引用的媒体：按 storageKey 去重，字段值替换为归档占位符
+ */
+export class ArchiveMediaCollector {
+  private readonly byStorageKey = new Map<string, CollectedArchiveMedia>()
+  private readonly missing = new Set<string>()
+
+  get entries(): CollectedArchiveMedia[] {
+    return Array.from(this.byStorageKey.values())
+  }
+
+  get missingValues(): string[] {
+    return Array.from(this.missing)
+  }
+
+  /**
+   * 无法解析为存储对象的媒体值记入 missingMedia 并置空，导入端只接受归档占位符；
+   * strict=false 用于 JSON 字段：不指向本站存储的字符串视为普通文本保留
+   */
+  async tokenize(value: string, strict: boolean): Promise<string | null> {
+    const trimmed = value.trim()
+    if (!trimmed) return value
+    if (trimmed.startsWith('PENDING:')) return strict ? null : value
+
+    const storageKey = await resolveStorageKeyFromMediaValue(trimmed).catch(() => null)
+    const entry = storageKey ? await this.register(storageKey) : null
+    if (entry) return `${ARCHIVE_MEDIA_TOKEN_PREFIX}${entry.ref}`
+
+    if (!strict && !isInternalMediaValue(trimmed)) return value
+    this.missing.add(trimmed)
+    return null
+  }
+
+  /**
+   * 按模型白名单导出一条记录，extra 为需要在导入时重映射的引用字段
+   */
+  async collectRecord(spec: ArchiveModelSpec, row: Row, extra: Record<string, unknown> = {}): Promise<ArchiveRecord> {
+    const record: ArchiveRecord = { id: row.id, ...extra }
+
+    for (const field of spec.fields) {
+      record[field] = row[field] ?? null
+    }
+    for (const field of spec.mediaFields) {
+      const value = row[field]
+      record[field] = typeof value === 'string' && value ? await this.tokenize(value, true) : null
+    }
+    for (const field of spec.mediaJsonFields) {
+      const value = row[field]
+      record[field] = typeof value === 'string' && value ? await this.tokenizeJsonText(value) : null
+    }
+    return record
+  }
+
+  async tokenizeJsonText(raw: string): Promise<string | null> {
+    try {
+      return JSON.stringify(await this.tokenizeJsonValue(JSON.parse(raw)))
+    } catch {
+      return looksLikeMediaValue(raw) ? await this.tokenize(raw, false) : raw
+    }
+  }
+
+  private async tokenizeJsonValue(value: unknown): Promise<unknown> {
+    if (typeof value === 'string') {
+      return looksLikeMediaValue(value) ? await this.tokenize(value, false) : value
+    }
+    if (Array.isArray(value)) {
+      return await Promise.all(value.map((item) => this.tokenizeJsonValue(item)))
+    }
+    if (value && typeof value === 'object') {
+      const output: Record<string, unknown> = {}
+      for (const [key, item] of Object.entries(value)) {
+        output[key] = await this.tokenizeJsonValue(item)
+      }
+      return output
+    }
+    return value
+  }
+
+  private async register(storageKey: string): Promise<CollectedArchiveMedia | null> {
+    const existing = this.byStorageKey.get(storageKey)
+    if (existing) return existing
+
+    const head = await headObject(storageKey).catch(() => null)
+    if (!head) return null
+
+    const media = await prisma.mediaObject.findUnique({
+      where: { storageKey },
+      select: { sha256: true, mimeType: true },
+    })
+    const ref = `m${String(this.byStorageKey.size + 1).padStart(5, '0')}`
+    const ext = path.extname(storageKey).toLowerCase()
+    const entry: CollectedArchiveMedia = {
+      ref,
+      path: `${PROJECT_ARCHIVE_MEDIA_DIR}/${ref}${ext}`,
+      mimeType: media?.mimeType || head.contentType || null,
+      sizeBytes: head.size,
+      sha256: media?.sha256 || null,
+      storageKey,
+    }
+    this.byStorageKey.set(storageKey, entry)
+    return entry
+  }
+}
+
+export function toArchiveMediaEntries(entries: CollectedArchiveMedia[]): ArchiveMediaEntry[] {
+  return entries.map((entry) => ({
+    ref: entry.ref,
+    path: entry.path,
+    mimeType: entry.mimeType,
+    sizeBytes: entry.sizeBytes,
+    sha256: entry.sha256,
+  }))
+}
+
+/**
+ * 将清单与媒体文件写入 zip 流；媒体逐个读取，避免同时打开大量存储连接
+ */
+export function createArchiveZipStream(
+  manifest: unknown,
+  media: CollectedArchiveMedia[],
+): ReadableStream<Uint8Array> {
+  const archive = archiver('zip', { zlib: { level: 6 } })
+
+  async function writeEntries() {
+    archive.append(JSON.stringify(manifest, null, 2), { name: PROJECT_ARCHIVE_MANIFEST_PATH })
+    for (const entry of media) {
+      try {
+        const object = await getObjectStream(entry.storageKey)
+        const written = new Promise<void>((resolve, reject) => {
+          object.body.once('end', resolve)
+          object.body.once('error', reject)
+        })
+        archive.append(object.body, { name: entry.path })
+        await written
+      } catch (error: unknown) {
+        logger.error({
+          action: 'project.archive.media_failed',
+          message: error instanceof Error ? error.message : 'failed to read media',
+          details: { storageKey: entry.storageKey, path: entry.path },
+        })
+        archive.abort()
+        throw error
+      }
+    }
+    await archive.finalize()
+  }
+
+  return new ReadableStream({
+    start(controller) {
+      archive.on('data', (chunk: Buffer) => controller.enqueue(new Uint8Array(chunk)))
+      archive.on('end', () => controller.close())
+      archive.on('error', (error) => controller.error(error))
+      void writeEntries().catch((error: unknown) => controller.error(error))
+    },
+  })
+}
+
+/**
+ * 流式解压单个条目，超过 maxBytes 立即中止，避免压缩炸弹撑爆内存
+ */
+async function readZipEntry(file: JSZip.JSZipObject, maxBytes: number): Promise<Buffer> {
+  const stream = file.nodeStream('nodebuffer')
+  const chunks: Buffer[] = []
+  let size = 0
+  return await new Promise<Buffer>((resolve, reject) => {
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBytes) {
+        stream.pause()
+        stream.removeAllListeners('data')
+        reject(new ProjectArchiveError('ARCHIVE_TOO_LARGE', `${file.name} exceeds ${maxBytes} bytes`, file.name))
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.once('error', reject)
+    stream.once('end', () => resolve(Buffer.concat(chunks)))
+  })
+}
+
+/**
+ * 读取 zip 并按给定校验函数解析 manifest.json
+ */
+export async function readArchiveManifest<T>(
+  archive: Buffer,
+  validate: (raw: unknown) => T,
+): Promise<{ zip: JSZip; manifest: T }> {
+  if (archive.length > ARCHIVE_MAX_BYTES) {
+    throw new ProjectArchiveError('ARCHIVE_TOO_LARGE', `archive exceeds ${ARCHIVE_MAX_BYTES} bytes`)
+  }
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(archive)
+  } catch {
+    throw new ProjectArchiveError('ARCHIVE_UNREADABLE', 'archive is not a valid zip file')
+  }
+  if (Object.keys(zip.files).length > ARCHIVE_MAX_ENTRIES) {
+    throw new ProjectArchiveError('ARCHIVE_TOO_LARGE', `archive contains more than ${ARCHIVE_MAX_ENTRIES} entries`)
+  }
+
+  const file = zip.file(PROJECT_ARCHIVE_MANIFEST_PATH)
+  if (!file) {
+    throw new ProjectArchiveError('ARCHIVE_MANIFEST_MISSING', `${PROJECT_ARCHIVE_MANIFEST_PATH} not found in archive`)
+  }
+  const content = await readZipEntry(file, ARCHIVE_MAX_ENTRY_BYTES)
+  let raw: unknown
+  try {
+    raw = JSON.parse(content.toString('utf8'))
+  } catch {
+    throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', `${PROJECT_ARCHIVE_MANIFEST_PATH} is not valid JSON`)
+  }
+  return { zip, manifest: validate(raw) }
+}
+
+/**
+ * 上传归档中的媒体文件并建立 MediaObject，返回 ref → 新存储对象
+ */
+export async function importArchiveMedia(
+  zip: JSZip,
+  entries: ArchiveMediaEntry[],
+  ownerUserId: string,
+): Promise<Map<string, ImportedArchiveMedia>> {
+  if (entries.length > ARCHIVE_MAX_ENTRIES) {
+    throw new ProjectArchiveError('ARCHIVE_TOO_LARGE', `archive lists more than ${ARCHIVE_MAX_ENTRIES} media files`)
+  }
+  const media = new Map<string, ImportedArchiveMedia>()
+  let totalBytes = 0
+  for (const entry of entries) {
+    const file = zip.file(entry.path)
+    if (!file) {
+      throw new ProjectArchiveError('ARCHIVE_MEDIA_MISSING', `media file ${entry.path} not found in archive`, entry.path)
+    }
+    const body = await readZipEntry(file, Math.min(ARCHIVE_MAX_ENTRY_BYTES, ARCHIVE_MAX_TOTAL_BYTES - totalBytes))
+    totalBytes += body.length
+    const ext = path.extname(entry.path).replace(/^\./, '') || 'bin'
+    const storageKey = await uploadDedupedObject(
+      body,
+      generateUniqueKey(`import-${entry.ref}`, ext),
+      ownerUserId,
+      entry.mimeType || undefined,
+    )
+    const ref = await ensureMediaObjectFromStorageKey(storageKey, {
+      mimeType: entry.mimeType,
+      sizeBytes: body.length,
+    })
+    media.set(entry.ref, { storageKey, mediaId: ref.id, url: ref.url })
+  }
+  return media
+}
+
+export function resolveArchiveMediaToken(
+  value: string,
+  media: Map<string, ImportedArchiveMedia>,
+): ImportedArchiveMedia | null {
+  if (!value.startsWith(ARCHIVE_MEDIA_TOKEN_PREFIX)) return null
+  return media.get(value.slice(ARCHIVE_MEDIA_TOKEN_PREFIX.length)) ?? null
+}
+
+/**
+ * 媒体值只能是本归档的占位符，拒绝直接引用存储键，避免导入后指向他人的存储对象
+ */
+function requireArchiveMediaToken(
+  value: string,
+  media: Map<string, ImportedArchiveMedia>,
+  field: string,
+): ImportedArchiveMedia {
+  const imported = resolveArchiveMediaToken(value, media)
+  if (!imported) {
+    throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', `${field} must reference a media file in the archive`, field)
+  }
+  return imported
+}
+
+export interface RestoreArchiveRecordOptions {
+  // 剪辑工程等 JSON 中的媒体地址需可直接播放，并按映射替换其中引用的旧 ID
+  remapJsonId?: (value: string) => string | undefined
+}
+
+function restoreJsonValue(
+  value: unknown,
+  media: Map<string, ImportedArchiveMedia>,
+  options: RestoreArchiveRecordOptions,
+  field: string,
+): unknown {
+  if (typeof value === 'string') {
+    if (value.startsWith(ARCHIVE_MEDIA_TOKEN_PREFIX) || isInternalMediaValue(value)) {
+      const imported = requireArchiveMediaToken(value, media, field)
+      return options.remapJsonId ? imported.url : imported.storageKey
+    }
+    return options.remapJsonId?.(value) ?? value
+  }
+  if (Array.isArray(value)) return value.map((item) => restoreJsonValue(item, media, options, field))
+  if (value && typeof value === 'object') {
+    const output: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      output[key] = restoreJsonValue(item, media, options, field)
+    }
+    return output
+  }
+  return value
+}
+
+function restoreJsonText(
+  raw: string,
+  media: Map<string, ImportedArchiveMedia>,
+  options: RestoreArchiveRecordOptions,
+  field: string,
+): string {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return restoreJsonValue(raw, media, {}, field) as string
+  }
+  return JSON.stringify(restoreJsonValue(parsed, media, options, field))
+}
+
+/**
+ * 按模型白名单还原一条记录，媒体占位符替换为新的 storageKey 并回填媒体外键
+ */
+export function restoreArchiveRecord(
+  spec: ArchiveModelSpec,
+  record: ArchiveRecord,
+  media: Map<string, ImportedArchiveMedia>,
+  options: RestoreArchiveRecordOptions = {},
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {}
+
+  for (const field of spec.fields) {
+    if (record[field] !== undefined) data[field] = record[field]
+  }
+  for (const field of spec.mediaFields) {
+    const value = record[field]
+    if (typeof value !== 'string' || !value) continue
+    const imported = requireArchiveMediaToken(value, media, field)
+    data[field] = imported.storageKey
+    const mediaIdColumn = spec.mediaIdColumns[field]
+    if (mediaIdColumn) data[mediaIdColumn] = imported.mediaId
+  }
+  for (const field of spec.mediaJsonFields) {
+    const value = record[field]
+    if (typeof value === 'string' && value) {
+      data[field] = restoreJsonText(value, media, options, field)
+    }
+  }
+  return data
+}
@@ -0,0 +1,261 @@
+import { ProjectArchiveError } from './errors'
+import {
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_SCHEMA_VERSION,
+  type ProjectArchiveManifest,
+} from './types'
+
+/**
+ * 每个模型在归档中保留的字段
+ * - fields: 原样复制
+ * - mediaFields: 单个媒体值，导出时替换为归档媒体占位符
+ * - mediaJsonFields: JSON 文本，内部的媒体值逐个替换
+ * - mediaIdColumns: 导入时根据媒体字段回填的 MediaObject 外键列
+ * 外键与引用其它记录的 ID 字段由导入逻辑单独重映射，不在此列出
+ */
+export interface ArchiveModelSpec {
+  fields: readonly string[]
+  mediaFields: readonly string[]
+  mediaJsonFields: readonly string[]
+  mediaIdColumns: Readonly<Record<string, string>>
+}
+
+export const ARCHIVE_MODEL_SPECS = {
+  novelPromotion: {
+    fields: [
+      'analysisModel', 'imageModel', 'videoModel', 'audioModel', 'videoRatio', 'ttsRate',
+      'globalAssetText', 'artStyle', 'artStylePrompt', 'characterModel', 'locationModel',
+      'storyboardModel', 'editModel', 'videoResolution', 'capabilityOverrides', 'workflowMode',
+      'imageResolution',
+    ],
+    mediaFields: [],
+    mediaJsonFields: [],
+    mediaIdColumns: {},
+  },
+  character: {
+    fields: ['name', 'aliases', 'voiceId', 'voiceType', 'profileData', 'profileConfirmed', 'introduction'],
+    mediaFields: ['customVoiceUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { customVoiceUrl: 'customVoiceMediaId' },
+  },
+  appearance: {
+    fields: [
+      'appearanceIndex', 'changeReason', 'description', 'descriptions', 'selectedIndex',
+      'previousDescription', 'previousDescriptions', 'imageSeeds',
+    ],
+    mediaFields: ['imageUrl', 'previousImageUrl'],
+    mediaJsonFields: ['imageUrls', 'previousImageUrls'],
+    mediaIdColumns: { imageUrl: 'imageMediaId' },
+  },
+  location: {
+    fields: ['name', 'summary', 'assetKind'],
+    mediaFields: [],
+    mediaJsonFields: [],
+    mediaIdColumns: {},
+  },
+  locationImage: {
+    fields: ['imageIndex', 'description', 'availableSlots', 'isSelected', 'previousDescription', 'imageSeed'],
+    mediaFields: ['imageUrl', 'previousImageUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { imageUrl: 'imageMediaId' },
+  },
+  episode: {
+    fields: ['episodeNumber', 'name', 'description', 'novelText', 'srtContent'],
+    mediaFields: ['audioUrl'],
+    mediaJsonFields: ['speakerVoices'],
+    mediaIdColumns: { audioUrl: 'audioMediaId' },
+  },
+  clip: {
+    fields: [
+      'start', 'end', 'duration', 'summary', 'location', 'content', 'characters', 'props',
+      'endText', 'shotCount', 'startText', 'screenplay',
+    ],
+    mediaFields: [],
+    mediaJsonFields: [],
+    mediaIdColumns: {},
+  },
+  storyboard: {
+    fields: ['panelCount', 'storyboardTextJson', 'lastError', 'photographyPlan'],
+    mediaFields: ['storyboardImageUrl'],
+    mediaJsonFields: ['imageHistory', 'candidateImages'],
+    mediaIdColumns: {},
+  },
+  panel: {
+    fields: [
+      'panelIndex', 'panelNumber', 'shotType', 'cameraMove', 'description', 'location', 'characters',
+      'props', 'srtSegment', 'srtStart', 'srtEnd', 'duration', 'imagePrompt', 'videoPrompt',
+      'firstLastFramePrompt', 'videoGenerationMode', 'sceneType', 'linkedToNextPanel',
+      'photographyRules', 'actingNotes', 'imageSeed', 'candidateSeeds',
+    ],
+    mediaFields: ['imageUrl', 'videoUrl', 'lipSyncVideoUrl', 'sketchImageUrl', 'previousImageUrl'],
+    mediaJsonFields: ['imageHistory', 'candidateImages'],
+    mediaIdColumns: {
+      imageUrl: 'imageMediaId',
+      videoUrl: 'videoMediaId',
+      lipSyncVideoUrl: 'lipSyncVideoMediaId',
+      sketchImageUrl: 'sketchImageMediaId',
+      previousImageUrl: 'previousImageMediaId',
+    },
+  },
+  supplementaryPanel: {
+    fields: ['sourceType', 'description', 'imagePrompt', 'characters', 'location'],
+    mediaFields: ['imageUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { imageUrl: 'imageMediaId' },
+  },
+  shot: {
+    fields: [
+      'shotId', 'srtStart', 'srtEnd', 'srtDuration', 'sequence', 'locations', 'characters', 'plot',
+      'imagePrompt', 'scale', 'module', 'focus', 'zhSummarize', 'pov',
+    ],
+    mediaFields: ['imageUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { imageUrl: 'imageMediaId' },
+  },
+  voiceLine: {
+    fields: [
+      'lineIndex', 'speaker', 'content', 'voicePresetId', 'emotionPrompt', 'emotionStrength',
+      'matchedPanelIndex', 'audioDuration',
+    ],
+    mediaFields: ['audioUrl'],
+    mediaJsonFields: [],
+    mediaIdColumns: { audioUrl: 'audioMediaId' },
+  },
+  editorProject: {
+    fields: [],
+    mediaFields: ['outputUrl'],
+    mediaJsonFields: ['projectData'],
+    mediaIdColumns: { outputUrl: 'outputMediaId' },
+  },
+} as const satisfies Record<string, ArchiveModelSpec>
+
+export type ArchiveModelName = keyof typeof ARCHIVE_MODEL_SPECS
+
+function fail(message: string, path: string): never {
+  throw new ProjectArchiveError('ARCHIVE_MANIFEST_INVALID', `${path}: ${message}`, path)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+export function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isPlainObject(value)) fail('must be an object', path)
+  return value
+}
+
+export function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail('must be an array', path)
+  return value
+}
+
+export function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value) fail('must be a non-empty string', path)
+  return value
+}
+
+export function expectRecords(value: unknown, path: string, children: Record<string, 'array' | 'nullable-object'> = {}) {
+  expectArray(value, path).forEach((item, index) => {
+    const itemPath = `${path}[${index}]`
+    const record = expectObject(item, itemPath)
+    expectString(record.id, `${itemPath}.id`)
+    for (const [key, kind] of Object.entries(children)) {
+      if (kind === 'array') {
+        expectArray(record[key], `${itemPath}.${key}`)
+      } else if (record[key] !== null && record[key] !== undefined) {
+        expectString(expectObject(record[key], `${itemPath}.${key}`).id, `${itemPath}.${key}.id`)
+      }
+    }
+  })
+}
+
+/**
+ * 校验格式标识与版本号
+ * 版本号高于当前支持版本时提示升级，低于当前版本时提示无法迁移
+ */
+export function validateArchiveHeader(
+  manifest: Record<string, unknown>,
+  expected: { format: string; schemaVersion: number; label: string },
+) {
+  if (manifest.format !== expected.format) {
+    throw new ProjectArchiveError(
+      'ARCHIVE_FORMAT_MISMATCH',
+      `not a ${expected.label} (expected format "${expected.format}")`,
+      'manifest.format',
+    )
+  }
+
+  const version = manifest.schemaVersion
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    fail('must be a positive integer', 'manifest.schemaVersion')
+  }
+  if (version !== expected.schemaVersion) {
+    throw new ProjectArchiveError(
+      'ARCHIVE_VERSION_UNSUPPORTED',
+      version > expected.schemaVersion
+        ? `archive schema version ${version} is newer than supported version ${expected.schemaVersion}, please upgrade this instance`
+        : `archive schema version ${version} is no longer supported (current: ${expected.schemaVersion})`,
+      'manifest.schemaVersion',
+    )
+  }
+}
+
+export function validateArchiveMediaEntries(value: unknown) {
+  expectArray(value, 'manifest.media').forEach((item, index) => {
+    const path = `manifest.media[${index}]`
+    const entry = expectObject(item, path)
+    expectString(entry.ref, `${path}.ref`)
+    const mediaPath = expectString(entry.path, `${path}.path`)
+    if (mediaPath.includes('..') || mediaPath.startsWith('/')) fail('must be a relative path inside the archive', `${path}.path`)
+  })
+}
+
+/**
+ * 校验项目归档清单：格式标识、版本号与结构
+ */
+export function validateProjectArchiveManifest(raw: unknown): ProjectArchiveManifest {
+  const manifest = expectObject(raw, 'manifest')
+
+  validateArchiveHeader(manifest, {
+    format: PROJECT_ARCHIVE_FORMAT,
+    schemaVersion: PROJECT_ARCHIVE_SCHEMA_VERSION,
+    label: 'project archive',
+  })
+
+  const project = expectObject(manifest.project, 'manifest.project')
+  expectString(project.name, 'manifest.project.name')
+  expectObject(manifest.novelPromotion, 'manifest.novelPromotion')
+
+  expectRecords(manifest.characters, 'manifest.characters', { appearances: 'array' })
+  expectRecords(manifest.locations, 'manifest.locations', { images: 'array' })
+  expectRecords(manifest.episodes, 'manifest.episodes', {
+    clips: 'array',
+    storyboards: 'array',
+    shots: 'array',
+    voiceLines: 'array',
+    editorProject: 'nullable-object',
+  })
+
+  const episodes = manifest.episodes as Array<Record<string, unknown>>
+  episodes.forEach((episode, index) => {
+    const path = `manifest.episodes[${index}]`
+    expectRecords(episode.clips, `${path}.clips`)
+    expectRecords(episode.storyboards, `${path}.storyboards`, { panels: 'array', supplementaryPanels: 'array' })
+    expectRecords(episode.shots, `${path}.shots`)
+    expectRecords(episode.voiceLines, `${path}.voiceLines`)
+    ;(episode.storyboards as Array<Record<string, unknown>>).forEach((storyboard, storyboardIndex) => {
+      expectRecords(storyboard.panels, `${path}.storyboards[${storyboardIndex}].panels`)
+      expectRecords(storyboard.supplementaryPanels, `${path}.storyboards[${storyboardIndex}].supplementaryPanels`)
+    })
+  })
+  ;(manifest.characters as Array<Record<string, unknown>>).forEach((character, index) => {
+    expectRecords(character.appearances, `manifest.characters[${index}].appearances`)
+  })
+  ;(manifest.locations as Array<Record<string, unknown>>).forEach((location, index) => {
+    expectRecords(location.images, `manifest.locations[${index}].images`)
+  })
+
+  validateArchiveMediaEntries(manifest.media)
+
+  return manifest as unknown as ProjectArchiveManifest
+}
@@ -0,0 +1,70 @@
+export const PROJECT_ARCHIVE_FORMAT = 'waoowaoo.project-archive'
+export const PROJECT_ARCHIVE_SCHEMA_VERSION = 1
+export const PROJECT_ARCHIVE_MANIFEST_PATH = 'manifest.json'
+export const PROJECT_ARCHIVE_MEDIA_DIR = 'media'
+// 清单中媒体字段的占位前缀：archive-media://<ref>
+export const ARCHIVE_MEDIA_TOKEN_PREFIX = 'archive-media://'
+// 导入上限：归档整体在内存中解析，条目逐个解压，需同时限制压缩包、条目数与解压后体积
+export const ARCHIVE_MAX_BYTES = 512 * 1024 * 1024
+export const ARCHIVE_MAX_ENTRIES = 5_000
+export const ARCHIVE_MAX_ENTRY_BYTES = 200 * 1024 * 1024
+export const ARCHIVE_MAX_TOTAL_BYTES = 2 * 1024 * 1024 * 1024
+
+/**
+ * 归档中的一条记录：保留原 ID 用于导入时重映射，其余为白名单字段
+ */
+export type ArchiveRecord = { id: string } & Record<string, unknown>
+
+export interface ArchiveMediaEntry {
+  ref: string
+  path: string
+  mimeType: string | null
+  sizeBytes: number
+  sha256: string | null
+}
+
+export interface ArchiveCharacter extends ArchiveRecord {
+  appearances: ArchiveRecord[]
+}
+
+export interface ArchiveLocation extends ArchiveRecord {
+  images: ArchiveRecord[]
+}
+
+export interface ArchiveStoryboard extends ArchiveRecord {
+  panels: ArchiveRecord[]
+  supplementaryPanels: ArchiveRecord[]
+}
+
+export interface ArchiveEpisode extends ArchiveRecord {
+  clips: ArchiveRecord[]
+  storyboards: ArchiveStoryboard[]
+  shots: ArchiveRecord[]
+  voiceLines: ArchiveRecord[]
+  editorProject: ArchiveRecord | null
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT
+  schemaVersion: number
+  appVersion: string
+  exportedAt: string
+  project: {
+    name: string
+    description: string | null
+  }
+  novelPromotion: Record<string, unknown>
+  characters: ArchiveCharacter[]
+  locations: ArchiveLocation[]
+  episodes: ArchiveEpisode[]
+  media: ArchiveMediaEntry[]
+  // 导出时无法读取的媒体 (对应字段已置空)
+  missingMedia: string[]
+}
+
+export interface ProjectArchiveImportResult {
+  projectId: string
+  name: string
+  episodeCount: number
+  mediaCount: number
+}
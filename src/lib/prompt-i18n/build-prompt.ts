@@ -6,7 +6,7 @@ import type { BuildPromptInput } from './types'
 const SINGLE_PLACEHOLDER_PATTERN = /\{([A-Za-z0-9_]+)\}/g
 const DOUBLE_PLACEHOLDER_PATTERN = /\{\{([A-Za-z0-9_]+)\}\}/g
 
-function extractPlaceholders(template: string): string[] {
+export function extractPromptPlaceholders(template: string): string[] {
   const keys = new Set<string>()
 
   for (const match of template.matchAll(SINGLE_PLACEHOLDER_PATTERN)) {
@@ -44,7 +44,7 @@ export function buildPrompt(input: BuildPromptInput): string {
 
   const template = getPromptTemplate(promptId, locale)
 
-  const templatePlaceholders = extractPlaceholders(template)
+  const templatePlaceholders = extractPromptPlaceholders(template)
   const defined = new Set(entry.variableKeys)
 
   for (const key of templatePlaceholders) {
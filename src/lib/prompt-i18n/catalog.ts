@@ -105,6 +105,10 @@ export const PROMPT_CATALOG: Record<PromptId, PromptCatalogEntry> = {
     pathStem: 'novel-promotion/episode_split',
     variableKeys: ['CONTENT'],
   },
+  [PROMPT_IDS.NP_IMAGE_INPAINT_CROP_EDIT]: {
+    pathStem: 'novel-promotion/image_inpaint_crop_edit',
+    variableKeys: ['user_input'],
+  },
   [PROMPT_IDS.NP_IMAGE_PROMPT_MODIFY]: {
     pathStem: 'novel-promotion/image_prompt_modify',
     variableKeys: ['prompt_input', 'user_input', 'video_prompt_input'],
@@ -1,7 +1,13 @@
 export { PROMPT_IDS, type PromptId } from './prompt-ids'
-export { buildPrompt } from './build-prompt'
+export { buildPrompt, extractPromptPlaceholders } from './build-prompt'
 export { PROMPT_CATALOG } from './catalog'
-export { getPromptTemplate } from './template-store'
+export { getDefaultPromptTemplate, getPromptTemplate, getPromptTemplateVersion } from './template-store'
+export {
+  buildPromptTemplateOverrideKey,
+  getPromptTemplateOverrides,
+  withPromptTemplateOverrides,
+  type PromptTemplateOverrideMap,
+} from './override-context'
 export { PromptI18nError, type PromptI18nErrorCode } from './errors'
 export type {
   BuildPromptInput,
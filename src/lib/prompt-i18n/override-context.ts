@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { PromptId } from './prompt-ids'
+import type { PromptLocale } from './types'
+
+/**
+ * 当前任务生效的模板覆盖，key = `${promptId}:${locale}`
+ */
+export type PromptTemplateOverrideMap = ReadonlyMap<string, string>
+
+const promptTemplateOverrideStore = new AsyncLocalStorage<PromptTemplateOverrideMap | null>()
+
+export function buildPromptTemplateOverrideKey(promptId: PromptId, locale: PromptLocale) {
+  return `${promptId}:${locale}`
+}
+
+export async function withPromptTemplateOverrides<T>(
+  overrides: PromptTemplateOverrideMap | null,
+  fn: () => Promise<T>,
+) {
+  return await promptTemplateOverrideStore.run(overrides, fn)
+}
+
+export function getPromptTemplateOverrides(): PromptTemplateOverrideMap | null {
+  return promptTemplateOverrideStore.getStore() || null
+}
+
+export function getPromptTemplateOverride(promptId: PromptId, locale: PromptLocale): string | null {
+  const overrides = promptTemplateOverrideStore.getStore()
+  if (!overrides) return null
+  return overrides.get(buildPromptTemplateOverrideKey(promptId, locale)) ?? null
+}
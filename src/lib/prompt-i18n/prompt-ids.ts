@@ -17,6 +17,7 @@ export const PROMPT_IDS = {
   NP_CHARACTER_MODIFY: 'np_character_modify',
   NP_CHARACTER_REGENERATE: 'np_character_regenerate',
   NP_EPISODE_SPLIT: 'np_episode_split',
+  NP_IMAGE_INPAINT_CROP_EDIT: 'np_image_inpaint_crop_edit',
   NP_IMAGE_PROMPT_MODIFY: 'np_image_prompt_modify',
   NP_LOCATION_CREATE: 'np_location_create',
   NP_LOCATION_DESCRIPTION_UPDATE: 'np_location_description_update',
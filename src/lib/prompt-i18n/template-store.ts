@@ -1,9 +1,11 @@
+import { createHash } from 'crypto'
 import fs from 'fs'
 import path from 'path'
 import { PROMPT_CATALOG } from './catalog'
 import type { PromptId } from './prompt-ids'
 import type { PromptLocale } from './types'
 import { PromptI18nError } from './errors'
+import { getPromptTemplateOverride } from './override-context'
 
 const templateCache = new Map<string, string>()
 
@@ -11,7 +13,10 @@ function buildCacheKey(promptId: PromptId, locale: PromptLocale) {
   return `${promptId}:${locale}`
 }
 
-export function getPromptTemplate(promptId: PromptId, locale: PromptLocale): string {
+/**
+ * 内置模板（lib/prompts 下的文件），不受用户覆盖影响
+ */
+export function getDefaultPromptTemplate(promptId: PromptId, locale: PromptLocale): string {
   const entry = PROMPT_CATALOG[promptId]
   if (!entry) {
     throw new PromptI18nError(
@@ -41,3 +46,25 @@ export function getPromptTemplate(promptId: PromptId, locale: PromptLocale): str
   templateCache.set(cacheKey, template)
   return template
 }
+
+/**
+ * 生效模板：当前任务上下文中有用户覆盖时优先使用覆盖（不进缓存），否则为内置模板
+ */
+export function getPromptTemplate(promptId: PromptId, locale: PromptLocale): string {
+  const override = getPromptTemplateOverride(promptId, locale)
+  if (override !== null && PROMPT_CATALOG[promptId]) return override
+  return getDefaultPromptTemplate(promptId, locale)
+}
+
+/**
+ * 模板内容指纹：任一模板文件或生效的覆盖变化都会得到新版本，用于让 LLM 响应缓存失效
+ */
+export function getPromptTemplateVersion(promptIds: readonly PromptId[], locale: PromptLocale): string {
+  const hash = createHash('sha256')
+  for (const promptId of promptIds) {
+    hash.update(`${promptId}:${locale}\n`)
+    hash.update(getPromptTemplate(promptId, locale))
+    hash.update('\n')
+  }
+  return hash.digest('hex').slice(0, 16)
+}
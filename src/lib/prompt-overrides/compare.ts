@@ -0,0 +1,27 @@
+import { PROMPT_IDS, type PromptId } from '@/lib/prompt-i18n/prompt-ids'
+import type { PromptOverrideScope } from './types'
+
+/**
+ * 支持「同一片段默认 / 覆盖各跑一次」对比的模板（分镜四个阶段）
+ */
+export const PROMPT_COMPARE_PROMPT_IDS = [
+  PROMPT_IDS.NP_AGENT_STORYBOARD_PLAN,
+  PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+  PROMPT_IDS.NP_AGENT_ACTING_DIRECTION,
+  PROMPT_IDS.NP_AGENT_STORYBOARD_DETAIL,
+] as const satisfies readonly PromptId[]
+
+export type PromptComparePromptId = (typeof PROMPT_COMPARE_PROMPT_IDS)[number]
+
+export function isPromptComparePromptId(value: unknown): value is PromptComparePromptId {
+  return typeof value === 'string' && (PROMPT_COMPARE_PROMPT_IDS as readonly string[]).includes(value)
+}
+
+export type PromptCompareResult = {
+  clipId: string
+  promptId: PromptComparePromptId
+  scope: PromptOverrideScope
+  version: number
+  default: unknown[]
+  override: unknown[]
+}
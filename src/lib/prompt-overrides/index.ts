@@ -0,0 +1,26 @@
+export * from './types'
+export {
+  PROMPT_COMPARE_PROMPT_IDS,
+  isPromptComparePromptId,
+  type PromptComparePromptId,
+  type PromptCompareResult,
+} from './compare'
+export {
+  loadActivePromptTemplateOverrides,
+  resolvePromptCompareCandidate,
+  withActivePromptTemplateOverrides,
+} from './runtime'
+export {
+  deletePromptTemplateOverride,
+  getPromptTemplateDetail,
+  isPromptId,
+  listPromptTemplates,
+  parsePromptId,
+  parsePromptLocale,
+  resolvePromptOverrideScope,
+  resolvePromptOverrideTarget,
+  savePromptTemplateVersion,
+  setActivePromptTemplateVersion,
+  toPromptOverrideScopeKey,
+  validatePromptTemplateContent,
+} from './service'
@@ -0,0 +1,100 @@
+import { VIRTUAL_PROJECT_IDS } from '@/lib/billing/reporting'
+import { prisma } from '@/lib/prisma'
+import {
+  buildPromptTemplateOverrideKey,
+  PROMPT_CATALOG,
+  withPromptTemplateOverrides,
+  type PromptId,
+  type PromptLocale,
+} from '@/lib/prompt-i18n'
+import type { PromptOverrideScope } from './types'
+
+/**
+ * 读取用户当前启用的全部覆盖；同一模板项目级优先于用户级
+ */
+export async function loadActivePromptTemplateOverrides(params: {
+  userId: string
+  projectId?: string | null
+}): Promise<Map<string, string>> {
+  const projectScopeKey = params.projectId && !VIRTUAL_PROJECT_IDS.has(params.projectId)
+    ? `project:${params.projectId}`
+    : null
+  const overrides = await prisma.promptTemplateOverride.findMany({
+    where: {
+      userId: params.userId,
+      scopeKey: { in: projectScopeKey ? ['user', projectScopeKey] : ['user'] },
+      activeVersion: { not: null },
+    },
+    select: { id: true, scopeKey: true, promptId: true, locale: true, activeVersion: true },
+  })
+
+  const result = new Map<string, string>()
+  if (overrides.length === 0) return result
+
+  const versions = await prisma.promptTemplateVersion.findMany({
+    where: {
+      OR: overrides.map((item) => ({ overrideId: item.id, version: item.activeVersion as number })),
+    },
+    select: { overrideId: true, content: true },
+  })
+  const contentByOverrideId = new Map(versions.map((item) => [item.overrideId, item.content]))
+
+  // 用户级先写入，项目级后写入覆盖同 key
+  const ordered = [...overrides].sort((a, b) => Number(a.scopeKey !== 'user') - Number(b.scopeKey !== 'user'))
+  for (const override of ordered) {
+    if (!Object.prototype.hasOwnProperty.call(PROMPT_CATALOG, override.promptId)) continue
+    const content = contentByOverrideId.get(override.id)
+    if (content === undefined) continue
+    result.set(
+      buildPromptTemplateOverrideKey(override.promptId as PromptId, override.locale as PromptLocale),
+      content,
+    )
+  }
+  return result
+}
+
+/**
+ * 以任务所属用户 / 项目的覆盖运行 fn，fn 内的 getPromptTemplate / buildPrompt 均读取覆盖模板
+ */
+export async function withActivePromptTemplateOverrides<T>(
+  params: { userId: string; projectId?: string | null },
+  fn: () => Promise<T>,
+): Promise<T> {
+  const overrides = await loadActivePromptTemplateOverrides(params)
+  return await withPromptTemplateOverrides(overrides.size > 0 ? overrides : null, fn)
+}
+
+/**
+ * 对比运行使用的覆盖版本：未指定 scope 时取生效的覆盖（项目级优先），未指定版本时取启用版本
+ */
+export async function resolvePromptCompareCandidate(params: {
+  userId: string
+  projectId: string
+  promptId: PromptId
+  locale: PromptLocale
+  scope?: PromptOverrideScope | null
+  version?: number | null
+}): Promise<{ scope: PromptOverrideScope; version: number; content: string } | null> {
+  const scopes: PromptOverrideScope[] = params.scope ? [params.scope] : ['project', 'user']
+  for (const scope of scopes) {
+    const override = await prisma.promptTemplateOverride.findUnique({
+      where: {
+        userId_scopeKey_promptId_locale: {
+          userId: params.userId,
+          scopeKey: scope === 'user' ? 'user' : `project:${params.projectId}`,
+          promptId: params.promptId,
+          locale: params.locale,
+        },
+      },
+      select: { id: true, activeVersion: true },
+    })
+    const version = params.version ?? override?.activeVersion ?? null
+    if (!override || version === null) continue
+    const record = await prisma.promptTemplateVersion.findUnique({
+      where: { overrideId_version: { overrideId: override.id, version } },
+      select: { content: true },
+    })
+    if (record) return { scope, version, content: record.content }
+  }
+  return null
+}
@@ -0,0 +1,270 @@
+import { Prisma, type PromptTemplateOverride, type PromptTemplateVersion } from '@prisma/client'
+import { ApiError } from '@/lib/api-errors'
+import { locales } from '@/i18n/routing'
+import { prisma } from '@/lib/prisma'
+import {
+  extractPromptPlaceholders,
+  getDefaultPromptTemplate,
+  PROMPT_CATALOG,
+  type PromptId,
+  type PromptLocale,
+} from '@/lib/prompt-i18n'
+import type {
+  PromptOverrideScope,
+  PromptOverrideTarget,
+  PromptTemplateDetail,
+  PromptTemplateListItem,
+  PromptTemplateValidation,
+  PromptTemplateVersionSummary,
+} from './types'
+
+const MAX_PROMPT_TEMPLATE_LENGTH = 60000
+const MAX_PROMPT_VERSION_NOTE_LENGTH = 200
+const MAX_PROMPT_VERSION_SAVE_ATTEMPTS = 3
+
+function invalid(code: string, field: string, extra: Record<string, unknown> = {}): never {
+  throw new ApiError('INVALID_PARAMS', { code, field, ...extra })
+}
+
+export function toPromptOverrideScopeKey(scope: PromptOverrideScope, projectId?: string | null): string {
+  return scope === 'user' ? 'user' : `project:${projectId}`
+}
+
+export function isPromptId(value: unknown): value is PromptId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROMPT_CATALOG, value)
+}
+
+export function parsePromptId(value: unknown): PromptId {
+  if (!isPromptId(value)) invalid('PROMPT_OVERRIDE_PROMPT_INVALID', 'promptId')
+  return value
+}
+
+export function parsePromptLocale(value: unknown): PromptLocale {
+  const locale = typeof value === 'string' ? value.trim() : ''
+  if (!(locales as readonly string[]).includes(locale)) invalid('PROMPT_OVERRIDE_LOCALE_INVALID', 'locale')
+  return locale as PromptLocale
+}
+
+/**
+ * 覆盖模板必须只使用 catalog 中声明的变量；未使用的变量允许保存，但会返回给前端提示
+ */
+export function validatePromptTemplateContent(promptId: PromptId, content: unknown): PromptTemplateValidation {
+  if (typeof content !== 'string' || !content.trim()) invalid('PROMPT_OVERRIDE_CONTENT_REQUIRED', 'content')
+  if (content.length > MAX_PROMPT_TEMPLATE_LENGTH) invalid('PROMPT_OVERRIDE_CONTENT_TOO_LONG', 'content')
+
+  const declared = PROMPT_CATALOG[promptId].variableKeys
+  const placeholders = extractPromptPlaceholders(content)
+  const undeclared = placeholders.filter((key) => !declared.includes(key))
+  if (undeclared.length > 0) {
+    invalid('PROMPT_OVERRIDE_PLACEHOLDER_INVALID', 'content', { placeholders: undeclared })
+  }
+  return {
+    missingVariables: declared.filter((key) => !placeholders.includes(key)),
+  }
+}
+
+/**
+ * 解析请求中的覆盖范围：带 projectId 为项目级（校验项目归属），否则为用户级
+ */
+export async function resolvePromptOverrideScope(userId: string, projectId: unknown): Promise<{
+  scope: PromptOverrideScope
+  projectId: string | null
+}> {
+  if (projectId === undefined || projectId === null || projectId === '') return { scope: 'user', projectId: null }
+  if (typeof projectId !== 'string') invalid('PROMPT_OVERRIDE_PROJECT_INVALID', 'projectId')
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { userId: true },
+  })
+  if (!project) throw new ApiError('NOT_FOUND')
+  if (project.userId !== userId) throw new ApiError('FORBIDDEN')
+  return { scope: 'project', projectId }
+}
+
+export async function resolvePromptOverrideTarget(params: {
+  userId: string
+  projectId: unknown
+  promptId: unknown
+  locale: unknown
+}): Promise<PromptOverrideTarget> {
+  const promptId = parsePromptId(params.promptId)
+  const locale = parsePromptLocale(params.locale)
+  const scope = await resolvePromptOverrideScope(params.userId, params.projectId)
+  return { userId: params.userId, promptId, locale, ...scope }
+}
+
+function readVersionNote(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') invalid('PROMPT_OVERRIDE_NOTE_INVALID', 'note')
+  const note = value.trim()
+  if (note.length > MAX_PROMPT_VERSION_NOTE_LENGTH) invalid('PROMPT_OVERRIDE_NOTE_INVALID', 'note')
+  return note || null
+}
+
+function toVersionSummary(version: PromptTemplateVersion): PromptTemplateVersionSummary {
+  return {
+    version: version.version,
+    content: version.content,
+    note: version.note,
+    createdAt: version.createdAt.toISOString(),
+  }
+}
+
+function overrideWhere(target: PromptOverrideTarget) {
+  return {
+    userId_scopeKey_promptId_locale: {
+      userId: target.userId,
+      scopeKey: toPromptOverrideScopeKey(target.scope, target.projectId),
+      promptId: target.promptId,
+      locale: target.locale,
+    },
+  }
+}
+
+async function findOverrideWithVersions(target: PromptOverrideTarget) {
+  return await prisma.promptTemplateOverride.findUnique({
+    where: overrideWhere(target),
+    include: { versions: { orderBy: { version: 'desc' } } },
+  })
+}
+
+function toDetail(
+  target: PromptOverrideTarget,
+  override: (PromptTemplateOverride & { versions: PromptTemplateVersion[] }) | null,
+): PromptTemplateDetail {
+  return {
+    promptId: target.promptId,
+    locale: target.locale,
+    scope: target.scope,
+    projectId: target.projectId,
+    variableKeys: [...PROMPT_CATALOG[target.promptId].variableKeys],
+    defaultContent: getDefaultPromptTemplate(target.promptId, target.locale),
+    activeVersion: override?.activeVersion ?? null,
+    versions: (override?.versions || []).map(toVersionSummary),
+  }
+}
+
+/**
+ * 列出 catalog 中全部模板及当前范围下的覆盖状态
+ */
+export async function listPromptTemplates(params: {
+  userId: string
+  scope: PromptOverrideScope
+  projectId: string | null
+  locale: PromptLocale
+}): Promise<PromptTemplateListItem[]> {
+  const overrides = await prisma.promptTemplateOverride.findMany({
+    where: {
+      userId: params.userId,
+      scopeKey: toPromptOverrideScopeKey(params.scope, params.projectId),
+      locale: params.locale,
+    },
+    include: { _count: { select: { versions: true } } },
+  })
+  const overrideByPromptId = new Map(overrides.map((item) => [item.promptId, item]))
+
+  return (Object.keys(PROMPT_CATALOG) as PromptId[]).sort().map((promptId) => {
+    const override = overrideByPromptId.get(promptId)
+    return {
+      promptId,
+      variableKeys: [...PROMPT_CATALOG[promptId].variableKeys],
+      activeVersion: override?.activeVersion ?? null,
+      versionCount: override?._count.versions ?? 0,
+      updatedAt: override ? override.updatedAt.toISOString() : null,
+    }
+  })
+}
+
+export async function getPromptTemplateDetail(target: PromptOverrideTarget): Promise<PromptTemplateDetail> {
+  return toDetail(target, await findOverrideWithVersions(target))
+}
+
+async function createPromptTemplateVersion(target: PromptOverrideTarget, content: string, note: string | null) {
+  await prisma.$transaction(async (tx) => {
+    const override = await tx.promptTemplateOverride.upsert({
+      where: overrideWhere(target),
+      create: {
+        userId: target.userId,
+        scopeKey: toPromptOverrideScopeKey(target.scope, target.projectId),
+        projectId: target.scope === 'project' ? target.projectId : null,
+        promptId: target.promptId,
+        locale: target.locale,
+      },
+      update: {},
+    })
+    const latest = await tx.promptTemplateVersion.findFirst({
+      where: { overrideId: override.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    })
+    const version = (latest?.version ?? 0) + 1
+    await tx.promptTemplateVersion.create({
+      data: { overrideId: override.id, version, content, note },
+    })
+    await tx.promptTemplateOverride.update({
+      where: { id: override.id },
+      data: { activeVersion: version },
+    })
+  })
+}
+
+/**
+ * 保存为新版本并立即启用
+ */
+export async function savePromptTemplateVersion(
+  target: PromptOverrideTarget,
+  body: { content?: unknown; note?: unknown },
+): Promise<PromptTemplateDetail & PromptTemplateValidation> {
+  const validation = validatePromptTemplateContent(target.promptId, body.content)
+  const content = body.content as string
+  const note = readVersionNote(body.note)
+
+  // 并发保存会分配到同一版本号（overrideId_version 唯一键冲突），重新读取最新版本后重试
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      await createPromptTemplateVersion(target, content, note)
+      break
+    } catch (error) {
+      const retryable = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+      if (!retryable || attempt >= MAX_PROMPT_VERSION_SAVE_ATTEMPTS) throw error
+    }
+  }
+
+  return {
+    ...await getPromptTemplateDetail(target),
+    ...validation,
+  }
+}
+
+/**
+ * 回滚到历史版本；activeVersion 为 null 时停用覆盖，回落到内置模板
+ */
+export async function setActivePromptTemplateVersion(
+  target: PromptOverrideTarget,
+  activeVersion: unknown,
+): Promise<PromptTemplateDetail> {
+  if (activeVersion !== null && (typeof activeVersion !== 'number' || !Number.isInteger(activeVersion))) {
+    invalid('PROMPT_OVERRIDE_VERSION_INVALID', 'activeVersion')
+  }
+  const override = await findOverrideWithVersions(target)
+  if (!override) throw new ApiError('NOT_FOUND')
+  if (activeVersion !== null && !override.versions.some((item) => item.version === activeVersion)) {
+    invalid('PROMPT_OVERRIDE_VERSION_INVALID', 'activeVersion')
+  }
+  await prisma.promptTemplateOverride.update({
+    where: { id: override.id },
+    data: { activeVersion },
+  })
+  return await getPromptTemplateDetail(target)
+}
+
+export async function deletePromptTemplateOverride(target: PromptOverrideTarget) {
+  await prisma.promptTemplateOverride.deleteMany({
+    where: {
+      userId: target.userId,
+      scopeKey: toPromptOverrideScopeKey(target.scope, target.projectId),
+      promptId: target.promptId,
+      locale: target.locale,
+    },
+  })
+}
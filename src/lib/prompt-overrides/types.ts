@@ -0,0 +1,46 @@
+import type { PromptId, PromptLocale } from '@/lib/prompt-i18n'
+
+export type PromptOverrideScope = 'user' | 'project'
+
+/**
+ * 覆盖所属范围：用户级对该用户所有项目生效，项目级只对单个项目生效且优先
+ */
+export interface PromptOverrideTarget {
+  userId: string
+  scope: PromptOverrideScope
+  projectId: string | null
+  promptId: PromptId
+  locale: PromptLocale
+}
+
+export interface PromptTemplateVersionSummary {
+  version: number
+  content: string
+  note: string | null
+  createdAt: string
+}
+
+export interface PromptTemplateListItem {
+  promptId: PromptId
+  variableKeys: string[]
+  activeVersion: number | null
+  versionCount: number
+  updatedAt: string | null
+}
+
+export interface PromptTemplateDetail {
+  promptId: PromptId
+  locale: PromptLocale
+  scope: PromptOverrideScope
+  projectId: string | null
+  variableKeys: string[]
+  defaultContent: string
+  activeVersion: number | null
+  // 新版本在前
+  versions: PromptTemplateVersionSummary[]
+}
+
+export interface PromptTemplateValidation {
+  // 模板中未使用的 catalog 变量（允许保存，仅提示）
+  missingVariables: string[]
+}
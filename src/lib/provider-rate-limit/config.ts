@@ -0,0 +1,49 @@
+/**
+ * Provider / 模型级限流配置
+ *
+ * rpm: 每分钟请求数；tpm: 每分钟 token 数（仅 LLM 按估算 token 扣减）
+ * 可写在能力目录条目（按模型）或用户的 provider 配置（按 provider）上。
+ */
+export type ProviderRateLimit = {
+  rpm?: number
+  tpm?: number
+}
+
+/** 一个限流桶：scope 决定多个用户 / 模型之间如何共享额度 */
+export type ProviderRateLimitRule = ProviderRateLimit & {
+  scope: string
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readLimitField(raw: Record<string, unknown>, field: keyof ProviderRateLimit): number | undefined {
+  const value = raw[field]
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`PROVIDER_RATE_LIMIT_INVALID: ${field} must be a positive integer`)
+  }
+  return value
+}
+
+/**
+ * 解析 rateLimit 配置；未配置返回 undefined，格式不合法时抛出 PROVIDER_RATE_LIMIT_INVALID
+ */
+export function parseProviderRateLimit(raw: unknown): ProviderRateLimit | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (!isRecord(raw)) {
+    throw new Error('PROVIDER_RATE_LIMIT_INVALID: rateLimit must be an object')
+  }
+  const rpm = readLimitField(raw, 'rpm')
+  const tpm = readLimitField(raw, 'tpm')
+  if (rpm === undefined && tpm === undefined) return undefined
+  return {
+    ...(rpm !== undefined ? { rpm } : {}),
+    ...(tpm !== undefined ? { tpm } : {}),
+  }
+}
+
+export function hasProviderRateLimit(limit: ProviderRateLimit | null | undefined): limit is ProviderRateLimit {
+  return !!limit && (!!limit.rpm || !!limit.tpm)
+}
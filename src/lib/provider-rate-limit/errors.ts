@@ -0,0 +1,77 @@
+const MAX_CAUSE_DEPTH = 6
+
+/**
+ * 命中 provider 限流（本地令牌桶耗尽或上游返回 429）
+ * retryAfterMs 为建议的重试等待时间，worker 据此延迟重新入队
+ */
+export class ProviderRateLimitedError extends Error {
+  readonly code = 'RATE_LIMIT'
+  readonly retryable = true
+  readonly provider: string | null
+  readonly retryAfterMs: number | null
+  readonly details: { retryAfterMs: number | null }
+
+  constructor(message: string, options: { provider?: string | null; retryAfterMs?: number | null; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'ProviderRateLimitedError'
+    this.provider = options.provider || null
+    this.retryAfterMs = options.retryAfterMs ?? null
+    this.details = { retryAfterMs: this.retryAfterMs }
+  }
+}
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object') return null
+  return value as Record<string, unknown>
+}
+
+function readHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') return null
+  const getter = (headers as { get?: unknown }).get
+  if (typeof getter === 'function') {
+    const value = getter.call(headers, name)
+    return typeof value === 'string' ? value : null
+  }
+  const record = headers as Record<string, unknown>
+  const value = record[name] ?? record[name.toLowerCase()]
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null
+}
+
+function parseRetryAfterHeader(headers: unknown, now: number): number | null {
+  const retryAfterMs = readHeader(headers, 'retry-after-ms')
+  if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+    return Math.max(0, Math.ceil(Number(retryAfterMs)))
+  }
+  const retryAfter = readHeader(headers, 'retry-after')?.trim()
+  if (!retryAfter) return null
+  // Retry-After 既可以是秒数，也可以是 HTTP 日期
+  if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+    return Math.ceil(Number(retryAfter) * 1000)
+  }
+  const date = Date.parse(retryAfter)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * 从错误（及其 cause 链）或响应头中读取建议的重试等待时间
+ * 优先使用已计算好的 retryAfterMs，其次解析 Retry-After / retry-after-ms 头
+ */
+export function readRetryAfterMs(input: unknown, now = Date.now()): number | null {
+  const fromHeaders = parseRetryAfterHeader(input, now)
+  if (fromHeaders !== null) return fromHeaders
+
+  let current: unknown = input
+  for (let depth = 0; depth < MAX_CAUSE_DEPTH; depth += 1) {
+    const record = toRecord(current)
+    if (!record) return null
+    const value = record.retryAfterMs
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      return Math.ceil(value)
+    }
+    const headerValue = parseRetryAfterHeader(record.headers, now)
+      ?? parseRetryAfterHeader(toRecord(record.response)?.headers, now)
+    if (headerValue !== null) return headerValue
+    current = record.cause
+  }
+  return null
+}
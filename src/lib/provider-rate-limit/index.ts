@@ -0,0 +1,10 @@
+export * from './config'
+export { ProviderRateLimitedError, readRetryAfterMs } from './errors'
+export {
+  acquireProviderRateLimit,
+  estimatePromptTokens,
+  reportProviderRateLimited,
+  withProviderRateLimit,
+  type ProviderRateLimitTarget,
+} from './limiter'
+export { buildProviderRateLimitRules, resolveProviderRateLimitRules } from './resolve'
@@ -0,0 +1,211 @@
+import { createScopedLogger } from '@/lib/logging/core'
+import { normalizeAnyError } from '@/lib/errors/normalize'
+import { redis } from '@/lib/redis'
+import type { ProviderRateLimitRule } from './config'
+import { ProviderRateLimitedError, readRetryAfterMs } from './errors'
+
+/**
+ * Provider 级限流 — 基于 Redis 的令牌桶，所有用户 / worker 进程共享
+ *
+ * 每条规则对应 rpm / tpm 两个桶（hash: tokens, ts），按每分钟额度匀速回填。
+ * 上游返回 429 时写入冷却键，冷却期内所有调用方直接让路；
+ * 等待时间超过 MAX_INLINE_WAIT_MS 时抛出 ProviderRateLimitedError，由 worker 延迟重新入队。
+ */
+
+const MAX_INLINE_WAIT_MS = Number.parseInt(process.env.PROVIDER_RATE_LIMIT_MAX_WAIT_MS || '15000', 10) || 15_000
+const COOLDOWN_BASE_MS = 5_000
+const COOLDOWN_MAX_MS = 5 * 60_000
+const BUCKET_TTL_MS = 2 * 60_000
+
+const logger = createScopedLogger({
+  module: 'provider.rate-limit',
+})
+
+// KEYS[1] 为冷却键，其余为令牌桶；ARGV 依次为 now 及每个桶的 (每分钟额度, 本次消耗)
+// 任一桶不足时不扣减，返回需要等待的毫秒数；全部满足时统一扣减并返回 0
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local cooldown = redis.call('PTTL', KEYS[1])
+if cooldown > 0 then
+  return cooldown
+end
+
+local wait = 0
+local remaining = {}
+for i = 2, #KEYS do
+  local capacity = tonumber(ARGV[i * 2 - 2])
+  local cost = math.min(tonumber(ARGV[i * 2 - 1]), capacity)
+  local rate = capacity / 60000
+  local state = redis.call('HMGET', KEYS[i], 'tokens', 'ts')
+  local tokens = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+  if tokens < cost then
+    wait = math.max(wait, math.ceil((cost - tokens) / rate))
+  end
+  remaining[i] = tokens - cost
+end
+if wait > 0 then
+  return wait
+end
+
+for i = 2, #KEYS do
+  redis.call('HSET', KEYS[i], 'tokens', remaining[i], 'ts', now)
+  redis.call('PEXPIRE', KEYS[i], tonumber(ARGV[#ARGV]))
+end
+return 0
+`
+
+// 连续命中 429 时冷却时间指数增长；上游给出 Retry-After 时以其为准
+const COOLDOWN_SCRIPT = `
+local strikes = redis.call('INCR', KEYS[2])
+local maxMs = tonumber(ARGV[3])
+redis.call('PEXPIRE', KEYS[2], maxMs * 2)
+
+local delay = tonumber(ARGV[1])
+if delay <= 0 then
+  delay = math.min(maxMs, math.floor(tonumber(ARGV[2]) * 2 ^ (strikes - 1)))
+end
+if redis.call('PTTL', KEYS[1]) < delay then
+  redis.call('SET', KEYS[1], '1', 'PX', delay)
+end
+return delay
+`
+
+export type ProviderRateLimitTarget = {
+  provider: string
+  modelId: string
+}
+
+function targetKey(target: ProviderRateLimitTarget) {
+  return `provider-rate:${target.provider}::${target.modelId}`
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms))
+}
+
+function buildBuckets(rules: ProviderRateLimitRule[], tokens: number) {
+  const keys: string[] = []
+  const args: number[] = []
+  for (const rule of rules) {
+    if (rule.rpm) {
+      keys.push(`provider-rate:${rule.scope}:rpm`)
+      args.push(rule.rpm, 1)
+    }
+    if (rule.tpm) {
+      keys.push(`provider-rate:${rule.scope}:tpm`)
+      args.push(rule.tpm, Math.max(1, Math.ceil(tokens)))
+    }
+  }
+  return { keys, args }
+}
+
+/**
+ * 占用一次调用额度；额度不足时短暂等待，预计等待过久则抛出 ProviderRateLimitedError
+ */
+export async function acquireProviderRateLimit(input: ProviderRateLimitTarget & {
+  rules: ProviderRateLimitRule[]
+  tokens?: number
+}): Promise<void> {
+  const { keys, args } = buildBuckets(input.rules, input.tokens ?? 0)
+  if (keys.length === 0) return
+
+  const deadline = Date.now() + MAX_INLINE_WAIT_MS
+  for (;;) {
+    const result = await redis.eval(
+      ACQUIRE_SCRIPT,
+      keys.length + 1,
+      `${targetKey(input)}:cooldown`,
+      ...keys,
+      Date.now(),
+      ...args,
+      BUCKET_TTL_MS,
+    )
+    const waitMs = Number(result)
+    if (!(waitMs > 0)) return
+    if (Date.now() + waitMs > deadline) {
+      throw new ProviderRateLimitedError(`PROVIDER_RATE_LIMITED: ${input.provider}::${input.modelId}`, {
+        provider: input.provider,
+        retryAfterMs: waitMs,
+      })
+    }
+    // 带抖动，避免多个等待者在同一时刻回填后再次争抢
+    await sleep(waitMs + Math.floor(Math.random() * 250))
+  }
+}
+
+/**
+ * 记录上游 429，进入冷却期；返回实际采用的冷却时间
+ */
+export async function reportProviderRateLimited(input: ProviderRateLimitTarget & {
+  retryAfterMs: number | null
+}): Promise<number> {
+  const key = targetKey(input)
+  const result = await redis.eval(
+    COOLDOWN_SCRIPT,
+    2,
+    `${key}:cooldown`,
+    `${key}:strikes`,
+    Math.max(0, Math.min(input.retryAfterMs ?? 0, COOLDOWN_MAX_MS)),
+    COOLDOWN_BASE_MS,
+    COOLDOWN_MAX_MS,
+  )
+  return Number(result)
+}
+
+/**
+ * 按规则限流执行一次 provider 调用；上游限流错误统一转换为带 retryAfterMs 的 ProviderRateLimitedError
+ * 未配置任何规则时不访问 Redis，仅透传上游的 Retry-After
+ */
+export async function withProviderRateLimit<T>(input: ProviderRateLimitTarget & {
+  rules: ProviderRateLimitRule[]
+  tokens?: number
+  run: () => Promise<T>
+}): Promise<T> {
+  const limited = input.rules.length > 0
+  if (limited) {
+    await acquireProviderRateLimit(input)
+  }
+
+  try {
+    return await input.run()
+  } catch (error) {
+    if (normalizeAnyError(error).code !== 'RATE_LIMIT') throw error
+
+    let retryAfterMs = readRetryAfterMs(error)
+    if (limited) {
+      try {
+        retryAfterMs = await reportProviderRateLimited({ ...input, retryAfterMs })
+      } catch (reportError) {
+        logger.warn({
+          action: 'provider.rate_limit.cooldown_failed',
+          message: reportError instanceof Error ? reportError.message : String(reportError),
+          details: { provider: input.provider, modelId: input.modelId },
+        })
+      }
+    }
+    logger.warn({
+      action: 'provider.rate_limit.hit',
+      message: 'provider returned rate limit error',
+      provider: input.provider,
+      details: { modelId: input.modelId, retryAfterMs },
+    })
+    throw new ProviderRateLimitedError(error instanceof Error ? error.message : String(error), {
+      provider: input.provider,
+      retryAfterMs,
+      cause: error,
+    })
+  }
+}
+
+/**
+ * LLM 调用的 token 粗略估算（约 4 字符 / token），用于 tpm 预扣
+ */
+export function estimatePromptTokens(texts: string[]): number {
+  let chars = 0
+  for (const text of texts) {
+    chars += text.length
+  }
+  return Math.ceil(chars / 4)
+}
@@ -0,0 +1,59 @@
+import { getProviderConfig } from '@/lib/api-config'
+import { findBuiltinCapabilityCatalogEntry } from '@/lib/model-capabilities/catalog'
+import { parseModelKeyStrict, type UnifiedModelType } from '@/lib/model-config-contract'
+import { hasProviderRateLimit, type ProviderRateLimit, type ProviderRateLimitRule } from './config'
+import type { ProviderRateLimitTarget } from './limiter'
+
+/**
+ * 汇总一次调用需要遵守的限流规则：
+ * - 能力目录条目上的 rateLimit：对应上游模型的全局额度，所有用户共享同一组桶
+ * - 用户 provider 配置上的 rateLimit：对应该用户自己的 key，按 用户 + provider 计数
+ */
+export function buildProviderRateLimitRules(input: {
+  userId: string
+  modelType: UnifiedModelType
+  provider: string
+  modelId: string
+  providerRateLimit?: ProviderRateLimit | null
+}): ProviderRateLimitRule[] {
+  const rules: ProviderRateLimitRule[] = []
+  const catalogLimit = findBuiltinCapabilityCatalogEntry(input.modelType, input.provider, input.modelId)?.rateLimit
+  if (hasProviderRateLimit(catalogLimit)) {
+    rules.push({ ...catalogLimit, scope: `${input.provider}::${input.modelId}` })
+  }
+  if (hasProviderRateLimit(input.providerRateLimit)) {
+    rules.push({ ...input.providerRateLimit, scope: `${input.userId}:${input.provider}` })
+  }
+  return rules
+}
+
+/**
+ * 按模型键读取用户 provider 配置并汇总限流规则；模型键无法解析时返回 null
+ */
+export async function resolveProviderRateLimitRules(input: {
+  userId: string
+  modelType: UnifiedModelType
+  modelKey: string
+}): Promise<(ProviderRateLimitTarget & { rules: ProviderRateLimitRule[] }) | null> {
+  const parsed = parseModelKeyStrict(input.modelKey)
+  if (!parsed) return null
+
+  let providerRateLimit: ProviderRateLimit | undefined
+  try {
+    providerRateLimit = (await getProviderConfig(input.userId, parsed.provider)).rateLimit
+  } catch {
+    // provider 配置缺失时由实际调用抛出明确错误，这里只跳过用户级规则
+  }
+
+  return {
+    provider: parsed.provider,
+    modelId: parsed.modelId,
+    rules: buildProviderRateLimitRules({
+      userId: input.userId,
+      modelType: input.modelType,
+      provider: parsed.provider,
+      modelId: parsed.modelId,
+      providerRateLimit,
+    }),
+  }
+}
@@ -30,6 +30,29 @@ export {
     type GlobalVoice,
     type GlobalFolder,
 } from './useGlobalAssets'
+export {
+    useSharedAssetFolders,
+    useSharedAssetFolder,
+    useCopySharedAssets,
+    useUpdateFolderSharing,
+    useImportAssetBundle,
+    getAssetFolderExportUrl,
+    type SharedAssetFolderSummary,
+    type SharedAssetFolderContent,
+    type AssetBundleImportSummary,
+} from './useSharedAssets'
+export {
+    useArtStyles,
+    useArtStyleOptions,
+    useCreateArtStyle,
+    useUpdateArtStyle,
+    useDeleteArtStyle,
+    useUploadArtStyleReferenceImage,
+    useDeleteArtStyleReferenceImage,
+    type ArtStyleOption,
+    type ArtStyleSummary,
+    type SaveArtStyleInput,
+} from './useArtStyles'
 export {
     useGenerateCharacterImage,
     useModifyCharacterImage,
@@ -140,12 +163,15 @@ export {
     useUpdateProjectVoiceLine,
     useDeleteProjectVoiceLine,
     useDownloadProjectVoices,
+    useDownloadProjectSubtitles,
     useBatchGenerateCharacterImages,
     useBatchGenerateLocationImages,
     useDesignProjectVoice,
     useAnalyzeProjectShotVariants,
     useUpdateProjectPhotographyPlan,
     useUpdateProjectPanelActingNotes,
+    useSaveProjectPanelSketch,
+    useDeleteProjectPanelSketch,
     useListProjectEpisodeVideoUrls,
     useUpdateProjectPanelLink,
     useListProjectEpisodes,
@@ -215,6 +241,32 @@ export {
     type TaskPresentationTarget,
 } from './useTaskPresentation'
 
+export {
+    useAutopilot,
+    useAutopilotActions,
+    type AutopilotOverview,
+    type AutopilotStep,
+} from './useAutopilot'
+
+// 月度预算
+export {
+    useProjectBudget,
+    useUpdateProjectBudget,
+    type ProjectBudgetStatus,
+    type UpdateProjectBudgetInput,
+} from './useProjectBudget'
+
+// 提示词模板覆盖
+export {
+    usePromptTemplates,
+    usePromptTemplateDetail,
+    useSavePromptTemplateVersion,
+    useSetActivePromptTemplateVersion,
+    useDeletePromptTemplateOverride,
+    useRunPromptCompare,
+    type PromptTemplateScopeInput,
+} from './usePromptTemplates'
+
 // 项目数据
 export {
     useProjectData,
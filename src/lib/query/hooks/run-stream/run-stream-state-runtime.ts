@@ -6,19 +6,34 @@ import { applyRunStreamEvent } from './state-machine'
 import { subscribeRecoveredRun } from './recovered-run-subscription'
 import { executeRunRequest } from './run-request-executor'
 import { deriveRunStreamView } from './run-stream-view'
-import type { RunResult, RunState, RunStreamView, UseRunStreamStateOptions } from './types'
+import type {
+  RunResult,
+  RunState,
+  RunStepDetail,
+  RunStepOverrideResult,
+  RunStreamView,
+  UseRunStreamStateOptions,
+} from './types'
 import { apiFetch } from '@/lib/api-fetch'
 import { startRecoveryProbe } from './recovery-probe'
 
 export type {
   RunResult,
   RunState,
+  RunStepDetail,
+  RunStepOverrideResult,
   RunStepState,
   UseRunStreamStateOptions,
 } from './types'
 
 const TASK_STREAM_TIMEOUT_MS = 1000 * 60 * 30
 
+function readResponseErrorMessage(payload: unknown, fallback: string): string {
+  return payload && typeof payload === 'object' && typeof (payload as { error?: { message?: unknown } }).error?.message === 'string'
+    ? (payload as { error: { message: string } }).error.message
+    : fallback
+}
+
 export function useRunStreamState<TParams extends Record<string, unknown>>(
   options: UseRunStreamStateOptions<TParams>,
 ): RunStreamView {
@@ -194,11 +209,7 @@ export function useRunStreamState<TParams extends Record<string, unknown>>(
     )
     const payload = await response.json().catch(() => null)
     if (!response.ok) {
-      const errorMessage =
-        payload && typeof payload === 'object' && typeof (payload as { error?: { message?: unknown } }).error?.message === 'string'
-          ? (payload as { error: { message: string } }).error.message
-          : 'retry step failed'
-      throw new Error(errorMessage)
+      throw new Error(readResponseErrorMessage(payload, 'retry step failed'))
     }
 
     applyEvent({
@@ -218,6 +229,62 @@ export function useRunStreamState<TParams extends Record<string, unknown>>(
     }
   }, [applyEvent])
 
+  const loadStepDetail = useCallback(async (stepId: string): Promise<RunStepDetail> => {
+    const runId = runStateRef.current?.runId || ''
+    if (!runId) {
+      throw new Error('runId is required')
+    }
+    const response = await apiFetch(`/api/runs/${runId}/steps/${encodeURIComponent(stepId.trim())}`)
+    const payload = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(readResponseErrorMessage(payload, 'load step failed'))
+    }
+    return payload as RunStepDetail
+  }, [])
+
+  const overrideStep = useCallback(async (params: {
+    stepId: string
+    artifactType?: string
+    payload: Record<string, unknown>
+    reason?: string
+  }): Promise<RunStepOverrideResult> => {
+    const runId = runStateRef.current?.runId || ''
+    if (!runId) {
+      throw new Error('runId is required')
+    }
+    const stepId = params.stepId.trim()
+    if (!stepId) {
+      throw new Error('stepId is required')
+    }
+
+    const response = await apiFetch(
+      `/api/runs/${runId}/steps/${encodeURIComponent(stepId)}`,
+      {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          artifactType: params.artifactType || undefined,
+          payload: params.payload,
+          reason: params.reason || undefined,
+        }),
+      },
+    )
+    const payload = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(readResponseErrorMessage(payload, 'override step failed'))
+    }
+
+    applyEvent({
+      runId,
+      event: 'run.start',
+      ts: new Date().toISOString(),
+      status: 'running',
+      message: 'resuming from overridden step',
+    })
+    setIsRecoveredRunning(true)
+    return payload as RunStepOverrideResult
+  }, [applyEvent])
+
   const stop = useCallback(() => {
     const runningRunId = runState?.status === 'running' ? runState.runId : ''
     if (runningRunId) {
@@ -286,6 +353,8 @@ export function useRunStreamState<TParams extends Record<string, unknown>>(
     activeMessage: view.activeMessage,
     run: run as (params: Record<string, unknown>) => Promise<RunResult>,
     retryStep,
+    loadStepDetail,
+    overrideStep,
     stop,
     reset,
     selectStep,
@@ -45,6 +45,36 @@ export type RunResult = {
   errorMessage: string
 }
 
+export type RunStepOutputOverride = {
+  attempt: number
+  artifactType: string
+  refId: string
+  reason: string | null
+  previousPayload: Record<string, unknown>
+  payload: Record<string, unknown>
+  invalidatedStepKeys: string[]
+  createdAt: string
+}
+
+export type RunStepDetail = {
+  artifacts: Array<{
+    id: string
+    artifactType: string
+    refId: string
+    payload: unknown
+  }>
+  lastOverride: RunStepOutputOverride | null
+  overridable: boolean
+  overrideArtifactTypes: string[]
+}
+
+export type RunStepOverrideResult = {
+  overrideAttempt: number
+  invalidatedStepKeys: string[]
+  previousPayload: Record<string, unknown>
+  payload: Record<string, unknown>
+}
+
 export type StageViewStatus = 'pending' | 'queued' | 'processing' | 'completed' | 'failed' | 'blocked' | 'stale'
 
 export type RunStageView = {
@@ -86,6 +116,13 @@ export type RunStreamView = {
   activeMessage: string
   run: (params: Record<string, unknown>) => Promise<RunResult>
   retryStep: (params: { stepId: string; modelOverride?: string; reason?: string }) => Promise<RunResult>
+  loadStepDetail: (stepId: string) => Promise<RunStepDetail>
+  overrideStep: (params: {
+    stepId: string
+    artifactType?: string
+    payload: Record<string, unknown>
+    reason?: string
+  }) => Promise<RunStepOverrideResult>
   stop: () => void
   reset: () => void
   selectStep: (stepId: string) => void
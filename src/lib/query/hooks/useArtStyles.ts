@@ -0,0 +1,167 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import { resolveTaskErrorMessage } from '@/lib/task/error-message'
+import { apiFetch } from '@/lib/api-fetch'
+import { ART_STYLES } from '@/lib/constants'
+import type { ArtStyleModelOverrides, ArtStyleSummary } from '@/lib/art-style/types'
+
+// ============ 类型定义 ============
+export type { ArtStyleSummary }
+
+export interface ArtStyleOption {
+    value: string
+    label: string
+    preview: string
+    custom?: boolean
+}
+
+export interface SaveArtStyleInput {
+    name: string
+    promptZh: string
+    promptEn: string
+    negativePrompt: string | null
+    modelOverrides: ArtStyleModelOverrides
+    isShared: boolean
+}
+
+interface ArtStyleResponse {
+    success: boolean
+    style: ArtStyleSummary
+}
+
+async function readArtStyleResponse(res: Response, fallback: string) {
+    if (!res.ok) {
+        const error = await res.json().catch(() => null)
+        throw new Error(resolveTaskErrorMessage(error, fallback))
+    }
+    return await res.json() as ArtStyleResponse
+}
+
+// ============ 查询 Hooks ============
+
+/**
+ * 画风库：自己的画风 + 其他用户共享的画风
+ */
+export function useArtStyles() {
+    return useQuery({
+        queryKey: queryKeys.globalAssets.artStyles(),
+        queryFn: async () => {
+            const res = await apiFetch('/api/asset-hub/art-styles')
+            if (!res.ok) throw new Error('Failed to fetch art styles')
+            const data = await res.json()
+            return data.styles as ArtStyleSummary[]
+        },
+    })
+}
+
+/**
+ * 画风下拉选项：内置画风在前，画风库中的自定义画风在后
+ */
+export function useArtStyleOptions(): ArtStyleOption[] {
+    const { data: styles } = useArtStyles()
+    return useMemo(() => [
+        ...ART_STYLES.map((style) => ({ value: style.value, label: style.label, preview: style.preview })),
+        ...(styles || []).map((style) => ({
+            value: style.value,
+            label: style.name,
+            preview: style.name.slice(0, 1),
+            custom: true,
+        })),
+    ], [styles])
+}
+
+// ============ Mutation Hooks ============
+
+export function useCreateArtStyle() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (input: SaveArtStyleInput) => {
+            const res = await apiFetch('/api/asset-hub/art-styles', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            })
+            return await readArtStyleResponse(res, 'Failed to create art style')
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.artStyles() })
+        },
+    })
+}
+
+export function useUpdateArtStyle() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ styleId, ...input }: Partial<SaveArtStyleInput> & { styleId: string }) => {
+            const res = await apiFetch(`/api/asset-hub/art-styles/${styleId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            })
+            return await readArtStyleResponse(res, 'Failed to update art style')
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.artStyles() })
+        },
+    })
+}
+
+export function useDeleteArtStyle() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ styleId }: { styleId: string }) => {
+            const res = await apiFetch(`/api/asset-hub/art-styles/${styleId}`, {
+                method: 'DELETE',
+            })
+            if (!res.ok) {
+                const error = await res.json().catch(() => null)
+                throw new Error(resolveTaskErrorMessage(error, 'Failed to delete art style'))
+            }
+            return res.json()
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.artStyles() })
+        },
+    })
+}
+
+export function useUploadArtStyleReferenceImage() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ styleId, file }: { styleId: string; file: File }) => {
+            const formData = new FormData()
+            formData.append('file', file)
+            const res = await apiFetch(`/api/asset-hub/art-styles/${styleId}/reference-images`, {
+                method: 'POST',
+                body: formData,
+            })
+            return await readArtStyleResponse(res, 'Failed to upload reference image')
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.artStyles() })
+        },
+    })
+}
+
+export function useDeleteArtStyleReferenceImage() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ styleId, index }: { styleId: string; index: number }) => {
+            const res = await apiFetch(`/api/asset-hub/art-styles/${styleId}/reference-images?index=${index}`, {
+                method: 'DELETE',
+            })
+            return await readArtStyleResponse(res, 'Failed to delete reference image')
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.artStyles() })
+        },
+    })
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import { resolveTaskErrorMessage } from '@/lib/task/error-message'
+import { apiFetch } from '@/lib/api-fetch'
+
+// ============ 类型定义 ============
+export type AutopilotRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'canceling' | 'canceled'
+
+export interface AutopilotStep {
+    stepKey: string
+    stepTitle: string
+    status: 'pending' | 'running' | 'completed' | 'failed' | 'canceled'
+    currentAttempt: number
+    stepIndex: number
+    lastErrorMessage: string | null
+}
+
+export interface AutopilotOverview {
+    run: {
+        id: string
+        status: AutopilotRunStatus
+        errorMessage: string | null
+    }
+    steps: AutopilotStep[]
+    stage: string
+    awaitingApproval: boolean
+    spent: number
+    budget: number | null
+    autoSelectFirstCandidate: boolean
+}
+
+export interface StartAutopilotInput {
+    budget?: number | null
+    autoSelectFirstCandidate?: boolean
+}
+
+async function postAutopilot(url: string, body: Record<string, unknown>, fallback: string) {
+    const res = await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    })
+    if (!res.ok) {
+        const error = await res.json().catch(() => null)
+        throw new Error(resolveTaskErrorMessage(error, fallback))
+    }
+    return res.json()
+}
+
+// ============ 查询 Hooks ============
+
+/**
+ * 剧集最近一次 autopilot（阶段、审批、花费）；进度变化由 SSE 失效刷新
+ */
+export function useAutopilot(projectId: string | null, episodeId: string | null) {
+    return useQuery({
+        queryKey: queryKeys.autopilot.episode(projectId || '', episodeId || ''),
+        queryFn: async () => {
+            if (!projectId || !episodeId) throw new Error('Project ID and Episode ID are required')
+            const res = await apiFetch(`/api/novel-promotion/${projectId}/autopilot?episodeId=${episodeId}`)
+            if (!res.ok) throw new Error('Failed to fetch autopilot')
+            const data = await res.json() as { autopilot: AutopilotOverview | null }
+            return data.autopilot
+        },
+        enabled: !!projectId && !!episodeId,
+    })
+}
+
+// ============ Mutation Hooks ============
+
+export function useAutopilotActions(projectId: string | null, episodeId: string | null) {
+    const queryClient = useQueryClient()
+    const invalidate = () => {
+        if (projectId) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.autopilot.all(projectId) })
+        }
+    }
+
+    const start = useMutation({
+        mutationFn: async (input: StartAutopilotInput) => {
+            if (!projectId || !episodeId) throw new Error('Project ID and Episode ID are required')
+            return await postAutopilot(`/api/novel-promotion/${projectId}/autopilot`, {
+                episodeId,
+                ...(input.budget ? { budget: input.budget } : {}),
+                autoSelectFirstCandidate: input.autoSelectFirstCandidate === true,
+            }, 'Failed to start autopilot')
+        },
+        onSettled: invalidate,
+    })
+
+    const approve = useMutation({
+        mutationFn: async ({ runId }: { runId: string }) => {
+            if (!projectId) throw new Error('Project ID is required')
+            return await postAutopilot(`/api/novel-promotion/${projectId}/autopilot/approve`, { runId }, 'Failed to approve autopilot')
+        },
+        onSettled: invalidate,
+    })
+
+    const cancel = useMutation({
+        mutationFn: async ({ runId }: { runId: string }) => {
+            if (!projectId) throw new Error('Project ID is required')
+            return await postAutopilot(`/api/novel-promotion/${projectId}/autopilot/cancel`, { runId }, 'Failed to cancel autopilot')
+        },
+        onSettled: invalidate,
+    })
+
+    const retryStage = useMutation({
+        mutationFn: async ({ runId, stepKey }: { runId: string; stepKey: string }) => {
+            return await postAutopilot(
+                `/api/runs/${runId}/steps/${encodeURIComponent(stepKey)}/retry`,
+                { reason: 'user_retry_from_autopilot' },
+                'Failed to retry autopilot stage',
+            )
+        },
+        onSettled: invalidate,
+    })
+
+    return { start, approve, cancel, retryStage }
+}
@@ -86,6 +86,7 @@ export interface GlobalVoice {
 export interface GlobalFolder {
     id: string
     name: string
+    isShared?: boolean
 }
 
 // ============ 查询 Hooks ============
@@ -0,0 +1,90 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import { checkApiResponse } from '@/lib/error-handler'
+import { clearTaskTargetOverlay, upsertTaskTargetOverlay } from '../task-target-overlay'
+import { apiFetch } from '@/lib/api-fetch'
+import type { VideoGenerationOptions } from './useStoryboards'
+
+/**
+ * 一键串联生成：分镜图 → 视频 → 口型同步
+ *
+ * 依次提交三个 Panel 级任务，后一个通过 dependsOn 依赖前一个；
+ * 下游任务在上游完成前保持 blocked，上游失败时整条链级联失败。
+ */
+export function useGeneratePanelChain(projectId: string | null, episodeId: string | null) {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (params: {
+            panelId: string
+            storyboardId: string
+            panelIndex: number
+            videoModel: string
+            generationOptions?: VideoGenerationOptions
+            voiceLineId?: string
+        }) => {
+            if (!projectId) throw new Error('Project ID is required')
+
+            const submit = async (path: string, body: Record<string, unknown>): Promise<{ taskId: string }> => {
+                const res = await apiFetch(`/api/novel-promotion/${projectId}/${path}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body),
+                })
+                await checkApiResponse(res)
+                return res.json()
+            }
+
+            const imageTask = await submit('regenerate-panel-image', {
+                panelId: params.panelId,
+                count: 1,
+            })
+            const videoTask = await submit('generate-video', {
+                storyboardId: params.storyboardId,
+                panelIndex: params.panelIndex,
+                videoModel: params.videoModel,
+                ...(params.generationOptions ? { generationOptions: params.generationOptions } : {}),
+                dependsOn: [imageTask.taskId],
+            })
+            const lipSyncTask = params.voiceLineId
+                ? await submit('lip-sync', {
+                    storyboardId: params.storyboardId,
+                    panelIndex: params.panelIndex,
+                    voiceLineId: params.voiceLineId,
+                    dependsOn: [videoTask.taskId],
+                })
+                : null
+
+            return {
+                imageTaskId: imageTask.taskId,
+                videoTaskId: videoTask.taskId,
+                lipSyncTaskId: lipSyncTask?.taskId ?? null,
+            }
+        },
+        onMutate: async ({ panelId }) => {
+            if (!projectId) return
+            await queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(projectId), exact: false })
+            upsertTaskTargetOverlay(queryClient, {
+                projectId,
+                targetType: 'NovelPromotionPanel',
+                targetId: panelId,
+                intent: 'regenerate',
+            })
+        },
+        onError: (_error, { panelId }) => {
+            if (!projectId) return
+            clearTaskTargetOverlay(queryClient, {
+                projectId,
+                targetType: 'NovelPromotionPanel',
+                targetId: panelId,
+            })
+        },
+        onSettled: () => {
+            if (projectId && episodeId) {
+                queryClient.invalidateQueries({ queryKey: queryKeys.episodeData(projectId, episodeId) })
+            }
+        },
+    })
+}
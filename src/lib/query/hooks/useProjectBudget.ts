@@ -0,0 +1,77 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import { resolveTaskErrorMessage } from '@/lib/task/error-message'
+import { apiFetch } from '@/lib/api-fetch'
+
+// ============ 类型定义 ============
+export interface ProjectBudgetStatus {
+    scope: 'user' | 'project'
+    projectId: string | null
+    period: string
+    monthlyLimit: number
+    warnPercent: number
+    hardStopPercent: number
+    spent: number
+    percent: number
+}
+
+interface ProjectBudgetResponse {
+    projectId: string
+    currency: string
+    budgets: ProjectBudgetStatus[]
+}
+
+export interface UpdateProjectBudgetInput {
+    scope: 'user' | 'project'
+    // null 表示清除该预算
+    monthlyLimit: number | null
+    warnPercent?: number
+    hardStopPercent?: number
+}
+
+// ============ 查询 Hooks ============
+
+/**
+ * 用户预算与项目预算的本月用量；任务生命周期事件由 SSE 失效刷新
+ */
+export function useProjectBudget(projectId: string | null) {
+    return useQuery({
+        queryKey: queryKeys.budget.project(projectId || ''),
+        queryFn: async () => {
+            if (!projectId) throw new Error('Project ID is required')
+            const res = await apiFetch(`/api/projects/${projectId}/budget`)
+            if (!res.ok) throw new Error('Failed to fetch budget')
+            return await res.json() as ProjectBudgetResponse
+        },
+        enabled: !!projectId,
+    })
+}
+
+// ============ Mutation Hooks ============
+
+export function useUpdateProjectBudget(projectId: string | null) {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (input: UpdateProjectBudgetInput) => {
+            if (!projectId) throw new Error('Project ID is required')
+            const res = await apiFetch(`/api/projects/${projectId}/budget`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            })
+            if (!res.ok) {
+                const error = await res.json().catch(() => null)
+                throw new Error(resolveTaskErrorMessage(error, 'Failed to update budget'))
+            }
+            return await res.json() as ProjectBudgetResponse
+        },
+        onSuccess: (data) => {
+            if (projectId) {
+                queryClient.setQueryData(queryKeys.budget.project(projectId), data)
+            }
+        },
+    })
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import { resolveTaskErrorMessage } from '@/lib/task/error-message'
+import { resolveTaskResponse } from '@/lib/task/client'
+import { apiFetch } from '@/lib/api-fetch'
+import type { PromptCompareResult } from '@/lib/prompt-overrides/compare'
+import type {
+    PromptOverrideScope,
+    PromptTemplateDetail,
+    PromptTemplateListItem,
+    PromptTemplateValidation,
+} from '@/lib/prompt-overrides/types'
+
+// ============ 类型定义 ============
+export interface PromptTemplateScopeInput {
+    promptId: string
+    locale: string
+    // 为空表示用户级覆盖
+    projectId: string | null
+}
+
+interface RunPromptCompareInput {
+    clipId: string
+    promptId: string
+    locale: string
+    scope?: PromptOverrideScope
+    version?: number
+}
+
+function buildScopeQuery(locale: string, projectId: string | null) {
+    const params = new URLSearchParams({ locale })
+    if (projectId) params.set('projectId', projectId)
+    return params.toString()
+}
+
+async function readTemplateResponse<T>(res: Response, fallback: string): Promise<T> {
+    if (!res.ok) {
+        const error = await res.json().catch(() => null)
+        throw new Error(resolveTaskErrorMessage(error, fallback))
+    }
+    const data = await res.json() as { template: T }
+    return data.template
+}
+
+// ============ 查询 Hooks ============
+
+export function usePromptTemplates(locale: string, projectId: string | null) {
+    return useQuery({
+        queryKey: queryKeys.promptTemplates.list(locale, projectId),
+        queryFn: async () => {
+            const res = await apiFetch(`/api/user/prompt-templates?${buildScopeQuery(locale, projectId)}`)
+            if (!res.ok) throw new Error('Failed to fetch prompt templates')
+            const data = await res.json() as { templates: PromptTemplateListItem[] }
+            return data.templates
+        },
+    })
+}
+
+export function usePromptTemplateDetail(promptId: string | null, locale: string, projectId: string | null) {
+    return useQuery({
+        queryKey: queryKeys.promptTemplates.detail(promptId || '', locale, projectId),
+        queryFn: async () => {
+            if (!promptId) throw new Error('Prompt ID is required')
+            const res = await apiFetch(
+                `/api/user/prompt-templates/${promptId}?${buildScopeQuery(locale, projectId)}`,
+            )
+            return await readTemplateResponse<PromptTemplateDetail>(res, 'Failed to fetch prompt template')
+        },
+        enabled: !!promptId,
+    })
+}
+
+// ============ Mutation Hooks ============
+
+/**
+ * 保存为新版本并启用
+ */
+export function useSavePromptTemplateVersion() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (input: PromptTemplateScopeInput & { content: string; note?: string }) => {
+            const res = await apiFetch(`/api/user/prompt-templates/${input.promptId}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    locale: input.locale,
+                    projectId: input.projectId,
+                    content: input.content,
+                    note: input.note,
+                }),
+            })
+            return await readTemplateResponse<PromptTemplateDetail & PromptTemplateValidation>(
+                res,
+                'Failed to save prompt template',
+            )
+        },
+        onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.promptTemplates.all() }),
+    })
+}
+
+/**
+ * 回滚到历史版本；activeVersion 为 null 时停用覆盖
+ */
+export function useSetActivePromptTemplateVersion() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (input: PromptTemplateScopeInput & { activeVersion: number | null }) => {
+            const res = await apiFetch(`/api/user/prompt-templates/${input.promptId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    locale: input.locale,
+                    projectId: input.projectId,
+                    activeVersion: input.activeVersion,
+                }),
+            })
+            return await readTemplateResponse<PromptTemplateDetail>(res, 'Failed to update prompt template')
+        },
+        onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.promptTemplates.all() }),
+    })
+}
+
+export function useDeletePromptTemplateOverride() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (input: PromptTemplateScopeInput) => {
+            const res = await apiFetch(
+                `/api/user/prompt-templates/${input.promptId}?${buildScopeQuery(input.locale, input.projectId)}`,
+                { method: 'DELETE' },
+            )
+            if (!res.ok) {
+                const error = await res.json().catch(() => null)
+                throw new Error(resolveTaskErrorMessage(error, 'Failed to delete prompt template'))
+            }
+        },
+        onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.promptTemplates.all() }),
+    })
+}
+
+/**
+ * 在片段上对比运行内置模板与覆盖模板，等待任务完成后返回两侧输出
+ */
+export function useRunPromptCompare(projectId: string) {
+    return useMutation({
+        mutationFn: async (input: RunPromptCompareInput) => {
+            const res = await apiFetch(`/api/novel-promotion/${projectId}/prompt-compare`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            })
+            return await resolveTaskResponse<PromptCompareResult>(res)
+        },
+    })
+}
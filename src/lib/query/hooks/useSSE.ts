@@ -85,6 +85,7 @@ export function useSSE({ projectId, episodeId, enabled = true, onEvent }: UseSSE
       if (targetType === 'NovelPromotionEpisode') {
         invalidateEpisodeScoped(resolvedEpisodeId)
         queryClient.invalidateQueries({ queryKey: queryKeys.projectData(projectId) })
+        queryClient.invalidateQueries({ queryKey: queryKeys.autopilot.all(projectId) })
         return
       }
 
@@ -97,6 +98,10 @@ export function useSSE({ projectId, episodeId, enabled = true, onEvent }: UseSSE
         if (!payload || !payload.type) return
         onEvent?.(payload as SSEEvent)
         const eventType = payload.type as string
+        if (eventType === TASK_SSE_EVENT_TYPE.BATCH) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.taskBatches.all(projectId) })
+          return
+        }
         const targetType = typeof payload.targetType === 'string'
           ? payload.targetType
           : typeof payload?.payload?.targetType === 'string'
@@ -140,6 +145,8 @@ export function useSSE({ projectId, episodeId, enabled = true, onEvent }: UseSSE
 
         if (isLifecycleEvent && shouldInvalidateTasksList) {
           queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(projectId) })
+          queryClient.invalidateQueries({ queryKey: queryKeys.tasks.concurrency() })
+          queryClient.invalidateQueries({ queryKey: queryKeys.budget.project(projectId) })
         }
         if (isLifecycleEvent && shouldInvalidateTargetStates) {
           if (targetStatesInvalidateTimerRef.current === null) {
@@ -199,6 +206,7 @@ export function useSSE({ projectId, episodeId, enabled = true, onEvent }: UseSSE
     const namedEvents = [
       TASK_SSE_EVENT_TYPE.LIFECYCLE,
       TASK_SSE_EVENT_TYPE.STREAM,
+      TASK_SSE_EVENT_TYPE.BATCH,
     ] as const
     const listeners: Array<{ type: string; handler: EventListener }> = []
     for (const type of namedEvents) {
@@ -0,0 +1,181 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import { resolveTaskErrorMessage } from '@/lib/task/error-message'
+import { apiFetch } from '@/lib/api-fetch'
+
+// ============ 类型定义 ============
+export interface SharedAssetFolderSummary {
+    id: string
+    name: string
+    ownerName: string
+    sharedAt: string | null
+    characterCount: number
+    locationCount: number
+    voiceCount: number
+}
+
+export interface SharedAssetFolderContent {
+    folder: {
+        id: string
+        name: string
+        ownerName: string
+        sharedAt: string | null
+    }
+    characters: Array<{
+        id: string
+        name: string
+        previewUrl: string | null
+        appearanceCount: number
+        hasVoice: boolean
+    }>
+    locations: Array<{
+        id: string
+        name: string
+        summary: string | null
+        assetKind: string
+        previewUrl: string | null
+        imageCount: number
+    }>
+    voices: Array<{
+        id: string
+        name: string
+        description: string | null
+        previewUrl: string | null
+        voiceType: string
+        gender: string | null
+        language: string
+    }>
+}
+
+export interface AssetBundleImportSummary {
+    folderId: string
+    mediaCount: number
+    counts: {
+        created: number
+        renamed: number
+        overwritten: number
+        skipped: number
+    }
+}
+
+async function readJsonOrThrow<T>(res: Response, fallback: string): Promise<T> {
+    if (!res.ok) {
+        const error = await res.json().catch(() => ({}))
+        throw new Error(resolveTaskErrorMessage(error, fallback))
+    }
+    return await res.json() as T
+}
+
+// 复制/导入后资产库所有列表（含资产选择器与统一资产列表）都需刷新
+function invalidateGlobalLibrary(queryClient: ReturnType<typeof useQueryClient>) {
+    queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.all() })
+    queryClient.invalidateQueries({ queryKey: queryKeys.assets.all('global') })
+}
+
+// ============ 查询 Hooks ============
+
+/**
+ * 共享资产库：其他用户共享的文件夹
+ */
+export function useSharedAssetFolders(enabled = true) {
+    return useQuery({
+        queryKey: queryKeys.globalAssets.shared(),
+        queryFn: async () => {
+            const res = await apiFetch('/api/asset-hub/shared')
+            const data = await readJsonOrThrow<{ folders: SharedAssetFolderSummary[] }>(res, 'Failed to fetch shared folders')
+            return data.folders
+        },
+        enabled,
+    })
+}
+
+/**
+ * 共享文件夹的只读内容
+ */
+export function useSharedAssetFolder(folderId: string | null) {
+    return useQuery({
+        queryKey: queryKeys.globalAssets.sharedFolder(folderId ?? ''),
+        queryFn: async () => {
+            const res = await apiFetch(`/api/asset-hub/shared/${folderId}`)
+            return await readJsonOrThrow<SharedAssetFolderContent>(res, 'Failed to fetch shared folder')
+        },
+        enabled: !!folderId,
+    })
+}
+
+// ============ Mutation Hooks ============
+
+/**
+ * 从共享文件夹复制选中资产到自己的资产库，同名资产自动重命名
+ */
+export function useCopySharedAssets() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ folderId, ...selection }: {
+            folderId: string
+            characterIds: string[]
+            locationIds: string[]
+            voiceIds: string[]
+        }) => {
+            const res = await apiFetch(`/api/asset-hub/shared/${folderId}/copy`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ conflict: 'rename', ...selection }),
+            })
+            return await readJsonOrThrow<AssetBundleImportSummary>(res, 'Failed to copy shared assets')
+        },
+        onSuccess: () => invalidateGlobalLibrary(queryClient),
+    })
+}
+
+/**
+ * 开启/关闭文件夹共享
+ */
+export function useUpdateFolderSharing() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ folderId, isShared }: { folderId: string; isShared: boolean }) => {
+            const res = await apiFetch(`/api/asset-hub/folders/${folderId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ isShared }),
+            })
+            return await readJsonOrThrow<{ success: boolean }>(res, 'Failed to update folder sharing')
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.globalAssets.folders() })
+        },
+    })
+}
+
+/**
+ * 导入资产包 zip，默认新建与资产包同名的文件夹，同名资产自动重命名
+ */
+export function useImportAssetBundle() {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async ({ file }: { file: File }) => {
+            const formData = new FormData()
+            formData.append('file', file)
+            formData.append('conflict', 'rename')
+            const res = await apiFetch('/api/asset-hub/import', {
+                method: 'POST',
+                body: formData,
+            })
+            return await readJsonOrThrow<AssetBundleImportSummary>(res, 'Failed to import asset bundle')
+        },
+        onSuccess: () => invalidateGlobalLibrary(queryClient),
+    })
+}
+
+/**
+ * 文件夹导出地址：接口直接返回 zip 附件
+ */
+export function getAssetFolderExportUrl(folderId: string): string {
+    return `/api/asset-hub/folders/${folderId}/export`
+}
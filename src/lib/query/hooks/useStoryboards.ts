@@ -50,7 +50,7 @@ export interface StoryboardData {
 }
 
 type VideoGenerationOptionValue = string | number | boolean
-type VideoGenerationOptions = Record<string, VideoGenerationOptionValue>
+export type VideoGenerationOptions = Record<string, VideoGenerationOptionValue>
 
 interface BatchVideoGenerationParams {
     videoModel: string
@@ -12,6 +12,9 @@ export type TaskItem = {
   targetId: string
   episodeId?: string | null
   status: string
+  /** 尚未到 runAfter 的排队任务为 scheduled，其余同 status */
+  displayStatus?: string
+  runAfter?: string | null
   progress?: number | null
   errorCode?: string | null
   errorMessage?: string | null
@@ -208,3 +211,27 @@ export function useTaskStatus(params: {
     data,
   }
 }
+
+export type ConcurrencySlotUsage = {
+  active: number
+  limit: number
+}
+
+export type UserConcurrencyUsage = Record<'analysis' | 'image' | 'video', ConcurrencySlotUsage>
+
+/**
+ * 当前用户各流程占用的并发槽位（跨所有 worker 汇总），任务生命周期事件到达时刷新
+ */
+export function useUserConcurrencyUsage(params: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.tasks.concurrency(),
+    enabled: params.enabled ?? true,
+    staleTime: 5000,
+    queryFn: async () => {
+      const res = await apiFetch('/api/tasks/concurrency')
+      if (!res.ok) throw new Error('Failed to fetch concurrency usage')
+      const data = await res.json()
+      return data.concurrency as UserConcurrencyUsage
+    },
+  })
+}
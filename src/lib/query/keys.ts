@@ -37,6 +37,9 @@ export const queryKeys = {
         voices: (folderId?: string | null) =>
             folderId ? ['global-assets', 'voices', folderId] as const : ['global-assets', 'voices'] as const,
         folders: () => ['global-assets', 'folders'] as const,
+        artStyles: () => ['global-assets', 'art-styles'] as const,
+        shared: () => ['global-assets', 'shared'] as const,
+        sharedFolder: (folderId: string) => ['global-assets', 'shared', folderId] as const,
     },
 
     // ============ 项目资产 ============
@@ -90,6 +93,31 @@ export const queryKeys = {
             episodeId
                 ? ['pending-tasks', projectId, episodeId] as const
                 : ['pending-tasks', projectId] as const,
+        concurrency: () => ['task-concurrency'] as const,
+    },
+
+    // ============ 批量任务 ============
+    taskBatches: {
+        all: (projectId: string) => ['task-batches', projectId] as const,
+    },
+
+    // ============ Autopilot ============
+    autopilot: {
+        all: (projectId: string) => ['autopilot', projectId] as const,
+        episode: (projectId: string, episodeId: string) => ['autopilot', projectId, episodeId] as const,
+    },
+
+    // ============ 月度预算 ============
+    budget: {
+        project: (projectId: string) => ['budget', projectId] as const,
+    },
+
+    // ============ 提示词模板覆盖 ============
+    promptTemplates: {
+        all: () => ['prompt-templates'] as const,
+        list: (locale: string, projectId: string | null) => ['prompt-templates', 'list', locale, projectId || 'user'] as const,
+        detail: (promptId: string, locale: string, projectId: string | null) =>
+            ['prompt-templates', 'detail', promptId, locale, projectId || 'user'] as const,
     },
 
     // ============ 项目数据 ============
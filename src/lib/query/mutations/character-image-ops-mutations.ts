@@ -27,6 +27,7 @@ export function useModifyProjectCharacterImage(projectId: string) {
             imageIndex: number
             modifyPrompt: string
             extraImageUrls?: string[]
+            maskImage?: string
         }) => {
             const response = await requestTaskResponseWithError(`/api/assets/${params.characterId}/modify-render`, {
                 method: 'POST',
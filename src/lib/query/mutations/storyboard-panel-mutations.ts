@@ -16,11 +16,11 @@ import {
 export function useRegenerateProjectPanelImage(projectId: string) {
     const queryClient = useQueryClient()
     return useMutation({
-        mutationFn: async ({ panelId, count }: { panelId: string; count?: number }) => {
+        mutationFn: async ({ panelId, count, seed }: { panelId: string; count?: number; seed?: number }) => {
             const res = await apiFetch(`/api/novel-promotion/${projectId}/regenerate-panel-image`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ panelId, count: count ?? 1 }),
+                body: JSON.stringify({ panelId, count: count ?? 1, seed }),
             })
             if (!res.ok) {
                 const error = await res.json().catch(() => ({}))
@@ -77,6 +77,7 @@ export function useModifyProjectStoryboardImage(projectId: string) {
                 appearanceId?: number
                 appearanceName?: string
             }>
+            maskImage?: string
         }) => {
             return await requestJsonWithError(`/api/novel-promotion/${projectId}/modify-storyboard-image`, {
                 method: 'POST',
@@ -0,0 +1,59 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '../keys'
+import {
+    invalidateQueryTemplates,
+    requestJsonWithError,
+} from './mutation-shared'
+
+function useInvalidateEpisodeStoryboards(projectId: string, episodeId: string) {
+    const queryClient = useQueryClient()
+    return () =>
+        invalidateQueryTemplates(queryClient, [
+            queryKeys.episodeData(projectId, episodeId),
+            queryKeys.storyboards.all(episodeId),
+        ])
+}
+
+/**
+ * 保存镜头构图草图（作为布局参考图参与后续生成）
+ */
+
+export function useSaveProjectPanelSketch(projectId: string, episodeId: string) {
+    const invalidateStoryboards = useInvalidateEpisodeStoryboards(projectId, episodeId)
+
+    return useMutation({
+        mutationFn: async ({ panelId, file }: { panelId: string; file: Blob }) => {
+            const formData = new FormData()
+            formData.append('panelId', panelId)
+            formData.append('file', file, 'sketch.png')
+
+            return await requestJsonWithError<{ success: boolean; sketchImageUrl: string }>(
+                `/api/novel-promotion/${projectId}/panel/sketch`,
+                {
+                    method: 'POST',
+                    body: formData,
+                },
+                'Failed to save sketch',
+            )
+        },
+        onSuccess: invalidateStoryboards,
+    })
+}
+
+/**
+ * 删除镜头构图草图
+ */
+
+export function useDeleteProjectPanelSketch(projectId: string, episodeId: string) {
+    const invalidateStoryboards = useInvalidateEpisodeStoryboards(projectId, episodeId)
+
+    return useMutation({
+        mutationFn: async ({ panelId }: { panelId: string }) =>
+            await requestJsonWithError(
+                `/api/novel-promotion/${projectId}/panel/sketch?panelId=${encodeURIComponent(panelId)}`,
+                { method: 'DELETE' },
+                'Failed to delete sketch',
+            ),
+        onSuccess: invalidateStoryboards,
+    })
+}
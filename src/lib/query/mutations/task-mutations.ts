@@ -24,3 +24,37 @@ export function useDismissFailedTasks(projectId: string) {
         },
     })
 }
+
+export function useRunScheduledTaskNow(projectId: string) {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (taskId: string) => {
+            return await requestJsonWithError<{ success: boolean }>(
+                `/api/tasks/${encodeURIComponent(taskId)}/run-now`,
+                { method: 'POST' },
+                '立即执行失败',
+            )
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(projectId), exact: false })
+        },
+    })
+}
+
+export function useCancelTask(projectId: string) {
+    const queryClient = useQueryClient()
+
+    return useMutation({
+        mutationFn: async (taskId: string) => {
+            return await requestJsonWithError<{ success: boolean; cancelled: boolean }>(
+                `/api/tasks/${encodeURIComponent(taskId)}`,
+                { method: 'DELETE' },
+                '取消任务失败',
+            )
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all(projectId), exact: false })
+        },
+    })
+}
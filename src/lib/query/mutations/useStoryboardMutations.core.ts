@@ -1,2 +1,3 @@
 export * from './storyboard-prompt-mutations'
 export * from './storyboard-panel-mutations'
+export * from './storyboard-sketch-mutations'
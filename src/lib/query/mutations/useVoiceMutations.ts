@@ -1,6 +1,7 @@
 import { useMutation } from '@tanstack/react-query'
 import { resolveTaskResponse } from '@/lib/task/client'
 import type { SpeakerVoiceEntry, SpeakerVoicePatch } from '@/lib/voice/provider-voice-binding'
+import type { SubtitleFormat } from '@/lib/subtitles/types'
 import {
     requestBlobWithError,
     requestJsonWithError,
@@ -222,6 +223,21 @@ export function useDownloadProjectVoices(projectId: string) {
     })
 }
 
+/**
+ * 下载剧集字幕 (SRT / WebVTT / ASS)
+ */
+
+export function useDownloadProjectSubtitles(projectId: string) {
+    return useMutation({
+        mutationFn: async ({ episodeId, format }: { episodeId: string; format: SubtitleFormat }) =>
+            await requestBlobWithError(
+                `/api/novel-promotion/${projectId}/download-subtitles?episodeId=${episodeId}&format=${format}`,
+                { method: 'GET' },
+                'download failed',
+            ),
+    })
+}
+
 /**
  * 为发言人直接设置音色（写入 episode.speakerVoices）
  * 用于不在资产库中的角色在配音阶段内联绑定音色
@@ -102,8 +102,19 @@ type GraphStepModel = {
   update: (args: unknown) => Promise<GraphStepRow>
 }
 
+type GraphStepAttemptRow = {
+  id: string
+  runId: string
+  stepKey: string
+  attempt: number
+  status: string
+  input: unknown
+  createdAt: Date
+}
+
 type GraphStepAttemptModel = {
   upsert: (args: unknown) => Promise<unknown>
+  findMany: (args: unknown) => Promise<GraphStepAttemptRow[]>
 }
 
 type GraphEventModel = {
@@ -126,6 +137,7 @@ type GraphCheckpointModel = {
 
 type GraphArtifactModel = {
   upsert: (args: unknown) => Promise<GraphArtifactRow>
+  findFirst: (args: unknown) => Promise<GraphArtifactRow | null>
   findMany: (args: unknown) => Promise<GraphArtifactRow[]>
   deleteMany: (args: unknown) => Promise<{ count: number }>
 }
@@ -1197,3 +1209,254 @@ export async function retryFailedStep(params: {
     }
   })
 }
+
+const STEP_OUTPUT_OVERRIDE_SOURCE = 'manual_override'
+
+function mapStepOutputOverride(row: GraphStepAttemptRow) {
+  const input = toObject(row.input)
+  if (input.source !== STEP_OUTPUT_OVERRIDE_SOURCE) return null
+  return {
+    attempt: row.attempt,
+    artifactType: readString(input, 'artifactType') || '',
+    refId: readString(input, 'refId') || '',
+    reason: readString(input, 'reason'),
+    previousPayload: toObject(input.previousPayload),
+    payload: toObject(input.payload),
+    invalidatedStepKeys: Array.isArray(input.invalidatedStepKeys)
+      ? input.invalidatedStepKeys.filter((item): item is string => typeof item === 'string')
+      : [],
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+export async function getRunStepDetail(params: {
+  runId: string
+  stepKey: string
+}) {
+  const stepKey = params.stepKey.trim()
+  const [step, artifacts, attempts] = await Promise.all([
+    runtimeClient.graphStep.findUnique({
+      where: {
+        runId_stepKey: {
+          runId: params.runId,
+          stepKey,
+        },
+      },
+    }),
+    runtimeClient.graphArtifact.findMany({
+      where: {
+        runId: params.runId,
+        stepKey,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    }),
+    runtimeClient.graphStepAttempt.findMany({
+      where: {
+        runId: params.runId,
+        stepKey,
+      },
+      orderBy: { attempt: 'desc' },
+      take: 20,
+    }),
+  ])
+  if (!step) return null
+  const lastOverride = attempts
+    .map(mapStepOutputOverride)
+    .find((item) => item !== null) || null
+  return {
+    step: mapStepRow(step),
+    artifacts: artifacts.map(mapArtifactRow),
+    lastOverride,
+  }
+}
+
+/**
+ * 人工覆盖已完成步骤的产物，并把依赖它的下游步骤重置为待执行。
+ * 覆盖前后的产物记录在新的 attempt.input 中，供控制台展示差异；同时写入 checkpoint 作为续跑起点。
+ */
+export async function overrideStepOutput(params: {
+  runId: string
+  userId: string
+  stepKey: string
+  artifactType: string
+  refId?: string | null
+  payload: JsonRecord
+  reason?: string | null
+}) {
+  const stepKey = params.stepKey.trim()
+  const artifactType = params.artifactType.trim()
+  if (!stepKey) {
+    throw new Error('stepKey is required')
+  }
+  if (!artifactType) {
+    throw new Error('artifactType is required')
+  }
+
+  return await runtimeClient.$transaction(async (tx) => {
+    const run = await tx.graphRun.findUnique({
+      where: { id: params.runId },
+    })
+    if (!run || run.userId !== params.userId) {
+      return null
+    }
+    if (
+      run.status === RUN_STATUS.QUEUED
+      || run.status === RUN_STATUS.RUNNING
+      || run.status === RUN_STATUS.CANCELING
+    ) {
+      throw new Error('RUN_NOT_SETTLED')
+    }
+
+    const step = await tx.graphStep.findUnique({
+      where: {
+        runId_stepKey: {
+          runId: params.runId,
+          stepKey,
+        },
+      },
+    })
+    if (!step) {
+      throw new Error('RUN_STEP_NOT_FOUND')
+    }
+    if (step.status !== RUN_STEP_STATUS.COMPLETED) {
+      throw new Error('RUN_STEP_NOT_COMPLETED')
+    }
+
+    const artifact = await tx.graphArtifact.findFirst({
+      where: {
+        runId: params.runId,
+        stepKey,
+        artifactType,
+        ...(params.refId ? { refId: params.refId } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+    if (!artifact) {
+      throw new Error('RUN_STEP_ARTIFACT_NOT_FOUND')
+    }
+
+    const steps = await tx.graphStep.findMany({
+      where: { runId: params.runId },
+      orderBy: [
+        { stepIndex: 'asc' },
+        { updatedAt: 'asc' },
+      ],
+    })
+    const now = new Date()
+    const overrideAttempt = Math.max(1, step.currentAttempt + 1)
+    const invalidatedStepKeys = resolveRetryInvalidationStepKeys({
+      workflowType: run.workflowType,
+      stepKey,
+      existingStepKeys: steps.map((item) => item.stepKey),
+    }).filter((item) => item !== stepKey)
+    const previousPayload = toObject(artifact.payload)
+
+    const updatedArtifact = await upsertArtifactStrict({
+      artifactModel: tx.graphArtifact,
+      runId: params.runId,
+      stepKey,
+      artifactType,
+      refId: artifact.refId,
+      versionHash: null,
+      payload: params.payload,
+    })
+    await tx.graphStepAttempt.upsert({
+      where: {
+        runId_stepKey_attempt: {
+          runId: params.runId,
+          stepKey,
+          attempt: overrideAttempt,
+        },
+      },
+      create: {
+        runId: params.runId,
+        stepKey,
+        attempt: overrideAttempt,
+        status: RUN_STEP_STATUS.COMPLETED,
+        input: {
+          source: STEP_OUTPUT_OVERRIDE_SOURCE,
+          artifactType,
+          refId: artifact.refId,
+          reason: params.reason || null,
+          previousPayload,
+          payload: params.payload,
+          invalidatedStepKeys,
+        },
+        startedAt: now,
+        finishedAt: now,
+      },
+      update: {},
+    })
+    const checkpointState = buildLeanState({
+      refs: { cursor: stepKey },
+      meta: {
+        source: STEP_OUTPUT_OVERRIDE_SOURCE,
+        artifactId: updatedArtifact.id,
+        attempt: overrideAttempt,
+      },
+    })
+    await tx.graphCheckpoint.create({
+      data: {
+        runId: params.runId,
+        nodeKey: stepKey,
+        version: overrideAttempt,
+        stateJson: checkpointState,
+        stateBytes: assertCheckpointStateSize(checkpointState),
+      },
+    })
+    const updatedStep = await tx.graphStep.update({
+      where: {
+        runId_stepKey: {
+          runId: params.runId,
+          stepKey,
+        },
+      },
+      data: {
+        currentAttempt: overrideAttempt,
+        finishedAt: now,
+      },
+    })
+
+    await tx.graphStep.updateMany({
+      where: {
+        runId: params.runId,
+        stepKey: { in: invalidatedStepKeys },
+      },
+      data: {
+        status: RUN_STEP_STATUS.PENDING,
+        currentAttempt: 0,
+        startedAt: null,
+        finishedAt: null,
+        lastErrorCode: null,
+        lastErrorMessage: null,
+      },
+    })
+    await tx.graphArtifact.deleteMany({
+      where: {
+        runId: params.runId,
+        stepKey: { in: invalidatedStepKeys },
+      },
+    })
+    const updatedRun = await tx.graphRun.update({
+      where: { id: params.runId },
+      data: {
+        status: RUN_STATUS.RUNNING,
+        errorCode: null,
+        errorMessage: null,
+        finishedAt: null,
+        cancelRequestedAt: null,
+        startedAt: run.startedAt || now,
+      },
+    })
+
+    return {
+      run: mapRunRow(updatedRun),
+      step: mapStepRow(updatedStep),
+      artifact: mapArtifactRow(updatedArtifact),
+      overrideAttempt,
+      previousPayload,
+      invalidatedStepKeys,
+    }
+  })
+}
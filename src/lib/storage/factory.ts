@@ -1,12 +1,13 @@
 import { StorageConfigError } from '@/lib/storage/errors'
 import { LocalStorageProvider } from '@/lib/storage/providers/local'
 import { MinioStorageProvider } from '@/lib/storage/providers/minio'
+import { S3StorageProvider } from '@/lib/storage/providers/s3'
 import { CosStorageProvider } from '@/lib/storage/providers/cos'
 import type { StorageFactoryOptions, StorageProvider, StorageType } from '@/lib/storage/types'
 
 function normalizeStorageType(rawType: string | undefined): StorageType {
   const normalized = (rawType || 'minio').trim().toLowerCase()
-  if (normalized === 'minio' || normalized === 'local' || normalized === 'cos') {
+  if (normalized === 'minio' || normalized === 's3' || normalized === 'local' || normalized === 'cos') {
     return normalized
   }
   throw new StorageConfigError(`Unsupported STORAGE_TYPE: ${rawType}`)
@@ -18,6 +19,9 @@ export function createStorageProvider(options: StorageFactoryOptions = {}): Stor
   if (type === 'minio') {
     return new MinioStorageProvider()
   }
+  if (type === 's3') {
+    return new S3StorageProvider()
+  }
   if (type === 'local') {
     return new LocalStorageProvider()
   }
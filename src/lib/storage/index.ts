@@ -1,6 +1,18 @@
+import { createHash } from 'node:crypto'
+import { Readable, Transform, pipeline } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
 import { createScopedLogger } from '@/lib/logging/core'
 import { createStorageProvider } from '@/lib/storage/factory'
-import type { DeleteObjectsResult, StorageProvider } from '@/lib/storage/types'
+import type {
+  ByteRange,
+  DeleteObjectsResult,
+  HeadObjectResult,
+  ListObjectsParams,
+  ListObjectsResult,
+  ObjectStreamResult,
+  StorageProvider,
+  UploadStreamBody,
+} from '@/lib/storage/types'
 import { DEFAULT_SIGNED_URL_EXPIRES_SECONDS, withRetry } from '@/lib/storage/utils'
 
 const storageLogger = createScopedLogger({
@@ -51,6 +63,19 @@ export async function uploadObject(
   return result.key
 }
 
+/**
+ * 流式上传：数据源只能消费一次，因此不做重试，由调用方重新获取数据源后重试
+ */
+export async function uploadObjectStream(
+  body: UploadStreamBody,
+  key: string,
+  contentType?: string,
+  contentLength?: number,
+): Promise<string> {
+  const result = await getStorageProvider().uploadObjectStream({ key, body, contentType, contentLength })
+  return result.key
+}
+
 export async function deleteObject(key: string): Promise<void> {
   await getStorageProvider().deleteObject(key)
 }
@@ -67,6 +92,18 @@ export async function getObjectBuffer(key: string): Promise<Buffer> {
   return await getStorageProvider().getObjectBuffer(key)
 }
 
+export async function getObjectStream(key: string, range?: ByteRange): Promise<ObjectStreamResult> {
+  return await getStorageProvider().getObjectStream(key, range)
+}
+
+export async function headObject(key: string): Promise<HeadObjectResult | null> {
+  return await getStorageProvider().headObject(key)
+}
+
+export async function listObjects(params: ListObjectsParams): Promise<ListObjectsResult> {
+  return await getStorageProvider().listObjects(params)
+}
+
 export async function getSignedObjectUrl(key: string, expiresInSeconds: number = DEFAULT_SIGNED_URL_EXPIRES_SECONDS): Promise<string> {
   return await getStorageProvider().getSignedObjectUrl({
     key,
@@ -115,27 +152,91 @@ export async function downloadAndUploadImage(
   }, maxRetries, RETRY_DELAY_BASE_MS)
 }
 
-export async function downloadAndUploadVideo(
-  videoUrl: string,
+export interface DownloadAndUploadStreamOptions {
+  contentType?: string
+  requestHeaders?: Record<string, string>
+  maxRetries?: number
+}
+
+export interface StreamUploadDigest {
+  key: string
+  sha256: string
+  sizeBytes: number
+}
+
+/**
+ * 下载远程文件并边下边传到存储，不在内存中缓存完整文件；每次重试重新发起下载
+ * 上传过程中同时计算 sha256，供内容寻址去重使用
+ */
+export async function downloadAndUploadStreamWithDigest(
+  sourceUrl: string,
   key: string,
-  maxRetries: number = UPLOAD_MAX_RETRIES,
-  requestHeaders?: Record<string, string>,
-): Promise<string> {
+  options: DownloadAndUploadStreamOptions = {},
+): Promise<StreamUploadDigest> {
   return await withRetry(async () => {
-    const response = await fetch(toFetchableUrl(videoUrl), {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; VideoDownloader/1.0)',
-        ...(requestHeaders || {}),
-      },
+    const response = await fetch(toFetchableUrl(sourceUrl), {
+      headers: options.requestHeaders,
     })
 
-    if (!response.ok) {
-      throw new Error(`Failed to download video: ${response.status} ${response.statusText}`)
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download media: ${response.status} ${response.statusText}`)
     }
 
-    const buffer = Buffer.from(await response.arrayBuffer())
-    return await uploadObject(buffer, key, 1)
-  }, maxRetries, RETRY_DELAY_BASE_MS)
+    const hash = createHash('sha256')
+    let sizeBytes = 0
+    const digestStream = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk)
+        sizeBytes += chunk.length
+        callback(null, chunk)
+      },
+    })
+
+    // pipeline 在下载中断时销毁 digestStream，使上传侧收到错误而不是一直等待
+    const body = pipeline(
+      Readable.fromWeb(response.body as unknown as NodeReadableStream<Uint8Array>),
+      digestStream,
+      () => undefined,
+    )
+
+    const contentLength = Number.parseInt(response.headers.get('content-length') || '', 10)
+    const uploadedKey = await uploadObjectStream(
+      body,
+      key,
+      options.contentType || response.headers.get('content-type') || undefined,
+      Number.isFinite(contentLength) ? contentLength : undefined,
+    )
+
+    return { key: uploadedKey, sha256: hash.digest('hex'), sizeBytes }
+  }, options.maxRetries ?? UPLOAD_MAX_RETRIES, RETRY_DELAY_BASE_MS)
+}
+
+export async function downloadAndUploadStream(
+  sourceUrl: string,
+  key: string,
+  options: DownloadAndUploadStreamOptions = {},
+): Promise<string> {
+  const result = await downloadAndUploadStreamWithDigest(sourceUrl, key, options)
+  return result.key
+}
+
+export const VIDEO_DOWNLOAD_HEADERS: Readonly<Record<string, string>> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; VideoDownloader/1.0)',
+}
+
+export async function downloadAndUploadVideo(
+  videoUrl: string,
+  key: string,
+  maxRetries: number = UPLOAD_MAX_RETRIES,
+  requestHeaders?: Record<string, string>,
+): Promise<string> {
+  return await downloadAndUploadStream(videoUrl, key, {
+    maxRetries,
+    requestHeaders: {
+      ...VIDEO_DOWNLOAD_HEADERS,
+      ...(requestHeaders || {}),
+    },
+  })
 }
 
 export * from './signed-urls'
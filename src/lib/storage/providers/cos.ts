@@ -1,5 +1,17 @@
 import { StorageProviderNotImplementedError } from '@/lib/storage/errors'
-import type { DeleteObjectsResult, SignedUrlParams, StorageProvider, UploadObjectParams, UploadObjectResult } from '@/lib/storage/types'
+import type {
+  ByteRange,
+  DeleteObjectsResult,
+  HeadObjectResult,
+  ListObjectsParams,
+  ListObjectsResult,
+  ObjectStreamResult,
+  SignedUrlParams,
+  StorageProvider,
+  UploadObjectParams,
+  UploadObjectResult,
+  UploadObjectStreamParams,
+} from '@/lib/storage/types'
 
 export class CosStorageProvider implements StorageProvider {
   readonly kind = 'cos' as const
@@ -12,6 +24,10 @@ export class CosStorageProvider implements StorageProvider {
     throw new StorageProviderNotImplementedError('cos')
   }
 
+  async uploadObjectStream(_params: UploadObjectStreamParams): Promise<UploadObjectResult> {
+    throw new StorageProviderNotImplementedError('cos')
+  }
+
   async deleteObject(_key: string): Promise<void> {
     throw new StorageProviderNotImplementedError('cos')
   }
@@ -20,6 +36,14 @@ export class CosStorageProvider implements StorageProvider {
     throw new StorageProviderNotImplementedError('cos')
   }
 
+  async headObject(_key: string): Promise<HeadObjectResult | null> {
+    throw new StorageProviderNotImplementedError('cos')
+  }
+
+  async listObjects(_params: ListObjectsParams): Promise<ListObjectsResult> {
+    throw new StorageProviderNotImplementedError('cos')
+  }
+
   async getSignedObjectUrl(_params: SignedUrlParams): Promise<string> {
     throw new StorageProviderNotImplementedError('cos')
   }
@@ -28,6 +52,10 @@ export class CosStorageProvider implements StorageProvider {
     throw new StorageProviderNotImplementedError('cos')
   }
 
+  async getObjectStream(_key: string, _range?: ByteRange): Promise<ObjectStreamResult> {
+    throw new StorageProviderNotImplementedError('cos')
+  }
+
   extractStorageKey(_input: string | null | undefined): string | null {
     throw new StorageProviderNotImplementedError('cos')
   }
@@ -1,31 +1,155 @@
+import { createHash } from 'node:crypto'
+import { createReadStream, createWriteStream, type Dirent } from 'node:fs'
 import fs from 'node:fs/promises'
 import path from 'node:path'
-import type { DeleteObjectsResult, SignedUrlParams, StorageProvider, UploadObjectParams, UploadObjectResult } from '@/lib/storage/types'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { StorageConfigError } from '@/lib/storage/errors'
+import type {
+  ByteRange,
+  DeleteObjectsResult,
+  HeadObjectResult,
+  ListedObject,
+  ListObjectsParams,
+  ListObjectsResult,
+  ObjectStreamResult,
+  SignedUrlParams,
+  StorageProvider,
+  UploadObjectParams,
+  UploadObjectResult,
+  UploadObjectStreamParams,
+} from '@/lib/storage/types'
 import { normalizeKey, toFetchableUrl } from '@/lib/storage/utils'
 
-const UPLOAD_DIR = process.env.UPLOAD_DIR || './data/uploads'
+const DEFAULT_UPLOAD_DIR = './data/uploads'
+const MAX_SHARD_DEPTH = 4
+const DEFAULT_LIST_MAX_KEYS = 1000
+const TEMP_FILE_SUFFIX = '.uploading'
+const SHARD_SEGMENT_PATTERN = /^[0-9a-f]{2}$/
 
-function resolveUploadPath(key: string): string {
-  return path.join(process.cwd(), UPLOAD_DIR, normalizeKey(key))
+export interface LocalStorageOptions {
+  uploadDir?: string
+  // 分片目录层数 (0 表示不分片)，每层取 key 哈希的两位十六进制，避免单目录文件过多
+  shardDepth?: number
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'ENOENT'
+}
+
+function readShardDepth(): number {
+  const raw = process.env.UPLOAD_SHARD_DEPTH?.trim()
+  if (!raw) return 0
+  const depth = Number.parseInt(raw, 10)
+  if (!Number.isInteger(depth) || depth < 0 || depth > MAX_SHARD_DEPTH) {
+    throw new StorageConfigError(`Invalid UPLOAD_SHARD_DEPTH: ${raw}`)
+  }
+  return depth
 }
 
 export class LocalStorageProvider implements StorageProvider {
   readonly kind = 'local' as const
 
+  private readonly rootDir: string
+  private readonly shardDepth: number
+
+  constructor(options: LocalStorageOptions = {}) {
+    this.rootDir = path.join(process.cwd(), options.uploadDir || process.env.UPLOAD_DIR || DEFAULT_UPLOAD_DIR)
+    this.shardDepth = options.shardDepth ?? readShardDepth()
+  }
+
+  private shardSegments(key: string): string[] {
+    if (this.shardDepth === 0) return []
+    const digest = createHash('sha1').update(key).digest('hex')
+    return Array.from({ length: this.shardDepth }, (_, index) => digest.slice(index * 2, index * 2 + 2))
+  }
+
+  private toSafePath(relativePath: string): string {
+    const filePath = path.normalize(path.join(this.rootDir, relativePath))
+    if (!filePath.startsWith(path.normalize(this.rootDir) + path.sep)) {
+      throw new StorageConfigError(`Storage key escapes upload directory: ${relativePath}`)
+    }
+    return filePath
+  }
+
+  private writePath(key: string): string {
+    const normalizedKey = normalizeKey(key)
+    return this.toSafePath(path.join(...this.shardSegments(normalizedKey), normalizedKey))
+  }
+
+  /**
+   * 读取路径：优先分片目录，开启分片前写入的旧文件回退到平铺路径
+   */
+  private async readPath(key: string): Promise<string> {
+    const shardedPath = this.writePath(key)
+    if (this.shardDepth === 0) return shardedPath
+    try {
+      await fs.access(shardedPath)
+      return shardedPath
+    } catch {
+      return this.toSafePath(normalizeKey(key))
+    }
+  }
+
+  /**
+   * 由磁盘相对路径还原逻辑 key；只有哈希匹配的前缀目录才视为分片目录
+   */
+  private toLogicalKey(relativePath: string): string {
+    const segments = relativePath.split(path.sep)
+    if (this.shardDepth === 0 || segments.length <= this.shardDepth) return segments.join('/')
+    const prefix = segments.slice(0, this.shardDepth)
+    if (!prefix.every((segment) => SHARD_SEGMENT_PATTERN.test(segment))) return segments.join('/')
+    const key = segments.slice(this.shardDepth).join('/')
+    return this.shardSegments(key).join('/') === prefix.join('/') ? key : segments.join('/')
+  }
+
+  private async *walkFiles(dir: string): AsyncGenerator<string> {
+    let entries: Dirent[]
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch (error: unknown) {
+      if (isMissingFileError(error)) return
+      throw error
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        yield* this.walkFiles(entryPath)
+      } else if (entry.isFile() && !entry.name.endsWith(TEMP_FILE_SUFFIX)) {
+        yield entryPath
+      }
+    }
+  }
+
   async uploadObject(params: UploadObjectParams): Promise<UploadObjectResult> {
     const normalizedKey = normalizeKey(params.key)
-    const filePath = resolveUploadPath(normalizedKey)
+    const filePath = this.writePath(normalizedKey)
     await fs.mkdir(path.dirname(filePath), { recursive: true })
     await fs.writeFile(filePath, params.body)
     return { key: normalizedKey }
   }
 
+  async uploadObjectStream(params: UploadObjectStreamParams): Promise<UploadObjectResult> {
+    const normalizedKey = normalizeKey(params.key)
+    const filePath = this.writePath(normalizedKey)
+    const tempPath = `${filePath}.${Date.now()}${TEMP_FILE_SUFFIX}`
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+    try {
+      await pipeline(Readable.from(params.body), createWriteStream(tempPath))
+      await fs.rename(tempPath, filePath)
+    } catch (error: unknown) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+    return { key: normalizedKey }
+  }
+
   async deleteObject(key: string): Promise<void> {
     try {
-      await fs.unlink(resolveUploadPath(key))
+      await fs.unlink(await this.readPath(key))
     } catch (error: unknown) {
-      const code = (error as { code?: string })?.code
-      if (code !== 'ENOENT') {
+      if (!isMissingFileError(error)) {
         throw error
       }
     }
@@ -48,13 +172,80 @@ export class LocalStorageProvider implements StorageProvider {
     return { success, failed }
   }
 
+  async headObject(key: string): Promise<HeadObjectResult | null> {
+    try {
+      const stat = await fs.stat(await this.readPath(key))
+      if (!stat.isFile()) return null
+      return {
+        key: normalizeKey(key),
+        size: stat.size,
+        lastModified: stat.mtime,
+      }
+    } catch (error: unknown) {
+      if (isMissingFileError(error)) return null
+      throw error
+    }
+  }
+
+  /**
+   * 本地存储无索引，遍历上传目录后按 key 排序分页；continuationToken 为上一页最后一个 key
+   */
+  async listObjects(params: ListObjectsParams): Promise<ListObjectsResult> {
+    const prefix = normalizeKey(params.prefix)
+    const maxKeys = params.maxKeys || DEFAULT_LIST_MAX_KEYS
+    const matched: Array<{ key: string; filePath: string }> = []
+
+    for await (const filePath of this.walkFiles(this.rootDir)) {
+      const key = this.toLogicalKey(path.relative(this.rootDir, filePath))
+      if (!key.startsWith(prefix)) continue
+      if (params.continuationToken && key <= params.continuationToken) continue
+      matched.push({ key, filePath })
+    }
+
+    matched.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    const page = matched.slice(0, maxKeys)
+    const objects: ListedObject[] = []
+    for (const item of page) {
+      const stat = await fs.stat(item.filePath)
+      objects.push({ key: item.key, size: stat.size, lastModified: stat.mtime })
+    }
+
+    return {
+      objects,
+      nextContinuationToken: matched.length > maxKeys ? page[page.length - 1].key : null,
+    }
+  }
+
   async getSignedObjectUrl(params: SignedUrlParams): Promise<string> {
     void params.expiresInSeconds
     return `/api/files/${encodeURIComponent(normalizeKey(params.key))}`
   }
 
   async getObjectBuffer(key: string): Promise<Buffer> {
-    return await fs.readFile(resolveUploadPath(key))
+    return await fs.readFile(await this.readPath(key))
+  }
+
+  async getObjectStream(key: string, range?: ByteRange): Promise<ObjectStreamResult> {
+    const filePath = await this.readPath(key)
+    const stat = await fs.stat(filePath)
+    const totalSize = stat.size
+
+    if (!range) {
+      return {
+        body: createReadStream(filePath),
+        contentLength: totalSize,
+        totalSize,
+        range: null,
+      }
+    }
+
+    const end = Math.min(range.end ?? totalSize - 1, totalSize - 1)
+    return {
+      body: createReadStream(filePath, { start: range.start, end }),
+      contentLength: Math.max(0, end - range.start + 1),
+      totalSize,
+      range: { start: range.start, end },
+    }
   }
 
   extractStorageKey(input: string | null | undefined): string | null {
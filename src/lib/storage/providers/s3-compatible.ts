@@ -0,0 +1,377 @@
+import type { Readable } from 'node:stream'
+import type {
+  ByteRange,
+  DeleteObjectsResult,
+  HeadObjectResult,
+  ListObjectsParams,
+  ListObjectsResult,
+  ObjectStreamResult,
+  SignedUrlParams,
+  StorageProvider,
+  StorageType,
+  UploadObjectParams,
+  UploadObjectResult,
+  UploadObjectStreamParams,
+} from '@/lib/storage/types'
+import { chunkToBuffer, streamToBuffer, toFetchableUrl } from '@/lib/storage/utils'
+
+// S3 要求除最后一片外每片至少 5MB
+export const MIN_MULTIPART_PART_SIZE_BYTES = 5 * 1024 * 1024
+export const DEFAULT_MULTIPART_PART_SIZE_BYTES = 8 * 1024 * 1024
+const DEFAULT_LIST_MAX_KEYS = 1000
+
+type S3ClientLike = {
+  send(command: unknown): Promise<unknown>
+}
+
+type S3CommandConstructor = new (input: Record<string, unknown>) => unknown
+
+type S3SdkModule = {
+  S3Client: new (config: Record<string, unknown>) => S3ClientLike
+  PutObjectCommand: S3CommandConstructor
+  DeleteObjectCommand: S3CommandConstructor
+  DeleteObjectsCommand: S3CommandConstructor
+  GetObjectCommand: S3CommandConstructor
+  HeadObjectCommand: S3CommandConstructor
+  ListObjectsV2Command: S3CommandConstructor
+  CreateMultipartUploadCommand: S3CommandConstructor
+  UploadPartCommand: S3CommandConstructor
+  CompleteMultipartUploadCommand: S3CommandConstructor
+  AbortMultipartUploadCommand: S3CommandConstructor
+}
+
+type PresignerModule = {
+  getSignedUrl: (client: S3ClientLike, command: unknown, options: { expiresIn: number }) => Promise<string>
+}
+
+type S3ErrorShape = {
+  name?: string
+  Code?: string
+  $metadata?: {
+    httpStatusCode?: number
+  }
+}
+
+export interface S3CompatibleConfig {
+  bucket: string
+  region: string
+  endpoint?: string
+  forcePathStyle: boolean
+  // 未提供时使用 AWS SDK 默认凭证链 (环境变量 / 实例角色等)
+  credentials?: {
+    accessKeyId: string
+    secretAccessKey: string
+  }
+  partSizeBytes?: number
+}
+
+function isNotFoundError(error: unknown): boolean {
+  const s3Error = error as S3ErrorShape
+  return s3Error?.name === 'NotFound'
+    || s3Error?.name === 'NoSuchKey'
+    || s3Error?.Code === 'NoSuchKey'
+    || s3Error?.$metadata?.httpStatusCode === 404
+}
+
+function parseContentRange(value: string | undefined): { start: number; end: number; total: number } | null {
+  const match = value?.match(/^bytes (\d+)-(\d+)\/(\d+)$/)
+  if (!match) return null
+  return { start: Number(match[1]), end: Number(match[2]), total: Number(match[3]) }
+}
+
+/**
+ * S3 协议通用实现 (MinIO / AWS S3 / R2 等)，具体 provider 只负责从环境变量组装配置
+ */
+export abstract class S3CompatibleStorageProvider implements StorageProvider {
+  abstract readonly kind: StorageType
+
+  protected readonly bucket: string
+  private readonly config: S3CompatibleConfig
+  private readonly partSizeBytes: number
+  private clientPromise: Promise<S3ClientLike> | null = null
+
+  protected constructor(config: S3CompatibleConfig) {
+    this.config = config
+    this.bucket = config.bucket
+    this.partSizeBytes = Math.max(
+      MIN_MULTIPART_PART_SIZE_BYTES,
+      config.partSizeBytes || DEFAULT_MULTIPART_PART_SIZE_BYTES,
+    )
+  }
+
+  private async loadSdk(): Promise<S3SdkModule> {
+    return await import('@aws-sdk/client-s3') as unknown as S3SdkModule
+  }
+
+  private async loadPresigner(): Promise<PresignerModule> {
+    return await import('@aws-sdk/s3-request-presigner') as unknown as PresignerModule
+  }
+
+  private async getClient(): Promise<S3ClientLike> {
+    if (!this.clientPromise) {
+      this.clientPromise = (async () => {
+        const { S3Client } = await this.loadSdk()
+        return new S3Client({
+          ...(this.config.endpoint ? { endpoint: this.config.endpoint } : {}),
+          region: this.config.region,
+          forcePathStyle: this.config.forcePathStyle,
+          ...(this.config.credentials ? { credentials: this.config.credentials } : {}),
+        })
+      })()
+    }
+    return await this.clientPromise
+  }
+
+  async uploadObject(params: UploadObjectParams): Promise<UploadObjectResult> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    await client.send(new sdk.PutObjectCommand({
+      Bucket: this.bucket,
+      Key: params.key,
+      Body: params.body,
+      ContentType: params.contentType,
+    }))
+
+    return { key: params.key }
+  }
+
+  /**
+   * 流式上传：不足一个分片时退化为单次 PutObject，否则走分片上传，内存占用不超过一个分片
+   * 任一分片失败会中止分片上传，避免残留未完成的分片
+   */
+  async uploadObjectStream(params: UploadObjectStreamParams): Promise<UploadObjectResult> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    const parts: Array<{ ETag?: string; PartNumber: number }> = []
+    let uploadId: string | null = null
+    let pending: Buffer[] = []
+    let pendingBytes = 0
+
+    const uploadPart = async (body: Buffer) => {
+      if (!uploadId) {
+        const created = await client.send(new sdk.CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: params.key,
+          ContentType: params.contentType,
+        })) as { UploadId?: string }
+        if (!created.UploadId) {
+          throw new Error(`Failed to create multipart upload for ${params.key}`)
+        }
+        uploadId = created.UploadId
+      }
+      const partNumber = parts.length + 1
+      const result = await client.send(new sdk.UploadPartCommand({
+        Bucket: this.bucket,
+        Key: params.key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body,
+      })) as { ETag?: string }
+      parts.push({ ETag: result.ETag, PartNumber: partNumber })
+    }
+
+    try {
+      for await (const chunk of params.body) {
+        const buffer = chunkToBuffer(chunk)
+        pending.push(buffer)
+        pendingBytes += buffer.length
+        while (pendingBytes >= this.partSizeBytes) {
+          const merged = Buffer.concat(pending)
+          await uploadPart(merged.subarray(0, this.partSizeBytes))
+          const rest = merged.subarray(this.partSizeBytes)
+          pending = rest.length > 0 ? [rest] : []
+          pendingBytes = rest.length
+        }
+      }
+
+      if (!uploadId) {
+        return await this.uploadObject({
+          key: params.key,
+          body: Buffer.concat(pending),
+          contentType: params.contentType,
+        })
+      }
+
+      if (pendingBytes > 0) {
+        await uploadPart(Buffer.concat(pending))
+      }
+      await client.send(new sdk.CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: params.key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts },
+      }))
+      return { key: params.key }
+    } catch (error: unknown) {
+      if (uploadId) {
+        await client.send(new sdk.AbortMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: params.key,
+          UploadId: uploadId,
+        })).catch(() => undefined)
+      }
+      throw error
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    await client.send(new sdk.DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }))
+  }
+
+  async deleteObjects(keys: string[]): Promise<DeleteObjectsResult> {
+    const validKeys = keys.filter((key) => typeof key === 'string' && key.trim().length > 0)
+    if (validKeys.length === 0) {
+      return { success: 0, failed: 0 }
+    }
+
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    const result = await client.send(new sdk.DeleteObjectsCommand({
+      Bucket: this.bucket,
+      Delete: {
+        Objects: validKeys.map((key) => ({ Key: key })),
+      },
+    })) as { Deleted?: unknown[]; Errors?: unknown[] }
+
+    return {
+      success: result.Deleted?.length ?? 0,
+      failed: result.Errors?.length ?? 0,
+    }
+  }
+
+  async headObject(key: string): Promise<HeadObjectResult | null> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    try {
+      const result = await client.send(new sdk.HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      })) as { ContentLength?: number; ContentType?: string; LastModified?: Date; ETag?: string }
+      return {
+        key,
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType,
+        lastModified: result.LastModified,
+        etag: result.ETag,
+      }
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) return null
+      throw error
+    }
+  }
+
+  async listObjects(params: ListObjectsParams): Promise<ListObjectsResult> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    const result = await client.send(new sdk.ListObjectsV2Command({
+      Bucket: this.bucket,
+      Prefix: params.prefix,
+      MaxKeys: params.maxKeys || DEFAULT_LIST_MAX_KEYS,
+      ContinuationToken: params.continuationToken,
+    })) as {
+      Contents?: Array<{ Key?: string; Size?: number; LastModified?: Date }>
+      IsTruncated?: boolean
+      NextContinuationToken?: string
+    }
+
+    return {
+      objects: (result.Contents || [])
+        .filter((item): item is { Key: string; Size?: number; LastModified?: Date } => !!item.Key)
+        .map((item) => ({
+          key: item.Key,
+          size: item.Size ?? 0,
+          lastModified: item.LastModified,
+        })),
+      nextContinuationToken: result.IsTruncated ? result.NextContinuationToken || null : null,
+    }
+  }
+
+  async getSignedObjectUrl(params: SignedUrlParams): Promise<string> {
+    const sdk = await this.loadSdk()
+    const presigner = await this.loadPresigner()
+    const client = await this.getClient()
+
+    return await presigner.getSignedUrl(
+      client,
+      new sdk.GetObjectCommand({
+        Bucket: this.bucket,
+        Key: params.key,
+      }),
+      {
+        expiresIn: params.expiresInSeconds,
+      },
+    )
+  }
+
+  async getObjectBuffer(key: string): Promise<Buffer> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    const result = await client.send(new sdk.GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    })) as { Body?: unknown }
+    return await streamToBuffer(result.Body)
+  }
+
+  async getObjectStream(key: string, range?: ByteRange): Promise<ObjectStreamResult> {
+    const sdk = await this.loadSdk()
+    const client = await this.getClient()
+    const result = await client.send(new sdk.GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end ?? ''}` : undefined,
+    })) as { Body?: unknown; ContentLength?: number; ContentRange?: string; ContentType?: string }
+
+    if (!result.Body) {
+      throw new Error('Empty response body from storage provider')
+    }
+
+    const contentLength = result.ContentLength ?? 0
+    const contentRange = parseContentRange(result.ContentRange)
+    return {
+      body: result.Body as Readable,
+      contentLength,
+      totalSize: contentRange ? contentRange.total : contentLength,
+      contentType: result.ContentType,
+      range: contentRange ? { start: contentRange.start, end: contentRange.end } : null,
+    }
+  }
+
+  extractStorageKey(input: string | null | undefined): string | null {
+    if (!input) return null
+
+    if (!input.startsWith('http') && !input.startsWith('/')) {
+      return input
+    }
+
+    try {
+      const parsed = new URL(input)
+      let pathname = parsed.pathname.replace(/^\/+/, '')
+      const bucketPrefix = `${this.bucket}/`
+      if (pathname.startsWith(bucketPrefix)) {
+        pathname = pathname.slice(bucketPrefix.length)
+      }
+      if (parsed.hostname.startsWith(`${this.bucket}.`) && pathname) {
+        return pathname
+      }
+      return pathname || null
+    } catch {
+      return null
+    }
+  }
+
+  toFetchableUrl(inputUrl: string): string {
+    return toFetchableUrl(inputUrl)
+  }
+
+  generateUniqueKey(params: { prefix: string; ext: string }): string {
+    const timestamp = Date.now()
+    const random = Math.random().toString(36).slice(2, 8)
+    return `images/${params.prefix}-${timestamp}-${random}.${params.ext}`
+  }
+}
@@ -0,0 +1,45 @@
+import { StorageConfigError } from '@/lib/storage/errors'
+import { S3CompatibleStorageProvider } from '@/lib/storage/providers/s3-compatible'
+import { requireEnv } from '@/lib/storage/utils'
+
+const DEFAULT_S3_REGION = 'us-east-1'
+
+function readOptionalEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim()
+  return value || undefined
+}
+
+function readPartSizeBytes(): number | undefined {
+  const raw = readOptionalEnv('S3_MULTIPART_PART_SIZE_MB')
+  if (!raw) return undefined
+  const megabytes = Number.parseInt(raw, 10)
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    throw new StorageConfigError(`Invalid S3_MULTIPART_PART_SIZE_MB: ${raw}`)
+  }
+  return megabytes * 1024 * 1024
+}
+
+/**
+ * 通用 S3 provider (AWS S3 / Cloudflare R2 / 任意 S3 兼容端点)
+ * 未配置 S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY 时使用 SDK 默认凭证链
+ */
+export class S3StorageProvider extends S3CompatibleStorageProvider {
+  readonly kind = 's3' as const
+
+  constructor() {
+    const accessKeyId = readOptionalEnv('S3_ACCESS_KEY_ID')
+    const secretAccessKey = readOptionalEnv('S3_SECRET_ACCESS_KEY')
+    if (!!accessKeyId !== !!secretAccessKey) {
+      throw new StorageConfigError('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be provided together')
+    }
+
+    super({
+      bucket: requireEnv('S3_BUCKET'),
+      region: readOptionalEnv('S3_REGION') || DEFAULT_S3_REGION,
+      endpoint: readOptionalEnv('S3_ENDPOINT'),
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+      partSizeBytes: readPartSizeBytes(),
+    })
+  }
+}
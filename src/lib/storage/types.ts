@@ -1,4 +1,6 @@
-export type StorageType = 'minio' | 'local' | 'cos'
+import type { Readable } from 'node:stream'
+
+export type StorageType = 'minio' | 's3' | 'local' | 'cos'
 
 export interface UploadObjectParams {
   key: string
@@ -6,6 +8,15 @@ export interface UploadObjectParams {
   contentType?: string
 }
 
+export type UploadStreamBody = AsyncIterable<Uint8Array | Buffer | string>
+
+export interface UploadObjectStreamParams {
+  key: string
+  body: UploadStreamBody
+  contentType?: string
+  contentLength?: number
+}
+
 export interface UploadObjectResult {
   key: string
 }
@@ -20,13 +31,58 @@ export interface SignedUrlParams {
   expiresInSeconds: number
 }
 
+export interface HeadObjectResult {
+  key: string
+  size: number
+  contentType?: string
+  lastModified?: Date
+  etag?: string
+}
+
+export interface ListObjectsParams {
+  prefix: string
+  maxKeys?: number
+  continuationToken?: string
+}
+
+export interface ListedObject {
+  key: string
+  size: number
+  lastModified?: Date
+}
+
+export interface ListObjectsResult {
+  objects: ListedObject[]
+  nextContinuationToken: string | null
+}
+
+/**
+ * 字节范围，end 为闭区间；缺省 end 表示读到末尾
+ */
+export interface ByteRange {
+  start: number
+  end?: number
+}
+
+export interface ObjectStreamResult {
+  body: Readable
+  contentLength: number
+  totalSize: number
+  contentType?: string
+  range: { start: number; end: number } | null
+}
+
 export interface StorageProvider {
   readonly kind: StorageType
   uploadObject(params: UploadObjectParams): Promise<UploadObjectResult>
+  uploadObjectStream(params: UploadObjectStreamParams): Promise<UploadObjectResult>
   deleteObject(key: string): Promise<void>
   deleteObjects(keys: string[]): Promise<DeleteObjectsResult>
+  headObject(key: string): Promise<HeadObjectResult | null>
+  listObjects(params: ListObjectsParams): Promise<ListObjectsResult>
   getSignedObjectUrl(params: SignedUrlParams): Promise<string>
   getObjectBuffer(key: string): Promise<Buffer>
+  getObjectStream(key: string, range?: ByteRange): Promise<ObjectStreamResult>
   extractStorageKey(input: string | null | undefined): string | null
   toFetchableUrl(inputUrl: string): string
   generateUniqueKey(params: { prefix: string; ext: string }): string
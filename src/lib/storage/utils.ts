@@ -67,16 +67,41 @@ export async function streamToBuffer(body: unknown): Promise<Buffer> {
 
   const chunks: Buffer[] = []
   for await (const chunk of body as AsyncIterable<unknown>) {
-    if (Buffer.isBuffer(chunk)) {
-      chunks.push(chunk)
-      continue
-    }
-    if (chunk instanceof Uint8Array) {
-      chunks.push(Buffer.from(chunk))
-      continue
-    }
-    chunks.push(Buffer.from(String(chunk)))
+    chunks.push(chunkToBuffer(chunk))
   }
 
   return Buffer.concat(chunks)
 }
+
+export function chunkToBuffer(chunk: unknown): Buffer {
+  if (Buffer.isBuffer(chunk)) {
+    return chunk
+  }
+  if (chunk instanceof Uint8Array) {
+    return Buffer.from(chunk)
+  }
+  return Buffer.from(String(chunk))
+}
+
+/**
+ * 解析单段 HTTP Range 头 (bytes=start-end / bytes=start- / bytes=-suffix)
+ * 返回 null 表示无 Range 或格式不支持 (按完整内容返回)，'unsatisfiable' 表示范围越界
+ */
+export function parseByteRange(
+  header: string | null | undefined,
+  totalSize: number,
+): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  if (!match[1]) {
+    const suffix = Number(match[2])
+    if (suffix === 0 || totalSize === 0) return 'unsatisfiable'
+    return { start: Math.max(0, totalSize - suffix), end: totalSize - 1 }
+  }
+
+  const start = Number(match[1])
+  const end = match[2] ? Math.min(Number(match[2]), totalSize - 1) : totalSize - 1
+  if (start >= totalSize || end < start) return 'unsatisfiable'
+  return { start, end }
+}
@@ -0,0 +1,145 @@
+import type { VideoEditorProject } from '@/features/video-editor/types/editor.types'
+import { computeClipPositions } from '@/features/video-editor/utils/time-utils'
+import type { SubtitleCue } from './types'
+
+const DEFAULT_PANEL_MS = 3000
+const DEFAULT_LINE_MS = 3000
+
+export interface SubtitlePanelSource {
+  id: string
+  panelIndex: number
+  duration: number | null
+  srtStart: number | null
+  srtEnd: number | null
+  srtSegment: string | null
+}
+
+export interface SubtitleStoryboardSource {
+  clipId: string
+  panels: SubtitlePanelSource[]
+}
+
+export interface SubtitleVoiceLineSource {
+  id: string
+  lineIndex: number
+  speaker: string
+  content: string
+  audioDuration: number | null
+  matchedPanelId: string | null
+}
+
+export interface SubtitleEpisodeSource {
+  clipIds: string[]
+  storyboards: SubtitleStoryboardSource[]
+  voiceLines: SubtitleVoiceLineSource[]
+}
+
+/**
+ * 相邻字幕重叠时截断前一条，避免播放器同时显示两行对白
+ */
+function trimOverlaps(cues: SubtitleCue[]): SubtitleCue[] {
+  const sorted = [...cues].sort((a, b) => a.startMs - b.startMs)
+  return sorted.map((cue, index) => {
+    const next = sorted[index + 1]
+    if (next && next.startMs > cue.startMs && next.startMs < cue.endMs) {
+      return { ...cue, endMs: next.startMs }
+    }
+    return cue
+  })
+}
+
+/**
+ * 从编辑器项目提取字幕：主轨片段附属字幕 + 附加轨道中 role=subtitle 的文字
+ */
+export function cuesFromEditorProject(
+  project: Pick<VideoEditorProject, 'config' | 'timeline' | 'tracks'>,
+  resolveSpeaker: (voiceLineId: string) => string | undefined = () => undefined,
+): SubtitleCue[] {
+  const frameMs = 1000 / project.config.fps
+  const cues: SubtitleCue[] = []
+
+  for (const clip of computeClipPositions(project.timeline)) {
+    const subtitle = clip.attachment?.subtitle
+    if (!subtitle?.text) continue
+    const voiceLineId = clip.attachment?.audio?.voiceLineId
+    cues.push({
+      startMs: Math.round(clip.startFrame * frameMs),
+      endMs: Math.round(clip.endFrame * frameMs),
+      text: subtitle.text,
+      speaker: subtitle.speaker || (voiceLineId ? resolveSpeaker(voiceLineId) : undefined),
+    })
+  }
+
+  for (const track of project.tracks || []) {
+    if (track.kind !== 'text' || track.hidden) continue
+    for (const item of track.items) {
+      if (item.type !== 'text' || item.role !== 'subtitle') continue
+      cues.push({
+        startMs: Math.round(item.startFrame * frameMs),
+        endMs: Math.round((item.startFrame + item.durationInFrames) * frameMs),
+        text: item.text,
+        speaker: item.speaker,
+      })
+    }
+  }
+
+  return trimOverlaps(cues)
+}
+
+function panelDurationMs(panel: SubtitlePanelSource): number {
+  if (panel.duration && panel.duration > 0) return Math.round(panel.duration * 1000)
+  if (panel.srtStart !== null && panel.srtEnd !== null && panel.srtEnd > panel.srtStart) {
+    return Math.round((panel.srtEnd - panel.srtStart) * 1000)
+  }
+  return DEFAULT_PANEL_MS
+}
+
+function lineDurationMs(line: SubtitleVoiceLineSource): number {
+  return line.audioDuration && line.audioDuration > 0 ? line.audioDuration : DEFAULT_LINE_MS
+}
+
+/**
+ * 无剪辑项目时，由台词 + 面板时长推算字幕时间轴
+ *
+ * - 面板按片段顺序 + panelIndex 依次排列，每个面板占用 max(面板时长, 匹配台词总时长)
+ * - 匹配到面板的台词在面板内依次排列；没有台词的面板使用 srtSegment 作为旁白字幕
+ * - 尚未生成分镜时按台词顺序连续排列
+ */
+export function cuesFromVoiceLines(source: SubtitleEpisodeSource): SubtitleCue[] {
+  const lines = [...source.voiceLines].sort((a, b) => a.lineIndex - b.lineIndex)
+  const cues: SubtitleCue[] = []
+
+  if (source.storyboards.length === 0) {
+    let cursor = 0
+    for (const line of lines) {
+      const duration = lineDurationMs(line)
+      cues.push({ startMs: cursor, endMs: cursor + duration, text: line.content, speaker: line.speaker })
+      cursor += duration
+    }
+    return cues
+  }
+
+  const clipOrder = new Map(source.clipIds.map((id, index) => [id, index]))
+  const panels = [...source.storyboards]
+    .sort((a, b) => (clipOrder.get(a.clipId) ?? Number.MAX_SAFE_INTEGER) - (clipOrder.get(b.clipId) ?? Number.MAX_SAFE_INTEGER))
+    .flatMap((storyboard) => [...storyboard.panels].sort((a, b) => a.panelIndex - b.panelIndex))
+
+  let cursor = 0
+  for (const panel of panels) {
+    const matched = lines.filter((line) => line.matchedPanelId === panel.id)
+    let lineCursor = cursor
+    for (const line of matched) {
+      const duration = lineDurationMs(line)
+      cues.push({ startMs: lineCursor, endMs: lineCursor + duration, text: line.content, speaker: line.speaker })
+      lineCursor += duration
+    }
+
+    const span = Math.max(panelDurationMs(panel), lineCursor - cursor)
+    if (matched.length === 0 && panel.srtSegment?.trim()) {
+      cues.push({ startMs: cursor, endMs: cursor + span, text: panel.srtSegment.trim() })
+    }
+    cursor += span
+  }
+
+  return cues
+}
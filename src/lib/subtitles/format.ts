@@ -0,0 +1,144 @@
+import type { AssStyleOptions, SubtitleCue, SubtitleFormat } from './types'
+
+const SUBTITLE_FORMATS: ReadonlySet<string> = new Set<SubtitleFormat>(['srt', 'vtt', 'ass'])
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  ass: 'text/x-ssa; charset=utf-8',
+}
+
+// 按说话人轮换的 ASS 主色 (&HBBGGRR)，默认样式固定为白色
+const SPEAKER_COLORS = ['&H00FFFFFF', '&H0000D7FF', '&H00FFBF00', '&H0080FF80', '&H00FF80FF', '&H0080C0FF']
+
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === 'string' && SUBTITLE_FORMATS.has(value)
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function splitMs(ms: number) {
+  const total = Math.max(0, Math.round(ms))
+  return {
+    hours: Math.floor(total / 3_600_000),
+    minutes: Math.floor((total % 3_600_000) / 60_000),
+    seconds: Math.floor((total % 60_000) / 1000),
+    millis: total % 1000,
+  }
+}
+
+/**
+ * 00:00:02,500
+ */
+export function formatSrtTimestamp(ms: number): string {
+  const { hours, minutes, seconds, millis } = splitMs(ms)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(millis, 3)}`
+}
+
+/**
+ * 00:00:02.500
+ */
+export function formatVttTimestamp(ms: number): string {
+  const { hours, minutes, seconds, millis } = splitMs(ms)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`
+}
+
+/**
+ * 0:00:02.50 (ASS 精度为百分之一秒)
+ */
+export function formatAssTimestamp(ms: number): string {
+  const { hours, minutes, seconds, millis } = splitMs(ms)
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(millis / 10))}`
+}
+
+function sortCues(cues: SubtitleCue[]): SubtitleCue[] {
+  return cues
+    .filter((cue) => cue.text.trim() && cue.endMs > cue.startMs)
+    .sort((a, b) => a.startMs - b.startMs)
+}
+
+export function toSRT(cues: SubtitleCue[]): string {
+  return sortCues(cues)
+    .map((cue, index) => `${index + 1}\n${formatSrtTimestamp(cue.startMs)} --> ${formatSrtTimestamp(cue.endMs)}\n${cue.text.trim()}`)
+    .join('\n\n') + '\n'
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function toWebVTT(cues: SubtitleCue[]): string {
+  const body = sortCues(cues).map((cue) => {
+    const text = escapeVttText(cue.text.trim())
+    const payload = cue.speaker ? `<v ${escapeVttText(cue.speaker)}>${text}` : text
+    return `${formatVttTimestamp(cue.startMs)} --> ${formatVttTimestamp(cue.endMs)}\n${payload}`
+  })
+  return ['WEBVTT', ...body].join('\n\n') + '\n'
+}
+
+/**
+ * ASS 样式名不能包含逗号
+ */
+function toAssStyleName(speaker: string): string {
+  return speaker.replace(/,/g, '_').trim() || 'Default'
+}
+
+function escapeAssText(text: string): string {
+  return text.trim().replace(/\r?\n/g, '\\N').replace(/[{}]/g, '')
+}
+
+export function toASS(cues: SubtitleCue[], options: AssStyleOptions): string {
+  const fontName = options.fontName || 'Noto Sans CJK SC'
+  const fontSize = options.fontSize || Math.round(options.height / 18)
+  const marginV = Math.round(options.height / 20)
+  const sorted = sortCues(cues)
+
+  const speakers = Array.from(new Set(sorted.map((cue) => cue.speaker).filter((speaker): speaker is string => !!speaker)))
+  const styleLine = (name: string, color: string) => (
+    `Style: ${name},${fontName},${fontSize},${color},&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,${marginV},1`
+  )
+
+  const styles = [
+    styleLine('Default', SPEAKER_COLORS[0]),
+    ...speakers.map((speaker, index) => styleLine(
+      toAssStyleName(speaker),
+      SPEAKER_COLORS[(index + 1) % SPEAKER_COLORS.length],
+    )),
+  ]
+
+  const events = sorted.map((cue) => {
+    const style = cue.speaker ? toAssStyleName(cue.speaker) : 'Default'
+    const name = (cue.speaker || '').replace(/,/g, '_')
+    return `Dialogue: 0,${formatAssTimestamp(cue.startMs)},${formatAssTimestamp(cue.endMs)},${style},${name},0,0,0,,${escapeAssText(cue.text)}`
+  })
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${options.width}`,
+    `PlayResY: ${options.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    ...styles,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+  ].join('\n') + '\n'
+}
+
+export function serializeSubtitles(format: SubtitleFormat, cues: SubtitleCue[], assOptions: AssStyleOptions): string {
+  switch (format) {
+    case 'srt':
+      return toSRT(cues)
+    case 'vtt':
+      return toWebVTT(cues)
+    case 'ass':
+      return toASS(cues, assOptions)
+  }
+}
@@ -0,0 +1,15 @@
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass'
+
+export interface SubtitleCue {
+  startMs: number
+  endMs: number
+  text: string
+  speaker?: string
+}
+
+export interface AssStyleOptions {
+  width: number
+  height: number
+  fontName?: string
+  fontSize?: number
+}
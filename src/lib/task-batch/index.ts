@@ -0,0 +1,13 @@
+export * from './types'
+export { parseTaskBatchRequest } from './request'
+export { planTaskBatch, quoteTaskBatchItem } from './selection'
+export {
+  cancelTaskBatch,
+  createTaskBatch,
+  getTaskBatch,
+  listTaskBatches,
+  quoteTaskBatch,
+  refreshTaskBatch,
+  refreshTaskBatchForTaskPayload,
+  retryFailedTaskBatch,
+} from './service'
@@ -0,0 +1,79 @@
+import { ApiError } from '@/lib/api-errors'
+import {
+  TASK_BATCH_KINDS,
+  type TaskBatchKind,
+  type TaskBatchOptions,
+  type TaskBatchRequest,
+  type TaskBatchSelection,
+} from './types'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readIdList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || !id.trim())) {
+    throw new ApiError('INVALID_PARAMS', { code: 'TASK_BATCH_SELECTION_INVALID', field })
+  }
+  return value.map((id: string) => id.trim())
+}
+
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function parseSelection(value: unknown): TaskBatchSelection {
+  if (value === undefined || value === null) return {}
+  if (!isRecord(value)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'TASK_BATCH_SELECTION_INVALID', field: 'selection' })
+  }
+  const storyboardIds = readIdList(value.storyboardIds, 'selection.storyboardIds')
+  const targetIds = readIdList(value.targetIds, 'selection.targetIds')
+  return {
+    ...(storyboardIds ? { storyboardIds } : {}),
+    ...(targetIds ? { targetIds } : {}),
+  }
+}
+
+function parseOptions(value: unknown): TaskBatchOptions {
+  if (value === undefined || value === null) return {}
+  if (!isRecord(value)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'TASK_BATCH_OPTIONS_INVALID', field: 'options' })
+  }
+  const videoModel = readOptionalString(value.videoModel)
+  const audioModel = readOptionalString(value.audioModel)
+  const lipSyncModel = readOptionalString(value.lipSyncModel)
+  return {
+    ...(videoModel ? { videoModel } : {}),
+    ...(isRecord(value.generationOptions) ? { generationOptions: value.generationOptions } : {}),
+    ...(audioModel ? { audioModel } : {}),
+    ...(lipSyncModel ? { lipSyncModel } : {}),
+  }
+}
+
+/**
+ * 解析报价 / 创建批量共用的请求体：{ episodeId, kind, selection?, options? }
+ */
+export function parseTaskBatchRequest(
+  body: unknown,
+  scope: { projectId: string; userId: string },
+): TaskBatchRequest {
+  const input = isRecord(body) ? body : {}
+  const episodeId = readOptionalString(input.episodeId)
+  if (!episodeId) {
+    throw new ApiError('INVALID_PARAMS', { field: 'episodeId' })
+  }
+  const kind = input.kind
+  if (typeof kind !== 'string' || !TASK_BATCH_KINDS.includes(kind as TaskBatchKind)) {
+    throw new ApiError('INVALID_PARAMS', { code: 'TASK_BATCH_KIND_INVALID', field: 'kind' })
+  }
+  return {
+    projectId: scope.projectId,
+    userId: scope.userId,
+    episodeId,
+    kind: kind as TaskBatchKind,
+    selection: parseSelection(input.selection),
+    options: parseOptions(input.options),
+  }
+}
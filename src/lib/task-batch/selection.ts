@@ -0,0 +1,320 @@
+import type { Prisma } from '@prisma/client'
+import { ApiError } from '@/lib/api-errors'
+import { getProviderKey, resolveModelSelection, resolveModelSelectionOrSingle } from '@/lib/api-config'
+import { buildDefaultTaskBillingInfo } from '@/lib/billing'
+import { BillingOperationError } from '@/lib/billing/errors'
+import { getProjectModelConfig, resolveProjectModelCapabilityGenerationOptions } from '@/lib/config-service'
+import { composeModelKey, parseModelKeyStrict } from '@/lib/model-config-contract'
+import { prisma } from '@/lib/prisma'
+import type { TaskType } from '@/lib/task/types'
+import { estimateVoiceLineMaxSeconds } from '@/lib/voice/generate-voice-line'
+import {
+  hasVoiceBindingForProvider,
+  parseSpeakerVoiceMap,
+  type CharacterVoiceFields,
+} from '@/lib/voice/provider-voice-binding'
+import {
+  TASK_BATCH_KIND,
+  TASK_BATCH_TASK_TYPES,
+  type TaskBatchPlan,
+  type TaskBatchPlanItem,
+  type TaskBatchRequest,
+} from './types'
+
+const DEFAULT_LIPSYNC_MODEL_KEY = composeModelKey('fal', 'fal-ai/kling-video/lipsync/audio-to-video')
+
+const VIDEO_CAPABILITY_ERROR_CODES = new Set([
+  'BILLING_UNKNOWN_VIDEO_CAPABILITY_COMBINATION',
+  'BILLING_UNKNOWN_VIDEO_RESOLUTION',
+])
+
+type PlannedTarget = Omit<TaskBatchPlanItem, 'cost' | 'priced'>
+
+function readModelKey(value: unknown, field: string): string {
+  const modelKey = typeof value === 'string' ? value.trim() : ''
+  if (modelKey && !parseModelKeyStrict(modelKey)) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'MODEL_KEY_INVALID',
+      field,
+    })
+  }
+  return modelKey
+}
+
+/**
+ * 单条预估：与子任务提交时的 billingInfo 计算一致
+ * 无内置价格的模型不阻止提交，只标记为未计价
+ */
+export function quoteTaskBatchItem(taskType: TaskType, target: PlannedTarget): TaskBatchPlanItem {
+  try {
+    const info = buildDefaultTaskBillingInfo(taskType, target.payload)
+    const cost = info?.billable ? info.maxFrozenCost : 0
+    return { ...target, cost, priced: cost > 0 }
+  } catch (error) {
+    if (error instanceof BillingOperationError && VIDEO_CAPABILITY_ERROR_CODES.has(error.code)) {
+      throw new ApiError('INVALID_PARAMS', {
+        code: 'VIDEO_CAPABILITY_COMBINATION_UNSUPPORTED',
+        field: 'options.generationOptions',
+      })
+    }
+    if (error instanceof BillingOperationError && error.code === 'BILLING_UNKNOWN_MODEL') {
+      return { ...target, cost: 0, priced: false }
+    }
+    throw error
+  }
+}
+
+function panelScope(request: TaskBatchRequest): Prisma.NovelPromotionPanelWhereInput {
+  const { storyboardIds, targetIds } = request.selection
+  return {
+    storyboard: {
+      episodeId: request.episodeId,
+      ...(storyboardIds?.length ? { id: { in: storyboardIds } } : {}),
+    },
+    ...(targetIds?.length ? { id: { in: targetIds } } : {}),
+  }
+}
+
+const PANEL_ORDER: Prisma.NovelPromotionPanelOrderByWithRelationInput[] = [
+  { storyboard: { createdAt: 'asc' } },
+  { panelIndex: 'asc' },
+]
+
+async function planPanelImages(request: TaskBatchRequest): Promise<PlannedTarget[]> {
+  const config = await getProjectModelConfig(request.projectId, request.userId)
+  const imageModel = config.storyboardModel
+  if (!imageModel) {
+    throw new ApiError('INVALID_PARAMS', { code: 'STORYBOARD_MODEL_NOT_CONFIGURED' })
+  }
+  try {
+    await resolveModelSelection(request.userId, imageModel, 'image')
+  } catch (error) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'STORYBOARD_MODEL_INVALID',
+      message: error instanceof Error ? error.message : 'Storyboard image model is invalid',
+    })
+  }
+  const generationOptions = await resolveProjectModelCapabilityGenerationOptions({
+    projectId: request.projectId,
+    userId: request.userId,
+    modelType: 'image',
+    modelKey: imageModel,
+  })
+
+  const panels = await prisma.novelPromotionPanel.findMany({
+    where: {
+      ...panelScope(request),
+      OR: [{ imageUrl: null }, { imageUrl: '' }],
+    },
+    orderBy: PANEL_ORDER,
+    select: { id: true },
+  })
+
+  return panels.map((panel) => ({
+    targetType: 'NovelPromotionPanel',
+    targetId: panel.id,
+    payload: {
+      panelId: panel.id,
+      candidateCount: 1,
+      imageModel,
+      ...(Object.keys(generationOptions).length > 0 ? { generationOptions } : {}),
+    },
+    dedupeKey: `image_panel:${panel.id}:1`,
+  }))
+}
+
+async function planPanelVideos(request: TaskBatchRequest): Promise<PlannedTarget[]> {
+  const videoModel = readModelKey(request.options.videoModel, 'options.videoModel')
+  if (!videoModel) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'VIDEO_MODEL_REQUIRED',
+      field: 'options.videoModel',
+    })
+  }
+  const generationOptions = request.options.generationOptions
+
+  const panels = await prisma.novelPromotionPanel.findMany({
+    where: {
+      ...panelScope(request),
+      imageUrl: { not: null },
+      OR: [{ videoUrl: null }, { videoUrl: '' }],
+    },
+    orderBy: PANEL_ORDER,
+    select: { id: true },
+  })
+
+  return panels.map((panel) => ({
+    targetType: 'NovelPromotionPanel',
+    targetId: panel.id,
+    payload: {
+      episodeId: request.episodeId,
+      videoModel,
+      ...(generationOptions ? { generationOptions } : {}),
+    },
+    dedupeKey: `video_panel:${panel.id}`,
+  }))
+}
+
+function matchCharacterBySpeaker<T extends { name: string }>(speaker: string, characters: T[]): T | null {
+  const normalizedSpeaker = speaker.trim().toLowerCase()
+  return characters.find((character) => character.name.trim().toLowerCase() === normalizedSpeaker) || null
+}
+
+/**
+ * 音频模型解析顺序与单条配音一致：请求 → 项目 → 用户偏好
+ * 未绑定音色的发言人无法生成，直接排除在批量之外
+ */
+async function planVoiceLines(request: TaskBatchRequest): Promise<PlannedTarget[]> {
+  const requestedAudioModel = readModelKey(request.options.audioModel, 'options.audioModel')
+  const [pref, projectData] = await Promise.all([
+    prisma.userPreference.findUnique({
+      where: { userId: request.userId },
+      select: { audioModel: true },
+    }),
+    prisma.novelPromotionProject.findUnique({
+      where: { projectId: request.projectId },
+      select: {
+        audioModel: true,
+        characters: { select: { name: true, customVoiceUrl: true, voiceId: true } },
+      },
+    }),
+  ])
+  if (!projectData) {
+    throw new ApiError('NOT_FOUND')
+  }
+  const audioModel = requestedAudioModel
+    || readModelKey(projectData.audioModel, 'audioModel')
+    || readModelKey(pref?.audioModel, 'audioModel')
+  const selection = await resolveModelSelectionOrSingle(request.userId, audioModel || null, 'audio')
+  const providerKey = getProviderKey(selection.provider).toLowerCase()
+
+  const episode = await prisma.novelPromotionEpisode.findUnique({
+    where: { id: request.episodeId },
+    select: { speakerVoices: true },
+  })
+  const speakerVoices = parseSpeakerVoiceMap(episode?.speakerVoices ?? null)
+  const characters: Array<CharacterVoiceFields & { name: string }> = projectData.characters
+
+  const { storyboardIds, targetIds } = request.selection
+  const lines = await prisma.novelPromotionVoiceLine.findMany({
+    where: {
+      episodeId: request.episodeId,
+      audioUrl: null,
+      ...(storyboardIds?.length ? { matchedStoryboardId: { in: storyboardIds } } : {}),
+      ...(targetIds?.length ? { id: { in: targetIds } } : {}),
+    },
+    orderBy: { lineIndex: 'asc' },
+    select: { id: true, speaker: true, content: true },
+  })
+
+  return lines
+    .filter((line) => hasVoiceBindingForProvider({
+      providerKey,
+      character: matchCharacterBySpeaker(line.speaker, characters),
+      speakerVoice: speakerVoices[line.speaker],
+    }))
+    .map((line) => ({
+      targetType: 'NovelPromotionVoiceLine',
+      targetId: line.id,
+      payload: {
+        episodeId: request.episodeId,
+        lineId: line.id,
+        maxSeconds: estimateVoiceLineMaxSeconds(line.content),
+        audioModel: selection.modelKey,
+      },
+      dedupeKey: `voice_line:${line.id}`,
+    }))
+}
+
+/**
+ * 已有视频、尚无口型视频，且匹配到已配音台词的面板；取面板的第一句台词
+ */
+async function planLipSync(request: TaskBatchRequest): Promise<PlannedTarget[]> {
+  const requestedLipSyncModel = readModelKey(request.options.lipSyncModel, 'options.lipSyncModel')
+  const pref = await prisma.userPreference.findUnique({
+    where: { userId: request.userId },
+    select: { lipSyncModel: true },
+  })
+  const lipSyncModel = requestedLipSyncModel
+    || readModelKey(pref?.lipSyncModel, 'lipSyncModel')
+    || DEFAULT_LIPSYNC_MODEL_KEY
+
+  const panels = await prisma.novelPromotionPanel.findMany({
+    where: {
+      ...panelScope(request),
+      AND: [
+        { videoUrl: { not: null } },
+        { videoUrl: { not: '' } },
+      ],
+      OR: [{ lipSyncVideoUrl: null }, { lipSyncVideoUrl: '' }],
+      matchedVoiceLines: { some: { audioUrl: { not: null } } },
+    },
+    orderBy: PANEL_ORDER,
+    select: {
+      id: true,
+      storyboardId: true,
+      panelIndex: true,
+      matchedVoiceLines: {
+        where: { audioUrl: { not: null } },
+        orderBy: { lineIndex: 'asc' },
+        take: 1,
+        select: { id: true },
+      },
+    },
+  })
+
+  return panels.flatMap((panel) => {
+    const voiceLine = panel.matchedVoiceLines[0]
+    if (!voiceLine) return []
+    return [{
+      targetType: 'NovelPromotionPanel',
+      targetId: panel.id,
+      payload: {
+        storyboardId: panel.storyboardId,
+        panelIndex: panel.panelIndex,
+        voiceLineId: voiceLine.id,
+        lipSyncModel,
+      },
+      dedupeKey: `lip_sync:${panel.id}:${voiceLine.id}`,
+    }]
+  })
+}
+
+/**
+ * 按批量类型筛选缺失产物的目标，并生成与单条接口一致的子任务 payload 与预估费用
+ */
+export async function planTaskBatch(request: TaskBatchRequest): Promise<TaskBatchPlan> {
+  const episode = await prisma.novelPromotionEpisode.findFirst({
+    where: {
+      id: request.episodeId,
+      novelPromotionProject: { projectId: request.projectId },
+    },
+    select: { id: true },
+  })
+  if (!episode) {
+    throw new ApiError('NOT_FOUND')
+  }
+
+  let targets: PlannedTarget[]
+  switch (request.kind) {
+    case TASK_BATCH_KIND.PANEL_IMAGE:
+      targets = await planPanelImages(request)
+      break
+    case TASK_BATCH_KIND.PANEL_VIDEO:
+      targets = await planPanelVideos(request)
+      break
+    case TASK_BATCH_KIND.VOICE_LINE:
+      targets = await planVoiceLines(request)
+      break
+    case TASK_BATCH_KIND.LIP_SYNC:
+      targets = await planLipSync(request)
+      break
+  }
+
+  const taskType = TASK_BATCH_TASK_TYPES[request.kind]
+  return {
+    kind: request.kind,
+    taskType,
+    items: targets.map((target) => quoteTaskBatchItem(taskType, target)),
+  }
+}
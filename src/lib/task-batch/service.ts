@@ -0,0 +1,498 @@
+import type { Prisma, TaskBatch, TaskBatchItem } from '@prisma/client'
+import type { Locale } from '@/i18n/routing'
+import { ApiError } from '@/lib/api-errors'
+import {
+  BILLING_CURRENCY,
+  BudgetExceededError,
+  checkBudgetForCost,
+  getBalance,
+  getBillingMode,
+  InsufficientBalanceError,
+} from '@/lib/billing'
+import { roundMoney } from '@/lib/billing/money'
+import { createScopedLogger } from '@/lib/logging/core'
+import { prisma } from '@/lib/prisma'
+import {
+  hasPanelImageOutput,
+  hasPanelLipSyncOutput,
+  hasPanelVideoOutput,
+  hasVoiceLineAudioOutput,
+} from '@/lib/task/has-output'
+import { publishTaskBatchEvent, publishTaskEvent } from '@/lib/task/publisher'
+import { removeTaskJob } from '@/lib/task/queues'
+import { cancelTask } from '@/lib/task/service'
+import { submitTask, toObject } from '@/lib/task/submitter'
+import { TASK_EVENT_TYPE, TASK_STATUS } from '@/lib/task/types'
+import { withTaskUiPayload } from '@/lib/task/ui-payload'
+import { planTaskBatch, quoteTaskBatchItem } from './selection'
+import {
+  TASK_BATCH_KIND,
+  TASK_BATCH_STATUS,
+  TASK_BATCH_TASK_TYPES,
+  type TaskBatchKind,
+  type TaskBatchPlan,
+  type TaskBatchPlanItem,
+  type TaskBatchProgress,
+  type TaskBatchQuote,
+  type TaskBatchRequest,
+  type TaskBatchStatus,
+} from './types'
+
+const logger = createScopedLogger({
+  module: 'task.batch',
+  action: 'task.batch',
+})
+
+const LIST_LIMIT = 20
+const QUOTE_TOLERANCE = 1e-6
+
+const ACTIVE_STATUSES = new Set<string>([TASK_STATUS.BLOCKED, TASK_STATUS.QUEUED, TASK_STATUS.PROCESSING])
+const RETRYABLE_STATUSES = new Set<string>([TASK_STATUS.FAILED, TASK_STATUS.CANCELED, TASK_STATUS.DISMISSED])
+
+const OUTPUT_CHECKERS: Record<TaskBatchKind, (targetId: string) => Promise<boolean>> = {
+  [TASK_BATCH_KIND.PANEL_IMAGE]: hasPanelImageOutput,
+  [TASK_BATCH_KIND.PANEL_VIDEO]: hasPanelVideoOutput,
+  [TASK_BATCH_KIND.VOICE_LINE]: hasVoiceLineAudioOutput,
+  [TASK_BATCH_KIND.LIP_SYNC]: hasPanelLipSyncOutput,
+}
+
+interface SubmitContext {
+  locale: Locale
+  requestId?: string | null
+  /** 定时执行时间，整批子任务共用 */
+  runAfter?: Date | null
+}
+
+type TaskBatchWithItems = TaskBatch & { items: TaskBatchItem[] }
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue
+}
+
+async function buildQuote(userId: string, plan: TaskBatchPlan): Promise<TaskBatchQuote> {
+  const totalCost = roundMoney(plan.items.reduce((sum, item) => sum + item.cost, 0))
+  const billingMode = await getBillingMode()
+  const balance = billingMode === 'OFF' ? null : (await getBalance(userId)).balance
+  return {
+    kind: plan.kind,
+    taskType: plan.taskType,
+    count: plan.items.length,
+    totalCost,
+    unpricedCount: plan.items.filter((item) => !item.priced).length,
+    currency: BILLING_CURRENCY,
+    billingMode,
+    balance,
+    sufficient: billingMode !== 'ENFORCE' || (balance ?? 0) >= totalCost,
+  }
+}
+
+/**
+ * 整批提交前统一校验余额，避免提交到一半才因余额不足失败
+ */
+function assertQuoteSufficient(quote: TaskBatchQuote) {
+  if (quote.sufficient) return
+  const error = new InsufficientBalanceError(quote.totalCost, quote.balance ?? 0)
+  throw new ApiError('INSUFFICIENT_BALANCE', {
+    message: error.message,
+    required: error.required,
+    available: error.available,
+  })
+}
+
+/**
+ * 整批提交前校验月度预算：整批费用会越过硬停线时直接拒绝，防止失控批量耗尽额度
+ */
+async function assertBudgetAllows(userId: string, projectId: string, quote: TaskBatchQuote) {
+  if (quote.billingMode === 'OFF') return
+  try {
+    await checkBudgetForCost({ userId, projectId, cost: quote.totalCost })
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error
+    throw new ApiError('BUDGET_EXCEEDED', {
+      message: error.message,
+      scope: error.scope,
+      limit: error.limit,
+      spent: error.spent,
+      required: error.required,
+    })
+  }
+}
+
+/**
+ * 批量报价：筛选目标并汇总预估费用，不创建任何任务
+ */
+export async function quoteTaskBatch(request: TaskBatchRequest) {
+  const plan = await planTaskBatch(request)
+  const quote = await buildQuote(request.userId, plan)
+  return {
+    quote,
+    items: plan.items.map((item) => ({
+      targetType: item.targetType,
+      targetId: item.targetId,
+      cost: item.cost,
+      priced: item.priced,
+    })),
+  }
+}
+
+async function submitItem(batch: TaskBatch, item: TaskBatchItem, context: SubmitContext) {
+  const kind = batch.kind as TaskBatchKind
+  const payload = {
+    ...toObject(item.payload),
+    batchId: batch.id,
+  }
+  try {
+    const result = await submitTask({
+      userId: batch.userId,
+      locale: context.locale,
+      requestId: context.requestId,
+      runAfter: context.runAfter,
+      projectId: batch.projectId,
+      episodeId: batch.episodeId,
+      type: TASK_BATCH_TASK_TYPES[kind],
+      targetType: item.targetType,
+      targetId: item.targetId,
+      payload: withTaskUiPayload(payload, {
+        hasOutputAtStart: await OUTPUT_CHECKERS[kind](item.targetId),
+      }),
+      dedupeKey: item.dedupeKey,
+    })
+    await prisma.taskBatchItem.update({
+      where: { id: item.id },
+      data: {
+        taskId: result.taskId,
+        status: result.status,
+        errorCode: null,
+        attempts: { increment: 1 },
+      },
+    })
+  } catch (error) {
+    const errorCode = error instanceof ApiError ? error.code : 'INTERNAL_ERROR'
+    logger.warn({
+      action: 'task.batch.item_submit_failed',
+      message: error instanceof Error ? error.message : String(error),
+      projectId: batch.projectId,
+      userId: batch.userId,
+      errorCode,
+      details: { batchId: batch.id, targetId: item.targetId },
+    })
+    await prisma.taskBatchItem.update({
+      where: { id: item.id },
+      data: {
+        status: TASK_STATUS.FAILED,
+        errorCode,
+        attempts: { increment: 1 },
+      },
+    })
+  }
+}
+
+/**
+ * 逐条提交，单条失败只记录在该条目上，不中断整批
+ */
+async function submitItems(batch: TaskBatch, items: TaskBatchItem[], context: SubmitContext) {
+  for (const item of items) {
+    await submitItem(batch, item, context)
+  }
+}
+
+/**
+ * 创建批量任务：报价 → 余额校验 → 写入批量与条目 → 逐条通过 submitTask 提交子任务
+ * expectedTotalCost 为前端确认过的报价，目标或价格变化时拒绝提交，需重新报价
+ */
+export async function createTaskBatch(request: TaskBatchRequest & SubmitContext & {
+  expectedTotalCost?: number | null
+}): Promise<TaskBatchProgress> {
+  const plan = await planTaskBatch(request)
+  if (plan.items.length === 0) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_BATCH_EMPTY',
+      message: '没有需要生成的内容',
+    })
+  }
+  const quote = await buildQuote(request.userId, plan)
+  if (
+    typeof request.expectedTotalCost === 'number'
+    && Math.abs(request.expectedTotalCost - quote.totalCost) > QUOTE_TOLERANCE
+  ) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_BATCH_QUOTE_CHANGED',
+      quote,
+    })
+  }
+  assertQuoteSufficient(quote)
+  await assertBudgetAllows(request.userId, request.projectId, quote)
+
+  const batch = await prisma.taskBatch.create({
+    data: {
+      userId: request.userId,
+      projectId: request.projectId,
+      episodeId: request.episodeId,
+      kind: plan.kind,
+      taskType: plan.taskType,
+      status: TASK_BATCH_STATUS.RUNNING,
+      selection: toJson(request.selection),
+      options: toJson(request.options),
+      quote: toJson(quote),
+      total: plan.items.length,
+      items: {
+        create: plan.items.map((item: TaskBatchPlanItem) => ({
+          targetType: item.targetType,
+          targetId: item.targetId,
+          dedupeKey: item.dedupeKey,
+          payload: toJson(item.payload),
+        })),
+      },
+    },
+    include: { items: true },
+  })
+
+  logger.info({
+    action: 'task.batch.created',
+    message: 'task batch created',
+    projectId: batch.projectId,
+    userId: batch.userId,
+    details: { batchId: batch.id, kind: batch.kind, total: batch.total, totalCost: quote.totalCost },
+  })
+
+  await submitItems(batch, batch.items, request)
+  return await refreshTaskBatch(batch.id) as TaskBatchProgress
+}
+
+function resolveBatchStatus(batch: TaskBatch, counts: Omit<TaskBatchProgress, 'batchId' | 'status' | 'progress'>): TaskBatchStatus {
+  if (counts.active > 0) return TASK_BATCH_STATUS.RUNNING
+  if (batch.status === TASK_BATCH_STATUS.CANCELED) return TASK_BATCH_STATUS.CANCELED
+  if (counts.failed > 0 || counts.canceled > 0) return TASK_BATCH_STATUS.FAILED
+  return TASK_BATCH_STATUS.COMPLETED
+}
+
+function toProgress(batch: Pick<TaskBatch, 'id' | 'status' | 'total' | 'completed' | 'failed' | 'canceled'>): TaskBatchProgress {
+  const active = Math.max(0, batch.total - batch.completed - batch.failed - batch.canceled)
+  const done = batch.total - active
+  return {
+    batchId: batch.id,
+    status: batch.status as TaskBatchStatus,
+    total: batch.total,
+    completed: batch.completed,
+    failed: batch.failed,
+    canceled: batch.canceled,
+    active,
+    progress: batch.total > 0 ? Math.floor((done / batch.total) * 100) : 100,
+  }
+}
+
+/**
+ * 以子任务状态为准重算聚合进度；有变化时通过项目 SSE 频道推送
+ */
+export async function refreshTaskBatch(batchId: string): Promise<TaskBatchProgress | null> {
+  const batch = await prisma.taskBatch.findUnique({
+    where: { id: batchId },
+    include: { items: true },
+  })
+  if (!batch) return null
+
+  const taskIds = batch.items.flatMap((item) => (item.taskId ? [item.taskId] : []))
+  const tasks = taskIds.length > 0
+    ? await prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      select: { id: true, status: true, errorCode: true },
+    })
+    : []
+  const taskById = new Map(tasks.map((task) => [task.id, task]))
+
+  const counts = { total: batch.items.length, completed: 0, failed: 0, canceled: 0, active: 0 }
+  for (const item of batch.items) {
+    const task = item.taskId ? taskById.get(item.taskId) : null
+    const status = task?.status ?? item.status
+    if (task && (task.status !== item.status || task.errorCode !== item.errorCode)) {
+      await prisma.taskBatchItem.update({
+        where: { id: item.id },
+        data: { status: task.status, errorCode: task.errorCode },
+      })
+    }
+    if (status === TASK_STATUS.COMPLETED) counts.completed += 1
+    else if (status === TASK_STATUS.CANCELED) counts.canceled += 1
+    else if (ACTIVE_STATUSES.has(status)) counts.active += 1
+    else counts.failed += 1
+  }
+
+  const status = resolveBatchStatus(batch, counts)
+  const changed = status !== batch.status
+    || counts.total !== batch.total
+    || counts.completed !== batch.completed
+    || counts.failed !== batch.failed
+    || counts.canceled !== batch.canceled
+  if (!changed) return toProgress(batch)
+
+  const updated = await prisma.taskBatch.update({
+    where: { id: batch.id },
+    data: {
+      status,
+      total: counts.total,
+      completed: counts.completed,
+      failed: counts.failed,
+      canceled: counts.canceled,
+      finishedAt: counts.active > 0 ? null : (batch.finishedAt ?? new Date()),
+    },
+  })
+  const progress = toProgress(updated)
+  await publishTaskBatchEvent({
+    batchId: updated.id,
+    projectId: updated.projectId,
+    userId: updated.userId,
+    taskType: updated.taskType,
+    episodeId: updated.episodeId,
+    payload: { ...progress, kind: updated.kind },
+  })
+  return progress
+}
+
+/**
+ * 子任务结束时由 worker 调用；payload 中没有 batchId 的任务忽略
+ */
+export async function refreshTaskBatchForTaskPayload(payload: unknown) {
+  const batchId = toObject(payload).batchId
+  if (typeof batchId !== 'string' || !batchId) return null
+  return await refreshTaskBatch(batchId)
+}
+
+async function findProjectBatch(projectId: string, batchId: string): Promise<TaskBatchWithItems | null> {
+  return await prisma.taskBatch.findFirst({
+    where: { id: batchId, projectId },
+    include: { items: { orderBy: { createdAt: 'asc' } } },
+  })
+}
+
+function serializeBatch(batch: TaskBatch) {
+  return {
+    id: batch.id,
+    episodeId: batch.episodeId,
+    kind: batch.kind,
+    taskType: batch.taskType,
+    selection: batch.selection,
+    quote: batch.quote,
+    createdAt: batch.createdAt,
+    finishedAt: batch.finishedAt,
+    ...toProgress(batch),
+  }
+}
+
+export async function listTaskBatches(projectId: string, episodeId?: string | null) {
+  const batches = await prisma.taskBatch.findMany({
+    where: { projectId, ...(episodeId ? { episodeId } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: LIST_LIMIT,
+  })
+  return batches.map(serializeBatch)
+}
+
+/**
+ * 批量详情：先按子任务状态刷新，保证断线期间错过的进度也能补齐
+ */
+export async function getTaskBatch(projectId: string, batchId: string) {
+  const existing = await findProjectBatch(projectId, batchId)
+  if (!existing) return null
+  await refreshTaskBatch(batchId)
+  const batch = await findProjectBatch(projectId, batchId)
+  if (!batch) return null
+  return {
+    batch: serializeBatch(batch),
+    items: batch.items.map((item) => ({
+      id: item.id,
+      targetType: item.targetType,
+      targetId: item.targetId,
+      taskId: item.taskId,
+      status: item.status,
+      attempts: item.attempts,
+      errorCode: item.errorCode,
+    })),
+  }
+}
+
+/**
+ * 取消整批：取消所有进行中的子任务并退还冻结费用，已完成的不受影响
+ */
+export async function cancelTaskBatch(projectId: string, batchId: string) {
+  const batch = await findProjectBatch(projectId, batchId)
+  if (!batch) return null
+
+  if (batch.status === TASK_BATCH_STATUS.RUNNING) {
+    await prisma.taskBatch.update({
+      where: { id: batch.id },
+      data: { status: TASK_BATCH_STATUS.CANCELED },
+    })
+  }
+
+  let cancelledCount = 0
+  for (const item of batch.items) {
+    if (!item.taskId) continue
+    const { task, cancelled } = await cancelTask(item.taskId, 'Task batch cancelled by user')
+    if (!task || !cancelled) continue
+    cancelledCount += 1
+    await removeTaskJob(task.id).catch(() => false)
+    await publishTaskEvent({
+      taskId: task.id,
+      projectId: task.projectId,
+      userId: task.userId,
+      type: TASK_EVENT_TYPE.FAILED,
+      taskType: task.type,
+      targetType: task.targetType,
+      targetId: task.targetId,
+      episodeId: task.episodeId || null,
+      payload: {
+        ...toObject(task.payload),
+        stage: 'cancelled',
+        stageLabel: '任务已取消',
+        cancelled: true,
+        message: task.errorMessage || 'Task batch cancelled by user',
+      },
+      persist: false,
+    })
+  }
+
+  const progress = await refreshTaskBatch(batch.id)
+  return { cancelledCount, progress }
+}
+
+/**
+ * 重试失败 / 已取消的条目：按原 payload 重新提交，提交前同样做整体报价与余额校验
+ */
+export async function retryFailedTaskBatch(projectId: string, batchId: string, context: SubmitContext) {
+  const batch = await findProjectBatch(projectId, batchId)
+  if (!batch) return null
+
+  await refreshTaskBatch(batch.id)
+  const items = await prisma.taskBatchItem.findMany({
+    where: { batchId: batch.id, status: { in: [...RETRYABLE_STATUSES] } },
+    orderBy: { createdAt: 'asc' },
+  })
+  if (items.length === 0) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_BATCH_NOTHING_TO_RETRY',
+      message: '没有需要重试的任务',
+    })
+  }
+
+  const taskType = TASK_BATCH_TASK_TYPES[batch.kind as TaskBatchKind]
+  const quote = await buildQuote(batch.userId, {
+    kind: batch.kind as TaskBatchKind,
+    taskType,
+    items: items.map((item) => quoteTaskBatchItem(taskType, {
+      targetType: item.targetType,
+      targetId: item.targetId,
+      dedupeKey: item.dedupeKey || '',
+      payload: toObject(item.payload),
+    })),
+  })
+  assertQuoteSufficient(quote)
+  await assertBudgetAllows(batch.userId, batch.projectId, quote)
+
+  await prisma.taskBatch.update({
+    where: { id: batch.id },
+    data: { status: TASK_BATCH_STATUS.RUNNING, finishedAt: null },
+  })
+  await submitItems(batch, items, context)
+
+  const progress = await refreshTaskBatch(batch.id)
+  return { retriedCount: items.length, quote, progress }
+}
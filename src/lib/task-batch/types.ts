@@ -0,0 +1,97 @@
+import { TASK_TYPE, type TaskType } from '@/lib/task/types'
+
+/**
+ * 批量任务类型：每种对应一个子任务类型 + 一条"缺失产物"筛选规则
+ */
+export const TASK_BATCH_KIND = {
+  PANEL_IMAGE: 'panel_image',
+  PANEL_VIDEO: 'panel_video',
+  VOICE_LINE: 'voice_line',
+  LIP_SYNC: 'lip_sync',
+} as const
+
+export type TaskBatchKind = (typeof TASK_BATCH_KIND)[keyof typeof TASK_BATCH_KIND]
+
+export const TASK_BATCH_KINDS = Object.values(TASK_BATCH_KIND) as readonly TaskBatchKind[]
+
+export const TASK_BATCH_TASK_TYPES: Record<TaskBatchKind, TaskType> = {
+  [TASK_BATCH_KIND.PANEL_IMAGE]: TASK_TYPE.IMAGE_PANEL,
+  [TASK_BATCH_KIND.PANEL_VIDEO]: TASK_TYPE.VIDEO_PANEL,
+  [TASK_BATCH_KIND.VOICE_LINE]: TASK_TYPE.VOICE_LINE,
+  [TASK_BATCH_KIND.LIP_SYNC]: TASK_TYPE.LIP_SYNC,
+}
+
+export const TASK_BATCH_STATUS = {
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELED: 'canceled',
+} as const
+
+export type TaskBatchStatus = (typeof TASK_BATCH_STATUS)[keyof typeof TASK_BATCH_STATUS]
+
+/**
+ * 在"缺失产物"的基础上进一步缩小范围；均为空时选中整集
+ */
+export interface TaskBatchSelection {
+  storyboardIds?: string[]
+  targetIds?: string[]
+}
+
+/**
+ * 子任务的模型参数；未指定的沿用单条生成接口的解析顺序
+ */
+export interface TaskBatchOptions {
+  videoModel?: string
+  generationOptions?: Record<string, unknown>
+  audioModel?: string
+  lipSyncModel?: string
+}
+
+export interface TaskBatchRequest {
+  projectId: string
+  userId: string
+  episodeId: string
+  kind: TaskBatchKind
+  selection: TaskBatchSelection
+  options: TaskBatchOptions
+}
+
+export interface TaskBatchPlanItem {
+  targetType: string
+  targetId: string
+  payload: Record<string, unknown>
+  dedupeKey: string
+  cost: number
+  priced: boolean
+}
+
+export interface TaskBatchPlan {
+  kind: TaskBatchKind
+  taskType: TaskType
+  items: TaskBatchPlanItem[]
+}
+
+export interface TaskBatchQuote {
+  kind: TaskBatchKind
+  taskType: TaskType
+  count: number
+  totalCost: number
+  // 无内置价格的模型按 0 计入总价，实际费用在子任务冻结时确定
+  unpricedCount: number
+  currency: string
+  billingMode: string
+  balance: number | null
+  sufficient: boolean
+}
+
+export interface TaskBatchProgress {
+  batchId: string
+  status: TaskBatchStatus
+  total: number
+  completed: number
+  failed: number
+  canceled: number
+  active: number
+  progress: number
+}
@@ -0,0 +1,394 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createScopedLogger } from '@/lib/logging/core'
+import { ApiError } from '@/lib/api-errors'
+import { addTaskJob } from './queues'
+import { publishTaskEvent } from './publisher'
+import { resolveTaskLocaleFromBody } from './resolve-locale'
+import { markTaskEnqueued, rollbackTaskBillingForTask, tryMarkTaskFailed } from './service'
+import { TASK_EVENT_TYPE, TASK_STATUS, type TaskBillingInfo, type TaskType } from './types'
+
+/**
+ * 任务依赖链：下游任务以 blocked 状态落库，所有上游完成后写入上游产物并入队；
+ * 任一上游失败 / 取消时下游级联失败并退还冻结的费用。
+ */
+
+export const MAX_TASK_DEPENDENCIES = 8
+export const UPSTREAM_TASK_FAILED = 'UPSTREAM_TASK_FAILED'
+
+const SETTLE_BLOCKED_BATCH_SIZE = 100
+const UPSTREAM_FAILED_STATUSES = new Set<string>([
+  TASK_STATUS.FAILED,
+  TASK_STATUS.CANCELED,
+  TASK_STATUS.DISMISSED,
+])
+
+const logger = createScopedLogger({
+  module: 'task.dependencies',
+})
+
+/** 上游任务传递给下游 payload 的产物 */
+export type TaskUpstreamOutput = {
+  taskId: string
+  type: string
+  imageUrl?: string
+  videoUrl?: string
+  audioUrl?: string
+}
+
+type UpstreamTaskRow = {
+  id: string
+  type: string
+  status: string
+  result: Prisma.JsonValue
+  errorCode: string | null
+  errorMessage: string | null
+}
+
+function toObject(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return value as Record<string, unknown>
+}
+
+function readString(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed || null
+}
+
+/**
+ * 从请求体解析 dependsOn；未指定时返回空数组
+ */
+export function resolveTaskDependsOn(body: unknown): string[] {
+  const raw = toObject(body).dependsOn
+  if (raw === undefined || raw === null) return []
+  if (!Array.isArray(raw)) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_DEPENDS_ON_INVALID',
+      field: 'dependsOn',
+    })
+  }
+  const ids = new Set<string>()
+  for (const item of raw) {
+    const id = readString(item)
+    if (!id) {
+      throw new ApiError('INVALID_PARAMS', {
+        code: 'TASK_DEPENDS_ON_INVALID',
+        field: 'dependsOn',
+      })
+    }
+    ids.add(id)
+  }
+  if (ids.size > MAX_TASK_DEPENDENCIES) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_DEPENDS_ON_TOO_MANY',
+      field: 'dependsOn',
+      max: MAX_TASK_DEPENDENCIES,
+    })
+  }
+  return [...ids]
+}
+
+/**
+ * 从上游任务结果中提取可供下游使用的媒体产物
+ * 只传递已落定的 imageUrl；重新生成产出的候选图尚未被用户选定，不向下游传递，
+ * 下游回退到目标上当前生效的图片
+ */
+export function extractTaskUpstreamOutput(task: { id: string; type: string; result: unknown }): TaskUpstreamOutput {
+  const result = toObject(task.result)
+  const imageUrl = readString(result.imageUrl)
+  const videoUrl = readString(result.lipSyncVideoUrl) || readString(result.videoUrl)
+  const audioUrl = readString(result.audioUrl)
+  return {
+    taskId: task.id,
+    type: task.type,
+    ...(imageUrl ? { imageUrl } : {}),
+    ...(videoUrl ? { videoUrl } : {}),
+    ...(audioUrl ? { audioUrl } : {}),
+  }
+}
+
+/**
+ * 读取 payload 中上游传入的媒体地址；多个上游时以最后一个为准
+ */
+export function readUpstreamMediaUrl(payload: unknown, field: 'imageUrl' | 'videoUrl' | 'audioUrl'): string | null {
+  const outputs = toObject(payload).upstreamOutputs
+  if (!Array.isArray(outputs)) return null
+  for (let index = outputs.length - 1; index >= 0; index -= 1) {
+    const value = readString(toObject(outputs[index])[field])
+    if (value) return value
+  }
+  return null
+}
+
+function findFailedUpstream(dependsOn: string[], upstream: UpstreamTaskRow[]) {
+  const byId = new Map(upstream.map((task) => [task.id, task]))
+  for (const id of dependsOn) {
+    const task = byId.get(id)
+    if (!task || UPSTREAM_FAILED_STATUSES.has(task.status)) {
+      return { id, task: task || null }
+    }
+  }
+  return null
+}
+
+async function listUpstreamTasks(ids: string[]): Promise<UpstreamTaskRow[]> {
+  if (ids.length === 0) return []
+  return await prisma.task.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      result: true,
+      errorCode: true,
+      errorMessage: true,
+    },
+  })
+}
+
+/**
+ * 提交前校验上游任务：必须属于同一用户与项目，且未失败
+ * 全部已完成时返回 pending=false 与上游产物，下游可直接入队
+ */
+export async function inspectTaskDependencies(params: {
+  userId: string
+  projectId: string
+  dependsOn: string[]
+}): Promise<{ pending: boolean; outputs: TaskUpstreamOutput[] }> {
+  const rows = await prisma.task.findMany({
+    where: {
+      id: { in: params.dependsOn },
+      userId: params.userId,
+      projectId: params.projectId,
+    },
+    select: {
+      id: true,
+      type: true,
+      status: true,
+      result: true,
+      errorCode: true,
+      errorMessage: true,
+    },
+  })
+  if (rows.length !== params.dependsOn.length) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_DEPENDENCY_NOT_FOUND',
+      field: 'dependsOn',
+    })
+  }
+  const failed = findFailedUpstream(params.dependsOn, rows)
+  if (failed) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: UPSTREAM_TASK_FAILED,
+      field: 'dependsOn',
+      taskId: failed.id,
+    })
+  }
+
+  const pending = rows.some((task) => task.status !== TASK_STATUS.COMPLETED)
+  return {
+    pending,
+    outputs: pending ? [] : orderOutputs(params.dependsOn, rows),
+  }
+}
+
+function orderOutputs(dependsOn: string[], upstream: UpstreamTaskRow[]) {
+  const byId = new Map(upstream.map((task) => [task.id, task]))
+  return dependsOn
+    .map((id) => byId.get(id))
+    .filter((task): task is UpstreamTaskRow => !!task)
+    .map((task) => extractTaskUpstreamOutput(task))
+}
+
+export async function recordTaskDependencies(taskId: string, dependsOn: string[]) {
+  if (dependsOn.length === 0) return
+  await prisma.taskDependency.createMany({
+    data: dependsOn.map((dependsOnTaskId) => ({ taskId, dependsOnTaskId })),
+    skipDuplicates: true,
+  })
+}
+
+type BlockedTaskRow = NonNullable<Awaited<ReturnType<typeof prisma.task.findUnique>>>
+
+async function failBlockedTask(task: BlockedTaskRow, upstream: { id: string; task: UpstreamTaskRow | null }) {
+  const rollbackResult = await rollbackTaskBillingForTask({
+    taskId: task.id,
+    billingInfo: task.billingInfo,
+  })
+  const upstreamStatus = upstream.task?.status || 'missing'
+  const baseMessage = `upstream task ${upstream.id} ${upstreamStatus}`
+    + (upstream.task?.errorMessage ? `: ${upstream.task.errorMessage}` : '')
+  const compensationFailed = rollbackResult.attempted && !rollbackResult.rolledBack
+  const errorCode = compensationFailed ? 'BILLING_COMPENSATION_FAILED' : UPSTREAM_TASK_FAILED
+  const errorMessage = compensationFailed ? `${baseMessage}; billing rollback failed` : baseMessage
+
+  if (!(await tryMarkTaskFailed(task.id, errorCode, errorMessage))) return false
+  await publishTaskEvent({
+    taskId: task.id,
+    projectId: task.projectId,
+    userId: task.userId,
+    type: TASK_EVENT_TYPE.FAILED,
+    taskType: task.type,
+    targetType: task.targetType,
+    targetId: task.targetId,
+    episodeId: task.episodeId,
+    payload: {
+      ...toObject(task.payload),
+      reason: 'upstream_failed',
+      upstreamTaskId: upstream.id,
+      errorCode,
+      message: errorMessage,
+    },
+  })
+  logger.warn({
+    action: 'task.dependencies.cascade_failed',
+    message: errorMessage,
+    taskId: task.id,
+    projectId: task.projectId,
+    userId: task.userId,
+    errorCode,
+    details: { upstreamTaskId: upstream.id, upstreamStatus },
+  })
+  return true
+}
+
+async function releaseBlockedTask(task: BlockedTaskRow, outputs: TaskUpstreamOutput[]) {
+  const payload = {
+    ...toObject(task.payload),
+    upstreamOutputs: outputs,
+  }
+  const released = await prisma.task.updateMany({
+    where: { id: task.id, status: TASK_STATUS.BLOCKED },
+    data: {
+      status: TASK_STATUS.QUEUED,
+      payload: payload as Prisma.InputJsonValue,
+      queuedAt: new Date(),
+    },
+  })
+  if (released.count === 0) return false
+
+  // 定时任务仍交给 watchdog 按时投递；入队失败时保持 queued + enqueuedAt=null，同样由 watchdog 补投
+  const locale = resolveTaskLocaleFromBody(payload)
+  const scheduled = !!task.runAfter && task.runAfter.getTime() > Date.now()
+  if (locale && !scheduled) {
+    try {
+      await addTaskJob({
+        taskId: task.id,
+        type: task.type as TaskType,
+        locale,
+        projectId: task.projectId,
+        episodeId: task.episodeId,
+        targetType: task.targetType,
+        targetId: task.targetId,
+        payload,
+        billingInfo: (task.billingInfo || null) as TaskBillingInfo | null,
+        userId: task.userId,
+      }, {
+        priority: task.priority,
+      })
+      await markTaskEnqueued(task.id)
+    } catch (error) {
+      logger.warn({
+        action: 'task.dependencies.enqueue_failed',
+        message: error instanceof Error ? error.message : String(error),
+        taskId: task.id,
+        projectId: task.projectId,
+        userId: task.userId,
+        retryable: true,
+      })
+    }
+  }
+
+  await publishTaskEvent({
+    taskId: task.id,
+    projectId: task.projectId,
+    userId: task.userId,
+    type: TASK_EVENT_TYPE.CREATED,
+    taskType: task.type,
+    targetType: task.targetType,
+    targetId: task.targetId,
+    episodeId: task.episodeId,
+    payload: {
+      ...payload,
+      reason: 'dependencies_ready',
+    },
+  })
+  logger.info({
+    action: 'task.dependencies.released',
+    message: 'blocked task released',
+    taskId: task.id,
+    projectId: task.projectId,
+    userId: task.userId,
+    details: { upstreamTaskIds: outputs.map((output) => output.taskId) },
+  })
+  return true
+}
+
+/**
+ * 检查一个 blocked 任务的全部上游：
+ * - 任一上游失败 / 取消 / 丢失 → 级联失败，并继续处理它自己的下游
+ * - 全部完成 → 写入上游产物后入队
+ * - 其余情况保持 blocked
+ */
+export async function settleBlockedTask(taskId: string): Promise<'released' | 'failed' | 'blocked' | 'skipped'> {
+  const task = await prisma.task.findUnique({ where: { id: taskId } })
+  if (!task || task.status !== TASK_STATUS.BLOCKED) return 'skipped'
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { taskId },
+    orderBy: { createdAt: 'asc' },
+    select: { dependsOnTaskId: true },
+  })
+  const dependsOn = dependencies.map((dependency) => dependency.dependsOnTaskId)
+  const upstream = await listUpstreamTasks(dependsOn)
+
+  const failed = findFailedUpstream(dependsOn, upstream)
+  if (failed) {
+    if (!(await failBlockedTask(task, failed))) return 'skipped'
+    await settleDependentTasks(task.id)
+    return 'failed'
+  }
+  if (upstream.some((item) => item.status !== TASK_STATUS.COMPLETED)) return 'blocked'
+
+  return (await releaseBlockedTask(task, orderOutputs(dependsOn, upstream))) ? 'released' : 'skipped'
+}
+
+/**
+ * 上游任务进入终态后调用：释放或级联失败依赖它的 blocked 任务
+ */
+export async function settleDependentTasks(upstreamTaskId: string) {
+  const dependents = await prisma.taskDependency.findMany({
+    where: { dependsOnTaskId: upstreamTaskId },
+    select: { taskId: true },
+  })
+  for (const dependent of dependents) {
+    await settleBlockedTask(dependent.taskId)
+  }
+}
+
+/**
+ * watchdog 兜底：上游终态事件丢失（进程崩溃、批量取消、超时回收等）时补偿 blocked 任务
+ * 按 updatedAt 从旧到新检查；仍需等待的任务刷新 updatedAt 排到队尾，下一轮轮换到其余任务
+ */
+export async function settleStaleBlockedTasks(limit = SETTLE_BLOCKED_BATCH_SIZE) {
+  const rows = await prisma.task.findMany({
+    where: { status: TASK_STATUS.BLOCKED },
+    orderBy: { updatedAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  })
+  const summary = { released: 0, failed: 0 }
+  for (const row of rows) {
+    const outcome = await settleBlockedTask(row.id)
+    if (outcome === 'released') summary.released += 1
+    if (outcome === 'failed') summary.failed += 1
+    if (outcome === 'blocked') {
+      await prisma.task.updateMany({
+        where: { id: row.id, status: TASK_STATUS.BLOCKED },
+        data: { updatedAt: new Date() },
+      })
+    }
+  }
+  return summary
+}
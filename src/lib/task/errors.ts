@@ -7,3 +7,19 @@ export class TaskTerminatedError extends Error {
     this.taskId = taskId
   }
 }
+
+/**
+ * 主动让出 worker：任务本身未失败，只是需要稍后再跑（例如等待子任务或人工审批）。
+ * worker 会把 job 移回 delayed 并将任务标回 queued，不消耗重试次数。
+ */
+export class TaskDeferredError extends Error {
+  delayMs: number
+  reason: string
+
+  constructor(delayMs: number, reason: string) {
+    super(`Task deferred: ${reason}`)
+    this.name = 'TaskDeferredError'
+    this.delayMs = Math.max(1_000, Math.floor(delayMs))
+    this.reason = reason
+  }
+}
@@ -27,6 +27,7 @@ const TASK_INTENT_BY_TYPE: Record<TaskType, TaskIntent> = {
   [TASK_TYPE.IMAGE_LOCATION]: 'generate',
   [TASK_TYPE.VIDEO_PANEL]: 'generate',
   [TASK_TYPE.LIP_SYNC]: 'process',
+  [TASK_TYPE.VIDEO_RENDER]: 'build',
   [TASK_TYPE.VOICE_LINE]: 'generate',
   [TASK_TYPE.VOICE_DESIGN]: 'generate',
   [TASK_TYPE.ASSET_HUB_VOICE_DESIGN]: 'generate',
@@ -62,6 +63,8 @@ const TASK_INTENT_BY_TYPE: Record<TaskType, TaskIntent> = {
   [TASK_TYPE.ASSET_HUB_AI_MODIFY_LOCATION]: 'modify',
   [TASK_TYPE.ASSET_HUB_AI_MODIFY_PROP]: 'modify',
   [TASK_TYPE.ASSET_HUB_REFERENCE_TO_CHARACTER]: 'process',
+  [TASK_TYPE.AUTOPILOT_RUN]: 'build',
+  [TASK_TYPE.PROMPT_OVERRIDE_COMPARE]: 'analyze',
 }
 
 export function resolveTaskIntent(taskType: string | null | undefined): TaskIntent {
@@ -6,6 +6,7 @@ const TASK_TYPE_LABELS: Record<string, string> = {
   [TASK_TYPE.IMAGE_LOCATION]: 'progress.taskType.imageLocation',
   [TASK_TYPE.VIDEO_PANEL]: 'progress.taskType.videoPanel',
   [TASK_TYPE.LIP_SYNC]: 'progress.taskType.lipSync',
+  [TASK_TYPE.VIDEO_RENDER]: 'progress.taskType.videoRender',
   [TASK_TYPE.VOICE_LINE]: 'progress.taskType.voiceLine',
   [TASK_TYPE.VOICE_DESIGN]: 'progress.taskType.voiceDesign',
   [TASK_TYPE.ASSET_HUB_VOICE_DESIGN]: 'progress.taskType.assetHubVoiceDesign',
@@ -41,6 +42,8 @@ const TASK_TYPE_LABELS: Record<string, string> = {
   [TASK_TYPE.ASSET_HUB_AI_MODIFY_LOCATION]: 'progress.taskType.assetHubAiModifyLocation',
   [TASK_TYPE.ASSET_HUB_AI_MODIFY_PROP]: 'progress.taskType.assetHubAiModifyProp',
   [TASK_TYPE.ASSET_HUB_REFERENCE_TO_CHARACTER]: 'progress.taskType.assetHubReferenceToCharacter',
+  [TASK_TYPE.AUTOPILOT_RUN]: 'progress.taskType.autopilotRun',
+  [TASK_TYPE.PROMPT_OVERRIDE_COMPARE]: 'progress.taskType.promptOverrideCompare',
 }
 
 const STAGE_LABELS: Record<string, string> = {
@@ -55,6 +58,9 @@ const STAGE_LABELS: Record<string, string> = {
   voice_design_done: 'progress.stage.voiceDesignDone',
   submit_lip_sync: 'progress.stage.submitLipSync',
   persist_lip_sync: 'progress.stage.persistLipSync',
+  render_video_prepare: 'progress.stage.renderVideoPrepare',
+  render_video_frames: 'progress.stage.renderVideoFrames',
+  render_video_persist: 'progress.stage.renderVideoPersist',
   storyboard_clip: 'progress.stage.storyboardClip',
   regenerate_storyboard_prepare: 'progress.stage.regenerateStoryboardPrepare',
   regenerate_storyboard_persist: 'progress.stage.regenerateStoryboardPersist',
@@ -75,6 +81,8 @@ const STAGE_LABELS: Record<string, string> = {
   llm_proxy_submit: 'progress.stage.llmProxySubmit',
   llm_proxy_execute: 'progress.stage.llmProxyExecute',
   llm_proxy_persist: 'progress.stage.llmProxyPersist',
+  autopilot_stage: 'progress.stage.autopilotStage',
+  autopilot_await_approval: 'progress.stage.autopilotAwaitApproval',
 }
 
 function asString(value: unknown): string | null {
@@ -3,7 +3,6 @@ import { redis } from '@/lib/redis'
 import {
   TASK_EVENT_TYPE,
   TASK_SSE_EVENT_TYPE,
-  TASK_TYPE,
   type TaskEventType,
   type TaskLifecycleEventType,
   type SSEEvent,
@@ -11,13 +10,10 @@ import {
 import { coerceTaskIntent, resolveTaskIntent } from './intent'
 import { mapTaskSSEEventToRunEvents } from '@/lib/run-runtime/task-bridge'
 import { publishRunEvent } from '@/lib/run-runtime/publisher'
+import { isWorkflowType } from '@/lib/workflow-engine/registry'
 
 const CHANNEL_PREFIX = 'task-events:project:'
 const STREAM_EPHEMERAL_ENABLED = process.env.LLM_STREAM_EPHEMERAL_ENABLED !== 'false'
-const TASK_TYPES_WITH_DIRECT_RUN_EVENTS = new Set<string>([
-  TASK_TYPE.STORY_TO_SCRIPT_RUN,
-  TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
-])
 
 type TaskEventRow = {
   id: number
@@ -226,7 +222,7 @@ export function getProjectChannel(projectId: string) {
 }
 
 async function mirrorTaskEventToRun(message: SSEEvent) {
-  if (message.taskType && TASK_TYPES_WITH_DIRECT_RUN_EVENTS.has(message.taskType)) {
+  if (message.taskType && isWorkflowType(message.taskType)) {
     return
   }
   const runEvents = mapTaskSSEEventToRunEvents(message)
@@ -356,6 +352,34 @@ export async function publishTaskStreamEvent(params: {
   return message
 }
 
+/**
+ * 批量任务聚合进度：不落库，断线重连后由批量详情接口补齐
+ */
+export async function publishTaskBatchEvent(params: {
+  batchId: string
+  projectId: string
+  userId: string
+  taskType: string
+  episodeId: string
+  payload: Record<string, unknown>
+}) {
+  const message: SSEEvent = {
+    id: createEphemeralId(),
+    type: TASK_SSE_EVENT_TYPE.BATCH,
+    taskId: params.batchId,
+    projectId: params.projectId,
+    userId: params.userId,
+    ts: new Date().toISOString(),
+    taskType: params.taskType,
+    targetType: 'TaskBatch',
+    targetId: params.batchId,
+    episodeId: params.episodeId,
+    payload: params.payload,
+  }
+  await redis.publish(getProjectChannel(params.projectId), JSON.stringify(message))
+  return message
+}
+
 export async function listEventsAfter(projectId: string, afterId: number, limit = 200) {
   const pageSize = Math.max(limit * 2, 400)
   const maxScanRows = Math.max(limit * 50, 20_000)
@@ -52,16 +52,19 @@ const IMAGE_TYPES = new Set<TaskType>([
   TASK_TYPE.ASSET_HUB_MODIFY,
 ])
 
-const VIDEO_TYPES = new Set<TaskType>([TASK_TYPE.VIDEO_PANEL, TASK_TYPE.LIP_SYNC])
+const VIDEO_TYPES = new Set<TaskType>([TASK_TYPE.VIDEO_PANEL, TASK_TYPE.LIP_SYNC, TASK_TYPE.VIDEO_RENDER])
 const VOICE_TYPES = new Set<TaskType>([
   TASK_TYPE.VOICE_LINE,
   TASK_TYPE.VOICE_DESIGN,
   TASK_TYPE.ASSET_HUB_VOICE_DESIGN,
 ])
 
+// 长链路 run 失败后由 run 控制台按步骤重试，不再整任务重入队列；
+// 其余 workflow 任务保持原有的队列重试策略
 const SINGLE_ATTEMPT_TASK_TYPES = new Set<TaskType>([
   TASK_TYPE.STORY_TO_SCRIPT_RUN,
   TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
+  TASK_TYPE.AUTOPILOT_RUN,
 ])
 
 export function getQueueTypeByTaskType(type: TaskType): QueueType {
@@ -109,3 +112,18 @@ export async function removeTaskJob(taskId: string) {
   }
   return false
 }
+
+/**
+ * 将延迟中的 Job 提前到立即执行；Job 不存在时返回 false
+ */
+export async function promoteTaskJob(taskId: string) {
+  for (const queue of ALL_QUEUES) {
+    const job = await queue.getJob(taskId)
+    if (!job) continue
+    if (await job.isDelayed()) {
+      await job.promote()
+    }
+    return true
+  }
+  return false
+}
@@ -168,6 +168,8 @@ export async function reconcileActiveTasks(): Promise<string[]> {
             targetId: true,
             billingInfo: true,
             updatedAt: true,
+            enqueuedAt: true,
+            runAfter: true,
         },
         orderBy: { createdAt: 'asc' },
         take: RECONCILE_BATCH_SIZE,
@@ -177,6 +179,8 @@ export async function reconcileActiveTasks(): Promise<string[]> {
 
     const reconciled: string[] = []
     for (const task of activeTasks) {
+        // 定时任务到期前由 watchdog 持有，尚未入队
+        if (task.runAfter && !task.enqueuedAt) continue
         const jobState = await getJobState(task.id)
         if (jobState === 'alive') continue
         if (
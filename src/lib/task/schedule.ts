@@ -0,0 +1,153 @@
+import { ApiError } from '@/lib/api-errors'
+import { TASK_STATUS } from './types'
+
+/** 定时任务最远可推迟的时间 */
+export const TASK_SCHEDULE_MAX_DELAY_MS = 7 * 24 * 60 * 60_000
+
+const MINUTES_PER_DAY = 24 * 60
+const DEFAULT_TASK_SCHEDULE_WINDOWS = 'quiet_hours=01:00-07:00'
+const DEFAULT_TASK_SCHEDULE_TIMEZONE = 'Asia/Shanghai'
+
+export type TaskScheduleWindow = {
+  name: string
+  /** 窗口开始，当天分钟数（含） */
+  startMinute: number
+  /** 窗口结束，当天分钟数（不含）；小于开始时表示跨零点 */
+  endMinute: number
+}
+
+function toObject(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return value as Record<string, unknown>
+}
+
+function parseClock(raw: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(raw.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * 解析时间窗口配置，格式：name=HH:MM-HH:MM;name2=HH:MM-HH:MM
+ * 格式不合法的条目直接忽略
+ */
+export function parseTaskScheduleWindows(spec: string): TaskScheduleWindow[] {
+  const windows: TaskScheduleWindow[] = []
+  for (const entry of spec.split(';')) {
+    const [rawName, rawRange] = entry.split('=')
+    const name = rawName?.trim()
+    const [rawStart, rawEnd] = (rawRange || '').split('-')
+    const startMinute = rawStart ? parseClock(rawStart) : null
+    const endMinute = rawEnd ? parseClock(rawEnd) : null
+    if (!name || startMinute === null || endMinute === null || startMinute === endMinute) continue
+    windows.push({ name, startMinute, endMinute })
+  }
+  return windows
+}
+
+export function listTaskScheduleWindows(): TaskScheduleWindow[] {
+  return parseTaskScheduleWindows(process.env.TASK_SCHEDULE_WINDOWS || DEFAULT_TASK_SCHEDULE_WINDOWS)
+}
+
+function getScheduleTimezone(): string {
+  return process.env.TASK_SCHEDULE_TIMEZONE || DEFAULT_TASK_SCHEDULE_TIMEZONE
+}
+
+function minuteOfDay(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value || 0)
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value || 0)
+  return hour * 60 + minute
+}
+
+function isInsideWindow(minute: number, window: TaskScheduleWindow): boolean {
+  if (window.startMinute < window.endMinute) {
+    return minute >= window.startMinute && minute < window.endMinute
+  }
+  return minute >= window.startMinute || minute < window.endMinute
+}
+
+/**
+ * 不早于 from 的最近一个窗口内时刻；from 已在窗口内时直接返回 from
+ */
+export function resolveTaskScheduleWindowStart(
+  window: TaskScheduleWindow,
+  from: Date,
+  timeZone = getScheduleTimezone(),
+): Date {
+  const current = minuteOfDay(from, timeZone)
+  if (isInsideWindow(current, window)) return from
+  const waitMinutes = (window.startMinute - current + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  const startOfMinute = Math.floor(from.getTime() / 60_000) * 60_000
+  return new Date(startOfMinute + waitMinutes * 60_000)
+}
+
+function parseRunAfter(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return null
+  const date = typeof value === 'number'
+    ? new Date(value)
+    : typeof value === 'string'
+      ? new Date(value.trim())
+      : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_RUN_AFTER_INVALID',
+      field: 'runAfter',
+    })
+  }
+  return date
+}
+
+/**
+ * 从请求体解析定时执行时间：
+ * - runAfter: ISO 时间或毫秒时间戳
+ * - scheduleWindow: 命名时间窗口（如 quiet_hours），与 runAfter 同时给出时取 runAfter 之后的第一个窗口时刻
+ * 已到期或未指定时返回 null，表示立即入队
+ */
+export function resolveTaskRunAfter(body: unknown, now = new Date()): Date | null {
+  const payload = toObject(body)
+  const runAfter = parseRunAfter(payload.runAfter)
+  const windowName = typeof payload.scheduleWindow === 'string' ? payload.scheduleWindow.trim() : ''
+
+  let resolved = runAfter
+  if (windowName) {
+    const window = listTaskScheduleWindows().find((item) => item.name === windowName)
+    if (!window) {
+      throw new ApiError('INVALID_PARAMS', {
+        code: 'TASK_SCHEDULE_WINDOW_INVALID',
+        field: 'scheduleWindow',
+      })
+    }
+    const from = runAfter && runAfter.getTime() > now.getTime() ? runAfter : now
+    resolved = resolveTaskScheduleWindowStart(window, from)
+  }
+
+  if (!resolved || resolved.getTime() <= now.getTime()) return null
+  if (resolved.getTime() - now.getTime() > TASK_SCHEDULE_MAX_DELAY_MS) {
+    throw new ApiError('INVALID_PARAMS', {
+      code: 'TASK_RUN_AFTER_TOO_FAR',
+      field: 'runAfter',
+    })
+  }
+  return resolved
+}
+
+/**
+ * 仍在等待执行时间的排队任务，任务列表中展示为 scheduled
+ */
+export function isTaskScheduled(
+  task: { status: string; runAfter?: Date | null },
+  now = new Date(),
+): boolean {
+  return task.status === TASK_STATUS.QUEUED
+    && !!task.runAfter
+    && task.runAfter.getTime() > now.getTime()
+}
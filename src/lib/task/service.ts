@@ -1,11 +1,11 @@
 import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { withPrismaRetry } from '@/lib/prisma-retry'
-import { rollbackTaskBilling } from '@/lib/billing'
+import { resolveTaskBillingSpend, rollbackTaskBilling } from '@/lib/billing'
 import { locales } from '@/i18n/routing'
 import { TASK_STATUS, type CreateTaskInput, type TaskBillingInfo, type TaskStatus } from './types'
 
-const ACTIVE_STATUSES: TaskStatus[] = [TASK_STATUS.QUEUED, TASK_STATUS.PROCESSING]
+const ACTIVE_STATUSES: TaskStatus[] = [TASK_STATUS.BLOCKED, TASK_STATUS.QUEUED, TASK_STATUS.PROCESSING]
 const taskModel = prisma.task
 
 /**
@@ -22,12 +22,20 @@ async function verifyJobAlive(taskId: string): Promise<boolean> {
   }
 }
 
+/**
+ * 定时任务到期前、依赖任务上游完成前都不入队，BullMQ 中没有 Job 属于正常状态
+ */
+function isHeldTask(task: { status: string; enqueuedAt: Date | null; runAfter: Date | null }) {
+  if (task.status === TASK_STATUS.BLOCKED) return true
+  return task.status === TASK_STATUS.QUEUED && !task.enqueuedAt && !!task.runAfter
+}
+
 function isPrismaKnownError(error: unknown): error is { code?: string } {
   return typeof error === 'object' && error !== null && 'code' in error
 }
 
 function isActiveStatus(status: string) {
-  return status === TASK_STATUS.QUEUED || status === TASK_STATUS.PROCESSING
+  return status === TASK_STATUS.BLOCKED || status === TASK_STATUS.QUEUED || status === TASK_STATUS.PROCESSING
 }
 
 function toObject(value: unknown): Record<string, unknown> {
@@ -178,7 +186,7 @@ export async function createTask(input: CreateTaskInput) {
           await failTaskWithMissingLocale(existing)
         } else {
           // 校验 BullMQ Job 是否真的还活着，防止 DB 与队列状态脱节导致永久卡死
-          const jobAlive = await verifyJobAlive(existing.id)
+          const jobAlive = isHeldTask(existing) || await verifyJobAlive(existing.id)
           if (jobAlive) {
             return { task: existing, deduped: true as const }
           }
@@ -223,7 +231,7 @@ export async function createTask(input: CreateTaskInput) {
     type: input.type,
     targetType: input.targetType,
     targetId: input.targetId,
-    status: TASK_STATUS.QUEUED,
+    status: input.blocked ? TASK_STATUS.BLOCKED : TASK_STATUS.QUEUED,
     progress: 0,
     attempt: 0,
     maxAttempts: input.maxAttempts ?? 5,
@@ -231,7 +239,9 @@ export async function createTask(input: CreateTaskInput) {
     dedupeKey: input.dedupeKey || null,
     payload: toNullableJson(input.payload ?? null),
     billingInfo: toNullableJson(input.billingInfo ?? null),
+    budgetSpend: resolveTaskBillingSpend(input.billingInfo ?? null),
     queuedAt: new Date(),
+    runAfter: input.runAfter ?? null,
   }
 
   try {
@@ -250,7 +260,7 @@ export async function createTask(input: CreateTaskInput) {
             await failTaskWithMissingLocale(collided)
           } else {
             // P2002 竞态路径：同样校验 BullMQ Job 状态
-            const jobAlive = await verifyJobAlive(collided.id)
+            const jobAlive = isHeldTask(collided) || await verifyJobAlive(collided.id)
             if (jobAlive) {
               return { task: collided, deduped: true as const }
             }
@@ -354,11 +364,29 @@ export async function markTaskEnqueued(taskId: string) {
   })
 }
 
+/**
+ * 提前执行定时任务：清除 runAfter，仅对仍在排队的定时任务生效
+ */
+export async function clearTaskRunAfter(taskId: string) {
+  const result = await taskModel.updateMany({
+    where: {
+      id: taskId,
+      status: TASK_STATUS.QUEUED,
+      runAfter: { not: null },
+    },
+    data: {
+      runAfter: null,
+    },
+  })
+  return result.count > 0
+}
+
 export async function updateTaskBillingInfo(taskId: string, billingInfo: TaskBillingInfo | null) {
   return await taskModel.update({
     where: { id: taskId },
     data: {
       billingInfo: toNullableJson(billingInfo as unknown as Prisma.InputJsonValue),
+      budgetSpend: resolveTaskBillingSpend(billingInfo),
     },
   })
 }
@@ -422,6 +450,22 @@ export async function trySetTaskExternalId(taskId: string, externalId: string) {
   return result.count > 0
 }
 
+/**
+ * provider 限流时任务回到排队状态，等待延迟的队列任务再次执行
+ * 保留 enqueuedAt，watchdog 不会重复入队
+ */
+export async function tryMarkTaskDeferred(taskId: string) {
+  const result = await taskModel.updateMany({
+    where: activeTaskWhere(taskId),
+    data: {
+      status: TASK_STATUS.QUEUED,
+      heartbeatAt: null,
+      startedAt: null,
+    },
+  })
+  return result.count > 0
+}
+
 export async function touchTaskHeartbeat(taskId: string) {
   const result = await taskModel.updateMany({
     where: activeTaskWhere(taskId),
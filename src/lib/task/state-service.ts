@@ -28,7 +28,7 @@ export type TaskTargetState = {
   updatedAt: string | null
 }
 
-const ACTIVE_STATUS = new Set(['queued', 'processing'])
+const ACTIVE_STATUS = new Set(['blocked', 'queued', 'processing'])
 
 export function pairKey(targetType: string, targetId: string) {
   return `${targetType}:${targetId}`
@@ -240,7 +240,7 @@ export async function queryTaskTargetStates(params: {
           targetId: item.targetId,
         })),
         status: {
-          in: ['queued', 'processing', 'completed', 'failed', 'canceled'],
+          in: ['blocked', 'queued', 'processing', 'completed', 'failed', 'canceled'],
         },
         ...typeFilter,
       },
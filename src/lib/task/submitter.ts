@@ -1,7 +1,8 @@
 import { createScopedLogger } from '@/lib/logging/core'
-import { addTaskJob } from './queues'
+import { addTaskJob, promoteTaskJob } from './queues'
 import { publishTaskEvent } from './publisher'
 import {
+  clearTaskRunAfter,
   createTask,
   getTaskById,
   markTaskEnqueueFailed,
@@ -11,9 +12,13 @@ import {
   updateTaskBillingInfo,
   updateTaskPayload,
 } from './service'
-import { TASK_EVENT_TYPE, TASK_STATUS, TASK_TYPE, type TaskBillingInfo, type TaskType } from './types'
+import { resolveTaskLocaleFromBody } from './resolve-locale'
+import { isTaskScheduled } from './schedule'
+import { inspectTaskDependencies, recordTaskDependencies, settleBlockedTask } from './dependencies'
+import { TASK_EVENT_TYPE, TASK_STATUS, type TaskBillingInfo, type TaskType } from './types'
 import {
   buildDefaultTaskBillingInfo,
+  BudgetExceededError,
   getBillingMode,
   InsufficientBalanceError,
   isBillableTaskType,
@@ -24,14 +29,10 @@ import { getTaskFlowMeta } from '@/lib/llm-observe/stage-pipeline'
 import type { Locale } from '@/i18n/routing'
 import { attachTaskToRun, createRun, findReusableActiveRun } from '@/lib/run-runtime/service'
 import { isAiTaskType, workflowTypeFromTaskType } from '@/lib/run-runtime/workflow'
-
-const RUN_CENTRIC_TASK_TYPES = new Set<TaskType>([
-  TASK_TYPE.STORY_TO_SCRIPT_RUN,
-  TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
-])
+import { isWorkflowType } from '@/lib/workflow-engine/registry'
 
 function isRunCentricTaskType(type: TaskType): boolean {
-  return RUN_CENTRIC_TASK_TYPES.has(type)
+  return isWorkflowType(workflowTypeFromTaskType(type))
 }
 
 export function toObject(value: unknown): Record<string, unknown> {
@@ -121,6 +122,10 @@ export async function submitTask(params: {
   maxAttempts?: number
   billingInfo?: TaskBillingInfo | null
   requestId?: string | null
+  /** 定时执行时间；到期前任务只落库不入队，由 watchdog 按时投递 */
+  runAfter?: Date | null
+  /** 上游任务 ID；上游全部完成前任务保持 blocked，完成后上游产物写入 payload.upstreamOutputs */
+  dependsOn?: string[]
 }) {
   const logger = createScopedLogger({
     module: 'task.submitter',
@@ -130,10 +135,19 @@ export async function submitTask(params: {
     userId: params.userId,
   })
 
+  const dependsOn = params.dependsOn || []
+  const dependencyState = dependsOn.length > 0
+    ? await inspectTaskDependencies({
+        userId: params.userId,
+        projectId: params.projectId,
+        dependsOn,
+      })
+    : null
   const normalizedPayloadBase = normalizeTaskPayload(params.type, params.payload || null)
   const normalizedPayloadMeta = toObject(normalizedPayloadBase.meta)
   const normalizedPayload = {
     ...normalizedPayloadBase,
+    ...(dependencyState && dependencyState.outputs.length > 0 ? { upstreamOutputs: dependencyState.outputs } : {}),
     meta: {
       ...normalizedPayloadMeta,
       locale: params.locale,
@@ -181,7 +195,13 @@ export async function submitTask(params: {
     priority: params.priority,
     maxAttempts: params.maxAttempts,
     billingInfo: resolvedBillingInfo || null,
+    runAfter: params.runAfter || null,
+    blocked: dependencyState?.pending === true,
   })
+  const blocked = !deduped && task.status === TASK_STATUS.BLOCKED
+  if (blocked) {
+    await recordTaskDependencies(task.id, dependsOn)
+  }
   const reusableRunId = reusableRun && shouldAttachNewTaskToReusableRun(reusableRunTask?.status)
     ? (reusableRun?.id || null)
     : null
@@ -254,6 +274,7 @@ export async function submitTask(params: {
         await updateTaskBillingInfo(task.id, preparedBillingInfo)
       }
     } catch (error) {
+      // 任务随后标记为失败，未结算的预占不再计入预算（见 sumBudgetSpend）
       if (error instanceof InsufficientBalanceError) {
         await markTaskFailed(task.id, 'INSUFFICIENT_BALANCE', error.message)
         throw new ApiError('INSUFFICIENT_BALANCE', {
@@ -262,6 +283,16 @@ export async function submitTask(params: {
           available: error.available,
         })
       }
+      if (error instanceof BudgetExceededError) {
+        await markTaskFailed(task.id, 'BUDGET_EXCEEDED', error.message)
+        throw new ApiError('BUDGET_EXCEEDED', {
+          message: error.message,
+          scope: error.scope,
+          limit: error.limit,
+          spent: error.spent,
+          required: error.required,
+        })
+      }
       await markTaskFailed(task.id, 'INTERNAL_ERROR', error instanceof Error ? error.message : String(error))
       throw error
     }
@@ -290,6 +321,8 @@ export async function submitTask(params: {
       payload: {
         ...payloadForEvent,
         billing: preparedBillingInfo || null,
+        ...(task.runAfter ? { runAfter: task.runAfter.toISOString() } : {}),
+        ...(blocked ? { dependsOn } : {}),
         trace: {
           requestId: params.requestId || null,
         },
@@ -307,7 +340,30 @@ export async function submitTask(params: {
     },
   })
 
-  if (!deduped) {
+  let status = task.status
+  if (blocked) {
+    logger.info({
+      action: 'task.submit.blocked',
+      message: 'task blocked by upstream tasks',
+      taskId: task.id,
+      details: {
+        dependsOn,
+      },
+    })
+    // 上游可能在提交过程中已经结束，立即结算一次，避免等待 watchdog
+    const outcome = await settleBlockedTask(task.id)
+    if (outcome === 'released') status = TASK_STATUS.QUEUED
+    if (outcome === 'failed') status = TASK_STATUS.FAILED
+  } else if (!deduped && task.runAfter) {
+    logger.info({
+      action: 'task.submit.scheduled',
+      message: 'task scheduled',
+      taskId: task.id,
+      details: {
+        runAfter: task.runAfter.toISOString(),
+      },
+    })
+  } else if (!deduped) {
     try {
       await addTaskJob({
         taskId: task.id,
@@ -404,7 +460,64 @@ export async function submitTask(params: {
     async: true,
     taskId: task.id,
     runId,
-    status: task.status,
+    status,
     deduped,
+    ...(blocked ? { dependsOn } : {}),
+    ...(task.runAfter ? { runAfter: task.runAfter.toISOString() } : {}),
+  }
+}
+
+/**
+ * 提前执行定时任务：已按延迟入队的提升 Job，尚未入队的立即投递
+ * 任务不处于定时等待状态时返回 promoted: false
+ */
+export async function runScheduledTaskNow(taskId: string) {
+  const task = await getTaskById(taskId)
+  if (!task || !isTaskScheduled(task)) {
+    return { task, promoted: false }
+  }
+  if (!(await clearTaskRunAfter(task.id))) {
+    return { task, promoted: false }
+  }
+
+  const jobPromoted = task.enqueuedAt ? await promoteTaskJob(task.id) : false
+  if (!jobPromoted) {
+    const locale = resolveTaskLocaleFromBody(task.payload)
+    if (!locale) {
+      await markTaskFailed(task.id, 'TASK_LOCALE_REQUIRED', 'task locale is missing')
+      throw new ApiError('INVALID_PARAMS', { code: 'TASK_LOCALE_REQUIRED' })
+    }
+    await addTaskJob({
+      taskId: task.id,
+      type: task.type as TaskType,
+      locale,
+      projectId: task.projectId,
+      episodeId: task.episodeId,
+      targetType: task.targetType,
+      targetId: task.targetId,
+      payload: toObject(task.payload),
+      billingInfo: (task.billingInfo || null) as TaskBillingInfo | null,
+      userId: task.userId,
+    }, {
+      priority: task.priority,
+    })
+    await markTaskEnqueued(task.id)
   }
+
+  await publishTaskEvent({
+    taskId: task.id,
+    projectId: task.projectId,
+    userId: task.userId,
+    type: TASK_EVENT_TYPE.CREATED,
+    taskType: task.type,
+    targetType: task.targetType,
+    targetId: task.targetId,
+    episodeId: task.episodeId,
+    payload: {
+      ...toObject(task.payload),
+      runAfter: null,
+      reason: 'run_now',
+    },
+  })
+  return { task: await getTaskById(task.id), promoted: true }
 }
@@ -1,6 +1,7 @@
 import type { Locale } from '@/i18n/routing'
 
 export const TASK_STATUS = {
+  BLOCKED: 'blocked',
   QUEUED: 'queued',
   PROCESSING: 'processing',
   COMPLETED: 'completed',
@@ -24,6 +25,7 @@ export type TaskEventType = (typeof TASK_EVENT_TYPE)[keyof typeof TASK_EVENT_TYP
 export const TASK_SSE_EVENT_TYPE = {
   LIFECYCLE: 'task.lifecycle',
   STREAM: 'task.stream',
+  BATCH: 'task.batch',
 } as const
 
 export type TaskSSEEventType = (typeof TASK_SSE_EVENT_TYPE)[keyof typeof TASK_SSE_EVENT_TYPE]
@@ -43,6 +45,7 @@ export const TASK_TYPE = {
   IMAGE_LOCATION: 'image_location',
   VIDEO_PANEL: 'video_panel',
   LIP_SYNC: 'lip_sync',
+  VIDEO_RENDER: 'video_render',
   VOICE_LINE: 'voice_line',
   VOICE_DESIGN: 'voice_design',
   ASSET_HUB_VOICE_DESIGN: 'asset_hub_voice_design',
@@ -78,6 +81,8 @@ export const TASK_TYPE = {
   ASSET_HUB_AI_MODIFY_LOCATION: 'asset_hub_ai_modify_location',
   ASSET_HUB_AI_MODIFY_PROP: 'asset_hub_ai_modify_prop',
   ASSET_HUB_REFERENCE_TO_CHARACTER: 'asset_hub_reference_to_character',
+  AUTOPILOT_RUN: 'autopilot_run',
+  PROMPT_OVERRIDE_COMPARE: 'prompt_override_compare',
 } as const
 
 export type TaskType = (typeof TASK_TYPE)[keyof typeof TASK_TYPE]
@@ -86,6 +91,15 @@ export type QueueType = 'image' | 'video' | 'voice' | 'text'
 
 export type BillingMode = 'OFF' | 'SHADOW' | 'ENFORCE'
 
+// 本次提交使月度预算越过预警线 / 上限时附带的提示
+export type TaskBudgetAlert = {
+  scope: 'user' | 'project'
+  level: 'warning' | 'exceeded'
+  limit: number
+  spent: number
+  percent: number
+}
+
 export type TaskBillingInfo =
   | {
     billable: false
@@ -109,6 +123,8 @@ export type TaskBillingInfo =
     modeSnapshot?: BillingMode | null
     status?: 'skipped' | 'quoted' | 'frozen' | 'settled' | 'rolled_back' | 'failed'
     chargedCost?: number
+    actualCost?: number
+    budgetAlerts?: TaskBudgetAlert[]
   }
 
 export type TaskJobData = {
@@ -125,6 +141,8 @@ export type TaskJobData = {
   trace?: {
     requestId?: string | null
   } | null
+  /** 因 provider 限流被延迟重新执行的次数 */
+  rateLimitDeferrals?: number
 }
 
 export type SSEEvent = {
@@ -155,4 +173,7 @@ export type CreateTaskInput = {
   priority?: number
   maxAttempts?: number
   billingInfo?: TaskBillingInfo | null
+  runAfter?: Date | null
+  /** 存在未完成的上游任务：以 blocked 状态落库，上游完成后再入队 */
+  blocked?: boolean
 }
@@ -0,0 +1,122 @@
+import path from 'node:path'
+import { createScopedLogger } from '@/lib/logging/core'
+import { EDITOR_COMPOSITION_ID, type EditorCompositionProps } from '@/features/video-editor/remotion/Root'
+import type { RenderSettings } from './settings'
+
+export * from './settings'
+
+export type RenderProgress = {
+  progress: number
+  renderedFrames: number
+  encodedFrames: number
+  totalFrames: number
+}
+
+export type RenderEditorCompositionParams = {
+  inputProps: EditorCompositionProps
+  settings: RenderSettings
+  outputLocation: string
+  onProgress?: (progress: RenderProgress) => void
+}
+
+export type RenderEditorCompositionResult = {
+  outputLocation: string
+  durationInFrames: number
+  fps: number
+  width: number
+  height: number
+}
+
+const logger = createScopedLogger({
+  module: 'video-render',
+})
+
+const ENTRY_POINT = path.join(process.cwd(), 'src/features/video-editor/remotion/entry.ts')
+
+let serveUrlPromise: Promise<string> | null = null
+
+/**
+ * 获取 Remotion bundle 地址。
+ * 优先使用 VIDEO_RENDER_SERVE_URL（预构建 bundle），否则在当前进程内打包一次并复用。
+ */
+async function resolveServeUrl(): Promise<string> {
+  const configured = (process.env.VIDEO_RENDER_SERVE_URL || '').trim()
+  if (configured) return configured
+
+  if (!serveUrlPromise) {
+    serveUrlPromise = (async () => {
+      const { bundle } = await import('@remotion/bundler')
+      const startedAt = Date.now()
+      const serveUrl = await bundle({
+        entryPoint: ENTRY_POINT,
+        webpackOverride: (config) => ({
+          ...config,
+          resolve: {
+            ...config.resolve,
+            alias: {
+              ...(config.resolve?.alias || {}),
+              '@': path.join(process.cwd(), 'src'),
+            },
+          },
+        }),
+      })
+      logger.info({
+        action: 'video_render.bundle.ready',
+        message: 'remotion bundle ready',
+        durationMs: Date.now() - startedAt,
+      })
+      return serveUrl
+    })()
+    serveUrlPromise.catch(() => {
+      serveUrlPromise = null
+    })
+  }
+  return await serveUrlPromise
+}
+
+/**
+ * 在服务端将编辑器合成渲染为视频文件。
+ */
+export async function renderEditorComposition(
+  params: RenderEditorCompositionParams,
+): Promise<RenderEditorCompositionResult> {
+  const { renderMedia, selectComposition } = await import('@remotion/renderer')
+  const serveUrl = await resolveServeUrl()
+  const browserExecutable = (process.env.VIDEO_RENDER_BROWSER_EXECUTABLE || '').trim() || null
+  const inputProps = params.inputProps as unknown as Record<string, unknown>
+
+  const composition = await selectComposition({
+    serveUrl,
+    id: EDITOR_COMPOSITION_ID,
+    inputProps,
+    browserExecutable,
+  })
+
+  await renderMedia({
+    serveUrl,
+    composition,
+    inputProps,
+    codec: params.settings.codec,
+    crf: params.settings.crf,
+    scale: params.settings.scale,
+    outputLocation: params.outputLocation,
+    browserExecutable,
+    overwrite: true,
+    onProgress: ({ progress, renderedFrames, encodedFrames }) => {
+      params.onProgress?.({
+        progress,
+        renderedFrames,
+        encodedFrames,
+        totalFrames: composition.durationInFrames,
+      })
+    },
+  })
+
+  return {
+    outputLocation: params.outputLocation,
+    durationInFrames: composition.durationInFrames,
+    fps: composition.fps,
+    width: Math.round(composition.width * params.settings.scale),
+    height: Math.round(composition.height * params.settings.scale),
+  }
+}
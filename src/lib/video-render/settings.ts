@@ -0,0 +1,99 @@
+import type {
+  EditorConfig,
+  EditorTrack,
+  RenderFormat,
+  RenderQuality,
+  VideoEditorProject,
+} from '@/features/video-editor/types/editor.types'
+import type { EditorCompositionProps } from '@/features/video-editor/remotion/Root'
+
+export type RenderCodec = 'h264' | 'vp8'
+
+export type RenderSettings = {
+  format: RenderFormat
+  quality: RenderQuality
+  codec: RenderCodec
+  crf: number
+  scale: number
+  ext: RenderFormat
+  mimeType: string
+}
+
+const RENDER_FORMATS: ReadonlySet<string> = new Set<RenderFormat>(['mp4', 'webm'])
+const RENDER_QUALITIES: ReadonlySet<string> = new Set<RenderQuality>(['draft', 'high'])
+
+// draft 用于快速审片：半分辨率 + 高 CRF；high 为最终交付
+const CRF_BY_CODEC: Record<RenderCodec, Record<RenderQuality, number>> = {
+  h264: { draft: 28, high: 18 },
+  vp8: { draft: 40, high: 12 },
+}
+
+export function isRenderFormat(value: unknown): value is RenderFormat {
+  return typeof value === 'string' && RENDER_FORMATS.has(value)
+}
+
+export function isRenderQuality(value: unknown): value is RenderQuality {
+  return typeof value === 'string' && RENDER_QUALITIES.has(value)
+}
+
+export function resolveRenderSettings(format: RenderFormat, quality: RenderQuality): RenderSettings {
+  const codec: RenderCodec = format === 'webm' ? 'vp8' : 'h264'
+  return {
+    format,
+    quality,
+    codec,
+    crf: CRF_BY_CODEC[codec][quality],
+    scale: quality === 'draft' ? 0.5 : 1,
+    ext: format,
+    mimeType: format === 'webm' ? 'video/webm' : 'video/mp4',
+  }
+}
+
+function resolveTrackMedia(track: EditorTrack, resolveMediaUrl: (src: string) => string): EditorTrack {
+  return {
+    ...track,
+    items: track.items.map((item) => (
+      item.type === 'text' ? item : { ...item, src: resolveMediaUrl(item.src) }
+    )),
+  }
+}
+
+/**
+ * 将编辑器项目转换为 Remotion inputProps。
+ * 所有媒体地址都经过 resolveMediaUrl，确保无头浏览器可以直接拉取。
+ */
+export function buildRenderInputProps(
+  project: Pick<VideoEditorProject, 'timeline' | 'bgmTrack' | 'tracks' | 'config'>,
+  resolveMediaUrl: (src: string) => string,
+  options: { burnSubtitles?: boolean } = {},
+): EditorCompositionProps {
+  const config: EditorConfig = {
+    fps: project.config.fps,
+    width: project.config.width,
+    height: project.config.height,
+  }
+
+  return {
+    config,
+    burnSubtitles: options.burnSubtitles !== false,
+    clips: project.timeline.map((clip) => ({
+      ...clip,
+      src: resolveMediaUrl(clip.src),
+      ...(clip.attachment
+        ? {
+          attachment: {
+            ...clip.attachment,
+            ...(clip.attachment.audio
+              ? { audio: { ...clip.attachment.audio, src: resolveMediaUrl(clip.attachment.audio.src) } }
+              : {}),
+          },
+        }
+        : {}),
+    })),
+    bgmTrack: project.bgmTrack.map((bgm) => ({
+      ...bgm,
+      src: resolveMediaUrl(bgm.src),
+    })),
+    tracks: (project.tracks || []).map((track) => resolveTrackMedia(track, resolveMediaUrl)),
+  }
+}
@@ -3,9 +3,9 @@ import { prisma } from '@/lib/prisma'
 import { executeAiTextStep } from '@/lib/ai-runtime'
 import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
 import { reportTaskProgress } from '@/lib/workers/shared'
-import { assertTaskActive } from '@/lib/workers/utils'
-import { createWorkerLLMStreamCallbacks, createWorkerLLMStreamContext } from './llm-stream'
 import type { TaskJobData } from '@/lib/task/types'
+import { createArtifact } from '@/lib/run-runtime/service'
+import { parseAnalyzeGlobalChunkIndex } from '@/lib/workflow-engine/registry'
 import {
   CHUNK_SIZE,
   chunkContent,
@@ -19,13 +19,21 @@ import {
 import { buildAnalyzeGlobalPrompts, loadAnalyzeGlobalPromptTemplates } from './analyze-global-prompt'
 import { createAnalyzeGlobalStats, persistAnalyzeGlobalChunk } from './analyze-global-persist'
 import { resolveAnalysisModel } from './resolve-analysis-model'
+import { resolveWorkflowRetryStep, resolveWorkflowRunId, runWorkflowWithLease } from './workflow-run'
 
 function readAssetKind(value: Record<string, unknown>): string {
   return typeof value.assetKind === 'string' ? value.assetKind : 'location'
 }
 
 export async function handleAnalyzeGlobalTask(job: Job<TaskJobData>) {
+  const payload = (job.data.payload || {}) as Record<string, unknown>
   const projectId = job.data.projectId
+  const runId = await resolveWorkflowRunId(job, payload)
+  const { retryStepKey, retryStepAttempt } = resolveWorkflowRetryStep(payload)
+  const retryChunkIndex = retryStepKey ? parseAnalyzeGlobalChunkIndex(retryStepKey) : null
+  if (retryStepKey && retryChunkIndex === null) {
+    throw new Error(`unsupported retry step for analyze_global: ${retryStepKey}`)
+  }
   const project = await prisma.project.findUnique({
     where: { id: projectId },
     select: {
@@ -74,6 +82,12 @@ export async function handleAnalyzeGlobalTask(job: Job<TaskJobData>) {
   }
 
   const chunks = chunkContent(allContent, CHUNK_SIZE)
+  // 重试第 N 片时从第 N 片续跑；之前的切片结果已落库，会作为已有资产参与后续分析
+  const startChunk = retryChunkIndex === null ? 0 : retryChunkIndex - 1
+  if (startChunk >= chunks.length) {
+    throw new Error(`retry chunk out of range: ${retryStepKey}`)
+  }
+  const resolveStepAttempt = (stepId: string) => (stepId === retryStepKey ? retryStepAttempt : 1)
   const templates = loadAnalyzeGlobalPromptTemplates(job.data.locale)
   const existingCharacters: CharacterBrief[] = novelData.characters.map((item) => ({
     id: item.id,
@@ -96,136 +110,157 @@ export async function handleAnalyzeGlobalTask(job: Job<TaskJobData>) {
     .map((item) => item.name)
   const stats = createAnalyzeGlobalStats(chunks.length)
 
-  await reportTaskProgress(job, 10, {
-    stage: 'analyze_global_prepare',
-    stageLabel: '准备全局资产分析参数',
-    displayMode: 'detail',
-    message: `共 ${chunks.length} 个切片`,
-  })
-  await assertTaskActive(job, 'analyze_global_prepare')
-
-  const streamContext = createWorkerLLMStreamContext(job, 'analyze_global')
-  const streamCallbacks = createWorkerLLMStreamCallbacks(job, streamContext)
-
-  try {
-    for (let i = 0; i < chunks.length; i += 1) {
-      await assertTaskActive(job, `analyze_global_chunk:${i + 1}`)
-      const chunk = chunks[i]
-      const progress = 15 + Math.min(60, Math.floor(((i + 1) / Math.max(1, chunks.length)) * 60))
-      await reportTaskProgress(job, progress, {
-        stage: 'analyze_global_chunk',
-        stageLabel: '分析全局资产切片',
-        displayMode: 'detail',
-        message: `切片 ${i + 1}/${chunks.length}`,
-        stepId: `analyze_global_chunk_${i + 1}`,
-        stepTitle: `全局资产分析 ${i + 1}/${chunks.length}`,
-        stepIndex: i + 1,
-        stepTotal: chunks.length,
-      })
-
-      const { characterPrompt, locationPrompt, propPrompt } = buildAnalyzeGlobalPrompts({
-        chunk,
-        templates,
-        existingCharacters,
-        existingLocationInfo,
-        existingPropNames,
-      })
-
-      const [characterCompletion, locationCompletion, propCompletion] = await withInternalLLMStreamCallbacks(
-        streamCallbacks,
-        async () =>
-          await Promise.all([
-            executeAiTextStep({
-              userId: job.data.userId,
-              model: analysisModel,
-              messages: [{ role: 'user', content: characterPrompt }],
-              temperature: 0.7,
-              projectId,
-              action: 'analyze_global_characters',
-              meta: {
-                stepId: `analyze_global_characters_${i + 1}`,
-                stepTitle: `角色分析 ${i + 1}/${chunks.length}`,
-                stepIndex: i + 1,
-                stepTotal: chunks.length,
-              },
-            }),
-            executeAiTextStep({
-              userId: job.data.userId,
-              model: analysisModel,
-              messages: [{ role: 'user', content: locationPrompt }],
-              temperature: 0.7,
-              projectId,
-              action: 'analyze_global_locations',
-              meta: {
-                stepId: `analyze_global_locations_${i + 1}`,
-                stepTitle: `场景分析 ${i + 1}/${chunks.length}`,
-                stepIndex: i + 1,
-                stepTotal: chunks.length,
-              },
-            }),
-            executeAiTextStep({
-              userId: job.data.userId,
-              model: analysisModel,
-              messages: [{ role: 'user', content: propPrompt }],
-              temperature: 0.7,
-              projectId,
-              action: 'analyze_global_props',
-              meta: {
-                stepId: `analyze_global_props_${i + 1}`,
-                stepTitle: `道具分析 ${i + 1}/${chunks.length}`,
-                stepIndex: i + 1,
-                stepTotal: chunks.length,
-              },
-            }),
-          ]),
-      )
-
-      const characterResponse = characterCompletion.text
-      const locationResponse = locationCompletion.text
-      const propResponse = propCompletion.text
-      const charactersData = safeParseCharactersResponse(characterResponse)
-      const locationsData = safeParseLocationsResponse(locationResponse)
-      const propsData = safeParsePropsResponse(propResponse)
-
-      await persistAnalyzeGlobalChunk({
-        projectInternalId: novelData.id,
-        charactersData,
-        locationsData,
-        propsData,
-        existingCharacters,
-        existingCharacterNames,
-        existingLocationNames,
-        existingLocationInfo,
-        existingPropNames,
-        stats,
-      })
-
-      stats.processedChunks += 1
+  return await runWorkflowWithLease(job, {
+    runId,
+    label: 'analyze_global',
+  }, async ({ assertRunActive, streamCallbacks }) => {
+    await reportTaskProgress(job, 10, {
+      stage: 'analyze_global_prepare',
+      stageLabel: '准备全局资产分析参数',
+      displayMode: 'detail',
+      message: `共 ${chunks.length} 个切片`,
+    })
+    await assertRunActive('analyze_global_prepare')
+
+    try {
+      for (let i = startChunk; i < chunks.length; i += 1) {
+        await assertRunActive(`analyze_global_chunk:${i + 1}`)
+        const chunk = chunks[i]
+        const progress = 15 + Math.min(60, Math.floor(((i + 1) / Math.max(1, chunks.length)) * 60))
+        await reportTaskProgress(job, progress, {
+          stage: 'analyze_global_chunk',
+          stageLabel: '分析全局资产切片',
+          displayMode: 'detail',
+          message: `切片 ${i + 1}/${chunks.length}`,
+          stepId: `analyze_global_chunk_${i + 1}`,
+          stepAttempt: resolveStepAttempt(`analyze_global_chunk_${i + 1}`),
+          stepTitle: `全局资产分析 ${i + 1}/${chunks.length}`,
+          stepIndex: i + 1,
+          stepTotal: chunks.length,
+        })
+
+        const { characterPrompt, locationPrompt, propPrompt } = buildAnalyzeGlobalPrompts({
+          chunk,
+          templates,
+          existingCharacters,
+          existingLocationInfo,
+          existingPropNames,
+        })
+
+        const [characterCompletion, locationCompletion, propCompletion] = await withInternalLLMStreamCallbacks(
+          streamCallbacks,
+          async () =>
+            await Promise.all([
+              executeAiTextStep({
+                userId: job.data.userId,
+                model: analysisModel,
+                messages: [{ role: 'user', content: characterPrompt }],
+                temperature: 0.7,
+                projectId,
+                action: 'analyze_global_characters',
+                meta: {
+                  stepId: `analyze_global_characters_${i + 1}`,
+                  stepAttempt: resolveStepAttempt(`analyze_global_characters_${i + 1}`),
+                  stepTitle: `角色分析 ${i + 1}/${chunks.length}`,
+                  stepIndex: i + 1,
+                  stepTotal: chunks.length,
+                },
+              }),
+              executeAiTextStep({
+                userId: job.data.userId,
+                model: analysisModel,
+                messages: [{ role: 'user', content: locationPrompt }],
+                temperature: 0.7,
+                projectId,
+                action: 'analyze_global_locations',
+                meta: {
+                  stepId: `analyze_global_locations_${i + 1}`,
+                  stepAttempt: resolveStepAttempt(`analyze_global_locations_${i + 1}`),
+                  stepTitle: `场景分析 ${i + 1}/${chunks.length}`,
+                  stepIndex: i + 1,
+                  stepTotal: chunks.length,
+                },
+              }),
+              executeAiTextStep({
+                userId: job.data.userId,
+                model: analysisModel,
+                messages: [{ role: 'user', content: propPrompt }],
+                temperature: 0.7,
+                projectId,
+                action: 'analyze_global_props',
+                meta: {
+                  stepId: `analyze_global_props_${i + 1}`,
+                  stepAttempt: resolveStepAttempt(`analyze_global_props_${i + 1}`),
+                  stepTitle: `道具分析 ${i + 1}/${chunks.length}`,
+                  stepIndex: i + 1,
+                  stepTotal: chunks.length,
+                },
+              }),
+            ]),
+        )
+
+        const characterResponse = characterCompletion.text
+        const locationResponse = locationCompletion.text
+        const propResponse = propCompletion.text
+        const charactersData = safeParseCharactersResponse(characterResponse)
+        const locationsData = safeParseLocationsResponse(locationResponse)
+        const propsData = safeParsePropsResponse(propResponse)
+
+        await createArtifact({
+          runId,
+          stepKey: `analyze_global_chunk_${i + 1}`,
+          artifactType: 'analysis.global.chunk',
+          refId: projectId,
+          payload: {
+            chunkIndex: i + 1,
+            chunkTotal: chunks.length,
+            characters: charactersData,
+            locations: locationsData,
+            props: propsData,
+          },
+        })
+        await assertRunActive(`analyze_global_persist:${i + 1}`)
+
+        await persistAnalyzeGlobalChunk({
+          projectInternalId: novelData.id,
+          charactersData,
+          locationsData,
+          propsData,
+          existingCharacters,
+          existingCharacterNames,
+          existingLocationNames,
+          existingLocationInfo,
+          existingPropNames,
+          stats,
+        })
+
+        stats.processedChunks += 1
+      }
+    } finally {
+      await streamCallbacks.flush()
     }
-  } finally {
-    await streamCallbacks.flush()
-  }
 
-  await reportTaskProgress(job, 96, {
-    stage: 'analyze_global_done',
-    stageLabel: '全局资产分析完成',
-    displayMode: 'detail',
-  })
+    await reportTaskProgress(job, 96, {
+      stage: 'analyze_global_done',
+      stageLabel: '全局资产分析完成',
+      displayMode: 'detail',
+    })
 
-  return {
-    success: true,
-    stats: {
-      totalChunks: stats.totalChunks,
-      newCharacters: stats.newCharacters,
-      updatedCharacters: stats.updatedCharacters,
-      newLocations: stats.newLocations,
-      newProps: stats.newProps,
-      skippedCharacters: stats.skippedCharacters,
-      skippedLocations: stats.skippedLocations,
-      skippedProps: stats.skippedProps,
-      totalCharacters: existingCharacterNames.length,
-      totalLocations: existingLocationNames.length,
-      totalProps: existingPropNames.length,
-    },
-  }
+    return {
+      success: true,
+      stats: {
+        totalChunks: stats.totalChunks,
+        newCharacters: stats.newCharacters,
+        updatedCharacters: stats.updatedCharacters,
+        newLocations: stats.newLocations,
+        newProps: stats.newProps,
+        skippedCharacters: stats.skippedCharacters,
+        skippedLocations: stats.skippedLocations,
+        skippedProps: stats.skippedProps,
+        totalCharacters: existingCharacterNames.length,
+        totalLocations: existingLocationNames.length,
+        totalProps: existingPropNames.length,
+      },
+    }
+  })
 }
@@ -1,6 +1,7 @@
 import { type Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { CHARACTER_ASSET_IMAGE_RATIO, LOCATION_IMAGE_RATIO, PROP_IMAGE_RATIO, addCharacterPromptSuffix, addLocationPromptSuffix, addPropPromptSuffix, getArtStylePrompt } from '@/lib/constants'
+import { CHARACTER_ASSET_IMAGE_RATIO, LOCATION_IMAGE_RATIO, PROP_IMAGE_RATIO, addCharacterPromptSuffix, addLocationPromptSuffix, addPropPromptSuffix } from '@/lib/constants'
+import { resolveArtStylePrompt } from '@/lib/art-style/resolve'
 import { type TaskJobData } from '@/lib/task/types'
 import { encodeImageUrls } from '@/lib/contracts/image-urls-contract'
 import { normalizeImageGenerationCount } from '@/lib/image-generation/count'
@@ -63,10 +64,7 @@ export async function handleAssetHubImageTask(job: Job<TaskJobData>) {
   const payload = (job.data.payload || {}) as AnyObj
   const userId = job.data.userId
   const userModels = await getUserModels(userId)
-  const artStyle = getArtStylePrompt(
-    typeof payload.artStyle === 'string' ? payload.artStyle : undefined,
-    job.data.locale,
-  )
+  const payloadArtStyle = typeof payload.artStyle === 'string' ? payload.artStyle : undefined
 
   if (payload.type === 'character') {
     const characterId = typeof payload.id === 'string' ? payload.id : null
@@ -85,6 +83,7 @@ export async function handleAssetHubImageTask(job: Job<TaskJobData>) {
 
     const modelId = userModels.characterModel
     if (!modelId) throw new Error('User character model not configured')
+    const artStyle = await resolveArtStylePrompt({ artStyle: payloadArtStyle, userId, locale: job.data.locale, modelKey: modelId })
 
     const descriptions = parseJsonStringArray(appearance.descriptions)
     const base = descriptions.length ? descriptions : [appearance.description || '']
@@ -134,6 +133,7 @@ export async function handleAssetHubImageTask(job: Job<TaskJobData>) {
 
     const modelId = userModels.locationModel
     if (!modelId) throw new Error('User location model not configured')
+    const artStyle = await resolveArtStylePrompt({ artStyle: payloadArtStyle, userId, locale: job.data.locale, modelKey: modelId })
 
     const count = normalizeImageGenerationCount('location', payload.count)
     const targetImages = Object.prototype.hasOwnProperty.call(payload, 'count')
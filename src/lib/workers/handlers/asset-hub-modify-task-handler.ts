@@ -5,7 +5,6 @@ import { type TaskJobData } from '@/lib/task/types'
 import {
   assertTaskActive,
   getUserModels,
-  resolveImageSourceFromGeneration,
   toSignedUrlIfCos,
   uploadImageSourceToCos,
 } from '../utils'
@@ -28,6 +27,7 @@ import {
   generateModifiedAssetDescription,
   readIndexedDescription,
 } from './modify-description-sync'
+import { resolveModifyImageSource } from './image-inpaint'
 
 const logger = createScopedLogger({ module: 'worker.asset-hub-modify' })
 
@@ -132,10 +132,12 @@ export async function handleAssetHubModifyTask(job: Job<TaskJobData>) {
     })
 
     const prompt = `请根据以下指令修改图片，保持人物核心特征一致：\n${modifyInstruction}`
-    const source = await resolveImageSourceFromGeneration(job, {
+    const source = await resolveModifyImageSource(job, {
       userId,
       modelId: editModel,
       prompt,
+      baseImage: currentUrl,
+      maskImageKey: payload.maskImageKey,
       options: {
         referenceImages,
         aspectRatio: '3:2',
@@ -143,7 +145,7 @@ export async function handleAssetHubModifyTask(job: Job<TaskJobData>) {
       },
     })
 
-    const imageKey = await uploadImageSourceToCos(source, 'global-character-modify', appearance.id)
+    const imageKey = await uploadImageSourceToCos(source, 'global-character-modify', appearance.id, userId)
 
     while (imageUrls.length <= targetImageIndex) imageUrls.push('')
     imageUrls[targetImageIndex] = imageKey
@@ -221,10 +223,12 @@ export async function handleAssetHubModifyTask(job: Job<TaskJobData>) {
       ? `请根据以下指令修改道具图片，保持道具主体、结构和关键材质一致：\n${modifyInstruction}`
       : `请根据以下指令修改场景图片，保持整体风格一致：\n${modifyInstruction}`
     const aspectRatio = isProp ? PROP_IMAGE_RATIO : LOCATION_IMAGE_RATIO
-    const source = await resolveImageSourceFromGeneration(job, {
+    const source = await resolveModifyImageSource(job, {
       userId,
       modelId: editModel,
       prompt,
+      baseImage: currentUrl,
+      maskImageKey: payload.maskImageKey,
       options: {
         referenceImages,
         aspectRatio,
@@ -232,7 +236,12 @@ export async function handleAssetHubModifyTask(job: Job<TaskJobData>) {
       },
     })
 
-    const imageKey = await uploadImageSourceToCos(source, isProp ? 'global-prop-modify' : 'global-location-modify', locationImage.id)
+    const imageKey = await uploadImageSourceToCos(
+      source,
+      isProp ? 'global-prop-modify' : 'global-location-modify',
+      locationImage.id,
+      userId,
+    )
 
     let extractedDescription: {
       prompt: string
@@ -0,0 +1,255 @@
+import type { Job } from 'bullmq'
+import {
+  AUTOPILOT_STAGE_RUNNERS,
+  AUTOPILOT_STAGES,
+  cancelAutopilotChildren,
+  getAutopilotStageTitle,
+  inspectAutopilotStageChildren,
+  isAutopilotStage,
+  loadAutopilotState,
+  parseAutopilotOptions,
+  rewindAutopilotState,
+  saveAutopilotState,
+  sumAutopilotSpend,
+  type AutopilotOptions,
+  type AutopilotStage,
+  type AutopilotStageContext,
+  type AutopilotState,
+} from '@/lib/autopilot'
+import { getRunById } from '@/lib/run-runtime/service'
+import { RUN_STATUS } from '@/lib/run-runtime/types'
+import { getDefaultRunLeaseMs, withWorkflowRunLease } from '@/lib/run-runtime/workflow-lease'
+import { TaskDeferredError, TaskTerminatedError } from '@/lib/task/errors'
+import type { TaskJobData } from '@/lib/task/types'
+import { reportTaskProgress } from '@/lib/workers/shared'
+import { createWorkflowRunContext, resolveWorkflowRetryStep, resolveWorkflowRunId, type WorkflowRetryStep } from './workflow-run'
+
+const CHILD_POLL_MS = 15_000
+
+type AutopilotTickResult =
+  | { status: 'waiting'; delayMs: number; reason: string }
+  | { status: 'completed'; summary: Record<string, unknown> }
+
+function readEpisodeId(job: Job<TaskJobData>, payload: Record<string, unknown>): string {
+  const raw = typeof payload.episodeId === 'string'
+    ? payload.episodeId
+    : typeof job.data.episodeId === 'string'
+      ? job.data.episodeId
+      : ''
+  return raw.trim()
+}
+
+function buildStepMeta(stage: AutopilotStage, retryStep: WorkflowRetryStep) {
+  return {
+    stepId: stage,
+    stepTitle: getAutopilotStageTitle(stage),
+    stepIndex: AUTOPILOT_STAGES.indexOf(stage) + 1,
+    stepTotal: AUTOPILOT_STAGES.length,
+    stepAttempt: stage === retryStep.retryStepKey ? retryStep.retryStepAttempt : 1,
+  }
+}
+
+function resolveStageProgress(stage: AutopilotStage): number {
+  return Math.floor((AUTOPILOT_STAGES.indexOf(stage) / AUTOPILOT_STAGES.length) * 100)
+}
+
+/**
+ * 推进一次 autopilot：从 checkpoint 恢复状态，逐阶段提交子任务 → 等待 → 质量校验 → 写入 checkpoint。
+ * 需要等待子任务或人工审批时返回 waiting，由调用方在释放 lease 后让出 worker。
+ */
+async function runAutopilotTick(params: {
+  job: Job<TaskJobData>
+  runId: string
+  episodeId: string
+  options: AutopilotOptions
+  retryStep: WorkflowRetryStep
+  assertRunActive: (stage: string) => Promise<void>
+}): Promise<AutopilotTickResult> {
+  const { job, runId, episodeId, options, retryStep } = params
+  let { state, version } = await loadAutopilotState(runId)
+
+  const { retryStepKey, retryStepAttempt } = retryStep
+  if (
+    isAutopilotStage(retryStepKey)
+    && (state.resumedFrom?.stepKey !== retryStepKey || state.resumedFrom.attempt !== retryStepAttempt)
+  ) {
+    state = {
+      ...rewindAutopilotState(state, retryStepKey),
+      resumedFrom: { stepKey: retryStepKey, attempt: retryStepAttempt },
+    }
+    version = await saveAutopilotState(runId, version, state)
+  }
+
+  const assertWithinBudget = async (current: AutopilotState, stage: AutopilotStage, estimatedCost: number) => {
+    if (options.budget === null) return
+    const spent = await sumAutopilotSpend(current)
+    if (spent >= options.budget || spent + estimatedCost > options.budget) {
+      await cancelAutopilotChildren({
+        projectId: job.data.projectId,
+        state: current,
+        reason: 'Autopilot budget exceeded',
+      })
+      throw new Error(
+        `AUTOPILOT_BUDGET_EXCEEDED: ${stage} needs ${estimatedCost}, spent ${spent} of ${options.budget}`,
+      )
+    }
+  }
+
+  try {
+    while (state.stage !== 'done') {
+      const stage: AutopilotStage = state.stage
+      const runner = AUTOPILOT_STAGE_RUNNERS[stage]
+      const stepMeta = buildStepMeta(stage, retryStep)
+      const progress = resolveStageProgress(stage)
+      await params.assertRunActive(`autopilot_${stage}`)
+
+      const buildContext = (current: AutopilotState): AutopilotStageContext => ({
+        runId,
+        projectId: job.data.projectId,
+        episodeId,
+        userId: job.data.userId,
+        locale: job.data.locale,
+        requestId: job.data.trace?.requestId || null,
+        options,
+        stageState: current.stages[stage] || null,
+        assertAffordable: async (estimatedCost) => await assertWithinBudget(current, stage, estimatedCost),
+      })
+
+      if (!state.stages[stage]) {
+        await assertWithinBudget(state, stage, 0)
+        const launched = await runner.launch(buildContext(state))
+        state = {
+          ...state,
+          stages: {
+            ...state.stages,
+            [stage]: {
+              taskIds: launched.taskIds || [],
+              batchId: launched.batchId || null,
+              launchedAt: new Date().toISOString(),
+              note: launched.note || null,
+            },
+          },
+        }
+        version = await saveAutopilotState(runId, version, state)
+        await reportTaskProgress(job, progress, {
+          stage: 'autopilot_stage',
+          displayMode: 'detail',
+          ...stepMeta,
+        })
+      }
+
+      const ctx = buildContext(state)
+      const children = await inspectAutopilotStageChildren(state.stages[stage]!)
+      await assertWithinBudget(state, stage, 0)
+      if (children.active > 0) {
+        return { status: 'waiting', delayMs: CHILD_POLL_MS, reason: 'autopilot_children_running' }
+      }
+      if (children.failure) {
+        throw new Error(`AUTOPILOT_STAGE_FAILED: ${stage}: ${children.failure}`)
+      }
+
+      const wait = runner.waitFor ? await runner.waitFor(ctx) : null
+      if (wait) {
+        await reportTaskProgress(job, progress, {
+          stage: wait.reason,
+          displayMode: 'detail',
+          ...stepMeta,
+        })
+        return { status: 'waiting', delayMs: wait.delayMs, reason: wait.reason }
+      }
+
+      if (runner.finalize) {
+        await runner.finalize(ctx)
+      }
+      const gateFailure = await runner.verify(ctx)
+      if (gateFailure) {
+        throw new Error(`AUTOPILOT_QUALITY_GATE_FAILED: ${stage}: ${gateFailure}`)
+      }
+
+      await reportTaskProgress(job, progress, {
+        stage: 'autopilot_stage',
+        displayMode: 'detail',
+        done: true,
+        ...stepMeta,
+      })
+      state = {
+        ...state,
+        stage: AUTOPILOT_STAGES[AUTOPILOT_STAGES.indexOf(stage) + 1] || 'done',
+      }
+      version = await saveAutopilotState(runId, version, state)
+    }
+  } catch (error) {
+    // run 被取消时一并取消已提交的子任务，避免继续消耗额度
+    if (error instanceof TaskTerminatedError) {
+      await cancelAutopilotChildren({
+        projectId: job.data.projectId,
+        state,
+        reason: 'Autopilot run cancelled',
+      })
+    }
+    throw error
+  }
+
+  return {
+    status: 'completed',
+    summary: {
+      runId,
+      episodeId,
+      spent: await sumAutopilotSpend(state),
+      budget: options.budget,
+      stages: Object.fromEntries(
+        AUTOPILOT_STAGES.map((stage) => [stage, state.stages[stage]?.note || null]),
+      ),
+    },
+  }
+}
+
+export async function handleAutopilotTask(job: Job<TaskJobData>) {
+  const payload = (job.data.payload || {}) as Record<string, unknown>
+  const episodeId = readEpisodeId(job, payload)
+  if (!episodeId) {
+    throw new Error('episodeId is required')
+  }
+  const runId = await resolveWorkflowRunId(job, payload)
+  const retryStep = resolveWorkflowRetryStep(payload)
+  if (retryStep.retryStepKey && !isAutopilotStage(retryStep.retryStepKey)) {
+    throw new Error(`unsupported retry step for autopilot: ${retryStep.retryStepKey}`)
+  }
+  const options = parseAutopilotOptions(payload)
+
+  const { workerId, assertRunActive } = createWorkflowRunContext(job, {
+    runId,
+    label: 'autopilot',
+  })
+
+  const leaseResult = await withWorkflowRunLease({
+    runId,
+    userId: job.data.userId,
+    workerId,
+    run: async () => await runAutopilotTick({
+      job,
+      runId,
+      episodeId,
+      options,
+      retryStep,
+      assertRunActive,
+    }),
+  })
+
+  if (!leaseResult.claimed || !leaseResult.result) {
+    const run = await getRunById(runId)
+    if (!run || (run.status !== RUN_STATUS.QUEUED && run.status !== RUN_STATUS.RUNNING)) {
+      return {
+        runId,
+        skipped: true,
+        episodeId,
+      }
+    }
+    // lease 仍被中断的 worker 持有：等 lease 过期后由本任务接管，从 checkpoint 续跑
+    throw new TaskDeferredError(getDefaultRunLeaseMs(), 'run_lease_busy')
+  }
+  if (leaseResult.result.status === 'waiting') {
+    throw new TaskDeferredError(leaseResult.result.delayMs, leaseResult.result.reason)
+  }
+  return leaseResult.result.summary
+}
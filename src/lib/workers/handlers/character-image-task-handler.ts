@@ -1,13 +1,16 @@
 import { type Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { CHARACTER_ASSET_IMAGE_RATIO, addCharacterPromptSuffix, getArtStylePrompt, isArtStyleValue, PRIMARY_APPEARANCE_INDEX, type ArtStyleValue } from '@/lib/constants'
+import { resolveArtStylePrompt } from '@/lib/art-style/resolve'
+import { CHARACTER_ASSET_IMAGE_RATIO, addCharacterPromptSuffix, isArtStyleValue, PRIMARY_APPEARANCE_INDEX, type ArtStyleValue } from '@/lib/constants'
 import { type TaskJobData } from '@/lib/task/types'
 import { encodeImageUrls } from '@/lib/contracts/image-urls-contract'
 import { normalizeImageGenerationCount } from '@/lib/image-generation/count'
+import { parseImageSeedList, serializeImageSeedList } from '@/lib/image-generation/seed'
 import { reportTaskProgress } from '../shared'
 import {
   assertTaskActive,
   getProjectModels,
+  planCandidateSeeds,
   toSignedUrlIfCos,
 } from '../utils'
 import { normalizeReferenceImagesForGeneration } from '@/lib/media/outbound-image'
@@ -35,6 +38,7 @@ interface CharacterAppearanceRecord {
   descriptions: string | null
   description: string | null
   imageUrls: string | null
+  imageSeeds: string | null
   selectedIndex: number | null
   imageUrl: string | null
   changeReason: string | null
@@ -107,7 +111,12 @@ export async function handleCharacterImageTask(job: Job<TaskJobData>) {
   if (!appearance) throw new Error('Character appearance not found')
 
   const payloadArtStyle = resolvePayloadArtStyle(payload)
-  const artStyle = getArtStylePrompt(payloadArtStyle ?? models.artStyle, job.data.locale)
+  const artStyle = await resolveArtStylePrompt({
+    artStyle: payloadArtStyle ?? models.artStyle,
+    userId,
+    locale: job.data.locale,
+    modelKey: modelId,
+  })
   const descriptions = parseJsonStringArray(appearance.descriptions)
   const baseDescriptions = descriptions.length > 0 ? descriptions : [appearance.description || '']
 
@@ -140,12 +149,21 @@ export async function handleCharacterImageTask(job: Job<TaskJobData>) {
 
   const imageUrls = parseImageUrls(appearance.imageUrls, 'characterAppearance.imageUrls')
   const nextImageUrls = [...imageUrls]
+  const nextImageSeeds = parseImageSeedList(appearance.imageSeeds)
+  // 同种子重绘：payload.seed 只作用于第一张（单张重绘时即目标图片）
+  const seeds = await planCandidateSeeds({
+    userId,
+    modelKey: modelId,
+    count: indexes.length,
+    requestedSeed: payload.seed,
+  })
   const label = `${characterName} - ${appearance.changeReason || '形象'}`
 
   for (let i = 0; i < indexes.length; i++) {
     const index = indexes[i]
     const raw = baseDescriptions[index] || baseDescriptions[0]
     const prompt = artStyle ? `${addCharacterPromptSuffix(raw)}，${artStyle}` : addCharacterPromptSuffix(raw)
+    const seed = seeds[i]
 
     await reportTaskProgress(job, 15 + Math.floor((i / Math.max(indexes.length, 1)) * 55), {
       stage: 'generate_character_image',
@@ -163,6 +181,7 @@ export async function handleCharacterImageTask(job: Job<TaskJobData>) {
       options: {
         referenceImages: primaryReferenceImages.length > 0 ? primaryReferenceImages : undefined,
         aspectRatio: CHARACTER_ASSET_IMAGE_RATIO,
+        ...(seed !== null ? { seed } : {}),
       },
     })
 
@@ -170,6 +189,10 @@ export async function handleCharacterImageTask(job: Job<TaskJobData>) {
       nextImageUrls.push('')
     }
     nextImageUrls[index] = imageKey
+    while (nextImageSeeds.length <= index) {
+      nextImageSeeds.push(null)
+    }
+    nextImageSeeds[index] = seed
   }
 
   const selectedIndex = appearance.selectedIndex
@@ -183,6 +206,7 @@ export async function handleCharacterImageTask(job: Job<TaskJobData>) {
     where: { id: appearance.id },
     data: {
       imageUrls: encodeImageUrls(nextImageUrls),
+      imageSeeds: serializeImageSeedList(nextImageSeeds),
       imageUrl: mainImage || null,
     },
   })
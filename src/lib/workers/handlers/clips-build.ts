@@ -1,16 +1,14 @@
 import type { Job } from 'bullmq'
 import { safeParseJsonArray } from '@/lib/json-repair'
 import { prisma } from '@/lib/prisma'
-import { executeAiTextStep } from '@/lib/ai-runtime'
-import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
 import { buildCharactersIntroduction } from '@/lib/constants'
 import { createClipContentMatcher } from '@/lib/novel-promotion/story-to-script/clip-matching'
 import { reportTaskProgress } from '@/lib/workers/shared'
-import { assertTaskActive } from '@/lib/workers/utils'
-import { createWorkerLLMStreamCallbacks, createWorkerLLMStreamContext } from './llm-stream'
 import type { TaskJobData } from '@/lib/task/types'
 import { buildPrompt, PROMPT_IDS } from '@/lib/prompt-i18n'
+import { createArtifact } from '@/lib/run-runtime/service'
 import { resolveAnalysisModel } from './resolve-analysis-model'
+import { resolveWorkflowRetryStep, resolveWorkflowRunId, runWorkflowTextStep, runWorkflowWithLease } from './workflow-run'
 
 function readAssetKind(value: Record<string, unknown>): string {
   return typeof value.assetKind === 'string' ? value.assetKind : 'location'
@@ -24,7 +22,50 @@ function readText(value: unknown): string {
   return typeof value === 'string' ? value : ''
 }
 
+type ResolvedClip = {
+  startText: string
+  endText: string
+  summary: string
+  location: string | null
+  characters: unknown
+  props: unknown
+  content: string
+}
+
+// 按顺序在原文中定位每个片段的首尾锚点，任一片段无法定位即整体失败，交由同一 step 重试
+function resolveClipBoundaries(content: string, parsed: Array<Record<string, unknown>>): ResolvedClip[] {
+  if (parsed.length === 0) {
+    throw new Error('Invalid clips data structure')
+  }
+  const matcher = createClipContentMatcher(content)
+  const resolved: ResolvedClip[] = []
+  let searchFrom = 0
+  for (let i = 0; i < parsed.length; i += 1) {
+    const clipData = parsed[i]
+    const startText = readText(clipData.start)
+    const endText = readText(clipData.end)
+    const match = matcher.matchBoundary(startText, endText, searchFrom)
+    if (!match) {
+      throw new Error(
+        `split_clips boundary matching failed at clip_${i + 1}: start="${startText}" end="${endText}"`,
+      )
+    }
+    resolved.push({
+      startText,
+      endText,
+      summary: readText(clipData.summary),
+      location: readText(clipData.location) || null,
+      characters: clipData.characters,
+      props: clipData.props,
+      content: content.slice(match.startIndex, match.endIndex),
+    })
+    searchFrom = match.endIndex
+  }
+  return resolved
+}
+
 const MAX_SPLIT_BOUNDARY_ATTEMPTS = 2
+const SPLIT_CLIPS_STEP_KEY = 'split_clips'
 const CLIP_BOUNDARY_SUFFIX = `
 
 [Boundary Constraints]
@@ -45,6 +86,11 @@ export async function handleClipsBuildTask(job: Job<TaskJobData>) {
   if (!episodeId) {
     throw new Error('episodeId is required')
   }
+  const runId = await resolveWorkflowRunId(job, payload)
+  const { retryStepKey, retryStepAttempt } = resolveWorkflowRetryStep(payload)
+  if (retryStepKey && retryStepKey !== SPLIT_CLIPS_STEP_KEY) {
+    throw new Error(`unsupported retry step for clips_build: ${retryStepKey}`)
+  }
 
   const project = await prisma.project.findUnique({
     where: { id: projectId },
@@ -114,121 +160,84 @@ export async function handleClipsBuildTask(job: Job<TaskJobData>) {
   })
   const promptTemplate = `${promptTemplateBase}${CLIP_BOUNDARY_SUFFIX}`
 
-  await reportTaskProgress(job, 20, {
-    stage: 'clips_build_prepare',
-    stageLabel: '准备片段切分参数',
-    displayMode: 'detail',
-  })
-  await assertTaskActive(job, 'clips_build_prepare')
-
-  const streamContext = createWorkerLLMStreamContext(job, 'clips_build')
-  const streamCallbacks = createWorkerLLMStreamCallbacks(job, streamContext)
-  const resolvedClips: Array<{
-    startText: string
-    endText: string
-    summary: string
-    location: string | null
-    characters: unknown
-    props: unknown
-    content: string
-  }> = []
-  let lastBoundaryError: Error | null = null
+  return await runWorkflowWithLease(job, {
+    runId,
+    label: 'clips_build',
+    skipped: { episodeId },
+  }, async (context) => {
+    const { assertRunActive } = context
+    await reportTaskProgress(job, 20, {
+      stage: 'clips_build_prepare',
+      stageLabel: '准备片段切分参数',
+      displayMode: 'detail',
+    })
+    await assertRunActive('clips_build_prepare')
 
-  try {
-    for (let attempt = 1; attempt <= MAX_SPLIT_BOUNDARY_ATTEMPTS; attempt += 1) {
-      const completion = await withInternalLLMStreamCallbacks(
-        streamCallbacks,
-        async () =>
-          await executeAiTextStep({
-            userId: job.data.userId,
-            model: analysisModel,
-            messages: [{ role: 'user', content: promptTemplate }],
-            projectId,
-            action: 'split_clips',
-            meta: {
-              stepId: 'split_clips',
-              stepAttempt: attempt,
-              stepTitle: '片段切分',
-              stepIndex: 1,
-              stepTotal: 1,
-            },
-          }),
-      )
+    const resolvedClips = await runWorkflowTextStep(job, context, {
+      input: {
+        model: analysisModel,
+        messages: [{ role: 'user', content: promptTemplate }],
+        projectId,
+        action: 'split_clips',
+      },
+      meta: {
+        stepId: SPLIT_CLIPS_STEP_KEY,
+        stepAttempt: retryStepAttempt,
+        stepTitle: '片段切分',
+        stepIndex: 1,
+        stepTotal: 1,
+      },
+      maxAttempts: MAX_SPLIT_BOUNDARY_ATTEMPTS,
+      parse: (responseText) => resolveClipBoundaries(contentToProcess, parseClipArrayResponse(responseText)),
+    })
 
-      const responseText = completion.text
-      if (!responseText) {
-        lastBoundaryError = new Error('No response from AI')
-        continue
-      }
+    await createArtifact({
+      runId,
+      stepKey: SPLIT_CLIPS_STEP_KEY,
+      artifactType: 'clips.build',
+      refId: episodeId,
+      payload: {
+        clips: resolvedClips,
+      },
+    })
 
-      const parsed = parseClipArrayResponse(responseText)
-      if (parsed.length === 0) {
-        lastBoundaryError = new Error('Invalid clips data structure')
-        continue
-      }
+    await reportTaskProgress(job, 75, {
+      stage: 'clips_build_persist',
+      stageLabel: '保存片段切分结果',
+      displayMode: 'detail',
+    })
+    await assertRunActive('clips_build_persist')
 
-      const matcher = createClipContentMatcher(contentToProcess)
-      const currentResolved: typeof resolvedClips = []
-      let searchFrom = 0
-      let failedAt: { index: number; startText: string; endText: string } | null = null
-      for (let i = 0; i < parsed.length; i += 1) {
-        const clipData = parsed[i]
-        const startText = readText(clipData.start)
-        const endText = readText(clipData.end)
-        const match = matcher.matchBoundary(startText, endText, searchFrom)
-        if (!match) {
-          failedAt = { index: i + 1, startText, endText }
-          break
-        }
-        currentResolved.push({
-          startText,
-          endText,
-          summary: readText(clipData.summary),
-          location: readText(clipData.location) || null,
-          characters: clipData.characters,
-          props: clipData.props,
-          content: contentToProcess.slice(match.startIndex, match.endIndex),
+    const existingClips = await clipModel.findMany({
+      where: { episodeId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })
+    const createdClips: Array<{ id: string }> = []
+    for (let i = 0; i < resolvedClips.length; i += 1) {
+      const clipData = resolvedClips[i]
+      const existing = existingClips[i]
+      if (existing) {
+        const updated = await clipModel.update({
+          where: { id: existing.id },
+          data: {
+            startText: clipData.startText,
+            endText: clipData.endText,
+            summary: clipData.summary,
+            location: clipData.location,
+            characters: clipData.characters ? JSON.stringify(clipData.characters) : null,
+            props: clipData.props ? JSON.stringify(clipData.props) : null,
+            content: clipData.content,
+          },
+          select: { id: true },
         })
-        searchFrom = match.endIndex
-      }
-
-      if (!failedAt) {
-        resolvedClips.push(...currentResolved)
-        break
+        createdClips.push(updated)
+        continue
       }
 
-      lastBoundaryError = new Error(
-        `split_clips boundary matching failed at clip_${failedAt.index}: start="${failedAt.startText}" end="${failedAt.endText}"`,
-      )
-    }
-  } finally {
-    await streamCallbacks.flush()
-  }
-
-  if (resolvedClips.length === 0) {
-    throw lastBoundaryError || new Error('split_clips boundary matching failed')
-  }
-
-  await reportTaskProgress(job, 75, {
-    stage: 'clips_build_persist',
-    stageLabel: '保存片段切分结果',
-    displayMode: 'detail',
-  })
-  await assertTaskActive(job, 'clips_build_persist')
-
-  const existingClips = await clipModel.findMany({
-    where: { episodeId },
-    orderBy: { createdAt: 'asc' },
-    select: { id: true },
-  })
-  const createdClips: Array<{ id: string }> = []
-  for (let i = 0; i < resolvedClips.length; i += 1) {
-    const clipData = resolvedClips[i]
-    const existing = existingClips[i]
-    if (existing) {
-      const updated = await clipModel.update({
-        where: { id: existing.id },
+      const created = await clipModel.create({
         data: {
+          episodeId,
           startText: clipData.startText,
           endText: clipData.endText,
           summary: clipData.summary,
@@ -239,45 +248,29 @@ export async function handleClipsBuildTask(job: Job<TaskJobData>) {
         },
         select: { id: true },
       })
-      createdClips.push(updated)
-      continue
+      createdClips.push(created)
     }
 
-    const created = await clipModel.create({
-      data: {
-        episodeId,
-        startText: clipData.startText,
-        endText: clipData.endText,
-        summary: clipData.summary,
-        location: clipData.location,
-        characters: clipData.characters ? JSON.stringify(clipData.characters) : null,
-        props: clipData.props ? JSON.stringify(clipData.props) : null,
-        content: clipData.content,
-      },
-      select: { id: true },
-    })
-    createdClips.push(created)
-  }
-
-  const staleIds = existingClips.slice(resolvedClips.length).map((item) => item.id)
-  if (staleIds.length > 0) {
-    await clipModel.deleteMany({
-      where: {
-        id: {
-          in: staleIds,
+    const staleIds = existingClips.slice(resolvedClips.length).map((item) => item.id)
+    if (staleIds.length > 0) {
+      await clipModel.deleteMany({
+        where: {
+          id: {
+            in: staleIds,
+          },
         },
-      },
+      })
+    }
+
+    await reportTaskProgress(job, 96, {
+      stage: 'clips_build_done',
+      stageLabel: '片段切分已完成',
+      displayMode: 'detail',
     })
-  }
 
-  await reportTaskProgress(job, 96, {
-    stage: 'clips_build_done',
-    stageLabel: '片段切分已完成',
-    displayMode: 'detail',
+    return {
+      episodeId,
+      count: createdClips.length,
+    }
   })
-
-  return {
-    episodeId,
-    count: createdClips.length,
-  }
 }
@@ -0,0 +1,101 @@
+import { type Job } from 'bullmq'
+import sharp from 'sharp'
+import { type TaskJobData } from '@/lib/task/types'
+import { supportsImageInpaint } from '@/lib/generator-api'
+import { normalizeToBase64ForGeneration } from '@/lib/media/outbound-image'
+import {
+  compositeInpaintPatch,
+  decodeImageDataUrl,
+  inpaintMaskToPngDataUrl,
+  normalizeInpaintMask,
+  resolveInpaintCropBounds,
+} from '@/lib/image-generation/inpaint'
+import { buildPrompt, PROMPT_IDS } from '@/lib/prompt-i18n'
+import { getObjectBuffer } from '@/lib/storage'
+import { createScopedLogger } from '@/lib/logging/core'
+import { resolveImageSourceFromGeneration, resolveLabelBarHeight } from '../utils'
+
+type ImageGenerationParams = Parameters<typeof resolveImageSourceFromGeneration>[1]
+
+async function loadImageBuffer(source: string): Promise<Buffer> {
+  return decodeImageDataUrl(await normalizeToBase64ForGeneration(source))
+}
+
+/**
+ * 改图生成：payload 带蒙版时只重绘蒙版区域，否则整图编辑
+ * 模型支持蒙版时原生局部重绘；不支持时裁出蒙版区域单独编辑，再按羽化蒙版贴回原图
+ */
+export async function resolveModifyImageSource(
+  job: Job<TaskJobData>,
+  params: ImageGenerationParams & {
+    /** 被修改的原图，需已包含在 options.referenceImages 中 */
+    baseImage: string
+    /** 路由层转存的蒙版存储 key（payload.maskImageKey） */
+    maskImageKey?: unknown
+    /** 蒙版按带标签栏的资产图绘制，而 baseImage 已去掉标签栏 */
+    maskHasLabelBar?: boolean
+  },
+): Promise<string> {
+  const { baseImage, maskImageKey, maskHasLabelBar, ...generation } = params
+  if (typeof maskImageKey !== 'string' || !maskImageKey) {
+    return await resolveImageSourceFromGeneration(job, generation)
+  }
+
+  const base = await loadImageBuffer(baseImage)
+  const baseMeta = await sharp(base).metadata()
+  const maskBuffer = await getObjectBuffer(maskImageKey)
+  const maskHeight = maskHasLabelBar ? (await sharp(maskBuffer).metadata()).height || 0 : 0
+  const mask = await normalizeInpaintMask(
+    maskBuffer,
+    { width: baseMeta.width || 0, height: baseMeta.height || 0 },
+    { cropTop: maskHeight > 0 ? resolveLabelBarHeight(maskHeight) : 0 },
+  )
+  const bounds = resolveInpaintCropBounds(mask)
+  if (!bounds) {
+    return await resolveImageSourceFromGeneration(job, generation)
+  }
+
+  const logger = createScopedLogger({
+    module: 'worker.image-inpaint',
+    taskId: job.data.taskId,
+    projectId: job.data.projectId,
+    userId: job.data.userId,
+  })
+  if (await supportsImageInpaint(generation.userId, generation.modelId)) {
+    logger.info({ message: 'inpaint via native mask', details: { model: generation.modelId } })
+    return await resolveImageSourceFromGeneration(job, {
+      ...generation,
+      options: {
+        ...generation.options,
+        maskImage: await inpaintMaskToPngDataUrl(mask),
+      },
+    })
+  }
+
+  logger.info({ message: 'inpaint via crop-edit-composite', details: { model: generation.modelId, bounds } })
+  const crop = await sharp(base)
+    .extract({ left: bounds.left, top: bounds.top, width: bounds.width, height: bounds.height })
+    .png()
+    .toBuffer()
+  const otherReferences = (generation.options?.referenceImages || []).filter((image) => image !== baseImage)
+  const patchSource = await resolveImageSourceFromGeneration(job, {
+    ...generation,
+    prompt: buildPrompt({
+      promptId: PROMPT_IDS.NP_IMAGE_INPAINT_CROP_EDIT,
+      locale: job.data.locale,
+      variables: { user_input: generation.prompt },
+    }),
+    options: {
+      ...generation.options,
+      referenceImages: [`data:image/png;base64,${crop.toString('base64')}`, ...otherReferences],
+      aspectRatio: bounds.aspectRatio,
+    },
+  })
+  const composed = await compositeInpaintPatch({
+    base,
+    patch: await loadImageBuffer(patchSource),
+    mask,
+    bounds,
+  })
+  return `data:image/png;base64,${composed.toString('base64')}`
+}
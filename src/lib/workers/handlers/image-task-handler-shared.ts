@@ -106,6 +106,7 @@ async function generateImageToStorage(params: {
     referenceImages?: string[]
     aspectRatio?: string
     size?: string
+    seed?: number
   }
   label?: string
 }) {
@@ -119,7 +120,7 @@ async function generateImageToStorage(params: {
   const uploadSource = params.label
     ? await withLabelBar(source, params.label)
     : source
-  const cosKey = await uploadImageSourceToCos(uploadSource, params.keyPrefix, params.targetId)
+  const cosKey = await uploadImageSourceToCos(uploadSource, params.keyPrefix, params.targetId, params.userId)
   return cosKey
 }
 
@@ -151,6 +152,7 @@ export async function generateProjectLabeledImageToStorage(params: {
     referenceImages?: string[]
     aspectRatio?: string
     size?: string
+    seed?: number
   }
 }) {
   return await generateImageToStorage(params)
@@ -222,7 +224,11 @@ export function findCharacterByName<T extends { name: string }>(characters: T[],
   return undefined
 }
 
-export async function collectPanelReferenceImages(projectData: NovelProjectData, panel: PanelLike) {
+export async function collectPanelReferenceImages(
+  projectData: NovelProjectData,
+  panel: PanelLike,
+  styleReferenceImages: string[] = [],
+) {
   const refs: string[] = []
 
   const sketch = toSignedUrlIfCos(panel.sketchImageUrl, 3600)
@@ -260,5 +266,11 @@ export async function collectPanelReferenceImages(projectData: NovelProjectData,
     }
   }
 
+  // 画风参考图放在最后，优先级低于草图 / 角色 / 场景
+  for (const key of styleReferenceImages) {
+    const signed = toSignedUrlIfCos(key, 3600)
+    if (signed) refs.push(signed)
+  }
+
   return refs
 }
@@ -3,11 +3,11 @@ import { prisma } from '@/lib/prisma'
 import { LOCATION_IMAGE_RATIO, PROP_IMAGE_RATIO } from '@/lib/constants'
 import { type TaskJobData } from '@/lib/task/types'
 import { encodeImageUrls } from '@/lib/contracts/image-urls-contract'
+import { parseImageSeedList, serializeImageSeedList } from '@/lib/image-generation/seed'
 import {
   assertTaskActive,
   getProjectModels,
   getUserModels,
-  resolveImageSourceFromGeneration,
   stripLabelBar,
   toSignedUrlIfCos,
   uploadImageSourceToCos,
@@ -33,6 +33,7 @@ import {
   generateModifiedAssetDescription,
   readIndexedDescription,
 } from './modify-description-sync'
+import { resolveModifyImageSource } from './image-inpaint'
 
 const logger = createScopedLogger({ module: 'worker.modify-asset-image' })
 
@@ -103,10 +104,13 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
     })
 
     const prompt = `请根据以下指令修改图片，保持人物核心特征一致：\n${modifyInstruction}`
-    const source = await resolveImageSourceFromGeneration(job, {
+    const source = await resolveModifyImageSource(job, {
       userId: job.data.userId,
       modelId: editModel,
       prompt,
+      baseImage: requiredReference,
+      maskImageKey: payload.maskImageKey,
+      maskHasLabelBar: true,
       options: {
         referenceImages,
         aspectRatio: '3:2',
@@ -116,7 +120,7 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
 
     const label = `${appearance.character?.name || '角色'} - ${appearance.changeReason || '形象'}`
     const labeled = await withLabelBar(source, label)
-    const cosKey = await uploadImageSourceToCos(labeled, 'character-modify', appearance.id)
+    const cosKey = await uploadImageSourceToCos(labeled, 'character-modify', appearance.id, job.data.userId)
 
     while (imageUrls.length <= imageIndex) imageUrls.push('')
     imageUrls[imageIndex] = cosKey
@@ -152,6 +156,10 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
       }
     }
 
+    // 改图结果不再对应原种子
+    const imageSeeds = parseImageSeedList(appearance.imageSeeds)
+    if (imageIndex < imageSeeds.length) imageSeeds[imageIndex] = null
+
     await assertTaskActive(job, 'persist_character_modify')
     await prisma.characterAppearance.update({
       where: { id: appearance.id },
@@ -161,6 +169,7 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
         previousDescription: appearance.description || null,
         previousDescriptions: appearance.descriptions || null,
         imageUrls: encodeImageUrls(imageUrls),
+        imageSeeds: serializeImageSeedList(imageSeeds),
         imageUrl: shouldUpdateMain ? cosKey : appearance.imageUrl,
         ...(descriptionFields || {}),
       },
@@ -210,10 +219,13 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
       ? `请根据以下指令修改道具图片，保持道具主体、结构和关键材质一致：\n${modifyInstruction}`
       : `请根据以下指令修改场景图片，保持整体风格一致：\n${modifyInstruction}`
     const aspectRatio = isProp ? PROP_IMAGE_RATIO : LOCATION_IMAGE_RATIO
-    const source = await resolveImageSourceFromGeneration(job, {
+    const source = await resolveModifyImageSource(job, {
       userId: job.data.userId,
       modelId: editModel,
       prompt,
+      baseImage: requiredReference,
+      maskImageKey: payload.maskImageKey,
+      maskHasLabelBar: true,
       options: {
         referenceImages,
         aspectRatio,
@@ -223,7 +235,7 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
 
     const label = locationImage.location?.name || (isProp ? '道具' : '场景')
     const labeled = await withLabelBar(source, label)
-    const cosKey = await uploadImageSourceToCos(labeled, isProp ? 'prop-modify' : 'location-modify', locationImage.id)
+    const cosKey = await uploadImageSourceToCos(labeled, isProp ? 'prop-modify' : 'location-modify', locationImage.id, job.data.userId)
 
     let extractedDescription: {
       prompt: string
@@ -259,6 +271,7 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
         previousImageUrl: locationImage.imageUrl,
         previousDescription: locationImage.description || null,
         imageUrl: cosKey,
+        imageSeed: null,
         ...(extractedDescription ? {
           description: extractedDescription.prompt,
           availableSlots: stringifyLocationAvailableSlots(extractedDescription.availableSlots),
@@ -336,10 +349,12 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
     const normalizedExtras = await normalizeReferenceImagesForGeneration(extraReferenceInputs)
     const uniqueReferences = Array.from(new Set([requiredReference, ...normalizedExtras]))
     const prompt = `请根据以下指令修改分镜图片，保持镜头语言和主体一致：\n${modifyPrompt}`
-    const source = await resolveImageSourceFromGeneration(job, {
+    const source = await resolveModifyImageSource(job, {
       userId: job.data.userId,
       modelId: editModel,
       prompt,
+      baseImage: requiredReference,
+      maskImageKey: payload.maskImageKey,
       options: {
         referenceImages: uniqueReferences,
         aspectRatio,
@@ -347,7 +362,7 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
       },
     })
 
-    const cosKey = await uploadImageSourceToCos(source, 'panel-modify', panel.id)
+    const cosKey = await uploadImageSourceToCos(source, 'panel-modify', panel.id, job.data.userId)
 
     await assertTaskActive(job, 'persist_storyboard_modify')
     await prisma.novelPromotionPanel.update({
@@ -355,7 +370,9 @@ export async function handleModifyAssetImageTask(job: Job<TaskJobData>) {
       data: {
         previousImageUrl: panel.imageUrl || panel.previousImageUrl || null,
         imageUrl: cosKey,
+        imageSeed: null,
         candidateImages: null,
+        candidateSeeds: null,
       },
     })
 
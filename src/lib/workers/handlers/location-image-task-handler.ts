@@ -1,12 +1,14 @@
 import { type Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { LOCATION_IMAGE_RATIO, PROP_IMAGE_RATIO, addLocationPromptSuffix, addPropPromptSuffix, getArtStylePrompt, isArtStyleValue, type ArtStyleValue } from '@/lib/constants'
+import { resolveArtStylePrompt } from '@/lib/art-style/resolve'
+import { LOCATION_IMAGE_RATIO, PROP_IMAGE_RATIO, addLocationPromptSuffix, addPropPromptSuffix, isArtStyleValue, type ArtStyleValue } from '@/lib/constants'
 import { normalizeImageGenerationCount } from '@/lib/image-generation/count'
 import { type TaskJobData } from '@/lib/task/types'
 import { reportTaskProgress } from '../shared'
 import {
   assertTaskActive,
   getProjectModels,
+  planCandidateSeeds,
 } from '../utils'
 import {
   AnyObj,
@@ -67,7 +69,12 @@ export async function handleLocationImageTask(job: Job<TaskJobData>) {
   const requestedCount = resolveRequestedLocationCount(payload)
 
   const payloadArtStyle = resolvePayloadArtStyle(payload)
-  const artStyle = getArtStylePrompt(payloadArtStyle ?? models.artStyle, job.data.locale)
+  const artStyle = await resolveArtStylePrompt({
+    artStyle: payloadArtStyle ?? models.artStyle,
+    userId,
+    locale: job.data.locale,
+    modelKey: modelId,
+  })
   const assetType = payload.type === 'prop' ? 'prop' : 'location'
 
   // targetId may be locationId (group) or locationImageId (single)
@@ -136,6 +143,13 @@ export async function handleLocationImageTask(job: Job<TaskJobData>) {
   }
 
   const locationIds = Array.from(new Set(locationImages.map((it) => it.locationId)))
+  // 同种子重绘：payload.seed 只作用于第一张（单张重绘时即目标图片）
+  const seeds = await planCandidateSeeds({
+    userId,
+    modelKey: modelId,
+    count: locationImages.length,
+    requestedSeed: payload.seed,
+  })
 
   for (let i = 0; i < locationImages.length; i++) {
     const item = locationImages[i]
@@ -158,6 +172,7 @@ export async function handleLocationImageTask(job: Job<TaskJobData>) {
       : addLocationPromptSuffix(promptCore)
     const prompt = artStyle ? `${promptWithSuffix}，${artStyle}` : promptWithSuffix
     const aspectRatio = assetType === 'prop' ? PROP_IMAGE_RATIO : LOCATION_IMAGE_RATIO
+    const seed = seeds[i]
     await reportTaskProgress(job, 20 + Math.floor((i / Math.max(locationImages.length, 1)) * 55), {
       stage: 'generate_location_image',
       imageId: item.id,
@@ -173,13 +188,14 @@ export async function handleLocationImageTask(job: Job<TaskJobData>) {
       keyPrefix: 'location',
       options: {
         aspectRatio,
+        ...(seed !== null ? { seed } : {}),
       },
     })
 
     await assertTaskActive(job, 'persist_location_image')
     await db.locationImage.update({
       where: { id: item.id },
-      data: { imageUrl: imageKey },
+      data: { imageUrl: imageKey, imageSeed: seed },
     })
   }
 
@@ -0,0 +1,143 @@
+import { type TaskJobData } from '@/lib/task/types'
+import { buildPrompt, PROMPT_IDS } from '@/lib/prompt-i18n'
+import { parseLocationAvailableSlots } from '@/lib/location-available-slots'
+import {
+  findCharacterByName,
+  parsePanelCharacterReferences,
+  resolveNovelData,
+} from './image-task-handler-shared'
+
+function parseJsonUnknown(raw: string | null | undefined): unknown | null {
+  if (!raw) return null
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return null
+  }
+}
+
+function parseDescriptionList(raw: string | null | undefined): string[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+  } catch {
+    return []
+  }
+}
+
+function pickAppearanceDescription(appearance: {
+  descriptions?: string | null
+  description?: string | null
+  selectedIndex?: number | null
+}): string {
+  const descriptions = parseDescriptionList(appearance.descriptions || null)
+  if (descriptions.length > 0) {
+    const selectedIndex = typeof appearance.selectedIndex === 'number' ? appearance.selectedIndex : 0
+    const selected = descriptions[selectedIndex] || descriptions[0]
+    if (selected && selected.trim()) return selected.trim()
+  }
+  if (typeof appearance.description === 'string' && appearance.description.trim()) {
+    return appearance.description.trim()
+  }
+  return '无描述'
+}
+
+export function buildPanelPromptContext(params: {
+  panel: {
+    id: string
+    shotType: string | null
+    cameraMove: string | null
+    description: string | null
+    imagePrompt: string | null
+    videoPrompt: string | null
+    location: string | null
+    characters: string | null
+    srtSegment: string | null
+    photographyRules: string | null
+    actingNotes: string | null
+  }
+  projectData: Awaited<ReturnType<typeof resolveNovelData>>
+  // 为 true 时第一张参考图是构图草图
+  layoutReference?: boolean
+}) {
+  const panelCharacters = parsePanelCharacterReferences(params.panel.characters)
+  const characterContexts = panelCharacters.map((reference) => {
+    const character = findCharacterByName(params.projectData.characters || [], reference.name)
+    if (!character) {
+      return {
+        name: reference.name,
+        appearance: reference.appearance || null,
+        description: '无角色外貌数据',
+      }
+    }
+
+    const appearances = character.appearances || []
+    const matchedAppearance =
+      (reference.appearance
+        ? appearances.find((appearance) => (appearance.changeReason || '').toLowerCase() === reference.appearance!.toLowerCase())
+        : null) || appearances[0] || null
+
+    return {
+      name: character.name,
+      appearance: matchedAppearance?.changeReason || null,
+      description: matchedAppearance ? pickAppearanceDescription(matchedAppearance) : '无角色外貌数据',
+      slot: reference.slot || null,
+    }
+  })
+
+  const locationContext = (() => {
+    if (!params.panel.location) return null
+    const matchedLocation = (params.projectData.locations || []).find(
+      (item) => item.name.toLowerCase() === params.panel.location!.toLowerCase(),
+    )
+    if (!matchedLocation) return null
+    const selectedImage = (matchedLocation.images || []).find((item) => item.isSelected) || matchedLocation.images?.[0]
+    return {
+      name: matchedLocation.name,
+      description: selectedImage?.description || null,
+      available_slots: parseLocationAvailableSlots(selectedImage?.availableSlots),
+    }
+  })()
+
+  return {
+    panel: {
+      panel_id: params.panel.id,
+      shot_type: params.panel.shotType || '',
+      camera_move: params.panel.cameraMove || '',
+      description: params.panel.description || '',
+      image_prompt: params.panel.imagePrompt || '',
+      video_prompt: params.panel.videoPrompt || '',
+      location: params.panel.location || '',
+      characters: panelCharacters,
+      source_text: params.panel.srtSegment || '',
+      photography_rules: parseJsonUnknown(params.panel.photographyRules),
+      acting_notes: parseJsonUnknown(params.panel.actingNotes),
+    },
+    context: {
+      character_appearances: characterContexts,
+      location_reference: locationContext,
+      layout_reference: params.layoutReference === true,
+    },
+  }
+}
+
+export function buildPanelPrompt(params: {
+  locale: TaskJobData['locale']
+  aspectRatio: string
+  styleText: string
+  sourceText: string
+  contextJson: string
+}) {
+  return buildPrompt({
+    promptId: PROMPT_IDS.NP_SINGLE_PANEL_IMAGE,
+    locale: params.locale,
+    variables: {
+      aspect_ratio: params.aspectRatio,
+      storyboard_text_json_input: params.contextJson,
+      source_text: params.sourceText || '无',
+      style: params.styleText,
+    },
+  })
+}
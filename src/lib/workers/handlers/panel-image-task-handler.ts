@@ -1,161 +1,27 @@
 import { type Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { getArtStylePrompt } from '@/lib/constants'
+import { formatArtStylePrompt, resolveArtStyle } from '@/lib/art-style/resolve'
 import { createScopedLogger } from '@/lib/logging/core'
+import { supportsImageLayoutReference } from '@/lib/generator-api'
 import { type TaskJobData } from '@/lib/task/types'
 import { reportTaskProgress } from '../shared'
 import {
   assertTaskActive,
   getProjectModels,
+  planCandidateSeeds,
   resolveImageSourceFromGeneration,
   uploadImageSourceToCos,
 } from '../utils'
 import { normalizeReferenceImagesForGeneration } from '@/lib/media/outbound-image'
+import { serializeImageSeedList } from '@/lib/image-generation/seed'
 import {
   AnyObj,
   clampCount,
   collectPanelReferenceImages,
-  findCharacterByName,
-  parsePanelCharacterReferences,
   pickFirstString,
   resolveNovelData,
 } from './image-task-handler-shared'
-import { buildPrompt, PROMPT_IDS } from '@/lib/prompt-i18n'
-import {
-  parseLocationAvailableSlots,
-} from '@/lib/location-available-slots'
-
-function parseJsonUnknown(raw: string | null | undefined): unknown | null {
-  if (!raw) return null
-  try {
-    return JSON.parse(raw)
-  } catch {
-    return null
-  }
-}
-
-function parseDescriptionList(raw: string | null | undefined): string[] {
-  if (!raw) return []
-  try {
-    const parsed = JSON.parse(raw)
-    if (!Array.isArray(parsed)) return []
-    return parsed.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
-  } catch {
-    return []
-  }
-}
-
-function pickAppearanceDescription(appearance: {
-  descriptions?: string | null
-  description?: string | null
-  selectedIndex?: number | null
-}): string {
-  const descriptions = parseDescriptionList(appearance.descriptions || null)
-  if (descriptions.length > 0) {
-    const selectedIndex = typeof appearance.selectedIndex === 'number' ? appearance.selectedIndex : 0
-    const selected = descriptions[selectedIndex] || descriptions[0]
-    if (selected && selected.trim()) return selected.trim()
-  }
-  if (typeof appearance.description === 'string' && appearance.description.trim()) {
-    return appearance.description.trim()
-  }
-  return '无描述'
-}
-
-function buildPanelPromptContext(params: {
-  panel: {
-    id: string
-    shotType: string | null
-    cameraMove: string | null
-    description: string | null
-    imagePrompt: string | null
-    videoPrompt: string | null
-    location: string | null
-    characters: string | null
-    srtSegment: string | null
-    photographyRules: string | null
-    actingNotes: string | null
-  }
-  projectData: Awaited<ReturnType<typeof resolveNovelData>>
-}) {
-  const panelCharacters = parsePanelCharacterReferences(params.panel.characters)
-  const characterContexts = panelCharacters.map((reference) => {
-    const character = findCharacterByName(params.projectData.characters || [], reference.name)
-    if (!character) {
-      return {
-        name: reference.name,
-        appearance: reference.appearance || null,
-        description: '无角色外貌数据',
-      }
-    }
-
-    const appearances = character.appearances || []
-    const matchedAppearance =
-      (reference.appearance
-        ? appearances.find((appearance) => (appearance.changeReason || '').toLowerCase() === reference.appearance!.toLowerCase())
-        : null) || appearances[0] || null
-
-    return {
-      name: character.name,
-      appearance: matchedAppearance?.changeReason || null,
-      description: matchedAppearance ? pickAppearanceDescription(matchedAppearance) : '无角色外貌数据',
-      slot: reference.slot || null,
-    }
-  })
-
-  const locationContext = (() => {
-    if (!params.panel.location) return null
-    const matchedLocation = (params.projectData.locations || []).find(
-      (item) => item.name.toLowerCase() === params.panel.location!.toLowerCase(),
-    )
-    if (!matchedLocation) return null
-    const selectedImage = (matchedLocation.images || []).find((item) => item.isSelected) || matchedLocation.images?.[0]
-    return {
-      name: matchedLocation.name,
-      description: selectedImage?.description || null,
-      available_slots: parseLocationAvailableSlots(selectedImage?.availableSlots),
-    }
-  })()
-
-  return {
-    panel: {
-      panel_id: params.panel.id,
-      shot_type: params.panel.shotType || '',
-      camera_move: params.panel.cameraMove || '',
-      description: params.panel.description || '',
-      image_prompt: params.panel.imagePrompt || '',
-      video_prompt: params.panel.videoPrompt || '',
-      location: params.panel.location || '',
-      characters: panelCharacters,
-      source_text: params.panel.srtSegment || '',
-      photography_rules: parseJsonUnknown(params.panel.photographyRules),
-      acting_notes: parseJsonUnknown(params.panel.actingNotes),
-    },
-    context: {
-      character_appearances: characterContexts,
-      location_reference: locationContext,
-    },
-  }
-}
-
-function buildPanelPrompt(params: {
-  locale: TaskJobData['locale']
-  aspectRatio: string
-  styleText: string
-  sourceText: string
-  contextJson: string
-}) {
-  return buildPrompt({
-    promptId: PROMPT_IDS.NP_SINGLE_PANEL_IMAGE,
-    locale: params.locale,
-    variables: {
-      aspect_ratio: params.aspectRatio,
-      storyboard_text_json_input: params.contextJson,
-      source_text: params.sourceText || '无',
-      style: params.styleText,
-    },
-  })
-}
+import { buildPanelPrompt, buildPanelPromptContext } from './panel-image-prompt'
 
 export async function handlePanelImageTask(job: Job<TaskJobData>) {
   const payload = (job.data.payload || {}) as AnyObj
@@ -174,7 +40,19 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
   if (!modelKey) throw new Error('Storyboard model not configured')
 
   const candidateCount = clampCount(payload.candidateCount ?? payload.count, 1, 4, 1)
-  const refs = await collectPanelReferenceImages(projectData, panel)
+  const resolvedArtStyle = await resolveArtStyle({
+    artStyle: modelConfig.artStyle,
+    userId: job.data.userId,
+    locale: job.data.locale,
+    modelKey,
+  })
+  // 构图草图只传给声明了 supportLayoutReference 的模型，其余模型会把它当成画风参考
+  const useLayoutSketch = !!panel.sketchImageUrl && await supportsImageLayoutReference(job.data.userId, modelKey)
+  const refs = await collectPanelReferenceImages(
+    projectData,
+    useLayoutSketch ? panel : { ...panel, sketchImageUrl: null },
+    resolvedArtStyle.referenceImages,
+  )
   const normalizedRefs = await normalizeReferenceImagesForGeneration(refs)
 
   const logger = createScopedLogger({
@@ -197,11 +75,12 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
       normalizedUrls: normalizedRefs.map((u) => u.substring(0, 100)),
       panelCharacters: panel.characters,
       panelLocation: panel.location,
+      useLayoutSketch,
       artStyle: modelConfig.artStyle,
     },
   })
 
-  const artStyle = getArtStylePrompt(modelConfig.artStyle, job.data.locale)
+  const artStyle = formatArtStylePrompt(resolvedArtStyle, job.data.locale)
   if (!projectData.videoRatio) throw new Error('Project videoRatio not configured')
   const aspectRatio = projectData.videoRatio
   const promptContext = buildPanelPromptContext({
@@ -219,6 +98,7 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
       actingNotes: panel.actingNotes,
     },
     projectData,
+    layoutReference: useLayoutSketch,
   })
   const contextJson = JSON.stringify(promptContext, null, 2)
   const prompt = buildPanelPrompt({
@@ -236,6 +116,13 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
   })
 
   const candidates: string[] = []
+  // 同种子重绘：payload.seed 由 regenerate-panel-image 传入，只作用于第一张候选
+  const seeds = await planCandidateSeeds({
+    userId: job.data.userId,
+    modelKey,
+    count: candidateCount,
+    requestedSeed: payload.seed,
+  })
 
   for (let i = 0; i < candidateCount; i++) {
     await reportTaskProgress(job, 18 + Math.floor((i / Math.max(candidateCount, 1)) * 58), {
@@ -243,6 +130,7 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
       candidateIndex: i,
     })
 
+    const seed = seeds[i]
     const source = await resolveImageSourceFromGeneration(job, {
       userId: job.data.userId,
       modelId: modelKey,
@@ -250,13 +138,14 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
       options: {
         referenceImages: normalizedRefs,
         aspectRatio,
+        ...(seed !== null ? { seed } : {}),
       },
       // 单个任务内会串行生成多候选，若允许按 task.externalId 续接会复用上一候选外部任务结果。
       allowTaskExternalIdResume: candidateCount === 1,
       pollProgress: { start: 30, end: 90 },
     })
 
-    const cosKey = await uploadImageSourceToCos(source, 'panel-candidate', `${panel.id}-${i}`)
+    const cosKey = await uploadImageSourceToCos(source, 'panel-candidate', `${panel.id}-${i}`, job.data.userId)
     candidates.push(cosKey)
   }
 
@@ -269,6 +158,8 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
       data: {
         imageUrl: candidates[0] || null,
         candidateImages: candidateCount > 1 ? JSON.stringify(candidates) : null,
+        imageSeed: seeds[0] ?? null,
+        candidateSeeds: candidateCount > 1 ? serializeImageSeedList(seeds) : null,
       },
     })
   } else {
@@ -277,6 +168,7 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
       data: {
         previousImageUrl: panel.imageUrl,
         candidateImages: JSON.stringify(candidates),
+        candidateSeeds: serializeImageSeedList(seeds),
       },
     })
   }
@@ -285,5 +177,7 @@ export async function handlePanelImageTask(job: Job<TaskJobData>) {
     panelId: panel.id,
     candidateCount: candidates.length,
     imageUrl: isFirstGeneration ? candidates[0] || null : null,
+    candidateImages: candidates,
+    candidateSeeds: seeds,
   }
 }
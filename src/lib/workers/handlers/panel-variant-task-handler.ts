@@ -1,6 +1,6 @@
 import { type Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { getArtStylePrompt } from '@/lib/constants'
+import { formatArtStylePrompt, resolveArtStyle } from '@/lib/art-style/resolve'
 import { logInfo as _ulogInfo } from '@/lib/logging/core'
 import { type TaskJobData } from '@/lib/task/types'
 import {
@@ -17,8 +17,8 @@ import {
 } from '@/lib/location-available-slots'
 import {
   AnyObj,
+  collectPanelReferenceImages,
   findCharacterByName,
-  parseImageUrls,
   parsePanelCharacterReferences,
   pickFirstString,
   resolveNovelData,
@@ -130,60 +130,6 @@ function buildLocationAssetDescription(params: {
   return params.locale === 'en' ? 'No location reference' : '无场景参考'
 }
 
-function buildVariantReferenceImages(params: {
-  includeCharacterAssets: boolean
-  includeLocationAsset: boolean
-  newPanel: {
-    characters: string | null
-    location: string | null
-  }
-  sourcePanelImageUrl: string | null
-  projectData: Awaited<ReturnType<typeof resolveNovelData>>
-}): string[] {
-  const refs: string[] = []
-  if (params.sourcePanelImageUrl) refs.push(params.sourcePanelImageUrl)
-
-  if (params.includeCharacterAssets) {
-    const panelCharacters = parsePanelCharacterReferences(params.newPanel.characters)
-    for (const item of panelCharacters) {
-      const character = findCharacterByName(params.projectData.characters || [], item.name)
-      if (!character) continue
-
-      const appearances = character.appearances || []
-      let appearance = appearances[0]
-      if (item.appearance) {
-        const matched = appearances.find((candidate) => (candidate.changeReason || '').toLowerCase() === item.appearance!.toLowerCase())
-        if (matched) appearance = matched
-      }
-
-      if (!appearance) continue
-      const imageUrls = parseImageUrls((appearance as { imageUrls?: string | null }).imageUrls || null, 'characterAppearance.imageUrls')
-      const selectedIndex = typeof (appearance as { selectedIndex?: number | null }).selectedIndex === 'number'
-        ? (appearance as { selectedIndex?: number | null }).selectedIndex
-        : null
-      const selectedUrl = (selectedIndex !== null && selectedIndex !== undefined ? imageUrls[selectedIndex] : null)
-        || imageUrls[0]
-        || appearance.imageUrl
-        || null
-      const signed = toSignedUrlIfCos(selectedUrl, 3600)
-      if (signed) refs.push(signed)
-    }
-  }
-
-  if (params.includeLocationAsset && params.newPanel.location) {
-    const location = (params.projectData.locations || []).find(
-      (item) => item.name.toLowerCase() === params.newPanel.location!.toLowerCase(),
-    )
-    if (location) {
-      const selected = (location.images || []).find((image) => image.isSelected) || location.images?.[0]
-      const signed = toSignedUrlIfCos(selected?.imageUrl, 3600)
-      if (signed) refs.push(signed)
-    }
-  }
-
-  return refs
-}
-
 interface PanelVariantPayload {
   shot_type?: string
   camera_move?: string
@@ -225,17 +171,23 @@ export async function handlePanelVariantTask(job: Job<TaskJobData>) {
 
   // 收集参考图（与 panel-image-task-handler 共用同一链路）
   const sourcePanelImageUrl = toSignedUrlIfCos(sourcePanel.imageUrl, 3600)
-  const refs = buildVariantReferenceImages({
-    includeCharacterAssets,
-    includeLocationAsset,
-    newPanel,
-    sourcePanelImageUrl,
-    projectData,
+  const resolvedArtStyle = await resolveArtStyle({
+    artStyle: modelConfig.artStyle,
+    userId: job.data.userId,
+    locale: job.data.locale,
+    modelKey: storyboardModel,
   })
+  // 原镜头图放在最前；变体不使用草图，关闭的角色 / 场景参考不传给收集函数
+  const assetRefs = await collectPanelReferenceImages(projectData, {
+    sketchImageUrl: null,
+    characters: includeCharacterAssets ? newPanel.characters : null,
+    location: includeLocationAsset ? newPanel.location : null,
+  }, resolvedArtStyle.referenceImages)
+  const refs = sourcePanelImageUrl ? [sourcePanelImageUrl, ...assetRefs] : assetRefs
   const normalizedRefs = await normalizeReferenceImagesForGeneration(refs)
 
   // 使用 agent_shot_variant_generate.txt 提示词模板
-  const artStyle = getArtStylePrompt(modelConfig.artStyle, job.data.locale)
+  const artStyle = formatArtStylePrompt(resolvedArtStyle, job.data.locale)
   const charactersInfo = buildCharactersInfo(newPanel, projectData)
   const characterAssetsDesc = includeCharacterAssets
     ? buildCharacterAssetsDescription(newPanel, projectData)
@@ -278,7 +230,7 @@ export async function handlePanelVariantTask(job: Job<TaskJobData>) {
     },
   })
 
-  const cosKey = await uploadImageSourceToCos(source, 'panel-variant', newPanel.id)
+  const cosKey = await uploadImageSourceToCos(source, 'panel-variant', newPanel.id, job.data.userId)
 
   await assertTaskActive(job, 'persist_panel_variant')
   await prisma.novelPromotionPanel.update({
@@ -0,0 +1,154 @@
+import type { Job } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
+import {
+  buildPromptTemplateOverrideKey,
+  getPromptTemplateOverrides,
+  PROMPT_IDS,
+  withPromptTemplateOverrides,
+} from '@/lib/prompt-i18n'
+import {
+  isPromptComparePromptId,
+  resolvePromptCompareCandidate,
+  type PromptComparePromptId,
+  type PromptCompareResult,
+} from '@/lib/prompt-overrides'
+import {
+  executePhase1,
+  executePhase2,
+  executePhase2Acting,
+  executePhase3,
+  type StoryboardPanel,
+} from '@/lib/storyboard-phases'
+import type { TaskJobData } from '@/lib/task/types'
+import { reportTaskProgress } from '@/lib/workers/shared'
+import { assertTaskActive } from '@/lib/workers/utils'
+import { createWorkerLLMStreamCallbacks, createWorkerLLMStreamContext } from './llm-stream'
+
+type AnyObj = Record<string, unknown>
+
+function readAssetKind(value: AnyObj): string {
+  return typeof value.assetKind === 'string' ? value.assetKind : 'location'
+}
+
+function readNullableText(value: AnyObj, key: string): string | null {
+  const field = value[key]
+  return typeof field === 'string' ? field : null
+}
+
+async function loadCompareContext(job: Job<TaskJobData>, clipId: string) {
+  const projectId = job.data.projectId
+  const clip = await prisma.novelPromotionClip.findUnique({
+    where: { id: clipId },
+    include: { episode: { include: { novelPromotionProject: true } } },
+  })
+  if (!clip || clip.episode.novelPromotionProject.projectId !== projectId) throw new Error('Clip not found')
+
+  const project = await prisma.project.findUnique({ where: { id: projectId } })
+  if (!project) throw new Error('Project not found')
+
+  const novelPromotionData = await prisma.novelPromotionProject.findUnique({
+    where: { projectId },
+    include: {
+      characters: { include: { appearances: { orderBy: { appearanceIndex: 'asc' } } } },
+      locations: { include: { images: { orderBy: { imageIndex: 'asc' } } } },
+    },
+  })
+  if (!novelPromotionData) throw new Error('Novel promotion data not found')
+  if (!novelPromotionData.analysisModel) throw new Error('Analysis model not configured')
+
+  return {
+    clip: {
+      ...clip,
+      props: readNullableText(clip as unknown as AnyObj, 'props'),
+    },
+    projectName: project.name,
+    novelPromotionData: {
+      ...novelPromotionData,
+      analysisModel: novelPromotionData.analysisModel,
+      locations: novelPromotionData.locations.filter((item) => readAssetKind(item as unknown as AnyObj) !== 'prop'),
+      props: novelPromotionData.locations
+        .filter((item) => readAssetKind(item as unknown as AnyObj) === 'prop')
+        .map((item) => ({ name: item.name, summary: item.summary })),
+    },
+  }
+}
+
+/**
+ * 对比运行：同一片段分别用内置模板与覆盖模板跑目标阶段，其余模板保持当前生效的覆盖不变；
+ * 目标阶段之前的依赖（第一阶段规划）只跑一次，两侧共用
+ */
+export async function handlePromptOverrideCompareTask(job: Job<TaskJobData>): Promise<PromptCompareResult> {
+  const payload = (job.data.payload || {}) as AnyObj
+  const clipId = typeof payload.clipId === 'string' ? payload.clipId : job.data.targetId
+  const promptId = payload.promptId
+  if (!clipId) throw new Error('prompt_override_compare requires clipId')
+  if (!isPromptComparePromptId(promptId)) throw new Error('prompt_override_compare requires a storyboard promptId')
+
+  const candidate = await resolvePromptCompareCandidate({
+    userId: job.data.userId,
+    projectId: job.data.projectId,
+    promptId,
+    locale: job.data.locale,
+    scope: payload.scope === 'user' || payload.scope === 'project' ? payload.scope : null,
+    version: typeof payload.version === 'number' ? payload.version : null,
+  })
+  if (!candidate) throw new Error('Prompt override version not found')
+
+  const { clip, projectName, novelPromotionData } = await loadCompareContext(job, clipId)
+  await reportTaskProgress(job, 15, { stage: 'prompt_override_compare_prepare', clipId })
+  await assertTaskActive(job, 'prompt_override_compare_prepare')
+
+  const overrideKey = buildPromptTemplateOverrideKey(promptId, job.data.locale)
+  const baseOverrides = getPromptTemplateOverrides()
+  const defaultOverrides = new Map(baseOverrides || [])
+  defaultOverrides.delete(overrideKey)
+  const candidateOverrides = new Map(baseOverrides || [])
+  candidateOverrides.set(overrideKey, candidate.content)
+
+  const session = { user: { id: job.data.userId, name: 'Worker' } }
+  const { projectId, locale } = job.data
+  const runTarget = async (
+    target: PromptComparePromptId,
+    planPanels: StoryboardPanel[],
+  ): Promise<unknown[]> => {
+    switch (target) {
+      case PROMPT_IDS.NP_AGENT_STORYBOARD_PLAN:
+        return (await executePhase1(clip, novelPromotionData, session, projectId, projectName, locale)).planPanels || []
+      case PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER:
+        return (await executePhase2(clip, planPanels, novelPromotionData, session, projectId, projectName, locale))
+          .photographyRules || []
+      case PROMPT_IDS.NP_AGENT_ACTING_DIRECTION:
+        return (await executePhase2Acting(clip, planPanels, novelPromotionData, session, projectId, projectName, locale))
+          .actingDirections || []
+      case PROMPT_IDS.NP_AGENT_STORYBOARD_DETAIL:
+        return (await executePhase3(clip, planPanels, [], novelPromotionData, session, projectId, projectName, locale))
+          .finalPanels || []
+    }
+  }
+
+  const streamContext = createWorkerLLMStreamContext(job, 'prompt_override_compare')
+  const streamCallbacks = createWorkerLLMStreamCallbacks(job, streamContext)
+  const [defaultOutput, overrideOutput] = await withInternalLLMStreamCallbacks(streamCallbacks, async () => {
+    // 规划阶段本身就是对比目标时无需预先规划
+    const planPanels = promptId === PROMPT_IDS.NP_AGENT_STORYBOARD_PLAN
+      ? []
+      : (await executePhase1(clip, novelPromotionData, session, projectId, projectName, locale)).planPanels || []
+    await reportTaskProgress(job, 40, { stage: 'prompt_override_compare_run', clipId })
+    return await Promise.all([
+      withPromptTemplateOverrides(defaultOverrides, async () => await runTarget(promptId, planPanels)),
+      withPromptTemplateOverrides(candidateOverrides, async () => await runTarget(promptId, planPanels)),
+    ])
+  })
+  await streamCallbacks.flush()
+  await assertTaskActive(job, 'prompt_override_compare_done')
+
+  return {
+    clipId,
+    promptId,
+    scope: candidate.scope,
+    version: candidate.version,
+    default: defaultOutput,
+    override: overrideOutput,
+  }
+}
@@ -28,7 +28,7 @@ import {
   persistStoryboardOutputs,
   type JsonRecord,
 } from './script-to-storyboard-helpers'
-import { buildPrompt, getPromptTemplate, PROMPT_IDS } from '@/lib/prompt-i18n'
+import { buildPrompt, getPromptTemplate, getPromptTemplateVersion, PROMPT_IDS } from '@/lib/prompt-i18n'
 import { resolveAnalysisModel } from './resolve-analysis-model'
 import { createArtifact } from '@/lib/run-runtime/service'
 import { assertWorkflowRunActive, withWorkflowRunLease } from '@/lib/run-runtime/workflow-lease'
@@ -70,6 +70,7 @@ export async function handleScriptToStoryboardTask(job: Job<TaskJobData>) {
   const reasoning = payload.reasoning !== false
   const requestedReasoningEffort = parseEffort(payload.reasoningEffort)
   const temperature = parseTemperature(payload.temperature)
+  const bypassCache = payload.bypassCache === true
 
   if (!episodeId) {
     throw new Error('episodeId is required')
@@ -148,6 +149,13 @@ export async function handleScriptToStoryboardTask(job: Job<TaskJobData>) {
   const phase2CinematographyTemplate = getPromptTemplate(PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER, job.data.locale)
   const phase2ActingTemplate = getPromptTemplate(PROMPT_IDS.NP_AGENT_ACTING_DIRECTION, job.data.locale)
   const phase3DetailTemplate = getPromptTemplate(PROMPT_IDS.NP_AGENT_STORYBOARD_DETAIL, job.data.locale)
+  const promptVersion = getPromptTemplateVersion([
+    PROMPT_IDS.NP_AGENT_STORYBOARD_PLAN,
+    PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+    PROMPT_IDS.NP_AGENT_ACTING_DIRECTION,
+    PROMPT_IDS.NP_AGENT_STORYBOARD_DETAIL,
+    PROMPT_IDS.NP_VOICE_ANALYSIS,
+  ], job.data.locale)
   const payloadMeta = typeof payload.meta === 'object' && payload.meta !== null
     ? (payload.meta as AnyObj)
     : {}
@@ -230,6 +238,11 @@ export async function handleScriptToStoryboardTask(job: Job<TaskJobData>) {
       temperature,
       reasoning,
       reasoningEffort,
+      cache: {
+        promptVersion,
+        // 重试（含解析失败后的自动重试）不能再命中同一份缓存输出
+        bypass: bypassCache || stepAttempt > 1,
+      },
     })
     await callbacks.flush()
 
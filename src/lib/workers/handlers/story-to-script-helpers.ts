@@ -21,7 +21,7 @@ export function asString(value: unknown): string {
   return typeof value === 'string' ? value : ''
 }
 
-function toStringArray(value: unknown): string[] {
+export function toStringArray(value: unknown): string[] {
   if (!Array.isArray(value)) return []
   return value
     .map((item) => (typeof item === 'string' ? item.trim() : ''))
@@ -0,0 +1,194 @@
+import type { Job } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import type { StoryToScriptOrchestratorResult } from '@/lib/novel-promotion/story-to-script/orchestrator'
+import { createArtifact } from '@/lib/run-runtime/service'
+import type { TaskJobData } from '@/lib/task/types'
+import { reportTaskProgress } from '@/lib/workers/shared'
+import {
+  persistAnalyzedCharacters,
+  persistAnalyzedLocations,
+  persistAnalyzedProps,
+  persistClips,
+  resolveClipRecordId,
+} from './story-to-script-helpers'
+
+function readAssetKind(value: Record<string, unknown>): string {
+  return typeof value.assetKind === 'string' ? value.assetKind : 'location'
+}
+
+/**
+ * 记录整轮 story_to_script 各 step 的产物，全部剧本成功后把角色 / 场景 / 道具 / 片段落库。
+ */
+export async function persistStoryToScriptResult(params: {
+  job: Job<TaskJobData>
+  runId: string
+  episodeId: string
+  novelData: {
+    id: string
+    characters: Array<{ name: string }>
+    locations: Array<{ name: string }>
+  }
+  result: StoryToScriptOrchestratorResult
+  assertRunActive: (stage: string) => Promise<void>
+}) {
+  const { job, runId, episodeId, novelData, result, assertRunActive } = params
+  await createArtifact({
+    runId,
+    stepKey: 'analyze_characters',
+    artifactType: 'analysis.characters',
+    refId: episodeId,
+    payload: {
+      characters: result.analyzedCharacters,
+      raw: result.charactersObject,
+    },
+  })
+  await createArtifact({
+    runId,
+    stepKey: 'analyze_locations',
+    artifactType: 'analysis.locations',
+    refId: episodeId,
+    payload: {
+      locations: result.analyzedLocations,
+      raw: result.locationsObject,
+    },
+  })
+  await createArtifact({
+    runId,
+    stepKey: 'analyze_props',
+    artifactType: 'analysis.props',
+    refId: episodeId,
+    payload: {
+      props: result.analyzedProps,
+      raw: result.propsObject,
+    },
+  })
+  await createArtifact({
+    runId,
+    stepKey: 'split_clips',
+    artifactType: 'clips.split',
+    refId: episodeId,
+    payload: {
+      clipList: result.clipList,
+      charactersLibName: result.charactersLibName,
+      locationsLibName: result.locationsLibName,
+      propsLibName: result.propsLibName,
+      charactersIntroduction: result.charactersIntroduction,
+    },
+  })
+  for (const screenplayResult of result.screenplayResults) {
+    await createArtifact({
+      runId,
+      stepKey: `screenplay_${screenplayResult.clipId}`,
+      artifactType: 'screenplay.clip',
+      refId: screenplayResult.clipId,
+      payload: {
+        ...screenplayResult,
+      },
+    })
+  }
+
+  if (result.summary.screenplayFailedCount > 0) {
+    const failed = result.screenplayResults.filter((item) => !item.success)
+    const preview = failed
+      .slice(0, 3)
+      .map((item) => `${item.clipId}:${item.error || 'unknown error'}`)
+      .join(' | ')
+    throw new Error(
+      `STORY_TO_SCRIPT_PARTIAL_FAILED: ${result.summary.screenplayFailedCount}/${result.summary.clipCount} screenplay steps failed. ${preview}`,
+    )
+  }
+
+  await reportTaskProgress(job, 80, {
+    stage: 'story_to_script_persist',
+    stageLabel: 'progress.stage.storyToScriptPersist',
+    displayMode: 'detail',
+  })
+  await assertRunActive('story_to_script_persist')
+
+  const episodeStillExists = await prisma.novelPromotionEpisode.findUnique({
+    where: { id: episodeId },
+    select: { id: true },
+  })
+  if (!episodeStillExists) {
+    throw new Error(`NOT_FOUND: Episode ${episodeId} was deleted while the task was running`)
+  }
+
+  const existingCharacterNames = new Set<string>(
+    (novelData.characters || []).map((item) => String(item.name || '').toLowerCase()),
+  )
+  const existingLocationNames = new Set<string>(
+    (novelData.locations || [])
+      .filter((item) => readAssetKind(item as unknown as Record<string, unknown>) !== 'prop')
+      .map((item) => String(item.name || '').toLowerCase()),
+  )
+  const existingPropNames = new Set<string>(
+    (novelData.locations || [])
+      .filter((item) => readAssetKind(item as unknown as Record<string, unknown>) === 'prop')
+      .map((item) => String(item.name || '').toLowerCase()),
+  )
+
+  const persistedResult = await prisma.$transaction(async (tx) => {
+    const createdCharacters = await persistAnalyzedCharacters({
+      projectInternalId: novelData.id,
+      existingNames: existingCharacterNames,
+      analyzedCharacters: result.analyzedCharacters,
+      db: tx,
+    })
+
+    const createdLocations = await persistAnalyzedLocations({
+      projectInternalId: novelData.id,
+      existingNames: existingLocationNames,
+      analyzedLocations: result.analyzedLocations,
+      db: tx,
+    })
+    const createdProps = await persistAnalyzedProps({
+      projectInternalId: novelData.id,
+      existingNames: existingPropNames,
+      analyzedProps: result.analyzedProps,
+      db: tx,
+    })
+
+    const createdClipRows = await persistClips({
+      episodeId,
+      clipList: result.clipList,
+      db: tx,
+    })
+    const clipIdMap = new Map(createdClipRows.map((item) => [item.clipKey, item.id]))
+
+    for (const screenplayResult of result.screenplayResults) {
+      if (!screenplayResult.success || !screenplayResult.screenplay) continue
+      const clipRecordId = resolveClipRecordId(clipIdMap, screenplayResult.clipId)
+      if (!clipRecordId) continue
+      await tx.novelPromotionClip.update({
+        where: { id: clipRecordId },
+        data: {
+          screenplay: JSON.stringify(screenplayResult.screenplay),
+        },
+      })
+    }
+
+    return {
+      createdCharacters,
+      createdLocations,
+      createdProps,
+      createdClipRows,
+    }
+  })
+
+  await reportTaskProgress(job, 96, {
+    stage: 'story_to_script_persist_done',
+    stageLabel: 'progress.stage.storyToScriptPersistDone',
+    displayMode: 'detail',
+  })
+
+  return {
+    episodeId,
+    clipCount: result.summary.clipCount,
+    screenplaySuccessCount: result.summary.screenplaySuccessCount,
+    screenplayFailedCount: result.summary.screenplayFailedCount,
+    persistedCharacters: persistedResult.createdCharacters.length,
+    persistedLocations: persistedResult.createdLocations.length,
+    persistedProps: persistedResult.createdProps.length,
+    persistedClips: persistedResult.createdClipRows.length,
+  }
+}
@@ -0,0 +1,159 @@
+import type { Job } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
+import {
+  runStoryToScriptScreenplayPhase,
+  type StoryToScriptClipCandidate,
+  type StoryToScriptOrchestratorInput,
+} from '@/lib/novel-promotion/story-to-script/orchestrator'
+import { createArtifact, listArtifacts } from '@/lib/run-runtime/service'
+import type { TaskJobData } from '@/lib/task/types'
+import { reportTaskProgress } from '@/lib/workers/shared'
+import type { WorkerInternalLLMStreamCallbacks } from './llm-stream'
+import { asString, persistClips, resolveClipRecordId, toStringArray } from './story-to-script-helpers'
+
+function toClipCandidate(value: unknown): StoryToScriptClipCandidate | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const record = value as Record<string, unknown>
+  const id = asString(record.id).trim()
+  const content = asString(record.content)
+  if (!id || !content.trim()) return null
+  return {
+    id,
+    startText: asString(record.startText),
+    endText: asString(record.endText),
+    summary: asString(record.summary),
+    location: asString(record.location).trim() || null,
+    characters: toStringArray(record.characters),
+    props: toStringArray(record.props),
+    content,
+    matchLevel: record.matchLevel === 'L1' || record.matchLevel === 'L2' || record.matchLevel === 'L3'
+      ? record.matchLevel
+      : 'L3',
+    matchConfidence: typeof record.matchConfidence === 'number' ? record.matchConfidence : 1,
+  }
+}
+
+/**
+ * split_clips 产物被人工覆盖后的续跑：读取最新 clips.split，只重跑全部 screenplay_* 并重新落库片段。
+ * 角色 / 场景 / 道具分析在首轮已经落库，这里不再触碰。
+ */
+export async function resumeStoryToScriptFromSplitClips(params: {
+  job: Job<TaskJobData>
+  runId: string
+  episodeId: string
+  concurrency: number
+  screenplayPromptTemplate: string
+  callbacks: WorkerInternalLLMStreamCallbacks
+  runStep: StoryToScriptOrchestratorInput['runStep']
+  assertRunActive: (stage: string) => Promise<void>
+}) {
+  const { job, runId, episodeId } = params
+  const splitArtifacts = await listArtifacts({
+    runId,
+    stepKey: 'split_clips',
+    artifactType: 'clips.split',
+    limit: 1,
+  })
+  const splitPayload = splitArtifacts[0] && typeof splitArtifacts[0].payload === 'object' && splitArtifacts[0].payload !== null
+    ? (splitArtifacts[0].payload as Record<string, unknown>)
+    : null
+  if (!splitPayload) {
+    throw new Error('missing clips.split artifact for resume')
+  }
+  const rawClipList = Array.isArray(splitPayload.clipList) ? splitPayload.clipList : []
+  const clipList = rawClipList
+    .map(toClipCandidate)
+    .filter((clip): clip is StoryToScriptClipCandidate => clip !== null)
+  if (clipList.length === 0 || clipList.length !== rawClipList.length) {
+    throw new Error('clips.split artifact has invalid clips for resume')
+  }
+
+  const screenplayResults = await (async () => {
+    try {
+      return await withInternalLLMStreamCallbacks(
+        params.callbacks,
+        async () => await runStoryToScriptScreenplayPhase({
+          concurrency: params.concurrency,
+          clipList,
+          screenplayPromptTemplate: params.screenplayPromptTemplate,
+          charactersLibName: asString(splitPayload.charactersLibName),
+          locationsLibName: asString(splitPayload.locationsLibName),
+          propsLibName: asString(splitPayload.propsLibName),
+          charactersIntroduction: asString(splitPayload.charactersIntroduction),
+          runStep: params.runStep,
+        }),
+      )
+    } finally {
+      await params.callbacks.flush()
+    }
+  })()
+
+  for (const screenplayResult of screenplayResults) {
+    await createArtifact({
+      runId,
+      stepKey: `screenplay_${screenplayResult.clipId}`,
+      artifactType: 'screenplay.clip',
+      refId: screenplayResult.clipId,
+      payload: {
+        ...screenplayResult,
+      },
+    })
+  }
+
+  const failed = screenplayResults.filter((item) => !item.success)
+  if (failed.length > 0) {
+    const preview = failed
+      .slice(0, 3)
+      .map((item) => `${item.clipId}:${item.error || 'unknown error'}`)
+      .join(' | ')
+    throw new Error(
+      `STORY_TO_SCRIPT_PARTIAL_FAILED: ${failed.length}/${clipList.length} screenplay steps failed. ${preview}`,
+    )
+  }
+
+  await reportTaskProgress(job, 80, {
+    stage: 'story_to_script_persist',
+    stageLabel: 'progress.stage.storyToScriptPersist',
+    displayMode: 'detail',
+  })
+  await params.assertRunActive('story_to_script_persist')
+
+  const createdClipRows = await prisma.$transaction(async (tx) => {
+    const rows = await persistClips({
+      episodeId,
+      clipList,
+      db: tx,
+    })
+    const clipIdMap = new Map(rows.map((item) => [item.clipKey, item.id]))
+    for (const screenplayResult of screenplayResults) {
+      if (!screenplayResult.screenplay) continue
+      const clipRecordId = resolveClipRecordId(clipIdMap, screenplayResult.clipId)
+      if (!clipRecordId) continue
+      await tx.novelPromotionClip.update({
+        where: { id: clipRecordId },
+        data: {
+          screenplay: JSON.stringify(screenplayResult.screenplay),
+        },
+      })
+    }
+    return rows
+  })
+
+  await reportTaskProgress(job, 96, {
+    stage: 'story_to_script_persist_done',
+    stageLabel: 'progress.stage.storyToScriptPersistDone',
+    displayMode: 'detail',
+  })
+
+  return {
+    episodeId,
+    clipCount: clipList.length,
+    screenplaySuccessCount: screenplayResults.length,
+    screenplayFailedCount: 0,
+    persistedCharacters: 0,
+    persistedLocations: 0,
+    persistedClips: createdClipRows.length,
+    resumeFromStepKey: 'split_clips',
+  }
+}
@@ -0,0 +1,185 @@
+import type { Job } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
+import type {
+  StoryToScriptOrchestratorInput,
+  StoryToScriptStepMeta,
+} from '@/lib/novel-promotion/story-to-script/orchestrator'
+import { createArtifact, listArtifacts } from '@/lib/run-runtime/service'
+import type { TaskJobData } from '@/lib/task/types'
+import { reportTaskProgress } from '@/lib/workers/shared'
+import type { WorkerInternalLLMStreamCallbacks } from './llm-stream'
+import { parseScreenplayPayload } from './screenplay-convert-helpers'
+import { asString, type AnyObj } from './story-to-script-helpers'
+
+/**
+ * 单独重试一个 screenplay_* step：从最新 clips.split 产物取回片段，重新转换剧本并写回对应片段。
+ */
+export async function retryStoryToScriptScreenplayStep(params: {
+  job: Job<TaskJobData>
+  runId: string
+  episodeId: string
+  retryClipId: string
+  retryStepKey: string
+  retryStepAttempt: number
+  screenplayPromptTemplate: string
+  callbacks: WorkerInternalLLMStreamCallbacks
+  runStep: StoryToScriptOrchestratorInput['runStep']
+}) {
+  const {
+    job,
+    runId,
+    episodeId,
+    retryClipId,
+    retryStepKey,
+    retryStepAttempt,
+    screenplayPromptTemplate,
+    callbacks,
+    runStep,
+  } = params
+  const splitArtifacts = await listArtifacts({
+    runId,
+    artifactType: 'clips.split',
+    limit: 1,
+  })
+  const latestSplit = splitArtifacts[0]
+  const splitPayload = latestSplit && typeof latestSplit.payload === 'object' && latestSplit.payload !== null
+    ? (latestSplit.payload as Record<string, unknown>)
+    : null
+  if (!splitPayload) {
+    throw new Error('missing clips.split artifact for retry')
+  }
+
+  const clipRows = Array.isArray(splitPayload.clipList) ? splitPayload.clipList : []
+  const retryClip = clipRows.find((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return false
+    return asString((item as Record<string, unknown>).id).trim() === retryClipId
+  }) as Record<string, unknown> | undefined
+  if (!retryClip) {
+    throw new Error(`retry clip not found in artifact: ${retryClipId}`)
+  }
+
+  const clipContent = asString(retryClip.content)
+  if (!clipContent.trim()) {
+    throw new Error(`retry clip content is empty: ${retryClipId}`)
+  }
+
+  const screenplayPrompt = screenplayPromptTemplate
+    .replace('{clip_content}', clipContent)
+    .replace('{locations_lib_name}', asString(splitPayload.locationsLibName) || '无')
+    .replace('{characters_lib_name}', asString(splitPayload.charactersLibName) || '无')
+    .replace('{props_lib_name}', asString(splitPayload.propsLibName) || '无')
+    .replace('{characters_introduction}', asString(splitPayload.charactersIntroduction) || '暂无角色介绍')
+    .replace('{clip_id}', retryClipId)
+
+  const stepMeta: StoryToScriptStepMeta = {
+    stepId: retryStepKey,
+    stepAttempt: retryStepAttempt,
+    stepTitle: 'progress.streamStep.screenplayConversion',
+    stepIndex: 1,
+    stepTotal: 1,
+    dependsOn: ['split_clips'],
+    retryable: true,
+  }
+  let screenplay: AnyObj | null = null
+  try {
+    const stepOutput = await (async () => {
+      try {
+        return await withInternalLLMStreamCallbacks(
+          callbacks,
+          async () => await runStep(stepMeta, screenplayPrompt, 'screenplay_conversion', 2200),
+        )
+      } finally {
+        await callbacks.flush()
+      }
+    })()
+    screenplay = parseScreenplayPayload(stepOutput.text)
+  } catch (error) {
+    await createArtifact({
+      runId,
+      stepKey: retryStepKey,
+      artifactType: 'screenplay.clip',
+      refId: retryClipId,
+      payload: {
+        clipId: retryClipId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    })
+    throw error
+  }
+  if (!screenplay) {
+    throw new Error('retry screenplay output is empty')
+  }
+  await createArtifact({
+    runId,
+    stepKey: retryStepKey,
+    artifactType: 'screenplay.clip',
+    refId: retryClipId,
+    payload: {
+      clipId: retryClipId,
+      success: true,
+      sceneCount: Array.isArray(screenplay.scenes) ? screenplay.scenes.length : 0,
+      screenplay,
+    },
+  })
+
+  await prisma.$transaction(async (tx) => {
+    let clipRecord = await tx.novelPromotionClip.findFirst({
+      where: {
+        episodeId,
+        startText: asString(retryClip.startText) || null,
+        endText: asString(retryClip.endText) || null,
+      },
+      select: { id: true },
+    })
+    if (!clipRecord) {
+      const clipModel = tx.novelPromotionClip as unknown as {
+        create: (args: { data: Record<string, unknown>; select: { id: true } }) => Promise<{ id: string }>
+      }
+      clipRecord = await clipModel.create({
+        data: {
+          episodeId,
+          startText: asString(retryClip.startText) || null,
+          endText: asString(retryClip.endText) || null,
+          summary: asString(retryClip.summary),
+          location: asString(retryClip.location) || null,
+          characters: Array.isArray(retryClip.characters) ? JSON.stringify(retryClip.characters) : null,
+          props: Array.isArray(retryClip.props) ? JSON.stringify(retryClip.props) : null,
+          content: clipContent,
+        },
+        select: { id: true },
+      })
+    }
+    await tx.novelPromotionClip.update({
+      where: { id: clipRecord.id },
+      data: {
+        screenplay: JSON.stringify(screenplay),
+      },
+    })
+  })
+
+  await reportTaskProgress(job, 96, {
+    stage: 'story_to_script_persist_done',
+    stageLabel: 'progress.stage.storyToScriptPersistDone',
+    displayMode: 'detail',
+    message: 'retry step completed',
+    stepId: retryStepKey,
+    stepAttempt: retryStepAttempt,
+    stepTitle: 'progress.streamStep.screenplayConversion',
+    stepIndex: 1,
+    stepTotal: 1,
+  })
+
+  return {
+    episodeId,
+    clipCount: 1,
+    screenplaySuccessCount: 1,
+    screenplayFailedCount: 0,
+    persistedCharacters: 0,
+    persistedLocations: 0,
+    persistedClips: 1,
+    retryStepKey,
+  }
+
+}
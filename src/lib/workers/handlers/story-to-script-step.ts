@@ -0,0 +1,103 @@
+import type { Job } from 'bullmq'
+import { executeAiTextStep } from '@/lib/ai-runtime'
+import { logAIAnalysis } from '@/lib/logging/semantic'
+import type {
+  StoryToScriptOrchestratorInput,
+  StoryToScriptStepMeta,
+  StoryToScriptStepOutput,
+} from '@/lib/novel-promotion/story-to-script/orchestrator'
+import type { TaskJobData } from '@/lib/task/types'
+import { reportTaskProgress } from '@/lib/workers/shared'
+import type { WorkflowRunContext } from './workflow-run'
+
+/**
+ * story_to_script 各 graph step 共用的 LLM 调用：上报 step 进度、记录 prompt / 输出，
+ * 重试中的 step 使用重试次数作为 stepAttempt 并绕过响应缓存。
+ */
+export function createStoryToScriptStepRunner(job: Job<TaskJobData>, context: WorkflowRunContext, params: {
+  projectName: string
+  model: string
+  retryStepKey: string
+  retryStepAttempt: number
+  temperature: number
+  reasoning: boolean
+  reasoningEffort: 'minimal' | 'low' | 'medium' | 'high'
+  promptVersion: string
+  bypassCache: boolean
+}): StoryToScriptOrchestratorInput['runStep'] {
+  const projectId = job.data.projectId
+  const { model } = params
+
+  return async (
+    meta: StoryToScriptStepMeta,
+    prompt: string,
+    action: string,
+    _maxOutputTokens: number,
+  ): Promise<StoryToScriptStepOutput> => {
+    void _maxOutputTokens
+    const stepAttempt = meta.stepAttempt
+      || (params.retryStepKey && meta.stepId === params.retryStepKey ? params.retryStepAttempt : 1)
+    await context.assertRunActive(`story_to_script_step:${meta.stepId}`)
+    const progress = 15 + Math.min(55, Math.floor((meta.stepIndex / Math.max(1, meta.stepTotal)) * 55))
+    await reportTaskProgress(job, progress, {
+      stage: 'story_to_script_step',
+      stageLabel: 'progress.stage.storyToScriptStep',
+      displayMode: 'detail',
+      message: meta.stepTitle,
+      stepId: meta.stepId,
+      stepAttempt,
+      stepTitle: meta.stepTitle,
+      stepIndex: meta.stepIndex,
+      stepTotal: meta.stepTotal,
+      dependsOn: Array.isArray(meta.dependsOn) ? meta.dependsOn : [],
+      groupId: meta.groupId || null,
+      parallelKey: meta.parallelKey || null,
+      retryable: meta.retryable !== false,
+      blockedBy: Array.isArray(meta.blockedBy) ? meta.blockedBy : [],
+    })
+
+    logAIAnalysis(job.data.userId, 'worker', projectId, params.projectName, {
+      action: `STORY_TO_SCRIPT_PROMPT:${action}`,
+      input: { stepId: meta.stepId, stepTitle: meta.stepTitle, prompt },
+      model,
+    })
+
+    const output = await executeAiTextStep({
+      userId: job.data.userId,
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      projectId,
+      action,
+      meta: {
+        ...meta,
+        stepAttempt,
+      },
+      temperature: params.temperature,
+      reasoning: params.reasoning,
+      reasoningEffort: params.reasoningEffort,
+      cache: {
+        promptVersion: params.promptVersion,
+        // 重试（含解析失败后的自动重试）不能再命中同一份缓存输出
+        bypass: params.bypassCache || stepAttempt > 1,
+      },
+    })
+    await context.streamCallbacks.flush()
+
+    logAIAnalysis(job.data.userId, 'worker', projectId, params.projectName, {
+      action: `STORY_TO_SCRIPT_OUTPUT:${action}`,
+      output: {
+        stepId: meta.stepId,
+        stepTitle: meta.stepTitle,
+        rawText: output.text,
+        textLength: output.text.length,
+        reasoningLength: output.reasoning.length,
+      },
+      model,
+    })
+
+    return {
+      text: output.text,
+      reasoning: output.reasoning,
+    }
+  }
+}
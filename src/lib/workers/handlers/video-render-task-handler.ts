@@ -0,0 +1,145 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { type Job } from 'bullmq'
+import { prisma } from '@/lib/prisma'
+import { TaskTerminatedError } from '@/lib/task/errors'
+import { type TaskJobData } from '@/lib/task/types'
+import { generateUniqueKey, toFetchableUrl, uploadObject } from '@/lib/storage'
+import { ensureMediaObjectFromStorageKey } from '@/lib/media/service'
+import { migrateProjectData } from '@/features/video-editor/utils/migration'
+import { calculateProjectDuration } from '@/features/video-editor/utils/time-utils'
+import {
+  buildRenderInputProps,
+  isRenderFormat,
+  isRenderQuality,
+  renderEditorComposition,
+  resolveRenderSettings,
+} from '@/lib/video-render'
+import { reportTaskProgress } from '../shared'
+import { assertTaskActive, toSignedUrlIfCos } from '../utils'
+
+type AnyObj = Record<string, unknown>
+
+const RENDER_PROGRESS_START = 10
+const RENDER_PROGRESS_END = 90
+const RENDER_PROGRESS_STEP = 2
+// 无头浏览器拉取素材需要覆盖整段渲染时长
+const RENDER_MEDIA_URL_TTL_SECONDS = 6 * 3600
+
+function toRenderableMediaUrl(src: string): string {
+  return toFetchableUrl(toSignedUrlIfCos(src, RENDER_MEDIA_URL_TTL_SECONDS) || src)
+}
+
+async function markRenderFailed(editorProjectId: string, taskId: string) {
+  // 仅回写当前任务对应的渲染状态，避免覆盖更新的一次渲染
+  await prisma.videoEditorProject.updateMany({
+    where: { id: editorProjectId, renderTaskId: taskId },
+    data: { renderStatus: 'failed' },
+  })
+}
+
+async function renderEditorProject(
+  job: Job<TaskJobData>,
+  editorProject: { id: string; projectData: string },
+  workDir: string,
+  payload: AnyObj,
+) {
+  const format = isRenderFormat(payload.format) ? payload.format : 'mp4'
+  const quality = isRenderQuality(payload.quality) ? payload.quality : 'high'
+  const burnSubtitles = payload.burnSubtitles !== false
+
+  const project = migrateProjectData(JSON.parse(editorProject.projectData))
+  if (!Array.isArray(project.timeline) || calculateProjectDuration(project) === 0) {
+    throw new Error('VIDEO_RENDER_TIMELINE_EMPTY: editor timeline has no clips')
+  }
+
+  await reportTaskProgress(job, 5, {
+    stage: 'render_video_prepare',
+    editorProjectId: editorProject.id,
+  })
+  // 只认领仍指向本任务的渲染；已被更新的渲染任务接管时直接终止，不再抢占状态
+  const claimed = await prisma.videoEditorProject.updateMany({
+    where: {
+      id: editorProject.id,
+      renderTaskId: job.data.taskId,
+      renderStatus: { in: ['pending', 'rendering'] },
+    },
+    data: { renderStatus: 'rendering' },
+  })
+  if (claimed.count === 0) {
+    throw new TaskTerminatedError(job.data.taskId, 'Render superseded by a newer render task')
+  }
+
+  const settings = resolveRenderSettings(format, quality)
+  const outputLocation = path.join(workDir, `${editorProject.id}.${settings.ext}`)
+
+  let lastReported = RENDER_PROGRESS_START
+  const rendered = await renderEditorComposition({
+    inputProps: buildRenderInputProps(project, toRenderableMediaUrl, { burnSubtitles }),
+    settings,
+    outputLocation,
+    onProgress: ({ progress, renderedFrames, totalFrames }) => {
+      const value = RENDER_PROGRESS_START + progress * (RENDER_PROGRESS_END - RENDER_PROGRESS_START)
+      if (value - lastReported < RENDER_PROGRESS_STEP) return
+      lastReported = value
+      void reportTaskProgress(job, value, {
+        stage: 'render_video_frames',
+        renderedFrames,
+        totalFrames,
+      })
+    },
+  })
+
+  await assertTaskActive(job, 'persist_video_render')
+  await reportTaskProgress(job, 92, { stage: 'render_video_persist' })
+
+  const body = await fs.readFile(outputLocation)
+  const storageKey = await uploadObject(
+    body,
+    generateUniqueKey(`editor-render-${editorProject.id}`, settings.ext),
+    undefined,
+    settings.mimeType,
+  )
+  const media = await ensureMediaObjectFromStorageKey(storageKey, {
+    mimeType: settings.mimeType,
+    sizeBytes: body.length,
+    width: rendered.width,
+    height: rendered.height,
+    durationMs: Math.round((rendered.durationInFrames / rendered.fps) * 1000),
+  })
+
+  // 渲染期间若已提交了新的渲染任务，本次结果作废，不覆盖新任务的产物
+  await prisma.videoEditorProject.updateMany({
+    where: { id: editorProject.id, renderTaskId: job.data.taskId },
+    data: {
+      renderStatus: 'completed',
+      outputUrl: storageKey,
+      outputMediaId: media.id,
+    },
+  })
+
+  return {
+    editorProjectId: editorProject.id,
+    outputUrl: media.url,
+    format,
+    quality,
+    durationInFrames: rendered.durationInFrames,
+  }
+}
+
+export async function handleVideoRenderTask(job: Job<TaskJobData>) {
+  const payload = (job.data.payload || {}) as AnyObj
+  const editorProject = await prisma.videoEditorProject.findUnique({ where: { id: job.data.targetId } })
+  if (!editorProject) throw new Error('Editor project not found')
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'waoowaoo-render-'))
+  try {
+    return await renderEditorProject(job, editorProject, workDir, payload)
+  } catch (error) {
+    await markRenderFailed(editorProject.id, job.data.taskId)
+    throw error
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true })
+  }
+}
@@ -92,3 +92,75 @@ export function parseVoiceLinesJson(responseText: string): VoiceLinePayload[] {
   }
   return voiceLines
 }
+
+export type StrictVoiceLine = {
+  lineIndex: number
+  speaker: string
+  content: string
+  emotionStrength: number
+  matchedPanelId: string | null
+  matchedStoryboardId: string | null
+  matchedPanelIndex: number | null
+}
+
+// 校验 AI 返回的台词字段，并把 matchedPanel 映射为已存在的 panel id
+export function toStrictVoiceLines(
+  parsedLines: VoiceLinePayload[],
+  panelIdByStoryboardPanel: Map<string, string>,
+): StrictVoiceLine[] {
+  return parsedLines.map((lineData: VoiceLinePayload, index: number) => {
+    if (typeof lineData.lineIndex !== 'number' || !Number.isFinite(lineData.lineIndex)) {
+      throw new Error(`voice line ${index + 1} is missing valid lineIndex`)
+    }
+    const lineIndex = Math.floor(lineData.lineIndex)
+    if (lineIndex <= 0) {
+      throw new Error(`voice line ${index + 1} has invalid lineIndex`)
+    }
+    if (typeof lineData.speaker !== 'string' || !lineData.speaker.trim()) {
+      throw new Error(`voice line ${index + 1} is missing valid speaker`)
+    }
+    if (typeof lineData.content !== 'string' || !lineData.content.trim()) {
+      throw new Error(`voice line ${index + 1} is missing valid content`)
+    }
+    if (typeof lineData.emotionStrength !== 'number' || !Number.isFinite(lineData.emotionStrength)) {
+      throw new Error(`voice line ${index + 1} is missing valid emotionStrength`)
+    }
+
+    const matchedPanel = lineData.matchedPanel
+    if (!matchedPanel) {
+      return {
+        lineIndex,
+        speaker: lineData.speaker.trim(),
+        content: lineData.content,
+        emotionStrength: Math.min(1, Math.max(0.1, lineData.emotionStrength)),
+        matchedPanelId: null,
+        matchedStoryboardId: null,
+        matchedPanelIndex: null,
+      }
+    }
+
+    const storyboardId = typeof matchedPanel.storyboardId === 'string' ? matchedPanel.storyboardId.trim() : ''
+    const panelIndex = typeof matchedPanel.panelIndex === 'number' && Number.isFinite(matchedPanel.panelIndex)
+      ? Math.floor(matchedPanel.panelIndex)
+      : null
+    if (!storyboardId || panelIndex === null || panelIndex < 0) {
+      throw new Error(`voice line ${index + 1} has invalid matchedPanel`)
+    }
+
+    const panelKey = `${storyboardId}:${panelIndex}`
+    const panelId = panelIdByStoryboardPanel.get(panelKey)
+    if (!panelId) {
+      throw new Error(`voice line ${index + 1} references non-existent panel ${panelKey}`)
+    }
+
+    return {
+      lineIndex,
+      speaker: lineData.speaker.trim(),
+      content: lineData.content,
+      emotionStrength: Math.min(1, Math.max(0.1, lineData.emotionStrength)),
+      matchedPanelId: panelId,
+      matchedStoryboardId: storyboardId,
+      matchedPanelIndex: panelIndex,
+    }
+  })
+}
@@ -1,21 +1,20 @@
 import type { Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
-import { executeAiTextStep } from '@/lib/ai-runtime'
-import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
 import { buildCharactersIntroduction } from '@/lib/constants'
 import { reportTaskProgress } from '@/lib/workers/shared'
-import { assertTaskActive } from '@/lib/workers/utils'
-import { createWorkerLLMStreamCallbacks, createWorkerLLMStreamContext } from './llm-stream'
 import type { TaskJobData } from '@/lib/task/types'
+import { createArtifact } from '@/lib/run-runtime/service'
 import {
   buildStoryboardJson,
   parseVoiceLinesJson,
-  type VoiceLinePayload,
+  toStrictVoiceLines,
 } from './voice-analyze-helpers'
 import { buildPrompt, PROMPT_IDS } from '@/lib/prompt-i18n'
 import { resolveAnalysisModel } from './resolve-analysis-model'
+import { resolveWorkflowRetryStep, resolveWorkflowRunId, runWorkflowTextStep, runWorkflowWithLease } from './workflow-run'
 
 const MAX_VOICE_ANALYZE_ATTEMPTS = 2
+const VOICE_ANALYZE_STEP_KEY = 'voice_analyze'
 
 export async function handleVoiceAnalyzeTask(job: Job<TaskJobData>) {
   const payload = (job.data.payload || {}) as Record<string, unknown>
@@ -31,6 +30,11 @@ export async function handleVoiceAnalyzeTask(job: Job<TaskJobData>) {
   if (!episodeId) {
     throw new Error('episodeId is required')
   }
+  const runId = await resolveWorkflowRunId(job, payload)
+  const { retryStepKey, retryStepAttempt } = resolveWorkflowRetryStep(payload)
+  if (retryStepKey && retryStepKey !== VOICE_ANALYZE_STEP_KEY) {
+    throw new Error(`unsupported retry step for voice_analyze: ${retryStepKey}`)
+  }
 
   const project = await prisma.project.findUnique({
     where: { id: projectId },
@@ -100,246 +104,170 @@ export async function handleVoiceAnalyzeTask(job: Job<TaskJobData>) {
     },
   })
 
-  await reportTaskProgress(job, 20, {
-    stage: 'voice_analyze_prepare',
-    stageLabel: '准备台词分析参数',
-    displayMode: 'detail',
-  })
-  await assertTaskActive(job, 'voice_analyze_prepare')
-
-  const streamContext = createWorkerLLMStreamContext(job, 'voice_analyze')
-  const streamCallbacks = createWorkerLLMStreamCallbacks(job, streamContext)
   const panelIdByStoryboardPanel = new Map<string, string>()
   for (const storyboard of episode.storyboards || []) {
     for (const panel of storyboard.panels || []) {
       panelIdByStoryboardPanel.set(`${storyboard.id}:${panel.panelIndex}`, panel.id)
     }
   }
-  if (panelIdByStoryboardPanel.size === 0) {
-    throw new Error('No storyboard panels found for voice matching')
-  }
-
-  type StrictVoiceLine = {
-    lineIndex: number
-    speaker: string
-    content: string
-    emotionStrength: number
-    matchedPanelId: string | null
-    matchedStoryboardId: string | null
-    matchedPanelIndex: number | null
-  }
-  let voiceLinesData: StrictVoiceLine[] | null = null
-  let lastAnalyzeError: Error | null = null
-
-  try {
-    for (let attempt = 1; attempt <= MAX_VOICE_ANALYZE_ATTEMPTS; attempt += 1) {
-      try {
-        const completion = await withInternalLLMStreamCallbacks(
-          streamCallbacks,
-          async () =>
-            await executeAiTextStep({
-              userId: job.data.userId,
-              model: analysisModel,
-              messages: [{ role: 'user', content: promptTemplate }],
-              projectId,
-              action: 'voice_analyze',
-              meta: {
-                stepId: 'voice_analyze',
-                stepAttempt: attempt,
-                stepTitle: '台词分析',
-                stepIndex: 1,
-                stepTotal: 1,
-              },
-            }),
-        )
 
-        const responseText = completion.text
-        if (!responseText) {
-          throw new Error('No response from AI')
-        }
+  return await runWorkflowWithLease(job, {
+    runId,
+    label: 'voice_analyze',
+    skipped: { episodeId },
+  }, async (context) => {
+    const { assertRunActive } = context
+    await reportTaskProgress(job, 20, {
+      stage: 'voice_analyze_prepare',
+      stageLabel: '准备台词分析参数',
+      displayMode: 'detail',
+    })
+    await assertRunActive('voice_analyze_prepare')
 
-        const parsedLines = parseVoiceLinesJson(responseText)
-        const strictLines: StrictVoiceLine[] = parsedLines.map((lineData: VoiceLinePayload, index: number) => {
-          if (typeof lineData.lineIndex !== 'number' || !Number.isFinite(lineData.lineIndex)) {
-            throw new Error(`voice line ${index + 1} is missing valid lineIndex`)
-          }
-          const lineIndex = Math.floor(lineData.lineIndex)
-          if (lineIndex <= 0) {
-            throw new Error(`voice line ${index + 1} has invalid lineIndex`)
-          }
-          if (typeof lineData.speaker !== 'string' || !lineData.speaker.trim()) {
-            throw new Error(`voice line ${index + 1} is missing valid speaker`)
-          }
-          if (typeof lineData.content !== 'string' || !lineData.content.trim()) {
-            throw new Error(`voice line ${index + 1} is missing valid content`)
-          }
-          if (typeof lineData.emotionStrength !== 'number' || !Number.isFinite(lineData.emotionStrength)) {
-            throw new Error(`voice line ${index + 1} is missing valid emotionStrength`)
-          }
+    if (panelIdByStoryboardPanel.size === 0) {
+      throw new Error('No storyboard panels found for voice matching')
+    }
 
-          const matchedPanel = lineData.matchedPanel
-          if (!matchedPanel) {
-            return {
-              lineIndex,
-              speaker: lineData.speaker.trim(),
-              content: lineData.content,
-              emotionStrength: Math.min(1, Math.max(0.1, lineData.emotionStrength)),
-              matchedPanelId: null,
-              matchedStoryboardId: null,
-              matchedPanelIndex: null,
-            }
-          }
+    const voiceLinesData = await runWorkflowTextStep(job, context, {
+      input: {
+        model: analysisModel,
+        messages: [{ role: 'user', content: promptTemplate }],
+        projectId,
+        action: 'voice_analyze',
+      },
+      meta: {
+        stepId: VOICE_ANALYZE_STEP_KEY,
+        stepAttempt: retryStepAttempt,
+        stepTitle: '台词分析',
+        stepIndex: 1,
+        stepTotal: 1,
+      },
+      maxAttempts: MAX_VOICE_ANALYZE_ATTEMPTS,
+      parse: (responseText) => toStrictVoiceLines(parseVoiceLinesJson(responseText), panelIdByStoryboardPanel),
+    })
 
-          const storyboardId = typeof matchedPanel.storyboardId === 'string' ? matchedPanel.storyboardId.trim() : ''
-          const panelIndex = typeof matchedPanel.panelIndex === 'number' && Number.isFinite(matchedPanel.panelIndex)
-            ? Math.floor(matchedPanel.panelIndex)
-            : null
-          if (!storyboardId || panelIndex === null || panelIndex < 0) {
-            throw new Error(`voice line ${index + 1} has invalid matchedPanel`)
-          }
+    await createArtifact({
+      runId,
+      stepKey: VOICE_ANALYZE_STEP_KEY,
+      artifactType: 'voice.lines',
+      refId: episodeId,
+      payload: {
+        lines: voiceLinesData,
+      },
+    })
 
-          const panelKey = `${storyboardId}:${panelIndex}`
-          const panelId = panelIdByStoryboardPanel.get(panelKey)
-          if (!panelId) {
-            throw new Error(`voice line ${index + 1} references non-existent panel ${panelKey}`)
-          }
+    await reportTaskProgress(job, 82, {
+      stage: 'voice_analyze_persist',
+      stageLabel: '保存台词分析结果',
+      displayMode: 'detail',
+    })
+    await assertRunActive('voice_analyze_persist')
 
-          return {
-            lineIndex,
-            speaker: lineData.speaker.trim(),
-            content: lineData.content,
-            emotionStrength: Math.min(1, Math.max(0.1, lineData.emotionStrength)),
-            matchedPanelId: panelId,
-            matchedStoryboardId: storyboardId,
-            matchedPanelIndex: panelIndex,
-          }
-        })
-
-        voiceLinesData = strictLines
-        break
-      } catch (error) {
-        lastAnalyzeError = error instanceof Error ? error : new Error(String(error))
+    const createdVoiceLines = await prisma.$transaction(async (tx) => {
+      const voiceLineModel = tx.novelPromotionVoiceLine as unknown as {
+        upsert?: (args: unknown) => Promise<{
+          id: string
+          speaker: string
+          matchedStoryboardId: string | null
+        }>
+        create: (args: unknown) => Promise<{
+          id: string
+          speaker: string
+          matchedStoryboardId: string | null
+        }>
+        deleteMany: (args: unknown) => Promise<unknown>
       }
-    }
-  } finally {
-    await streamCallbacks.flush()
-  }
-
-  if (!voiceLinesData) {
-    throw lastAnalyzeError || new Error('voice analyze failed')
-  }
-
-  await reportTaskProgress(job, 82, {
-    stage: 'voice_analyze_persist',
-    stageLabel: '保存台词分析结果',
-    displayMode: 'detail',
-  })
-  await assertTaskActive(job, 'voice_analyze_persist')
-
-  const createdVoiceLines = await prisma.$transaction(async (tx) => {
-    const voiceLineModel = tx.novelPromotionVoiceLine as unknown as {
-      upsert?: (args: unknown) => Promise<{
-        id: string
-        speaker: string
-        matchedStoryboardId: string | null
-      }>
-      create: (args: unknown) => Promise<{
+      const created: Array<{
         id: string
         speaker: string
         matchedStoryboardId: string | null
-      }>
-      deleteMany: (args: unknown) => Promise<unknown>
-    }
-    const created: Array<{
-      id: string
-      speaker: string
-      matchedStoryboardId: string | null
-    }> = []
+      }> = []
 
-    for (let i = 0; i < voiceLinesData.length; i += 1) {
-      const lineData = voiceLinesData[i]
+      for (let i = 0; i < voiceLinesData.length; i += 1) {
+        const lineData = voiceLinesData[i]
 
-      const upsertArgs = {
-        where: {
-          episodeId_lineIndex: {
+        const upsertArgs = {
+          where: {
+            episodeId_lineIndex: {
+              episodeId,
+              lineIndex: lineData.lineIndex,
+            },
+          },
+          create: {
             episodeId,
             lineIndex: lineData.lineIndex,
+            speaker: lineData.speaker,
+            content: lineData.content,
+            emotionStrength: lineData.emotionStrength,
+            matchedPanelId: lineData.matchedPanelId,
+            matchedStoryboardId: lineData.matchedStoryboardId,
+            matchedPanelIndex: lineData.matchedPanelIndex,
           },
-        },
-        create: {
-          episodeId,
-          lineIndex: lineData.lineIndex,
-          speaker: lineData.speaker,
-          content: lineData.content,
-          emotionStrength: lineData.emotionStrength,
-          matchedPanelId: lineData.matchedPanelId,
-          matchedStoryboardId: lineData.matchedStoryboardId,
-          matchedPanelIndex: lineData.matchedPanelIndex,
-        },
-        update: {
-          speaker: lineData.speaker,
-          content: lineData.content,
-          emotionStrength: lineData.emotionStrength,
-          matchedPanelId: lineData.matchedPanelId,
-          matchedStoryboardId: lineData.matchedStoryboardId,
-          matchedPanelIndex: lineData.matchedPanelIndex,
-        },
-        select: {
-          id: true,
-          speaker: true,
-          matchedStoryboardId: true,
-        },
+          update: {
+            speaker: lineData.speaker,
+            content: lineData.content,
+            emotionStrength: lineData.emotionStrength,
+            matchedPanelId: lineData.matchedPanelId,
+            matchedStoryboardId: lineData.matchedStoryboardId,
+            matchedPanelIndex: lineData.matchedPanelIndex,
+          },
+          select: {
+            id: true,
+            speaker: true,
+            matchedStoryboardId: true,
+          },
+        }
+        const voiceLine = typeof voiceLineModel.upsert === 'function'
+          ? await voiceLineModel.upsert(upsertArgs)
+          : (
+            process.env.NODE_ENV === 'test'
+              ? await voiceLineModel.create({
+                data: upsertArgs.create,
+                select: upsertArgs.select,
+              })
+              : (() => { throw new Error('novelPromotionVoiceLine.upsert unavailable') })()
+          )
+        created.push(voiceLine)
       }
-      const voiceLine = typeof voiceLineModel.upsert === 'function'
-        ? await voiceLineModel.upsert(upsertArgs)
-        : (
-          process.env.NODE_ENV === 'test'
-            ? await voiceLineModel.create({
-              data: upsertArgs.create,
-              select: upsertArgs.select,
-            })
-            : (() => { throw new Error('novelPromotionVoiceLine.upsert unavailable') })()
-        )
-      created.push(voiceLine)
-    }
 
-    const incomingLineIndexes = new Set<number>(voiceLinesData.map((item) => item.lineIndex))
-    if (incomingLineIndexes.size === 0) {
-      await voiceLineModel.deleteMany({
-        where: {
-          episodeId,
-        },
-      })
-    } else {
-      await voiceLineModel.deleteMany({
-        where: {
-          episodeId,
-          lineIndex: {
-            notIn: Array.from(incomingLineIndexes),
+      const incomingLineIndexes = new Set<number>(voiceLinesData.map((item) => item.lineIndex))
+      if (incomingLineIndexes.size === 0) {
+        await voiceLineModel.deleteMany({
+          where: {
+            episodeId,
           },
-        },
-      })
-    }
+        })
+      } else {
+        await voiceLineModel.deleteMany({
+          where: {
+            episodeId,
+            lineIndex: {
+              notIn: Array.from(incomingLineIndexes),
+            },
+          },
+        })
+      }
 
-    return created
-  })
+      return created
+    })
 
-  const speakerStats: Record<string, number> = {}
-  for (const line of createdVoiceLines) {
-    speakerStats[line.speaker] = (speakerStats[line.speaker] || 0) + 1
-  }
-  const matchedCount = createdVoiceLines.filter((line) => line.matchedStoryboardId).length
+    const speakerStats: Record<string, number> = {}
+    for (const line of createdVoiceLines) {
+      speakerStats[line.speaker] = (speakerStats[line.speaker] || 0) + 1
+    }
+    const matchedCount = createdVoiceLines.filter((line) => line.matchedStoryboardId).length
 
-  await reportTaskProgress(job, 96, {
-    stage: 'voice_analyze_persist_done',
-    stageLabel: '台词分析结果已保存',
-    displayMode: 'detail',
-  })
+    await reportTaskProgress(job, 96, {
+      stage: 'voice_analyze_persist_done',
+      stageLabel: '台词分析结果已保存',
+      displayMode: 'detail',
+    })
 
-  return {
-    episodeId,
-    count: createdVoiceLines.length,
-    matchedCount,
-    speakerStats,
-  }
+    return {
+      episodeId,
+      count: createdVoiceLines.length,
+      matchedCount,
+      speakerStats,
+    }
+  })
 }
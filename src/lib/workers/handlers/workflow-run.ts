@@ -0,0 +1,198 @@
+import type { Job } from 'bullmq'
+import { executeAiTextStep, type AiStepExecutionInput, type AiStepMeta } from '@/lib/ai-runtime'
+import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
+import { TaskTerminatedError } from '@/lib/task/errors'
+import type { TaskJobData } from '@/lib/task/types'
+import { updateTaskPayload } from '@/lib/task/service'
+import { assertWorkflowRunActive, withWorkflowRunLease } from '@/lib/run-runtime/workflow-lease'
+import { attachTaskToRun, createRun, findReusableActiveRun } from '@/lib/run-runtime/service'
+import { workflowTypeFromTaskType } from '@/lib/run-runtime/workflow'
+import { createWorkerLLMStreamCallbacks, createWorkerLLMStreamContext } from './llm-stream'
+
+type AnyObj = Record<string, unknown>
+
+export type WorkflowRetryStep = {
+  retryStepKey: string
+  retryStepAttempt: number
+}
+
+function toObject(value: unknown): AnyObj {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return value as AnyObj
+}
+
+function readTrimmed(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * 读取任务绑定的 run；升级前入队的任务 payload 中没有 runId，
+ * 此时复用已挂在该任务上的活动 run，否则新建 run 并挂到当前任务。
+ */
+export async function resolveWorkflowRunId(job: Job<TaskJobData>, payload: AnyObj): Promise<string> {
+  const runId = readTrimmed(payload.runId) || readTrimmed(toObject(payload.meta).runId)
+  if (runId) return runId
+
+  const data = job.data
+  const workflowType = workflowTypeFromTaskType(data.type)
+  const reusableRun = await findReusableActiveRun({
+    userId: data.userId,
+    projectId: data.projectId,
+    workflowType,
+    targetType: data.targetType,
+    targetId: data.targetId,
+  })
+  const run = reusableRun && reusableRun.taskId === data.taskId
+    ? reusableRun
+    : await createRun({
+      userId: data.userId,
+      projectId: data.projectId,
+      episodeId: data.episodeId || null,
+      workflowType,
+      taskType: data.type,
+      taskId: data.taskId,
+      targetType: data.targetType,
+      targetId: data.targetId,
+      input: payload,
+    })
+  await updateTaskPayload(data.taskId, {
+    ...payload,
+    runId: run.id,
+    meta: {
+      ...toObject(payload.meta),
+      runId: run.id,
+    },
+  })
+  await attachTaskToRun(run.id, data.taskId)
+  return run.id
+}
+
+export function resolveWorkflowRetryStep(payload: AnyObj): WorkflowRetryStep {
+  return {
+    retryStepKey: readTrimmed(payload.retryStepKey),
+    retryStepAttempt: typeof payload.retryStepAttempt === 'number' && Number.isFinite(payload.retryStepAttempt)
+      ? Math.max(1, Math.floor(payload.retryStepAttempt))
+      : 1,
+  }
+}
+
+/**
+ * 单任务 workflow 的公共运行上下文：lease worker id、run 存活校验，以及绑定 run 存活校验的 LLM 流回调。
+ * 需在 withWorkflowRunLease 内使用。
+ */
+export function createWorkflowRunContext(job: Job<TaskJobData>, params: {
+  runId: string
+  label: string
+}) {
+  const workerId = `${params.label}:${job.queueName}:${job.data.taskId}`
+  const assertRunActive = async (stage: string) => {
+    await assertWorkflowRunActive({
+      runId: params.runId,
+      workerId,
+      stage,
+    })
+  }
+  const streamContext = createWorkerLLMStreamContext(job, params.label)
+  const streamCallbacks = createWorkerLLMStreamCallbacks(job, streamContext, {
+    assertActive: async (stage) => {
+      await assertRunActive(stage)
+    },
+    isActive: async () => {
+      try {
+        await assertRunActive('worker_llm_stream_probe')
+        return true
+      } catch (error) {
+        if (error instanceof TaskTerminatedError) {
+          return false
+        }
+        throw error
+      }
+    },
+  })
+  return {
+    label: params.label,
+    workerId,
+    assertRunActive,
+    streamCallbacks,
+  }
+}
+
+export type WorkflowRunContext = ReturnType<typeof createWorkflowRunContext>
+
+/**
+ * 在 run lease 内执行单任务 workflow；lease 已被其他 worker 持有时不执行，返回 skipped 结果。
+ */
+export async function runWorkflowWithLease<T>(
+  job: Job<TaskJobData>,
+  params: {
+    runId: string
+    label: string
+    skipped?: AnyObj
+  },
+  run: (context: WorkflowRunContext) => Promise<T>,
+) {
+  const context = createWorkflowRunContext(job, params)
+  const leaseResult = await withWorkflowRunLease({
+    runId: params.runId,
+    userId: job.data.userId,
+    workerId: context.workerId,
+    run: async () => await run(context),
+  })
+  if (!leaseResult.claimed || !leaseResult.result) {
+    return {
+      runId: params.runId,
+      skipped: true as const,
+      ...params.skipped,
+    }
+  }
+  return leaseResult.result
+}
+
+/**
+ * 执行一个 graph step 的 LLM 调用并解析输出。
+ * 空响应、调用或解析失败时在同一 step 内重试，stepAttempt 从 meta.stepAttempt 起递增；任务终止立即抛出。
+ */
+export async function runWorkflowTextStep<T>(
+  job: Job<TaskJobData>,
+  context: WorkflowRunContext,
+  params: {
+    input: Omit<AiStepExecutionInput, 'userId' | 'meta'>
+    meta: AiStepMeta
+    maxAttempts: number
+    parse: (text: string, attempt: number) => T | Promise<T>
+  },
+): Promise<T> {
+  const baseAttempt = params.meta.stepAttempt ?? 1
+  let lastError: Error | null = null
+  try {
+    for (let attempt = 1; attempt <= params.maxAttempts; attempt += 1) {
+      try {
+        await context.assertRunActive(`${context.label}_attempt:${attempt}`)
+        const completion = await withInternalLLMStreamCallbacks(
+          context.streamCallbacks,
+          async () =>
+            await executeAiTextStep({
+              ...params.input,
+              userId: job.data.userId,
+              meta: {
+                ...params.meta,
+                stepAttempt: baseAttempt + attempt - 1,
+              },
+            }),
+        )
+        if (!completion.text || !completion.text.trim()) {
+          throw new Error('No response from AI')
+        }
+        return await params.parse(completion.text, attempt)
+      } catch (error) {
+        if (error instanceof TaskTerminatedError) {
+          throw error
+        }
+        lastError = error instanceof Error ? error : new Error(String(error))
+      }
+    }
+  } finally {
+    await context.streamCallbacks.flush()
+  }
+  throw lastError || new Error(`${params.meta.stepId} failed`)
+}
@@ -3,6 +3,7 @@ import { queueRedis } from '@/lib/redis'
 import { QUEUE_NAME } from '@/lib/task/queues'
 import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
 import { getUserWorkflowConcurrencyConfig } from '@/lib/config-service'
+import { withActivePromptTemplateOverrides } from '@/lib/prompt-overrides/runtime'
 import { reportTaskProgress, withTaskLifecycle } from './shared'
 import { withUserConcurrencyGate } from './user-concurrency-gate'
 import {
@@ -56,7 +57,10 @@ export function createImageWorker() {
         scope: 'image',
         userId: taskJob.data.userId,
         limit: workflowConcurrency.image,
-        run: async () => await processImageTask(taskJob),
+        run: async () => await withActivePromptTemplateOverrides(
+          { userId: taskJob.data.userId, projectId: taskJob.data.projectId },
+          async () => await processImageTask(taskJob),
+        ),
       })
     }),
     {
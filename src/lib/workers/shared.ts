@@ -1,19 +1,20 @@
-import { UnrecoverableError, type Job } from 'bullmq'
+import { DelayedError, UnrecoverableError, type Job } from 'bullmq'
 import { prisma } from '@/lib/prisma'
 import { createScopedLogger } from '@/lib/logging/core'
 import type { LLMStreamChunk } from '@/lib/llm-observe/types'
-import { TaskTerminatedError } from '@/lib/task/errors'
+import { TaskDeferredError, TaskTerminatedError } from '@/lib/task/errors'
 import {
   rollbackTaskBillingForTask,
   touchTaskHeartbeat,
   tryMarkTaskCompleted,
+  tryMarkTaskDeferred,
   tryMarkTaskFailed,
   tryMarkTaskProcessing,
   tryUpdateTaskProgress,
   updateTaskBillingInfo,
 } from '@/lib/task/service'
 import { publishTaskEvent, publishTaskStreamEvent } from '@/lib/task/publisher'
-import { TASK_EVENT_TYPE, TASK_SSE_EVENT_TYPE, TASK_TYPE, type SSEEvent, type TaskBillingInfo, type TaskJobData } from '@/lib/task/types'
+import { TASK_EVENT_TYPE, TASK_SSE_EVENT_TYPE, type SSEEvent, type TaskBillingInfo, type TaskJobData } from '@/lib/task/types'
 import { buildTaskProgressMessage, getTaskStageLabel } from '@/lib/task/progress-message'
 import { normalizeAnyError } from '@/lib/errors/normalize'
 import { rollbackTaskBilling, settleTaskBilling } from '@/lib/billing'
@@ -23,6 +24,15 @@ import type { NormalizedError } from '@/lib/errors/types'
 import { mapTaskSSEEventToRunEvents } from '@/lib/run-runtime/task-bridge'
 import { publishRunEvent } from '@/lib/run-runtime/publisher'
 import { RUN_EVENT_TYPE } from '@/lib/run-runtime/types'
+import { isWorkflowType } from '@/lib/workflow-engine/registry'
+import { refreshTaskBatchForTaskPayload } from '@/lib/task-batch'
+import { settleDependentTasks } from '@/lib/task/dependencies'
+import { readRetryAfterMs } from '@/lib/provider-rate-limit/errors'
+
+const RATE_LIMIT_MAX_DEFERRALS = 20
+const RATE_LIMIT_FALLBACK_DELAY_MS = 5_000
+const RATE_LIMIT_MIN_DELAY_MS = 1_000
+const RATE_LIMIT_MAX_DELAY_MS = 10 * 60_000
 
 function toObject(value: unknown): Record<string, unknown> {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
@@ -95,22 +105,12 @@ function buildWorkerLogger(data: TaskJobData, queueName: string) {
   })
 }
 
-const RUN_STREAM_REPLAY_PERSIST_TYPES = new Set<string>([
-  TASK_TYPE.STORY_TO_SCRIPT_RUN,
-  TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
-])
-
-const DIRECT_RUN_EVENT_TASK_TYPES = new Set<string>([
-  TASK_TYPE.STORY_TO_SCRIPT_RUN,
-  TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
-])
-
 function shouldPersistRunStreamReplay(taskType: string): boolean {
-  return RUN_STREAM_REPLAY_PERSIST_TYPES.has(taskType)
+  return isWorkflowType(taskType)
 }
 
 function shouldDirectPublishRunEvents(taskType: string): boolean {
-  return DIRECT_RUN_EVENT_TASK_TYPES.has(taskType)
+  return isWorkflowType(taskType)
 }
 
 async function publishMirroredRunEvents(params: {
@@ -278,6 +278,19 @@ function shouldRetryInQueue(params: {
   }
 }
 
+/**
+ * provider 限流的延迟时间：优先使用 Retry-After / 限流器给出的等待时间，否则按延迟次数指数退避
+ * 超过最大延迟次数或无法改期（无锁 token）时返回 null，回到普通重试流程
+ */
+function resolveRateLimitDeferMs(job: Job<TaskJobData>, normalizedError: NormalizedError, error: unknown): number | null {
+  if (normalizedError.code !== 'RATE_LIMIT' || !job.token) return null
+  const deferrals = job.data.rateLimitDeferrals || 0
+  if (deferrals >= RATE_LIMIT_MAX_DEFERRALS) return null
+  const suggested = readRetryAfterMs(error) ?? RATE_LIMIT_FALLBACK_DELAY_MS * Math.pow(2, Math.min(deferrals, 6))
+  const jitter = Math.floor(Math.random() * 1_000)
+  return Math.min(RATE_LIMIT_MAX_DELAY_MS, Math.max(RATE_LIMIT_MIN_DELAY_MS, suggested)) + jitter
+}
+
 function buildErrorCauseChain(input: unknown): Array<{ name: string; message: string }> {
   const chain: Array<{ name: string; message: string }> = []
   const seen = new Set<unknown>()
@@ -316,6 +329,36 @@ async function resolveProjectNameForLogging(projectId: string): Promise<void> {
   }
 }
 
+/**
+ * 子任务结束后刷新所属批量的聚合进度；失败不影响子任务本身的结果
+ */
+async function refreshOwningTaskBatch(data: TaskJobData, logger: ReturnType<typeof buildWorkerLogger>) {
+  try {
+    await refreshTaskBatchForTaskPayload(data.payload)
+  } catch (error) {
+    logger.warn({
+      action: 'worker.task_batch.refresh_failed',
+      message: 'failed to refresh task batch progress',
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * 任务进入终态后释放或级联失败依赖它的 blocked 任务；失败时由 watchdog 兜底
+ */
+async function settleTaskDependents(taskId: string, logger: ReturnType<typeof buildWorkerLogger>) {
+  try {
+    await settleDependentTasks(taskId)
+  } catch (error) {
+    logger.warn({
+      action: 'worker.task_dependencies.settle_failed',
+      message: 'failed to settle dependent tasks',
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
 export async function withTaskLifecycle(job: Job<TaskJobData>, handler: (job: Job<TaskJobData>) => Promise<Record<string, unknown> | void>) {
   const data = job.data
   const taskId = data.taskId
@@ -464,6 +507,8 @@ export async function withTaskLifecycle(job: Job<TaskJobData>, handler: (job: Jo
         }),
       },
     })
+    await refreshOwningTaskBatch(data, logger)
+    await settleTaskDependents(taskId, logger)
   } catch (error: unknown) {
     if (error instanceof TaskTerminatedError) {
       if (billingInfo?.billable) {
@@ -481,7 +526,75 @@ export async function withTaskLifecycle(job: Job<TaskJobData>, handler: (job: Jo
       throw new UnrecoverableError(`Task terminated: ${error.message}`)
     }
 
+    if (error instanceof TaskDeferredError && job.token) {
+      await job.moveToDelayed(Date.now() + error.delayMs, job.token)
+      await tryMarkTaskDeferred(taskId)
+      logger.info({
+        action: 'worker.deferred',
+        message: error.message,
+        durationMs: Date.now() - startedAt,
+        details: {
+          queue: job.queueName,
+          taskType: data.type,
+          delayMs: error.delayMs,
+          reason: error.reason,
+        },
+      })
+      await publishTaskEvent({
+        taskId,
+        projectId: data.projectId,
+        userId: data.userId,
+        type: TASK_EVENT_TYPE.CREATED,
+        taskType: data.type,
+        targetType: data.targetType,
+        targetId: data.targetId,
+        episodeId: data.episodeId || null,
+        payload: {
+          reason: error.reason,
+          retryAfterMs: error.delayMs,
+        },
+        persist: false,
+      })
+      throw new DelayedError()
+    }
+
     const normalizedError = normalizeAnyError(error, { context: 'worker' })
+    const rateLimitDeferMs = resolveRateLimitDeferMs(job, normalizedError, error)
+    if (rateLimitDeferMs !== null) {
+      const deferrals = (data.rateLimitDeferrals || 0) + 1
+      await job.updateData({ ...data, rateLimitDeferrals: deferrals })
+      await job.moveToDelayed(Date.now() + rateLimitDeferMs, job.token)
+      await tryMarkTaskDeferred(taskId)
+      logger.warn({
+        action: 'worker.rate_limit.deferred',
+        message: `provider rate limited, task deferred: ${normalizedError.message}`,
+        errorCode: normalizedError.code,
+        provider: normalizedError.provider || undefined,
+        durationMs: Date.now() - startedAt,
+        details: {
+          queue: job.queueName,
+          taskType: data.type,
+          delayMs: rateLimitDeferMs,
+          deferrals,
+        },
+      })
+      await publishTaskEvent({
+        taskId,
+        projectId: data.projectId,
+        userId: data.userId,
+        type: TASK_EVENT_TYPE.CREATED,
+        taskType: data.type,
+        targetType: data.targetType,
+        targetId: data.targetId,
+        episodeId: data.episodeId || null,
+        payload: {
+          reason: 'rate_limited',
+          retryAfterMs: rateLimitDeferMs,
+        },
+      })
+      // 不消耗 attempts：BullMQ 收到 DelayedError 后保持 moveToDelayed 的结果
+      throw new DelayedError()
+    }
     const retryDecision = shouldRetryInQueue({
       job,
       normalizedError,
@@ -635,6 +748,8 @@ export async function withTaskLifecycle(job: Job<TaskJobData>, handler: (job: Jo
         }),
       },
     })
+    await refreshOwningTaskBatch(data, logger)
+    await settleTaskDependents(taskId, logger)
 
     // Re-throw as UnrecoverableError so BullMQ records the job as failed
     // (without this, BullMQ thinks the job succeeded and never logs failure)
@@ -19,9 +19,11 @@ import {
   type LocationAsset,
   type PhotographyRule,
 } from '@/lib/storyboard-phases'
-import { getProjectModelConfig } from '@/lib/config-service'
+import { getProjectModelConfig, getUserWorkflowConcurrencyConfig } from '@/lib/config-service'
+import { withActivePromptTemplateOverrides } from '@/lib/prompt-overrides/runtime'
 import { reportTaskProgress, reportTaskStreamChunk, withTaskLifecycle } from './shared'
 import { assertTaskActive } from './utils'
+import { withUserConcurrencyGate } from './user-concurrency-gate'
 import { handleStoryToScriptTask } from './handlers/story-to-script'
 import { handleScriptToStoryboardTask } from './handlers/script-to-storyboard'
 import { handleVoiceAnalyzeTask } from './handlers/voice-analyze'
@@ -36,6 +38,8 @@ import { handleAssetHubAIModifyTask } from './handlers/asset-hub-ai-modify'
 import { handleReferenceToCharacterTask } from './handlers/reference-to-character'
 import { handleShotAITask } from './handlers/shot-ai-tasks'
 import { handleCharacterProfileTask } from './handlers/character-profile'
+import { handleAutopilotTask } from './handlers/autopilot'
+import { handlePromptOverrideCompareTask } from './handlers/prompt-override-compare'
 
 function readAssetKind(value: Record<string, unknown>): string {
   return typeof value.assetKind === 'string' ? value.assetKind : 'location'
@@ -697,6 +701,10 @@ async function processTextTask(job: Job<TaskJobData>) {
       return await handleRegenerateStoryboardTextTask(job)
     case TASK_TYPE.INSERT_PANEL:
       return await handleInsertPanelTask(job)
+    case TASK_TYPE.AUTOPILOT_RUN:
+      return await handleAutopilotTask(job)
+    case TASK_TYPE.PROMPT_OVERRIDE_COMPARE:
+      return await handlePromptOverrideCompareTask(job)
     default:
       throw new Error(`Unsupported text task type: ${job.data.type}`)
   }
@@ -705,7 +713,23 @@ async function processTextTask(job: Job<TaskJobData>) {
 export function createTextWorker() {
   return new Worker<TaskJobData>(
     QUEUE_NAME.TEXT,
-    async (job) => await withTaskLifecycle(job, processTextTask),
+    async (job) => await withTaskLifecycle(job, async (taskJob) => {
+      // autopilot 只做编排（提交子任务、轮询、写 checkpoint），不占用分析并发名额，避免阻塞它提交的 LLM 子任务
+      if (taskJob.data.type === TASK_TYPE.AUTOPILOT_RUN) {
+        return await processTextTask(taskJob)
+      }
+      const workflowConcurrency = await getUserWorkflowConcurrencyConfig(taskJob.data.userId)
+      return await withUserConcurrencyGate({
+        scope: 'analysis',
+        userId: taskJob.data.userId,
+        limit: workflowConcurrency.analysis,
+        // 用户 / 项目的提示词模板覆盖在整个任务内生效
+        run: async () => await withActivePromptTemplateOverrides(
+          { userId: taskJob.data.userId, projectId: taskJob.data.projectId },
+          async () => await processTextTask(taskJob),
+        ),
+      })
+    }),
     {
       connection: queueRedis,
       concurrency: Number.parseInt(process.env.QUEUE_CONCURRENCY_TEXT || '10', 10) || 10,
@@ -1,56 +1,120 @@
-type ConcurrencyScope = 'image' | 'video'
+import { randomUUID } from 'node:crypto'
+import { createScopedLogger } from '@/lib/logging/core'
+import { redis } from '@/lib/redis'
 
-interface GateState {
-  active: number
-  waitingResolvers: Array<() => void>
-}
+/**
+ * 用户级并发闸门 — 基于 Redis 的分布式信号量
+ *
+ * 每个 (scope, userId) 对应一个有序集合：member 为租约 ID，score 为租约到期时间。
+ * 运行中定期续约；worker 崩溃后租约自然过期，槽位不会泄漏。
+ * 多个 worker 进程 / 容器共享同一份计数，UserPreference 中的并发上限按用户全局生效。
+ */
+
+export type ConcurrencyScope = 'analysis' | 'image' | 'video'
+
+export const CONCURRENCY_SCOPES: readonly ConcurrencyScope[] = ['analysis', 'image', 'video']
+
+const LEASE_MS = Number.parseInt(process.env.USER_CONCURRENCY_LEASE_MS || '60000', 10) || 60_000
+const RENEW_INTERVAL_MS = Math.max(1_000, Math.floor(LEASE_MS / 3))
+const POLL_MIN_MS = 200
+const POLL_MAX_MS = 2_000
+
+const logger = createScopedLogger({
+  module: 'worker.concurrency-gate',
+})
 
-const gateStateMap = new Map<string, GateState>()
+// 清理过期租约后，未满则占用一个槽位
+const ACQUIRE_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local leaseMs = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local member = ARGV[4]
 
-function getGateState(key: string): GateState {
-  const existing = gateStateMap.get(key)
-  if (existing) return existing
-  const created: GateState = { active: 0, waitingResolvers: [] }
-  gateStateMap.set(key, created)
-  return created
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now)
+if redis.call('ZCARD', key) < limit then
+  redis.call('ZADD', key, now + leaseMs, member)
+  redis.call('PEXPIRE', key, leaseMs)
+  return 1
+end
+return 0
+`
+
+// 仅续约仍存在的租约，已过期被清理的租约不再复活
+const RENEW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local leaseMs = tonumber(ARGV[2])
+local member = ARGV[3]
+
+if redis.call('ZSCORE', key, member) then
+  redis.call('ZADD', key, now + leaseMs, member)
+  redis.call('PEXPIRE', key, leaseMs)
+  return 1
+end
+return 0
+`
+
+function gateKey(scope: ConcurrencyScope, userId: string) {
+  return `concurrency:${scope}:${userId}`
 }
 
-function cleanupGateStateIfIdle(key: string) {
-  const state = gateStateMap.get(key)
-  if (!state) return
-  if (state.active === 0 && state.waitingResolvers.length === 0) {
-    gateStateMap.delete(key)
-  }
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms))
 }
 
-async function acquireSlot(key: string, limit: number): Promise<void> {
+async function tryAcquire(key: string, limit: number, leaseId: string): Promise<boolean> {
+  const result = await redis.eval(ACQUIRE_SCRIPT, 1, key, Date.now(), LEASE_MS, limit, leaseId)
+  return Number(result) === 1
+}
+
+async function acquireSlot(key: string, limit: number, leaseId: string): Promise<void> {
   if (!Number.isInteger(limit) || limit <= 0) {
     throw new Error(`WORKFLOW_CONCURRENCY_INVALID: ${limit}`)
   }
 
-  const state = getGateState(key)
-  if (state.active < limit) {
-    state.active += 1
-    return
+  let waitMs = POLL_MIN_MS
+  while (!(await tryAcquire(key, limit, leaseId))) {
+    // 带抖动的退避轮询，避免多个等待者同时争抢
+    await sleep(waitMs + Math.floor(Math.random() * POLL_MIN_MS))
+    waitMs = Math.min(POLL_MAX_MS, waitMs * 2)
   }
-
-  await new Promise<void>((resolve) => {
-    state.waitingResolvers.push(resolve)
-  })
 }
 
-function releaseSlot(key: string) {
-  const state = gateStateMap.get(key)
-  if (!state) return
+function startLeaseRenewal(key: string, leaseId: string) {
+  const timer = setInterval(() => {
+    void redis.eval(RENEW_SCRIPT, 1, key, Date.now(), LEASE_MS, leaseId)
+      .then((result) => {
+        if (Number(result) === 1) return
+        logger.warn({
+          action: 'worker.concurrency_gate.lease_lost',
+          message: 'concurrency lease expired before renewal',
+          details: { key },
+        })
+      })
+      .catch((error: unknown) => {
+        logger.warn({
+          action: 'worker.concurrency_gate.renew_failed',
+          message: error instanceof Error ? error.message : String(error),
+          details: { key },
+        })
+      })
+  }, RENEW_INTERVAL_MS)
+  timer.unref?.()
+  return timer
+}
 
-  if (state.waitingResolvers.length > 0) {
-    const nextResolver = state.waitingResolvers.shift()
-    nextResolver?.()
-    return
+async function releaseSlot(key: string, leaseId: string) {
+  try {
+    await redis.zrem(key, leaseId)
+  } catch (error) {
+    // 释放失败时依赖租约过期回收
+    logger.warn({
+      action: 'worker.concurrency_gate.release_failed',
+      message: error instanceof Error ? error.message : String(error),
+      details: { key },
+    })
   }
-
-  state.active = Math.max(0, state.active - 1)
-  cleanupGateStateIfIdle(key)
 }
 
 export async function withUserConcurrencyGate<T>(input: {
@@ -59,11 +123,29 @@ export async function withUserConcurrencyGate<T>(input: {
   limit: number
   run: () => Promise<T>
 }): Promise<T> {
-  const key = `${input.scope}:${input.userId}`
-  await acquireSlot(key, input.limit)
+  const key = gateKey(input.scope, input.userId)
+  const leaseId = randomUUID()
+  await acquireSlot(key, input.limit, leaseId)
+  const renewal = startLeaseRenewal(key, leaseId)
   try {
     return await input.run()
   } finally {
-    releaseSlot(key)
+    clearInterval(renewal)
+    await releaseSlot(key, leaseId)
+  }
+}
+
+/**
+ * 用户各流程当前占用的槽位数（不含已过期租约）
+ */
+export async function getUserConcurrencyUsage(userId: string): Promise<Record<ConcurrencyScope, number>> {
+  const now = Date.now()
+  const counts = await Promise.all(
+    CONCURRENCY_SCOPES.map(async (scope) => await redis.zcount(gateKey(scope, userId), `(${now}`, '+inf')),
+  )
+  return {
+    analysis: counts[0] ?? 0,
+    image: counts[1] ?? 0,
+    video: counts[2] ?? 0,
   }
 }
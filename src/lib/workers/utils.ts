@@ -2,7 +2,8 @@ import sharp from 'sharp'
 import { type Job } from 'bullmq'
 import { createScopedLogger } from '@/lib/logging/core'
 import { withLogContext } from '@/lib/logging/context'
-import { generateImage, generateVideo } from '@/lib/generator-api'
+import { generateImage, generateVideo, supportsImageSeed } from '@/lib/generator-api'
+import { createImageSeed, isImageSeed } from '@/lib/image-generation/seed'
 import { generateLipSync } from '@/lib/lipsync'
 import { pollAsyncTask } from '@/lib/async-poll'
 import { getSignedUrl, toFetchableUrl } from '@/lib/storage'
@@ -165,6 +166,23 @@ export async function waitExternalResult(
   throw new Error(`External task polling timeout (${Math.round(timeoutMs / 1000)}s): ${externalId}`)
 }
 
+/**
+ * 为每张候选图分配种子：模型不支持 seed 时全部为 null；
+ * 传入 requestedSeed（同种子重绘）时第一张沿用该种子，其余随机
+ */
+export async function planCandidateSeeds(params: {
+  userId: string
+  modelKey: string
+  count: number
+  requestedSeed?: unknown
+}): Promise<Array<number | null>> {
+  const supported = await supportsImageSeed(params.userId, params.modelKey)
+  return Array.from({ length: params.count }, (_, index) => {
+    if (!supported) return null
+    return index === 0 && isImageSeed(params.requestedSeed) ? params.requestedSeed : createImageSeed()
+  })
+}
+
 export async function resolveImageSourceFromGeneration(
   job: Job<TaskJobData>,
   params: {
@@ -177,6 +195,8 @@ export async function resolveImageSourceFromGeneration(
       resolution?: string
       size?: string
       provider?: string
+      seed?: number
+      maskImage?: string
     }
     allowTaskExternalIdResume?: boolean
     pollProgress?: { start?: number; end?: number }
@@ -303,6 +323,7 @@ export async function resolveImageSourcesFromGeneration(
       resolution?: string
       size?: string
       provider?: string
+      seed?: number
     }
     allowTaskExternalIdResume?: boolean
     pollProgress?: { start?: number; end?: number }
@@ -609,6 +630,15 @@ export async function resolveLipSyncVideoSource(
   return polled.url
 }
 
+/**
+ * 资产图顶部黑边标签栏的高度（与 withLabelBar 的排版一致）
+ */
+export function resolveLabelBarHeight(imageHeight: number): number {
+  const fontSize = Math.floor(imageHeight * 0.04)
+  const pad = Math.floor(fontSize * 0.5)
+  return fontSize + pad * 2
+}
+
 /**
  * 裁掉图片顶部的黑边标签区域，返回纯净内容的 base64 data URL
  * 用于改图前去除旧黑边，避免 AI 参考图携带黑边导致叠加
@@ -622,9 +652,7 @@ export async function stripLabelBar(imageSource: string): Promise<string> {
   const meta = await sharp(raw).metadata()
   const w = meta.width || 2160
   const h = meta.height || 2160
-  const fontSize = Math.floor(h * 0.04)
-  const pad = Math.floor(fontSize * 0.5)
-  const barH = fontSize + pad * 2
+  const barH = resolveLabelBarHeight(h)
 
   const cropped = await sharp(raw)
     .extract({ left: 0, top: barH, width: w, height: h - barH })
@@ -658,12 +686,18 @@ export async function withLabelBar(imageSource: string, labelText: string): Prom
     .toBuffer()
 }
 
-export async function uploadImageSourceToCos(source: string | Buffer, keyPrefix: string, targetId: string) {
+export async function uploadImageSourceToCos(
+  source: string | Buffer,
+  keyPrefix: string,
+  targetId: string,
+  ownerUserId: string,
+) {
   return await processMediaResult({
     source,
     type: 'image',
     keyPrefix,
     targetId,
+    ownerUserId,
   })
 }
 
@@ -671,6 +705,7 @@ export async function uploadVideoSourceToCos(
   source: string | Buffer,
   keyPrefix: string,
   targetId: string,
+  ownerUserId: string,
   downloadHeaders?: Record<string, string>,
 ) {
   return await processMediaResult({
@@ -678,16 +713,23 @@ export async function uploadVideoSourceToCos(
     type: 'video',
     keyPrefix,
     targetId,
+    ownerUserId,
     downloadHeaders,
   })
 }
 
-export async function uploadAudioSourceToCos(source: string | Buffer, keyPrefix: string, targetId: string) {
+export async function uploadAudioSourceToCos(
+  source: string | Buffer,
+  keyPrefix: string,
+  targetId: string,
+  ownerUserId: string,
+) {
   return await processMediaResult({
     source,
     type: 'audio',
     keyPrefix,
     targetId,
+    ownerUserId,
   })
 }
 
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma'
 import { queueRedis } from '@/lib/redis'
 import { QUEUE_NAME } from '@/lib/task/queues'
 import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
+import { readUpstreamMediaUrl } from '@/lib/task/dependencies'
 import { getUserWorkflowConcurrencyConfig } from '@/lib/config-service'
 import { reportTaskProgress, withTaskLifecycle } from './shared'
 import { withUserConcurrencyGate } from './user-concurrency-gate'
@@ -18,6 +19,7 @@ import { normalizeToBase64ForGeneration } from '@/lib/media/outbound-image'
 import { resolveBuiltinCapabilitiesByModelKey } from '@/lib/model-capabilities/lookup'
 import { parseModelKeyStrict } from '@/lib/model-config-contract'
 import { getProviderConfig } from '@/lib/api-config'
+import { handleVideoRenderTask } from './handlers/video-render-task-handler'
 
 type AnyObj = Record<string, unknown>
 type VideoOptionValue = string | number | boolean
@@ -85,7 +87,9 @@ async function generateVideoForPanel(
   projectVideoRatio: string | null | undefined,
   generationOptions: VideoOptionMap,
 ): Promise<{ cosKey: string; generationMode: VideoGenerationMode; actualVideoTokens?: number }> {
-  if (!panel.imageUrl) {
+  // 依赖链中优先使用上游分镜图任务的产物（重新生成时新图只在候选中）
+  const panelImageUrl = readUpstreamMediaUrl(payload, 'imageUrl') || panel.imageUrl
+  if (!panelImageUrl) {
     throw new Error(`Panel ${panel.id} has no imageUrl`)
   }
 
@@ -101,7 +105,7 @@ async function generateVideoForPanel(
     throw new Error(`Panel ${panel.id} has no video prompt`)
   }
 
-  const sourceImageUrl = toSignedUrlIfCos(panel.imageUrl, 3600)
+  const sourceImageUrl = toSignedUrlIfCos(panelImageUrl, 3600)
   if (!sourceImageUrl) {
     throw new Error(`Panel ${panel.id} image url invalid`)
   }
@@ -170,7 +174,7 @@ async function generateVideoForPanel(
     }
   }
 
-  const cosKey = await uploadVideoSourceToCos(videoSource, 'panel-video', panel.id, downloadHeaders)
+  const cosKey = await uploadVideoSourceToCos(videoSource, 'panel-video', panel.id, job.data.userId, downloadHeaders)
   return {
     cosKey,
     generationMode,
@@ -242,7 +246,8 @@ async function handleLipSyncTask(job: Job<TaskJobData>) {
   }
 
   if (!panel) throw new Error('Lip-sync panel not found')
-  if (!panel.videoUrl) throw new Error('Panel has no base video')
+  const baseVideoUrl = readUpstreamMediaUrl(payload, 'videoUrl') || panel.videoUrl
+  if (!baseVideoUrl) throw new Error('Panel has no base video')
 
   const voiceLineId = typeof payload.voiceLineId === 'string' ? payload.voiceLineId : null
   if (!voiceLineId) throw new Error('Lip-sync task missing voiceLineId')
@@ -252,7 +257,7 @@ async function handleLipSyncTask(job: Job<TaskJobData>) {
     throw new Error('Voice line or audioUrl not found')
   }
 
-  const signedVideoUrl = toSignedUrlIfCos(panel.videoUrl, 7200)
+  const signedVideoUrl = toSignedUrlIfCos(baseVideoUrl, 7200)
   const signedAudioUrl = toSignedUrlIfCos(voiceLine.audioUrl, 7200)
 
   if (!signedVideoUrl || !signedAudioUrl) {
@@ -272,7 +277,7 @@ async function handleLipSyncTask(job: Job<TaskJobData>) {
 
   await reportTaskProgress(job, 93, { stage: 'persist_lip_sync' })
 
-  const cosKey = await uploadVideoSourceToCos(source, 'lip-sync', panel.id)
+  const cosKey = await uploadVideoSourceToCos(source, 'lip-sync', panel.id, job.data.userId)
 
   await assertTaskActive(job, 'persist_lip_sync_video')
   await prisma.novelPromotionPanel.update({
@@ -298,6 +303,8 @@ async function processVideoTask(job: Job<TaskJobData>) {
       return await handleVideoPanelTask(job)
     case TASK_TYPE.LIP_SYNC:
       return await handleLipSyncTask(job)
+    case TASK_TYPE.VIDEO_RENDER:
+      return await handleVideoRenderTask(job)
     default:
       throw new Error(`Unsupported video task type: ${job.data.type}`)
   }
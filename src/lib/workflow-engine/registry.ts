@@ -1,3 +1,4 @@
+import { AUTOPILOT_STAGES } from '@/lib/autopilot/types'
 import { TASK_TYPE } from '@/lib/task/types'
 
 export type WorkflowFailureMode = 'fail_run'
@@ -8,6 +9,11 @@ export type WorkflowStepDefinition = {
   retryable: boolean
   artifactTypes: string[]
   failureMode: WorkflowFailureMode
+  // 允许人工覆盖产物并从该步骤之后续跑；返回错误码表示覆盖内容不合法
+  validateOutputOverride?: (params: {
+    artifactType: string
+    payload: Record<string, unknown>
+  }) => string | null
 }
 
 export type WorkflowDefinition = {
@@ -95,6 +101,60 @@ function resolveScriptToStoryboardInvalidation(params: {
   return uniqueStepKeys(Array.from(affected).filter((stepKey) => params.existingStepKeys.has(stepKey)))
 }
 
+const ANALYZE_GLOBAL_CHUNK_STEP_PATTERN = /^analyze_global_(?:chunk|characters|locations|props)_(\d+)$/
+
+export function parseAnalyzeGlobalChunkIndex(stepKey: string): number | null {
+  const match = ANALYZE_GLOBAL_CHUNK_STEP_PATTERN.exec(stepKey.trim())
+  if (!match) return null
+  const chunkIndex = Number.parseInt(match[1] || '', 10)
+  return Number.isFinite(chunkIndex) && chunkIndex > 0 ? chunkIndex : null
+}
+
+// 切片按顺序累积已有资产，重试第 N 片时从第 N 片续跑，之后的切片全部作废
+function resolveAnalyzeGlobalInvalidation(params: {
+  stepKey: string
+  existingStepKeys: ReadonlySet<string>
+}): string[] {
+  const affected = new Set<string>([params.stepKey])
+  const chunkIndex = parseAnalyzeGlobalChunkIndex(params.stepKey)
+  if (chunkIndex === null) {
+    return uniqueStepKeys(affected)
+  }
+  for (const stepKey of params.existingStepKeys) {
+    const existingIndex = parseAnalyzeGlobalChunkIndex(stepKey)
+    if (existingIndex !== null && existingIndex >= chunkIndex) {
+      affected.add(stepKey)
+    }
+  }
+  return uniqueStepKeys(affected)
+}
+
+function resolveSingleStepInvalidation(params: {
+  stepKey: string
+  existingStepKeys: ReadonlySet<string>
+}): string[] {
+  return uniqueStepKeys([params.stepKey])
+}
+
+function validateSplitClipsOverride(params: {
+  artifactType: string
+  payload: Record<string, unknown>
+}): string | null {
+  if (params.artifactType !== 'clips.split') return 'RUN_STEP_OVERRIDE_ARTIFACT_UNSUPPORTED'
+  const clipList = params.payload.clipList
+  if (!Array.isArray(clipList) || clipList.length === 0) return 'RUN_STEP_OVERRIDE_CLIPS_EMPTY'
+  const clipIds = new Set<string>()
+  for (const clip of clipList) {
+    if (!clip || typeof clip !== 'object' || Array.isArray(clip)) return 'RUN_STEP_OVERRIDE_CLIP_INVALID'
+    const record = clip as Record<string, unknown>
+    const clipId = typeof record.id === 'string' ? record.id.trim() : ''
+    const content = typeof record.content === 'string' ? record.content.trim() : ''
+    if (!clipId || !content || clipIds.has(clipId)) return 'RUN_STEP_OVERRIDE_CLIP_INVALID'
+    clipIds.add(clipId)
+  }
+  return null
+}
+
 const STORY_TO_SCRIPT_DEFINITION: WorkflowDefinition = {
   workflowType: TASK_TYPE.STORY_TO_SCRIPT_RUN,
   orderedSteps: [
@@ -125,6 +185,7 @@ const STORY_TO_SCRIPT_DEFINITION: WorkflowDefinition = {
       retryable: true,
       artifactTypes: ['clips.split'],
       failureMode: 'fail_run',
+      validateOutputOverride: validateSplitClipsOverride,
     },
     {
       key: 'screenplay_convert',
@@ -189,15 +250,152 @@ const SCRIPT_TO_STORYBOARD_DEFINITION: WorkflowDefinition = {
   }),
 }
 
+const ANALYZE_GLOBAL_DEFINITION: WorkflowDefinition = {
+  workflowType: TASK_TYPE.ANALYZE_GLOBAL,
+  orderedSteps: [
+    {
+      key: 'analyze_global_chunk',
+      dependsOn: [],
+      retryable: true,
+      artifactTypes: ['analysis.global.chunk'],
+      failureMode: 'fail_run',
+    },
+  ],
+  resolveRetryInvalidationStepKeys: ({ stepKey, existingStepKeys }) => resolveAnalyzeGlobalInvalidation({
+    stepKey,
+    existingStepKeys: new Set(existingStepKeys),
+  }),
+}
+
+const EPISODE_SPLIT_DEFINITION: WorkflowDefinition = {
+  workflowType: TASK_TYPE.EPISODE_SPLIT_LLM,
+  orderedSteps: [
+    {
+      key: 'episode_split',
+      dependsOn: [],
+      retryable: true,
+      artifactTypes: ['episodes.split'],
+      failureMode: 'fail_run',
+    },
+  ],
+  resolveRetryInvalidationStepKeys: ({ stepKey, existingStepKeys }) => resolveSingleStepInvalidation({
+    stepKey,
+    existingStepKeys: new Set(existingStepKeys),
+  }),
+}
+
+const SCREENPLAY_CONVERT_DEFINITION: WorkflowDefinition = {
+  workflowType: TASK_TYPE.SCREENPLAY_CONVERT,
+  orderedSteps: [
+    {
+      key: 'screenplay_convert',
+      dependsOn: [],
+      retryable: true,
+      artifactTypes: ['screenplay.clip'],
+      failureMode: 'fail_run',
+    },
+  ],
+  resolveRetryInvalidationStepKeys: ({ stepKey, existingStepKeys }) => resolveSingleStepInvalidation({
+    stepKey,
+    existingStepKeys: new Set(existingStepKeys),
+  }),
+}
+
+const CLIPS_BUILD_DEFINITION: WorkflowDefinition = {
+  workflowType: TASK_TYPE.CLIPS_BUILD,
+  orderedSteps: [
+    {
+      key: 'split_clips',
+      dependsOn: [],
+      retryable: true,
+      artifactTypes: ['clips.build'],
+      failureMode: 'fail_run',
+    },
+    {
+      key: 'persist_clips',
+      dependsOn: ['split_clips'],
+      retryable: false,
+      artifactTypes: [],
+      failureMode: 'fail_run',
+    },
+  ],
+  resolveRetryInvalidationStepKeys: ({ stepKey, existingStepKeys }) => resolveSingleStepInvalidation({
+    stepKey,
+    existingStepKeys: new Set(existingStepKeys),
+  }),
+}
+
+const VOICE_ANALYZE_DEFINITION: WorkflowDefinition = {
+  workflowType: TASK_TYPE.VOICE_ANALYZE,
+  orderedSteps: [
+    {
+      key: 'voice_analyze',
+      dependsOn: [],
+      retryable: true,
+      artifactTypes: ['voice.lines'],
+      failureMode: 'fail_run',
+    },
+    {
+      key: 'persist_voice_lines',
+      dependsOn: ['voice_analyze'],
+      retryable: false,
+      artifactTypes: [],
+      failureMode: 'fail_run',
+    },
+  ],
+  resolveRetryInvalidationStepKeys: ({ stepKey, existingStepKeys }) => resolveSingleStepInvalidation({
+    stepKey,
+    existingStepKeys: new Set(existingStepKeys),
+  }),
+}
+
+// autopilot 阶段严格串行：重试某阶段时，其后所有已出现的阶段都需要重跑
+function resolveAutopilotInvalidation(params: {
+  stepKey: string
+  existingStepKeys: ReadonlySet<string>
+}): string[] {
+  const index = AUTOPILOT_STAGES.indexOf(params.stepKey as (typeof AUTOPILOT_STAGES)[number])
+  if (index < 0) return uniqueStepKeys([params.stepKey])
+  const affected = AUTOPILOT_STAGES
+    .slice(index + 1)
+    .filter((stepKey) => params.existingStepKeys.has(stepKey))
+  return uniqueStepKeys([params.stepKey, ...affected])
+}
+
+const AUTOPILOT_DEFINITION: WorkflowDefinition = {
+  workflowType: TASK_TYPE.AUTOPILOT_RUN,
+  orderedSteps: AUTOPILOT_STAGES.map((stage, index) => ({
+    key: stage,
+    dependsOn: index > 0 ? [AUTOPILOT_STAGES[index - 1]] : [],
+    retryable: true,
+    artifactTypes: [],
+    failureMode: 'fail_run' as const,
+  })),
+  resolveRetryInvalidationStepKeys: ({ stepKey, existingStepKeys }) => resolveAutopilotInvalidation({
+    stepKey,
+    existingStepKeys: new Set(existingStepKeys),
+  }),
+}
+
 const WORKFLOW_DEFINITIONS: Record<string, WorkflowDefinition> = {
   [STORY_TO_SCRIPT_DEFINITION.workflowType]: STORY_TO_SCRIPT_DEFINITION,
   [SCRIPT_TO_STORYBOARD_DEFINITION.workflowType]: SCRIPT_TO_STORYBOARD_DEFINITION,
+  [ANALYZE_GLOBAL_DEFINITION.workflowType]: ANALYZE_GLOBAL_DEFINITION,
+  [EPISODE_SPLIT_DEFINITION.workflowType]: EPISODE_SPLIT_DEFINITION,
+  [SCREENPLAY_CONVERT_DEFINITION.workflowType]: SCREENPLAY_CONVERT_DEFINITION,
+  [CLIPS_BUILD_DEFINITION.workflowType]: CLIPS_BUILD_DEFINITION,
+  [VOICE_ANALYZE_DEFINITION.workflowType]: VOICE_ANALYZE_DEFINITION,
+  [AUTOPILOT_DEFINITION.workflowType]: AUTOPILOT_DEFINITION,
 }
 
 export function getWorkflowDefinition(workflowType: string): WorkflowDefinition | null {
   return WORKFLOW_DEFINITIONS[workflowType] || null
 }
 
+export function isWorkflowType(workflowType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(WORKFLOW_DEFINITIONS, workflowType)
+}
+
 export function resolveWorkflowRetryInvalidationStepKeys(params: {
   workflowType: string
   stepKey: string
@@ -212,3 +410,13 @@ export function resolveWorkflowRetryInvalidationStepKeys(params: {
     existingStepKeys: params.existingStepKeys,
   })
 }
+
+export function getWorkflowOverridableStep(params: {
+  workflowType: string
+  stepKey: string
+}): WorkflowStepDefinition | null {
+  const definition = getWorkflowDefinition(params.workflowType)
+  if (!definition) return null
+  const step = definition.orderedSteps.find((item) => item.key === params.stepKey)
+  return step && step.validateOutputOverride ? step : null
+}
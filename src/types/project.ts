@@ -176,6 +176,7 @@ export interface NovelPromotionPanel {
   duration: number | null
   imagePrompt: string | null
   imageUrl: string | null
+  imageSeed?: number | null  // 当前图片的生成种子（用于同种子重绘）
   candidateImages?: string | null
   media?: MediaRef | null
   imageHistory: string | null
@@ -254,6 +255,7 @@ export interface NovelPromotionProject {
   videoRatio: string
   capabilityOverrides?: CapabilitySelections | string | null
   ttsRate: string
+  llmCacheEnabled?: boolean
   workflowMode: WorkflowMode  // 新增：工作流模式
   artStyle: string
   artStylePrompt: string | null
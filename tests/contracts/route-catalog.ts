@@ -28,25 +28,35 @@ export type RouteCatalogEntry = {
 
 const ROUTE_FILES = [
   'src/app/api/admin/download-logs/route.ts',
+  'src/app/api/admin/media-gc/report/route.ts',
+  'src/app/api/admin/media-gc/stats/route.ts',
   'src/app/api/asset-hub/ai-design-character/route.ts',
   'src/app/api/asset-hub/ai-design-location/route.ts',
   'src/app/api/asset-hub/ai-modify-character/route.ts',
   'src/app/api/asset-hub/ai-modify-location/route.ts',
   'src/app/api/asset-hub/ai-modify-prop/route.ts',
   'src/app/api/asset-hub/appearances/route.ts',
+  'src/app/api/asset-hub/art-styles/[styleId]/reference-images/route.ts',
+  'src/app/api/asset-hub/art-styles/[styleId]/route.ts',
+  'src/app/api/asset-hub/art-styles/route.ts',
   'src/app/api/asset-hub/character-voice/route.ts',
   'src/app/api/asset-hub/characters/[characterId]/appearances/[appearanceIndex]/route.ts',
   'src/app/api/asset-hub/characters/[characterId]/route.ts',
   'src/app/api/asset-hub/characters/route.ts',
+  'src/app/api/asset-hub/folders/[folderId]/export/route.ts',
   'src/app/api/asset-hub/folders/[folderId]/route.ts',
   'src/app/api/asset-hub/folders/route.ts',
   'src/app/api/asset-hub/generate-image/route.ts',
+  'src/app/api/asset-hub/import/route.ts',
   'src/app/api/asset-hub/locations/[locationId]/route.ts',
   'src/app/api/asset-hub/locations/route.ts',
   'src/app/api/asset-hub/modify-image/route.ts',
   'src/app/api/asset-hub/picker/route.ts',
   'src/app/api/asset-hub/reference-to-character/route.ts',
   'src/app/api/asset-hub/select-image/route.ts',
+  'src/app/api/asset-hub/shared/[folderId]/copy/route.ts',
+  'src/app/api/asset-hub/shared/[folderId]/route.ts',
+  'src/app/api/asset-hub/shared/route.ts',
   'src/app/api/asset-hub/undo-image/route.ts',
   'src/app/api/asset-hub/update-asset-label/route.ts',
   'src/app/api/asset-hub/upload-image/route.ts',
@@ -79,6 +89,9 @@ const ROUTE_FILES = [
   'src/app/api/novel-promotion/[projectId]/analyze-shot-variants/route.ts',
   'src/app/api/novel-promotion/[projectId]/analyze/route.ts',
   'src/app/api/novel-promotion/[projectId]/assets/route.ts',
+  'src/app/api/novel-promotion/[projectId]/autopilot/approve/route.ts',
+  'src/app/api/novel-promotion/[projectId]/autopilot/cancel/route.ts',
+  'src/app/api/novel-promotion/[projectId]/autopilot/route.ts',
   'src/app/api/novel-promotion/[projectId]/character-profile/batch-confirm/route.ts',
   'src/app/api/novel-promotion/[projectId]/character-profile/confirm/route.ts',
   'src/app/api/novel-promotion/[projectId]/character-voice/route.ts',
@@ -90,8 +103,11 @@ const ROUTE_FILES = [
   'src/app/api/novel-promotion/[projectId]/clips/route.ts',
   'src/app/api/novel-promotion/[projectId]/copy-from-global/route.ts',
   'src/app/api/novel-promotion/[projectId]/download-images/route.ts',
+  'src/app/api/novel-promotion/[projectId]/download-subtitles/route.ts',
   'src/app/api/novel-promotion/[projectId]/download-videos/route.ts',
   'src/app/api/novel-promotion/[projectId]/download-voices/route.ts',
+  'src/app/api/novel-promotion/[projectId]/editor/assemble/route.ts',
+  'src/app/api/novel-promotion/[projectId]/editor/render/route.ts',
   'src/app/api/novel-promotion/[projectId]/editor/route.ts',
   'src/app/api/novel-promotion/[projectId]/episodes/[episodeId]/route.ts',
   'src/app/api/novel-promotion/[projectId]/episodes/batch/route.ts',
@@ -111,7 +127,9 @@ const ROUTE_FILES = [
   'src/app/api/novel-promotion/[projectId]/panel-variant/route.ts',
   'src/app/api/novel-promotion/[projectId]/panel/route.ts',
   'src/app/api/novel-promotion/[projectId]/panel/select-candidate/route.ts',
+  'src/app/api/novel-promotion/[projectId]/panel/sketch/route.ts',
   'src/app/api/novel-promotion/[projectId]/photography-plan/route.ts',
+  'src/app/api/novel-promotion/[projectId]/prompt-compare/route.ts',
   'src/app/api/novel-promotion/[projectId]/reference-to-character/route.ts',
   'src/app/api/novel-promotion/[projectId]/regenerate-group/route.ts',
   'src/app/api/novel-promotion/[projectId]/regenerate-panel-image/route.ts',
@@ -126,6 +144,11 @@ const ROUTE_FILES = [
   'src/app/api/novel-promotion/[projectId]/story-to-script-stream/route.ts',
   'src/app/api/novel-promotion/[projectId]/storyboard-group/route.ts',
   'src/app/api/novel-promotion/[projectId]/storyboards/route.ts',
+  'src/app/api/novel-promotion/[projectId]/task-batches/[batchId]/cancel/route.ts',
+  'src/app/api/novel-promotion/[projectId]/task-batches/[batchId]/retry-failed/route.ts',
+  'src/app/api/novel-promotion/[projectId]/task-batches/[batchId]/route.ts',
+  'src/app/api/novel-promotion/[projectId]/task-batches/quote/route.ts',
+  'src/app/api/novel-promotion/[projectId]/task-batches/route.ts',
   'src/app/api/novel-promotion/[projectId]/undo-regenerate/route.ts',
   'src/app/api/novel-promotion/[projectId]/update-appearance/route.ts',
   'src/app/api/novel-promotion/[projectId]/update-asset-label/route.ts',
@@ -139,19 +162,25 @@ const ROUTE_FILES = [
   'src/app/api/novel-promotion/[projectId]/voice-generate/route.ts',
   'src/app/api/novel-promotion/[projectId]/voice-lines/route.ts',
   'src/app/api/projects/[projectId]/assets/route.ts',
+  'src/app/api/projects/[projectId]/budget/route.ts',
   'src/app/api/projects/[projectId]/costs/route.ts',
   'src/app/api/projects/[projectId]/data/route.ts',
+  'src/app/api/projects/[projectId]/export/route.ts',
   'src/app/api/projects/[projectId]/route.ts',
+  'src/app/api/projects/import/route.ts',
   'src/app/api/projects/route.ts',
   'src/app/api/runs/[runId]/cancel/route.ts',
   'src/app/api/runs/[runId]/events/route.ts',
   'src/app/api/runs/[runId]/route.ts',
   'src/app/api/runs/[runId]/steps/[stepKey]/retry/route.ts',
+  'src/app/api/runs/[runId]/steps/[stepKey]/route.ts',
   'src/app/api/runs/route.ts',
   'src/app/api/sse/route.ts',
   'src/app/api/system/boot-id/route.ts',
   'src/app/api/task-target-states/route.ts',
   'src/app/api/tasks/[taskId]/route.ts',
+  'src/app/api/tasks/[taskId]/run-now/route.ts',
+  'src/app/api/tasks/concurrency/route.ts',
   'src/app/api/tasks/dismiss/route.ts',
   'src/app/api/tasks/route.ts',
   'src/app/api/user-preference/route.ts',
@@ -167,6 +196,8 @@ const ROUTE_FILES = [
   'src/app/api/user/costs/route.ts',
   'src/app/api/user/ai-story-expand/route.ts',
   'src/app/api/user/models/route.ts',
+  'src/app/api/user/prompt-templates/[promptId]/route.ts',
+  'src/app/api/user/prompt-templates/route.ts',
   'src/app/api/user/transactions/route.ts',
 ] as const
 
@@ -212,9 +243,12 @@ function resolveContractGroup(routeFile: string): RouteContractGroup {
     || routeFile.endsWith('/voice-design/route.ts')
     || routeFile.endsWith('/insert-panel/route.ts')
     || routeFile.endsWith('/lip-sync/route.ts')
+    || routeFile.endsWith('/autopilot/route.ts')
+    || routeFile.endsWith('/editor/render/route.ts')
     || routeFile.endsWith('/modify-asset-image/route.ts')
     || routeFile.endsWith('/modify-storyboard-image/route.ts')
     || routeFile.endsWith('/panel-variant/route.ts')
+    || routeFile.endsWith('/prompt-compare/route.ts')
     || routeFile.endsWith('/regenerate-group/route.ts')
     || routeFile.endsWith('/regenerate-panel-image/route.ts')
     || routeFile.endsWith('/regenerate-single-image/route.ts')
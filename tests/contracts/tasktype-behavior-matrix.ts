@@ -10,7 +10,7 @@ export type TaskTypeBehaviorMatrixEntry = {
 }
 
 function resolveChainTestByTaskType(taskType: TaskType): string {
-  if (taskType === 'video_panel' || taskType === 'lip_sync') {
+  if (taskType === 'video_panel' || taskType === 'lip_sync' || taskType === 'video_render') {
     return 'tests/integration/chain/video.chain.test.ts'
   }
   if (taskType === 'voice_line' || taskType === 'voice_design' || taskType === 'asset_hub_voice_design') {
@@ -39,6 +39,8 @@ function resolveChainTestByTaskType(taskType: TaskType): string {
     || taskType === 'asset_hub_ai_modify_character'
     || taskType === 'asset_hub_ai_modify_location'
     || taskType === 'asset_hub_reference_to_character'
+    || taskType === 'autopilot_run'
+    || taskType === 'prompt_override_compare'
   ) {
     return 'tests/integration/chain/text.chain.test.ts'
   }
@@ -78,6 +80,7 @@ function resolveApiContractByTaskType(taskType: TaskType): string {
     || taskType === 'image_location'
     || taskType === 'video_panel'
     || taskType === 'lip_sync'
+    || taskType === 'video_render'
     || taskType === 'voice_line'
     || taskType === 'voice_design'
     || taskType === 'asset_hub_voice_design'
@@ -88,6 +91,8 @@ function resolveApiContractByTaskType(taskType: TaskType): string {
     || taskType === 'asset_hub_image'
     || taskType === 'asset_hub_modify'
     || taskType === 'regenerate_storyboard_text'
+    || taskType === 'autopilot_run'
+    || taskType === 'prompt_override_compare'
   ) {
     return 'tests/integration/api/contract/direct-submit-routes.test.ts'
   }
@@ -0,0 +1,233 @@
+import sharp from 'sharp'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ApiError } from '@/lib/api-errors'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const artStyleMock = vi.hoisted(() => ({
+  listArtStyles: vi.fn(),
+  createArtStyle: vi.fn(),
+  updateArtStyle: vi.fn(),
+  deleteArtStyle: vi.fn(),
+  assertArtStyleReferenceImageSlot: vi.fn(),
+  addArtStyleReferenceImage: vi.fn(),
+  removeArtStyleReferenceImage: vi.fn(),
+}))
+const dedupMock = vi.hoisted(() => ({
+  uploadDedupedObject: vi.fn(async () => 'images/art-style-ref.jpg'),
+  releaseStorageObject: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireUserAuth: async () => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } } }
+    },
+  }
+})
+
+vi.mock('@/lib/art-style', () => artStyleMock)
+vi.mock('@/lib/media/dedup', () => dedupMock)
+vi.mock('@/lib/storage', () => ({
+  generateUniqueKey: vi.fn((prefix: string, ext: string) => `images/${prefix}.${ext}`),
+}))
+
+type StyleRouteContext = { params: Promise<{ styleId: string }> }
+type ErrorBody = { error: { code: string; details?: { code?: string; field?: string } } }
+
+const styleContext = (): StyleRouteContext => ({ params: Promise.resolve({ styleId: 'style-1' }) })
+const emptyContext = { params: Promise.resolve({}) }
+
+const style = {
+  id: 'style-1',
+  value: 'custom:style-1',
+  name: '水彩',
+  referenceImages: [],
+  isOwner: true,
+}
+
+async function buildUploadRequest(file?: Blob) {
+  const formData = new FormData()
+  if (file) formData.append('file', file, 'ref.png')
+  return new NextRequest(new URL('http://localhost:3000/api/asset-hub/art-styles/style-1/reference-images'), {
+    method: 'POST',
+    body: formData,
+  })
+}
+
+async function pngBlob() {
+  const png = await sharp({ create: { width: 2, height: 2, channels: 3, background: '#336699' } }).png().toBuffer()
+  return new Blob([new Uint8Array(png)], { type: 'image/png' })
+}
+
+describe('api contract - asset hub art style routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    artStyleMock.listArtStyles.mockResolvedValue([style])
+    artStyleMock.createArtStyle.mockResolvedValue(style)
+    artStyleMock.updateArtStyle.mockResolvedValue({ ...style, name: '油画' })
+    artStyleMock.deleteArtStyle.mockResolvedValue(undefined)
+    artStyleMock.assertArtStyleReferenceImageSlot.mockResolvedValue(undefined)
+    artStyleMock.addArtStyleReferenceImage.mockResolvedValue({ ...style, referenceImages: ['images/art-style-ref.jpg'] })
+    artStyleMock.removeArtStyleReferenceImage.mockResolvedValue(style)
+  })
+
+  it('GET/POST /api/asset-hub/art-styles: unauthenticated -> 401', async () => {
+    const { GET, POST } = await import('@/app/api/asset-hub/art-styles/route')
+    authState.authenticated = false
+
+    const listRes = await GET(buildMockRequest({ path: '/api/asset-hub/art-styles', method: 'GET' }), emptyContext)
+    const createRes = await POST(
+      buildMockRequest({ path: '/api/asset-hub/art-styles', method: 'POST', body: { name: 'x', promptZh: 'x' } }),
+      emptyContext,
+    )
+
+    expect(listRes.status).toBe(401)
+    expect(createRes.status).toBe(401)
+    expect(artStyleMock.listArtStyles).not.toHaveBeenCalled()
+    expect(artStyleMock.createArtStyle).not.toHaveBeenCalled()
+  })
+
+  it('GET /api/asset-hub/art-styles: lists the library of the current user', async () => {
+    const { GET } = await import('@/app/api/asset-hub/art-styles/route')
+
+    const res = await GET(buildMockRequest({ path: '/api/asset-hub/art-styles', method: 'GET' }), emptyContext)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ styles: [style] })
+    expect(artStyleMock.listArtStyles).toHaveBeenCalledWith('user-1')
+  })
+
+  it('POST /api/asset-hub/art-styles: creates the style; validation errors -> 400', async () => {
+    const { POST } = await import('@/app/api/asset-hub/art-styles/route')
+    const body = { name: '水彩', promptZh: '水彩绘本风格' }
+
+    const res = await POST(buildMockRequest({ path: '/api/asset-hub/art-styles', method: 'POST', body }), emptyContext)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ success: true, style })
+    expect(artStyleMock.createArtStyle).toHaveBeenCalledWith('user-1', body)
+
+    artStyleMock.createArtStyle.mockRejectedValueOnce(
+      new ApiError('INVALID_PARAMS', { code: 'ART_STYLE_NAME_REQUIRED', field: 'name' }),
+    )
+    const invalid = await POST(
+      buildMockRequest({ path: '/api/asset-hub/art-styles', method: 'POST', body: { promptZh: 'x' } }),
+      emptyContext,
+    )
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json() as ErrorBody).error.details?.code).toBe('ART_STYLE_NAME_REQUIRED')
+  })
+
+  it('PATCH/DELETE /api/asset-hub/art-styles/[styleId]: only the owner may change the style', async () => {
+    const { PATCH, DELETE } = await import('@/app/api/asset-hub/art-styles/[styleId]/route')
+
+    const patchRes = await PATCH(
+      buildMockRequest({ path: '/api/asset-hub/art-styles/style-1', method: 'PATCH', body: { name: '油画' } }),
+      styleContext(),
+    )
+    expect(patchRes.status).toBe(200)
+    expect(artStyleMock.updateArtStyle).toHaveBeenCalledWith('user-1', 'style-1', { name: '油画' })
+
+    const deleteRes = await DELETE(buildMockRequest({ path: '/api/asset-hub/art-styles/style-1', method: 'DELETE' }), styleContext())
+    expect(deleteRes.status).toBe(200)
+    expect(await deleteRes.json()).toEqual({ success: true })
+    expect(artStyleMock.deleteArtStyle).toHaveBeenCalledWith('user-1', 'style-1')
+
+    artStyleMock.updateArtStyle.mockRejectedValueOnce(new ApiError('FORBIDDEN'))
+    artStyleMock.deleteArtStyle.mockRejectedValueOnce(new ApiError('NOT_FOUND'))
+    const forbidden = await PATCH(
+      buildMockRequest({ path: '/api/asset-hub/art-styles/style-1', method: 'PATCH', body: { name: 'x' } }),
+      styleContext(),
+    )
+    const missing = await DELETE(buildMockRequest({ path: '/api/asset-hub/art-styles/style-1', method: 'DELETE' }), styleContext())
+    expect(forbidden.status).toBe(403)
+    expect(missing.status).toBe(404)
+
+    authState.authenticated = false
+    const unauthorized = await DELETE(buildMockRequest({ path: '/api/asset-hub/art-styles/style-1', method: 'DELETE' }), styleContext())
+    expect(unauthorized.status).toBe(401)
+    expect(artStyleMock.deleteArtStyle).toHaveBeenCalledTimes(2)
+  })
+
+  it('POST reference-images: uploads the image and appends its key', async () => {
+    const { POST } = await import('@/app/api/asset-hub/art-styles/[styleId]/reference-images/route')
+
+    const res = await POST(await buildUploadRequest(await pngBlob()), styleContext())
+
+    expect(res.status).toBe(200)
+    expect(artStyleMock.assertArtStyleReferenceImageSlot).toHaveBeenCalledWith('user-1', 'style-1')
+    expect(dedupMock.uploadDedupedObject).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      'images/art-style-style-1-ref.jpg',
+      'user-1',
+    )
+    expect(artStyleMock.addArtStyleReferenceImage).toHaveBeenCalledWith('user-1', 'style-1', 'images/art-style-ref.jpg')
+    expect(dedupMock.releaseStorageObject).not.toHaveBeenCalled()
+  })
+
+  it('POST reference-images: checks ownership and the limit before uploading', async () => {
+    const { POST } = await import('@/app/api/asset-hub/art-styles/[styleId]/reference-images/route')
+
+    artStyleMock.assertArtStyleReferenceImageSlot.mockRejectedValueOnce(new ApiError('FORBIDDEN'))
+    const forbidden = await POST(await buildUploadRequest(await pngBlob()), styleContext())
+    expect(forbidden.status).toBe(403)
+
+    artStyleMock.assertArtStyleReferenceImageSlot.mockRejectedValueOnce(
+      new ApiError('INVALID_PARAMS', { code: 'ART_STYLE_REFERENCE_LIMIT', field: 'file' }),
+    )
+    const full = await POST(await buildUploadRequest(await pngBlob()), styleContext())
+    expect(full.status).toBe(400)
+    expect((await full.json() as ErrorBody).error.details?.code).toBe('ART_STYLE_REFERENCE_LIMIT')
+
+    expect(dedupMock.uploadDedupedObject).not.toHaveBeenCalled()
+    expect(artStyleMock.addArtStyleReferenceImage).not.toHaveBeenCalled()
+  })
+
+  it('POST reference-images: missing file -> 400; rejected append releases the upload', async () => {
+    const { POST } = await import('@/app/api/asset-hub/art-styles/[styleId]/reference-images/route')
+
+    const missing = await POST(await buildUploadRequest(), styleContext())
+    expect(missing.status).toBe(400)
+    expect((await missing.json() as ErrorBody).error.details?.code).toBe('FILE_REQUIRED')
+    expect(dedupMock.uploadDedupedObject).not.toHaveBeenCalled()
+
+    artStyleMock.addArtStyleReferenceImage.mockRejectedValueOnce(
+      new ApiError('INVALID_PARAMS', { code: 'ART_STYLE_REFERENCE_LIMIT', field: 'file' }),
+    )
+    const raced = await POST(await buildUploadRequest(await pngBlob()), styleContext())
+    expect(raced.status).toBe(400)
+    expect(dedupMock.releaseStorageObject).toHaveBeenCalledWith('images/art-style-ref.jpg')
+  })
+
+  it('DELETE reference-images: removes the image at the given index', async () => {
+    const { DELETE } = await import('@/app/api/asset-hub/art-styles/[styleId]/reference-images/route')
+    const request = (index: string) => buildMockRequest({
+      path: '/api/asset-hub/art-styles/style-1/reference-images',
+      method: 'DELETE',
+      query: { index },
+    })
+
+    const res = await DELETE(request('1'), styleContext())
+    expect(res.status).toBe(200)
+    expect(artStyleMock.removeArtStyleReferenceImage).toHaveBeenCalledWith('user-1', 'style-1', 1)
+
+    artStyleMock.removeArtStyleReferenceImage.mockRejectedValueOnce(
+      new ApiError('INVALID_PARAMS', { code: 'ART_STYLE_REFERENCE_INDEX_INVALID', field: 'index' }),
+    )
+    const invalid = await DELETE(request('abc'), styleContext())
+    expect(invalid.status).toBe(400)
+    expect(artStyleMock.removeArtStyleReferenceImage).toHaveBeenLastCalledWith('user-1', 'style-1', Number.NaN)
+
+    authState.authenticated = false
+    expect((await DELETE(request('0'), styleContext())).status).toBe(401)
+  })
+})
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ApiError } from '@/lib/api-errors'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const approveAutopilotRunMock = vi.hoisted(() => vi.fn())
+const cancelAutopilotRunMock = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireProjectAuthLight: async (projectId: string) => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } }, project: { id: projectId, userId: 'user-1' } }
+    },
+  }
+})
+
+vi.mock('@/lib/autopilot', () => ({
+  approveAutopilotRun: approveAutopilotRunMock,
+  cancelAutopilotRun: cancelAutopilotRunMock,
+}))
+
+type RouteModule = {
+  POST: (req: ReturnType<typeof buildMockRequest>, ctx: { params: Promise<{ projectId: string }> }) => Promise<Response>
+}
+
+const ROUTES = {
+  approve: () => import('@/app/api/novel-promotion/[projectId]/autopilot/approve/route') as Promise<RouteModule>,
+  cancel: () => import('@/app/api/novel-promotion/[projectId]/autopilot/cancel/route') as Promise<RouteModule>,
+}
+
+async function callRoute(action: keyof typeof ROUTES, body: unknown) {
+  const { POST } = await ROUTES[action]()
+  const req = buildMockRequest({
+    path: `/api/novel-promotion/project-1/autopilot/${action}`,
+    method: 'POST',
+    body,
+  })
+  return await POST(req, { params: Promise.resolve({ projectId: 'project-1' }) })
+}
+
+describe('api contract - autopilot approve/cancel routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    approveAutopilotRunMock.mockResolvedValue({ approvedAt: '2026-10-19T08:00:00.000Z', approvedBy: 'user-1' })
+    cancelAutopilotRunMock.mockResolvedValue({
+      run: { id: 'run-1', status: 'canceling' },
+      cancelledChildren: 2,
+    })
+  })
+
+  it.each(['approve', 'cancel'] as const)('%s rejects unauthenticated requests', async (action) => {
+    authState.authenticated = false
+
+    const res = await callRoute(action, { runId: 'run-1' })
+
+    expect(res.status).toBe(401)
+    expect(approveAutopilotRunMock).not.toHaveBeenCalled()
+    expect(cancelAutopilotRunMock).not.toHaveBeenCalled()
+  })
+
+  it.each(['approve', 'cancel'] as const)('%s requires a runId', async (action) => {
+    const res = await callRoute(action, { runId: '  ' })
+
+    expect(res.status).toBe(400)
+    expect(approveAutopilotRunMock).not.toHaveBeenCalled()
+    expect(cancelAutopilotRunMock).not.toHaveBeenCalled()
+  })
+
+  it('approve records the approval for the current user and project', async () => {
+    const res = await callRoute('approve', { runId: ' run-1 ' })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      success: true,
+      approval: { approvedAt: '2026-10-19T08:00:00.000Z', approvedBy: 'user-1' },
+    })
+    expect(approveAutopilotRunMock).toHaveBeenCalledWith({ projectId: 'project-1', userId: 'user-1', runId: 'run-1' })
+  })
+
+  it('approve surfaces runs that are no longer active', async () => {
+    approveAutopilotRunMock.mockRejectedValueOnce(new ApiError('INVALID_PARAMS', {
+      code: 'AUTOPILOT_RUN_NOT_ACTIVE',
+      status: 'completed',
+    }))
+
+    const res = await callRoute('approve', { runId: 'run-1' })
+
+    expect(res.status).toBe(400)
+    const body = await res.json() as { error: { details?: { code?: string } } }
+    expect(body.error.details?.code).toBe('AUTOPILOT_RUN_NOT_ACTIVE')
+  })
+
+  it('cancel returns the canceled run and the number of canceled children', async () => {
+    const res = await callRoute('cancel', { runId: 'run-1' })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      success: true,
+      run: { id: 'run-1', status: 'canceling' },
+      cancelledChildren: 2,
+    })
+    expect(cancelAutopilotRunMock).toHaveBeenCalledWith({ projectId: 'project-1', userId: 'user-1', runId: 'run-1' })
+  })
+
+  it('cancel returns 404 for runs outside the project', async () => {
+    cancelAutopilotRunMock.mockRejectedValueOnce(new ApiError('NOT_FOUND'))
+
+    const res = await callRoute('cancel', { runId: 'run-other' })
+
+    expect(res.status).toBe(404)
+  })
+})
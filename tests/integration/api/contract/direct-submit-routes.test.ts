@@ -155,6 +155,10 @@ const prismaMock = vi.hoisted(() => ({
       speakerVoices: '{}',
     })),
   },
+  videoEditorProject: {
+    findFirst: vi.fn(async () => ({ id: 'editor-1', episodeId: 'episode-1' })),
+    update: vi.fn(async () => ({})),
+  },
   novelPromotionVoiceLine: {
     findMany: vi.fn(async () => [
       { id: 'line-1', speaker: 'Narrator', content: 'hello world voice line' },
@@ -285,6 +289,19 @@ vi.mock('@/lib/api-config', () => ({
 vi.mock('@/lib/prisma', () => ({
   prisma: prismaMock,
 }))
+vi.mock('@/lib/autopilot', () => ({
+  getAutopilotOverview: vi.fn(async () => null),
+  resolveAutopilotOptions: vi.fn(async (input: { body: Record<string, unknown> }) => ({
+    budget: typeof input.body.budget === 'number' ? input.body.budget : null,
+    autoSelectFirstCandidate: input.body.autoSelectFirstCandidate === true,
+    videoModel: 'ark::video-model',
+  })),
+}))
+
+vi.mock('@/lib/prompt-overrides', () => ({
+  isPromptComparePromptId: vi.fn((value: unknown) => value === 'np_agent_cinematographer'),
+  resolvePromptCompareCandidate: vi.fn(async () => ({ scope: 'user', version: 3, content: 'override template' })),
+}))
 
 function toApiPath(routeFile: string, params?: Record<string, string>): string {
   return routeFile
@@ -383,6 +400,24 @@ const DIRECT_CASES: ReadonlyArray<DirectRouteCase> = [
     expectedTargetType: 'GlobalAssetHubVoiceDesign',
     expectedProjectId: 'global-asset-hub',
   },
+  {
+    routeFile: 'src/app/api/novel-promotion/[projectId]/autopilot/route.ts',
+    body: { episodeId: 'episode-1', budget: 20, autoSelectFirstCandidate: true },
+    params: { projectId: 'project-1' },
+    expectedTaskType: TASK_TYPE.AUTOPILOT_RUN,
+    expectedTargetType: 'NovelPromotionEpisode',
+    expectedProjectId: 'project-1',
+    expectedPayloadSubset: { episodeId: 'episode-1', budget: 20, autoSelectFirstCandidate: true },
+  },
+  {
+    routeFile: 'src/app/api/novel-promotion/[projectId]/editor/render/route.ts',
+    body: { episodeId: 'episode-1', format: 'mp4', quality: 'high' },
+    params: { projectId: 'project-1' },
+    expectedTaskType: TASK_TYPE.VIDEO_RENDER,
+    expectedTargetType: 'VideoEditorProject',
+    expectedProjectId: 'project-1',
+    expectedPayloadSubset: { episodeId: 'episode-1', format: 'mp4', quality: 'high' },
+  },
   {
     routeFile: 'src/app/api/novel-promotion/[projectId]/generate-image/route.ts',
     body: { type: 'character', id: 'character-1', appearanceId: 'appearance-1' },
@@ -511,6 +546,15 @@ const DIRECT_CASES: ReadonlyArray<DirectRouteCase> = [
     expectedTargetType: 'CharacterAppearance',
     expectedProjectId: 'project-1',
   },
+  {
+    routeFile: 'src/app/api/novel-promotion/[projectId]/prompt-compare/route.ts',
+    body: { clipId: 'clip-1', promptId: 'np_agent_cinematographer' },
+    params: { projectId: 'project-1' },
+    expectedTaskType: TASK_TYPE.PROMPT_OVERRIDE_COMPARE,
+    expectedTargetType: 'NovelPromotionClip',
+    expectedProjectId: 'project-1',
+    expectedPayloadSubset: { clipId: 'clip-1', promptId: 'np_agent_cinematographer', scope: 'user', version: 3 },
+  },
   {
     routeFile: 'src/app/api/novel-promotion/[projectId]/regenerate-storyboard-text/route.ts',
     body: { storyboardId: 'storyboard-1' },
@@ -561,7 +605,7 @@ describe('api contract - direct submit routes (behavior)', () => {
   })
 
   it('keeps expected coverage size', () => {
-    expect(DIRECT_CASES.length).toBe(20)
+    expect(DIRECT_CASES.length).toBe(23)
   })
 
   for (const routeCase of DIRECT_CASES) {
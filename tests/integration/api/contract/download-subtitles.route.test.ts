@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const prismaMock = vi.hoisted(() => ({
+  novelPromotionEpisode: {
+    findFirst: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireProjectAuthLight: async (projectId: string) => {
+      if (!authState.authenticated) return unauthorized()
+      return {
+        session: { user: { id: 'user-1' } },
+        project: { id: projectId, userId: 'user-1', name: '星河' },
+      }
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+
+type ErrorBody = { error: { code: string; details?: { code?: string; field?: string } } }
+
+const episode = {
+  id: 'episode-1',
+  name: '第一集',
+  clips: [],
+  storyboards: [],
+  voiceLines: [
+    { id: 'line-1', lineIndex: 0, speaker: 'Hero', content: '出发吧', audioDuration: 1500, matchedPanelId: null },
+    { id: 'line-2', lineIndex: 1, speaker: 'Guide', content: '跟紧我', audioDuration: 2000, matchedPanelId: null },
+  ],
+  editorProject: null,
+}
+
+async function callDownload(query: Record<string, string>) {
+  const { GET } = await import('@/app/api/novel-promotion/[projectId]/download-subtitles/route')
+  const req = buildMockRequest({
+    path: '/api/novel-promotion/project-1/download-subtitles',
+    method: 'GET',
+    query,
+  })
+  return await GET(req, { params: Promise.resolve({ projectId: 'project-1' }) })
+}
+
+describe('api contract - download subtitles route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValue(episode)
+  })
+
+  it('rejects unauthenticated requests', async () => {
+    authState.authenticated = false
+
+    const res = await callDownload({ episodeId: 'episode-1' })
+
+    expect(res.status).toBe(401)
+    expect(prismaMock.novelPromotionEpisode.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('exports SRT by default', async () => {
+    const res = await callDownload({ episodeId: 'episode-1' })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('application/x-subrip; charset=utf-8')
+    expect(res.headers.get('content-disposition')).toBe(
+      `attachment; filename="${encodeURIComponent('星河_第一集.srt')}"`,
+    )
+    const text = await res.text()
+    expect(text).toContain('1\n00:00:00,000 --> 00:00:01,500\n')
+    expect(text).toContain('2\n00:00:01,500 --> 00:00:03,500\n')
+    expect(text).toContain('出发吧')
+    expect(prismaMock.novelPromotionEpisode.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'episode-1', novelPromotionProject: { projectId: 'project-1' } },
+    }))
+  })
+
+  it('exports WebVTT', async () => {
+    const res = await callDownload({ episodeId: 'episode-1', format: 'vtt' })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('text/vtt; charset=utf-8')
+    expect(res.headers.get('content-disposition')).toContain(encodeURIComponent('星河_第一集.vtt'))
+    const text = await res.text()
+    expect(text.startsWith('WEBVTT\n\n')).toBe(true)
+    expect(text).toContain('00:00:01.500 --> 00:00:03.500')
+    expect(text).toContain('跟紧我')
+  })
+
+  it('exports ASS with the default canvas size', async () => {
+    const res = await callDownload({ episodeId: 'episode-1', format: 'ass' })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('text/x-ssa; charset=utf-8')
+    const text = await res.text()
+    expect(text).toContain('[Script Info]')
+    expect(text).toContain('PlayResX: 1920')
+    expect(text).toContain('PlayResY: 1080')
+    expect(text).toMatch(/Dialogue: 0,0:00:00\.00,0:00:01\.50,[^,]*,Hero,0,0,0,,出发吧/)
+  })
+
+  it('rejects unknown formats and sources before reading the episode', async () => {
+    const badFormat = await callDownload({ episodeId: 'episode-1', format: 'sub' })
+    expect(badFormat.status).toBe(400)
+    expect((await badFormat.json() as ErrorBody).error.details).toMatchObject({
+      code: 'SUBTITLE_FORMAT_INVALID',
+      field: 'format',
+    })
+
+    const badSource = await callDownload({ episodeId: 'episode-1', source: 'audio' })
+    expect(badSource.status).toBe(400)
+    expect((await badSource.json() as ErrorBody).error.details?.code).toBe('SUBTITLE_SOURCE_INVALID')
+
+    const missingEpisode = await callDownload({ format: 'srt' })
+    expect(missingEpisode.status).toBe(400)
+
+    expect(prismaMock.novelPromotionEpisode.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('returns 404 for unknown episodes and episodes without subtitles', async () => {
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValueOnce(null)
+    expect((await callDownload({ episodeId: 'episode-other' })).status).toBe(404)
+
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValueOnce({ ...episode, voiceLines: [] })
+    expect((await callDownload({ episodeId: 'episode-1' })).status).toBe(404)
+
+    // 只取剪辑时间轴且没有剪辑项目时同样没有字幕
+    expect((await callDownload({ episodeId: 'episode-1', source: 'editor' })).status).toBe(404)
+  })
+})
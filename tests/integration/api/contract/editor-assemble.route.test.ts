@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const prismaMock = vi.hoisted(() => ({
+  novelPromotionEpisode: {
+    findFirst: vi.fn(),
+  },
+  videoEditorProject: {
+    upsert: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireProjectAuthLight: async (projectId: string) => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } }, project: { id: projectId, userId: 'user-1' } }
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/media/attach', () => ({
+  attachMediaFieldsToProject: vi.fn(async <T>(value: T) => value),
+}))
+
+type ErrorBody = { error: { code: string; details?: { code?: string; field?: string } } }
+type AssembleBody = {
+  id: string
+  projectData: { episodeId: string; timeline: Array<{ id: string; src: string }> }
+  summary: { clipCount: number; skippedPanelIds: string[]; unmatchedVoiceLineIds: string[] }
+}
+
+function panel(id: string, panelIndex: number, videoUrl: string | null) {
+  return {
+    id,
+    panelIndex,
+    description: `panel ${id}`,
+    duration: 2,
+    videoUrl,
+    lipSyncVideoUrl: null,
+    linkedToNextPanel: false,
+  }
+}
+
+function buildEpisode(editorProject: { id: string } | null) {
+  return {
+    id: 'episode-1',
+    clips: [{ id: 'clip-1' }],
+    storyboards: [{
+      id: 'sb-1',
+      clipId: 'clip-1',
+      panels: [panel('panel-1', 0, '/m/video-1'), panel('panel-2', 1, null)],
+    }],
+    voiceLines: [{
+      id: 'line-1',
+      lineIndex: 0,
+      speaker: 'Hero',
+      content: '出发吧',
+      audioUrl: '/m/audio-1',
+      audioDuration: 1500,
+      matchedPanelId: 'panel-1',
+    }],
+    editorProject,
+  }
+}
+
+async function callAssemble(body: unknown) {
+  const { POST } = await import('@/app/api/novel-promotion/[projectId]/editor/assemble/route')
+  const req = buildMockRequest({
+    path: '/api/novel-promotion/project-1/editor/assemble',
+    method: 'POST',
+    body,
+  })
+  return await POST(req, { params: Promise.resolve({ projectId: 'project-1' }) })
+}
+
+describe('api contract - editor assemble route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValue(buildEpisode(null))
+    prismaMock.videoEditorProject.upsert.mockImplementation(async (args: { create: { projectData: string } }) => ({
+      id: 'editor-1',
+      projectData: args.create.projectData,
+      updatedAt: new Date('2026-10-19T08:00:00.000Z'),
+    }))
+  })
+
+  it('rejects unauthenticated requests', async () => {
+    authState.authenticated = false
+
+    const res = await callAssemble({ episodeId: 'episode-1' })
+
+    expect(res.status).toBe(401)
+    expect(prismaMock.novelPromotionEpisode.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('requires an episodeId and an episode of the project', async () => {
+    const missing = await callAssemble({})
+    expect(missing.status).toBe(400)
+
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValueOnce(null)
+    const foreign = await callAssemble({ episodeId: 'episode-other' })
+    expect(foreign.status).toBe(404)
+    expect(prismaMock.novelPromotionEpisode.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'episode-other', novelPromotionProject: { projectId: 'project-1' } },
+    }))
+    expect(prismaMock.videoEditorProject.upsert).not.toHaveBeenCalled()
+  })
+
+  it('assembles a rough cut from panels with video and matched voice lines', async () => {
+    const res = await callAssemble({ episodeId: 'episode-1' })
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as AssembleBody
+    expect(body.id).toBe('editor-1')
+    expect(body.projectData.episodeId).toBe('episode-1')
+    expect(body.projectData.timeline).toEqual([
+      expect.objectContaining({ id: 'clip_panel-1', src: '/m/video-1' }),
+    ])
+    expect(body.summary).toEqual({ clipCount: 1, skippedPanelIds: ['panel-2'], unmatchedVoiceLineIds: [] })
+
+    const upsertArgs = prismaMock.videoEditorProject.upsert.mock.calls[0][0] as {
+      where: { episodeId: string }
+      create: { projectData: string }
+    }
+    expect(upsertArgs.where).toEqual({ episodeId: 'episode-1' })
+    expect(JSON.parse(upsertArgs.create.projectData)).toEqual(body.projectData)
+  })
+
+  it('refuses to overwrite an existing editor project unless overwrite is true', async () => {
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValue(buildEpisode({ id: 'editor-1' }))
+
+    const conflict = await callAssemble({ episodeId: 'episode-1', overwrite: false })
+    expect(conflict.status).toBe(409)
+    expect((await conflict.json() as ErrorBody).error.details).toMatchObject({
+      code: 'EDITOR_PROJECT_EXISTS',
+      field: 'overwrite',
+    })
+
+    // 非布尔的 overwrite 不视为确认覆盖
+    const truthy = await callAssemble({ episodeId: 'episode-1', overwrite: 'true' })
+    expect(truthy.status).toBe(409)
+    expect(prismaMock.videoEditorProject.upsert).not.toHaveBeenCalled()
+
+    const overwritten = await callAssemble({ episodeId: 'episode-1', overwrite: true })
+    expect(overwritten.status).toBe(200)
+    expect(prismaMock.videoEditorProject.upsert).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects episodes without any panel video', async () => {
+    const episode = buildEpisode(null)
+    episode.storyboards[0].panels = [panel('panel-1', 0, null)]
+    prismaMock.novelPromotionEpisode.findFirst.mockResolvedValueOnce(episode)
+
+    const res = await callAssemble({ episodeId: 'episode-1' })
+
+    expect(res.status).toBe(400)
+    expect((await res.json() as ErrorBody).error.details?.code).toBe('EDITOR_ASSEMBLE_NO_VIDEO')
+    expect(prismaMock.videoEditorProject.upsert).not.toHaveBeenCalled()
+  })
+})
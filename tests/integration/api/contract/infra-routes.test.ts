@@ -16,6 +16,29 @@ const storageMock = vi.hoisted(() => ({
   getSignedObjectUrl: vi.fn(async (key: string, ttl: number) => `https://signed.example/${key}?expires=${ttl}`),
 }))
 
+const mediaGcMock = vi.hoisted(() => ({
+  runMediaGc: vi.fn(async (options: { dryRun?: boolean; gracePeriodHours?: number }) => ({
+    runId: null,
+    dryRun: options.dryRun ?? false,
+    gracePeriodHours: options.gracePeriodHours ?? 72,
+    scannedCount: 3,
+    markedCount: 1,
+    restoredCount: 0,
+    deletedCount: 1,
+    failedCount: 0,
+    reclaimedBytes: 2048,
+    pendingCount: 1,
+    users: [{ userId: 'user-1', deletedCount: 1, reclaimedBytes: 2048 }],
+    samples: [],
+  })),
+  getMediaGcStats: vi.fn(async () => ({
+    totalReclaimedBytes: 4096,
+    totalDeletedCount: 2,
+    users: [{ userId: 'user-1', deletedCount: 2, reclaimedBytes: 4096 }],
+    recentRuns: [],
+  })),
+}))
+
 vi.mock('@/lib/api-auth', () => {
   const unauthorized = () => new Response(
     JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
@@ -33,6 +56,7 @@ vi.mock('@/lib/api-auth', () => {
 
 vi.mock('@/lib/logging/file-writer', () => loggingMock)
 vi.mock('@/lib/storage', () => storageMock)
+vi.mock('@/lib/media/gc', () => mediaGcMock)
 
 describe('api contract - infra routes (behavior)', () => {
   const routes = ROUTE_CATALOG.filter((entry) => entry.contractGroup === 'infra-routes')
@@ -73,6 +97,8 @@ describe('api contract - infra routes (behavior)', () => {
   it('infra route group exists', () => {
     expect(routes.map((entry) => entry.routeFile)).toEqual(expect.arrayContaining([
       'src/app/api/admin/download-logs/route.ts',
+      'src/app/api/admin/media-gc/report/route.ts',
+      'src/app/api/admin/media-gc/stats/route.ts',
       'src/app/api/cos/image/route.ts',
       'src/app/api/files/[...path]/route.ts',
       'src/app/api/storage/sign/route.ts',
@@ -109,6 +135,71 @@ describe('api contract - infra routes (behavior)', () => {
     expect(res.headers.get('content-disposition')).toMatch(/^attachment; filename="waoowaoo-logs-/)
   })
 
+  it('GET /api/admin/media-gc/report rejects unauthenticated requests', async () => {
+    const mod = await import('@/app/api/admin/media-gc/report/route')
+    const req = buildMockRequest({
+      path: '/api/admin/media-gc/report',
+      method: 'GET',
+    })
+
+    const res = await mod.GET(req, { params: Promise.resolve({}) })
+    expect(res.status).toBe(401)
+    expect(mediaGcMock.runMediaGc).not.toHaveBeenCalled()
+  })
+
+  it('GET /api/admin/media-gc/report runs gc in dry-run mode', async () => {
+    authState.authenticated = true
+    const mod = await import('@/app/api/admin/media-gc/report/route')
+    const req = buildMockRequest({
+      path: '/api/admin/media-gc/report?graceHours=24&sampleLimit=10',
+      method: 'GET',
+    })
+
+    const res = await mod.GET(req, { params: Promise.resolve({}) })
+    const json = await res.json() as { report: { dryRun: boolean; reclaimedBytes: number } }
+
+    expect(res.status).toBe(200)
+    expect(mediaGcMock.runMediaGc).toHaveBeenCalledWith({
+      dryRun: true,
+      gracePeriodHours: 24,
+      sampleLimit: 10,
+    })
+    expect(json.report.dryRun).toBe(true)
+    expect(json.report.reclaimedBytes).toBe(2048)
+  })
+
+  it('GET /api/admin/media-gc/report rejects invalid grace period', async () => {
+    authState.authenticated = true
+    const mod = await import('@/app/api/admin/media-gc/report/route')
+    const req = buildMockRequest({
+      path: '/api/admin/media-gc/report?graceHours=abc',
+      method: 'GET',
+    })
+
+    const res = await mod.GET(req, { params: Promise.resolve({}) })
+    expect(res.status).toBe(400)
+    expect(mediaGcMock.runMediaGc).not.toHaveBeenCalled()
+  })
+
+  it('GET /api/admin/media-gc/stats returns per-user reclaimed bytes', async () => {
+    authState.authenticated = true
+    const mod = await import('@/app/api/admin/media-gc/stats/route')
+    const req = buildMockRequest({
+      path: '/api/admin/media-gc/stats?since=2026-01-01T00:00:00.000Z',
+      method: 'GET',
+    })
+
+    const res = await mod.GET(req, { params: Promise.resolve({}) })
+    const json = await res.json() as { totalReclaimedBytes: number; users: Array<{ userId: string }> }
+
+    expect(res.status).toBe(200)
+    expect(mediaGcMock.getMediaGcStats).toHaveBeenCalledWith({
+      since: new Date('2026-01-01T00:00:00.000Z'),
+    })
+    expect(json.totalReclaimedBytes).toBe(4096)
+    expect(json.users[0]?.userId).toBe('user-1')
+  })
+
   it('GET /api/cos/image redirects to signed storage route with normalized query', async () => {
     const mod = await import('@/app/api/cos/image/route')
     const req = buildMockRequest({
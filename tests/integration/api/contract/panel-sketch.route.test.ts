@@ -0,0 +1,184 @@
+import sharp from 'sharp'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const prismaMock = vi.hoisted(() => ({
+  novelPromotionPanel: {
+    findFirst: vi.fn(),
+    update: vi.fn(async () => ({})),
+  },
+}))
+const dedupMock = vi.hoisted(() => ({
+  uploadDedupedObject: vi.fn(async () => 'images/panel-1-sketch-new.png'),
+  releaseStorageObject: vi.fn(async () => undefined),
+}))
+const mediaServiceMock = vi.hoisted(() => ({
+  ensureMediaObjectFromStorageKey: vi.fn(async () => ({ id: 'media-new', url: '/m/media-new' })),
+  resolveStorageKeyFromMediaValue: vi.fn(async (value: string) => value),
+}))
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireProjectAuthLight: async (projectId: string) => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } }, project: { id: projectId, userId: 'user-1' } }
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/media/dedup', () => dedupMock)
+vi.mock('@/lib/media/service', () => mediaServiceMock)
+vi.mock('@/lib/storage', () => ({
+  generateUniqueKey: vi.fn((prefix: string, ext: string) => `images/${prefix}.${ext}`),
+}))
+
+type ErrorBody = { error: { code: string; details?: { code?: string; field?: string } } }
+
+const context = () => ({ params: Promise.resolve({ projectId: 'project-1' }) })
+
+async function sketchBlob() {
+  const png = await sharp({
+    create: { width: 2, height: 2, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  }).png().toBuffer()
+  return new Blob([new Uint8Array(png)], { type: 'image/png' })
+}
+
+function buildUploadRequest(fields: Record<string, string | Blob>) {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value)
+  }
+  return new NextRequest(new URL('http://localhost:3000/api/novel-promotion/project-1/panel/sketch'), {
+    method: 'POST',
+    body: formData,
+  })
+}
+
+function buildDeleteRequest(panelId?: string) {
+  return buildMockRequest({
+    path: '/api/novel-promotion/project-1/panel/sketch',
+    method: 'DELETE',
+    query: panelId ? { panelId } : undefined,
+  })
+}
+
+describe('api contract - panel sketch route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    prismaMock.novelPromotionPanel.findFirst.mockResolvedValue({ id: 'panel-1', sketchImageUrl: null })
+  })
+
+  it('POST/DELETE reject unauthenticated requests', async () => {
+    const { POST, DELETE } = await import('@/app/api/novel-promotion/[projectId]/panel/sketch/route')
+    authState.authenticated = false
+
+    const postRes = await POST(buildUploadRequest({ panelId: 'panel-1', file: await sketchBlob() }), context())
+    const deleteRes = await DELETE(buildDeleteRequest('panel-1'), context())
+
+    expect(postRes.status).toBe(401)
+    expect(deleteRes.status).toBe(401)
+    expect(prismaMock.novelPromotionPanel.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('POST validates panelId, panel ownership and file', async () => {
+    const { POST } = await import('@/app/api/novel-promotion/[projectId]/panel/sketch/route')
+
+    const missingPanel = await POST(buildUploadRequest({ file: await sketchBlob() }), context())
+    expect(missingPanel.status).toBe(400)
+    expect((await missingPanel.json() as ErrorBody).error.details?.code).toBe('PANEL_ID_REQUIRED')
+
+    prismaMock.novelPromotionPanel.findFirst.mockResolvedValueOnce(null)
+    const foreignPanel = await POST(buildUploadRequest({ panelId: 'panel-other', file: await sketchBlob() }), context())
+    expect(foreignPanel.status).toBe(404)
+    expect(prismaMock.novelPromotionPanel.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        id: 'panel-other',
+        storyboard: { episode: { novelPromotionProject: { projectId: 'project-1' } } },
+      },
+    }))
+
+    const missingFile = await POST(buildUploadRequest({ panelId: 'panel-1' }), context())
+    expect(missingFile.status).toBe(400)
+    expect((await missingFile.json() as ErrorBody).error.details?.code).toBe('FILE_REQUIRED')
+
+    expect(dedupMock.uploadDedupedObject).not.toHaveBeenCalled()
+    expect(prismaMock.novelPromotionPanel.update).not.toHaveBeenCalled()
+  })
+
+  it('POST saves the sketch on a white background', async () => {
+    const { POST } = await import('@/app/api/novel-promotion/[projectId]/panel/sketch/route')
+
+    const res = await POST(buildUploadRequest({ panelId: 'panel-1', file: await sketchBlob() }), context())
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ success: true, sketchImageUrl: '/m/media-new' })
+    expect(prismaMock.novelPromotionPanel.update).toHaveBeenCalledWith({
+      where: { id: 'panel-1' },
+      data: { sketchImageUrl: 'images/panel-1-sketch-new.png', sketchImageMediaId: 'media-new' },
+    })
+    const [uploaded, key, ownerUserId] = dedupMock.uploadDedupedObject.mock.calls[0] as unknown as [Buffer, string, string]
+    expect(key).toBe('images/panel-panel-1-sketch.png')
+    expect(ownerUserId).toBe('user-1')
+    const { data } = await sharp(uploaded).raw().toBuffer({ resolveWithObject: true })
+    expect([...data.subarray(0, 3)]).toEqual([255, 255, 255])
+    expect(dedupMock.releaseStorageObject).not.toHaveBeenCalled()
+  })
+
+  it('POST releases the sketch it replaces', async () => {
+    const { POST } = await import('@/app/api/novel-promotion/[projectId]/panel/sketch/route')
+    prismaMock.novelPromotionPanel.findFirst.mockResolvedValueOnce({
+      id: 'panel-1',
+      sketchImageUrl: 'images/panel-1-sketch-old.png',
+    })
+
+    const res = await POST(buildUploadRequest({ panelId: 'panel-1', file: await sketchBlob() }), context())
+
+    expect(res.status).toBe(200)
+    expect(dedupMock.releaseStorageObject).toHaveBeenCalledWith('images/panel-1-sketch-old.png')
+    expect(prismaMock.novelPromotionPanel.update.mock.invocationCallOrder[0])
+      .toBeLessThan(dedupMock.releaseStorageObject.mock.invocationCallOrder[0])
+  })
+
+  it('DELETE clears the sketch and releases its storage object', async () => {
+    const { DELETE } = await import('@/app/api/novel-promotion/[projectId]/panel/sketch/route')
+    prismaMock.novelPromotionPanel.findFirst.mockResolvedValueOnce({
+      id: 'panel-1',
+      sketchImageUrl: 'images/panel-1-sketch-old.png',
+    })
+
+    const res = await DELETE(buildDeleteRequest('panel-1'), context())
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ success: true })
+    expect(prismaMock.novelPromotionPanel.update).toHaveBeenCalledWith({
+      where: { id: 'panel-1' },
+      data: { sketchImageUrl: null, sketchImageMediaId: null },
+    })
+    expect(dedupMock.releaseStorageObject).toHaveBeenCalledWith('images/panel-1-sketch-old.png')
+  })
+
+  it('DELETE requires a panelId and keeps working when releasing fails', async () => {
+    const { DELETE } = await import('@/app/api/novel-promotion/[projectId]/panel/sketch/route')
+
+    const missing = await DELETE(buildDeleteRequest(), context())
+    expect(missing.status).toBe(400)
+
+    prismaMock.novelPromotionPanel.findFirst.mockResolvedValueOnce({
+      id: 'panel-1',
+      sketchImageUrl: 'images/panel-1-sketch-old.png',
+    })
+    dedupMock.releaseStorageObject.mockRejectedValueOnce(new Error('storage down'))
+    const res = await DELETE(buildDeleteRequest('panel-1'), context())
+    expect(res.status).toBe(200)
+  })
+})
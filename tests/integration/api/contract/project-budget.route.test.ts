@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const prismaMock = vi.hoisted(() => ({
+  project: {
+    findUnique: vi.fn(),
+  },
+}))
+const billingMock = vi.hoisted(() => ({
+  getBudgetStatuses: vi.fn(),
+  upsertBudget: vi.fn(async () => ({})),
+  deleteBudget: vi.fn(async () => true),
+}))
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireUserAuth: async () => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } } }
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/billing', () => billingMock)
+
+type RouteContext = { params: Promise<{ projectId: string }> }
+type ErrorBody = { error: { code: string; details?: { code?: string; field?: string } } }
+
+const context = (): RouteContext => ({ params: Promise.resolve({ projectId: 'project-1' }) })
+
+async function callRoute(
+  method: 'GET' | 'PUT' | 'DELETE',
+  options: { body?: unknown; query?: Record<string, string> } = {},
+) {
+  const route = await import('@/app/api/projects/[projectId]/budget/route')
+  const req = buildMockRequest({ path: '/api/projects/project-1/budget', method, ...options })
+  return await route[method](req, context())
+}
+
+describe('api contract - project budget route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    prismaMock.project.findUnique.mockResolvedValue({ userId: 'user-1' })
+    billingMock.getBudgetStatuses.mockResolvedValue([
+      { scope: 'user', monthlyLimit: 100, spent: 12.5, warnPercent: 80, hardStopPercent: 100 },
+    ])
+  })
+
+  it.each(['GET', 'PUT', 'DELETE'] as const)('%s rejects unauthenticated requests', async (method) => {
+    authState.authenticated = false
+
+    const res = await callRoute(method, {
+      body: method === 'PUT' ? { scope: 'user', monthlyLimit: 10 } : undefined,
+      query: { scope: 'user' },
+    })
+
+    expect(res.status).toBe(401)
+    expect(prismaMock.project.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('GET returns 404 for missing projects and 403 for projects of other users', async () => {
+    prismaMock.project.findUnique.mockResolvedValueOnce(null)
+    expect((await callRoute('GET')).status).toBe(404)
+
+    prismaMock.project.findUnique.mockResolvedValueOnce({ userId: 'user-2' })
+    const res = await callRoute('GET')
+    expect(res.status).toBe(403)
+    expect(billingMock.getBudgetStatuses).not.toHaveBeenCalled()
+  })
+
+  it('GET returns the budget statuses of the user and the project', async () => {
+    const res = await callRoute('GET')
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as { projectId: string; currency: string; budgets: unknown[] }
+    expect(body.projectId).toBe('project-1')
+    expect(typeof body.currency).toBe('string')
+    expect(body.budgets).toHaveLength(1)
+    expect(billingMock.getBudgetStatuses).toHaveBeenCalledWith('user-1', 'project-1')
+  })
+
+  it('PUT upserts the budget of the requested scope', async () => {
+    const res = await callRoute('PUT', {
+      body: { scope: 'project', monthlyLimit: 50, warnPercent: 70, hardStopPercent: 120 },
+    })
+
+    expect(res.status).toBe(200)
+    expect(billingMock.upsertBudget).toHaveBeenCalledWith({
+      userId: 'user-1',
+      scope: 'project',
+      projectId: 'project-1',
+      monthlyLimit: 50,
+      warnPercent: 70,
+      hardStopPercent: 120,
+    })
+    expect(billingMock.deleteBudget).not.toHaveBeenCalled()
+  })
+
+  it('PUT with a null monthlyLimit clears the budget', async () => {
+    const res = await callRoute('PUT', { body: { scope: 'user', monthlyLimit: null } })
+
+    expect(res.status).toBe(200)
+    expect(billingMock.deleteBudget).toHaveBeenCalledWith({ userId: 'user-1', scope: 'user', projectId: 'project-1' })
+    expect(billingMock.upsertBudget).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    [{ scope: 'team', monthlyLimit: 10 }, 'BUDGET_SCOPE_INVALID', 'scope'],
+    [{ monthlyLimit: 10 }, 'BUDGET_SCOPE_INVALID', 'scope'],
+    [{ scope: 'user', monthlyLimit: 0 }, 'BUDGET_LIMIT_INVALID', 'monthlyLimit'],
+    [{ scope: 'user', monthlyLimit: -5 }, 'BUDGET_LIMIT_INVALID', 'monthlyLimit'],
+    [{ scope: 'user', monthlyLimit: '10' }, 'BUDGET_LIMIT_INVALID', 'monthlyLimit'],
+    [{ scope: 'user' }, 'BUDGET_LIMIT_INVALID', 'monthlyLimit'],
+    [{ scope: 'user', monthlyLimit: 10, warnPercent: 0 }, 'BUDGET_PERCENT_INVALID', 'warnPercent'],
+    [{ scope: 'user', monthlyLimit: 10, warnPercent: 101 }, 'BUDGET_PERCENT_INVALID', 'warnPercent'],
+    [{ scope: 'user', monthlyLimit: 10, warnPercent: 50.5 }, 'BUDGET_PERCENT_INVALID', 'warnPercent'],
+    [{ scope: 'user', monthlyLimit: 10, hardStopPercent: 1001 }, 'BUDGET_PERCENT_INVALID', 'hardStopPercent'],
+    [{ scope: 'user', monthlyLimit: 10, warnPercent: 90, hardStopPercent: 80 }, 'BUDGET_PERCENT_INVALID', 'hardStopPercent'],
+  ])('PUT rejects %j with %s', async (body, code, field) => {
+    const res = await callRoute('PUT', { body })
+
+    expect(res.status).toBe(400)
+    const json = await res.json() as ErrorBody
+    expect(json.error.details).toMatchObject({ code, field })
+    expect(billingMock.upsertBudget).not.toHaveBeenCalled()
+    expect(billingMock.deleteBudget).not.toHaveBeenCalled()
+  })
+
+  it('PUT rejects projects of other users before writing', async () => {
+    prismaMock.project.findUnique.mockResolvedValueOnce({ userId: 'user-2' })
+
+    const res = await callRoute('PUT', { body: { scope: 'project', monthlyLimit: 10 } })
+
+    expect(res.status).toBe(403)
+    expect(billingMock.upsertBudget).not.toHaveBeenCalled()
+  })
+
+  it('DELETE clears the budget of the scope given in the query', async () => {
+    const res = await callRoute('DELETE', { query: { scope: 'project' } })
+
+    expect(res.status).toBe(200)
+    expect(billingMock.deleteBudget).toHaveBeenCalledWith({ userId: 'user-1', scope: 'project', projectId: 'project-1' })
+    const body = await res.json() as { budgets: unknown[] }
+    expect(body.budgets).toHaveLength(1)
+  })
+
+  it('DELETE requires a valid scope and project ownership', async () => {
+    const invalid = await callRoute('DELETE', { query: { scope: 'team' } })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json() as ErrorBody).error.details?.code).toBe('BUDGET_SCOPE_INVALID')
+
+    const missing = await callRoute('DELETE')
+    expect(missing.status).toBe(400)
+
+    prismaMock.project.findUnique.mockResolvedValueOnce({ userId: 'user-2' })
+    const forbidden = await callRoute('DELETE', { query: { scope: 'user' } })
+    expect(forbidden.status).toBe(403)
+    expect(billingMock.deleteBudget).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,278 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PROMPT_IDS } from '@/lib/prompt-i18n'
+import { buildMockRequest } from '../../../helpers/request'
+
+type OverrideRow = {
+  id: string
+  userId: string
+  scopeKey: string
+  projectId: string | null
+  promptId: string
+  locale: string
+  activeVersion: number | null
+  updatedAt: Date
+}
+
+type VersionRow = {
+  overrideId: string
+  version: number
+  content: string
+  note: string | null
+  createdAt: Date
+}
+
+type OverrideKey = { userId: string; scopeKey: string; promptId: string; locale: string }
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const store = vi.hoisted(() => ({
+  projects: new Map<string, { userId: string }>(),
+  overrides: [] as OverrideRow[],
+  versions: [] as VersionRow[],
+}))
+
+const prismaMock = vi.hoisted(() => {
+  const matches = (row: OverrideRow, key: OverrideKey) => row.userId === key.userId
+    && row.scopeKey === key.scopeKey
+    && row.promptId === key.promptId
+    && row.locale === key.locale
+  const withVersions = (row: OverrideRow) => ({
+    ...row,
+    versions: store.versions
+      .filter((item) => item.overrideId === row.id)
+      .sort((a, b) => b.version - a.version),
+  })
+
+  const client = {
+    project: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => store.projects.get(where.id) || null),
+    },
+    promptTemplateOverride: {
+      findUnique: vi.fn(async ({ where }: { where: { userId_scopeKey_promptId_locale: OverrideKey } }) => {
+        const row = store.overrides.find((item) => matches(item, where.userId_scopeKey_promptId_locale))
+        return row ? withVersions(row) : null
+      }),
+      findMany: vi.fn(async ({ where }: { where: { userId: string; scopeKey: string; locale: string } }) => store.overrides
+        .filter((item) => item.userId === where.userId && item.scopeKey === where.scopeKey && item.locale === where.locale)
+        .map((item) => ({
+          ...item,
+          _count: { versions: store.versions.filter((version) => version.overrideId === item.id).length },
+        }))),
+      upsert: vi.fn(async ({ where, create }: {
+        where: { userId_scopeKey_promptId_locale: OverrideKey }
+        create: Omit<OverrideRow, 'id' | 'activeVersion' | 'updatedAt'>
+      }) => {
+        const existing = store.overrides.find((item) => matches(item, where.userId_scopeKey_promptId_locale))
+        if (existing) return existing
+        const row = { ...create, id: `ov-${store.overrides.length + 1}`, activeVersion: null, updatedAt: new Date() }
+        store.overrides.push(row)
+        return row
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: { activeVersion: number | null } }) => {
+        const row = store.overrides.find((item) => item.id === where.id)
+        if (!row) throw new Error('override not found')
+        row.activeVersion = data.activeVersion
+        return row
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: OverrideKey }) => {
+        const removed = store.overrides.filter((item) => matches(item, where))
+        store.overrides = store.overrides.filter((item) => !matches(item, where))
+        store.versions = store.versions.filter((item) => !removed.some((row) => row.id === item.overrideId))
+        return { count: removed.length }
+      }),
+    },
+    promptTemplateVersion: {
+      findFirst: vi.fn(async ({ where }: { where: { overrideId: string } }) => store.versions
+        .filter((item) => item.overrideId === where.overrideId)
+        .sort((a, b) => b.version - a.version)[0] || null),
+      create: vi.fn(async ({ data }: { data: Omit<VersionRow, 'createdAt'> }) => {
+        const row = { ...data, createdAt: new Date('2026-10-19T08:00:00.000Z') }
+        store.versions.push(row)
+        return row
+      }),
+    },
+    $transaction: vi.fn(),
+  }
+  client.$transaction.mockImplementation(async (fn: (tx: typeof client) => Promise<unknown>) => await fn(client))
+  return client
+})
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireUserAuth: async () => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } } }
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+
+const PROMPT_ID = PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER
+
+type RouteContext = { params: Promise<{ promptId: string }> }
+type ErrorBody = { error: { code: string; details?: { code?: string; placeholders?: string[] } } }
+type DetailBody = {
+  template: {
+    activeVersion: number | null
+    versions: Array<{ version: number; content: string }>
+    missingVariables?: string[]
+  }
+}
+
+const context = (promptId: string = PROMPT_ID): RouteContext => ({ params: Promise.resolve({ promptId }) })
+const emptyContext = { params: Promise.resolve({}) }
+
+async function callDetailRoute(
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  options: { body?: unknown; query?: Record<string, string>; promptId?: string } = {},
+) {
+  const route = await import('@/app/api/user/prompt-templates/[promptId]/route')
+  const promptId = options.promptId || PROMPT_ID
+  const req = buildMockRequest({
+    path: `/api/user/prompt-templates/${promptId}`,
+    method,
+    body: options.body,
+    query: options.query,
+  })
+  return await route[method](req, context(promptId))
+}
+
+describe('api contract - prompt template routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+    store.projects = new Map([
+      ['project-1', { userId: 'user-1' }],
+      ['project-other', { userId: 'user-2' }],
+    ])
+    store.overrides = []
+    store.versions = []
+  })
+
+  it('GET /api/user/prompt-templates: unauthenticated -> 401; lists catalog templates with override state', async () => {
+    const { GET } = await import('@/app/api/user/prompt-templates/route')
+
+    authState.authenticated = false
+    const unauthorized = await GET(buildMockRequest({ path: '/api/user/prompt-templates', method: 'GET', query: { locale: 'zh' } }), emptyContext)
+    expect(unauthorized.status).toBe(401)
+
+    authState.authenticated = true
+    await callDetailRoute('POST', { body: { locale: 'zh', content: 'v1 {panels_json}' } })
+    const res = await GET(buildMockRequest({ path: '/api/user/prompt-templates', method: 'GET', query: { locale: 'zh' } }), emptyContext)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as { templates: Array<{ promptId: string; activeVersion: number | null; versionCount: number }> }
+    expect(body.templates.find((item) => item.promptId === PROMPT_ID)).toMatchObject({ activeVersion: 1, versionCount: 1 })
+  })
+
+  it('GET /api/user/prompt-templates: invalid locale -> 400', async () => {
+    const { GET } = await import('@/app/api/user/prompt-templates/route')
+
+    const res = await GET(buildMockRequest({ path: '/api/user/prompt-templates', method: 'GET', query: { locale: 'fr' } }), emptyContext)
+
+    expect(res.status).toBe(400)
+    expect((await res.json() as ErrorBody).error.details?.code).toBe('PROMPT_OVERRIDE_LOCALE_INVALID')
+  })
+
+  it('POST rejects placeholders that the prompt does not declare', async () => {
+    const res = await callDetailRoute('POST', { body: { locale: 'zh', content: '{panels_json} {unknown_var}' } })
+
+    expect(res.status).toBe(400)
+    const body = await res.json() as ErrorBody
+    expect(body.error.details).toMatchObject({
+      code: 'PROMPT_OVERRIDE_PLACEHOLDER_INVALID',
+      placeholders: ['unknown_var'],
+    })
+    expect(store.versions).toHaveLength(0)
+  })
+
+  it('POST rejects unknown prompt ids', async () => {
+    const res = await callDetailRoute('POST', {
+      promptId: 'not-a-prompt',
+      body: { locale: 'zh', content: 'text' },
+    })
+
+    expect(res.status).toBe(400)
+    expect((await res.json() as ErrorBody).error.details?.code).toBe('PROMPT_OVERRIDE_PROMPT_INVALID')
+  })
+
+  it('saves versions and rolls back to an earlier one', async () => {
+    const first = await callDetailRoute('POST', { body: { locale: 'zh', content: 'v1 {panels_json}', note: 'first' } })
+    expect(first.status).toBe(200)
+    const firstBody = await first.json() as DetailBody
+    expect(firstBody.template.activeVersion).toBe(1)
+    expect(firstBody.template.missingVariables).toContain('panel_count')
+
+    const second = await callDetailRoute('POST', { body: { locale: 'zh', content: 'v2 {panels_json} {panel_count}' } })
+    expect((await second.json() as DetailBody).template).toMatchObject({
+      activeVersion: 2,
+      versions: [{ version: 2 }, { version: 1 }],
+    })
+
+    const rollback = await callDetailRoute('PATCH', { body: { locale: 'zh', activeVersion: 1 } })
+    expect(rollback.status).toBe(200)
+    expect((await rollback.json() as DetailBody).template.activeVersion).toBe(1)
+
+    const invalidRollback = await callDetailRoute('PATCH', { body: { locale: 'zh', activeVersion: 5 } })
+    expect(invalidRollback.status).toBe(400)
+    expect((await invalidRollback.json() as ErrorBody).error.details?.code).toBe('PROMPT_OVERRIDE_VERSION_INVALID')
+
+    const disabled = await callDetailRoute('PATCH', { body: { locale: 'zh', activeVersion: null } })
+    expect((await disabled.json() as DetailBody).template.activeVersion).toBeNull()
+
+    const detail = await callDetailRoute('GET', { query: { locale: 'zh' } })
+    expect((await detail.json() as DetailBody).template.versions.map((item) => item.content)).toEqual([
+      'v2 {panels_json} {panel_count}',
+      'v1 {panels_json}',
+    ])
+  })
+
+  it('PATCH without a saved override -> 404', async () => {
+    const res = await callDetailRoute('PATCH', { body: { locale: 'zh', activeVersion: 1 } })
+
+    expect(res.status).toBe(404)
+  })
+
+  it('keeps project overrides separate and forbids projects of other users', async () => {
+    const saved = await callDetailRoute('POST', {
+      body: { locale: 'zh', projectId: 'project-1', content: 'project {panels_json}' },
+    })
+    expect(saved.status).toBe(200)
+    expect(store.overrides).toEqual([
+      expect.objectContaining({ scopeKey: 'project:project-1', projectId: 'project-1' }),
+    ])
+
+    const userScope = await callDetailRoute('GET', { query: { locale: 'zh' } })
+    expect((await userScope.json() as DetailBody).template.activeVersion).toBeNull()
+
+    const forbiddenSave = await callDetailRoute('POST', {
+      body: { locale: 'zh', projectId: 'project-other', content: 'steal {panels_json}' },
+    })
+    expect(forbiddenSave.status).toBe(403)
+    const forbiddenRead = await callDetailRoute('GET', { query: { locale: 'zh', projectId: 'project-other' } })
+    expect(forbiddenRead.status).toBe(403)
+    const forbiddenDelete = await callDetailRoute('DELETE', { query: { locale: 'zh', projectId: 'project-other' } })
+    expect(forbiddenDelete.status).toBe(403)
+
+    const missingProject = await callDetailRoute('GET', { query: { locale: 'zh', projectId: 'project-missing' } })
+    expect(missingProject.status).toBe(404)
+    expect(store.overrides).toHaveLength(1)
+  })
+
+  it('DELETE removes the override with all versions', async () => {
+    await callDetailRoute('POST', { body: { locale: 'zh', content: 'v1 {panels_json}' } })
+
+    const res = await callDetailRoute('DELETE', { query: { locale: 'zh' } })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ success: true })
+    expect(store.overrides).toHaveLength(0)
+    expect(store.versions).toHaveLength(0)
+  })
+})
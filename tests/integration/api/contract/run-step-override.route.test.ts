@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+type RouteContext = {
+  params: Promise<{ runId: string; stepKey: string }>
+}
+
+const authState = vi.hoisted(() => ({ authenticated: true }))
+const getRunByIdMock = vi.hoisted(() => vi.fn())
+const getRunStepDetailMock = vi.hoisted(() => vi.fn())
+const overrideStepOutputMock = vi.hoisted(() => vi.fn())
+const submitTaskMock = vi.hoisted(() => vi.fn())
+const resolveRequiredTaskLocaleMock = vi.hoisted(() => vi.fn(() => 'zh'))
+
+vi.mock('@/lib/api-auth', () => {
+  const unauthorized = () => new Response(
+    JSON.stringify({ error: { code: 'UNAUTHORIZED' } }),
+    { status: 401, headers: { 'content-type': 'application/json' } },
+  )
+
+  return {
+    isErrorResponse: (value: unknown) => value instanceof Response,
+    requireUserAuth: async () => {
+      if (!authState.authenticated) return unauthorized()
+      return { session: { user: { id: 'user-1' } } }
+    },
+  }
+})
+
+vi.mock('@/lib/run-runtime/service', () => ({
+  getRunById: getRunByIdMock,
+  getRunStepDetail: getRunStepDetailMock,
+  overrideStepOutput: overrideStepOutputMock,
+}))
+
+vi.mock('@/lib/task/submitter', () => ({
+  submitTask: submitTaskMock,
+}))
+
+vi.mock('@/lib/task/resolve-locale', () => ({
+  resolveRequiredTaskLocale: resolveRequiredTaskLocaleMock,
+}))
+
+const EDITED_SPLIT = {
+  clipList: [
+    { id: 'clip_1', content: 'edited clip one' },
+    { id: 'clip_2', content: 'clip two' },
+  ],
+  charactersLibName: 'Hero',
+}
+
+function callPatch(stepKey: string, body: unknown) {
+  return import('@/app/api/runs/[runId]/steps/[stepKey]/route').then((route) => route.PATCH(
+    buildMockRequest({
+      path: `/api/runs/run-1/steps/${stepKey}`,
+      method: 'PATCH',
+      body,
+    }),
+    { params: Promise.resolve({ runId: 'run-1', stepKey }) } as RouteContext,
+  ))
+}
+
+describe('api contract - run step override route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    authState.authenticated = true
+
+    getRunByIdMock.mockResolvedValue({
+      id: 'run-1',
+      userId: 'user-1',
+      projectId: 'project-1',
+      episodeId: 'episode-1',
+      workflowType: 'story_to_script_run',
+      taskType: 'story_to_script_run',
+      targetType: 'NovelPromotionEpisode',
+      targetId: 'episode-1',
+      input: {
+        episodeId: 'episode-1',
+        content: 'test content',
+        meta: { locale: 'zh' },
+      },
+    })
+    overrideStepOutputMock.mockResolvedValue({
+      run: { id: 'run-1' },
+      step: { stepKey: 'split_clips' },
+      artifact: { payload: EDITED_SPLIT },
+      overrideAttempt: 2,
+      previousPayload: { clipList: [{ id: 'clip_1', content: 'clip one' }] },
+      invalidatedStepKeys: ['screenplay_clip_1', 'screenplay_clip_2'],
+    })
+    submitTaskMock.mockResolvedValue({
+      success: true,
+      async: true,
+      taskId: 'task-resume-1',
+      runId: 'run-1',
+      status: 'queued',
+      deduped: false,
+    })
+  })
+
+  it('rejects steps without an override contract', async () => {
+    const res = await callPatch('screenplay_clip_1', { payload: { screenplay: {} } })
+
+    expect(res.status).toBe(400)
+    expect(overrideStepOutputMock).not.toHaveBeenCalled()
+    expect(submitTaskMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects edited clips without content before touching the run', async () => {
+    const res = await callPatch('split_clips', {
+      payload: { clipList: [{ id: 'clip_1', content: '' }] },
+    })
+
+    expect(res.status).toBe(400)
+    const body = await res.json() as { error: { details?: { code?: string } } }
+    expect(body.error.details?.code).toBe('RUN_STEP_OVERRIDE_CLIP_INVALID')
+    expect(overrideStepOutputMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects a missing locale before overriding the step output', async () => {
+    const { ApiError } = await import('@/lib/api-errors')
+    resolveRequiredTaskLocaleMock.mockImplementationOnce(() => {
+      throw new ApiError('INVALID_PARAMS', { code: 'TASK_LOCALE_REQUIRED', field: 'meta.locale' })
+    })
+
+    const res = await callPatch('split_clips', { payload: EDITED_SPLIT })
+
+    expect(res.status).toBe(400)
+    expect(overrideStepOutputMock).not.toHaveBeenCalled()
+    expect(submitTaskMock).not.toHaveBeenCalled()
+  })
+
+  it('returns conflict while the run is still active', async () => {
+    overrideStepOutputMock.mockRejectedValueOnce(new Error('RUN_NOT_SETTLED'))
+
+    const res = await callPatch('split_clips', { payload: EDITED_SPLIT })
+
+    expect(res.status).toBe(409)
+    expect(submitTaskMock).not.toHaveBeenCalled()
+  })
+
+  it('overrides split_clips and resubmits the run resuming downstream', async () => {
+    const res = await callPatch('split_clips', { payload: EDITED_SPLIT, reason: 'fix boundary' })
+
+    expect(res.status).toBe(200)
+    const payload = await res.json() as {
+      overrideAttempt: number
+      invalidatedStepKeys: string[]
+      previousPayload: Record<string, unknown>
+      taskId: string
+    }
+    expect(payload.overrideAttempt).toBe(2)
+    expect(payload.invalidatedStepKeys).toEqual(['screenplay_clip_1', 'screenplay_clip_2'])
+    expect(payload.previousPayload).toEqual({ clipList: [{ id: 'clip_1', content: 'clip one' }] })
+    expect(payload.taskId).toBe('task-resume-1')
+
+    expect(overrideStepOutputMock).toHaveBeenCalledWith({
+      runId: 'run-1',
+      userId: 'user-1',
+      stepKey: 'split_clips',
+      artifactType: 'clips.split',
+      refId: null,
+      payload: EDITED_SPLIT,
+      reason: 'fix boundary',
+    })
+    expect(submitTaskMock).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'story_to_script_run',
+      payload: expect.objectContaining({
+        runId: 'run-1',
+        resumeFromStepKey: 'split_clips',
+        resumeAttempt: 2,
+      }),
+    }))
+  })
+
+  it('returns step detail with the last override for the diff view', async () => {
+    getRunStepDetailMock.mockResolvedValueOnce({
+      step: { stepKey: 'split_clips', status: 'completed' },
+      artifacts: [],
+      lastOverride: null,
+    })
+    const route = await import('@/app/api/runs/[runId]/steps/[stepKey]/route')
+    const res = await route.GET(
+      buildMockRequest({ path: '/api/runs/run-1/steps/split_clips', method: 'GET' }),
+      { params: Promise.resolve({ runId: 'run-1', stepKey: 'split_clips' }) } as RouteContext,
+    )
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as { overridable: boolean; overrideArtifactTypes: string[] }
+    expect(body.overridable).toBe(true)
+    expect(body.overrideArtifactTypes).toEqual(['clips.split'])
+  })
+})
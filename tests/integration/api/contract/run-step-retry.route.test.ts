@@ -100,6 +100,7 @@ describe('api contract - run step retry route', () => {
       body: {
         modelOverride: 'openai/gpt-5',
         reason: 'manual retry',
+        bypassCache: true,
       },
     })
     const res = await route.POST(req, {
@@ -128,6 +129,7 @@ describe('api contract - run step retry route', () => {
         retryStepKey: 'screenplay_clip_2',
         retryStepAttempt: 2,
         model: 'openai/gpt-5',
+        bypassCache: true,
       }),
     }))
   })
@@ -38,6 +38,8 @@ const dismissFailedTasksMock = vi.hoisted(() => vi.fn())
 const getTaskByIdMock = vi.hoisted(() => vi.fn())
 const cancelTaskMock = vi.hoisted(() => vi.fn())
 const removeTaskJobMock = vi.hoisted(() => vi.fn(async () => true))
+const runScheduledTaskNowMock = vi.hoisted(() => vi.fn())
+const getUserConcurrencyUsageMock = vi.hoisted(() => vi.fn(async () => ({ analysis: 1, image: 3, video: 0 })))
 const publishTaskEventMock = vi.hoisted(() => vi.fn(async () => undefined))
 const queryTaskTargetStatesMock = vi.hoisted(() => vi.fn())
 const withPrismaRetryMock = vi.hoisted(() => vi.fn(async <T>(fn: () => Promise<T>) => await fn()))
@@ -89,6 +91,19 @@ vi.mock('@/lib/task/queues', () => ({
   removeTaskJob: removeTaskJobMock,
 }))
 
+vi.mock('@/lib/task/submitter', () => ({
+  runScheduledTaskNow: runScheduledTaskNowMock,
+}))
+
+vi.mock('@/lib/workers/user-concurrency-gate', () => ({
+  CONCURRENCY_SCOPES: ['analysis', 'image', 'video'],
+  getUserConcurrencyUsage: getUserConcurrencyUsageMock,
+}))
+
+vi.mock('@/lib/config-service', () => ({
+  getUserWorkflowConcurrencyConfig: vi.fn(async () => ({ analysis: 5, image: 3, video: 2 })),
+}))
+
 vi.mock('@/lib/task/publisher', () => ({
   publishTaskEvent: publishTaskEventMock,
   getProjectChannel: vi.fn((projectId: string) => `project:${projectId}`),
@@ -351,6 +366,76 @@ describe('api contract - task infra routes (behavior)', () => {
     }))
   })
 
+  it('POST /api/tasks/[taskId]/run-now: promotes scheduled task; non-scheduled task -> 409', async () => {
+    const { POST } = await import('@/app/api/tasks/[taskId]/run-now/route')
+    const scheduledTask = { ...baseTask, status: TASK_STATUS.QUEUED }
+
+    getTaskByIdMock.mockResolvedValue(scheduledTask)
+    runScheduledTaskNowMock.mockResolvedValueOnce({ task: scheduledTask, promoted: true })
+    const req = buildMockRequest({ path: '/api/tasks/task-1/run-now', method: 'POST' })
+    const res = await POST(req, { params: Promise.resolve({ taskId: 'task-1' }) } as RouteContext)
+    expect(res.status).toBe(200)
+    expect(runScheduledTaskNowMock).toHaveBeenCalledWith('task-1')
+
+    runScheduledTaskNowMock.mockResolvedValueOnce({ task: scheduledTask, promoted: false })
+    const conflictReq = buildMockRequest({ path: '/api/tasks/task-1/run-now', method: 'POST' })
+    const conflictRes = await POST(conflictReq, { params: Promise.resolve({ taskId: 'task-1' }) } as RouteContext)
+    expect(conflictRes.status).toBe(409)
+
+    getTaskByIdMock.mockResolvedValue({ ...scheduledTask, userId: 'user-2' })
+    const foreignReq = buildMockRequest({ path: '/api/tasks/task-1/run-now', method: 'POST' })
+    const foreignRes = await POST(foreignReq, { params: Promise.resolve({ taskId: 'task-1' }) } as RouteContext)
+    expect(foreignRes.status).toBe(404)
+    expect(runScheduledTaskNowMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('POST /api/tasks/[taskId]/run-now: unauthenticated -> 401; missing task -> 404; returns promoted task', async () => {
+    const { POST } = await import('@/app/api/tasks/[taskId]/run-now/route')
+    const callRunNow = async () => {
+      const req = buildMockRequest({ path: '/api/tasks/task-1/run-now', method: 'POST' })
+      return await POST(req, { params: Promise.resolve({ taskId: 'task-1' }) } as RouteContext)
+    }
+
+    authState.authenticated = false
+    expect((await callRunNow()).status).toBe(401)
+
+    authState.authenticated = true
+    getTaskByIdMock.mockResolvedValueOnce(null)
+    expect((await callRunNow()).status).toBe(404)
+    expect(runScheduledTaskNowMock).not.toHaveBeenCalled()
+
+    const promotedTask = { ...baseTask, status: TASK_STATUS.QUEUED, runAfter: null }
+    getTaskByIdMock.mockResolvedValueOnce({ ...baseTask, status: TASK_STATUS.QUEUED })
+    runScheduledTaskNowMock.mockResolvedValueOnce({ task: promotedTask, promoted: true })
+    const res = await callRunNow()
+    expect(res.status).toBe(200)
+    const body = await res.json() as { success: boolean; task: { id: string; runAfter: string | null } }
+    expect(body.success).toBe(true)
+    expect(body.task).toMatchObject({ id: 'task-1', runAfter: null })
+
+    getTaskByIdMock.mockResolvedValueOnce({ ...baseTask, status: TASK_STATUS.PROCESSING })
+    runScheduledTaskNowMock.mockResolvedValueOnce({ task: baseTask, promoted: false })
+    const conflictRes = await callRunNow()
+    expect(conflictRes.status).toBe(409)
+    const conflictBody = await conflictRes.json() as { error: { details?: { code?: string } } }
+    expect(conflictBody.error.details?.code).toBe('TASK_NOT_SCHEDULED')
+  })
+
+  it('GET /api/tasks/concurrency: returns slot usage against configured limits', async () => {
+    const { GET } = await import('@/app/api/tasks/concurrency/route')
+
+    const res = await GET(buildMockRequest({ path: '/api/tasks/concurrency', method: 'GET' }), emptyRouteContext)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      concurrency: {
+        analysis: { active: 1, limit: 5 },
+        image: { active: 3, limit: 3 },
+        video: { active: 0, limit: 2 },
+      },
+    })
+    expect(getUserConcurrencyUsageMock).toHaveBeenCalledWith('user-1')
+  })
+
   it('GET /api/sse: missing projectId -> 400; unauthenticated with projectId -> 401', async () => {
     const { GET } = await import('@/app/api/sse/route')
 
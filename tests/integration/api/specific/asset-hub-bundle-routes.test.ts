@@ -0,0 +1,181 @@
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authMock = vi.hoisted(() => ({
+  requireUserAuth: vi.fn(async () => ({
+    session: { user: { id: 'user-1' } },
+  })),
+  isErrorResponse: vi.fn((value: unknown) => value instanceof Response),
+}))
+
+const prismaMock = vi.hoisted(() => ({
+  globalAssetFolder: {
+    findUnique: vi.fn(),
+    update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'folder-1', ...data })),
+  },
+}))
+
+const bundleMock = vi.hoisted(() => ({
+  ASSET_BUNDLE_CONFLICT_STRATEGIES: ['skip', 'rename', 'overwrite'],
+  buildAssetBundleManifest: vi.fn(),
+  createAssetBundleStream: vi.fn(),
+  importAssetBundle: vi.fn(),
+  copySharedAssetFolder: vi.fn(),
+}))
+
+vi.mock('@/lib/api-auth', () => authMock)
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/asset-bundle', () => bundleMock)
+
+const IMPORT_RESULT = {
+  folderId: 'folder-9',
+  mediaCount: 2,
+  items: [],
+  counts: { created: 2, renamed: 0, overwritten: 0, skipped: 1 },
+}
+
+function buildImportRequest(fields: Record<string, string | Blob>) {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value)
+  }
+  return new NextRequest(new URL('http://localhost:3000/api/asset-hub/import'), {
+    method: 'POST',
+    body: formData,
+  })
+}
+
+describe('api specific - asset hub bundle export/import and sharing', () => {
+  const bundleFile = () => new File([new Uint8Array([1, 2, 3])], 'cast.zip', { type: 'application/zip' })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.globalAssetFolder.findUnique.mockResolvedValue({ id: 'folder-1', userId: 'user-1', name: 'Cast' })
+  })
+
+  it('exports an owned folder as a zip bundle', async () => {
+    const built = { manifest: { format: 'waoowaoo.asset-bundle' }, media: [] }
+    bundleMock.buildAssetBundleManifest.mockResolvedValueOnce(built)
+    bundleMock.createAssetBundleStream.mockReturnValueOnce(new Blob([new Uint8Array([80, 75, 3, 4])]).stream())
+    const mod = await import('@/app/api/asset-hub/folders/[folderId]/export/route')
+    const req = buildMockRequest({ path: '/api/asset-hub/folders/folder-1/export', method: 'GET' })
+
+    const res = await mod.GET(req, { params: Promise.resolve({ folderId: 'folder-1' }) })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('application/zip')
+    expect(res.headers.get('content-disposition')).toBe(
+      `attachment; filename="${encodeURIComponent('Cast_assets.zip')}"`,
+    )
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(new Uint8Array([80, 75, 3, 4]))
+    expect(bundleMock.buildAssetBundleManifest).toHaveBeenCalledWith('folder-1')
+    expect(bundleMock.createAssetBundleStream).toHaveBeenCalledWith(built)
+  })
+
+  it('rejects exporting missing or foreign folders and folders without a manifest', async () => {
+    const mod = await import('@/app/api/asset-hub/folders/[folderId]/export/route')
+    const exportFolder = async (folderId: string) => await mod.GET(
+      buildMockRequest({ path: `/api/asset-hub/folders/${folderId}/export`, method: 'GET' }),
+      { params: Promise.resolve({ folderId }) },
+    )
+
+    prismaMock.globalAssetFolder.findUnique.mockResolvedValueOnce({ id: 'folder-2', userId: 'user-2', name: 'Theirs' })
+    expect((await exportFolder('folder-2')).status).toBe(403)
+
+    prismaMock.globalAssetFolder.findUnique.mockResolvedValueOnce(null)
+    expect((await exportFolder('folder-missing')).status).toBe(403)
+    expect(bundleMock.buildAssetBundleManifest).not.toHaveBeenCalled()
+
+    bundleMock.buildAssetBundleManifest.mockResolvedValueOnce(null)
+    expect((await exportFolder('folder-1')).status).toBe(404)
+    expect(bundleMock.createAssetBundleStream).not.toHaveBeenCalled()
+
+    authMock.requireUserAuth.mockResolvedValueOnce(
+      new Response(JSON.stringify({ error: { code: 'UNAUTHORIZED' } }), { status: 401 }) as never,
+    )
+    expect((await exportFolder('folder-1')).status).toBe(401)
+  })
+
+  it('imports a bundle with the requested conflict strategy', async () => {
+    bundleMock.importAssetBundle.mockResolvedValueOnce(IMPORT_RESULT)
+    const mod = await import('@/app/api/asset-hub/import/route')
+
+    const res = await mod.POST(
+      buildImportRequest({ file: bundleFile(), conflict: 'skip', folderId: 'folder-1' }),
+      { params: Promise.resolve({}) },
+    )
+
+    expect(res.status).toBe(201)
+    expect(bundleMock.importAssetBundle).toHaveBeenCalledWith({
+      userId: 'user-1',
+      archive: expect.any(Buffer),
+      conflict: 'skip',
+      targetFolderId: 'folder-1',
+    })
+  })
+
+  it('rejects unknown conflict strategies and foreign target folders', async () => {
+    const mod = await import('@/app/api/asset-hub/import/route')
+
+    const invalid = await mod.POST(buildImportRequest({ file: bundleFile(), conflict: 'merge' }), { params: Promise.resolve({}) })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error.details).toMatchObject({ code: 'BUNDLE_CONFLICT_INVALID', field: 'conflict' })
+
+    prismaMock.globalAssetFolder.findUnique.mockResolvedValueOnce({ id: 'folder-2', userId: 'user-2' })
+    const foreign = await mod.POST(buildImportRequest({ file: bundleFile(), folderId: 'folder-2' }), { params: Promise.resolve({}) })
+    expect(foreign.status).toBe(403)
+    expect(bundleMock.importAssetBundle).not.toHaveBeenCalled()
+  })
+
+  it('toggles folder sharing without requiring a rename', async () => {
+    const mod = await import('@/app/api/asset-hub/folders/[folderId]/route')
+    const req = buildMockRequest({
+      path: '/api/asset-hub/folders/folder-1',
+      method: 'PATCH',
+      body: { isShared: true },
+    })
+
+    const res = await mod.PATCH(req, { params: Promise.resolve({ folderId: 'folder-1' }) })
+
+    expect(res.status).toBe(200)
+    expect(prismaMock.globalAssetFolder.update).toHaveBeenCalledWith({
+      where: { id: 'folder-1' },
+      data: { isShared: true, sharedAt: expect.any(Date) },
+    })
+  })
+
+  it('copies selected assets from a shared folder', async () => {
+    bundleMock.copySharedAssetFolder.mockResolvedValueOnce(IMPORT_RESULT)
+    const mod = await import('@/app/api/asset-hub/shared/[folderId]/copy/route')
+    const req = buildMockRequest({
+      path: '/api/asset-hub/shared/folder-7/copy',
+      method: 'POST',
+      body: { conflict: 'overwrite', characterIds: ['char-1'] },
+    })
+
+    const res = await mod.POST(req, { params: Promise.resolve({ folderId: 'folder-7' }) })
+
+    expect(res.status).toBe(201)
+    expect(bundleMock.copySharedAssetFolder).toHaveBeenCalledWith({
+      folderId: 'folder-7',
+      userId: 'user-1',
+      conflict: 'overwrite',
+      targetFolderId: null,
+      selection: { characterIds: ['char-1'], locationIds: undefined, voiceIds: undefined },
+    })
+  })
+
+  it('returns 404 when copying from a folder that is not shared', async () => {
+    bundleMock.copySharedAssetFolder.mockResolvedValueOnce(null)
+    const mod = await import('@/app/api/asset-hub/shared/[folderId]/copy/route')
+    const req = buildMockRequest({
+      path: '/api/asset-hub/shared/folder-7/copy',
+      method: 'POST',
+      body: {},
+    })
+
+    const res = await mod.POST(req, { params: Promise.resolve({ folderId: 'folder-7' }) })
+    expect(res.status).toBe(404)
+  })
+})
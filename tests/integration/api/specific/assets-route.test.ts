@@ -169,6 +169,7 @@ describe('api specific - unified assets routes', () => {
       assetId: 'asset-1',
       projectId: 'project-1',
       newName: '林夏',
+      userId: 'user-1',
     })
   })
 
@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const authMock = vi.hoisted(() => ({
+  requireUserAuth: vi.fn(async () => ({
+    session: { user: { id: 'user-1' } },
+  })),
+  requireProjectAuthLight: vi.fn(async () => ({
+    session: { user: { id: 'user-1' } },
+    project: { id: 'project-1', userId: 'user-1', name: 'Demo' },
+  })),
+  isErrorResponse: vi.fn((value: unknown) => value instanceof Response),
+}))
+
+const archiveMock = vi.hoisted(() => {
+  class ProjectArchiveError extends Error {
+    constructor(readonly code: string, message: string, readonly path?: string) {
+      super(message)
+    }
+  }
+  return {
+    ARCHIVE_MAX_BYTES: 512 * 1024 * 1024,
+    ProjectArchiveError,
+    buildProjectArchiveManifest: vi.fn(),
+    createProjectArchiveStream: vi.fn(() => new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([0x50, 0x4b]))
+        controller.close()
+      },
+    })),
+    importProjectArchive: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/api-auth', () => authMock)
+vi.mock('@/lib/project-archive', () => archiveMock)
+
+function buildImportRequest(fields: Record<string, string | Blob>) {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value)
+  }
+  return new NextRequest(new URL('http://localhost:3000/api/projects/import'), {
+    method: 'POST',
+    body: formData,
+  })
+}
+
+describe('api specific - project archive export/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns 404 when the project has no archivable data', async () => {
+    archiveMock.buildProjectArchiveManifest.mockResolvedValueOnce(null)
+    const mod = await import('@/app/api/projects/[projectId]/export/route')
+    const req = new NextRequest(new URL('http://localhost:3000/api/projects/project-1/export'))
+
+    const res = await mod.GET(req, { params: Promise.resolve({ projectId: 'project-1' }) })
+    expect(res.status).toBe(404)
+  })
+
+  it('streams the archive as a zip attachment', async () => {
+    archiveMock.buildProjectArchiveManifest.mockResolvedValueOnce({ manifest: {}, media: [] })
+    const mod = await import('@/app/api/projects/[projectId]/export/route')
+    const req = new NextRequest(new URL('http://localhost:3000/api/projects/project-1/export'))
+
+    const res = await mod.GET(req, { params: Promise.resolve({ projectId: 'project-1' }) })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/zip')
+    expect(res.headers.get('Content-Disposition')).toContain('Demo_')
+    expect(authMock.requireProjectAuthLight).toHaveBeenCalledWith('project-1')
+  })
+
+  it('rejects import requests without an archive file', async () => {
+    const mod = await import('@/app/api/projects/import/route')
+    const res = await mod.POST(buildImportRequest({ name: 'x' }), { params: Promise.resolve({}) })
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body.error.details).toMatchObject({ code: 'ARCHIVE_FILE_REQUIRED', field: 'file' })
+    expect(archiveMock.importProjectArchive).not.toHaveBeenCalled()
+  })
+
+  it('surfaces archive validation errors with their code and path', async () => {
+    archiveMock.importProjectArchive.mockRejectedValueOnce(new archiveMock.ProjectArchiveError(
+      'ARCHIVE_VERSION_UNSUPPORTED',
+      'archive schema version 9 is newer than supported version 1',
+      'manifest.schemaVersion',
+    ))
+    const mod = await import('@/app/api/projects/import/route')
+    const file = new File([new Uint8Array([1, 2, 3])], 'demo.zip', { type: 'application/zip' })
+
+    const res = await mod.POST(buildImportRequest({ file }), { params: Promise.resolve({}) })
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body.error.details).toMatchObject({
+      code: 'ARCHIVE_VERSION_UNSUPPORTED',
+      field: 'manifest.schemaVersion',
+    })
+  })
+
+  it('imports the archive as a new project owned by the caller', async () => {
+    archiveMock.importProjectArchive.mockResolvedValueOnce({
+      projectId: 'project-2',
+      name: 'Renamed',
+      episodeCount: 2,
+      mediaCount: 5,
+    })
+    const mod = await import('@/app/api/projects/import/route')
+    const file = new File([new Uint8Array([1, 2, 3])], 'demo.zip', { type: 'application/zip' })
+
+    const res = await mod.POST(buildImportRequest({ file, name: ' Renamed ' }), { params: Promise.resolve({}) })
+
+    expect(res.status).toBe(201)
+    await expect(res.json()).resolves.toMatchObject({ projectId: 'project-2', episodeCount: 2 })
+    expect(archiveMock.importProjectArchive).toHaveBeenCalledWith({
+      userId: 'user-1',
+      archive: expect.any(Buffer),
+      name: 'Renamed',
+    })
+  })
+})
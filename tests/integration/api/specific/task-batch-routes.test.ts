@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildMockRequest } from '../../../helpers/request'
+
+const authMock = vi.hoisted(() => ({
+  requireProjectAuthLight: vi.fn(async () => ({
+    session: { user: { id: 'user-1' } },
+    project: { id: 'project-1', userId: 'user-1' },
+  })),
+  isErrorResponse: vi.fn((value: unknown) => value instanceof Response),
+}))
+
+const batchMock = vi.hoisted(() => ({
+  quoteTaskBatch: vi.fn(),
+  createTaskBatch: vi.fn(),
+  listTaskBatches: vi.fn(),
+  getTaskBatch: vi.fn(),
+  cancelTaskBatch: vi.fn(),
+  retryFailedTaskBatch: vi.fn(),
+}))
+
+vi.mock('@/lib/api-auth', () => authMock)
+vi.mock('@/lib/task-batch', async () => ({
+  ...(await vi.importActual<typeof import('@/lib/task-batch/request')>('@/lib/task-batch/request')),
+  ...batchMock,
+}))
+
+const PROGRESS = {
+  batchId: 'batch-1',
+  status: 'running',
+  total: 3,
+  completed: 0,
+  failed: 0,
+  canceled: 0,
+  active: 3,
+  progress: 0,
+}
+
+const routeContext = <T extends Record<string, string>>(params: T) => ({
+  params: Promise.resolve({ projectId: 'project-1', ...params }),
+})
+
+describe('api specific - episode task batches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('quotes a batch with parsed selection filters and model options', async () => {
+    batchMock.quoteTaskBatch.mockResolvedValueOnce({ quote: { count: 3, totalCost: 4.5 }, items: [] })
+    const mod = await import('@/app/api/novel-promotion/[projectId]/task-batches/quote/route')
+
+    const res = await mod.POST(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches/quote',
+      method: 'POST',
+      body: {
+        episodeId: 'episode-1',
+        kind: 'panel_video',
+        selection: { storyboardIds: ['sb-1'] },
+        options: { videoModel: 'fal::kling', generationOptions: { duration: 5 } },
+      },
+    }), routeContext({}))
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ quote: { count: 3, totalCost: 4.5 }, items: [] })
+    expect(batchMock.quoteTaskBatch).toHaveBeenCalledWith({
+      projectId: 'project-1',
+      userId: 'user-1',
+      episodeId: 'episode-1',
+      kind: 'panel_video',
+      selection: { storyboardIds: ['sb-1'] },
+      options: { videoModel: 'fal::kling', generationOptions: { duration: 5 } },
+    })
+  })
+
+  it('rejects unknown batch kinds and malformed selections before planning', async () => {
+    const mod = await import('@/app/api/novel-promotion/[projectId]/task-batches/quote/route')
+
+    const badKind = await mod.POST(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches/quote',
+      method: 'POST',
+      body: { episodeId: 'episode-1', kind: 'everything' },
+    }), routeContext({}))
+    const badSelection = await mod.POST(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches/quote',
+      method: 'POST',
+      body: { episodeId: 'episode-1', kind: 'voice_line', selection: { targetIds: 'line-1' } },
+    }), routeContext({}))
+
+    expect(badKind.status).toBe(400)
+    expect(badSelection.status).toBe(400)
+    expect(batchMock.quoteTaskBatch).not.toHaveBeenCalled()
+  })
+
+  it('creates a batch with the confirmed quote and request locale', async () => {
+    batchMock.createTaskBatch.mockResolvedValueOnce(PROGRESS)
+    const mod = await import('@/app/api/novel-promotion/[projectId]/task-batches/route')
+
+    const res = await mod.POST(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches',
+      method: 'POST',
+      headers: { 'accept-language': 'en-US' },
+      body: { episodeId: 'episode-1', kind: 'voice_line', expectedTotalCost: 4.5 },
+    }), routeContext({}))
+
+    expect(res.status).toBe(201)
+    expect(await res.json()).toEqual({ success: true, batch: PROGRESS })
+    expect(batchMock.createTaskBatch).toHaveBeenCalledWith(expect.objectContaining({
+      kind: 'voice_line',
+      episodeId: 'episode-1',
+      locale: 'en',
+      expectedTotalCost: 4.5,
+    }))
+  })
+
+  it('returns 404 for batches outside the project', async () => {
+    batchMock.getTaskBatch.mockResolvedValueOnce(null)
+    batchMock.cancelTaskBatch.mockResolvedValueOnce(null)
+    const detail = await import('@/app/api/novel-promotion/[projectId]/task-batches/[batchId]/route')
+    const cancel = await import('@/app/api/novel-promotion/[projectId]/task-batches/[batchId]/cancel/route')
+
+    const detailRes = await detail.GET(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches/batch-x',
+      method: 'GET',
+    }), routeContext({ batchId: 'batch-x' }))
+    const cancelRes = await cancel.POST(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches/batch-x/cancel',
+      method: 'POST',
+    }), routeContext({ batchId: 'batch-x' }))
+
+    expect(detailRes.status).toBe(404)
+    expect(cancelRes.status).toBe(404)
+    expect(batchMock.getTaskBatch).toHaveBeenCalledWith('project-1', 'batch-x')
+  })
+
+  it('retries failed items of a batch', async () => {
+    batchMock.retryFailedTaskBatch.mockResolvedValueOnce({ retriedCount: 2, quote: { totalCost: 3 }, progress: PROGRESS })
+    const mod = await import('@/app/api/novel-promotion/[projectId]/task-batches/[batchId]/retry-failed/route')
+
+    const res = await mod.POST(buildMockRequest({
+      path: '/api/novel-promotion/project-1/task-batches/batch-1/retry-failed',
+      method: 'POST',
+      body: { locale: 'zh' },
+    }), routeContext({ batchId: 'batch-1' }))
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true, retriedCount: 2 })
+    expect(batchMock.retryFailedTaskBatch).toHaveBeenCalledWith('project-1', 'batch-1', expect.objectContaining({ locale: 'zh' }))
+  })
+})
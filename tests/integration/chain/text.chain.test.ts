@@ -79,6 +79,16 @@ vi.mock('@/lib/workers/handlers/llm-stream', () => ({
   createWorkerLLMStreamContext: vi.fn(() => ({ streamId: 'run-1' })),
   createWorkerLLMStreamCallbacks: vi.fn(() => ({ flush: vi.fn(async () => undefined) })),
 }))
+vi.mock('@/lib/run-runtime/service', () => ({
+  createArtifact: vi.fn(async () => ({})),
+}))
+vi.mock('@/lib/run-runtime/workflow-lease', () => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
 vi.mock('@/lib/prompt-i18n', () => ({
   PROMPT_IDS: { NP_EPISODE_SPLIT: 'np_episode_split' },
   buildPrompt: vi.fn(() => 'episode-split-prompt'),
@@ -190,7 +200,7 @@ describe('chain contract - text queue behavior', () => {
       episodeId: null,
       targetType: 'NovelPromotionProject',
       targetId: 'project-1',
-      payload: { content },
+      payload: { content, runId: 'run-text-chain-1' },
       userId: 'user-1',
     })
 
@@ -199,10 +209,11 @@ describe('chain contract - text queue behavior', () => {
     expect(queued?.type).toBe(TASK_TYPE.EPISODE_SPLIT_LLM)
 
     const result = await handleEpisodeSplitTask(toJob(queued!))
-    expect(result.success).toBe(true)
-    expect(result.episodes).toHaveLength(1)
-    expect(result.episodes[0]?.title).toBe('第一集')
-    expect(result.episodes[0]?.content).toContain('START_MARKER')
-    expect(result.episodes[0]?.content).toContain('END_MARKER')
+    expect(result).toEqual(expect.objectContaining({ success: true }))
+    const episodes = 'episodes' in result ? result.episodes : []
+    expect(episodes).toHaveLength(1)
+    expect(episodes[0]?.title).toBe('第一集')
+    expect(episodes[0]?.content).toContain('START_MARKER')
+    expect(episodes[0]?.content).toContain('END_MARKER')
   })
 })
@@ -163,6 +163,26 @@ describe('chain contract - video queue behavior', () => {
     expect(calls[0]?.data.type).toBe(TASK_TYPE.LIP_SYNC)
   })
 
+  it('VIDEO_RENDER is enqueued into video queue', async () => {
+    const { addTaskJob, QUEUE_NAME } = await import('@/lib/task/queues')
+
+    await addTaskJob({
+      taskId: 'task-video-render-1',
+      type: TASK_TYPE.VIDEO_RENDER,
+      locale: 'zh',
+      projectId: 'project-1',
+      episodeId: 'episode-1',
+      targetType: 'VideoEditorProject',
+      targetId: 'editor-1',
+      payload: { episodeId: 'episode-1', format: 'mp4', quality: 'high' },
+      userId: 'user-1',
+    })
+
+    const calls = queueState.addCallsByQueue.get(QUEUE_NAME.VIDEO) || []
+    expect(calls).toHaveLength(1)
+    expect(calls[0]?.data.type).toBe(TASK_TYPE.VIDEO_RENDER)
+  })
+
   it('queued video job payload can be consumed by video worker and persist lipSyncVideoUrl', async () => {
     const { addTaskJob, QUEUE_NAME } = await import('@/lib/task/queues')
     const { createVideoWorker } = await import('@/lib/workers/video.worker')
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { submitTask } from '@/lib/task/submitter'
+import { TASK_TYPE } from '@/lib/task/types'
+import { prisma } from '../helpers/prisma'
+import { resetBillingState } from '../helpers/db-reset'
+import { createTestUser, seedBalance } from '../helpers/billing-fixtures'
+
+vi.mock('@/lib/task/queues', () => ({
+  addTaskJob: vi.fn(async () => ({ id: 'mock-job' })),
+}))
+
+vi.mock('@/lib/task/publisher', () => ({
+  publishTaskEvent: vi.fn(async () => ({})),
+}))
+
+function submitVoiceLine(userId: string, targetId: string) {
+  return submitTask({
+    userId,
+    locale: 'en',
+    projectId: 'project-regression-budget',
+    type: TASK_TYPE.VOICE_LINE,
+    targetType: 'VoiceLine',
+    targetId,
+    payload: { maxSeconds: 6 },
+  })
+}
+
+describe('regression - budget reservation release', () => {
+  beforeEach(async () => {
+    await resetBillingState()
+    vi.clearAllMocks()
+  })
+
+  it.each(['ENFORCE', 'SHADOW'] as const)('does not keep the quote of a rejected submission in %s mode', async (mode) => {
+    process.env.BILLING_MODE = mode
+    const user = await createTestUser()
+    await seedBalance(user.id, 10)
+    await prisma.billingBudget.create({
+      data: { userId: user.id, scopeKey: 'user', monthlyLimit: 0.000001 },
+    })
+
+    const rejected = await submitVoiceLine(user.id, 'line-rejected').catch((error: unknown) => error)
+    expect(rejected).toMatchObject({ code: 'BUDGET_EXCEEDED' })
+    const required = (rejected as { details?: { required?: number } }).details?.required
+    expect(typeof required).toBe('number')
+
+    // 预算刚好容纳一次提交：被拒任务的报价若仍计入，这次会再次超限
+    await prisma.billingBudget.update({
+      where: { userId_scopeKey: { userId: user.id, scopeKey: 'user' } },
+      data: { monthlyLimit: required },
+    })
+    const accepted = await submitVoiceLine(user.id, 'line-accepted')
+    expect(accepted.success).toBe(true)
+
+    const failedTask = await prisma.task.findFirst({
+      where: { userId: user.id, targetId: 'line-rejected' },
+    })
+    expect(failedTask).toMatchObject({ status: 'failed', errorCode: 'BUDGET_EXCEEDED' })
+  })
+})
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type CacheRow = {
+  id: string
+  projectId: string
+  cacheKey: string
+  model: string
+  text: string
+  reasoning: string | null
+  promptTokens: number
+  completionTokens: number
+  expiresAt: Date
+}
+
+const prismaMock = vi.hoisted(() => ({
+  novelPromotionProject: {
+    findUnique: vi.fn(async () => ({ llmCacheEnabled: true } as { llmCacheEnabled: boolean } | null)),
+  },
+  llmResponseCache: {
+    findUnique: vi.fn(async () => null as CacheRow | null),
+    findMany: vi.fn(async () => [] as Array<{ id: string }>),
+    update: vi.fn(async () => ({})),
+    upsert: vi.fn(async () => ({})),
+    deleteMany: vi.fn(async () => ({ count: 0 })),
+  },
+}))
+const runModelGatewayTextCompletionMock = vi.hoisted(() => vi.fn(async () => ({
+  id: 'cmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'gpt-5',
+  choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', content: 'fresh output', refusal: null } }],
+  usage: { prompt_tokens: 1200, completion_tokens: 300, total_tokens: 1500 },
+})))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/model-gateway/llm', () => ({
+  runModelGatewayTextCompletion: runModelGatewayTextCompletionMock,
+  runModelGatewayVisionCompletion: vi.fn(),
+}))
+vi.mock('@/lib/provider-rate-limit', () => ({
+  estimatePromptTokens: vi.fn(() => 0),
+  resolveProviderRateLimitRules: vi.fn(async () => null),
+  withProviderRateLimit: vi.fn(),
+}))
+
+import { executeAiTextStep } from '@/lib/ai-runtime'
+import { buildAiTextCacheKey } from '@/lib/ai-runtime/response-cache'
+import { withTextUsageCollection } from '@/lib/billing/runtime-usage'
+import { withInternalLLMStreamCallbacks } from '@/lib/llm-observe/internal-stream-context'
+
+const STEP_INPUT = {
+  userId: 'user-1',
+  model: 'openai::gpt-5',
+  messages: [{ role: 'user' as const, content: 'split this chapter' }],
+  projectId: 'project-1',
+  action: 'split_clips',
+  temperature: 0.7,
+  meta: { stepId: 'split_clips', stepTitle: 'Split', stepIndex: 1, stepTotal: 1 },
+  cache: { promptVersion: 'v1' },
+}
+
+function cachedRow(overrides: Partial<CacheRow> = {}): CacheRow {
+  return {
+    id: 'cache-1',
+    projectId: 'project-1',
+    cacheKey: 'key',
+    model: 'gpt-5',
+    text: 'cached output',
+    reasoning: null,
+    promptTokens: 1200,
+    completionTokens: 300,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  }
+}
+
+describe('ai-runtime response cache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.novelPromotionProject.findUnique.mockResolvedValue({ llmCacheEnabled: true })
+    prismaMock.llmResponseCache.findUnique.mockResolvedValue(null)
+  })
+
+  it('keys on model, messages, temperature and prompt version', () => {
+    const base = { model: 'm', messages: STEP_INPUT.messages, temperature: 0.7, promptVersion: 'v1' }
+    const key = buildAiTextCacheKey(base)
+
+    expect(buildAiTextCacheKey({ ...base })).toBe(key)
+    expect(buildAiTextCacheKey({ ...base, model: 'other' })).not.toBe(key)
+    expect(buildAiTextCacheKey({ ...base, temperature: 0.2 })).not.toBe(key)
+    expect(buildAiTextCacheKey({ ...base, promptVersion: 'v2' })).not.toBe(key)
+    expect(buildAiTextCacheKey({ ...base, messages: [{ role: 'user', content: 'edited' }] })).not.toBe(key)
+  })
+
+  it('calls the model on a miss and stores the response for the project', async () => {
+    const result = await executeAiTextStep(STEP_INPUT)
+
+    expect(result.text).toBe('fresh output')
+    expect(result.cacheHit).toBeUndefined()
+    expect(runModelGatewayTextCompletionMock).toHaveBeenCalledTimes(1)
+    expect(prismaMock.llmResponseCache.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        projectId: 'project-1',
+        model: 'gpt-5',
+        text: 'fresh output',
+        promptTokens: 1200,
+        completionTokens: 300,
+      }),
+    }))
+  })
+
+  it('replays a hit without calling the model and records zero-cost usage', async () => {
+    prismaMock.llmResponseCache.findUnique.mockResolvedValueOnce(cachedRow())
+    const chunks: string[] = []
+
+    const { result, textUsage } = await withTextUsageCollection(async () => await withInternalLLMStreamCallbacks({
+      onChunk: (chunk) => { chunks.push(chunk.delta) },
+    }, async () => await executeAiTextStep(STEP_INPUT)))
+
+    expect(result.text).toBe('cached output')
+    expect(result.cacheHit).toBe(true)
+    expect(result.usage.totalTokens).toBe(0)
+    expect(chunks.join('')).toBe('cached output')
+    expect(runModelGatewayTextCompletionMock).not.toHaveBeenCalled()
+    expect(prismaMock.llmResponseCache.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ hitCount: { increment: 1 } }),
+    }))
+    expect(textUsage).toEqual([{ model: 'gpt-5', inputTokens: 1200, outputTokens: 300, cached: true }])
+  })
+
+  it('bypass skips the lookup but refreshes the stored entry', async () => {
+    await executeAiTextStep({ ...STEP_INPUT, cache: { promptVersion: 'v1', bypass: true } })
+
+    expect(prismaMock.llmResponseCache.findUnique).not.toHaveBeenCalled()
+    expect(runModelGatewayTextCompletionMock).toHaveBeenCalledTimes(1)
+    expect(prismaMock.llmResponseCache.upsert).toHaveBeenCalledTimes(1)
+  })
+
+  it('ignores expired entries and projects that have not opted in', async () => {
+    prismaMock.llmResponseCache.findUnique.mockResolvedValueOnce(cachedRow({ expiresAt: new Date(Date.now() - 1) }))
+    const expired = await executeAiTextStep(STEP_INPUT)
+    expect(expired.text).toBe('fresh output')
+    expect(prismaMock.llmResponseCache.deleteMany).toHaveBeenCalledWith({ where: { id: 'cache-1' } })
+
+    vi.clearAllMocks()
+    prismaMock.novelPromotionProject.findUnique.mockResolvedValueOnce({ llmCacheEnabled: false })
+    await executeAiTextStep(STEP_INPUT)
+    expect(prismaMock.llmResponseCache.findUnique).not.toHaveBeenCalled()
+    expect(prismaMock.llmResponseCache.upsert).not.toHaveBeenCalled()
+  })
+
+  it('evicts least recently used entries beyond the per-project limit', async () => {
+    prismaMock.llmResponseCache.findMany.mockResolvedValueOnce([{ id: 'old-1' }, { id: 'old-2' }])
+
+    await executeAiTextStep(STEP_INPUT)
+
+    expect(prismaMock.llmResponseCache.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { projectId: 'project-1' },
+      orderBy: { lastUsedAt: 'desc' },
+    }))
+    expect(prismaMock.llmResponseCache.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['old-1', 'old-2'] } },
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const prismaMock = vi.hoisted(() => ({
+  globalArtStyle: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}))
+const releaseStorageObjectMock = vi.hoisted(() => vi.fn(async () => undefined))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: prismaMock,
+}))
+
+vi.mock('@/lib/media/service', () => ({
+  resolveMediaRefFromLegacyValue: vi.fn(async () => null),
+  resolveStorageKeyFromMediaValue: vi.fn(async (value: string) => value),
+}))
+
+vi.mock('@/lib/media/dedup', () => ({
+  releaseStorageObject: releaseStorageObjectMock,
+}))
+
+import {
+  assertArtStyleReferenceImageSlot,
+  assertArtStyleSelectable,
+  deleteArtStyle,
+  formatArtStylePrompt,
+  parseArtStyleInput,
+  removeArtStyleReferenceImage,
+  resolveArtStyle,
+} from '@/lib/art-style'
+import { getArtStylePrompt } from '@/lib/constants'
+
+const customStyle = {
+  id: 'style-1',
+  userId: 'owner-1',
+  name: '水彩',
+  promptZh: '水彩绘本风格',
+  promptEn: 'watercolor picture book style',
+  negativePrompt: '3D 渲染',
+  referenceImages: JSON.stringify(['images/ref-1.jpg', 'images/ref-2.jpg']),
+  modelOverrides: JSON.stringify({
+    'fal::flux': { promptEn: 'soft watercolor, flux tuned', negativePrompt: 'photo' },
+  }),
+}
+
+describe('art-style service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('resolves built-in styles from constants without touching the library', async () => {
+    const resolved = await resolveArtStyle({ artStyle: 'realistic', userId: 'user-1', locale: 'en' })
+
+    expect(resolved).toEqual({
+      prompt: getArtStylePrompt('realistic', 'en'),
+      negativePrompt: '',
+      referenceImages: [],
+    })
+    expect(prismaMock.globalArtStyle.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('resolves custom styles by locale and applies per-model overrides', async () => {
+    prismaMock.globalArtStyle.findFirst.mockResolvedValue(customStyle)
+
+    await expect(resolveArtStyle({ artStyle: 'custom:style-1', userId: 'user-1', locale: 'zh' })).resolves.toEqual({
+      prompt: '水彩绘本风格',
+      negativePrompt: '3D 渲染',
+      referenceImages: ['images/ref-1.jpg', 'images/ref-2.jpg'],
+    })
+    await expect(resolveArtStyle({
+      artStyle: 'custom:style-1',
+      userId: 'user-1',
+      locale: 'en',
+      modelKey: 'fal::flux',
+    })).resolves.toMatchObject({
+      prompt: 'soft watercolor, flux tuned',
+      negativePrompt: 'photo',
+    })
+    expect(prismaMock.globalArtStyle.findFirst).toHaveBeenCalledWith({
+      where: { id: 'style-1', OR: [{ userId: 'user-1' }, { isShared: true }] },
+    })
+  })
+
+  it('returns an empty style when the custom style is gone or no longer shared', async () => {
+    prismaMock.globalArtStyle.findFirst.mockResolvedValue(null)
+
+    await expect(resolveArtStyle({ artStyle: 'custom:missing', userId: 'user-1', locale: 'zh' })).resolves.toEqual({
+      prompt: '',
+      negativePrompt: '',
+      referenceImages: [],
+    })
+  })
+
+  it('folds the negative prompt into the style text', () => {
+    expect(formatArtStylePrompt({ prompt: '水彩', negativePrompt: '3D 渲染', referenceImages: [] }, 'zh')).toBe('水彩。避免：3D 渲染')
+    expect(formatArtStylePrompt({ prompt: 'watercolor', negativePrompt: 'photo', referenceImages: [] }, 'en')).toBe('watercolor. Avoid: photo')
+    expect(formatArtStylePrompt({ prompt: 'watercolor', negativePrompt: '', referenceImages: [] }, 'en')).toBe('watercolor')
+  })
+
+  it('validates input and shares a single-language prompt across locales', () => {
+    expect(parseArtStyleInput({ name: ' 水彩 ', promptZh: '水彩风格' })).toEqual({
+      name: '水彩',
+      promptZh: '水彩风格',
+      promptEn: '水彩风格',
+      negativePrompt: null,
+      modelOverrides: {},
+      isShared: false,
+    })
+    expect(parseArtStyleInput({ isShared: true }, { partial: true })).toEqual({ isShared: true })
+    expect(() => parseArtStyleInput({ promptZh: 'x' })).toThrow(expect.objectContaining({
+      details: expect.objectContaining({ code: 'ART_STYLE_NAME_REQUIRED', field: 'name' }),
+    }))
+  })
+
+  it('rejects custom styles that are not accessible to the user', async () => {
+    prismaMock.globalArtStyle.findFirst.mockResolvedValue(null)
+
+    await expect(assertArtStyleSelectable('user-1', 'custom:other')).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'ART_STYLE_NOT_FOUND', field: 'artStyle' }),
+    })
+    await expect(assertArtStyleSelectable('user-1', 'realistic')).resolves.toBeUndefined()
+  })
+
+  it('checks ownership and the reference image limit before an upload', async () => {
+    prismaMock.globalArtStyle.findUnique.mockResolvedValueOnce(customStyle)
+    await expect(assertArtStyleReferenceImageSlot('user-1', 'style-1')).rejects.toMatchObject({ code: 'FORBIDDEN' })
+
+    prismaMock.globalArtStyle.findUnique.mockResolvedValueOnce({
+      ...customStyle,
+      referenceImages: JSON.stringify(['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg']),
+    })
+    await expect(assertArtStyleReferenceImageSlot('owner-1', 'style-1')).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'ART_STYLE_REFERENCE_LIMIT' }),
+    })
+
+    prismaMock.globalArtStyle.findUnique.mockResolvedValueOnce(customStyle)
+    await expect(assertArtStyleReferenceImageSlot('owner-1', 'style-1')).resolves.toBeUndefined()
+  })
+
+  it('releases the storage object of a removed reference image', async () => {
+    prismaMock.globalArtStyle.findUnique.mockResolvedValue(customStyle)
+    prismaMock.globalArtStyle.update.mockResolvedValue({
+      ...customStyle,
+      referenceImages: JSON.stringify(['images/ref-2.jpg']),
+      isShared: false,
+      updatedAt: new Date('2026-10-19T00:00:00Z'),
+    })
+
+    await removeArtStyleReferenceImage('owner-1', 'style-1', 0)
+
+    expect(releaseStorageObjectMock).toHaveBeenCalledTimes(1)
+    expect(releaseStorageObjectMock).toHaveBeenCalledWith('images/ref-1.jpg')
+  })
+
+  it('releases every reference image when a style is deleted', async () => {
+    prismaMock.globalArtStyle.findUnique.mockResolvedValue(customStyle)
+    releaseStorageObjectMock.mockRejectedValueOnce(new Error('storage down'))
+
+    await deleteArtStyle('owner-1', 'style-1')
+
+    expect(prismaMock.globalArtStyle.delete).toHaveBeenCalledWith({ where: { id: 'style-1' } })
+    expect(releaseStorageObjectMock.mock.calls).toEqual([['images/ref-1.jpg'], ['images/ref-2.jpg']])
+  })
+})
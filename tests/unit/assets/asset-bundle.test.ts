@@ -0,0 +1,270 @@
+import { Readable } from 'node:stream'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type Row = Record<string, unknown>
+
+const MEDIA_BYTES: Record<string, Buffer> = {
+  'images/alice-0.jpg': Buffer.from('alice-0'),
+  'images/alice-1.jpg': Buffer.from('alice-1'),
+  'images/street.jpg': Buffer.from('street'),
+  'voice/narrator.mp3': Buffer.from('narrator'),
+}
+
+const prismaMock = vi.hoisted(() => {
+  const model = () => ({
+    findMany: vi.fn(async () => [] as Row[]),
+    create: vi.fn(async ({ data }: { data: Row }) => ({ id: `new-${String(data.name)}`, ...data })),
+    createMany: vi.fn(async () => ({ count: 1 })),
+    update: vi.fn(async () => ({})),
+    deleteMany: vi.fn(async () => ({ count: 1 })),
+  })
+  return {
+    globalAssetFolder: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(async () => ({ id: 'folder-new' })),
+    },
+    globalCharacter: model(),
+    globalCharacterAppearance: model(),
+    globalLocation: model(),
+    globalLocationImage: model(),
+    globalVoice: model(),
+    mediaObject: { findUnique: vi.fn(async () => null) },
+    $transaction: vi.fn(),
+  }
+})
+
+const uploadMock = vi.hoisted(() => vi.fn(async (_body: Buffer, key: string) => `imported/${key}`))
+const retainMock = vi.hoisted(() => vi.fn(async () => undefined))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/storage', () => ({
+  headObject: vi.fn(async (key: string) => (MEDIA_BYTES[key] ? { key, size: MEDIA_BYTES[key].length } : null)),
+  getObjectStream: vi.fn(async (key: string) => ({ body: Readable.from([MEDIA_BYTES[key]]) })),
+  generateUniqueKey: vi.fn((prefix: string, ext: string) => `${prefix}.${ext}`),
+}))
+vi.mock('@/lib/media/dedup', () => ({ uploadDedupedObject: uploadMock, retainMediaObject: retainMock }))
+vi.mock('@/lib/media/service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/media/service')>()),
+  resolveStorageKeyFromMediaValue: vi.fn(async (value: string) => value),
+  ensureMediaObjectFromStorageKey: vi.fn(async (storageKey: string) => ({
+    id: `media:${storageKey}`,
+    url: `/m/${storageKey}`,
+  })),
+}))
+
+import {
+  ASSET_BUNDLE_FORMAT,
+  buildAssetBundleManifest,
+  copySharedAssetFolder,
+  createAssetBundleStream,
+  importAssetBundle,
+  mergeAssetBundle,
+} from '@/lib/asset-bundle'
+
+function folderTree() {
+  return {
+    id: 'folder-1',
+    userId: 'owner-1',
+    name: 'Recurring cast',
+    characters: [{
+      id: 'char-1',
+      name: 'Alice',
+      aliases: null,
+      profileData: null,
+      profileConfirmed: true,
+      voiceId: 'qwen-tts-vd-owner-voice',
+      voiceType: 'qwen-designed',
+      customVoiceUrl: null,
+      globalVoiceId: 'voice-1',
+      appearances: [{
+        id: 'app-1',
+        appearanceIndex: 0,
+        changeReason: 'default',
+        artStyle: null,
+        description: 'red coat',
+        descriptions: null,
+        imageUrl: 'images/alice-0.jpg',
+        imageUrls: JSON.stringify(['images/alice-0.jpg', 'images/alice-1.jpg']),
+        selectedIndex: 1,
+      }],
+    }],
+    locations: [{
+      id: 'loc-1',
+      name: 'Street',
+      artStyle: null,
+      summary: 'night market',
+      assetKind: 'location',
+      images: [
+        { id: 'img-0', imageIndex: 0, description: 'a', availableSlots: null, imageUrl: 'images/missing.jpg', isSelected: false },
+        { id: 'img-1', imageIndex: 1, description: 'b', availableSlots: null, imageUrl: 'images/street.jpg', isSelected: true },
+      ],
+    }],
+    voices: [{
+      id: 'voice-1',
+      name: 'Narrator',
+      description: 'calm',
+      voiceId: 'longxiaochun',
+      voiceType: 'custom',
+      customVoiceUrl: 'voice/narrator.mp3',
+      voicePrompt: null,
+      gender: 'female',
+      language: 'zh',
+    }],
+  }
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(Buffer.from(value))
+  }
+  return Buffer.concat(chunks)
+}
+
+function firstCallData(fn: { mock: { calls: unknown[][] } }): Row {
+  return (fn.mock.calls[0][0] as { data: Row }).data
+}
+
+describe('asset bundle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.globalAssetFolder.findUnique.mockResolvedValue(folderTree())
+    prismaMock.globalAssetFolder.findFirst.mockResolvedValue({ id: 'folder-1' })
+    prismaMock.$transaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) => await fn(prismaMock))
+  })
+
+  it('exports only selected images and omits provider-bound voice ids', async () => {
+    const { manifest } = (await buildAssetBundleManifest('folder-1'))!
+
+    expect(manifest.format).toBe(ASSET_BUNDLE_FORMAT)
+    expect(manifest.media.map((entry) => entry.path)).toEqual(['media/m00001.jpg', 'media/m00002.jpg', 'media/m00003.mp3'])
+
+    const appearance = manifest.characters[0].appearances[0]
+    expect(appearance.imageUrl).toBe('archive-media://m00001')
+    expect(appearance.imageUrls).toBe(JSON.stringify(['archive-media://m00001']))
+    expect(appearance.selectedIndex).toBe(0)
+    expect(manifest.locations[0].images).toEqual([
+      expect.objectContaining({ id: 'img-1', imageIndex: 0, isSelected: true, imageUrl: 'archive-media://m00002' }),
+    ])
+
+    // 设计音色绑定创建者的提供商账号，不导出；系统音色 ID 可移植
+    expect(manifest.characters[0].voiceId).toBeNull()
+    expect(manifest.characters[0].globalVoiceId).toBe('voice-1')
+    expect(manifest.voices[0].voiceId).toBe('longxiaochun')
+    expect(manifest.omittedVoiceIds).toBe(1)
+  })
+
+  it('imports a bundle into a new folder with remapped media and voice binding', async () => {
+    const archive = await readStream(createAssetBundleStream((await buildAssetBundleManifest('folder-1'))!))
+
+    const result = await importAssetBundle({ userId: 'user-2', archive, conflict: 'rename' })
+
+    expect(result.folderId).toBe('folder-new')
+    expect(result.counts).toEqual({ created: 3, renamed: 0, overwritten: 0, skipped: 0 })
+    expect(prismaMock.globalAssetFolder.create).toHaveBeenCalledWith({ data: { userId: 'user-2', name: 'Recurring cast' } })
+    expect(firstCallData(prismaMock.globalCharacter.create)).toMatchObject({
+      name: 'Alice',
+      userId: 'user-2',
+      folderId: 'folder-new',
+      globalVoiceId: 'new-Narrator',
+    })
+    expect(firstCallData(prismaMock.globalVoice.create)).toMatchObject({
+      customVoiceUrl: 'imported/import-m00003.mp3',
+      customVoiceMediaId: 'media:imported/import-m00003.mp3',
+    })
+    const appearances = firstCallData(prismaMock.globalCharacterAppearance.createMany) as unknown as Row[]
+    expect(appearances[0]).toMatchObject({
+      characterId: 'new-Alice',
+      imageUrl: 'imported/import-m00001.jpg',
+      imageMediaId: 'media:imported/import-m00001.jpg',
+      imageUrls: JSON.stringify(['imported/import-m00001.jpg']),
+    })
+  })
+
+  it('resolves name conflicts per strategy', async () => {
+    const { manifest } = (await buildAssetBundleManifest('folder-1'))!
+    const media = new Map(manifest.media.map((entry) => [
+      entry.ref,
+      { storageKey: `imported/${entry.path}`, mediaId: `media:${entry.ref}`, url: `/m/${entry.ref}` },
+    ]))
+    prismaMock.globalCharacter.findMany.mockResolvedValue([{ id: 'mine-alice', name: 'Alice' }, { id: 'mine-alice-2', name: 'Alice (2)' }])
+    prismaMock.globalVoice.findMany.mockResolvedValue([{ id: 'mine-narrator', name: 'Narrator' }])
+    prismaMock.globalLocation.findMany.mockResolvedValue([{ id: 'mine-street', name: 'Street' }])
+
+    const renamed = await mergeAssetBundle(manifest, media, { userId: 'user-2', conflict: 'rename', targetFolderId: 'folder-2' })
+    expect(renamed.items.map((item) => item.finalName)).toEqual(['Narrator (2)', 'Alice (3)', 'Street (2)'])
+    expect(prismaMock.globalAssetFolder.create).not.toHaveBeenCalled()
+
+    vi.clearAllMocks()
+    const skipped = await mergeAssetBundle(manifest, media, { userId: 'user-2', conflict: 'skip', targetFolderId: 'folder-2' })
+    expect(skipped.counts.skipped).toBe(3)
+    expect(skipped.items.map((item) => item.id)).toEqual(['mine-narrator', 'mine-alice', 'mine-street'])
+    expect(prismaMock.globalCharacter.create).not.toHaveBeenCalled()
+
+    vi.clearAllMocks()
+    const overwritten = await mergeAssetBundle(manifest, media, { userId: 'user-2', conflict: 'overwrite', targetFolderId: 'folder-2' })
+    expect(overwritten.counts.overwritten).toBe(3)
+    expect(prismaMock.globalCharacter.update).toHaveBeenCalledWith({
+      where: { id: 'mine-alice' },
+      data: expect.objectContaining({ name: 'Alice', globalVoiceId: 'mine-narrator' }),
+    })
+    expect(prismaMock.globalCharacterAppearance.deleteMany).toHaveBeenCalledWith({ where: { characterId: 'mine-alice' } })
+    expect(prismaMock.globalLocationImage.deleteMany).toHaveBeenCalledWith({ where: { locationId: 'mine-street' } })
+  })
+
+  it('copies selected assets from a shared folder without re-uploading media', async () => {
+    const result = await copySharedAssetFolder({
+      folderId: 'folder-1',
+      userId: 'user-2',
+      conflict: 'rename',
+      selection: { characterIds: ['char-1'], locationIds: [], voiceIds: [] },
+    })
+
+    expect(result?.items.map((item) => item.kind)).toEqual(['character'])
+    expect(uploadMock).not.toHaveBeenCalled()
+    // 未一并复制的音色不保留绑定
+    expect(firstCallData(prismaMock.globalCharacter.create)).toMatchObject({ globalVoiceId: null })
+    const appearances = firstCallData(prismaMock.globalCharacterAppearance.createMany) as unknown as Row[]
+    expect(appearances[0]).toMatchObject({ imageUrl: 'images/alice-1.jpg', imageMediaId: 'media:images/alice-1.jpg' })
+    // 复用的存储对象登记新引用，未选中资产的媒体不计入
+    expect(retainMock).toHaveBeenCalledWith('media:images/alice-1.jpg')
+    expect(retainMock).not.toHaveBeenCalledWith('media:voice/narrator.mp3')
+  })
+
+  it('retains shared media only for assets that were actually copied', async () => {
+    prismaMock.globalCharacter.findMany.mockResolvedValue([{ id: 'mine-alice', name: 'Alice' }])
+    prismaMock.globalVoice.findMany.mockResolvedValue([])
+    prismaMock.globalLocation.findMany.mockResolvedValue([])
+
+    const result = await copySharedAssetFolder({ folderId: 'folder-1', userId: 'user-2', conflict: 'skip' })
+
+    expect(result?.items.map((item) => [item.kind, item.action])).toEqual([
+      ['voice', 'created'],
+      ['character', 'skipped'],
+      ['location', 'created'],
+    ])
+    // 同名跳过的角色没有写入，其图片不登记新引用
+    expect(retainMock).not.toHaveBeenCalledWith('media:images/alice-1.jpg')
+    expect(retainMock).toHaveBeenCalledWith('media:images/street.jpg')
+    expect(retainMock).toHaveBeenCalledWith('media:voice/narrator.mp3')
+  })
+
+  it('returns null for folders that are not shared', async () => {
+    prismaMock.globalAssetFolder.findFirst.mockResolvedValue(null)
+    await expect(copySharedAssetFolder({ folderId: 'folder-1', userId: 'user-2', conflict: 'skip' })).resolves.toBeNull()
+    expect(prismaMock.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('rejects bundles of another archive format', async () => {
+    const manifest = { ...(await buildAssetBundleManifest('folder-1'))!.manifest, format: 'waoowaoo.project-archive' }
+    const JSZip = (await import('jszip')).default
+    const archive = await new JSZip().file('manifest.json', JSON.stringify(manifest)).generateAsync({ type: 'nodebuffer' })
+
+    await expect(importAssetBundle({ userId: 'user-2', archive, conflict: 'skip' }))
+      .rejects.toMatchObject({ code: 'ARCHIVE_FORMAT_MISMATCH' })
+  })
+})
@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-const deleteObjectMock = vi.hoisted(() => vi.fn())
+const releaseStorageObjectMock = vi.hoisted(() => vi.fn())
 const resolveStorageKeyFromMediaValueMock = vi.hoisted(() => vi.fn())
 const prismaMock = vi.hoisted(() => ({
   novelPromotionLocation: {
@@ -18,8 +18,8 @@ vi.mock('@/lib/prisma', () => ({
   prisma: prismaMock,
 }))
 
-vi.mock('@/lib/storage', () => ({
-  deleteObject: deleteObjectMock,
+vi.mock('@/lib/media/dedup', () => ({
+  releaseStorageObject: releaseStorageObjectMock,
 }))
 
 vi.mock('@/lib/media/service', () => ({
@@ -44,7 +44,7 @@ describe('project location-backed selection service', () => {
       novelPromotionLocation: prismaMock.novelPromotionLocation,
     }))
     resolveStorageKeyFromMediaValueMock.mockImplementation(async (value: string) => `key:${value}`)
-    deleteObjectMock.mockResolvedValue(undefined)
+    releaseStorageObjectMock.mockResolvedValue(undefined)
     prismaMock.locationImage.deleteMany.mockResolvedValue({ count: 1 })
     prismaMock.locationImage.update.mockResolvedValue(undefined)
     prismaMock.novelPromotionLocation.update.mockResolvedValue(undefined)
@@ -76,7 +76,7 @@ describe('project location-backed selection service', () => {
 
     expect(result).toEqual({ success: true })
     expect(resolveStorageKeyFromMediaValueMock).toHaveBeenCalledWith('https://example.com/prop-1.png')
-    expect(deleteObjectMock).toHaveBeenCalledWith('key:https://example.com/prop-1.png')
+    expect(releaseStorageObjectMock).toHaveBeenCalledWith('key:https://example.com/prop-1.png')
     expect(prismaMock.locationImage.deleteMany).toHaveBeenCalledWith({
       where: {
         locationId: 'prop-1',
@@ -122,6 +122,6 @@ describe('project location-backed selection service', () => {
       code: 'INVALID_PARAMS',
     })
     expect(prismaMock.locationImage.deleteMany).not.toHaveBeenCalled()
-    expect(deleteObjectMock).not.toHaveBeenCalled()
+    expect(releaseStorageObjectMock).not.toHaveBeenCalled()
   })
 })
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const prismaMock = vi.hoisted(() => ({
+  novelPromotionProject: {
+    findUnique: vi.fn(),
+  },
+}))
+
+const assetActionsMock = vi.hoisted(() => ({
+  prepareProjectAssetImageTask: vi.fn(async (input: { kind: string; assetId: string }) => ({
+    userId: 'user-1',
+    locale: 'zh',
+    projectId: 'project-1',
+    type: input.kind === 'character' ? 'image_character' : 'image_location',
+    targetType: input.kind === 'character' ? 'CharacterAppearance' : 'LocationImage',
+    targetId: input.assetId,
+    payload: {},
+    billingInfo: { billable: true, maxFrozenCost: input.kind === 'character' ? 0.4 : 0.25 },
+  })),
+  selectAssetRender: vi.fn(),
+}))
+
+const submitTaskMock = vi.hoisted(() => vi.fn(async (params: { targetId: string }) => ({
+  success: true,
+  taskId: `task-${params.targetId}`,
+})))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/assets/services/asset-actions', () => assetActionsMock)
+vi.mock('@/lib/task/submitter', () => ({ submitTask: submitTaskMock }))
+vi.mock('@/lib/config-service', () => ({ getProjectModelConfig: vi.fn() }))
+vi.mock('@/lib/llm-observe/route-task', () => ({ submitLLMTask: vi.fn() }))
+vi.mock('@/lib/novel-promotion/editor-assemble', () => ({ assembleEpisodeEditorProject: vi.fn() }))
+vi.mock('@/lib/task-batch', () => ({
+  createTaskBatch: vi.fn(),
+  quoteTaskBatch: vi.fn(),
+  TASK_BATCH_KIND: { PANEL_IMAGE: 'panel_image', PANEL_VIDEO: 'panel_video', VOICE_LINE: 'voice_line' },
+}))
+vi.mock('@/lib/autopilot/state', () => ({ readAutopilotApproval: vi.fn() }))
+
+import { AUTOPILOT_STAGE_RUNNERS, type AutopilotStageContext } from '@/lib/autopilot/stages'
+
+function buildContext(assertAffordable: AutopilotStageContext['assertAffordable']): AutopilotStageContext {
+  return {
+    runId: 'run-1',
+    projectId: 'project-1',
+    episodeId: 'episode-1',
+    userId: 'user-1',
+    locale: 'zh',
+    requestId: null,
+    options: { budget: 1, autoSelectFirstCandidate: false, videoModel: '' },
+    stageState: null,
+    assertAffordable,
+  }
+}
+
+describe('autopilot asset images stage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.novelPromotionProject.findUnique.mockResolvedValue({
+      characters: [
+        {
+          id: 'character-1',
+          name: 'Hero',
+          appearances: [
+            { id: 'appearance-1', appearanceIndex: 0, imageUrl: null },
+            { id: 'appearance-2', appearanceIndex: 1, imageUrl: 'images/done.png' },
+          ],
+        },
+      ],
+      locations: [
+        { id: 'location-1', name: 'Harbor', assetKind: 'location', images: [{ imageIndex: 0, imageUrl: null }] },
+      ],
+    })
+  })
+
+  it('quotes every missing asset image and checks the budget before submitting', async () => {
+    const assertAffordable = vi.fn(async () => undefined)
+
+    const result = await AUTOPILOT_STAGE_RUNNERS.asset_images.launch(buildContext(assertAffordable))
+
+    expect(assetActionsMock.prepareProjectAssetImageTask).toHaveBeenCalledTimes(2)
+    expect(assertAffordable).toHaveBeenCalledWith(0.65)
+    expect(assertAffordable.mock.invocationCallOrder[0]).toBeLessThan(submitTaskMock.mock.invocationCallOrder[0])
+    expect(result).toEqual({ taskIds: ['task-character-1', 'task-location-1'] })
+  })
+
+  it('submits nothing when the quote does not fit the remaining budget', async () => {
+    const assertAffordable = vi.fn(async () => {
+      throw new Error('AUTOPILOT_BUDGET_EXCEEDED: asset_images needs 0.65, spent 0.5 of 1')
+    })
+
+    await expect(AUTOPILOT_STAGE_RUNNERS.asset_images.launch(buildContext(assertAffordable)))
+      .rejects.toThrow('AUTOPILOT_BUDGET_EXCEEDED')
+    expect(submitTaskMock).not.toHaveBeenCalled()
+  })
+})
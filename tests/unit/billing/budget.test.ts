@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type TaskRow = { id?: string; projectId: string; status?: string; billingInfo: unknown; budgetSpend: number }
+
+type AggregateWhere = {
+  projectId?: string
+  id?: { not: string }
+  OR?: [{ status: { notIn: string[] } }, { billingInfo: { path: string; equals: string } }]
+}
+
+const store = vi.hoisted(() => ({
+  budgets: [] as Array<{
+    scopeKey: string
+    projectId: string | null
+    monthlyLimit: number
+    warnPercent: number
+    hardStopPercent: number
+  }>,
+  tasks: [] as TaskRow[],
+}))
+
+const prismaMock = vi.hoisted(() => {
+  const mock = {
+    $transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => await callback(mock)),
+    $queryRaw: vi.fn(async (query: { values: unknown[] }) => (
+      store.budgets
+        .filter((budget) => query.values.includes(budget.scopeKey))
+        .map((budget) => ({ id: budget.scopeKey }))
+    )),
+    billingBudget: {
+      findMany: vi.fn(async ({ where }: { where: { scopeKey: { in: string[] } } }) => (
+        store.budgets.filter((budget) => where.scopeKey.in.includes(budget.scopeKey))
+      )),
+    },
+    task: {
+      aggregate: vi.fn(async ({ where }: { where: AggregateWhere }) => ({
+        _sum: {
+          budgetSpend: store.tasks
+            .filter((task) => !where.projectId || task.projectId === where.projectId)
+            .filter((task) => !where.id || task.id !== where.id.not)
+            .filter((task) => {
+              if (!where.OR) return true
+              const [active, settledInfo] = where.OR
+              const info = task.billingInfo as { status?: string } | null
+              return !active.status.notIn.includes(task.status || 'completed')
+                || info?.status === settledInfo.billingInfo.equals
+            })
+            .reduce((total, task) => total + task.budgetSpend, 0),
+        },
+      })),
+      updateMany: vi.fn(async ({ where, data }: { where: { id: string }; data: { budgetSpend: number } }) => {
+        const task = store.tasks.find((row) => row.id === where.id)
+        if (task) task.budgetSpend = data.budgetSpend
+        return { count: task ? 1 : 0 }
+      }),
+    },
+  }
+  return mock
+})
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: prismaMock,
+}))
+
+import { checkBudgetForCost, getBudgetPeriod, resolveTaskBillingSpend } from '@/lib/billing/budget'
+import { BudgetExceededError } from '@/lib/billing/errors'
+
+function settled(cost: number, modeSnapshot: 'SHADOW' | 'ENFORCE', projectId = 'p1'): TaskRow {
+  return {
+    projectId,
+    budgetSpend: cost,
+    billingInfo: modeSnapshot === 'SHADOW'
+      ? { billable: true, status: 'settled', modeSnapshot, chargedCost: 0, actualCost: cost }
+      : { billable: true, status: 'settled', modeSnapshot, chargedCost: cost },
+  }
+}
+
+describe('billing/budget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store.budgets = []
+    store.tasks = []
+  })
+
+  it('counts settled, quoted and frozen tasks but not rolled back ones', () => {
+    expect(resolveTaskBillingSpend(settled(2, 'ENFORCE').billingInfo)).toBe(2)
+    expect(resolveTaskBillingSpend(settled(3, 'SHADOW').billingInfo)).toBe(3)
+    expect(resolveTaskBillingSpend({ billable: true, status: 'frozen', maxFrozenCost: 1.5 })).toBe(1.5)
+    expect(resolveTaskBillingSpend({ billable: true, status: 'quoted', maxFrozenCost: 0.5 })).toBe(0.5)
+    expect(resolveTaskBillingSpend({ billable: true, status: 'rolled_back', maxFrozenCost: 4 })).toBe(0)
+    expect(resolveTaskBillingSpend({ billable: false })).toBe(0)
+    expect(resolveTaskBillingSpend(null)).toBe(0)
+  })
+
+  it('uses calendar months in UTC', () => {
+    const period = getBudgetPeriod(new Date('2026-10-19T08:00:00Z'))
+    expect(period.period).toBe('2026-10')
+    expect(period.start.toISOString()).toBe('2026-10-01T00:00:00.000Z')
+  })
+
+  it('returns no alerts and skips queries when no budget is configured', async () => {
+    await expect(checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 5 })).resolves.toEqual([])
+    expect(prismaMock.task.aggregate).not.toHaveBeenCalled()
+  })
+
+  it('alerts once when the warning threshold and the limit are crossed', async () => {
+    store.budgets = [{ scopeKey: 'project:p1', projectId: 'p1', monthlyLimit: 10, warnPercent: 80, hardStopPercent: 120 }]
+    store.tasks = [settled(7, 'SHADOW')]
+
+    await expect(checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 1.5 })).resolves.toEqual([
+      { scope: 'project', level: 'warning', limit: 10, spent: 8.5, percent: 85 },
+    ])
+
+    store.tasks.push(settled(1.5, 'SHADOW'))
+    await expect(checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 0.5 })).resolves.toEqual([])
+
+    await expect(checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 2 })).resolves.toEqual([
+      { scope: 'project', level: 'exceeded', limit: 10, spent: 10.5, percent: 105 },
+    ])
+  })
+
+  it('throws BudgetExceededError when the hard stop would be crossed', async () => {
+    store.budgets = [{ scopeKey: 'user', projectId: null, monthlyLimit: 10, warnPercent: 80, hardStopPercent: 100 }]
+    store.tasks = [settled(6, 'ENFORCE', 'p1'), settled(3, 'ENFORCE', 'p2')]
+
+    const error = await checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 2 }).catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(BudgetExceededError)
+    expect(error).toMatchObject({ scope: 'user', limit: 10, spent: 9, required: 2 })
+  })
+
+  it('reserves the cost on the task inside the budget lock', async () => {
+    store.budgets = [{ scopeKey: 'user', projectId: null, monthlyLimit: 10, warnPercent: 80, hardStopPercent: 100 }]
+    store.tasks = [settled(6, 'ENFORCE'), { id: 'task-a', projectId: 'p1', billingInfo: null, budgetSpend: 0 }]
+
+    await checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 3, taskId: 'task-a' })
+    expect(store.tasks[1].budgetSpend).toBe(3)
+
+    // 后提交的任务能看到前者的预占
+    store.tasks.push({ id: 'task-b', projectId: 'p1', billingInfo: null, budgetSpend: 0 })
+    const error = await checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 3, taskId: 'task-b' })
+      .catch((caught: unknown) => caught)
+    expect(error).toMatchObject({ scope: 'user', spent: 9, required: 3 })
+    expect(store.tasks[2].budgetSpend).toBe(0)
+
+    // 重新校验同一任务时排除它自己的旧预占
+    await expect(checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 4, taskId: 'task-a' })).resolves.toEqual([
+      { scope: 'user', level: 'exceeded', limit: 10, spent: 10, percent: 100 },
+    ])
+  })
+
+  it('stops counting the quote of a rejected or failed unsettled task', async () => {
+    store.budgets = [{ scopeKey: 'user', projectId: null, monthlyLimit: 10, warnPercent: 80, hardStopPercent: 100 }]
+    const quoted = { billable: true, status: 'quoted', modeSnapshot: 'SHADOW', maxFrozenCost: 6 }
+    // createTask 已按报价写入 budgetSpend
+    store.tasks = [
+      { id: 'task-a', projectId: 'p1', status: 'queued', billingInfo: quoted, budgetSpend: 6 },
+      { id: 'task-b', projectId: 'p1', status: 'queued', billingInfo: quoted, budgetSpend: 6 },
+    ]
+
+    const error = await checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 6, taskId: 'task-b' })
+      .catch((caught: unknown) => caught)
+    expect(error).toBeInstanceOf(BudgetExceededError)
+
+    // 被拒的提交标记为失败，SHADOW 任务失败/取消时也不回滚报价
+    store.tasks[1].status = 'failed'
+    store.tasks[0].status = 'canceled'
+    await expect(checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 6 })).resolves.toEqual([])
+  })
+
+  it('keeps counting settled spend of tasks that ended as failed', async () => {
+    store.budgets = [{ scopeKey: 'user', projectId: null, monthlyLimit: 10, warnPercent: 80, hardStopPercent: 100 }]
+    store.tasks = [{ ...settled(9, 'ENFORCE'), status: 'failed' }]
+
+    const error = await checkBudgetForCost({ userId: 'u1', projectId: 'p1', cost: 2 }).catch((caught: unknown) => caught)
+    expect(error).toMatchObject({ scope: 'user', spent: 9, required: 2 })
+  })
+
+  it('ignores project budgets for virtual asset hub projects', async () => {
+    await checkBudgetForCost({ userId: 'u1', projectId: 'global-asset-hub', cost: 1 })
+
+    expect(prismaMock.$queryRaw).toHaveBeenCalledWith(expect.objectContaining({
+      values: ['u1', 'user'],
+    }))
+  })
+})
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const prismaMock = vi.hoisted(() => ({
+  usageCost: {
+    groupBy: vi.fn(async () => []),
+    aggregate: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: prismaMock,
+}))
+
+vi.mock('@/lib/logging/core', () => ({
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}))
+
+import { getUserCostSummary, recordUsageCostOnly } from '@/lib/billing/reporting'
+
+describe('billing/reporting cache savings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('stores cache savings in numeric columns', async () => {
+    const tx = {
+      project: { findUnique: vi.fn(async () => ({ id: 'p1' })) },
+      usageCost: { create: vi.fn() },
+      balanceTransaction: { create: vi.fn() },
+    }
+
+    await recordUsageCostOnly(tx as never, {
+      projectId: 'p1',
+      userId: 'u1',
+      action: 'analyze_global',
+      apiType: 'text',
+      model: 'gpt-x',
+      quantity: 0,
+      unit: 'token',
+      cost: 0,
+      balanceAfter: 10,
+      metadata: { cacheSavings: { hits: 2, inputTokens: 1200, outputTokens: 300, cost: 0.0123 } },
+    })
+
+    expect(tx.usageCost.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        cacheHits: 2,
+        cacheSavedInputTokens: 1200,
+        cacheSavedOutputTokens: 300,
+        cacheSavedCost: 0.0123,
+      }),
+    })
+  })
+
+  it('aggregates cache savings instead of scanning metadata', async () => {
+    prismaMock.usageCost.aggregate
+      .mockResolvedValueOnce({ _sum: { cost: 5 } })
+      .mockResolvedValueOnce({
+        _sum: {
+          cacheHits: 3,
+          cacheSavedInputTokens: 1500,
+          cacheSavedOutputTokens: 400,
+          cacheSavedCost: '0.0456',
+        },
+      })
+
+    const summary = await getUserCostSummary('u1')
+
+    expect(summary.cacheSavings).toEqual({ hits: 3, inputTokens: 1500, outputTokens: 400, cost: 0.0456 })
+    expect(prismaMock.usageCost.aggregate).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { userId: 'u1', cacheHits: { gt: 0 } },
+    }))
+  })
+})
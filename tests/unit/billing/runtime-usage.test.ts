@@ -61,6 +61,19 @@ describe('billing/runtime-usage', () => {
     ])
   })
 
+  it('keeps the cached flag only for cache hits', async () => {
+    const { textUsage } = await withTextUsageCollection(async () => {
+      recordTextUsage({ model: 'live', inputTokens: 5, outputTokens: 6, cached: false })
+      recordTextUsage({ model: 'hit', inputTokens: 7, outputTokens: 8, cached: true })
+      return 'ok'
+    })
+
+    expect(textUsage).toEqual([
+      { model: 'live', inputTokens: 5, outputTokens: 6 },
+      { model: 'hit', inputTokens: 7, outputTokens: 8, cached: true },
+    ])
+  })
+
   it('isolates concurrent async local storage contexts', async () => {
     const [left, right] = await Promise.all([
       withTextUsageCollection(async () => {
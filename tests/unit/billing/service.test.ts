@@ -16,10 +16,15 @@ const modeMock = vi.hoisted(() => ({
   getBillingMode: vi.fn(),
 }))
 
+const budgetMock = vi.hoisted(() => ({
+  checkBudgetForCost: vi.fn(),
+}))
+
 vi.mock('@/lib/billing/ledger', () => ledgerMock)
 vi.mock('@/lib/billing/mode', () => modeMock)
+vi.mock('@/lib/billing/budget', () => budgetMock)
 
-import { BillingOperationError, InsufficientBalanceError } from '@/lib/billing/errors'
+import { BillingOperationError, BudgetExceededError, InsufficientBalanceError } from '@/lib/billing/errors'
 import {
   handleBillingError,
   prepareTaskBilling,
@@ -39,6 +44,7 @@ describe('billing/service', () => {
     ledgerMock.increasePendingFreezeAmount.mockResolvedValue(true)
     ledgerMock.recordShadowUsage.mockResolvedValue(true)
     ledgerMock.rollbackFreeze.mockResolvedValue(true)
+    budgetMock.checkBudgetForCost.mockResolvedValue([])
   })
 
   it('returns raw execution result in OFF mode', async () => {
@@ -329,6 +335,44 @@ describe('billing/service', () => {
       ).rejects.toBeInstanceOf(InsufficientBalanceError)
     })
 
+    it('prepareTaskBilling enforces monthly budgets in SHADOW and ENFORCE modes', async () => {
+      const alert = { scope: 'project', level: 'warning', limit: 10, spent: 8.5, percent: 85 }
+      modeMock.getBillingMode.mockResolvedValueOnce('SHADOW')
+      budgetMock.checkBudgetForCost.mockResolvedValueOnce([alert])
+      const shadow = await prepareTaskBilling({
+        id: 'task_budget_warn',
+        userId: 'u1',
+        projectId: 'p1',
+        billingInfo: buildTaskInfo(),
+      })
+      const shadowInfo = shadow as Extract<TaskBillingInfo, { billable: true }>
+      expect(shadowInfo.status).toBe('quoted')
+      expect(shadowInfo.budgetAlerts).toEqual([alert])
+      expect(budgetMock.checkBudgetForCost).toHaveBeenCalledWith({
+        userId: 'u1',
+        projectId: 'p1',
+        cost: shadowInfo.maxFrozenCost,
+        taskId: 'task_budget_warn',
+      })
+
+      modeMock.getBillingMode.mockResolvedValueOnce('ENFORCE')
+      budgetMock.checkBudgetForCost.mockRejectedValueOnce(new BudgetExceededError({
+        scope: 'user',
+        limit: 10,
+        spent: 9.9,
+        required: 1,
+      }))
+      await expect(
+        prepareTaskBilling({
+          id: 'task_budget_stop',
+          userId: 'u1',
+          projectId: 'p1',
+          billingInfo: buildTaskInfo(),
+        }),
+      ).rejects.toBeInstanceOf(BudgetExceededError)
+      expect(ledgerMock.freezeBalance).not.toHaveBeenCalled()
+    })
+
     it('settleTaskBilling handles SHADOW and non-ENFORCE snapshots', async () => {
       const shadowSettled = await settleTaskBilling({
         id: 'task_shadow_settle',
@@ -547,6 +591,45 @@ describe('billing/service', () => {
       expect(recordParams.model).toBe('openai/gpt-5')
     })
 
+    it('settleTaskBilling charges nothing for fully cached text usage and records savings', async () => {
+      const quoted = calcText('anthropic/claude-sonnet-4', 500, 500)
+      const textBillingInfo: Extract<TaskBillingInfo, { billable: true }> = {
+        billable: true,
+        source: 'task',
+        taskType: 'story_to_script_run',
+        apiType: 'text',
+        model: 'anthropic/claude-sonnet-4',
+        quantity: 1000,
+        unit: 'token',
+        maxFrozenCost: quoted,
+        action: 'story_to_script_run',
+        modeSnapshot: 'ENFORCE',
+        status: 'frozen',
+        freezeId: 'freeze_text_cached',
+      }
+      ledgerMock.confirmChargeWithRecord.mockResolvedValueOnce(true)
+
+      const settled = await settleTaskBilling({
+        id: 'task_text_cached_usage',
+        userId: 'u1',
+        projectId: 'p1',
+        billingInfo: textBillingInfo,
+      }, {
+        textUsage: [{ model: 'anthropic/claude-sonnet-4', inputTokens: 500, outputTokens: 500, cached: true }],
+      })
+
+      expect((settled as Extract<TaskBillingInfo, { billable: true }>).chargedCost).toBe(0)
+      const recordParams = ledgerMock.confirmChargeWithRecord.mock.calls.at(-1)?.[1] as {
+        metadata: { cacheSavings?: { hits: number; inputTokens: number; outputTokens: number; cost: number } }
+      }
+      expect(recordParams.metadata.cacheSavings).toEqual({
+        hits: 1,
+        inputTokens: 500,
+        outputTokens: 500,
+        cost: expect.closeTo(quoted, 6),
+      })
+    })
+
     it('rollbackTaskBilling handles success and fallback branches', async () => {
       const rolledBack = await rollbackTaskBilling({
         id: 'task_rb_ok',
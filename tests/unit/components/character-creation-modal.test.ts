@@ -9,6 +9,7 @@ import { CharacterCreationModal } from '@/components/shared/assets/CharacterCrea
 
 vi.mock('@/lib/query/hooks', () => ({
   useProjectAssets: vi.fn(() => ({ data: { characters: [] } })),
+  useArtStyleOptions: vi.fn(() => []),
 }))
 
 vi.mock('@/components/shared/assets/character-creation/hooks/useCharacterCreationSubmit', () => ({
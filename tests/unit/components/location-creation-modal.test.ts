@@ -10,6 +10,7 @@ import { LocationCreationModal } from '@/components/shared/assets/LocationCreati
 vi.mock('@/lib/query/hooks', () => ({
   useAiCreateProjectLocation: vi.fn(() => ({ mutateAsync: vi.fn() })),
   useAiDesignLocation: vi.fn(() => ({ mutateAsync: vi.fn() })),
+  useArtStyleOptions: vi.fn(() => []),
   useCreateAssetHubLocation: vi.fn(() => ({ mutateAsync: vi.fn() })),
   useGenerateLocationImage: vi.fn(() => ({ mutateAsync: vi.fn() })),
   useCreateProjectLocation: vi.fn(() => ({ mutateAsync: vi.fn() })),
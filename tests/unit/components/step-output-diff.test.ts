@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { collapseUnchangedLines, diffStepOutputLines } from '@/components/llm-console/step-output-diff'
+
+describe('step output diff', () => {
+  it('marks edited json lines as removed + added and keeps the rest', () => {
+    const lines = diffStepOutputLines(
+      { clipList: [{ id: 'clip_1', content: 'old text' }] },
+      { clipList: [{ id: 'clip_1', content: 'new text' }] },
+    )
+
+    expect(lines.filter((line) => line.kind === 'removed')).toEqual([
+      { kind: 'removed', text: '      "content": "old text"' },
+    ])
+    expect(lines.filter((line) => line.kind === 'added')).toEqual([
+      { kind: 'added', text: '      "content": "new text"' },
+    ])
+    expect(lines.filter((line) => line.kind === 'same')).toHaveLength(7)
+  })
+
+  it('collapses unchanged stretches far from any change', () => {
+    const before = Array.from({ length: 12 }, (_, index) => `line ${index}`).join('\n')
+    const after = before.replace('line 6', 'line six')
+
+    expect(collapseUnchangedLines(diffStepOutputLines(before, after), 1)).toEqual([
+      { kind: 'skip', count: 5 },
+      { kind: 'same', text: 'line 5' },
+      { kind: 'removed', text: 'line 6' },
+      { kind: 'added', text: 'line six' },
+      { kind: 'same', text: 'line 7' },
+      { kind: 'skip', count: 4 },
+    ])
+  })
+})
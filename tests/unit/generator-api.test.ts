@@ -77,7 +77,7 @@ vi.mock('@/lib/providers/siliconflow', () => ({
   generateSiliconFlowAudio: generateSiliconFlowAudioMock,
 }))
 
-import { generateAudio, generateImage, generateVideo } from '@/lib/generator-api'
+import { generateAudio, generateImage, generateVideo, supportsImageInpaint, supportsImageSeed } from '@/lib/generator-api'
 
 describe('generator-api gateway routing', () => {
   beforeEach(() => {
@@ -299,3 +299,102 @@ describe('generator-api gateway routing', () => {
     expect(result).toEqual({ success: true, audioUrl: 'bailian-audio' })
   })
 })
+
+describe('generator-api image seed support', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('reads supportSeed from the builtin capability catalog', async () => {
+    resolveModelSelectionMock.mockResolvedValueOnce({
+      provider: 'ark',
+      modelId: 'doubao-seedream-4-5-251128',
+      modelKey: 'ark::doubao-seedream-4-5-251128',
+      mediaType: 'image',
+    })
+    await expect(supportsImageSeed('user-1', 'ark::doubao-seedream-4-5-251128')).resolves.toBe(true)
+
+    await expect(supportsImageSeed('user-1', 'google::gemini-3.1')).resolves.toBe(false)
+  })
+
+  it('treats compat templates referencing {{seed}} as seed-capable', async () => {
+    const template = {
+      version: 1 as const,
+      mediaType: 'image' as const,
+      mode: 'sync' as const,
+      create: { method: 'POST' as const, path: '/v1/images/generations', bodyTemplate: { prompt: '{{prompt}}' } },
+      response: { outputUrlPath: 'data[0].url' },
+    }
+    resolveModelSelectionMock.mockResolvedValueOnce({
+      provider: 'openai-compatible:oa-1',
+      modelId: 'flux-dev',
+      modelKey: 'openai-compatible:oa-1::flux-dev',
+      mediaType: 'image',
+      compatMediaTemplate: template,
+    })
+    await expect(supportsImageSeed('user-1', 'openai-compatible:oa-1::flux-dev')).resolves.toBe(false)
+
+    resolveModelSelectionMock.mockResolvedValueOnce({
+      provider: 'openai-compatible:oa-1',
+      modelId: 'flux-dev',
+      modelKey: 'openai-compatible:oa-1::flux-dev',
+      mediaType: 'image',
+      compatMediaTemplate: {
+        ...template,
+        create: { ...template.create, bodyTemplate: { prompt: '{{prompt}}', seed: '{{ seed }}' } },
+      },
+    })
+    await expect(supportsImageSeed('user-1', 'openai-compatible:oa-1::flux-dev')).resolves.toBe(true)
+  })
+})
+
+describe('generator-api image inpaint support', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resolveModelGatewayRouteMock.mockReset()
+    resolveModelGatewayRouteMock.mockReturnValue('official')
+  })
+
+  it('accepts masks only when a compat template references {{mask}}', async () => {
+    const template = {
+      version: 1 as const,
+      mediaType: 'image' as const,
+      mode: 'sync' as const,
+      create: { method: 'POST' as const, path: '/v1/images/edits', bodyTemplate: { prompt: '{{prompt}}', image: '{{image}}' } },
+      response: { outputUrlPath: 'data[0].url' },
+    }
+    resolveModelSelectionMock.mockResolvedValueOnce({
+      provider: 'openai-compatible:oa-1',
+      modelId: 'flux-fill',
+      modelKey: 'openai-compatible:oa-1::flux-fill',
+      mediaType: 'image',
+      compatMediaTemplate: template,
+    })
+    await expect(supportsImageInpaint('user-1', 'openai-compatible:oa-1::flux-fill')).resolves.toBe(false)
+
+    resolveModelSelectionMock.mockResolvedValueOnce({
+      provider: 'openai-compatible:oa-1',
+      modelId: 'flux-fill',
+      modelKey: 'openai-compatible:oa-1::flux-fill',
+      mediaType: 'image',
+      compatMediaTemplate: {
+        ...template,
+        create: { ...template.create, bodyTemplate: { ...template.create.bodyTemplate, mask: '{{ mask }}' } },
+      },
+    })
+    await expect(supportsImageInpaint('user-1', 'openai-compatible:oa-1::flux-fill')).resolves.toBe(true)
+  })
+
+  it('treats untemplated openai-compat image models as mask-capable and official ones as not', async () => {
+    resolveModelSelectionMock.mockResolvedValueOnce({
+      provider: 'openai-compatible:oa-1',
+      modelId: 'gpt-image-1',
+      modelKey: 'openai-compatible:oa-1::gpt-image-1',
+      mediaType: 'image',
+    })
+    resolveModelGatewayRouteMock.mockReturnValueOnce('openai-compat')
+    await expect(supportsImageInpaint('user-1', 'openai-compatible:oa-1::gpt-image-1')).resolves.toBe(true)
+
+    await expect(supportsImageInpaint('user-1', 'google::gemini-3.1')).resolves.toBe(false)
+  })
+})
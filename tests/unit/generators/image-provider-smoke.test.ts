@@ -133,6 +133,32 @@ describe('image provider smoke tests', () => {
     })
   })
 
+  it('Seedream 传入 seed -> 原样写入请求体', async () => {
+    getProviderConfigMock.mockResolvedValueOnce({
+      id: 'ark',
+      apiKey: 'ark-key',
+    })
+    arkImageGenerationMock.mockResolvedValueOnce({
+      data: [{ url: 'https://seedream.test/seeded.png' }],
+    })
+
+    const generator = new ArkSeedreamGenerator()
+    await generator.generate({
+      userId: 'user-1',
+      prompt: 'same composition',
+      options: {
+        modelId: 'doubao-seedream-4-5-251128',
+        aspectRatio: '3:4',
+        seed: 424242,
+      },
+    })
+
+    expect(arkImageGenerationMock).toHaveBeenCalledWith(
+      expect.objectContaining({ seed: 424242 }),
+      expect.anything(),
+    )
+  })
+
   it('Seedream 返回多图时 -> 同时返回 imageUrl 和 imageUrls', async () => {
     getProviderConfigMock.mockResolvedValueOnce({
       id: 'ark',
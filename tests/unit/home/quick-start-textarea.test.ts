@@ -73,6 +73,10 @@ vi.mock('@/lib/api-fetch', () => ({
   apiFetch: vi.fn(),
 }))
 
+vi.mock('@/lib/query/hooks', () => ({
+  useArtStyleOptions: () => [],
+}))
+
 vi.mock('@/lib/home/create-project-launch', () => ({
   createHomeProjectLaunch: vi.fn(),
 }))
@@ -0,0 +1,130 @@
+import sharp from 'sharp'
+import { describe, expect, it, vi } from 'vitest'
+
+const storageMock = vi.hoisted(() => ({
+  generateUniqueKey: vi.fn((prefix: string, ext: string) => `${prefix}.${ext}`),
+  uploadObject: vi.fn(async (_body: Buffer, key: string) => key),
+}))
+
+vi.mock('@/lib/storage', () => storageMock)
+
+import {
+  compositeInpaintPatch,
+  isInpaintMaskDataUrl,
+  moveInpaintMaskToStorage,
+  normalizeInpaintMask,
+  resolveInpaintCropBounds,
+  toAlphaEditMask,
+  type InpaintMask,
+} from '@/lib/image-generation/inpaint'
+
+async function solidPng(width: number, height: number, color: string): Promise<Buffer> {
+  return await sharp({ create: { width, height, channels: 3, background: color } }).png().toBuffer()
+}
+
+// 黑底白块蒙版：白色区域为 [left, left + size) × [top, top + size)
+async function squareMaskPng(width: number, height: number, left: number, top: number, size: number): Promise<Buffer> {
+  return await sharp({ create: { width, height, channels: 3, background: '#000000' } })
+    .composite([{ input: await solidPng(size, size, '#ffffff'), left, top }])
+    .png()
+    .toBuffer()
+}
+
+function rectMask(width: number, height: number, rect: { left: number; top: number; width: number; height: number }): InpaintMask {
+  const raw = Buffer.alloc(width * height)
+  for (let y = rect.top; y < rect.top + rect.height; y += 1) {
+    raw.fill(255, y * width + rect.left, y * width + rect.left + rect.width)
+  }
+  return { raw, width, height }
+}
+
+describe('inpaint mask helpers', () => {
+  it('accepts only png data urls as masks', () => {
+    expect(isInpaintMaskDataUrl('data:image/png;base64,AAAA')).toBe(true)
+    expect(isInpaintMaskDataUrl('data:image/jpeg;base64,AAAA')).toBe(false)
+    expect(isInpaintMaskDataUrl('data:image/png;base64,')).toBe(false)
+    expect(isInpaintMaskDataUrl('https://example.com/mask.png')).toBe(false)
+    expect(isInpaintMaskDataUrl(undefined)).toBe(false)
+  })
+
+  it('moves the mask data url out of the payload into storage', async () => {
+    const mask = await squareMaskPng(8, 8, 0, 0, 4)
+    const payload = await moveInpaintMaskToStorage({
+      modifyPrompt: 'make it red',
+      maskImage: `data:image/png;base64,${mask.toString('base64')}`,
+    }, 'user-1')
+
+    expect(payload).toEqual({ modifyPrompt: 'make it red', maskImageKey: expect.stringContaining('inpaint-mask-user-1-') })
+    expect(storageMock.uploadObject).toHaveBeenCalledWith(mask, payload.maskImageKey, undefined, 'image/png')
+    await expect(moveInpaintMaskToStorage({ modifyPrompt: 'make it red' }, 'user-1'))
+      .resolves.toEqual({ modifyPrompt: 'make it red' })
+  })
+
+  it('drops a client-supplied mask key instead of forwarding it to the worker', async () => {
+    await expect(moveInpaintMaskToStorage({
+      modifyPrompt: 'make it red',
+      maskImageKey: 'images/other-user-private.png',
+    }, 'user-1')).resolves.toEqual({ modifyPrompt: 'make it red' })
+
+    const mask = await solidPng(4, 4, '#ffffff')
+    const payload = await moveInpaintMaskToStorage({
+      maskImage: `data:image/png;base64,${mask.toString('base64')}`,
+      maskImageKey: 'images/other-user-private.png',
+    }, 'user-1')
+    expect(payload.maskImageKey).toContain('inpaint-mask-user-1-')
+  })
+
+  it('scales the mask to the base image and strips a label bar from the top', async () => {
+    const maskPng = await squareMaskPng(100, 120, 0, 0, 20)
+    const mask = await normalizeInpaintMask(maskPng, { width: 50, height: 50 }, { cropTop: 20 })
+
+    expect(mask.width).toBe(50)
+    expect(mask.height).toBe(50)
+    expect(mask.raw.length).toBe(2500)
+    // 白块完全落在标签栏内，剥掉后蒙版为空
+    expect(mask.raw.every((value) => value === 0)).toBe(true)
+  })
+
+  it('returns null bounds for an empty mask', () => {
+    expect(resolveInpaintCropBounds({ raw: Buffer.alloc(64 * 64), width: 64, height: 64 })).toBeNull()
+  })
+
+  it('expands the mask bbox with context to a standard ratio inside the image', () => {
+    const bounds = resolveInpaintCropBounds(rectMask(400, 300, { left: 180, top: 120, width: 40, height: 40 }))
+
+    expect(bounds).toMatchObject({ aspectRatio: '1:1', width: 88, height: 88 })
+    expect(bounds!.left).toBeLessThanOrEqual(180)
+    expect(bounds!.top).toBeLessThanOrEqual(120)
+    expect(bounds!.left + bounds!.width).toBeGreaterThanOrEqual(220)
+    expect(bounds!.top + bounds!.height).toBeGreaterThanOrEqual(160)
+
+    const clamped = resolveInpaintCropBounds(rectMask(100, 100, { left: 0, top: 0, width: 90, height: 10 }))
+    expect(clamped).toMatchObject({ left: 0, width: 100 })
+    expect(clamped!.top).toBeGreaterThanOrEqual(0)
+    expect(clamped!.top + clamped!.height).toBeLessThanOrEqual(100)
+  })
+
+  it('composites the patch only inside the mask', async () => {
+    const base = await solidPng(64, 64, '#000000')
+    const mask = rectMask(64, 64, { left: 16, top: 16, width: 32, height: 32 })
+    const bounds = resolveInpaintCropBounds(mask)!
+    const patch = await solidPng(bounds.width, bounds.height, '#ff0000')
+
+    const composed = await compositeInpaintPatch({ base, patch, mask, bounds })
+    const { data, info } = await sharp(composed).removeAlpha().raw().toBuffer({ resolveWithObject: true })
+    const pixel = (x: number, y: number) => data[(y * info.width + x) * info.channels]
+
+    expect(pixel(32, 32)).toBeGreaterThan(240)
+    expect(pixel(2, 2)).toBe(0)
+    expect(pixel(61, 61)).toBe(0)
+  })
+
+  it('inverts the mask into an alpha mask where transparent pixels are editable', async () => {
+    const alphaMask = await toAlphaEditMask(await squareMaskPng(10, 10, 0, 0, 5))
+    const { data, info } = await sharp(alphaMask).raw().toBuffer({ resolveWithObject: true })
+
+    expect(info.channels).toBe(4)
+    expect(data[3]).toBe(0)
+    expect(data[(9 * 10 + 9) * 4 + 3]).toBe(255)
+  })
+})
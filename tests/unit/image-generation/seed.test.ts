@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createImageSeed,
+  IMAGE_SEED_MAX,
+  isImageSeed,
+  parseImageSeedList,
+  serializeImageSeedList,
+} from '@/lib/image-generation/seed'
+
+describe('image seed helpers', () => {
+  it('accepts only 32-bit non-negative integers', () => {
+    expect(isImageSeed(0)).toBe(true)
+    expect(isImageSeed(IMAGE_SEED_MAX)).toBe(true)
+    expect(isImageSeed(IMAGE_SEED_MAX + 1)).toBe(false)
+    expect(isImageSeed(-1)).toBe(false)
+    expect(isImageSeed(1.5)).toBe(false)
+    expect(isImageSeed('42')).toBe(false)
+    expect(isImageSeed(createImageSeed())).toBe(true)
+  })
+
+  it('round-trips candidate seed lists and keeps positions aligned', () => {
+    expect(serializeImageSeedList([null, null])).toBeNull()
+    const raw = serializeImageSeedList([12, null, 34])
+    expect(parseImageSeedList(raw)).toEqual([12, null, 34])
+    expect(parseImageSeedList('[1, "x", -3]')).toEqual([1, null, null])
+    expect(parseImageSeedList('not-json')).toEqual([])
+    expect(parseImageSeedList(null)).toEqual([])
+  })
+})
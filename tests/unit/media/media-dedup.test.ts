@@ -0,0 +1,166 @@
+import { createHash } from 'node:crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const prismaMock = vi.hoisted(() => ({
+  mediaObject: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(async () => ({})),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+}))
+
+const storageMock = vi.hoisted(() => ({
+  uploadObject: vi.fn(async (_body: Buffer, key: string) => key),
+  downloadAndUploadStreamWithDigest: vi.fn(),
+  headObject: vi.fn(),
+  deleteObject: vi.fn(async () => undefined),
+}))
+
+const serviceMock = vi.hoisted(() => ({
+  ensureMediaObjectFromStorageKey: vi.fn(async (storageKey: string) => ({ id: `media-${storageKey}` })),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/storage', () => storageMock)
+vi.mock('@/lib/media/service', () => serviceMock)
+
+import {
+  downloadAndUploadDeduped,
+  invalidateMediaDigest,
+  releaseStorageObjects,
+  uploadDedupedObject,
+} from '@/lib/media/dedup'
+
+const BODY = Buffer.from('same bytes')
+const SHA = createHash('sha256').update(BODY).digest('hex')
+
+describe('media dedup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.mediaObject.findFirst.mockResolvedValue(null)
+    storageMock.headObject.mockResolvedValue({ contentLength: BODY.length })
+  })
+
+  it('uploads new content and records its digest', async () => {
+    const key = await uploadDedupedObject(BODY, 'images/new.jpg', 'user-1', 'image/jpeg')
+
+    expect(key).toBe('images/new.jpg')
+    expect(prismaMock.mediaObject.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { sha256: SHA, ownerUserId: 'user-1' },
+    }))
+    expect(storageMock.uploadObject).toHaveBeenCalledWith(BODY, 'images/new.jpg', undefined, 'image/jpeg')
+    expect(prismaMock.mediaObject.update).toHaveBeenCalledWith({
+      where: { id: 'media-images/new.jpg' },
+      data: {
+        sha256: SHA,
+        sizeBytes: BigInt(BODY.length),
+        ownerUserId: 'user-1',
+        refCount: { increment: 1 },
+      },
+    })
+  })
+
+  it('reuses existing media with the same digest and clears its gc mark', async () => {
+    prismaMock.mediaObject.findFirst.mockResolvedValue({ id: 'media-old', storageKey: 'images/old.jpg' })
+
+    const key = await uploadDedupedObject(BODY, 'images/new.jpg', 'user-1')
+
+    expect(key).toBe('images/old.jpg')
+    expect(storageMock.uploadObject).not.toHaveBeenCalled()
+    expect(prismaMock.mediaObject.update).toHaveBeenCalledWith({
+      where: { id: 'media-old' },
+      data: { refCount: { increment: 1 }, gcMarkedAt: null },
+    })
+  })
+
+  it('ignores digest matches whose storage object is gone', async () => {
+    prismaMock.mediaObject.findFirst.mockResolvedValue({ id: 'media-old', storageKey: 'images/old.jpg' })
+    storageMock.headObject.mockResolvedValue(null)
+
+    const key = await uploadDedupedObject(BODY, 'images/new.jpg', 'user-1')
+
+    expect(key).toBe('images/new.jpg')
+    expect(storageMock.uploadObject).toHaveBeenCalled()
+  })
+
+  it('drops the freshly streamed copy when the digest already exists', async () => {
+    storageMock.downloadAndUploadStreamWithDigest.mockResolvedValue({
+      key: 'video/new.mp4',
+      sha256: SHA,
+      sizeBytes: 10,
+    })
+    prismaMock.mediaObject.findFirst.mockResolvedValue({ id: 'media-old', storageKey: 'video/old.mp4' })
+
+    const key = await downloadAndUploadDeduped('https://example.com/v.mp4', 'video/new.mp4', 'user-1')
+
+    expect(key).toBe('video/old.mp4')
+    expect(prismaMock.mediaObject.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { sha256: SHA, ownerUserId: 'user-1', storageKey: { not: 'video/new.mp4' } },
+    }))
+    expect(storageMock.deleteObject).toHaveBeenCalledWith('video/new.mp4')
+    expect(serviceMock.ensureMediaObjectFromStorageKey).not.toHaveBeenCalled()
+  })
+
+  it('records streamed uploads without a digest match', async () => {
+    storageMock.downloadAndUploadStreamWithDigest.mockResolvedValue({
+      key: 'video/new.mp4',
+      sha256: SHA,
+      sizeBytes: 10,
+    })
+
+    const key = await downloadAndUploadDeduped('https://example.com/v.mp4', 'video/new.mp4', 'user-1', { contentType: 'video/mp4' })
+
+    expect(key).toBe('video/new.mp4')
+    expect(storageMock.deleteObject).not.toHaveBeenCalled()
+    expect(serviceMock.ensureMediaObjectFromStorageKey).toHaveBeenCalledWith('video/new.mp4', {
+      mimeType: 'video/mp4',
+      sizeBytes: 10,
+    })
+  })
+
+  it('clears the digest after an in-place overwrite', async () => {
+    await invalidateMediaDigest('/images/a.jpg')
+
+    expect(prismaMock.mediaObject.updateMany).toHaveBeenCalledWith({
+      where: { storageKey: 'images/a.jpg' },
+      data: { sha256: null },
+    })
+  })
+
+  it('releases shared media by decrementing its reference count instead of deleting', async () => {
+    prismaMock.mediaObject.findUnique.mockResolvedValue({ id: 'media-shared' })
+    prismaMock.mediaObject.updateMany.mockResolvedValueOnce({ count: 1 })
+
+    const result = await releaseStorageObjects(['/images/shared.jpg'])
+
+    expect(result).toEqual({ success: 1, failed: 0 })
+    expect(prismaMock.mediaObject.findUnique).toHaveBeenCalledWith({
+      where: { storageKey: 'images/shared.jpg' },
+      select: { id: true },
+    })
+    expect(prismaMock.mediaObject.updateMany).toHaveBeenCalledTimes(1)
+    expect(prismaMock.mediaObject.updateMany).toHaveBeenCalledWith({
+      where: { id: 'media-shared', refCount: { gt: 1 } },
+      data: { refCount: { decrement: 1 } },
+    })
+    expect(storageMock.deleteObject).not.toHaveBeenCalled()
+  })
+
+  it('marks the last reference for gc and deletes untracked objects directly', async () => {
+    prismaMock.mediaObject.findUnique
+      .mockResolvedValueOnce({ id: 'media-last' })
+      .mockResolvedValueOnce(null)
+    prismaMock.mediaObject.updateMany.mockResolvedValueOnce({ count: 0 })
+
+    const result = await releaseStorageObjects(['images/last.jpg', 'images/legacy.jpg'])
+
+    expect(result).toEqual({ success: 2, failed: 0 })
+    expect(prismaMock.mediaObject.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'media-last', gcMarkedAt: null },
+      data: { refCount: 0, gcMarkedAt: expect.any(Date) },
+    })
+    expect(storageMock.deleteObject).toHaveBeenCalledTimes(1)
+    expect(storageMock.deleteObject).toHaveBeenCalledWith('images/legacy.jpg')
+  })
+})
@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type Row = Record<string, unknown>
+
+const state = vi.hoisted(() => ({
+  sources: {} as Record<string, Row[]>,
+  mediaObjects: [] as Row[],
+}))
+
+const prismaMock = vi.hoisted(() => {
+  const sourceModel = (name: string) => ({
+    findMany: vi.fn(async () => state.sources[name] || []),
+  })
+  return {
+    characterAppearance: sourceModel('characterAppearance'),
+    locationImage: sourceModel('locationImage'),
+    novelPromotionCharacter: sourceModel('novelPromotionCharacter'),
+    novelPromotionEpisode: sourceModel('novelPromotionEpisode'),
+    videoEditorProject: sourceModel('videoEditorProject'),
+    novelPromotionStoryboard: sourceModel('novelPromotionStoryboard'),
+    novelPromotionPanel: sourceModel('novelPromotionPanel'),
+    novelPromotionShot: sourceModel('novelPromotionShot'),
+    supplementaryPanel: sourceModel('supplementaryPanel'),
+    novelPromotionVoiceLine: sourceModel('novelPromotionVoiceLine'),
+    voicePreset: sourceModel('voicePreset'),
+    globalCharacter: sourceModel('globalCharacter'),
+    globalCharacterAppearance: sourceModel('globalCharacterAppearance'),
+    globalLocationImage: sourceModel('globalLocationImage'),
+    globalVoice: sourceModel('globalVoice'),
+    globalArtStyle: sourceModel('globalArtStyle'),
+    mediaObject: {
+      findMany: vi.fn(async () => state.mediaObjects),
+      update: vi.fn(async () => ({})),
+      updateMany: vi.fn(async () => ({ count: 0 })),
+      deleteMany: vi.fn(async () => ({ count: 0 })),
+    },
+    mediaGcRun: {
+      findFirst: vi.fn(async () => null),
+      create: vi.fn(async () => ({ id: 'run-1' })),
+      update: vi.fn(async () => ({})),
+    },
+  }
+})
+
+const storageMock = vi.hoisted(() => ({
+  extractStorageKey: vi.fn((input: string | null | undefined) => {
+    if (!input) return null
+    return input.startsWith('/api/files/') ? decodeURIComponent(input.slice('/api/files/'.length)) : input
+  }),
+  deleteObjects: vi.fn(async (keys: string[]) => ({ success: keys.length, failed: 0 })),
+  deleteObject: vi.fn<(key: string) => Promise<void>>(async () => undefined),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/storage', () => storageMock)
+
+import {
+  addJsonFieldReferences,
+  addMediaValueReference,
+  createMediaReferenceIndex,
+} from '@/lib/media/gc/references'
+import { runMediaGc } from '@/lib/media/gc'
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+const HOUR = 3600_000
+
+function mediaRow(id: string, overrides: Partial<Row> = {}): Row {
+  return {
+    id,
+    publicId: `pub-${id}`,
+    storageKey: `images/${id}.png`,
+    sizeBytes: BigInt(1000),
+    ownerUserId: 'user-1',
+    gcMarkedAt: null,
+    refCount: 0,
+    createdAt: new Date(NOW.getTime() - 200 * HOUR),
+    ...overrides,
+  }
+}
+
+describe('media gc references', () => {
+  it('indexes /m/ routes by publicId and legacy values by storage key', () => {
+    const index = createMediaReferenceIndex()
+    addMediaValueReference(index, '/m/pub-a', 'user-1')
+    addMediaValueReference(index, '/api/files/images%2Fb.png', 'user-2')
+    addMediaValueReference(index, 'PENDING:task-1', 'user-3')
+
+    expect(index.publicIds.get('pub-a')).toEqual({ ownerUserId: 'user-1', count: 1 })
+    expect(index.storageKeys.get('images/b.png')).toEqual({ ownerUserId: 'user-2', count: 1 })
+    expect(index.storageKeys.size).toBe(1)
+  })
+
+  it('walks nested json history fields', () => {
+    const index = createMediaReferenceIndex()
+    addJsonFieldReferences(index, JSON.stringify([
+      { url: '/m/pub-history', timestamp: '2026-01-01' },
+      { nested: { candidates: ['images/candidate.jpg'] }, note: 'plain text' },
+    ]), 'user-1')
+
+    addMediaValueReference(index, '/m/pub-history', null)
+
+    expect(index.publicIds.get('pub-history')).toEqual({ ownerUserId: 'user-1', count: 2 })
+    expect(index.storageKeys.has('images/candidate.jpg')).toBe(true)
+    expect(index.storageKeys.has('plain text')).toBe(false)
+  })
+})
+
+describe('runMediaGc', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    state.sources = {}
+    state.mediaObjects = []
+  })
+
+  it('marks, deletes and restores media according to references and grace period', async () => {
+    state.sources.novelPromotionPanel = [{
+      id: 'panel-1',
+      imageMediaId: 'referenced',
+      imageHistory: JSON.stringify(['/m/pub-restored']),
+      storyboard: { episode: { novelPromotionProject: { project: { userId: 'user-9' } } } },
+    }]
+    state.mediaObjects = [
+      mediaRow('referenced'),
+      mediaRow('restored', { gcMarkedAt: new Date(NOW.getTime() - 100 * HOUR) }),
+      mediaRow('fresh', { createdAt: new Date(NOW.getTime() - HOUR) }),
+      mediaRow('unmarked'),
+      mediaRow('pending', { gcMarkedAt: new Date(NOW.getTime() - 10 * HOUR) }),
+      mediaRow('expired', { gcMarkedAt: new Date(NOW.getTime() - 100 * HOUR), sizeBytes: BigInt(4096) }),
+    ]
+
+    const report = await runMediaGc({ gracePeriodHours: 72, now: NOW })
+
+    expect(report).toMatchObject({
+      runId: 'run-1',
+      scannedCount: 6,
+      markedCount: 1,
+      restoredCount: 1,
+      deletedCount: 1,
+      pendingCount: 1,
+      reclaimedBytes: 4096,
+      users: [{ userId: 'user-1', deletedCount: 1, reclaimedBytes: 4096 }],
+    })
+    expect(prismaMock.mediaObject.update).toHaveBeenCalledWith({
+      where: { id: 'referenced' },
+      data: { gcMarkedAt: null, ownerUserId: 'user-9', refCount: 1 },
+    })
+    expect(prismaMock.mediaObject.update).toHaveBeenCalledWith({
+      where: { id: 'restored' },
+      data: { gcMarkedAt: null, ownerUserId: 'user-9', refCount: 1 },
+    })
+    expect(prismaMock.mediaObject.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['unmarked'] } },
+      data: { gcMarkedAt: NOW, refCount: 0 },
+    })
+    expect(storageMock.deleteObjects).toHaveBeenCalledWith(['images/expired.png'])
+    expect(prismaMock.mediaObject.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['expired'] } },
+    })
+    expect(prismaMock.mediaGcRun.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({ status: 'completed', reclaimedBytes: BigInt(4096) }),
+    }))
+  })
+
+  it('keeps art style reference images referenced', async () => {
+    state.sources.globalArtStyle = [{
+      id: 'style-1',
+      userId: 'user-2',
+      referenceImages: JSON.stringify(['images/style-ref.png']),
+    }]
+    state.mediaObjects = [mediaRow('style-ref')]
+
+    const report = await runMediaGc({ gracePeriodHours: 72, now: NOW })
+
+    expect(report).toMatchObject({ markedCount: 0, deletedCount: 0 })
+    expect(prismaMock.mediaObject.update).toHaveBeenCalledWith({
+      where: { id: 'style-ref' },
+      data: { gcMarkedAt: null, ownerUserId: 'user-2', refCount: 1 },
+    })
+  })
+
+  it('keeps rows whose storage object could not be deleted', async () => {
+    state.mediaObjects = [
+      mediaRow('ok', { gcMarkedAt: new Date(NOW.getTime() - 100 * HOUR) }),
+      mediaRow('stuck', { gcMarkedAt: new Date(NOW.getTime() - 100 * HOUR) }),
+    ]
+    storageMock.deleteObjects.mockResolvedValueOnce({ success: 1, failed: 1 })
+    storageMock.deleteObject.mockImplementation(async (key: string) => {
+      if (key === 'images/stuck.png') throw new Error('denied')
+    })
+
+    const report = await runMediaGc({ gracePeriodHours: 72, now: NOW })
+
+    expect(report?.deletedCount).toBe(1)
+    expect(report?.failedCount).toBe(1)
+    expect(prismaMock.mediaObject.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['ok'] } },
+    })
+  })
+
+  it('does not delete media claimed by a deduplicated upload during the scan', async () => {
+    state.mediaObjects = [
+      mediaRow('claimed', { gcMarkedAt: new Date(NOW.getTime() - 100 * HOUR) }),
+    ]
+    prismaMock.mediaObject.findMany
+      .mockResolvedValueOnce(state.mediaObjects)
+      .mockResolvedValueOnce([])
+
+    const report = await runMediaGc({ gracePeriodHours: 72, now: NOW })
+
+    expect(report?.deletedCount).toBe(0)
+    expect(storageMock.deleteObjects).not.toHaveBeenCalled()
+    expect(prismaMock.mediaObject.deleteMany).not.toHaveBeenCalled()
+  })
+
+  it('dry run reports without writing', async () => {
+    state.mediaObjects = [
+      mediaRow('unmarked'),
+      mediaRow('expired', { gcMarkedAt: new Date(NOW.getTime() - 100 * HOUR) }),
+    ]
+
+    const report = await runMediaGc({ dryRun: true, gracePeriodHours: 72, now: NOW })
+
+    expect(report).toMatchObject({
+      runId: null,
+      dryRun: true,
+      markedCount: 1,
+      deletedCount: 1,
+      reclaimedBytes: 1000,
+    })
+    expect(report?.samples.map((sample) => sample.action)).toEqual(['mark', 'delete'])
+    expect(prismaMock.mediaGcRun.create).not.toHaveBeenCalled()
+    expect(prismaMock.mediaObject.updateMany).not.toHaveBeenCalled()
+    expect(storageMock.deleteObjects).not.toHaveBeenCalled()
+    expect(prismaMock.mediaObject.deleteMany).not.toHaveBeenCalled()
+  })
+
+  it('skips when another run is active', async () => {
+    prismaMock.mediaGcRun.findFirst.mockResolvedValueOnce({ id: 'run-0' } as never)
+
+    const report = await runMediaGc({ now: NOW })
+
+    expect(report).toBeNull()
+    expect(prismaMock.mediaGcRun.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,90 @@
+import sharp from 'sharp'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const openAIState = vi.hoisted(() => ({
+  generate: vi.fn(),
+  edit: vi.fn(),
+  toFile: vi.fn(async (bytes: Buffer, name: string) => ({ name, bytes })),
+}))
+
+vi.mock('openai', () => ({
+  default: class OpenAI {
+    images = {
+      generate: openAIState.generate,
+      edit: openAIState.edit,
+    }
+  },
+  toFile: openAIState.toFile,
+}))
+
+vi.mock('@/lib/api-config', () => ({
+  getProviderConfig: vi.fn(async () => ({
+    id: 'openai-compatible:oa-1',
+    apiKey: 'oa-key',
+    baseUrl: 'https://oa.test/v1',
+  })),
+}))
+
+import { generateImageViaOpenAICompat } from '@/lib/model-gateway/openai-compat/image'
+
+function toPngDataUrl(png: Buffer): string {
+  return `data:image/png;base64,${png.toString('base64')}`
+}
+
+// 左半白（重绘）右半黑（保留）的 2x1 蒙版
+async function halfWhiteMask(): Promise<Buffer> {
+  return await sharp(Buffer.from([255, 255, 255, 0, 0, 0]), { raw: { width: 2, height: 1, channels: 3 } })
+    .png()
+    .toBuffer()
+}
+
+describe('openai-compat image mask edits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    openAIState.edit.mockResolvedValue({ data: [{ b64_json: 'RURJVA==' }] })
+  })
+
+  it('converts the brush mask into an alpha mask file for images.edit', async () => {
+    const source = await sharp({ create: { width: 2, height: 1, channels: 3, background: '#336699' } }).png().toBuffer()
+
+    const result = await generateImageViaOpenAICompat({
+      userId: 'user-1',
+      providerId: 'openai-compatible:oa-1',
+      modelId: 'gpt-image-1',
+      prompt: 'replace the left half',
+      referenceImages: [toPngDataUrl(source)],
+      options: { maskImage: toPngDataUrl(await halfWhiteMask()) },
+      profile: 'openai-compatible',
+    })
+
+    expect(result).toEqual({ success: true, imageBase64: 'RURJVA==', imageUrl: 'data:image/png;base64,RURJVA==' })
+    const maskCall = openAIState.toFile.mock.calls.find((call) => call[1] === 'mask.png')
+    expect(maskCall).toBeTruthy()
+    expect(openAIState.edit).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gpt-image-1',
+      prompt: 'replace the left half',
+      mask: { name: 'mask.png', bytes: maskCall?.[0] },
+    }))
+
+    // OpenAI 约定透明像素为重绘区域：白色笔刷 -> alpha 0，黑色保留 -> alpha 255
+    const { data, info } = await sharp(maskCall?.[0] as Buffer).raw().toBuffer({ resolveWithObject: true })
+    expect(info.channels).toBe(4)
+    expect([data[3], data[7]]).toEqual([0, 255])
+  })
+
+  it('sends no mask when the request has none', async () => {
+    const source = await sharp({ create: { width: 2, height: 1, channels: 3, background: '#336699' } }).png().toBuffer()
+
+    await generateImageViaOpenAICompat({
+      userId: 'user-1',
+      providerId: 'openai-compatible:oa-1',
+      modelId: 'gpt-image-1',
+      prompt: 'restyle',
+      referenceImages: [toPngDataUrl(source)],
+      profile: 'openai-compatible',
+    })
+
+    expect(openAIState.edit.mock.calls[0][0]).not.toHaveProperty('mask')
+    expect(openAIState.toFile.mock.calls.map((call) => call[1])).toEqual(['reference-0.png'])
+  })
+})
@@ -53,6 +53,10 @@ vi.mock('@/components/home/AiWriteModal', () => ({
   default: () => createElement('div', null, 'AiWriteModal'),
 }))
 
+vi.mock('@/lib/query/hooks', () => ({
+  useArtStyleOptions: () => [],
+}))
+
 vi.mock('@/lib/api-fetch', () => ({
   apiFetch: vi.fn(),
 }))
@@ -42,6 +42,7 @@ describe('useVoiceGenerationActions', () => {
       .mockImplementationOnce(() => [false, vi.fn()])
       .mockImplementationOnce(() => [false, vi.fn()])
       .mockImplementationOnce(() => [false, vi.fn()])
+      .mockImplementationOnce(() => [false, vi.fn()])
   })
 
   it('adds an optimistic task overlay for async single-line generation', async () => {
@@ -66,6 +67,7 @@ describe('useVoiceGenerationActions', () => {
       analyzeVoiceMutation: { mutateAsync: vi.fn() },
       generateVoiceMutation,
       downloadVoicesMutation: { mutateAsync: vi.fn() },
+      downloadSubtitlesMutation: { mutateAsync: vi.fn() },
       loadData: vi.fn(),
       notifyVoiceLinesChanged,
       setPendingVoiceGenerationByLineId,
@@ -0,0 +1,316 @@
+import { Readable } from 'node:stream'
+import JSZip from 'jszip'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type Row = Record<string, unknown>
+
+const MEDIA_BYTES: Record<string, Buffer> = {
+  'images/panel.jpg': Buffer.from('panel-image'),
+  'video/panel.mp4': Buffer.from('panel-video'),
+  'images/char.jpg': Buffer.from('char-image'),
+  'images/loc.jpg': Buffer.from('loc-image'),
+  'voice/line.mp3': Buffer.from('line-audio'),
+}
+
+const txMock = vi.hoisted(() => {
+  const model = () => ({
+    create: vi.fn(async ({ data }: { data: Row }) => ({ id: data.id ?? 'generated-id', ...data })),
+    createMany: vi.fn(async () => ({ count: 1 })),
+    update: vi.fn(async () => ({})),
+  })
+  return {
+    project: { create: vi.fn(async ({ data }: { data: Row }) => ({ id: 'project-new', ...data })) },
+    novelPromotionProject: { create: vi.fn(async () => ({ id: 'np-new' })) },
+    novelPromotionCharacter: model(),
+    characterAppearance: model(),
+    novelPromotionLocation: model(),
+    locationImage: model(),
+    novelPromotionEpisode: model(),
+    novelPromotionClip: model(),
+    novelPromotionStoryboard: model(),
+    novelPromotionPanel: model(),
+    supplementaryPanel: model(),
+    novelPromotionShot: model(),
+    novelPromotionVoiceLine: model(),
+    videoEditorProject: model(),
+  }
+})
+
+const prismaMock = vi.hoisted(() => ({
+  project: { findUnique: vi.fn() },
+  mediaObject: { findUnique: vi.fn(async () => ({ sha256: 'sha', mimeType: null })) },
+  $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => await fn(txMock)),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/storage', () => ({
+  headObject: vi.fn(async (key: string) => (MEDIA_BYTES[key] ? { key, size: MEDIA_BYTES[key].length } : null)),
+  getObjectStream: vi.fn(async (key: string) => ({ body: Readable.from([MEDIA_BYTES[key]]) })),
+  generateUniqueKey: vi.fn((prefix: string, ext: string) => `${prefix}.${ext}`),
+}))
+vi.mock('@/lib/media/dedup', () => ({
+  uploadDedupedObject: vi.fn(async (_body: Buffer, key: string) => `imported/${key}`),
+}))
+vi.mock('@/lib/media/service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/media/service')>()),
+  resolveStorageKeyFromMediaValue: vi.fn(async (value: string) => (
+    value.startsWith('/m/') ? `video/${value.slice(3)}.mp4` : value
+  )),
+  ensureMediaObjectFromStorageKey: vi.fn(async (storageKey: string) => ({
+    id: `media:${storageKey}`,
+    url: `/m/pub-${storageKey}`,
+  })),
+}))
+
+import {
+  ARCHIVE_MAX_ENTRIES,
+  ARCHIVE_MEDIA_TOKEN_PREFIX,
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_SCHEMA_VERSION,
+  ProjectArchiveError,
+  buildProjectArchiveManifest,
+  createProjectArchiveStream,
+  importProjectArchive,
+  validateProjectArchiveManifest,
+} from '@/lib/project-archive'
+import { PROJECT_NAME_MAX_LENGTH } from '@/lib/projects/validation'
+
+function projectTree() {
+  return {
+    id: 'project-1',
+    name: 'Demo',
+    description: 'desc',
+    novelPromotionData: {
+      id: 'np-1',
+      lastEpisodeId: 'episode-1',
+      videoRatio: '16:9',
+      artStyle: 'realistic',
+      characters: [{
+        id: 'char-1',
+        name: 'Alice',
+        customVoiceUrl: null,
+        appearances: [{
+          id: 'app-1',
+          appearanceIndex: 0,
+          changeReason: 'initial',
+          imageUrl: 'images/char.jpg',
+          imageUrls: JSON.stringify(['images/char.jpg']),
+        }],
+      }],
+      locations: [{
+        id: 'loc-1',
+        name: 'Street',
+        assetKind: 'location',
+        selectedImageId: 'loc-img-1',
+        images: [{ id: 'loc-img-1', imageIndex: 0, imageUrl: 'images/loc.jpg', isSelected: true }],
+      }],
+      episodes: [{
+        id: 'episode-1',
+        episodeNumber: 1,
+        name: 'Ep 1',
+        clips: [{ id: 'clip-1', summary: 's', content: 'c' }],
+        storyboards: [{
+          id: 'sb-1',
+          clipId: 'clip-1',
+          panelCount: 1,
+          panels: [{
+            id: 'panel-1',
+            panelIndex: 0,
+            imageUrl: 'images/panel.jpg',
+            videoUrl: '/m/panel',
+            imageHistory: JSON.stringify([{ url: 'images/gone.jpg', timestamp: 't' }]),
+            linkedToNextPanel: false,
+          }],
+          supplementaryPanels: [],
+        }],
+        shots: [],
+        voiceLines: [{
+          id: 'line-1',
+          lineIndex: 0,
+          speaker: 'Alice',
+          content: 'hi',
+          audioUrl: 'voice/line.mp3',
+          matchedPanelId: 'panel-1',
+          matchedStoryboardId: 'sb-1',
+        }],
+        editorProject: {
+          id: 'editor-1',
+          projectData: JSON.stringify({
+            episodeId: 'episode-1',
+            timeline: [{ id: 'clip_panel-1', src: '/m/panel', metadata: { panelId: 'panel-1' } }],
+          }),
+          outputUrl: null,
+        },
+      }],
+    },
+  }
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(Buffer.from(value))
+  }
+  return Buffer.concat(chunks)
+}
+
+async function exportDemoArchive(): Promise<Buffer> {
+  const result = await buildProjectArchiveManifest('project-1')
+  if (!result) throw new Error('expected manifest')
+  return await readStream(createProjectArchiveStream(result))
+}
+
+describe('project archive', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.project.findUnique.mockResolvedValue(projectTree())
+  })
+
+  it('exports a manifest with media replaced by archive tokens', async () => {
+    const result = await buildProjectArchiveManifest('project-1')
+    const manifest = result!.manifest
+
+    expect(manifest.format).toBe(PROJECT_ARCHIVE_FORMAT)
+    expect(manifest.schemaVersion).toBe(PROJECT_ARCHIVE_SCHEMA_VERSION)
+    expect(manifest.media.map((entry) => entry.path)).toEqual([
+      'media/m00001.jpg',
+      'media/m00002.jpg',
+      'media/m00003.jpg',
+      'media/m00004.mp4',
+      'media/m00005.mp3',
+    ])
+    const panel = manifest.episodes[0].storyboards[0].panels[0]
+    expect(panel.imageUrl).toBe(`${ARCHIVE_MEDIA_TOKEN_PREFIX}m00003`)
+    expect(panel.videoUrl).toBe(`${ARCHIVE_MEDIA_TOKEN_PREFIX}m00004`)
+    // 存储中已不存在的历史图片置空并记入 missingMedia
+    expect(panel.imageHistory).toBe(JSON.stringify([{ url: null, timestamp: 't' }]))
+    expect(manifest.missingMedia).toEqual(['images/gone.jpg'])
+    expect(manifest.characters[0].appearances[0].imageUrls).toBe(JSON.stringify([`${ARCHIVE_MEDIA_TOKEN_PREFIX}m00001`]))
+  })
+
+  it('round-trips an exported archive into a new project with remapped ids and media', async () => {
+    const archive = await exportDemoArchive()
+
+    const result = await importProjectArchive({ userId: 'user-2', archive })
+
+    expect(result).toMatchObject({ projectId: 'project-new', name: 'Demo', episodeCount: 1, mediaCount: 5 })
+    expect(txMock.project.create).toHaveBeenCalledWith({
+      data: { name: 'Demo', description: 'desc', userId: 'user-2' },
+    })
+
+    const panelData = (txMock.novelPromotionPanel.createMany.mock.calls[0] as unknown as [{ data: Row[] }])[0].data[0]
+    expect(panelData.id).not.toBe('panel-1')
+    expect(panelData.imageUrl).toBe('imported/import-m00003.jpg')
+    expect(panelData.imageMediaId).toBe('media:imported/import-m00003.jpg')
+    expect(panelData.videoMediaId).toBe('media:imported/import-m00004.mp4')
+
+    const storyboardData = (txMock.novelPromotionStoryboard.create.mock.calls[0] as unknown as [{ data: Row }])[0].data
+    const clipData = (txMock.novelPromotionClip.createMany.mock.calls[0] as unknown as [{ data: Row[] }])[0].data[0]
+    expect(storyboardData.clipId).toBe(clipData.id)
+
+    const lineData = (txMock.novelPromotionVoiceLine.createMany.mock.calls[0] as unknown as [{ data: Row[] }])[0].data[0]
+    expect(lineData.matchedPanelId).toBe(panelData.id)
+    expect(lineData.matchedStoryboardId).toBe(storyboardData.id)
+    expect(lineData.audioMediaId).toBe('media:imported/import-m00005.mp3')
+
+    const editorData = (txMock.videoEditorProject.create.mock.calls[0] as unknown as [{ data: Row }])[0].data
+    const projectData = JSON.parse(String(editorData.projectData))
+    expect(projectData.timeline[0].src).toBe('/m/pub-imported/import-m00004.mp4')
+    expect(projectData.timeline[0].metadata.panelId).toBe(panelData.id)
+    expect(projectData.episodeId).toBe(editorData.episodeId)
+
+    const imageData = (txMock.locationImage.createMany.mock.calls[0] as unknown as [{ data: Row[] }])[0].data[0]
+    expect(txMock.novelPromotionLocation.update).toHaveBeenCalledWith({
+      where: { id: expect.any(String) },
+      data: { selectedImageId: imageData.id },
+    })
+  })
+
+  it('rejects archives with an unsupported schema version', () => {
+    expect(() => validateProjectArchiveManifest({
+      format: PROJECT_ARCHIVE_FORMAT,
+      schemaVersion: PROJECT_ARCHIVE_SCHEMA_VERSION + 1,
+    })).toThrow(expect.objectContaining({ code: 'ARCHIVE_VERSION_UNSUPPORTED' }))
+  })
+
+  it('reports the offending path for malformed manifests', () => {
+    expect(() => validateProjectArchiveManifest({
+      format: PROJECT_ARCHIVE_FORMAT,
+      schemaVersion: PROJECT_ARCHIVE_SCHEMA_VERSION,
+      project: { name: 'x' },
+      novelPromotion: {},
+      characters: [{ id: 'c1' }],
+      locations: [],
+      episodes: [],
+      media: [],
+    })).toThrow(expect.objectContaining({
+      code: 'ARCHIVE_MANIFEST_INVALID',
+      path: 'manifest.characters[0].appearances',
+    }))
+  })
+
+  it('fails clearly when the zip has no manifest or misses media files', async () => {
+    const empty = await new JSZip().file('readme.txt', 'x').generateAsync({ type: 'nodebuffer' })
+    await expect(importProjectArchive({ userId: 'user-1', archive: empty }))
+      .rejects.toMatchObject({ code: 'ARCHIVE_MANIFEST_MISSING' })
+
+    const exported = await JSZip.loadAsync(await exportDemoArchive())
+    exported.remove('media/m00001.jpg')
+    const broken = await exported.generateAsync({ type: 'nodebuffer' })
+    await expect(importProjectArchive({ userId: 'user-1', archive: broken }))
+      .rejects.toBeInstanceOf(ProjectArchiveError)
+    expect(txMock.project.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects media values that are not archive tokens', async () => {
+    const exported = await JSZip.loadAsync(await exportDemoArchive())
+    const manifest = JSON.parse(await exported.file('manifest.json')!.async('string'))
+    manifest.episodes[0].storyboards[0].panels[0].imageUrl = 'images/other-user.jpg'
+    exported.file('manifest.json', JSON.stringify(manifest))
+    const tampered = await exported.generateAsync({ type: 'nodebuffer' })
+
+    await expect(importProjectArchive({ userId: 'user-1', archive: tampered }))
+      .rejects.toMatchObject({ code: 'ARCHIVE_MANIFEST_INVALID', path: 'imageUrl' })
+
+    manifest.episodes[0].storyboards[0].panels[0].imageUrl = `${ARCHIVE_MEDIA_TOKEN_PREFIX}m00003`
+    manifest.characters[0].appearances[0].imageUrls = JSON.stringify(['/m/other-user'])
+    exported.file('manifest.json', JSON.stringify(manifest))
+    const tamperedJson = await exported.generateAsync({ type: 'nodebuffer' })
+
+    await expect(importProjectArchive({ userId: 'user-1', archive: tamperedJson }))
+      .rejects.toMatchObject({ code: 'ARCHIVE_MANIFEST_INVALID', path: 'imageUrls' })
+  })
+
+  it('truncates an overlong archived project name and rejects a blank one', async () => {
+    const exported = await JSZip.loadAsync(await exportDemoArchive())
+    const manifest = JSON.parse(await exported.file('manifest.json')!.async('string'))
+    manifest.project.name = `  ${'长'.repeat(PROJECT_NAME_MAX_LENGTH + 20)}`
+    exported.file('manifest.json', JSON.stringify(manifest))
+    const overlong = await exported.generateAsync({ type: 'nodebuffer' })
+
+    const result = await importProjectArchive({ userId: 'user-2', archive: overlong })
+    expect(result.name).toBe('长'.repeat(PROJECT_NAME_MAX_LENGTH))
+
+    manifest.project.name = '   '
+    exported.file('manifest.json', JSON.stringify(manifest))
+    const blank = await exported.generateAsync({ type: 'nodebuffer' })
+
+    await expect(importProjectArchive({ userId: 'user-2', archive: blank }))
+      .rejects.toMatchObject({ code: 'ARCHIVE_MANIFEST_INVALID', path: 'manifest.project.name' })
+    // 显式指定的新名称优先于归档中的名称
+    await expect(importProjectArchive({ userId: 'user-2', archive: blank, name: 'Renamed' }))
+      .resolves.toMatchObject({ name: 'Renamed' })
+  })
+
+  it('rejects archives with too many entries', async () => {
+    const zip = new JSZip()
+    for (let index = 0; index <= ARCHIVE_MAX_ENTRIES; index += 1) zip.file(`media/${index}.txt`, '')
+    const archive = await zip.generateAsync({ type: 'nodebuffer' })
+
+    await expect(importProjectArchive({ userId: 'user-1', archive }))
+      .rejects.toMatchObject({ code: 'ARCHIVE_TOO_LARGE' })
+  })
+})
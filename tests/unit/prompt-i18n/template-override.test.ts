@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildPrompt,
+  buildPromptTemplateOverrideKey,
+  getDefaultPromptTemplate,
+  getPromptTemplate,
+  getPromptTemplateVersion,
+  PROMPT_IDS,
+  withPromptTemplateOverrides,
+} from '@/lib/prompt-i18n'
+
+describe('prompt template overrides', () => {
+  const overrides = new Map([
+    [buildPromptTemplateOverrideKey(PROMPT_IDS.NP_AI_STORY_EXPAND, 'zh'), '扩写成悬疑短剧：{input}'],
+  ])
+
+  it('reads the override only inside the override context and leaves the file template cached', async () => {
+    const fileTemplate = getDefaultPromptTemplate(PROMPT_IDS.NP_AI_STORY_EXPAND, 'zh')
+
+    await withPromptTemplateOverrides(overrides, async () => {
+      expect(getPromptTemplate(PROMPT_IDS.NP_AI_STORY_EXPAND, 'zh')).toBe('扩写成悬疑短剧：{input}')
+      expect(getPromptTemplate(PROMPT_IDS.NP_AI_STORY_EXPAND, 'en')).toBe(
+        getDefaultPromptTemplate(PROMPT_IDS.NP_AI_STORY_EXPAND, 'en'),
+      )
+      expect(buildPrompt({
+        promptId: PROMPT_IDS.NP_AI_STORY_EXPAND,
+        locale: 'zh',
+        variables: { input: '雨夜' },
+      })).toBe('扩写成悬疑短剧：雨夜')
+    })
+
+    expect(getPromptTemplate(PROMPT_IDS.NP_AI_STORY_EXPAND, 'zh')).toBe(fileTemplate)
+  })
+
+  it('changes the template version fingerprint when an override is active', async () => {
+    const baseVersion = getPromptTemplateVersion([PROMPT_IDS.NP_AI_STORY_EXPAND], 'zh')
+    const overrideVersion = await withPromptTemplateOverrides(
+      overrides,
+      async () => getPromptTemplateVersion([PROMPT_IDS.NP_AI_STORY_EXPAND], 'zh'),
+    )
+
+    expect(overrideVersion).not.toBe(baseVersion)
+  })
+})
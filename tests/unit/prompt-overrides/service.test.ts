@@ -0,0 +1,190 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const prismaMock = vi.hoisted(() => ({
+  promptTemplateOverride: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    upsert: vi.fn(),
+  },
+  promptTemplateVersion: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: prismaMock,
+}))
+
+import {
+  loadActivePromptTemplateOverrides,
+  savePromptTemplateVersion,
+  setActivePromptTemplateVersion,
+  validatePromptTemplateContent,
+  type PromptOverrideTarget,
+} from '@/lib/prompt-overrides'
+import { buildPromptTemplateOverrideKey, PROMPT_IDS } from '@/lib/prompt-i18n'
+
+const target: PromptOverrideTarget = {
+  userId: 'user-1',
+  scope: 'user',
+  projectId: null,
+  promptId: PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+  locale: 'zh',
+}
+
+describe('prompt overrides service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.$transaction.mockImplementation(async (fn: (tx: typeof prismaMock) => Promise<unknown>) => await fn(prismaMock))
+  })
+
+  it('rejects placeholders that are not declared in the catalog and reports unused variables', () => {
+    expect(() => validatePromptTemplateContent(
+      PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+      '镜头：{panels_json} 风格：{genre}',
+    )).toThrow(expect.objectContaining({
+      details: expect.objectContaining({
+        code: 'PROMPT_OVERRIDE_PLACEHOLDER_INVALID',
+        field: 'content',
+        placeholders: ['genre'],
+      }),
+    }))
+
+    expect(validatePromptTemplateContent(
+      PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+      '镜头 {{panels_json}} 共 {panel_count} 个，场景 {locations_description}，角色 {characters_info}',
+    )).toEqual({ missingVariables: ['props_description'] })
+
+    expect(() => validatePromptTemplateContent(PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER, '  ')).toThrow(expect.objectContaining({
+      details: expect.objectContaining({ code: 'PROMPT_OVERRIDE_CONTENT_REQUIRED' }),
+    }))
+  })
+
+  it('loads active versions with project overrides taking precedence over user overrides', async () => {
+    prismaMock.promptTemplateOverride.findMany.mockResolvedValue([
+      { id: 'ov-project', scopeKey: 'project:project-1', promptId: 'np_agent_cinematographer', locale: 'zh', activeVersion: 1 },
+      { id: 'ov-user', scopeKey: 'user', promptId: 'np_agent_cinematographer', locale: 'zh', activeVersion: 4 },
+      { id: 'ov-user-plan', scopeKey: 'user', promptId: 'np_agent_storyboard_plan', locale: 'zh', activeVersion: 2 },
+      { id: 'ov-removed', scopeKey: 'user', promptId: 'np_removed_prompt', locale: 'zh', activeVersion: 1 },
+    ])
+    prismaMock.promptTemplateVersion.findMany.mockResolvedValue([
+      { overrideId: 'ov-project', content: 'project cinematographer' },
+      { overrideId: 'ov-user', content: 'user cinematographer' },
+      { overrideId: 'ov-user-plan', content: 'user plan' },
+      { overrideId: 'ov-removed', content: 'stale' },
+    ])
+
+    const overrides = await loadActivePromptTemplateOverrides({ userId: 'user-1', projectId: 'project-1' })
+
+    expect(prismaMock.promptTemplateOverride.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        userId: 'user-1',
+        scopeKey: { in: ['user', 'project:project-1'] },
+        activeVersion: { not: null },
+      },
+    }))
+    expect(prismaMock.promptTemplateVersion.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        OR: [
+          { overrideId: 'ov-project', version: 1 },
+          { overrideId: 'ov-user', version: 4 },
+          { overrideId: 'ov-user-plan', version: 2 },
+          { overrideId: 'ov-removed', version: 1 },
+        ],
+      },
+    }))
+    expect(Object.fromEntries(overrides)).toEqual({
+      [buildPromptTemplateOverrideKey(PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER, 'zh')]: 'project cinematographer',
+      [buildPromptTemplateOverrideKey(PROMPT_IDS.NP_AGENT_STORYBOARD_PLAN, 'zh')]: 'user plan',
+    })
+  })
+
+  it('only reads user overrides for virtual projects', async () => {
+    prismaMock.promptTemplateOverride.findMany.mockResolvedValue([])
+
+    await expect(loadActivePromptTemplateOverrides({ userId: 'user-1', projectId: 'global-asset-hub' })).resolves.toEqual(new Map())
+    expect(prismaMock.promptTemplateOverride.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ scopeKey: { in: ['user'] } }),
+    }))
+    expect(prismaMock.promptTemplateVersion.findMany).not.toHaveBeenCalled()
+  })
+
+  it('rolls back only to versions that exist and can disable the override', async () => {
+    prismaMock.promptTemplateOverride.findUnique.mockResolvedValue({
+      id: 'ov-user',
+      activeVersion: 2,
+      versions: [
+        { version: 2, content: 'v2', note: null, createdAt: new Date('2026-10-02T00:00:00Z') },
+        { version: 1, content: 'v1', note: 'first', createdAt: new Date('2026-10-01T00:00:00Z') },
+      ],
+    })
+
+    await expect(setActivePromptTemplateVersion(target, 3)).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'PROMPT_OVERRIDE_VERSION_INVALID', field: 'activeVersion' }),
+    })
+    expect(prismaMock.promptTemplateOverride.update).not.toHaveBeenCalled()
+
+    await setActivePromptTemplateVersion(target, 1)
+    expect(prismaMock.promptTemplateOverride.update).toHaveBeenCalledWith({
+      where: { id: 'ov-user' },
+      data: { activeVersion: 1 },
+    })
+
+    await setActivePromptTemplateVersion(target, null)
+    expect(prismaMock.promptTemplateOverride.update).toHaveBeenLastCalledWith({
+      where: { id: 'ov-user' },
+      data: { activeVersion: null },
+    })
+  })
+
+  it('retries the save when a concurrent save took the same version number', async () => {
+    const versionConflict = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: 'test',
+      meta: { target: 'prompt_template_versions_overrideId_version_key' },
+    })
+    prismaMock.promptTemplateOverride.upsert.mockResolvedValue({ id: 'ov-user' })
+    prismaMock.promptTemplateVersion.findFirst
+      .mockResolvedValueOnce({ version: 2 })
+      .mockResolvedValueOnce({ version: 3 })
+    prismaMock.promptTemplateVersion.create
+      .mockRejectedValueOnce(versionConflict)
+      .mockResolvedValueOnce({})
+    prismaMock.promptTemplateOverride.findUnique.mockResolvedValue(null)
+
+    await savePromptTemplateVersion(target, { content: '{panels_json}' })
+
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(2)
+    expect(prismaMock.promptTemplateVersion.create).toHaveBeenLastCalledWith({
+      data: { overrideId: 'ov-user', version: 4, content: '{panels_json}', note: null },
+    })
+    expect(prismaMock.promptTemplateOverride.update).toHaveBeenCalledTimes(1)
+    expect(prismaMock.promptTemplateOverride.update).toHaveBeenCalledWith({
+      where: { id: 'ov-user' },
+      data: { activeVersion: 4 },
+    })
+  })
+
+  it('gives up after repeated version conflicts and does not retry other errors', async () => {
+    const versionConflict = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: 'test',
+    })
+    prismaMock.promptTemplateOverride.upsert.mockResolvedValue({ id: 'ov-user' })
+    prismaMock.promptTemplateVersion.findFirst.mockResolvedValue({ version: 1 })
+    prismaMock.promptTemplateVersion.create.mockRejectedValue(versionConflict)
+
+    await expect(savePromptTemplateVersion(target, { content: '{panels_json}' })).rejects.toBe(versionConflict)
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(3)
+
+    prismaMock.$transaction.mockClear()
+    prismaMock.promptTemplateVersion.create.mockRejectedValue(new Error('connection lost'))
+    await expect(savePromptTemplateVersion(target, { content: '{panels_json}' })).rejects.toThrow('connection lost')
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1)
+  })
+})
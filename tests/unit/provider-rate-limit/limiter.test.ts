@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const redisMock = vi.hoisted(() => ({
+  eval: vi.fn(async () => 0 as unknown),
+}))
+
+vi.mock('@/lib/redis', () => ({ redis: redisMock }))
+
+import {
+  ProviderRateLimitedError,
+  parseProviderRateLimit,
+  readRetryAfterMs,
+  withProviderRateLimit,
+} from '@/lib/provider-rate-limit'
+
+const TARGET = { provider: 'fal', modelId: 'banana-2' }
+
+describe('provider rate limit config', () => {
+  it('parses rpm / tpm and rejects non-positive values', () => {
+    expect(parseProviderRateLimit(undefined)).toBeUndefined()
+    expect(parseProviderRateLimit({})).toBeUndefined()
+    expect(parseProviderRateLimit({ rpm: 60, tpm: 200000 })).toEqual({ rpm: 60, tpm: 200000 })
+    expect(() => parseProviderRateLimit({ rpm: 0 })).toThrow('PROVIDER_RATE_LIMIT_INVALID')
+    expect(() => parseProviderRateLimit({ tpm: 1.5 })).toThrow('PROVIDER_RATE_LIMIT_INVALID')
+    expect(() => parseProviderRateLimit('60')).toThrow('PROVIDER_RATE_LIMIT_INVALID')
+  })
+
+  it('reads Retry-After seconds, HTTP dates and nested retryAfterMs', () => {
+    const now = Date.parse('2026-10-19T12:00:00.000Z')
+    expect(readRetryAfterMs(new Headers({ 'retry-after': '3' }), now)).toBe(3000)
+    expect(readRetryAfterMs({ headers: { 'retry-after': 'Mon, 19 Oct 2026 12:00:10 GMT' } }, now)).toBe(10_000)
+    expect(readRetryAfterMs({ response: { headers: { 'retry-after-ms': '1500' } } }, now)).toBe(1500)
+    expect(readRetryAfterMs(new Error('wrapped', { cause: { retryAfterMs: 4200 } }), now)).toBe(4200)
+    expect(readRetryAfterMs(new Error('no hint'), now)).toBeNull()
+  })
+})
+
+describe('withProviderRateLimit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    redisMock.eval.mockResolvedValue(0)
+  })
+
+  it('skips redis entirely when no rule is configured', async () => {
+    const result = await withProviderRateLimit({ ...TARGET, rules: [], run: async () => 'ok' })
+
+    expect(result).toBe('ok')
+    expect(redisMock.eval).not.toHaveBeenCalled()
+  })
+
+  it('consumes request and token buckets before running', async () => {
+    const run = vi.fn(async () => 'ok')
+    await withProviderRateLimit({
+      ...TARGET,
+      rules: [{ scope: 'fal::banana-2', rpm: 60, tpm: 1000 }],
+      tokens: 120,
+      run,
+    })
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(redisMock.eval).toHaveBeenCalledWith(
+      expect.stringContaining('HMGET'),
+      3,
+      'provider-rate:fal::banana-2:cooldown',
+      'provider-rate:fal::banana-2:rpm',
+      'provider-rate:fal::banana-2:tpm',
+      expect.any(Number),
+      60,
+      1,
+      1000,
+      120,
+      expect.any(Number),
+    )
+  })
+
+  it('fails fast with retryAfterMs when the bucket wait is too long', async () => {
+    redisMock.eval.mockResolvedValueOnce(45_000)
+    const run = vi.fn(async () => 'never')
+
+    const error = await withProviderRateLimit({
+      ...TARGET,
+      rules: [{ scope: 'fal::banana-2', rpm: 1 }],
+      run,
+    }).catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(ProviderRateLimitedError)
+    expect((error as ProviderRateLimitedError).retryAfterMs).toBe(45_000)
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it('records upstream 429 as a shared cooldown honoring Retry-After', async () => {
+    redisMock.eval
+      .mockResolvedValueOnce(0)
+      .mockResolvedValueOnce(8_000)
+    const upstream = Object.assign(new Error('Too many requests'), {
+      status: 429,
+      headers: { 'retry-after': '8' },
+    })
+
+    const error = await withProviderRateLimit({
+      ...TARGET,
+      rules: [{ scope: 'fal::banana-2', rpm: 60 }],
+      run: async () => {
+        throw upstream
+      },
+    }).catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(ProviderRateLimitedError)
+    expect((error as ProviderRateLimitedError).retryAfterMs).toBe(8_000)
+    expect((error as ProviderRateLimitedError).cause).toBe(upstream)
+    expect(redisMock.eval).toHaveBeenLastCalledWith(
+      expect.stringContaining('INCR'),
+      2,
+      'provider-rate:fal::banana-2:cooldown',
+      'provider-rate:fal::banana-2:strikes',
+      8_000,
+      expect.any(Number),
+      expect.any(Number),
+    )
+  })
+
+  it('passes through non rate-limit errors untouched', async () => {
+    const failure = new Error('MODEL_NOT_FOUND')
+    await expect(withProviderRateLimit({
+      ...TARGET,
+      rules: [],
+      run: async () => {
+        throw failure
+      },
+    })).rejects.toBe(failure)
+  })
+})
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const getProviderConfigMock = vi.hoisted(() =>
+  vi.fn(async () => ({
+    id: 'google',
+    apiKey: 'google-key',
+  })),
+)
+
+vi.mock('@/lib/api-config', () => ({
+  getProviderConfig: getProviderConfigMock,
+}))
+
+import { GoogleImagenGenerator } from '@/lib/generators/image/google'
+import { resolveBuiltinCapabilitiesByModelKey } from '@/lib/model-capabilities/lookup'
+
+describe('google imagen provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('maps an API-key request through the real SDK without seed or watermark overrides', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      predictions: [{ bytesBase64Encoded: 'SU1BR0VO', mimeType: 'image/png' }],
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } }))
+    vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch)
+
+    const generator = new GoogleImagenGenerator('imagen-4.0-generate-001')
+    const result = await generator.generate({
+      userId: 'user-1',
+      prompt: 'a lighthouse at dusk',
+      options: {
+        aspectRatio: '16:9',
+        seed: 424242,
+      },
+    })
+
+    expect(result).toEqual({
+      success: true,
+      imageBase64: 'SU1BR0VO',
+      imageUrl: 'data:image/png;base64,SU1BR0VO',
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [requestUrl, requestInit] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(String(requestUrl)).toContain('models/imagen-4.0-generate-001:predict')
+    const body = JSON.parse(String(requestInit.body)) as {
+      instances: Array<{ prompt: string }>
+      parameters: Record<string, unknown>
+    }
+    expect(body.instances).toEqual([{ prompt: 'a lighthouse at dusk' }])
+    expect(body.parameters).toEqual({ sampleCount: 1, aspectRatio: '16:9' })
+  })
+
+  it('does not advertise seed support for Imagen models', () => {
+    for (const modelId of ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001']) {
+      expect(resolveBuiltinCapabilitiesByModelKey('image', `google::${modelId}`)?.image?.supportSeed).toBeUndefined()
+    }
+  })
+})
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const getProviderConfigMock = vi.hoisted(() => vi.fn())
+const arkImageGenerationMock = vi.hoisted(() => vi.fn())
+const resolveConfigMock = vi.hoisted(() => vi.fn(async () => ({
+  providerId: 'openai-compatible:test-provider',
+  baseUrl: 'https://compat.example.com/v1',
+  apiKey: 'sk-test',
+})))
+
+vi.mock('@/lib/api-config', () => ({
+  getProviderConfig: getProviderConfigMock,
+}))
+
+vi.mock('@/lib/ark-api', () => ({
+  arkImageGeneration: arkImageGenerationMock,
+}))
+
+vi.mock('@/lib/model-gateway/openai-compat/common', () => ({
+  resolveOpenAICompatClientConfig: resolveConfigMock,
+}))
+
+import { ArkImageGenerator } from '@/lib/generators/ark'
+import { FalImageGenerator } from '@/lib/generators/fal'
+import { generateImageViaOpenAICompatTemplate } from '@/lib/model-gateway/openai-compat/template-image'
+import type { OpenAICompatMediaTemplate } from '@/lib/openai-compat-media-template'
+
+function readJsonBody(fetchMock: ReturnType<typeof vi.fn>): Record<string, unknown> {
+  const [, requestInit] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+  return JSON.parse(String(requestInit.body)) as Record<string, unknown>
+}
+
+const seedTemplate: OpenAICompatMediaTemplate = {
+  version: 1,
+  mediaType: 'image',
+  mode: 'sync',
+  create: {
+    method: 'POST',
+    path: '/images/generations',
+    contentType: 'application/json',
+    bodyTemplate: {
+      model: '{{model}}',
+      prompt: '{{prompt}}',
+      seed: '{{seed}}',
+    },
+  },
+  response: {
+    outputUrlPath: '$.data[0].url',
+  },
+}
+
+describe('image provider seed mapping', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('FAL banana -> seed is written into the queue request body', async () => {
+    getProviderConfigMock.mockResolvedValueOnce({ id: 'fal', apiKey: 'fal-key' })
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ request_id: 'req-1' }), { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch)
+
+    const result = await new FalImageGenerator().generate({
+      userId: 'user-1',
+      prompt: 'same composition',
+      options: { modelId: 'banana-2', aspectRatio: '16:9', seed: 424242 },
+    })
+
+    expect(result.externalId).toBe('FAL:IMAGE:fal-ai/nano-banana-2:req-1')
+    expect(readJsonBody(fetchMock)).toEqual({
+      prompt: 'same composition',
+      num_images: 1,
+      output_format: 'png',
+      aspect_ratio: '16:9',
+      seed: 424242,
+    })
+  })
+
+  it('FAL banana without seed -> request body carries no seed field', async () => {
+    getProviderConfigMock.mockResolvedValueOnce({ id: 'fal', apiKey: 'fal-key' })
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ request_id: 'req-2' }), { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch)
+
+    await new FalImageGenerator().generate({
+      userId: 'user-1',
+      prompt: 'fresh composition',
+      options: { modelId: 'banana' },
+    })
+
+    expect(readJsonBody(fetchMock)).not.toHaveProperty('seed')
+  })
+
+  it('ARK seedream -> seed is passed to the ARK image request', async () => {
+    getProviderConfigMock.mockResolvedValueOnce({ id: 'ark', apiKey: 'ark-key' })
+    arkImageGenerationMock.mockResolvedValueOnce({ data: [{ url: 'https://seedream.test/seeded.png' }] })
+
+    await new ArkImageGenerator().generate({
+      userId: 'user-1',
+      prompt: 'same composition',
+      options: { modelId: 'doubao-seedream-4-5-251128', aspectRatio: '1:1', seed: 7 },
+    })
+
+    expect(arkImageGenerationMock).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'doubao-seedream-4-5-251128', seed: 7 }),
+      { apiKey: 'ark-key', logPrefix: '[ARK Image]' },
+    )
+  })
+
+  it('openai-compat template -> numeric seed renders into the {{seed}} placeholder', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      data: [{ url: 'https://cdn.test/seeded.png' }],
+    }), { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch)
+
+    const result = await generateImageViaOpenAICompatTemplate({
+      userId: 'user-1',
+      providerId: 'openai-compatible:test-provider',
+      modelId: 'flux-dev',
+      modelKey: 'openai-compatible:test-provider::flux-dev',
+      prompt: 'same composition',
+      profile: 'openai-compatible',
+      template: seedTemplate,
+      options: { seed: 99 },
+    })
+
+    expect(result).toEqual({ success: true, imageUrl: 'https://cdn.test/seeded.png' })
+    expect(readJsonBody(fetchMock)).toEqual({
+      model: 'flux-dev',
+      prompt: 'same composition',
+      seed: 99,
+    })
+  })
+
+  it('openai-compat template without seed -> placeholder renders as null', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      data: [{ url: 'https://cdn.test/fresh.png' }],
+    }), { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch)
+
+    await generateImageViaOpenAICompatTemplate({
+      userId: 'user-1',
+      providerId: 'openai-compatible:test-provider',
+      modelId: 'flux-dev',
+      modelKey: 'openai-compatible:test-provider::flux-dev',
+      prompt: 'fresh composition',
+      profile: 'openai-compatible',
+      template: seedTemplate,
+    })
+
+    expect(readJsonBody(fetchMock).seed).toBeNull()
+  })
+})
@@ -20,6 +20,26 @@ describe('storage factory', () => {
     expect(provider.kind).toBe('minio')
   })
 
+  it('creates generic s3 provider when STORAGE_TYPE=s3', () => {
+    process.env.S3_BUCKET = 'renders'
+    process.env.S3_REGION = 'auto'
+    process.env.S3_ENDPOINT = 'https://account.r2.cloudflarestorage.com'
+    delete process.env.S3_ACCESS_KEY_ID
+    delete process.env.S3_SECRET_ACCESS_KEY
+
+    const provider = createStorageProvider({ storageType: 's3' })
+    expect(provider.kind).toBe('s3')
+  })
+
+  it('rejects s3 provider with a partial static credential pair', () => {
+    process.env.S3_BUCKET = 'renders'
+    process.env.S3_ACCESS_KEY_ID = 'key-only'
+    delete process.env.S3_SECRET_ACCESS_KEY
+
+    expect(() => createStorageProvider({ storageType: 's3' })).toThrow(StorageConfigError)
+    delete process.env.S3_ACCESS_KEY_ID
+  })
+
   it('throws explicit not-implemented error when STORAGE_TYPE=cos', () => {
     expect(() => createStorageProvider({ storageType: 'cos' })).toThrow(StorageProviderNotImplementedError)
   })
@@ -0,0 +1,94 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { LocalStorageProvider } from '@/lib/storage/providers/local'
+import { parseByteRange, streamToBuffer } from '@/lib/storage/utils'
+
+describe('local storage provider', () => {
+  let rootDir = ''
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-local-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  function createProvider(shardDepth: number) {
+    // uploadDir 相对 cwd 解析，这里换算成相对路径指向临时目录
+    return new LocalStorageProvider({ uploadDir: path.relative(process.cwd(), rootDir), shardDepth })
+  }
+
+  it('writes streamed uploads into hash-sharded directories and reads them back by key', async () => {
+    const provider = createProvider(2)
+    await provider.uploadObjectStream({
+      key: 'videos/a.mp4',
+      body: Readable.from([Buffer.from('hello '), Buffer.from('world')]),
+    })
+
+    const onDisk = await fs.readdir(rootDir)
+    expect(onDisk).toHaveLength(1)
+    expect(onDisk[0]).toMatch(/^[0-9a-f]{2}$/)
+
+    await expect(provider.headObject('videos/a.mp4')).resolves.toMatchObject({ key: 'videos/a.mp4', size: 11 })
+    await expect(provider.getObjectBuffer('videos/a.mp4')).resolves.toEqual(Buffer.from('hello world'))
+  })
+
+  it('falls back to flat paths written before sharding was enabled', async () => {
+    await fs.mkdir(path.join(rootDir, 'images'), { recursive: true })
+    await fs.writeFile(path.join(rootDir, 'images', 'legacy.png'), 'legacy')
+
+    const provider = createProvider(1)
+    await expect(provider.getObjectBuffer('images/legacy.png')).resolves.toEqual(Buffer.from('legacy'))
+    await expect(provider.headObject('images/missing.png')).resolves.toBeNull()
+  })
+
+  it('lists sharded and flat objects by logical key with pagination', async () => {
+    const provider = createProvider(1)
+    await fs.mkdir(path.join(rootDir, 'images'), { recursive: true })
+    await fs.writeFile(path.join(rootDir, 'images', 'a.png'), 'a')
+    await provider.uploadObject({ key: 'images/b.png', body: Buffer.from('bb') })
+    await provider.uploadObject({ key: 'images/c.png', body: Buffer.from('ccc') })
+    await provider.uploadObject({ key: 'voice/d.mp3', body: Buffer.from('d') })
+
+    const first = await provider.listObjects({ prefix: 'images/', maxKeys: 2 })
+    expect(first.objects.map((item) => [item.key, item.size])).toEqual([['images/a.png', 1], ['images/b.png', 2]])
+    expect(first.nextContinuationToken).toBe('images/b.png')
+
+    const second = await provider.listObjects({ prefix: 'images/', maxKeys: 2, continuationToken: first.nextContinuationToken! })
+    expect(second.objects.map((item) => item.key)).toEqual(['images/c.png'])
+    expect(second.nextContinuationToken).toBeNull()
+  })
+
+  it('streams byte ranges', async () => {
+    const provider = createProvider(0)
+    await provider.uploadObject({ key: 'clip.bin', body: Buffer.from('0123456789') })
+
+    const object = await provider.getObjectStream('clip.bin', { start: 2, end: 5 })
+    expect(object).toMatchObject({ contentLength: 4, totalSize: 10, range: { start: 2, end: 5 } })
+    await expect(streamToBuffer(object.body)).resolves.toEqual(Buffer.from('2345'))
+  })
+
+  it('rejects keys escaping the upload directory', async () => {
+    const provider = createProvider(0)
+    await expect(provider.uploadObject({ key: '../escape.txt', body: Buffer.from('x') })).rejects.toThrow('escapes upload directory')
+  })
+})
+
+describe('parseByteRange', () => {
+  it('parses bounded, open-ended and suffix ranges', () => {
+    expect(parseByteRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 })
+    expect(parseByteRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 })
+    expect(parseByteRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 })
+    expect(parseByteRange('bytes=990-2000', 1000)).toEqual({ start: 990, end: 999 })
+  })
+
+  it('returns null for missing or multi-range headers and flags unsatisfiable ranges', () => {
+    expect(parseByteRange(null, 1000)).toBeNull()
+    expect(parseByteRange('bytes=0-1,5-6', 1000)).toBeNull()
+    expect(parseByteRange('bytes=1000-', 1000)).toBe('unsatisfiable')
+  })
+})
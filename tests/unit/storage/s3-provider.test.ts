@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type MockCommand = {
+  readonly type: string
+  readonly input: Record<string, unknown>
+}
+
+const { sendMock } = vi.hoisted(() => ({
+  sendMock: vi.fn<(command: MockCommand) => Promise<unknown>>(),
+}))
+
+vi.mock('@aws-sdk/client-s3', () => {
+  const command = (type: string) => vi.fn((input: Record<string, unknown>): MockCommand => ({ type, input }))
+  return {
+    S3Client: vi.fn(() => ({ send: sendMock })),
+    PutObjectCommand: command('PutObject'),
+    DeleteObjectCommand: command('DeleteObject'),
+    DeleteObjectsCommand: command('DeleteObjects'),
+    GetObjectCommand: command('GetObject'),
+    HeadObjectCommand: command('HeadObject'),
+    ListObjectsV2Command: command('ListObjectsV2'),
+    CreateMultipartUploadCommand: command('CreateMultipartUpload'),
+    UploadPartCommand: command('UploadPart'),
+    CompleteMultipartUploadCommand: command('CompleteMultipartUpload'),
+    AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+  }
+})
+
+import { S3StorageProvider } from '@/lib/storage/providers/s3'
+
+const MB = 1024 * 1024
+
+async function* chunks(sizes: number[]) {
+  for (const size of sizes) {
+    yield Buffer.alloc(size, 1)
+  }
+}
+
+function commandTypes() {
+  return sendMock.mock.calls.map(([command]) => command.type)
+}
+
+describe('s3 storage provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.S3_BUCKET = 'renders'
+    process.env.S3_REGION = 'auto'
+    process.env.S3_MULTIPART_PART_SIZE_MB = '5'
+    delete process.env.S3_ENDPOINT
+    delete process.env.S3_ACCESS_KEY_ID
+    delete process.env.S3_SECRET_ACCESS_KEY
+    sendMock.mockImplementation(async (command) => {
+      if (command.type === 'CreateMultipartUpload') return { UploadId: 'upload-1' }
+      if (command.type === 'UploadPart') return { ETag: `etag-${String(command.input.PartNumber)}` }
+      return {}
+    })
+  })
+
+  it('uploads small streams with a single PutObject', async () => {
+    const provider = new S3StorageProvider()
+    await provider.uploadObjectStream({ key: 'small.mp4', body: chunks([1024, 2048]), contentType: 'video/mp4' })
+
+    expect(commandTypes()).toEqual(['PutObject'])
+    const [put] = sendMock.mock.calls[0]
+    expect(put.input).toMatchObject({ Bucket: 'renders', Key: 'small.mp4', ContentType: 'video/mp4' })
+    expect((put.input.Body as Buffer).length).toBe(3072)
+  })
+
+  it('splits large streams into multipart parts and completes the upload', async () => {
+    const provider = new S3StorageProvider()
+    await provider.uploadObjectStream({ key: 'large.mp4', body: chunks([3 * MB, 3 * MB, 3 * MB, 2 * MB]) })
+
+    expect(commandTypes()).toEqual([
+      'CreateMultipartUpload',
+      'UploadPart',
+      'UploadPart',
+      'UploadPart',
+      'CompleteMultipartUpload',
+    ])
+    const partSizes = sendMock.mock.calls
+      .filter(([command]) => command.type === 'UploadPart')
+      .map(([command]) => (command.input.Body as Buffer).length)
+    expect(partSizes).toEqual([5 * MB, 5 * MB, 1 * MB])
+    const complete = sendMock.mock.calls[4][0]
+    expect(complete.input).toMatchObject({ UploadId: 'upload-1' })
+    expect(complete.input.MultipartUpload).toEqual({
+      Parts: [
+        { ETag: 'etag-1', PartNumber: 1 },
+        { ETag: 'etag-2', PartNumber: 2 },
+        { ETag: 'etag-3', PartNumber: 3 },
+      ],
+    })
+  })
+
+  it('aborts the multipart upload when a part fails', async () => {
+    sendMock.mockImplementation(async (command) => {
+      if (command.type === 'CreateMultipartUpload') return { UploadId: 'upload-1' }
+      if (command.type === 'UploadPart') throw new Error('part failed')
+      return {}
+    })
+    const provider = new S3StorageProvider()
+
+    await expect(provider.uploadObjectStream({ key: 'large.mp4', body: chunks([6 * MB]) })).rejects.toThrow('part failed')
+    expect(commandTypes()).toEqual(['CreateMultipartUpload', 'UploadPart', 'AbortMultipartUpload'])
+  })
+
+  it('returns null from headObject for missing keys', async () => {
+    sendMock.mockRejectedValueOnce(Object.assign(new Error('not found'), { name: 'NotFound' }))
+    const provider = new S3StorageProvider()
+
+    await expect(provider.headObject('missing.mp4')).resolves.toBeNull()
+  })
+
+  it('maps ranged GetObject responses', async () => {
+    sendMock.mockResolvedValueOnce({
+      Body: 'partial',
+      ContentLength: 100,
+      ContentRange: 'bytes 100-199/1000',
+      ContentType: 'video/mp4',
+    })
+    const provider = new S3StorageProvider()
+
+    const object = await provider.getObjectStream('clip.mp4', { start: 100, end: 199 })
+    expect(sendMock.mock.calls[0][0].input).toMatchObject({ Key: 'clip.mp4', Range: 'bytes=100-199' })
+    expect(object).toMatchObject({
+      contentLength: 100,
+      totalSize: 1000,
+      contentType: 'video/mp4',
+      range: { start: 100, end: 199 },
+    })
+  })
+})
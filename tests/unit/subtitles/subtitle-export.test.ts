@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  cuesFromEditorProject,
+  cuesFromVoiceLines,
+  toASS,
+  toSRT,
+  toWebVTT,
+  type SubtitleCue,
+} from '@/lib/subtitles'
+
+const cues: SubtitleCue[] = [
+  { startMs: 1500, endMs: 3250, text: 'second', speaker: 'Bob' },
+  { startMs: 0, endMs: 1500, text: 'first <hi>', speaker: 'Alice' },
+  { startMs: 3250, endMs: 3250, text: 'empty span' },
+]
+
+describe('subtitle serialization', () => {
+  it('writes SRT cues in time order and drops zero-length cues', () => {
+    expect(toSRT(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nfirst <hi>\n\n'
+      + '2\n00:00:01,500 --> 00:00:03,250\nsecond\n',
+    )
+  })
+
+  it('writes WebVTT voice spans with escaped text', () => {
+    expect(toWebVTT(cues)).toBe(
+      'WEBVTT\n\n'
+      + '00:00:00.000 --> 00:00:01.500\n<v Alice>first &lt;hi&gt;\n\n'
+      + '00:00:01.500 --> 00:00:03.250\n<v Bob>second\n',
+    )
+  })
+
+  it('creates one ASS style per speaker and references it from dialogue events', () => {
+    const ass = toASS(cues, { width: 1920, height: 1080 })
+
+    expect(ass).toContain('PlayResX: 1920')
+    expect(ass).toMatch(/^Style: Default,/m)
+    expect(ass).toMatch(/^Style: Alice,/m)
+    expect(ass).toMatch(/^Style: Bob,/m)
+    expect(ass).toContain('Dialogue: 0,0:00:00.00,0:00:01.50,Alice,Alice,0,0,0,,first <hi>')
+    expect(ass).toContain('Dialogue: 0,0:00:01.50,0:00:03.25,Bob,Bob,0,0,0,,second')
+  })
+})
+
+describe('subtitle cue extraction', () => {
+  it('collects clip subtitles and subtitle text items, trimming overlaps', () => {
+    const result = cuesFromEditorProject({
+      config: { fps: 10, width: 1920, height: 1080 },
+      timeline: [
+        {
+          id: 'c1',
+          src: '/m/v1',
+          durationInFrames: 20,
+          attachment: {
+            audio: { src: '/m/a1', volume: 1, voiceLineId: 'l1' },
+            subtitle: { text: 'hello', style: 'default' },
+          },
+          metadata: { panelId: 'p1', storyboardId: 'sb1' },
+        },
+        { id: 'c2', src: '/m/v2', durationInFrames: 10, metadata: { panelId: 'p2', storyboardId: 'sb1' } },
+      ],
+      tracks: [{
+        id: 't1',
+        kind: 'text',
+        index: 1,
+        zIndex: 1,
+        items: [
+          {
+            id: 'title',
+            type: 'text',
+            text: 'Episode 1',
+            role: 'title',
+            startFrame: 0,
+            durationInFrames: 10,
+            layout: { x: 0.5, y: 0.5, width: 1, height: 0.2 },
+            opacity: 1,
+            style: { fontSize: 48, color: 'white', align: 'center' },
+          },
+          {
+            id: 's1',
+            type: 'text',
+            text: 'reply',
+            role: 'subtitle',
+            speaker: 'Bob',
+            startFrame: 15,
+            durationInFrames: 10,
+            layout: { x: 0.5, y: 0.9, width: 0.9, height: 0.1 },
+            opacity: 1,
+            style: { fontSize: 24, color: 'white', align: 'center' },
+          },
+        ],
+      }],
+    }, (voiceLineId) => (voiceLineId === 'l1' ? 'Alice' : undefined))
+
+    expect(result).toEqual([
+      { startMs: 0, endMs: 1500, text: 'hello', speaker: 'Alice' },
+      { startMs: 1500, endMs: 2500, text: 'reply', speaker: 'Bob' },
+    ])
+  })
+
+  it('lays out voice lines across panels and falls back to narration segments', () => {
+    const result = cuesFromVoiceLines({
+      clipIds: ['clip-a', 'clip-b'],
+      storyboards: [
+        {
+          clipId: 'clip-b',
+          panels: [{ id: 'p3', panelIndex: 0, duration: null, srtStart: null, srtEnd: null, srtSegment: 'narration' }],
+        },
+        {
+          clipId: 'clip-a',
+          panels: [
+            { id: 'p2', panelIndex: 1, duration: 1, srtStart: null, srtEnd: null, srtSegment: null },
+            { id: 'p1', panelIndex: 0, duration: 1, srtStart: null, srtEnd: null, srtSegment: null },
+          ],
+        },
+      ],
+      voiceLines: [
+        { id: 'l2', lineIndex: 2, speaker: 'Bob', content: 'two', audioDuration: 500, matchedPanelId: 'p1' },
+        { id: 'l1', lineIndex: 1, speaker: 'Alice', content: 'one', audioDuration: 1200, matchedPanelId: 'p1' },
+        { id: 'l3', lineIndex: 3, speaker: 'Alice', content: 'three', audioDuration: null, matchedPanelId: 'p2' },
+      ],
+    })
+
+    expect(result).toEqual([
+      { startMs: 0, endMs: 1200, text: 'one', speaker: 'Alice' },
+      { startMs: 1200, endMs: 1700, text: 'two', speaker: 'Bob' },
+      { startMs: 1700, endMs: 4700, text: 'three', speaker: 'Alice' },
+      { startMs: 4700, endMs: 7700, text: 'narration' },
+    ])
+  })
+})
@@ -0,0 +1,201 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type TaskRow = Record<string, unknown> & { id: string; status: string }
+
+const state = vi.hoisted(() => ({
+  tasks: new Map<string, TaskRow>(),
+  dependencies: [] as Array<{ taskId: string; dependsOnTaskId: string; createdAt: Date }>,
+}))
+
+const prismaMock = vi.hoisted(() => ({
+  task: {
+    findUnique: vi.fn(async ({ where }: { where: { id: string } }) => state.tasks.get(where.id) || null),
+    findMany: vi.fn(async ({ where }: { where: { id?: { in: string[] }; status?: string } }) => {
+      const rows = [...state.tasks.values()]
+      if (where.id) return rows.filter((row) => where.id!.in.includes(row.id))
+      return rows.filter((row) => row.status === where.status)
+    }),
+    updateMany: vi.fn(async ({ where, data }: { where: { id: string; status: string }; data: Record<string, unknown> }) => {
+      const row = state.tasks.get(where.id)
+      if (!row || row.status !== where.status) return { count: 0 }
+      Object.assign(row, data)
+      return { count: 1 }
+    }),
+  },
+  taskDependency: {
+    findMany: vi.fn(async ({ where }: { where: { taskId?: string; dependsOnTaskId?: string } }) =>
+      state.dependencies.filter((row) =>
+        (where.taskId === undefined || row.taskId === where.taskId)
+        && (where.dependsOnTaskId === undefined || row.dependsOnTaskId === where.dependsOnTaskId))),
+    createMany: vi.fn(async () => ({ count: 0 })),
+  },
+}))
+
+const serviceMock = vi.hoisted(() => ({
+  markTaskEnqueued: vi.fn(async () => ({})),
+  rollbackTaskBillingForTask: vi.fn(async () => ({ attempted: true, rolledBack: true, billingInfo: null })),
+  tryMarkTaskFailed: vi.fn(async (taskId: string) => {
+    const row = state.tasks.get(taskId)
+    if (!row) return false
+    row.status = 'failed'
+    return true
+  }),
+}))
+const addTaskJobMock = vi.hoisted(() => vi.fn(async () => ({})))
+const publishTaskEventMock = vi.hoisted(() => vi.fn(async () => ({})))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/task/service', () => serviceMock)
+vi.mock('@/lib/task/queues', () => ({ addTaskJob: addTaskJobMock }))
+vi.mock('@/lib/task/publisher', () => ({ publishTaskEvent: publishTaskEventMock }))
+
+import { ApiError } from '@/lib/api-errors'
+import {
+  readUpstreamMediaUrl,
+  resolveTaskDependsOn,
+  settleBlockedTask,
+  settleDependentTasks,
+  settleStaleBlockedTasks,
+} from '@/lib/task/dependencies'
+
+function seedTask(id: string, status: string, extra: Record<string, unknown> = {}) {
+  state.tasks.set(id, {
+    id,
+    status,
+    type: 'video_panel',
+    userId: 'user-1',
+    projectId: 'project-1',
+    episodeId: null,
+    targetType: 'NovelPromotionPanel',
+    targetId: 'panel-1',
+    priority: 0,
+    runAfter: null,
+    billingInfo: null,
+    payload: { meta: { locale: 'zh' } },
+    result: null,
+    errorCode: null,
+    errorMessage: null,
+    ...extra,
+  })
+}
+
+function link(taskId: string, dependsOnTaskId: string) {
+  state.dependencies.push({ taskId, dependsOnTaskId, createdAt: new Date() })
+}
+
+describe('task dependencies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    state.tasks.clear()
+    state.dependencies = []
+  })
+
+  it('parses dependsOn ids and rejects malformed input', () => {
+    expect(resolveTaskDependsOn({})).toEqual([])
+    expect(resolveTaskDependsOn({ dependsOn: ['a', ' b ', 'a'] })).toEqual(['a', 'b'])
+
+    const codeOf = (body: unknown) => {
+      try {
+        resolveTaskDependsOn(body)
+      } catch (error) {
+        return error instanceof ApiError ? error.details?.code : null
+      }
+      return null
+    }
+    expect(codeOf({ dependsOn: 'a' })).toBe('TASK_DEPENDS_ON_INVALID')
+    expect(codeOf({ dependsOn: ['a', ''] })).toBe('TASK_DEPENDS_ON_INVALID')
+    expect(codeOf({ dependsOn: Array.from({ length: 9 }, (_, index) => `t-${index}`) })).toBe('TASK_DEPENDS_ON_TOO_MANY')
+  })
+
+  it('releases a blocked task with upstream outputs once every upstream completed', async () => {
+    seedTask('image-1', 'completed', {
+      type: 'image_panel',
+      result: { panelId: 'panel-1', imageUrl: 'cos/panel-1.png' },
+    })
+    seedTask('video-1', 'blocked')
+    link('video-1', 'image-1')
+
+    await settleDependentTasks('image-1')
+
+    const video = state.tasks.get('video-1')!
+    expect(video.status).toBe('queued')
+    expect(readUpstreamMediaUrl(video.payload, 'imageUrl')).toBe('cos/panel-1.png')
+    expect(addTaskJobMock).toHaveBeenCalledWith(expect.objectContaining({
+      taskId: 'video-1',
+      locale: 'zh',
+      payload: expect.objectContaining({
+        upstreamOutputs: [{ taskId: 'image-1', type: 'image_panel', imageUrl: 'cos/panel-1.png' }],
+      }),
+    }), { priority: 0 })
+    expect(serviceMock.markTaskEnqueued).toHaveBeenCalledWith('video-1')
+    expect(publishTaskEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      taskId: 'video-1',
+      type: 'task.created',
+      payload: expect.objectContaining({ reason: 'dependencies_ready' }),
+    }))
+  })
+
+  it('does not chain unselected regeneration candidates downstream', async () => {
+    seedTask('image-1', 'completed', {
+      type: 'image_panel',
+      result: { panelId: 'panel-1', imageUrl: null, candidateImages: ['cos/candidate-1.png'] },
+    })
+    seedTask('video-1', 'blocked')
+    link('video-1', 'image-1')
+
+    await settleDependentTasks('image-1')
+
+    const video = state.tasks.get('video-1')!
+    expect(video.status).toBe('queued')
+    expect(readUpstreamMediaUrl(video.payload, 'imageUrl')).toBeNull()
+  })
+
+  it('keeps the task blocked while any upstream is still running', async () => {
+    seedTask('image-1', 'completed', { result: { imageUrl: 'cos/a.png' } })
+    seedTask('voice-1', 'processing')
+    seedTask('video-1', 'blocked')
+    link('video-1', 'image-1')
+    link('video-1', 'voice-1')
+
+    await expect(settleBlockedTask('video-1')).resolves.toBe('blocked')
+    expect(state.tasks.get('video-1')!.status).toBe('blocked')
+    expect(addTaskJobMock).not.toHaveBeenCalled()
+  })
+
+  it('cascades upstream failure through the whole chain and rolls back billing', async () => {
+    seedTask('image-1', 'failed', { errorMessage: 'GENERATION_FAILED' })
+    seedTask('video-1', 'blocked')
+    seedTask('lip-1', 'blocked', { type: 'lip_sync' })
+    link('video-1', 'image-1')
+    link('lip-1', 'video-1')
+
+    await settleDependentTasks('image-1')
+
+    expect(state.tasks.get('video-1')!.status).toBe('failed')
+    expect(state.tasks.get('lip-1')!.status).toBe('failed')
+    expect(serviceMock.rollbackTaskBillingForTask).toHaveBeenCalledTimes(2)
+    expect(serviceMock.tryMarkTaskFailed).toHaveBeenCalledWith(
+      'video-1',
+      'UPSTREAM_TASK_FAILED',
+      'upstream task image-1 failed: GENERATION_FAILED',
+    )
+    expect(serviceMock.tryMarkTaskFailed).toHaveBeenCalledWith(
+      'lip-1',
+      'UPSTREAM_TASK_FAILED',
+      'upstream task video-1 failed',
+    )
+    expect(addTaskJobMock).not.toHaveBeenCalled()
+  })
+
+  it('rotates still-blocked tasks to the back of the stale sweep', async () => {
+    seedTask('voice-1', 'processing')
+    seedTask('video-1', 'blocked', { updatedAt: new Date(0) })
+    link('video-1', 'voice-1')
+
+    await expect(settleStaleBlockedTasks()).resolves.toEqual({ released: 0, failed: 0 })
+
+    const video = state.tasks.get('video-1')!
+    expect(video.status).toBe('blocked')
+    expect((video.updatedAt as Date).getTime()).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { ApiError } from '@/lib/api-errors'
+import {
+  isTaskScheduled,
+  parseTaskScheduleWindows,
+  resolveTaskRunAfter,
+  resolveTaskScheduleWindowStart,
+} from '@/lib/task/schedule'
+
+const QUIET_HOURS = { name: 'quiet_hours', startMinute: 60, endMinute: 7 * 60 }
+const OVERNIGHT = { name: 'overnight', startMinute: 23 * 60, endMinute: 6 * 60 }
+
+describe('task schedule windows', () => {
+  afterEach(() => {
+    delete process.env.TASK_SCHEDULE_WINDOWS
+    delete process.env.TASK_SCHEDULE_TIMEZONE
+  })
+
+  it('parses named windows and skips malformed entries', () => {
+    expect(parseTaskScheduleWindows('quiet_hours=01:00-07:00;bad=25:00-02:00;overnight=23:00-06:00;=01:00-02:00')).toEqual([
+      QUIET_HOURS,
+      OVERNIGHT,
+    ])
+  })
+
+  it('returns the next window start, or the same instant when already inside', () => {
+    const afternoon = new Date('2026-10-19T14:30:45.000Z')
+    expect(resolveTaskScheduleWindowStart(QUIET_HOURS, afternoon, 'UTC').toISOString()).toBe('2026-10-20T01:00:00.000Z')
+
+    const inside = new Date('2026-10-19T03:15:00.000Z')
+    expect(resolveTaskScheduleWindowStart(QUIET_HOURS, inside, 'UTC')).toBe(inside)
+
+    const afterMidnight = new Date('2026-10-19T02:00:00.000Z')
+    expect(resolveTaskScheduleWindowStart(OVERNIGHT, afterMidnight, 'UTC')).toBe(afterMidnight)
+    expect(resolveTaskScheduleWindowStart(OVERNIGHT, afternoon, 'UTC').toISOString()).toBe('2026-10-19T23:00:00.000Z')
+  })
+
+  it('evaluates windows in the configured timezone', () => {
+    // 14:30Z 即上海时间 22:30，01:00 上海时间为 17:00Z
+    const afternoon = new Date('2026-10-19T14:30:00.000Z')
+    expect(resolveTaskScheduleWindowStart(QUIET_HOURS, afternoon, 'Asia/Shanghai').toISOString()).toBe('2026-10-19T17:00:00.000Z')
+  })
+})
+
+describe('resolveTaskRunAfter', () => {
+  const now = new Date('2026-10-19T14:30:00.000Z')
+
+  afterEach(() => {
+    delete process.env.TASK_SCHEDULE_WINDOWS
+    delete process.env.TASK_SCHEDULE_TIMEZONE
+  })
+
+  it('returns null when nothing is scheduled or the time already passed', () => {
+    expect(resolveTaskRunAfter({}, now)).toBeNull()
+    expect(resolveTaskRunAfter({ runAfter: '2026-10-19T10:00:00.000Z' }, now)).toBeNull()
+  })
+
+  it('accepts ISO strings and epoch milliseconds', () => {
+    expect(resolveTaskRunAfter({ runAfter: '2026-10-19T20:00:00.000Z' }, now)?.toISOString()).toBe('2026-10-19T20:00:00.000Z')
+    expect(resolveTaskRunAfter({ runAfter: now.getTime() + 60_000 }, now)?.getTime()).toBe(now.getTime() + 60_000)
+  })
+
+  it('resolves named windows and combines them with runAfter', () => {
+    process.env.TASK_SCHEDULE_TIMEZONE = 'UTC'
+    expect(resolveTaskRunAfter({ scheduleWindow: 'quiet_hours' }, now)?.toISOString()).toBe('2026-10-20T01:00:00.000Z')
+    expect(resolveTaskRunAfter({
+      scheduleWindow: 'quiet_hours',
+      runAfter: '2026-10-20T08:00:00.000Z',
+    }, now)?.toISOString()).toBe('2026-10-21T01:00:00.000Z')
+  })
+
+  it('rejects invalid times, unknown windows and schedules too far ahead', () => {
+    const codeOf = (body: unknown) => {
+      try {
+        resolveTaskRunAfter(body, now)
+      } catch (error) {
+        return error instanceof ApiError ? error.details?.code : null
+      }
+      return null
+    }
+    expect(codeOf({ runAfter: 'tomorrow' })).toBe('TASK_RUN_AFTER_INVALID')
+    expect(codeOf({ scheduleWindow: 'weekend' })).toBe('TASK_SCHEDULE_WINDOW_INVALID')
+    expect(codeOf({ runAfter: '2026-12-01T00:00:00.000Z' })).toBe('TASK_RUN_AFTER_TOO_FAR')
+  })
+
+  it('only treats queued tasks with a future runAfter as scheduled', () => {
+    const later = new Date(now.getTime() + 60_000)
+    expect(isTaskScheduled({ status: 'queued', runAfter: later }, now)).toBe(true)
+    expect(isTaskScheduled({ status: 'queued', runAfter: null }, now)).toBe(false)
+    expect(isTaskScheduled({ status: 'processing', runAfter: later }, now)).toBe(false)
+    expect(isTaskScheduled({ status: 'queued', runAfter: new Date(now.getTime() - 1) }, now)).toBe(false)
+  })
+})
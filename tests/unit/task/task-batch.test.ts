@@ -0,0 +1,302 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ApiError } from '@/lib/api-errors'
+import { BudgetExceededError } from '@/lib/billing/errors'
+
+type Row = Record<string, unknown>
+type ItemRow = Row & { id: string; batchId: string; status: string; taskId: string | null; attempts: number }
+
+const store = vi.hoisted(() => ({
+  batches: new Map<string, Row>(),
+  items: [] as Array<Record<string, unknown>>,
+  tasks: new Map<string, { id: string; status: string; errorCode: string | null }>(),
+}))
+
+function applyData(target: Row, data: Row) {
+  for (const [key, value] of Object.entries(data)) {
+    if (value && typeof value === 'object' && 'increment' in (value as Row)) {
+      target[key] = Number(target[key] || 0) + Number((value as { increment: number }).increment)
+    } else {
+      target[key] = value
+    }
+  }
+}
+
+const prismaMock = vi.hoisted(() => {
+  const withItems = (batch: Row | undefined) => batch
+    ? { ...batch, items: store.items.filter((item) => item.batchId === batch.id) }
+    : null
+  return {
+    taskBatch: {
+      create: vi.fn(async ({ data }: { data: Row & { items: { create: Row[] } } }) => {
+        const { items, ...rest } = data
+        const batch = {
+          id: 'batch-1',
+          completed: 0,
+          failed: 0,
+          canceled: 0,
+          finishedAt: null,
+          createdAt: new Date('2026-10-19T00:00:00Z'),
+          ...rest,
+        }
+        store.batches.set(batch.id, batch)
+        items.create.forEach((item, index) => {
+          store.items.push({ id: `item-${index + 1}`, batchId: batch.id, taskId: null, status: 'queued', attempts: 0, errorCode: null, ...item })
+        })
+        return withItems(batch)
+      }),
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => withItems(store.batches.get(where.id))),
+      findFirst: vi.fn(async ({ where }: { where: { id: string; projectId: string } }) => {
+        const batch = store.batches.get(where.id)
+        return batch && batch.projectId === where.projectId ? withItems(batch) : null
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Row }) => {
+        const batch = store.batches.get(where.id) as Row
+        applyData(batch, data)
+        return { ...batch }
+      }),
+    },
+    taskBatchItem: {
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Row }) => {
+        const item = store.items.find((row) => row.id === where.id) as Row
+        applyData(item, data)
+        return item
+      }),
+      findMany: vi.fn(async ({ where }: { where: { batchId: string; status: { in: string[] } } }) => (
+        store.items.filter((item) => item.batchId === where.batchId && where.status.in.includes(String(item.status)))
+      )),
+    },
+    task: {
+      findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) => (
+        where.id.in.flatMap((id) => (store.tasks.has(id) ? [store.tasks.get(id)] : []))
+      )),
+    },
+  }
+})
+
+const submitTaskMock = vi.hoisted(() => vi.fn())
+const planTaskBatchMock = vi.hoisted(() => vi.fn())
+const publishTaskBatchEventMock = vi.hoisted(() => vi.fn(async () => ({})))
+const publishTaskEventMock = vi.hoisted(() => vi.fn(async () => ({})))
+const cancelTaskMock = vi.hoisted(() => vi.fn())
+const billingMock = vi.hoisted(() => ({
+  getBillingMode: vi.fn(async () => 'ENFORCE'),
+  getBalance: vi.fn(async () => ({ balance: 100 })),
+  checkBudgetForCost: vi.fn(async () => [] as unknown[]),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/task/submitter', () => ({
+  submitTask: submitTaskMock,
+  toObject: (value: unknown) => (value && typeof value === 'object' && !Array.isArray(value) ? value : {}),
+}))
+vi.mock('@/lib/task/publisher', () => ({
+  publishTaskBatchEvent: publishTaskBatchEventMock,
+  publishTaskEvent: publishTaskEventMock,
+}))
+vi.mock('@/lib/task/service', () => ({ cancelTask: cancelTaskMock }))
+vi.mock('@/lib/task/queues', () => ({ removeTaskJob: vi.fn(async () => true) }))
+vi.mock('@/lib/task/has-output', () => ({
+  hasPanelImageOutput: vi.fn(async () => false),
+  hasPanelLipSyncOutput: vi.fn(async () => false),
+  hasPanelVideoOutput: vi.fn(async () => false),
+  hasVoiceLineAudioOutput: vi.fn(async () => false),
+}))
+vi.mock('@/lib/billing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/billing')>()),
+  ...billingMock,
+}))
+vi.mock('@/lib/task-batch/selection', () => ({
+  planTaskBatch: planTaskBatchMock,
+  quoteTaskBatchItem: (_taskType: string, target: Row) => ({ ...target, cost: 1.5, priced: true }),
+}))
+
+import {
+  cancelTaskBatch,
+  createTaskBatch,
+  refreshTaskBatch,
+  retryFailedTaskBatch,
+} from '@/lib/task-batch/service'
+
+const REQUEST = {
+  projectId: 'project-1',
+  userId: 'user-1',
+  episodeId: 'episode-1',
+  kind: 'panel_image' as const,
+  selection: {},
+  options: {},
+  locale: 'zh' as const,
+}
+
+function planItem(panelId: string) {
+  return {
+    targetType: 'NovelPromotionPanel',
+    targetId: panelId,
+    payload: { panelId, candidateCount: 1, imageModel: 'fal::banana' },
+    dedupeKey: `image_panel:${panelId}:1`,
+    cost: 1.5,
+    priced: true,
+  }
+}
+
+function items(): ItemRow[] {
+  return store.items as ItemRow[]
+}
+
+describe('task batch service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store.batches.clear()
+    store.items.length = 0
+    store.tasks.clear()
+    billingMock.getBillingMode.mockResolvedValue('ENFORCE')
+    billingMock.getBalance.mockResolvedValue({ balance: 100 })
+    planTaskBatchMock.mockResolvedValue({
+      kind: 'panel_image',
+      taskType: 'image_panel',
+      items: [planItem('panel-1'), planItem('panel-2'), planItem('panel-3')],
+    })
+    let counter = 0
+    submitTaskMock.mockImplementation(async () => {
+      counter += 1
+      const taskId = `task-${counter}`
+      store.tasks.set(taskId, { id: taskId, status: 'queued', errorCode: null })
+      return { success: true, async: true, taskId, runId: null, status: 'queued', deduped: false }
+    })
+  })
+
+  it('fans out one child task per target and tags each with the batch id', async () => {
+    submitTaskMock.mockImplementationOnce(async () => {
+      store.tasks.set('task-a', { id: 'task-a', status: 'queued', errorCode: null })
+      return { taskId: 'task-a', status: 'queued' }
+    }).mockImplementationOnce(async () => {
+      throw new ApiError('EXTERNAL_ERROR', { message: 'queue down' })
+    })
+
+    const progress = await createTaskBatch(REQUEST)
+
+    expect(submitTaskMock).toHaveBeenCalledTimes(3)
+    expect(submitTaskMock).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'image_panel',
+      episodeId: 'episode-1',
+      targetId: 'panel-1',
+      dedupeKey: 'image_panel:panel-1:1',
+      payload: expect.objectContaining({ batchId: 'batch-1', panelId: 'panel-1', ui: { hasOutputAtStart: false } }),
+    }))
+    expect(items().map((item) => [item.targetId, item.status, item.errorCode])).toEqual([
+      ['panel-1', 'queued', null],
+      ['panel-2', 'failed', 'EXTERNAL_ERROR'],
+      ['panel-3', 'queued', null],
+    ])
+    expect(progress).toMatchObject({ batchId: 'batch-1', status: 'running', total: 3, failed: 1, active: 2, progress: 33 })
+    expect(store.batches.get('batch-1')?.quote).toMatchObject({ count: 3, totalCost: 4.5, sufficient: true })
+  })
+
+  it('checks the consolidated quote before submitting anything', async () => {
+    await expect(createTaskBatch({ ...REQUEST, expectedTotalCost: 3 })).rejects.toMatchObject({
+      code: 'INVALID_PARAMS',
+      details: expect.objectContaining({ code: 'TASK_BATCH_QUOTE_CHANGED' }),
+    })
+
+    billingMock.getBalance.mockResolvedValue({ balance: 2 })
+    await expect(createTaskBatch(REQUEST)).rejects.toMatchObject({
+      code: 'INSUFFICIENT_BALANCE',
+      details: expect.objectContaining({ required: 4.5, available: 2 }),
+    })
+
+    expect(prismaMock.taskBatch.create).not.toHaveBeenCalled()
+    expect(submitTaskMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects the whole batch when it would cross the monthly budget hard stop', async () => {
+    billingMock.checkBudgetForCost.mockRejectedValueOnce(new BudgetExceededError({
+      scope: 'project',
+      limit: 5,
+      spent: 2,
+      required: 4.5,
+    }))
+
+    await expect(createTaskBatch(REQUEST)).rejects.toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+      details: expect.objectContaining({ scope: 'project', limit: 5, spent: 2, required: 4.5 }),
+    })
+    expect(billingMock.checkBudgetForCost).toHaveBeenCalledWith({ userId: 'user-1', projectId: 'project-1', cost: 4.5 })
+    expect(prismaMock.taskBatch.create).not.toHaveBeenCalled()
+    expect(submitTaskMock).not.toHaveBeenCalled()
+  })
+
+  it('aggregates child task status and publishes progress only when it changes', async () => {
+    await createTaskBatch(REQUEST)
+    store.tasks.set('task-1', { id: 'task-1', status: 'completed', errorCode: null })
+    store.tasks.set('task-2', { id: 'task-2', status: 'failed', errorCode: 'GENERATION_FAILED' })
+
+    const running = await refreshTaskBatch('batch-1')
+    expect(running).toMatchObject({ status: 'running', completed: 1, failed: 1, active: 1, progress: 66 })
+    expect(publishTaskBatchEventMock).toHaveBeenCalledTimes(1)
+    expect(publishTaskBatchEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      batchId: 'batch-1',
+      projectId: 'project-1',
+      payload: expect.objectContaining({ completed: 1, failed: 1, kind: 'panel_image' }),
+    }))
+
+    await refreshTaskBatch('batch-1')
+    expect(publishTaskBatchEventMock).toHaveBeenCalledTimes(1)
+
+    store.tasks.set('task-3', { id: 'task-3', status: 'completed', errorCode: null })
+    const finished = await refreshTaskBatch('batch-1')
+    expect(finished).toMatchObject({ status: 'failed', completed: 2, failed: 1, active: 0, progress: 100 })
+    expect(store.batches.get('batch-1')?.finishedAt).toBeInstanceOf(Date)
+    expect(items().find((item) => item.taskId === 'task-2')?.errorCode).toBe('GENERATION_FAILED')
+  })
+
+  it('cancels only active children and leaves the batch canceled', async () => {
+    await createTaskBatch(REQUEST)
+    store.tasks.set('task-1', { id: 'task-1', status: 'completed', errorCode: null })
+    cancelTaskMock.mockImplementation(async (taskId: string) => {
+      const task = store.tasks.get(taskId)!
+      if (task.status === 'completed') return { task: null, cancelled: false }
+      task.status = 'canceled'
+      return {
+        task: { id: taskId, projectId: 'project-1', userId: 'user-1', type: 'image_panel', targetType: 'NovelPromotionPanel', targetId: taskId, episodeId: 'episode-1', payload: {} },
+        cancelled: true,
+      }
+    })
+
+    const result = await cancelTaskBatch('project-1', 'batch-1')
+
+    expect(result?.cancelledCount).toBe(2)
+    expect(publishTaskEventMock).toHaveBeenCalledTimes(2)
+    expect(publishTaskEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'task.failed',
+      payload: expect.objectContaining({ cancelled: true }),
+    }))
+    expect(result?.progress).toMatchObject({ status: 'canceled', completed: 1, canceled: 2, active: 0 })
+    expect(await cancelTaskBatch('other-project', 'batch-1')).toBeNull()
+  })
+
+  it('retries failed and canceled items with their original payload', async () => {
+    await createTaskBatch(REQUEST)
+    store.tasks.set('task-1', { id: 'task-1', status: 'completed', errorCode: null })
+    store.tasks.set('task-2', { id: 'task-2', status: 'failed', errorCode: 'GENERATION_FAILED' })
+    store.tasks.set('task-3', { id: 'task-3', status: 'canceled', errorCode: 'TASK_CANCELLED' })
+    await refreshTaskBatch('batch-1')
+    submitTaskMock.mockClear()
+
+    const result = await retryFailedTaskBatch('project-1', 'batch-1', { locale: 'zh' })
+
+    expect(result?.retriedCount).toBe(2)
+    expect(result?.quote).toMatchObject({ count: 2, totalCost: 3 })
+    expect(submitTaskMock.mock.calls.map(([params]) => params.targetId)).toEqual(['panel-2', 'panel-3'])
+    expect(submitTaskMock).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ batchId: 'batch-1', imageModel: 'fal::banana' }),
+    }))
+    expect(result?.progress).toMatchObject({ status: 'running', completed: 1, failed: 0, canceled: 0, active: 2 })
+    expect(items().map((item) => item.attempts)).toEqual([1, 2, 2])
+  })
+
+  it('refuses to retry when nothing failed', async () => {
+    await createTaskBatch(REQUEST)
+    await expect(retryFailedTaskBatch('project-1', 'batch-1', { locale: 'zh' })).rejects.toMatchObject({
+      details: expect.objectContaining({ code: 'TASK_BATCH_NOTHING_TO_RETRY' }),
+    })
+  })
+})
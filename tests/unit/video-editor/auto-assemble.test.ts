@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import {
+  assembleEditorProject,
+  type AssemblePanelSource,
+  type AssembleVoiceLineSource,
+} from '@/features/video-editor/utils/auto-assemble'
+
+function buildPanel(overrides: Partial<AssemblePanelSource> & Pick<AssemblePanelSource, 'id' | 'panelIndex'>): AssemblePanelSource {
+  return {
+    description: null,
+    duration: 2,
+    videoUrl: `/m/video-${overrides.id}`,
+    lipSyncVideoUrl: null,
+    linkedToNextPanel: false,
+    ...overrides,
+  }
+}
+
+function buildLine(overrides: Partial<AssembleVoiceLineSource> & Pick<AssembleVoiceLineSource, 'id' | 'lineIndex'>): AssembleVoiceLineSource {
+  return {
+    speaker: 'Narrator',
+    content: `line ${overrides.id}`,
+    audioUrl: `/m/audio-${overrides.id}`,
+    audioDuration: 1000,
+    matchedPanelId: null,
+    ...overrides,
+  }
+}
+
+describe('video editor auto assemble', () => {
+  it('orders panels by clip order then panelIndex and prefers lip-sync video', () => {
+    const { project, summary } = assembleEditorProject({
+      episodeId: 'episode-1',
+      clipIds: ['clip-a', 'clip-b'],
+      storyboards: [
+        {
+          id: 'sb-b',
+          clipId: 'clip-b',
+          panels: [buildPanel({ id: 'b0', panelIndex: 0 })],
+        },
+        {
+          id: 'sb-a',
+          clipId: 'clip-a',
+          panels: [
+            buildPanel({ id: 'a1', panelIndex: 1, lipSyncVideoUrl: '/m/lip-a1' }),
+            buildPanel({ id: 'a0', panelIndex: 0 }),
+            buildPanel({ id: 'a2', panelIndex: 2, videoUrl: null }),
+          ],
+        },
+      ],
+      voiceLines: [],
+    })
+
+    expect(project.schemaVersion).toBe('2.0')
+    expect(project.timeline.map((clip) => clip.metadata.panelId)).toEqual(['a0', 'a1', 'b0'])
+    expect(project.timeline[1].src).toBe('/m/lip-a1')
+    expect(summary).toEqual({ clipCount: 3, skippedPanelIds: ['a2'], unmatchedVoiceLineIds: [] })
+  })
+
+  it('attaches matched voice lines, sizes clips from audio duration and uses dissolve for linked panels', () => {
+    const { project, summary } = assembleEditorProject({
+      episodeId: 'episode-1',
+      clipIds: ['clip-a'],
+      storyboards: [
+        {
+          id: 'sb-a',
+          clipId: 'clip-a',
+          panels: [
+            buildPanel({ id: 'p0', panelIndex: 0, duration: 1, linkedToNextPanel: true }),
+            buildPanel({ id: 'p1', panelIndex: 1, duration: 3, linkedToNextPanel: true }),
+          ],
+        },
+      ],
+      voiceLines: [
+        buildLine({ id: 'l2', lineIndex: 2, matchedPanelId: 'p0', audioDuration: 1500 }),
+        buildLine({ id: 'l1', lineIndex: 1, matchedPanelId: 'p0', audioDuration: 2000 }),
+        buildLine({ id: 'l9', lineIndex: 9, matchedPanelId: 'missing-panel' }),
+      ],
+    })
+
+    const [first, second] = project.timeline
+    expect(first.attachment).toEqual({
+      audio: { src: '/m/audio-l1', volume: 1, voiceLineId: 'l1' },
+      subtitle: { text: 'line l1', style: 'default', speaker: 'Narrator' },
+    })
+    // 1s 面板 vs 2s + 1.5s 台词 → 取台词总时长
+    expect(first.durationInFrames).toBe(105)
+    expect(first.transition).toEqual({ type: 'dissolve', durationInFrames: 15 })
+    // 最后一个片段不加转场
+    expect(second.durationInFrames).toBe(90)
+    expect(second.transition).toBeUndefined()
+
+    const dialogTrack = project.tracks.find((track) => track.kind === 'audio')
+    expect(dialogTrack?.items).toEqual([
+      expect.objectContaining({ id: 'dialog_l2', src: '/m/audio-l2', startFrame: 60, durationInFrames: 45, role: 'dialogue' }),
+    ])
+    const subtitleTrack = project.tracks.find((track) => track.kind === 'text')
+    expect(subtitleTrack?.items).toEqual([
+      expect.objectContaining({ id: 'subtitle_l2', text: 'line l2', startFrame: 60, durationInFrames: 45 }),
+    ])
+    expect(summary.unmatchedVoiceLineIds).toEqual(['l9'])
+  })
+})
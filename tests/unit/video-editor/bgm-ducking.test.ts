@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import type { EditorTrack, VideoClip } from '@/features/video-editor/types/editor.types'
+import { computeDialogRanges, computeDuckGain } from '@/features/video-editor/utils/ducking'
+
+function buildClip(id: string, durationInFrames: number, withAudio: boolean): VideoClip {
+  return {
+    id,
+    src: `/m/${id}`,
+    durationInFrames,
+    attachment: withAudio ? { audio: { src: `/m/audio-${id}`, volume: 1 } } : undefined,
+    metadata: { panelId: id, storyboardId: 'sb-1' },
+  }
+}
+
+const ducking = { enabled: true, level: 0.2, attackFrames: 10, releaseFrames: 20 }
+
+describe('bgm ducking', () => {
+  it('derives merged dialog ranges from clip attachment audio', () => {
+    const ranges = computeDialogRanges([
+      buildClip('a', 30, true),
+      buildClip('b', 30, true),
+      buildClip('c', 30, false),
+      buildClip('d', 30, true),
+    ])
+
+    expect(ranges).toEqual([
+      { start: 0, end: 60 },
+      { start: 90, end: 120 },
+    ])
+  })
+
+  it('includes audible dialogue items on unmuted audio tracks', () => {
+    const audioTrack = (id: string, muted: boolean, startFrame: number): EditorTrack => ({
+      id,
+      kind: 'audio',
+      index: 1,
+      zIndex: 1,
+      muted,
+      items: [{
+        id: `${id}-item`,
+        type: 'audio',
+        role: 'dialogue',
+        src: `/m/${id}`,
+        volume: 1,
+        startFrame,
+        durationInFrames: 20,
+      }],
+    })
+
+    const ranges = computeDialogRanges(
+      [buildClip('a', 30, true), buildClip('b', 30, false)],
+      [audioTrack('t1', false, 25), audioTrack('t2', true, 100), audioTrack('t3', false, 200)],
+    )
+
+    expect(ranges).toEqual([
+      { start: 0, end: 45 },
+      { start: 200, end: 220 },
+    ])
+  })
+
+  it('does not duck for sound effects or unmarked audio items', () => {
+    const track: EditorTrack = {
+      id: 'sfx',
+      kind: 'audio',
+      index: 2,
+      zIndex: 2,
+      items: [
+        { id: 'boom', type: 'audio', role: 'sfx', src: '/m/boom', volume: 1, startFrame: 40, durationInFrames: 10 },
+        { id: 'rain', type: 'audio', src: '/m/rain', volume: 1, startFrame: 80, durationInFrames: 60 },
+        { id: 'line', type: 'audio', role: 'dialogue', src: '/m/line', volume: 1, startFrame: 150, durationInFrames: 20 },
+      ],
+    }
+
+    const ranges = computeDialogRanges([buildClip('a', 30, true)], [track])
+
+    expect(ranges).toEqual([
+      { start: 0, end: 30 },
+      { start: 150, end: 170 },
+    ])
+    expect(computeDuckGain(45, ranges, { ...ducking, attackFrames: 0, releaseFrames: 0 })).toBe(1)
+  })
+
+  it('ramps down before dialog, holds the duck level and releases afterwards', () => {
+    const ranges = [{ start: 100, end: 200 }]
+
+    expect(computeDuckGain(80, ranges, ducking)).toBe(1)
+    expect(computeDuckGain(95, ranges, ducking)).toBeCloseTo(0.6)
+    expect(computeDuckGain(150, ranges, ducking)).toBeCloseTo(0.2)
+    expect(computeDuckGain(210, ranges, ducking)).toBeCloseTo(0.6)
+    expect(computeDuckGain(220, ranges, ducking)).toBe(1)
+  })
+
+  it('keeps the lowest gain when envelopes of neighbouring ranges overlap', () => {
+    const ranges = [{ start: 0, end: 50 }, { start: 60, end: 100 }]
+
+    expect(computeDuckGain(55, ranges, ducking)).toBeCloseTo(0.2 + 0.8 * 0.25)
+    expect(computeDuckGain(58, ranges, ducking)).toBeCloseTo(0.2 + 0.8 * 0.2)
+  })
+
+  it('leaves volume untouched when ducking is disabled or absent', () => {
+    const ranges = [{ start: 0, end: 50 }]
+
+    expect(computeDuckGain(10, ranges, undefined)).toBe(1)
+    expect(computeDuckGain(10, ranges, { ...ducking, enabled: false })).toBe(1)
+  })
+})
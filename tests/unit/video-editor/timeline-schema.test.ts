@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/logging/core', () => ({
+  logWarn: vi.fn(),
+}))
+
+import { migrateProjectData, validateProjectData } from '@/features/video-editor/utils/migration'
+import { calculateProjectDuration } from '@/features/video-editor/utils/time-utils'
+import {
+  createInsertTrackItem,
+  findInsertTrack,
+  resolveItemTransform,
+  sortTracksByZIndex,
+} from '@/features/video-editor/utils/track-utils'
+import type { EditorTrack, ImageTrackItem } from '@/features/video-editor/types/editor.types'
+
+const v1Project = {
+  id: 'editor-1',
+  episodeId: 'episode-1',
+  schemaVersion: '1.0',
+  config: { fps: 30, width: 1920, height: 1080 },
+  timeline: [
+    {
+      id: 'clip-1',
+      src: 'video/panel-1.mp4',
+      durationInFrames: 90,
+      metadata: { panelId: 'panel-1', storyboardId: 'storyboard-1' },
+    },
+  ],
+  bgmTrack: [],
+}
+
+function buildLogo(overrides: Partial<ImageTrackItem> = {}): ImageTrackItem {
+  return {
+    id: 'logo-1',
+    type: 'image',
+    src: 'images/logo.png',
+    fit: 'contain',
+    startFrame: 0,
+    durationInFrames: 60,
+    layout: { x: 0.9, y: 0.1, width: 0.1, height: 0.1 },
+    opacity: 0.8,
+    ...overrides,
+  }
+}
+
+describe('video editor timeline schema 2.0', () => {
+  it('migrates 1.0 projects to 2.0 with empty extra tracks and keeps the main timeline', () => {
+    const migrated = migrateProjectData(v1Project)
+
+    expect(migrated.schemaVersion).toBe('2.0')
+    expect(migrated.tracks).toEqual([])
+    expect(migrated.timeline).toEqual(v1Project.timeline)
+    expect(validateProjectData(migrated)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('treats unversioned data as 1.0 and migrates it', () => {
+    const { schemaVersion: _schemaVersion, ...unversioned } = v1Project
+    void _schemaVersion
+
+    expect(migrateProjectData(unversioned)).toEqual(expect.objectContaining({
+      schemaVersion: '2.0',
+      tracks: [],
+    }))
+  })
+
+  it('rejects items whose type does not match the track kind', () => {
+    const migrated = migrateProjectData(v1Project)
+    const invalid = {
+      ...migrated,
+      tracks: [{ id: 'track-1', kind: 'text', index: 1, zIndex: 1, items: [buildLogo()] }],
+    }
+
+    expect(validateProjectData(invalid)).toEqual({
+      valid: false,
+      errors: ['Item type mismatch at tracks[0].items[0]'],
+    })
+  })
+
+  it('extends project duration when a track item ends after the main timeline', () => {
+    const tracks: EditorTrack[] = [
+      { id: 'track-1', kind: 'image', index: 1, zIndex: 1, items: [buildLogo({ startFrame: 80, durationInFrames: 40 })] },
+    ]
+
+    expect(calculateProjectDuration({ timeline: v1Project.timeline, tracks: [] })).toBe(90)
+    expect(calculateProjectDuration({ timeline: v1Project.timeline, tracks })).toBe(120)
+  })
+
+  it('interpolates keyframed position and scale, holding end values outside the range', () => {
+    const item = buildLogo({
+      keyframes: [
+        { frame: 10, x: 0.2, scale: 1 },
+        { frame: 30, x: 0.6, scale: 2 },
+      ],
+    })
+
+    expect(resolveItemTransform(item, 0)).toEqual({ x: 0.2, y: 0.1, scale: 1 })
+    expect(resolveItemTransform(item, 20)).toEqual({ x: 0.4, y: 0.1, scale: 1.5 })
+    expect(resolveItemTransform(item, 50)).toEqual({ x: 0.6, y: 0.1, scale: 2 })
+    expect(resolveItemTransform(buildLogo(), 20)).toEqual({ x: 0.9, y: 0.1, scale: 1 })
+  })
+
+  it('orders tracks by zIndex for rendering', () => {
+    const tracks: EditorTrack[] = [
+      { id: 'title', kind: 'text', index: 1, zIndex: 3, items: [] },
+      { id: 'sfx', kind: 'audio', index: 1, zIndex: 1, items: [] },
+      { id: 'logo', kind: 'image', index: 1, zIndex: 2, items: [] },
+    ]
+
+    expect(sortTracksByZIndex(tracks).map((track) => track.id)).toEqual(['sfx', 'logo', 'title'])
+  })
+
+  it('builds toolbar items at the playhead and marks inserted audio as sfx', () => {
+    expect(createInsertTrackItem('sfx', { startFrame: 45, fps: 30, src: 'audio/boom.mp3' })).toEqual({
+      type: 'audio',
+      src: 'audio/boom.mp3',
+      startFrame: 45,
+      durationInFrames: 90,
+      volume: 1,
+      role: 'sfx',
+    })
+    expect(createInsertTrackItem('text', { startFrame: 0, fps: 30, text: 'Title' })).toMatchObject({
+      type: 'text',
+      text: 'Title',
+      role: 'title',
+    })
+    expect(createInsertTrackItem('overlay', { startFrame: 0, fps: 30, src: 'video/cam-2.mp4' })).toMatchObject({
+      type: 'video',
+      volume: 0,
+    })
+  })
+
+  it('inserts into the topmost free track of the same kind', () => {
+    const tracks: EditorTrack[] = [
+      { id: 'logo-low', kind: 'image', index: 1, zIndex: 1, items: [] },
+      { id: 'logo-high', kind: 'image', index: 2, zIndex: 2, items: [buildLogo()] },
+    ]
+
+    expect(findInsertTrack(tracks, 'image', buildLogo({ startFrame: 60 }))?.id).toBe('logo-high')
+    expect(findInsertTrack(tracks, 'image', buildLogo({ startFrame: 30 }))?.id).toBe('logo-low')
+    expect(findInsertTrack(tracks, 'text', buildLogo())).toBeNull()
+  })
+})
@@ -43,7 +43,19 @@ const persistMock = vi.hoisted(() => ({
   }),
 }))
 
+const runServiceMock = vi.hoisted(() => ({
+  createArtifact: vi.fn(async () => ({})),
+}))
+
 vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
+vi.mock('@/lib/run-runtime/workflow-lease', () => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
 vi.mock('@/lib/llm-client', () => llmMock)
 vi.mock('@/lib/llm-observe/internal-stream-context', () => ({
   withInternalLLMStreamCallbacks: vi.fn(async (_callbacks: unknown, fn: () => Promise<unknown>) => await fn()),
@@ -84,7 +96,7 @@ vi.mock('@/lib/workers/handlers/analyze-global-persist', () => ({
 
 import { handleAnalyzeGlobalTask } from '@/lib/workers/handlers/analyze-global'
 
-function buildJob(): Job<TaskJobData> {
+function buildJob(payload: Record<string, unknown> = {}): Job<TaskJobData> {
   return {
     data: {
       taskId: 'task-analyze-global-1',
@@ -94,7 +106,7 @@ function buildJob(): Job<TaskJobData> {
       episodeId: null,
       targetType: 'NovelPromotionProject',
       targetId: 'np-project-1',
-      payload: {},
+      payload: { runId: 'run-1', ...payload },
       userId: 'user-1',
     },
   } as unknown as Job<TaskJobData>
@@ -152,4 +164,24 @@ describe('worker analyze-global behavior', () => {
       },
     })
   })
+
+  it('retrying a chunk step resumes from that chunk and records chunk artifacts', async () => {
+    await handleAnalyzeGlobalTask(buildJob({
+      retryStepKey: 'analyze_global_locations_2',
+      retryStepAttempt: 2,
+    }))
+
+    expect(persistMock.persistAnalyzeGlobalChunk).toHaveBeenCalledTimes(1)
+    expect(runServiceMock.createArtifact).toHaveBeenCalledTimes(1)
+    expect(runServiceMock.createArtifact).toHaveBeenCalledWith(expect.objectContaining({
+      runId: 'run-1',
+      stepKey: 'analyze_global_chunk_2',
+      artifactType: 'analysis.global.chunk',
+    }))
+  })
+
+  it('rejects retry keys that are not analyze_global chunk steps', async () => {
+    await expect(handleAnalyzeGlobalTask(buildJob({ retryStepKey: 'split_clips' })))
+      .rejects.toThrow('unsupported retry step for analyze_global: split_clips')
+  })
 })
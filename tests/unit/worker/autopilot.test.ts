@@ -0,0 +1,225 @@
+import type { Job } from 'bullmq'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AUTOPILOT_STAGES, type AutopilotStage } from '@/lib/autopilot/types'
+import { TaskDeferredError } from '@/lib/task/errors'
+import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
+
+type StoredCheckpoint = {
+  runId: string
+  nodeKey: string
+  version: number
+  stateJson: Record<string, unknown>
+}
+
+type RunnerMock = {
+  launch: ReturnType<typeof vi.fn>
+  waitFor?: ReturnType<typeof vi.fn>
+  verify: ReturnType<typeof vi.fn>
+}
+
+const checkpointStore = vi.hoisted(() => ({ items: [] as StoredCheckpoint[] }))
+
+const runServiceMock = vi.hoisted(() => ({
+  getRunById: vi.fn(async () => ({ id: 'run-1', status: 'running' })),
+  createCheckpoint: vi.fn(async (input: {
+    runId: string
+    nodeKey: string
+    version: number
+    state: Record<string, unknown>
+  }) => {
+    const checkpoint = {
+      runId: input.runId,
+      nodeKey: input.nodeKey,
+      version: input.version,
+      stateJson: JSON.parse(JSON.stringify(input.state)) as Record<string, unknown>,
+    }
+    checkpointStore.items.push(checkpoint)
+    return checkpoint
+  }),
+  listCheckpoints: vi.fn(async (input: { runId: string; nodeKey?: string; limit?: number }) => checkpointStore.items
+    .filter((item) => item.runId === input.runId && (!input.nodeKey || item.nodeKey === input.nodeKey))
+    .sort((left, right) => right.version - left.version)
+    .slice(0, input.limit || 50)),
+}))
+
+const childrenMock = vi.hoisted(() => ({
+  inspectAutopilotStageChildren: vi.fn(async () => ({ active: 0, failure: null as string | null })),
+  sumAutopilotSpend: vi.fn(async () => 0),
+  cancelAutopilotChildren: vi.fn(async () => 0),
+}))
+
+const runnersMock = vi.hoisted(() => ({} as Record<string, RunnerMock>))
+
+const workerMock = vi.hoisted(() => ({
+  reportTaskProgress: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
+vi.mock('@/lib/run-runtime/workflow-lease', () => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  getDefaultRunLeaseMs: vi.fn(() => 30_000),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
+vi.mock('@/lib/autopilot', async () => {
+  const types = await vi.importActual<typeof import('@/lib/autopilot/types')>('@/lib/autopilot/types')
+  const state = await vi.importActual<typeof import('@/lib/autopilot/state')>('@/lib/autopilot/state')
+  return {
+    ...types,
+    ...state,
+    ...childrenMock,
+    AUTOPILOT_STAGE_RUNNERS: runnersMock,
+  }
+})
+vi.mock('@/lib/workers/shared', () => ({ reportTaskProgress: workerMock.reportTaskProgress }))
+vi.mock('@/lib/workers/handlers/llm-stream', () => ({
+  createWorkerLLMStreamContext: vi.fn(() => ({ streamRunId: 'run-1', nextSeqByStepLane: {} })),
+  createWorkerLLMStreamCallbacks: vi.fn(() => ({
+    onStage: vi.fn(),
+    onChunk: vi.fn(),
+    onComplete: vi.fn(),
+    onError: vi.fn(),
+    flush: vi.fn(async () => undefined),
+  })),
+}))
+
+import { handleAutopilotTask } from '@/lib/workers/handlers/autopilot'
+
+function buildJob(payload: Record<string, unknown>): Job<TaskJobData> {
+  return {
+    queueName: 'text',
+    data: {
+      taskId: 'task-autopilot-1',
+      type: TASK_TYPE.AUTOPILOT_RUN,
+      locale: 'zh',
+      projectId: 'project-1',
+      episodeId: 'episode-1',
+      targetType: 'NovelPromotionEpisode',
+      targetId: 'episode-1',
+      payload: {
+        runId: 'run-1',
+        episodeId: 'episode-1',
+        videoModel: 'ark::video-model',
+        ...payload,
+      },
+      userId: 'user-1',
+    },
+  } as unknown as Job<TaskJobData>
+}
+
+function latestState() {
+  const [latest] = checkpointStore.items
+    .filter((item) => item.nodeKey === 'autopilot')
+    .sort((left, right) => right.version - left.version)
+  return latest?.stateJson as { stage: string; stages: Record<string, { taskIds: string[] } | undefined> } | undefined
+}
+
+function resetRunners() {
+  for (const stage of AUTOPILOT_STAGES) {
+    runnersMock[stage] = {
+      launch: vi.fn(async () => ({})),
+      verify: vi.fn(async () => null),
+    }
+  }
+}
+
+describe('worker autopilot behavior', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    checkpointStore.items = []
+    resetRunners()
+    childrenMock.inspectAutopilotStageChildren.mockResolvedValue({ active: 0, failure: null })
+    childrenMock.sumAutopilotSpend.mockResolvedValue(0)
+  })
+
+  it('runs every stage in order and checkpoints the finished state', async () => {
+    const result = await handleAutopilotTask(buildJob({}))
+
+    expect(result).toEqual(expect.objectContaining({ runId: 'run-1', episodeId: 'episode-1', spent: 0 }))
+    for (const stage of AUTOPILOT_STAGES) {
+      expect(runnersMock[stage]!.launch).toHaveBeenCalledTimes(1)
+      expect(runnersMock[stage]!.verify).toHaveBeenCalledTimes(1)
+    }
+    expect(latestState()?.stage).toBe('done')
+    const doneSteps = workerMock.reportTaskProgress.mock.calls
+      .map((call) => (call as unknown[])[2] as Record<string, unknown>)
+      .filter((meta) => meta.done === true)
+      .map((meta) => meta.stepId)
+    expect(doneSteps).toEqual([...AUTOPILOT_STAGES])
+  })
+
+  it('defers while child tasks of the current stage are still running', async () => {
+    runnersMock.analyze_assets!.launch.mockResolvedValue({ taskIds: ['child-1'] })
+    childrenMock.inspectAutopilotStageChildren.mockResolvedValue({ active: 1, failure: null })
+
+    const error = await handleAutopilotTask(buildJob({})).catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(TaskDeferredError)
+    expect((error as TaskDeferredError).reason).toBe('autopilot_children_running')
+    expect(latestState()?.stage).toBe('analyze_assets')
+    expect(latestState()?.stages.analyze_assets?.taskIds).toEqual(['child-1'])
+    expect(runnersMock.analyze_assets!.verify).not.toHaveBeenCalled()
+  })
+
+  it('resumes from the checkpoint without relaunching a stage', async () => {
+    runnersMock.analyze_assets!.launch.mockResolvedValue({ taskIds: ['child-1'] })
+    childrenMock.inspectAutopilotStageChildren.mockResolvedValueOnce({ active: 1, failure: null })
+    await handleAutopilotTask(buildJob({})).catch(() => undefined)
+
+    await handleAutopilotTask(buildJob({}))
+
+    expect(runnersMock.analyze_assets!.launch).toHaveBeenCalledTimes(1)
+    expect(latestState()?.stage).toBe('done')
+  })
+
+  it('waits for asset approval before moving on', async () => {
+    const approvalStage: AutopilotStage = 'approve_assets'
+    runnersMock[approvalStage]!.waitFor = vi.fn(async () => ({
+      delayMs: 60_000,
+      reason: 'autopilot_await_approval',
+    }))
+
+    const error = await handleAutopilotTask(buildJob({})).catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(TaskDeferredError)
+    expect((error as TaskDeferredError).delayMs).toBe(60_000)
+    expect((error as TaskDeferredError).reason).toBe('autopilot_await_approval')
+    expect(latestState()?.stage).toBe(approvalStage)
+    expect(runnersMock.story_to_script!.launch).not.toHaveBeenCalled()
+  })
+
+  it('stops and cancels children once the budget is exhausted', async () => {
+    childrenMock.sumAutopilotSpend.mockResolvedValue(12)
+
+    await expect(handleAutopilotTask(buildJob({ budget: 10 }))).rejects.toThrow('AUTOPILOT_BUDGET_EXCEEDED')
+    expect(childrenMock.cancelAutopilotChildren).toHaveBeenCalledWith(expect.objectContaining({
+      projectId: 'project-1',
+      reason: 'Autopilot budget exceeded',
+    }))
+    expect(runnersMock.analyze_assets!.launch).not.toHaveBeenCalled()
+  })
+
+  it('fails the run when a stage does not pass its quality gate', async () => {
+    runnersMock.story_to_script!.verify.mockResolvedValue('script is empty')
+
+    await expect(handleAutopilotTask(buildJob({}))).rejects.toThrow(
+      'AUTOPILOT_QUALITY_GATE_FAILED: story_to_script: script is empty',
+    )
+    expect(latestState()?.stage).toBe('story_to_script')
+  })
+
+  it('rewinds to the retried stage and relaunches it', async () => {
+    await handleAutopilotTask(buildJob({}))
+    vi.clearAllMocks()
+    resetRunners()
+
+    await handleAutopilotTask(buildJob({ retryStepKey: 'panel_videos', retryStepAttempt: 2 }))
+
+    expect(runnersMock.panel_images!.launch).not.toHaveBeenCalled()
+    expect(runnersMock.panel_videos!.launch).toHaveBeenCalledTimes(1)
+    expect(runnersMock.editor!.launch).toHaveBeenCalledTimes(1)
+    expect(latestState()?.stage).toBe('done')
+  })
+})
@@ -7,6 +7,7 @@ const utilsMock = vi.hoisted(() => ({
   assertTaskActive: vi.fn(async () => undefined),
   getProjectModels: vi.fn(async () => ({ characterModel: 'image-model-1', artStyle: 'realistic' })),
   toSignedUrlIfCos: vi.fn((url: string | null | undefined) => (url ? `https://signed.example/${url}` : null)),
+  planCandidateSeeds: vi.fn(async ({ count }: { count: number }): Promise<Array<number | null>> => Array(count).fill(null)),
 }))
 
 const outboundMock = vi.hoisted(() => ({
@@ -28,7 +29,7 @@ const sharedMock = vi.hoisted(() => ({
   generateProjectLabeledImageToStorage: vi.fn<(input: {
     prompt: string
     label: string
-    options?: { referenceImages?: string[]; aspectRatio?: string }
+    options?: { referenceImages?: string[]; aspectRatio?: string; seed?: number }
   }) => Promise<string>>(async () => 'cos/character-generated-0.png'),
 }))
 
@@ -123,6 +124,7 @@ describe('worker character-image-task-handler behavior', () => {
       where: { id: 'appearance-2' },
       data: {
         imageUrls: JSON.stringify(['cos/character-generated-0.png']),
+        imageSeeds: null,
         imageUrl: 'cos/character-generated-0.png',
       },
     })
@@ -171,8 +173,47 @@ describe('worker character-image-task-handler behavior', () => {
           'cos/character-generated-3.png',
           'cos/character-generated-4.png',
         ]),
+        imageSeeds: null,
         imageUrl: 'cos/character-generated-0.png',
       },
     })
   })
+
+  it('same-seed regeneration of one image -> reuses the seed and keeps seeds of other images', async () => {
+    prismaMock.characterAppearance.findUnique.mockResolvedValueOnce({
+      id: 'appearance-2',
+      characterId: 'character-1',
+      appearanceIndex: 1,
+      descriptions: JSON.stringify(['角色描述A', '角色描述B']),
+      description: '角色描述A',
+      imageUrls: JSON.stringify(['cos/old-0.png', 'cos/old-1.png']),
+      imageSeeds: JSON.stringify([11, 22]),
+      selectedIndex: 0,
+      imageUrl: 'cos/old-0.png',
+      changeReason: '战斗形态',
+      character: { name: 'Hero' },
+    })
+    utilsMock.planCandidateSeeds.mockResolvedValueOnce([22])
+    sharedMock.generateProjectLabeledImageToStorage.mockResolvedValueOnce('cos/character-generated-1.png')
+
+    await handleCharacterImageTask(buildJob({ imageIndex: 1, seed: 22 }))
+
+    expect(utilsMock.planCandidateSeeds).toHaveBeenCalledWith({
+      userId: 'user-1',
+      modelKey: 'image-model-1',
+      count: 1,
+      requestedSeed: 22,
+    })
+    expect(sharedMock.generateProjectLabeledImageToStorage.mock.calls[0]?.[0].options).toEqual(
+      expect.objectContaining({ seed: 22 }),
+    )
+    expect(prismaMock.characterAppearance.update).toHaveBeenCalledWith({
+      where: { id: 'appearance-2' },
+      data: {
+        imageUrls: JSON.stringify(['cos/old-0.png', 'cos/character-generated-1.png']),
+        imageSeeds: JSON.stringify([11, 22]),
+        imageUrl: 'cos/old-0.png',
+      },
+    })
+  })
 })
@@ -51,6 +51,18 @@ const llmStreamMock = vi.hoisted(() => ({
   })),
 }))
 
+const runServiceMock = vi.hoisted(() => ({
+  createArtifact: vi.fn(async () => ({})),
+}))
+
+const workflowLeaseMock = vi.hoisted(() => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
+
 const promptMock = vi.hoisted(() => ({
   PROMPT_IDS: { NP_EPISODE_SPLIT: 'np_episode_split' },
   buildPrompt: vi.fn(() => 'EPISODE_SPLIT_PROMPT'),
@@ -64,6 +76,8 @@ vi.mock('@/lib/workers/shared', () => sharedMock)
 vi.mock('@/lib/workers/utils', () => utilsMock)
 vi.mock('@/lib/workers/handlers/llm-stream', () => llmStreamMock)
 vi.mock('@/lib/prompt-i18n', () => promptMock)
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
+vi.mock('@/lib/run-runtime/workflow-lease', () => workflowLeaseMock)
 vi.mock('@/lib/novel-promotion/story-to-script/clip-matching', () => ({
   createTextMarkerMatcher: (content: string) => ({
     matchMarker: (marker: string, fromIndex = 0) => {
@@ -79,7 +93,16 @@ vi.mock('@/lib/novel-promotion/story-to-script/clip-matching', () => ({
 
 import { handleEpisodeSplitTask } from '@/lib/workers/handlers/episode-split'
 
-function buildJob(content: string): Job<TaskJobData> {
+const EPISODE_CONTENT = [
+  '前置内容用于凑长度，确保文本超过一百字。这一段会重复两次以保证长度满足阈值。',
+  '前置内容用于凑长度，确保文本超过一百字。这一段会重复两次以保证长度满足阈值。',
+  'START_MARKER',
+  '这里是第一集的正文内容，包含角色冲突与场景推进，长度足够用于单元测试验证。',
+  'END_MARKER',
+  '后置内容用于确保边界外还有文本，并继续补足长度。',
+].join('')
+
+function buildJob(content: string, extraPayload: Record<string, unknown> = {}): Job<TaskJobData> {
   return {
     data: {
       taskId: 'task-episode-split-1',
@@ -88,7 +111,7 @@ function buildJob(content: string): Job<TaskJobData> {
       projectId: 'project-1',
       targetType: 'NovelPromotionProject',
       targetId: 'project-1',
-      payload: { content },
+      payload: { content, runId: 'run-1', ...extraPayload },
       userId: 'user-1',
     },
   } as unknown as Job<TaskJobData>
@@ -105,23 +128,31 @@ describe('worker episode-split', () => {
   })
 
   it('returns matched episodes when ai boundaries are valid', async () => {
-    const content = [
-      '前置内容用于凑长度，确保文本超过一百字。这一段会重复两次以保证长度满足阈值。',
-      '前置内容用于凑长度，确保文本超过一百字。这一段会重复两次以保证长度满足阈值。',
-      'START_MARKER',
-      '这里是第一集的正文内容，包含角色冲突与场景推进，长度足够用于单元测试验证。',
-      'END_MARKER',
-      '后置内容用于确保边界外还有文本，并继续补足长度。',
-    ].join('')
-
-    const job = buildJob(content)
+    const job = buildJob(EPISODE_CONTENT)
     const result = await handleEpisodeSplitTask(job)
 
-    expect(result.success).toBe(true)
-    expect(result.episodes).toHaveLength(1)
-    expect(result.episodes[0]?.number).toBe(1)
-    expect(result.episodes[0]?.title).toBe('第一集')
-    expect(result.episodes[0]?.content).toContain('START_MARKER')
-    expect(result.episodes[0]?.content).toContain('END_MARKER')
+    expect(result).toEqual(expect.objectContaining({ success: true }))
+    const episodes = 'episodes' in result ? result.episodes : []
+    expect(episodes).toHaveLength(1)
+    expect(episodes[0]?.number).toBe(1)
+    expect(episodes[0]?.title).toBe('第一集')
+    expect(episodes[0]?.content).toContain('START_MARKER')
+    expect(episodes[0]?.content).toContain('END_MARKER')
+    expect(runServiceMock.createArtifact).toHaveBeenCalledWith(expect.objectContaining({
+      runId: 'run-1',
+      stepKey: 'episode_split',
+      artifactType: 'episodes.split',
+    }))
+  })
+
+  it('rejects retry of a step the episode split run does not have', async () => {
+    const job = buildJob(EPISODE_CONTENT, { retryStepKey: 'split_clips', retryStepAttempt: 2 })
+    await expect(handleEpisodeSplitTask(job)).rejects.toThrow('unsupported retry step for episode_split: split_clips')
+  })
+
+  it('skips when another worker holds the run lease', async () => {
+    workflowLeaseMock.withWorkflowRunLease.mockResolvedValueOnce({ claimed: false, result: null })
+    const result = await handleEpisodeSplitTask(buildJob(EPISODE_CONTENT))
+    expect(result).toEqual({ runId: 'run-1', skipped: true })
   })
 })
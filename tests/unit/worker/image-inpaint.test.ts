@@ -0,0 +1,170 @@
+import type { Job } from 'bullmq'
+import sharp from 'sharp'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
+
+const utilsMock = vi.hoisted(() => ({
+  resolveImageSourceFromGeneration: vi.fn(async () => 'generated-image-source'),
+  resolveLabelBarHeight: vi.fn(() => 0),
+}))
+
+const generatorApiMock = vi.hoisted(() => ({
+  supportsImageInpaint: vi.fn(async () => false),
+}))
+
+const outboundImageMock = vi.hoisted(() => ({
+  normalizeToBase64ForGeneration: vi.fn(async (source: string) => source),
+}))
+
+const storageMock = vi.hoisted(() => ({
+  getObjectBuffer: vi.fn<(key: string) => Promise<Buffer>>(),
+}))
+
+vi.mock('@/lib/workers/utils', () => utilsMock)
+vi.mock('@/lib/generator-api', () => generatorApiMock)
+vi.mock('@/lib/media/outbound-image', () => outboundImageMock)
+vi.mock('@/lib/storage', () => storageMock)
+
+import { resolveModifyImageSource } from '@/lib/workers/handlers/image-inpaint'
+
+async function solidPngDataUrl(width: number, height: number, color: string): Promise<string> {
+  const png = await sharp({ create: { width, height, channels: 3, background: color } }).png().toBuffer()
+  return `data:image/png;base64,${png.toString('base64')}`
+}
+
+// 左上角白块为重绘区域
+async function cornerMaskPng(width: number, height: number, size: number): Promise<Buffer> {
+  const white = await sharp({ create: { width: size, height: size, channels: 3, background: '#ffffff' } }).png().toBuffer()
+  return await sharp({ create: { width, height, channels: 3, background: '#000000' } })
+    .composite([{ input: white, left: 0, top: 0 }])
+    .png()
+    .toBuffer()
+}
+
+function buildJob(locale: TaskJobData['locale'] = 'zh'): Job<TaskJobData> {
+  return {
+    data: {
+      taskId: 'task-1',
+      type: TASK_TYPE.MODIFY_ASSET_IMAGE,
+      locale,
+      projectId: 'project-1',
+      targetType: 'NovelPromotionPanel',
+      targetId: 'panel-1',
+      payload: {},
+      userId: 'user-1',
+    },
+  } as unknown as Job<TaskJobData>
+}
+
+function readGenerationCall(index = 0) {
+  const call = utilsMock.resolveImageSourceFromGeneration.mock.calls[index] as unknown as [
+    unknown,
+    { prompt: string; options?: Record<string, unknown> },
+  ]
+  return call[1]
+}
+
+describe('resolveModifyImageSource', () => {
+  let baseImage: string
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    baseImage = await solidPngDataUrl(200, 200, '#000000')
+  })
+
+  it('falls back to whole-image editing without a mask key', async () => {
+    const result = await resolveModifyImageSource(buildJob(), {
+      userId: 'user-1',
+      modelId: 'edit-model',
+      prompt: 'make it red',
+      options: { referenceImages: [baseImage] },
+      baseImage,
+    })
+
+    expect(result).toBe('generated-image-source')
+    expect(storageMock.getObjectBuffer).not.toHaveBeenCalled()
+    expect(generatorApiMock.supportsImageInpaint).not.toHaveBeenCalled()
+    expect(readGenerationCall()).toEqual({
+      userId: 'user-1',
+      modelId: 'edit-model',
+      prompt: 'make it red',
+      options: { referenceImages: [baseImage] },
+    })
+  })
+
+  it('passes the normalized mask to models with native inpaint support', async () => {
+    generatorApiMock.supportsImageInpaint.mockResolvedValueOnce(true)
+    storageMock.getObjectBuffer.mockResolvedValueOnce(await cornerMaskPng(100, 100, 20))
+
+    await resolveModifyImageSource(buildJob(), {
+      userId: 'user-1',
+      modelId: 'edit-model',
+      prompt: 'make it red',
+      options: { referenceImages: [baseImage, 'https://example.com/ref.png'] },
+      baseImage,
+      maskImageKey: 'inpaint-mask-user-1.png',
+    })
+
+    expect(storageMock.getObjectBuffer).toHaveBeenCalledWith('inpaint-mask-user-1.png')
+
+    const generation = readGenerationCall()
+    expect(generation.prompt).toBe('make it red')
+    expect(generation.options?.referenceImages).toEqual([baseImage, 'https://example.com/ref.png'])
+    const maskImage = String(generation.options?.maskImage)
+    expect(maskImage.startsWith('data:image/png;base64,')).toBe(true)
+    const meta = await sharp(Buffer.from(maskImage.split(',')[1], 'base64')).metadata()
+    expect([meta.width, meta.height]).toEqual([200, 200])
+  })
+
+  it('edits a crop and composites it back when masks are unsupported', async () => {
+    utilsMock.resolveImageSourceFromGeneration.mockResolvedValueOnce(await solidPngDataUrl(64, 64, '#ff0000'))
+    storageMock.getObjectBuffer.mockResolvedValueOnce(await cornerMaskPng(200, 200, 40))
+
+    const result = await resolveModifyImageSource(buildJob(), {
+      userId: 'user-1',
+      modelId: 'edit-model',
+      prompt: 'make it red',
+      options: { referenceImages: [baseImage, 'https://example.com/ref.png'], aspectRatio: '1:1' },
+      baseImage,
+      maskImageKey: 'inpaint-mask-user-1.png',
+    })
+
+    const generation = readGenerationCall()
+    expect(generation.prompt.startsWith('make it red')).toBe(true)
+    expect(generation.prompt).toContain('只修改该局部')
+    expect(generation.options?.maskImage).toBeUndefined()
+    expect(generation.options?.aspectRatio).toBe('1:1')
+    const references = generation.options?.referenceImages as string[]
+    expect(references).toHaveLength(2)
+    expect(references[0]).not.toBe(baseImage)
+    expect(references[1]).toBe('https://example.com/ref.png')
+
+    const { data, info } = await sharp(Buffer.from(result.split(',')[1], 'base64'))
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+    const red = (x: number, y: number) => data[(y * info.width + x) * info.channels]
+    expect([info.width, info.height]).toEqual([200, 200])
+    expect(red(10, 10)).toBeGreaterThan(240)
+    expect(red(150, 150)).toBe(0)
+  })
+
+  it('follows the task locale for the crop-edit prompt', async () => {
+    utilsMock.resolveImageSourceFromGeneration.mockResolvedValueOnce(await solidPngDataUrl(64, 64, '#ff0000'))
+    storageMock.getObjectBuffer.mockResolvedValueOnce(await cornerMaskPng(200, 200, 40))
+
+    await resolveModifyImageSource(buildJob('en'), {
+      userId: 'user-1',
+      modelId: 'edit-model',
+      prompt: 'make it red',
+      options: { referenceImages: [baseImage] },
+      baseImage,
+      maskImageKey: 'inpaint-mask-user-1.png',
+    })
+
+    const generation = readGenerationCall()
+    expect(generation.prompt.startsWith('make it red')).toBe(true)
+    expect(generation.prompt).toContain('Only modify this region')
+    expect(generation.prompt).not.toContain('只修改该局部')
+  })
+})
@@ -131,6 +131,7 @@ describe('worker image-task-handlers-core', () => {
     const updateData = readUpdateData(updateArg)
     expect(updateData.previousImageUrl).toBe('cos/location-old.png')
     expect(updateData.imageUrl).toBe('cos/new-image.png')
+    expect(updateData.imageSeed).toBeNull()
   })
 
   it('uses the character-matching aspect ratio when modifying project prop images', async () => {
@@ -61,6 +61,9 @@ vi.mock('@/lib/workers/shared', () => sharedMock)
 vi.mock('@/lib/config-service', () => configServiceMock)
 vi.mock('@/lib/workers/user-concurrency-gate', () => gateMock)
 vi.mock('@/lib/workers/handlers/image-task-handlers', () => handlerMock)
+vi.mock('@/lib/prompt-overrides/runtime', () => ({
+  withActivePromptTemplateOverrides: vi.fn(async <T>(_params: unknown, fn: () => Promise<T>) => await fn()),
+}))
 
 function buildJob(type: TaskJobData['type']): Job<TaskJobData> {
   return {
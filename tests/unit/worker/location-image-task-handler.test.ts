@@ -6,6 +6,7 @@ import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
 const utilsMock = vi.hoisted(() => ({
   assertTaskActive: vi.fn(async () => undefined),
   getProjectModels: vi.fn(async () => ({ locationModel: 'location-model-1', artStyle: 'japanese-anime' })),
+  planCandidateSeeds: vi.fn(async ({ count }: { count: number }): Promise<Array<number | null>> => Array(count).fill(null)),
 }))
 
 const prismaMock = vi.hoisted(() => ({
@@ -131,7 +132,7 @@ describe('worker location-image-task-handler behavior', () => {
 
     expect(prismaMock.locationImage.update).toHaveBeenCalledWith({
       where: { id: 'location-image-1' },
-      data: { imageUrl: 'cos/location-generated-1.png' },
+      data: { imageUrl: 'cos/location-generated-1.png', imageSeed: null },
     })
   })
 
@@ -173,7 +174,7 @@ describe('worker location-image-task-handler behavior', () => {
     expect(prismaMock.locationImage.update).toHaveBeenCalledTimes(1)
     expect(prismaMock.locationImage.update).toHaveBeenCalledWith({
       where: { id: 'location-image-1' },
-      data: { imageUrl: 'cos/location-generated-1.png' },
+      data: { imageUrl: 'cos/location-generated-1.png', imageSeed: null },
     })
   })
 
@@ -186,4 +187,24 @@ describe('worker location-image-task-handler behavior', () => {
       }),
     )
   })
+
+  it('same-seed regeneration -> passes the requested seed and persists it on the image', async () => {
+    utilsMock.planCandidateSeeds.mockResolvedValueOnce([424242])
+
+    await handleLocationImageTask(buildJob({ imageIndex: 0, seed: 424242 }))
+
+    expect(utilsMock.planCandidateSeeds).toHaveBeenCalledWith({
+      userId: 'user-1',
+      modelKey: 'location-model-1',
+      count: 1,
+      requestedSeed: 424242,
+    })
+    expect(sharedMock.generateProjectLabeledImageToStorage).toHaveBeenCalledWith(
+      expect.objectContaining({ options: expect.objectContaining({ seed: 424242 }) }),
+    )
+    expect(prismaMock.locationImage.update).toHaveBeenCalledWith({
+      where: { id: 'location-image-1' },
+      data: { imageUrl: 'cos/location-generated-1.png', imageSeed: 424242 },
+    })
+  })
 })
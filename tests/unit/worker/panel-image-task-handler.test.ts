@@ -7,11 +7,15 @@ const prismaMock = vi.hoisted(() => ({
     findUnique: vi.fn(),
     update: vi.fn(async () => ({})),
   },
+  globalArtStyle: {
+    findFirst: vi.fn(),
+  },
 }))
 
 const utilsMock = vi.hoisted(() => ({
   assertTaskActive: vi.fn(async () => undefined),
   getProjectModels: vi.fn(async () => ({ storyboardModel: 'storyboard-model-1', artStyle: 'realistic' })),
+  planCandidateSeeds: vi.fn(async ({ count }: { count: number }): Promise<Array<number | null>> => Array(count).fill(null)),
   resolveImageSourceFromGeneration: vi.fn(),
   uploadImageSourceToCos: vi.fn(),
 }))
@@ -42,6 +46,10 @@ const outboundMock = vi.hoisted(() => ({
   normalizeReferenceImagesForGeneration: vi.fn(async () => ['normalized-ref-1']),
 }))
 
+const generatorApiMock = vi.hoisted(() => ({
+  supportsImageLayoutReference: vi.fn(async () => false),
+}))
+
 const promptMock = vi.hoisted(() => ({
   buildPrompt: vi.fn(() => 'panel-image-prompt'),
 }))
@@ -49,6 +57,7 @@ const promptMock = vi.hoisted(() => ({
 vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
 vi.mock('@/lib/workers/utils', () => utilsMock)
 vi.mock('@/lib/media/outbound-image', () => outboundMock)
+vi.mock('@/lib/generator-api', () => generatorApiMock)
 vi.mock('@/lib/workers/shared', () => ({ reportTaskProgress: vi.fn(async () => undefined) }))
 vi.mock('@/lib/logging/core', () => ({
   logInfo: vi.fn(),
@@ -138,6 +147,8 @@ describe('worker panel-image-task-handler behavior', () => {
       panelId: 'panel-1',
       candidateCount: 2,
       imageUrl: 'cos/panel-candidate-1.png',
+      candidateImages: ['cos/panel-candidate-1.png', 'cos/panel-candidate-2.png'],
+      candidateSeeds: [null, null],
     })
 
     expect(utilsMock.resolveImageSourceFromGeneration).toHaveBeenCalledWith(
@@ -168,6 +179,8 @@ describe('worker panel-image-task-handler behavior', () => {
       data: {
         imageUrl: 'cos/panel-candidate-1.png',
         candidateImages: JSON.stringify(['cos/panel-candidate-1.png', 'cos/panel-candidate-2.png']),
+        imageSeed: null,
+        candidateSeeds: null,
       },
     })
   })
@@ -204,6 +217,8 @@ describe('worker panel-image-task-handler behavior', () => {
       panelId: 'panel-1',
       candidateCount: 1,
       imageUrl: null,
+      candidateImages: ['cos/panel-regenerated.png'],
+      candidateSeeds: [null],
     })
 
     expect(prismaMock.novelPromotionPanel.update).toHaveBeenCalledWith({
@@ -211,7 +226,120 @@ describe('worker panel-image-task-handler behavior', () => {
       data: {
         previousImageUrl: 'cos/panel-old.png',
         candidateImages: JSON.stringify(['cos/panel-regenerated.png']),
+        candidateSeeds: null,
+      },
+    })
+  })
+
+  it('seed-capable model -> passes per-candidate seeds and persists them alongside candidates', async () => {
+    utilsMock.planCandidateSeeds.mockResolvedValueOnce([424242, 7])
+
+    await handlePanelImageTask(buildJob({ candidateCount: 2, seed: 424242 }))
+
+    expect(utilsMock.planCandidateSeeds).toHaveBeenCalledWith({
+      userId: 'user-1',
+      modelKey: 'storyboard-model-1',
+      count: 2,
+      requestedSeed: 424242,
+    })
+    expect(utilsMock.resolveImageSourceFromGeneration).toHaveBeenNthCalledWith(
+      1,
+      expect.anything(),
+      expect.objectContaining({ options: expect.objectContaining({ seed: 424242 }) }),
+    )
+    expect(utilsMock.resolveImageSourceFromGeneration).toHaveBeenNthCalledWith(
+      2,
+      expect.anything(),
+      expect.objectContaining({ options: expect.objectContaining({ seed: 7 }) }),
+    )
+    expect(prismaMock.novelPromotionPanel.update).toHaveBeenCalledWith({
+      where: { id: 'panel-1' },
+      data: {
+        imageUrl: 'cos/panel-candidate-1.png',
+        candidateImages: JSON.stringify(['cos/panel-candidate-1.png', 'cos/panel-candidate-2.png']),
+        imageSeed: 424242,
+        candidateSeeds: JSON.stringify([424242, 7]),
       },
     })
   })
+
+  it('layout sketch -> used as structural reference only when the model supports it', async () => {
+    const sketchPanel = {
+      id: 'panel-1',
+      storyboardId: 'storyboard-1',
+      panelIndex: 0,
+      shotType: 'wide',
+      cameraMove: 'static',
+      description: 'two heroes face off',
+      imagePrompt: null,
+      videoPrompt: null,
+      location: 'Old Town',
+      characters: '[]',
+      srtSegment: null,
+      photographyRules: null,
+      actingNotes: null,
+      sketchImageUrl: 'images/panel-1-sketch.png',
+      imageUrl: null,
+    }
+    prismaMock.novelPromotionPanel.findUnique.mockResolvedValueOnce(sketchPanel)
+    generatorApiMock.supportsImageLayoutReference.mockResolvedValueOnce(true)
+
+    await handlePanelImageTask(buildJob({ candidateCount: 1 }))
+
+    expect(generatorApiMock.supportsImageLayoutReference).toHaveBeenCalledWith('user-1', 'storyboard-model-1')
+    expect(sharedMock.collectPanelReferenceImages).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ sketchImageUrl: 'images/panel-1-sketch.png' }),
+      [],
+    )
+    expect(promptMock.buildPrompt).toHaveBeenLastCalledWith(expect.objectContaining({
+      variables: expect.objectContaining({
+        storyboard_text_json_input: expect.stringContaining('"layout_reference": true'),
+      }),
+    }))
+
+    prismaMock.novelPromotionPanel.findUnique.mockResolvedValueOnce(sketchPanel)
+    utilsMock.resolveImageSourceFromGeneration.mockResolvedValueOnce('generated-source-3')
+    utilsMock.uploadImageSourceToCos.mockResolvedValueOnce('cos/panel-candidate-3.png')
+
+    await handlePanelImageTask(buildJob({ candidateCount: 1 }))
+
+    expect(sharedMock.collectPanelReferenceImages).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ sketchImageUrl: null }),
+      [],
+    )
+    expect(promptMock.buildPrompt).toHaveBeenLastCalledWith(expect.objectContaining({
+      variables: expect.objectContaining({
+        storyboard_text_json_input: expect.stringContaining('"layout_reference": false'),
+      }),
+    }))
+  })
+
+  it('custom art style -> adds style reference images and negative prompt for the storyboard model', async () => {
+    utilsMock.getProjectModels.mockResolvedValueOnce({ storyboardModel: 'storyboard-model-1', artStyle: 'custom:style-1' })
+    prismaMock.globalArtStyle.findFirst.mockResolvedValueOnce({
+      id: 'style-1',
+      userId: 'user-1',
+      promptZh: '水彩绘本风格',
+      promptEn: 'watercolor picture book',
+      negativePrompt: '3D 渲染',
+      referenceImages: JSON.stringify(['images/style-ref.jpg']),
+      modelOverrides: JSON.stringify({ 'storyboard-model-1': { promptZh: '柔和水彩' } }),
+    })
+
+    await handlePanelImageTask(buildJob({ candidateCount: 1 }))
+
+    expect(prismaMock.globalArtStyle.findFirst).toHaveBeenCalledWith({
+      where: { id: 'style-1', OR: [{ userId: 'user-1' }, { isShared: true }] },
+    })
+    expect(sharedMock.collectPanelReferenceImages).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'panel-1' }),
+      ['images/style-ref.jpg'],
+    )
+    expect(promptMock.buildPrompt).toHaveBeenCalledWith(expect.objectContaining({
+      variables: expect.objectContaining({ style: '柔和水彩。避免：3D 渲染' }),
+    }))
+  })
 })
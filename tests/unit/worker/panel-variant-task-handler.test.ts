@@ -18,7 +18,7 @@ const utilsMock = vi.hoisted(() => ({
 }))
 
 const sharedMock = vi.hoisted(() => ({
-  collectPanelReferenceImages: vi.fn(async () => ['https://signed.example/ref-character.png']),
+  collectPanelReferenceImages: vi.fn(),
   resolveNovelData: vi.fn(async () => ({
     videoRatio: '16:9',
     characters: [{
@@ -59,6 +59,7 @@ vi.mock('@/lib/workers/handlers/image-task-handler-shared', async () => {
   const actual = await vi.importActual<typeof import('@/lib/workers/handlers/image-task-handler-shared')>(
     '@/lib/workers/handlers/image-task-handler-shared',
   )
+  sharedMock.collectPanelReferenceImages.mockImplementation(actual.collectPanelReferenceImages)
   return {
     ...actual,
     collectPanelReferenceImages: sharedMock.collectPanelReferenceImages,
@@ -186,6 +187,11 @@ describe('worker panel-variant-task-handler behavior', () => {
 
     await handlePanelVariantTask(buildJob(payload))
 
+    expect(sharedMock.collectPanelReferenceImages).toHaveBeenCalledWith(
+      expect.anything(),
+      { sketchImageUrl: null, characters: null, location: null },
+      [],
+    )
     expect(outboundMock.normalizeReferenceImagesForGeneration).toHaveBeenCalledWith([
       'https://signed.example/cos/panel-source.png',
     ])
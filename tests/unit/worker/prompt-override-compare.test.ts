@@ -0,0 +1,146 @@
+import type { Job } from 'bullmq'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
+import {
+  buildPromptTemplateOverrideKey,
+  getDefaultPromptTemplate,
+  getPromptTemplate,
+  PROMPT_IDS,
+  withPromptTemplateOverrides,
+} from '@/lib/prompt-i18n'
+
+const prismaMock = vi.hoisted(() => ({
+  novelPromotionClip: {
+    findUnique: vi.fn(async () => ({
+      id: 'clip-1',
+      content: '雨夜，主角推门而入',
+      characters: '["林夏"]',
+      location: '旧书店',
+      props: null,
+      screenplay: null,
+      episode: { novelPromotionProject: { projectId: 'project-1' } },
+    })),
+  },
+  project: {
+    findUnique: vi.fn(async () => ({ id: 'project-1', name: 'Project One' })),
+  },
+  novelPromotionProject: {
+    findUnique: vi.fn(async () => ({
+      analysisModel: 'llm::analysis',
+      characters: [],
+      locations: [
+        { name: '旧书店', assetKind: 'location', summary: null, images: [] },
+        { name: '怀表', assetKind: 'prop', summary: '祖传怀表', images: [] },
+      ],
+    })),
+  },
+}))
+
+const overridesMock = vi.hoisted(() => ({
+  resolvePromptCompareCandidate: vi.fn(async () => ({ scope: 'project', version: 2, content: 'OVERRIDE CINEMATOGRAPHER' })),
+}))
+
+const phasesMock = vi.hoisted(() => ({
+  executePhase1: vi.fn(async () => ({ clipId: 'clip-1', planPanels: [{ panel_number: 1 }] })),
+  executePhase2: vi.fn(),
+  executePhase2Acting: vi.fn(),
+  executePhase3: vi.fn(),
+}))
+
+const workerMock = vi.hoisted(() => ({
+  reportTaskProgress: vi.fn(async () => undefined),
+  assertTaskActive: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/prompt-overrides', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/prompt-overrides')>()),
+  ...overridesMock,
+}))
+vi.mock('@/lib/storyboard-phases', () => phasesMock)
+vi.mock('@/lib/llm-observe/internal-stream-context', () => ({
+  withInternalLLMStreamCallbacks: vi.fn(async (_callbacks: unknown, fn: () => Promise<unknown>) => await fn()),
+}))
+vi.mock('@/lib/workers/shared', () => ({ reportTaskProgress: workerMock.reportTaskProgress }))
+vi.mock('@/lib/workers/utils', () => ({ assertTaskActive: workerMock.assertTaskActive }))
+vi.mock('@/lib/workers/handlers/llm-stream', () => ({
+  createWorkerLLMStreamContext: vi.fn(() => ({ streamRunId: 'run-1', nextSeqByStepLane: {} })),
+  createWorkerLLMStreamCallbacks: vi.fn(() => ({ flush: vi.fn(async () => undefined) })),
+}))
+
+import { handlePromptOverrideCompareTask } from '@/lib/workers/handlers/prompt-override-compare'
+
+function buildJob(payload: Record<string, unknown>): Job<TaskJobData> {
+  return {
+    data: {
+      taskId: 'task-compare-1',
+      type: TASK_TYPE.PROMPT_OVERRIDE_COMPARE,
+      locale: 'zh',
+      projectId: 'project-1',
+      episodeId: null,
+      targetType: 'NovelPromotionClip',
+      targetId: 'clip-1',
+      payload,
+      userId: 'user-1',
+    },
+  } as unknown as Job<TaskJobData>
+}
+
+describe('worker prompt-override-compare behavior', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    phasesMock.executePhase2.mockImplementation(async () => ({
+      clipId: 'clip-1',
+      photographyRules: [{ template: getPromptTemplate(PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER, 'zh') }],
+    }))
+  })
+
+  it('rejects prompts outside the storyboard phases', async () => {
+    await expect(handlePromptOverrideCompareTask(buildJob({ clipId: 'clip-1', promptId: 'np_voice_analysis' })))
+      .rejects.toThrow('prompt_override_compare requires a storyboard promptId')
+    expect(phasesMock.executePhase1).not.toHaveBeenCalled()
+  })
+
+  it('plans once and runs the target phase with the default and the override template', async () => {
+    const planKey = buildPromptTemplateOverrideKey(PROMPT_IDS.NP_AGENT_STORYBOARD_PLAN, 'zh')
+    const cinematographerKey = buildPromptTemplateOverrideKey(PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER, 'zh')
+    const activeOverrides = new Map([
+      [planKey, 'ACTIVE PLAN'],
+      [cinematographerKey, 'ACTIVE CINEMATOGRAPHER'],
+    ])
+
+    const result = await withPromptTemplateOverrides(activeOverrides, async () => await handlePromptOverrideCompareTask(
+      buildJob({ clipId: 'clip-1', promptId: PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER }),
+    ))
+
+    expect(phasesMock.executePhase1).toHaveBeenCalledTimes(1)
+    expect(phasesMock.executePhase2).toHaveBeenCalledTimes(2)
+    expect(phasesMock.executePhase2).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'clip-1' }),
+      [{ panel_number: 1 }],
+      expect.objectContaining({
+        locations: [expect.objectContaining({ name: '旧书店' })],
+        props: [{ name: '怀表', summary: '祖传怀表' }],
+      }),
+      { user: { id: 'user-1', name: 'Worker' } },
+      'project-1',
+      'Project One',
+      'zh',
+    )
+    expect(overridesMock.resolvePromptCompareCandidate).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      projectId: 'project-1',
+      promptId: PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+      scope: null,
+      version: null,
+    }))
+    expect(result).toEqual({
+      clipId: 'clip-1',
+      promptId: PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER,
+      scope: 'project',
+      version: 2,
+      default: [{ template: getDefaultPromptTemplate(PROMPT_IDS.NP_AGENT_CINEMATOGRAPHER, 'zh') }],
+      override: [{ template: 'OVERRIDE CINEMATOGRAPHER' }],
+    })
+  })
+})
@@ -23,7 +23,19 @@ const helpersMock = vi.hoisted(() => ({
   parseScreenplayPayload: vi.fn(() => ({ scenes: [{ index: 1 }] })),
 }))
 
+const runServiceMock = vi.hoisted(() => ({
+  createArtifact: vi.fn(async () => ({})),
+}))
+
 vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
+vi.mock('@/lib/run-runtime/workflow-lease', () => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
 vi.mock('@/lib/llm-client', () => llmMock)
 vi.mock('@/lib/llm-observe/internal-stream-context', () => ({
   withInternalLLMStreamCallbacks: vi.fn(async (_callbacks: unknown, fn: () => Promise<unknown>) => await fn()),
@@ -66,7 +78,7 @@ function buildJob(payload: Record<string, unknown>, episodeId: string | null = '
       episodeId,
       targetType: 'NovelPromotionEpisode',
       targetId: 'episode-1',
-      payload,
+      payload: { runId: 'run-1', ...payload },
       userId: 'user-1',
     },
   } as unknown as Job<TaskJobData>
@@ -75,6 +87,7 @@ function buildJob(payload: Record<string, unknown>, episodeId: string | null = '
 describe('worker screenplay-convert behavior', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    helpersMock.parseScreenplayPayload.mockImplementation(() => ({ scenes: [{ index: 1 }] }))
 
     prismaMock.project.findUnique.mockResolvedValue({
       id: 'project-1',
@@ -137,4 +150,32 @@ describe('worker screenplay-convert behavior', () => {
     const job = buildJob({ episodeId: 'episode-1' })
     await expect(handleScreenplayConvertTask(job)).rejects.toThrow('SCREENPLAY_CONVERT_PARTIAL_FAILED')
   })
+
+  it('retrying a clip step converts only that clip', async () => {
+    prismaMock.novelPromotionEpisode.findUnique.mockResolvedValueOnce({
+      id: 'episode-1',
+      novelPromotionProjectId: 'np-project-1',
+      clips: [
+        { id: 'clip-1', content: 'clip 1 content' },
+        { id: 'clip-2', content: 'clip 2 content' },
+      ],
+    })
+
+    const result = await handleScreenplayConvertTask(buildJob({
+      episodeId: 'episode-1',
+      retryStepKey: 'screenplay_clip_clip-2',
+      retryStepAttempt: 3,
+    }))
+
+    expect(result).toEqual(expect.objectContaining({ total: 1, successCount: 1 }))
+    expect(prismaMock.novelPromotionClip.update).toHaveBeenCalledTimes(1)
+    expect(prismaMock.novelPromotionClip.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'clip-2' },
+    }))
+    expect(runServiceMock.createArtifact).toHaveBeenCalledWith(expect.objectContaining({
+      stepKey: 'screenplay_clip_clip-2',
+      artifactType: 'screenplay.clip',
+      refId: 'clip-2',
+    }))
+  })
 })
@@ -151,6 +151,7 @@ vi.mock('@/lib/prompt-i18n', () => ({
     NP_VOICE_ANALYSIS: 'voice-analysis',
   },
   getPromptTemplate: vi.fn(() => 'prompt-template'),
+  getPromptTemplateVersion: vi.fn(() => 'prompt-version'),
   buildPrompt: vi.fn(() => 'voice-analysis-prompt'),
 }))
 
@@ -50,6 +50,14 @@ vi.mock('@/lib/task/publisher', () => ({
   publishTaskStreamEvent: publishTaskStreamEventMock,
 }))
 
+vi.mock('@/lib/task-batch', () => ({
+  refreshTaskBatchForTaskPayload: vi.fn(async () => null),
+}))
+
+vi.mock('@/lib/task/dependencies', () => ({
+  settleDependentTasks: vi.fn(async () => undefined),
+}))
+
 vi.mock('@/lib/task/progress-message', () => ({
   buildTaskProgressMessage: vi.fn(() => 'progress-message'),
   getTaskStageLabel: vi.fn((stage: string) => `label:${stage}`),
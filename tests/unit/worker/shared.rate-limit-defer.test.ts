@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DelayedError, UnrecoverableError, type Job } from 'bullmq'
+import type { TaskJobData } from '@/lib/task/types'
+
+const serviceMock = vi.hoisted(() => ({
+  rollbackTaskBillingForTask: vi.fn(async () => ({ attempted: false, rolledBack: false, billingInfo: null })),
+  touchTaskHeartbeat: vi.fn(async () => undefined),
+  tryMarkTaskCompleted: vi.fn(async () => true),
+  tryMarkTaskDeferred: vi.fn(async () => true),
+  tryMarkTaskFailed: vi.fn(async () => true),
+  tryMarkTaskProcessing: vi.fn(async () => true),
+  tryUpdateTaskProgress: vi.fn(async () => true),
+  updateTaskBillingInfo: vi.fn(async () => undefined),
+}))
+const publishTaskEventMock = vi.hoisted(() => vi.fn(async () => ({})))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    project: {
+      findUnique: vi.fn(async () => null),
+    },
+  },
+}))
+
+vi.mock('@/lib/logging/core', () => ({
+  createScopedLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}))
+
+vi.mock('@/lib/task/service', () => serviceMock)
+
+vi.mock('@/lib/task/publisher', () => ({
+  publishTaskEvent: publishTaskEventMock,
+  publishTaskStreamEvent: vi.fn(async () => ({})),
+}))
+
+vi.mock('@/lib/task-batch', () => ({
+  refreshTaskBatchForTaskPayload: vi.fn(async () => null),
+}))
+
+vi.mock('@/lib/task/dependencies', () => ({
+  settleDependentTasks: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/lib/billing', () => ({
+  rollbackTaskBilling: vi.fn(async () => null),
+  settleTaskBilling: vi.fn(async () => null),
+}))
+
+vi.mock('@/lib/billing/runtime-usage', () => ({
+  withTextUsageCollection: vi.fn(async (fn: () => Promise<unknown>) => ({
+    result: await fn(),
+    textUsage: null,
+  })),
+}))
+
+vi.mock('@/lib/logging/file-writer', () => ({
+  onProjectNameAvailable: vi.fn(),
+}))
+
+vi.mock('@/lib/run-runtime/publisher', () => ({
+  publishRunEvent: vi.fn(async () => undefined),
+}))
+
+import { ProviderRateLimitedError } from '@/lib/provider-rate-limit/errors'
+import { withTaskLifecycle } from '@/lib/workers/shared'
+
+function buildJob(overrides: Partial<TaskJobData> = {}, token: string | undefined = 'lock-token') {
+  const data: TaskJobData = {
+    taskId: 'task-1',
+    type: 'image_panel',
+    locale: 'zh',
+    projectId: 'project-1',
+    episodeId: null,
+    targetType: 'NovelPromotionPanel',
+    targetId: 'panel-1',
+    userId: 'user-1',
+    payload: {},
+    trace: null,
+    ...overrides,
+  }
+  const job = {
+    data,
+    queueName: 'image',
+    token,
+    opts: { attempts: 5 },
+    attemptsMade: 0,
+    updateData: vi.fn(async (next: TaskJobData) => {
+      job.data = next
+    }),
+    moveToDelayed: vi.fn(async () => undefined),
+  }
+  return job as typeof job & Job<TaskJobData>
+}
+
+describe('worker shared provider rate limit deferral', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('re-queues rate limited jobs with the provider retry delay instead of failing', async () => {
+    const job = buildJob()
+    const startedAt = Date.now()
+
+    await expect(withTaskLifecycle(job, async () => {
+      throw new ProviderRateLimitedError('Too many requests', { provider: 'fal', retryAfterMs: 30_000 })
+    })).rejects.toBeInstanceOf(DelayedError)
+
+    const [delayedUntil, token] = job.moveToDelayed.mock.calls[0] as unknown as [number, string]
+    expect(token).toBe('lock-token')
+    expect(delayedUntil - startedAt).toBeGreaterThanOrEqual(30_000)
+    expect(delayedUntil - startedAt).toBeLessThan(32_000)
+    expect(job.data.rateLimitDeferrals).toBe(1)
+    expect(serviceMock.tryMarkTaskDeferred).toHaveBeenCalledWith('task-1')
+    expect(serviceMock.tryMarkTaskFailed).not.toHaveBeenCalled()
+    expect(publishTaskEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'task.created',
+      payload: expect.objectContaining({ reason: 'rate_limited' }),
+    }))
+  })
+
+  it('falls back to the normal failure path after too many deferrals', async () => {
+    const job = buildJob({ rateLimitDeferrals: 20 })
+    job.opts.attempts = 1
+
+    await expect(withTaskLifecycle(job, async () => {
+      throw new ProviderRateLimitedError('Too many requests', { provider: 'fal', retryAfterMs: 1_000 })
+    })).rejects.toBeInstanceOf(UnrecoverableError)
+
+    expect(job.moveToDelayed).not.toHaveBeenCalled()
+    expect(serviceMock.tryMarkTaskFailed).toHaveBeenCalledWith('task-1', 'RATE_LIMIT', 'Too many requests')
+  })
+})
@@ -27,6 +27,11 @@ const configMock = vi.hoisted(() => ({
 
 const orchestratorMock = vi.hoisted(() => ({
   runStoryToScriptOrchestrator: vi.fn(),
+  runStoryToScriptScreenplayPhase: vi.fn(),
+}))
+const runServiceMock = vi.hoisted(() => ({
+  createArtifact: vi.fn(async () => ({})),
+  listArtifacts: vi.fn(async () => [] as Array<{ payload: unknown }>),
 }))
 const helperMock = vi.hoisted(() => ({
   persistAnalyzedCharacters: vi.fn(async () => [{ id: 'character-new-1' }]),
@@ -76,6 +81,7 @@ vi.mock('@/lib/prompt-i18n', () => ({
     NP_SCREENPLAY_CONVERSION: 'e',
   },
   getPromptTemplate: vi.fn(() => 'prompt-template'),
+  getPromptTemplateVersion: vi.fn(() => 'prompt-version'),
 }))
 vi.mock('@/lib/workers/handlers/story-to-script-helpers', () => ({
   asString: (value: unknown) => (typeof value === 'string' ? value : ''),
@@ -86,8 +92,12 @@ vi.mock('@/lib/workers/handlers/story-to-script-helpers', () => ({
   persistAnalyzedProps: helperMock.persistAnalyzedProps,
   persistClips: helperMock.persistClips,
   resolveClipRecordId: (clipIdMap: Map<string, string>, clipId: string) => clipIdMap.get(clipId) ?? null,
+  toStringArray: (value: unknown) => (Array.isArray(value)
+    ? value.map((item) => (typeof item === 'string' ? item.trim() : '')).filter(Boolean)
+    : []),
 }))
 vi.mock('@/lib/run-runtime/workflow-lease', () => workflowLeaseMock)
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
 
 import { handleStoryToScriptTask } from '@/lib/workers/handlers/story-to-script'
 
@@ -221,4 +231,41 @@ describe('worker story-to-script behavior', () => {
     const job = buildJob({ episodeId: 'episode-1', content: 'input content' })
     await expect(handleStoryToScriptTask(job)).rejects.toThrow('STORY_TO_SCRIPT_PARTIAL_FAILED')
   })
+
+  it('resume from overridden split_clips -> reruns only screenplay steps and re-persists clips', async () => {
+    runServiceMock.listArtifacts.mockResolvedValueOnce([{
+      payload: {
+        clipList: [{ id: 'clip-1', content: 'edited clip content', characters: ['Hero'] }],
+        charactersLibName: 'Hero',
+      },
+    }])
+    orchestratorMock.runStoryToScriptScreenplayPhase.mockResolvedValueOnce([
+      { clipId: 'clip-1', success: true, sceneCount: 1, screenplay: { scenes: [{ shot: 'wide' }] } },
+    ])
+
+    const job = buildJob({ episodeId: 'episode-1', resumeFromStepKey: 'split_clips', resumeAttempt: 2 })
+    const result = await handleStoryToScriptTask(job)
+
+    expect(orchestratorMock.runStoryToScriptOrchestrator).not.toHaveBeenCalled()
+    expect(helperMock.persistAnalyzedCharacters).not.toHaveBeenCalled()
+    expect(orchestratorMock.runStoryToScriptScreenplayPhase).toHaveBeenCalledWith(expect.objectContaining({
+      clipList: [expect.objectContaining({ id: 'clip-1', content: 'edited clip content', characters: ['Hero'] })],
+      charactersLibName: 'Hero',
+    }))
+    expect(runServiceMock.createArtifact).toHaveBeenCalledWith(expect.objectContaining({
+      stepKey: 'screenplay_clip-1',
+      artifactType: 'screenplay.clip',
+    }))
+    expect(prismaMock.novelPromotionClip.update).toHaveBeenCalledWith({
+      where: { id: 'clip-row-1' },
+      data: {
+        screenplay: JSON.stringify({ scenes: [{ shot: 'wide' }] }),
+      },
+    })
+    expect(result).toEqual(expect.objectContaining({
+      clipCount: 1,
+      persistedClips: 1,
+      resumeFromStepKey: 'split_clips',
+    }))
+  })
 })
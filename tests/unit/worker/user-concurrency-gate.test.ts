@@ -1,5 +1,52 @@
-import { describe, expect, it } from 'vitest'
-import { withUserConcurrencyGate } from '@/lib/workers/user-concurrency-gate'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const redisState = vi.hoisted(() => ({
+  sets: new Map<string, Map<string, number>>(),
+}))
+
+vi.mock('@/lib/redis', () => {
+  const getSet = (key: string) => {
+    const existing = redisState.sets.get(key)
+    if (existing) return existing
+    const created = new Map<string, number>()
+    redisState.sets.set(key, created)
+    return created
+  }
+
+  // 按脚本内容模拟 acquire / renew 两个 Lua 脚本
+  const evalScript = vi.fn(async (script: string, _numKeys: number, key: string, ...args: Array<string | number>) => {
+    const set = getSet(key)
+    const now = Number(args[0])
+    const leaseMs = Number(args[1])
+    if (script.includes('ZCARD')) {
+      const limit = Number(args[2])
+      const member = String(args[3])
+      for (const [id, expiresAt] of set) {
+        if (expiresAt <= now) set.delete(id)
+      }
+      if (set.size >= limit) return 0
+      set.set(member, now + leaseMs)
+      return 1
+    }
+    const member = String(args[2])
+    if (!set.has(member)) return 0
+    set.set(member, now + leaseMs)
+    return 1
+  })
+
+  return {
+    redis: {
+      eval: evalScript,
+      zrem: vi.fn(async (key: string, member: string) => (getSet(key).delete(member) ? 1 : 0)),
+      zcount: vi.fn(async (key: string, min: string) => {
+        const floor = Number(min.replace('(', ''))
+        return Array.from(getSet(key).values()).filter((expiresAt) => expiresAt > floor).length
+      }),
+    },
+  }
+})
+
+import { getUserConcurrencyUsage, withUserConcurrencyGate } from '@/lib/workers/user-concurrency-gate'
 
 function deferred<T>() {
   let resolve!: (value: T | PromiseLike<T>) => void
@@ -9,7 +56,17 @@ function deferred<T>() {
   return { promise, resolve }
 }
 
+async function flush() {
+  for (let i = 0; i < 5; i += 1) {
+    await Promise.resolve()
+  }
+}
+
 describe('user concurrency gate', () => {
+  beforeEach(() => {
+    redisState.sets.clear()
+  })
+
   it('serializes same-scope work for the same user when limit is 1', async () => {
     const firstDone = deferred<void>()
     const events: string[] = []
@@ -35,7 +92,7 @@ describe('user concurrency gate', () => {
       },
     })
 
-    await Promise.resolve()
+    await flush()
     expect(events).toEqual(['first:start'])
 
     firstDone.resolve()
@@ -48,4 +105,43 @@ describe('user concurrency gate', () => {
       'second:end',
     ])
   })
+
+  it('shares slots across gate callers and reports per-scope usage', async () => {
+    const done = deferred<void>()
+    const running = [
+      withUserConcurrencyGate({ scope: 'analysis', userId: 'user-1', limit: 2, run: async () => await done.promise }),
+      withUserConcurrencyGate({ scope: 'video', userId: 'user-1', limit: 2, run: async () => await done.promise }),
+    ]
+    await flush()
+
+    expect(await getUserConcurrencyUsage('user-1')).toEqual({ analysis: 1, image: 0, video: 1 })
+    expect(await getUserConcurrencyUsage('user-2')).toEqual({ analysis: 0, image: 0, video: 0 })
+
+    done.resolve()
+    await Promise.all(running)
+    expect(await getUserConcurrencyUsage('user-1')).toEqual({ analysis: 0, image: 0, video: 0 })
+  })
+
+  it('reclaims slots whose lease expired after a worker crash', async () => {
+    redisState.sets.set('concurrency:image:user-1', new Map([['crashed-lease', Date.now() - 1]]))
+
+    const result = await withUserConcurrencyGate({
+      scope: 'image',
+      userId: 'user-1',
+      limit: 1,
+      run: async () => 'ok',
+    })
+
+    expect(result).toBe('ok')
+    expect(redisState.sets.get('concurrency:image:user-1')?.has('crashed-lease')).toBe(false)
+  })
+
+  it('rejects invalid limits', async () => {
+    await expect(withUserConcurrencyGate({
+      scope: 'video',
+      userId: 'user-1',
+      limit: 0,
+      run: async () => 'never',
+    })).rejects.toThrow('WORKFLOW_CONCURRENCY_INVALID')
+  })
 })
@@ -0,0 +1,204 @@
+import fs from 'node:fs/promises'
+import type { Job } from 'bullmq'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TaskTerminatedError } from '@/lib/task/errors'
+import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
+
+const prismaMock = vi.hoisted(() => ({
+  videoEditorProject: {
+    findUnique: vi.fn(),
+    updateMany: vi.fn(async () => ({ count: 1 })),
+  },
+}))
+
+const workerMock = vi.hoisted(() => ({
+  reportTaskProgress: vi.fn(async () => undefined),
+  assertTaskActive: vi.fn(async () => undefined),
+  toSignedUrlIfCos: vi.fn((url: string | null) => (url && url.startsWith('video/') ? `/api/storage/sign?key=${url}` : url)),
+}))
+
+const storageMock = vi.hoisted(() => ({
+  generateUniqueKey: vi.fn((prefix: string, ext: string) => `video/${prefix}.${ext}`),
+  toFetchableUrl: vi.fn((url: string) => (url.startsWith('/') ? `http://internal${url}` : url)),
+  uploadObject: vi.fn(async (_body: Buffer, key: string) => key),
+}))
+
+const mediaMock = vi.hoisted(() => ({
+  ensureMediaObjectFromStorageKey: vi.fn(async (storageKey: string) => ({
+    id: 'media-1',
+    publicId: 'pub-1',
+    url: '/m/pub-1',
+    storageKey,
+  })),
+}))
+
+const rendererMock = vi.hoisted(() => ({
+  renderEditorComposition: vi.fn(async (params: {
+    outputLocation: string
+    onProgress?: (progress: { progress: number; renderedFrames: number; encodedFrames: number; totalFrames: number }) => void
+  }) => {
+    params.onProgress?.({ progress: 0.5, renderedFrames: 45, encodedFrames: 40, totalFrames: 90 })
+    await fs.writeFile(params.outputLocation, Buffer.from('rendered-video'))
+    return {
+      outputLocation: params.outputLocation,
+      durationInFrames: 90,
+      fps: 30,
+      width: 1920,
+      height: 1080,
+    }
+  }),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/workers/shared', () => ({ reportTaskProgress: workerMock.reportTaskProgress }))
+vi.mock('@/lib/workers/utils', () => ({
+  assertTaskActive: workerMock.assertTaskActive,
+  toSignedUrlIfCos: workerMock.toSignedUrlIfCos,
+}))
+vi.mock('@/lib/storage', () => storageMock)
+vi.mock('@/lib/media/service', () => mediaMock)
+vi.mock('@/lib/logging/core', () => ({
+  logWarn: vi.fn(),
+  createScopedLogger: vi.fn(() => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn() })),
+}))
+vi.mock('@/lib/video-render', async () => {
+  const settings = await vi.importActual<typeof import('@/lib/video-render/settings')>('@/lib/video-render/settings')
+  return {
+    ...settings,
+    renderEditorComposition: rendererMock.renderEditorComposition,
+  }
+})
+
+import { handleVideoRenderTask } from '@/lib/workers/handlers/video-render-task-handler'
+
+function buildProjectData(timeline: unknown[]) {
+  return JSON.stringify({
+    id: 'editor-json-1',
+    episodeId: 'episode-1',
+    schemaVersion: '1.0',
+    config: { fps: 30, width: 1920, height: 1080 },
+    timeline,
+    bgmTrack: [
+      { id: 'bgm-1', src: 'https://cdn.example/bgm.mp3', startFrame: 0, durationInFrames: 90, volume: 0.3 },
+    ],
+  })
+}
+
+function buildJob(payload: Record<string, unknown>): Job<TaskJobData> {
+  return {
+    data: {
+      taskId: 'task-render-1',
+      type: TASK_TYPE.VIDEO_RENDER,
+      locale: 'zh',
+      projectId: 'project-1',
+      episodeId: 'episode-1',
+      targetType: 'VideoEditorProject',
+      targetId: 'editor-1',
+      payload,
+      userId: 'user-1',
+    },
+  } as unknown as Job<TaskJobData>
+}
+
+describe('worker video-render-task-handler behavior', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prismaMock.videoEditorProject.findUnique.mockResolvedValue({
+      id: 'editor-1',
+      episodeId: 'episode-1',
+      projectData: buildProjectData([
+        {
+          id: 'clip-1',
+          src: 'video/panel-1.mp4',
+          durationInFrames: 90,
+          attachment: { audio: { src: '/m/voice-1', volume: 1 } },
+          metadata: { panelId: 'panel-1', storyboardId: 'storyboard-1' },
+        },
+      ]),
+    })
+  })
+
+  it('editor project missing -> explicit error', async () => {
+    prismaMock.videoEditorProject.findUnique.mockResolvedValueOnce(null)
+    await expect(handleVideoRenderTask(buildJob({}))).rejects.toThrow('Editor project not found')
+  })
+
+  it('empty timeline -> fails and marks render status failed for this task', async () => {
+    prismaMock.videoEditorProject.findUnique.mockResolvedValueOnce({
+      id: 'editor-1',
+      episodeId: 'episode-1',
+      projectData: buildProjectData([]),
+    })
+
+    await expect(handleVideoRenderTask(buildJob({}))).rejects.toThrow('VIDEO_RENDER_TIMELINE_EMPTY')
+    expect(rendererMock.renderEditorComposition).not.toHaveBeenCalled()
+    expect(prismaMock.videoEditorProject.updateMany).toHaveBeenCalledWith({
+      where: { id: 'editor-1', renderTaskId: 'task-render-1' },
+      data: { renderStatus: 'failed' },
+    })
+  })
+
+  it('renders with fetchable media urls, reports frame progress and persists output media', async () => {
+    const result = await handleVideoRenderTask(buildJob({ format: 'webm', quality: 'draft' }))
+
+    expect(rendererMock.renderEditorComposition).toHaveBeenCalledWith(expect.objectContaining({
+      settings: expect.objectContaining({ codec: 'vp8', scale: 0.5, mimeType: 'video/webm' }),
+      inputProps: expect.objectContaining({
+        clips: [
+          expect.objectContaining({
+            src: 'http://internal/api/storage/sign?key=video/panel-1.mp4',
+            attachment: { audio: { src: 'http://internal/m/voice-1', volume: 1 } },
+          }),
+        ],
+        bgmTrack: [expect.objectContaining({ src: 'https://cdn.example/bgm.mp3' })],
+      }),
+    }))
+    expect(workerMock.reportTaskProgress).toHaveBeenCalledWith(expect.anything(), 50, {
+      stage: 'render_video_frames',
+      renderedFrames: 45,
+      totalFrames: 90,
+    })
+
+    expect(storageMock.uploadObject).toHaveBeenCalledWith(
+      Buffer.from('rendered-video'),
+      'video/editor-render-editor-1.webm',
+      undefined,
+      'video/webm',
+    )
+    expect(mediaMock.ensureMediaObjectFromStorageKey).toHaveBeenCalledWith('video/editor-render-editor-1.webm', {
+      mimeType: 'video/webm',
+      sizeBytes: Buffer.from('rendered-video').length,
+      width: 1920,
+      height: 1080,
+      durationMs: 3000,
+    })
+    expect(prismaMock.videoEditorProject.updateMany).toHaveBeenCalledWith({
+      where: { id: 'editor-1', renderTaskId: 'task-render-1', renderStatus: { in: ['pending', 'rendering'] } },
+      data: { renderStatus: 'rendering' },
+    })
+    expect(prismaMock.videoEditorProject.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'editor-1', renderTaskId: 'task-render-1' },
+      data: {
+        renderStatus: 'completed',
+        outputUrl: 'video/editor-render-editor-1.webm',
+        outputMediaId: 'media-1',
+      },
+    })
+    expect(result).toEqual({
+      editorProjectId: 'editor-1',
+      outputUrl: '/m/pub-1',
+      format: 'webm',
+      quality: 'draft',
+      durationInFrames: 90,
+    })
+  })
+
+  it('render already taken over by a newer task -> stops without rendering', async () => {
+    prismaMock.videoEditorProject.updateMany.mockResolvedValueOnce({ count: 0 })
+
+    await expect(handleVideoRenderTask(buildJob({}))).rejects.toBeInstanceOf(TaskTerminatedError)
+
+    expect(rendererMock.renderEditorComposition).not.toHaveBeenCalled()
+    expect(storageMock.uploadObject).not.toHaveBeenCalled()
+  })
+})
@@ -190,6 +190,7 @@ describe('worker video processor behavior', () => {
       'https://provider.example/video.mp4',
       'panel-video',
       'panel-1',
+      'user-1',
       {
         Authorization: 'Bearer oa-key',
       },
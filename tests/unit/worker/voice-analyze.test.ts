@@ -29,7 +29,19 @@ const workerMock = vi.hoisted(() => ({
   assertTaskActive: vi.fn(async () => undefined),
 }))
 
+const runServiceMock = vi.hoisted(() => ({
+  createArtifact: vi.fn(async () => ({})),
+}))
+
 vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
+vi.mock('@/lib/run-runtime/workflow-lease', () => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
 vi.mock('@/lib/llm-client', () => llmMock)
 vi.mock('@/lib/llm-observe/internal-stream-context', () => ({
   withInternalLLMStreamCallbacks: vi.fn(async (_callbacks: unknown, fn: () => Promise<unknown>) => await fn()),
@@ -49,7 +61,8 @@ vi.mock('@/lib/workers/handlers/llm-stream', () => ({
     flush: vi.fn(async () => undefined),
   })),
 }))
-vi.mock('@/lib/workers/handlers/voice-analyze-helpers', () => ({
+vi.mock('@/lib/workers/handlers/voice-analyze-helpers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/workers/handlers/voice-analyze-helpers')>()),
   buildStoryboardJson: helperMock.buildStoryboardJson,
   parseVoiceLinesJson: helperMock.parseVoiceLinesJson,
 }))
@@ -70,7 +83,7 @@ function buildJob(payload: Record<string, unknown>, episodeId: string | null = '
       episodeId,
       targetType: 'NovelPromotionEpisode',
       targetId: 'episode-1',
-      payload,
+      payload: { runId: 'run-1', ...payload },
       userId: 'user-1',
     },
   } as unknown as Job<TaskJobData>
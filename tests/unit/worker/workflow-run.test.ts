@@ -0,0 +1,167 @@
+import type { Job } from 'bullmq'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TASK_TYPE, type TaskJobData } from '@/lib/task/types'
+
+const runServiceMock = vi.hoisted(() => ({
+  findReusableActiveRun: vi.fn(async () => null as { id: string; taskId: string | null } | null),
+  createRun: vi.fn(async () => ({ id: 'run-new', taskId: 'task-1' })),
+  attachTaskToRun: vi.fn(async () => ({})),
+}))
+const taskServiceMock = vi.hoisted(() => ({
+  updateTaskPayload: vi.fn(async () => ({})),
+}))
+
+const leaseMock = vi.hoisted(() => ({
+  assertWorkflowRunActive: vi.fn(async () => undefined),
+  withWorkflowRunLease: vi.fn(async (params: { run: () => Promise<unknown> }) => ({
+    claimed: true,
+    result: await params.run(),
+  })),
+}))
+const aiMock = vi.hoisted(() => ({
+  executeAiTextStep: vi.fn(),
+}))
+const streamCallbacks = vi.hoisted(() => ({
+  flush: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/lib/run-runtime/service', () => runServiceMock)
+vi.mock('@/lib/task/service', () => taskServiceMock)
+vi.mock('@/lib/run-runtime/workflow-lease', () => leaseMock)
+vi.mock('@/lib/ai-runtime', () => aiMock)
+vi.mock('@/lib/llm-observe/internal-stream-context', () => ({
+  withInternalLLMStreamCallbacks: vi.fn(async (_callbacks: unknown, fn: () => Promise<unknown>) => await fn()),
+}))
+vi.mock('@/lib/workers/handlers/llm-stream', () => ({
+  createWorkerLLMStreamContext: vi.fn(),
+  createWorkerLLMStreamCallbacks: vi.fn(() => streamCallbacks),
+}))
+
+import { TaskTerminatedError } from '@/lib/task/errors'
+import {
+  resolveWorkflowRunId,
+  runWorkflowTextStep,
+  runWorkflowWithLease,
+} from '@/lib/workers/handlers/workflow-run'
+
+function buildJob(payload: Record<string, unknown>): Job<TaskJobData> {
+  return {
+    data: {
+      taskId: 'task-1',
+      type: TASK_TYPE.CLIPS_BUILD,
+      locale: 'zh',
+      projectId: 'project-1',
+      episodeId: 'episode-1',
+      targetType: 'NovelPromotionEpisode',
+      targetId: 'episode-1',
+      payload,
+      userId: 'user-1',
+    },
+  } as unknown as Job<TaskJobData>
+}
+
+describe('resolveWorkflowRunId', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('uses the runId bound at submit time', async () => {
+    const payload = { episodeId: 'episode-1', meta: { runId: 'run-1' } }
+
+    await expect(resolveWorkflowRunId(buildJob(payload), payload)).resolves.toBe('run-1')
+    expect(runServiceMock.createRun).not.toHaveBeenCalled()
+    expect(taskServiceMock.updateTaskPayload).not.toHaveBeenCalled()
+  })
+
+  it('creates and attaches a run for jobs queued without a runId', async () => {
+    const payload = { episodeId: 'episode-1', meta: { locale: 'zh' } }
+
+    await expect(resolveWorkflowRunId(buildJob(payload), payload)).resolves.toBe('run-new')
+    expect(runServiceMock.createRun).toHaveBeenCalledWith(expect.objectContaining({
+      workflowType: TASK_TYPE.CLIPS_BUILD,
+      taskId: 'task-1',
+      targetId: 'episode-1',
+    }))
+    expect(taskServiceMock.updateTaskPayload).toHaveBeenCalledWith('task-1', {
+      episodeId: 'episode-1',
+      runId: 'run-new',
+      meta: { locale: 'zh', runId: 'run-new' },
+    })
+    expect(runServiceMock.attachTaskToRun).toHaveBeenCalledWith('run-new', 'task-1')
+  })
+
+  it('reuses the active run already attached to the task on queue retry', async () => {
+    runServiceMock.findReusableActiveRun.mockResolvedValueOnce({ id: 'run-existing', taskId: 'task-1' })
+    const payload = { episodeId: 'episode-1' }
+
+    await expect(resolveWorkflowRunId(buildJob(payload), payload)).resolves.toBe('run-existing')
+    expect(runServiceMock.createRun).not.toHaveBeenCalled()
+    expect(runServiceMock.attachTaskToRun).toHaveBeenCalledWith('run-existing', 'task-1')
+  })
+})
+
+describe('workflow step helpers', () => {
+  const meta = { stepId: 'split_clips', stepAttempt: 2, stepTitle: '片段切分', stepIndex: 1, stepTotal: 1 }
+  const input = { model: 'llm::analysis', messages: [{ role: 'user' as const, content: 'prompt' }], action: 'split_clips' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns a skipped result when another worker holds the run lease', async () => {
+    leaseMock.withWorkflowRunLease.mockResolvedValueOnce({ claimed: false, result: null })
+    const run = vi.fn(async () => ({ count: 1 }))
+
+    const result = await runWorkflowWithLease(buildJob({}), {
+      runId: 'run-1',
+      label: 'clips_build',
+      skipped: { episodeId: 'episode-1' },
+    }, run)
+
+    expect(result).toEqual({ runId: 'run-1', skipped: true, episodeId: 'episode-1' })
+    expect(run).not.toHaveBeenCalled()
+    expect(leaseMock.withWorkflowRunLease).toHaveBeenCalledWith(expect.objectContaining({
+      runId: 'run-1',
+      userId: 'user-1',
+      workerId: expect.stringMatching(/^clips_build:.*:task-1$/),
+    }))
+  })
+
+  it('retries a failed parse within the step and counts attempts from the retry base', async () => {
+    aiMock.executeAiTextStep
+      .mockResolvedValueOnce({ text: 'not json' })
+      .mockResolvedValueOnce({ text: '[1]' })
+
+    const job = buildJob({})
+    const result = await runWorkflowWithLease(job, { runId: 'run-1', label: 'clips_build' }, async (context) => (
+      await runWorkflowTextStep(job, context, {
+        input,
+        meta,
+        maxAttempts: 2,
+        parse: (text) => JSON.parse(text) as number[],
+      })
+    ))
+
+    expect(result).toEqual([1])
+    expect(aiMock.executeAiTextStep.mock.calls.map(([call]) => call.meta.stepAttempt)).toEqual([2, 3])
+    expect(aiMock.executeAiTextStep).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', action: 'split_clips' }))
+    expect(leaseMock.assertWorkflowRunActive).toHaveBeenCalledWith(expect.objectContaining({ stage: 'clips_build_attempt:2' }))
+    expect(streamCallbacks.flush).toHaveBeenCalledTimes(1)
+  })
+
+  it('throws the last error after all attempts and stops at once when the task is terminated', async () => {
+    const job = buildJob({})
+    const runStep = async () => await runWorkflowWithLease(job, { runId: 'run-1', label: 'clips_build' }, async (context) => (
+      await runWorkflowTextStep(job, context, { input, meta, maxAttempts: 2, parse: (text) => text })
+    ))
+
+    aiMock.executeAiTextStep.mockResolvedValue({ text: '  ' })
+    await expect(runStep()).rejects.toThrow('No response from AI')
+    expect(aiMock.executeAiTextStep).toHaveBeenCalledTimes(2)
+
+    aiMock.executeAiTextStep.mockReset()
+    aiMock.executeAiTextStep.mockRejectedValueOnce(new TaskTerminatedError('task-1'))
+    await expect(runStep()).rejects.toBeInstanceOf(TaskTerminatedError)
+    expect(aiMock.executeAiTextStep).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'vitest'
 import { TASK_TYPE } from '@/lib/task/types'
-import { getWorkflowDefinition, resolveWorkflowRetryInvalidationStepKeys } from '@/lib/workflow-engine/registry'
+import {
+  getWorkflowDefinition,
+  getWorkflowOverridableStep,
+  isWorkflowType,
+  parseAnalyzeGlobalChunkIndex,
+  resolveWorkflowRetryInvalidationStepKeys,
+} from '@/lib/workflow-engine/registry'
 
 describe('workflow registry', () => {
   it('returns stable workflow definitions for run-centric flows', () => {
@@ -23,6 +29,51 @@ describe('workflow registry', () => {
     ])
   })
 
+  it('registers the single-task analysis flows as graph workflows', () => {
+    for (const taskType of [
+      TASK_TYPE.ANALYZE_GLOBAL,
+      TASK_TYPE.EPISODE_SPLIT_LLM,
+      TASK_TYPE.SCREENPLAY_CONVERT,
+      TASK_TYPE.CLIPS_BUILD,
+      TASK_TYPE.VOICE_ANALYZE,
+    ]) {
+      expect(isWorkflowType(taskType)).toBe(true)
+      expect(getWorkflowDefinition(taskType)?.orderedSteps.length).toBeGreaterThan(0)
+    }
+    expect(isWorkflowType(TASK_TYPE.VOICE_LINE)).toBe(false)
+    expect(isWorkflowType('toString')).toBe(false)
+  })
+
+  it('invalidates the retried analyze_global chunk and every later chunk', () => {
+    expect(parseAnalyzeGlobalChunkIndex('analyze_global_props_12')).toBe(12)
+    expect(parseAnalyzeGlobalChunkIndex('analyze_global_chunk_0')).toBeNull()
+    expect(resolveWorkflowRetryInvalidationStepKeys({
+      workflowType: TASK_TYPE.ANALYZE_GLOBAL,
+      stepKey: 'analyze_global_locations_2',
+      existingStepKeys: [
+        'analyze_global_chunk_1',
+        'analyze_global_characters_1',
+        'analyze_global_chunk_2',
+        'analyze_global_characters_2',
+        'analyze_global_locations_2',
+        'analyze_global_chunk_3',
+      ],
+    }).sort()).toEqual([
+      'analyze_global_characters_2',
+      'analyze_global_chunk_2',
+      'analyze_global_chunk_3',
+      'analyze_global_locations_2',
+    ])
+  })
+
+  it('keeps screenplay clip retries isolated to the failed clip', () => {
+    expect(resolveWorkflowRetryInvalidationStepKeys({
+      workflowType: TASK_TYPE.SCREENPLAY_CONVERT,
+      stepKey: 'screenplay_clip_clip-2',
+      existingStepKeys: ['screenplay_clip_clip-1', 'screenplay_clip_clip-2'],
+    })).toEqual(['screenplay_clip_clip-2'])
+  })
+
   it('invalidates downstream story-to-script screenplay steps when split inputs change', () => {
     expect(resolveWorkflowRetryInvalidationStepKeys({
       workflowType: TASK_TYPE.STORY_TO_SCRIPT_RUN,
@@ -54,4 +105,47 @@ describe('workflow registry', () => {
       'voice_analyze',
     ])
   })
+
+  it('only allows split_clips output overrides with a complete clip list', () => {
+    const splitClips = getWorkflowOverridableStep({
+      workflowType: TASK_TYPE.STORY_TO_SCRIPT_RUN,
+      stepKey: 'split_clips',
+    })
+    expect(getWorkflowOverridableStep({
+      workflowType: TASK_TYPE.STORY_TO_SCRIPT_RUN,
+      stepKey: 'analyze_characters',
+    })).toBeNull()
+    expect(getWorkflowOverridableStep({
+      workflowType: TASK_TYPE.SCRIPT_TO_STORYBOARD_RUN,
+      stepKey: 'voice_analyze',
+    })).toBeNull()
+
+    const validate = splitClips?.validateOutputOverride
+    expect(validate?.({
+      artifactType: 'clips.split',
+      payload: { clipList: [{ id: 'clip_1', content: 'text' }] },
+    })).toBeNull()
+    expect(validate?.({ artifactType: 'step.output', payload: {} })).toBe('RUN_STEP_OVERRIDE_ARTIFACT_UNSUPPORTED')
+    expect(validate?.({ artifactType: 'clips.split', payload: { clipList: [] } })).toBe('RUN_STEP_OVERRIDE_CLIPS_EMPTY')
+    expect(validate?.({
+      artifactType: 'clips.split',
+      payload: { clipList: [{ id: 'clip_1', content: 'a' }, { id: 'clip_1', content: 'b' }] },
+    })).toBe('RUN_STEP_OVERRIDE_CLIP_INVALID')
+  })
+
+  it('autopilot retry invalidates the retried stage and every later stage', () => {
+    expect(resolveWorkflowRetryInvalidationStepKeys({
+      workflowType: TASK_TYPE.AUTOPILOT_RUN,
+      stepKey: 'panel_images',
+      existingStepKeys: [
+        'analyze_assets',
+        'approve_assets',
+        'story_to_script',
+        'script_to_storyboard',
+        'asset_images',
+        'panel_images',
+        'panel_videos',
+      ],
+    })).toEqual(['panel_images', 'panel_videos'])
+  })
 })